@@ -3,12 +3,42 @@ import {
   AVAILABLE_MODEL_COLORS,
   AVAILABLE_MODEL_LOGO_IDS,
   AVAILABLE_REASONING_EFFORTS,
+  DEFAULT_LLM_PROVIDER_ID,
   DEFAULT_MODEL_REASONING_EFFORT,
+  MODEL_PERSONA_MAX_LENGTH,
   REASONING_EFFORT_UNDEFINED,
   normalizeHexColor,
+  type LlmProvider,
+  type LlmProviderKind,
   type ModelReasoningEffort,
   type ModelCatalogEntry,
 } from "./shared/models";
+import {
+  PERSONA_PRESETS,
+  PROMPT_TEMPLATE_KINDS,
+  PROMPT_TEMPLATE_VARIABLES,
+  type PromptTemplateKind,
+  type PromptTemplateVersions,
+} from "./shared/promptTemplates";
+import {
+  DEFAULT_SHOW_LANGUAGE,
+  SHOW_LANGUAGES,
+  SHOW_LANGUAGE_LABELS,
+  normalizeShowLanguage,
+} from "./shared/i18n";
+import { indexFromSide, type ContestantSide } from "./shared/rounds";
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from "./shared/webhooks";
+import {
+  DATASET_EXPORT_ENTITIES,
+  type DatasetExportEntity,
+  type DatasetExportFormat,
+} from "./shared/datasetExport";
+import {
+  PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+  TOURNAMENT_BEST_OF_OPTIONS,
+  TOURNAMENT_MAX_PARTICIPANTS,
+  VIEWER_PROMPT_EVERY_N_ROUNDS,
+} from "./config";
 import "./admin.css";
 
 type AdminSnapshot = {
@@ -22,8 +52,24 @@ type AdminSnapshot = {
   canRunRounds: boolean;
   runBlockedReason: "insufficient_active_models" | "insufficient_role_coverage" | null;
   enabledModelIds: string[];
+  contestantsPerRound: number;
+  showLanguage: string;
+  runsMode: "infinite" | "finite" | "tournament";
+  tournament: AdminTournament | null;
 };
 
+type AdminTournament = {
+  status: "active" | "completed" | "cancelled";
+  format: TournamentFormat;
+  bestOf: number;
+  participantCount: number;
+  matches: Array<{ id: string; label: string; status: "pending" | "ready" | "done" | "bye" }>;
+  currentMatchId: string | null;
+  champion: { name: string } | null;
+};
+
+type TournamentFormat = "single_elimination" | "double_elimination";
+
 type ViewerTarget = {
   _id: string;
   platform: "twitch" | "youtube";
@@ -144,8 +190,250 @@ type ModelsResponse = {
   projectionBootstrap?: ProjectionBootstrapPayload | null;
   projection?: ProjectionPayload;
 } & Partial<AdminSnapshot>;
+type ViewerPrompt = {
+  _id: string;
+  text: string;
+  submitterName: string;
+  source: "web" | "chat";
+  status: "pending" | "approved" | "rejected" | "used";
+  createdAt: number;
+  reviewedAt?: number;
+  usedAt?: number;
+};
+type ViewerPromptsResponse = {
+  ok: true;
+  pending: ViewerPrompt[];
+  approved: ViewerPrompt[];
+  reviewed: ViewerPrompt[];
+};
+type PromptExample = {
+  _id: string;
+  text: string;
+  category?: string;
+  tags: string[];
+  language: string;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+type PromptExamplesResponse = { ok: true; examples: PromptExample[] };
+type PromptExamplesImportResponse = PromptExamplesResponse & { inserted: number; updated: number; skipped: number };
+type PromptExampleFilter = "all" | "enabled" | "disabled";
+type PromptSimilarityRound = {
+  _id: string;
+  num: number;
+  prompt: string;
+  prompter: { id: string; name: string; color?: string };
+  similarity: {
+    score: number;
+    match: string;
+    source: "round" | "example";
+    matchRoundNum?: number;
+    regenerations: number;
+  };
+  createdAt: number;
+};
+type PromptSimilarityResponse = { ok: true; threshold: number; rounds: PromptSimilarityRound[] };
+type ModerationAction = "regenerate" | "replace" | "hold";
+type ModerationRuleKind = "word" | "regex";
+type ModerationRule = {
+  _id: string;
+  pattern: string;
+  kind: ModerationRuleKind;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+type ModerationEvent = {
+  _id: string;
+  roundNum: number;
+  kind: "prompt" | "answer";
+  answerIndex?: number;
+  modelId: string;
+  modelName: string;
+  text: string;
+  source: "blocklist" | "judge";
+  reasons: string[];
+  action: "regenerated" | "replaced" | "held";
+  replacement?: string;
+  createdAt: number;
+};
+type ModerationResponse = {
+  ok: true;
+  action: ModerationAction;
+  judgeModelId: string | null;
+  rules: ModerationRule[];
+  events: ModerationEvent[];
+};
+type WebhookEntry = {
+  _id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  description: string | null;
+  createdAt: number;
+};
+type WebhookDelivery = {
+  _id: string;
+  webhookId: string;
+  url: string | null;
+  event: string;
+  status: "pending" | "success" | "failed";
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: number | null;
+  createdAt: number;
+};
+type WebhooksResponse = {
+  ok: true;
+  maxAttempts: number;
+  webhooks: WebhookEntry[];
+  deliveries: WebhookDelivery[];
+};
+type SeasonSummary = {
+  generation: number;
+  name: string;
+  startedAt: number;
+  endedAt: number | null;
+  completedRounds: number;
+  isCurrent: boolean;
+  roundsKept: boolean;
+  aiChampion: string | null;
+  humanChampion: string | null;
+};
+type SeasonsResponse = { ok: true; seasons: SeasonSummary[] };
+type ImportSections = { models: boolean; viewerTargets: boolean; telegram: boolean; rounds: boolean };
+type ImportDiff = {
+  exportedAt: string | null;
+  errors: string[];
+  models: {
+    create: string[];
+    update: { modelId: string; fields: string[] }[];
+    unchanged: number;
+    conflicts: string[];
+    missingProviders: string[];
+  };
+  viewerTargets: { create: string[]; update: string[]; unchanged: number };
+  telegram: {
+    current: { enabled: boolean; channelId: string };
+    incoming: { enabled: boolean; channelId: string } | null;
+    hasToken: boolean;
+  };
+  rounds: {
+    count: number;
+    ignored: number;
+    currentGeneration: number;
+    currentCompletedRounds: number;
+    nextGeneration: number;
+  };
+};
+type ImportResponse = {
+  ok: true;
+  dryRun: boolean;
+  sections: ImportSections;
+  diff: ImportDiff;
+  result?: {
+    models?: { created: number; updated: number; skipped: number };
+    viewerTargets?: { created: number; updated: number };
+    telegram?: { restored: boolean; enabled: boolean };
+    rounds?: { generation: number; imported: number };
+  };
+};
+type ProvidersResponse = { ok: true; providers: LlmProvider[] };
+type ViewerVoteFlagReason = "burst" | "no_presence";
+type FlaggedViewerVote = {
+  _id: string;
+  roundId: string;
+  roundNum: number | null;
+  roundOpen: boolean;
+  viewerId: string;
+  side: ContestantSide;
+  flaggedReasons: ViewerVoteFlagReason[];
+  flaggedAt: number;
+  excludedAt: number | null;
+};
+type VoteIntegrityResponse = {
+  ok: true;
+  settings: { challengeBits: number };
+  limits: {
+    rateLimitMax: number;
+    rateLimitWindowMs: number;
+    burstThreshold: number;
+    burstWindowMs: number;
+    maxChallengeBits: number;
+  };
+  activeRound: { roundId: string; num: number; phase: string } | null;
+  votes: FlaggedViewerVote[];
+};
+type BudgetLimitKey = "hourlyUsd" | "dailyUsd" | "monthlyUsd" | "modelDailyUsd";
+type BudgetLimits = Record<BudgetLimitKey, number | null>;
+type BudgetAlert = {
+  _id: string;
+  scope: "hourly" | "daily" | "monthly" | "model";
+  periodStart: number;
+  modelId?: string;
+  modelName?: string;
+  limitUsd: number;
+  spentUsd: number;
+  action: "paused" | "model_disabled";
+  reason: string;
+  createdAt: number;
+};
+type BudgetsResponse = {
+  ok: true;
+  limits: BudgetLimits;
+  burn: {
+    hourlyUsd: number;
+    dailyUsd: number;
+    monthlyUsd: number;
+    hourStart: number;
+    dayStart: number;
+    monthStart: number;
+  };
+  models: { modelId: string; modelName: string; dailyUsd: number }[];
+  alerts: BudgetAlert[];
+};
+type PromptTemplate = {
+  _id: string;
+  kind: PromptTemplateKind;
+  version: number;
+  system: string;
+  user: string;
+  note?: string;
+  createdAt: number;
+  recentRounds: number;
+};
+type PromptTemplatesResponse = { ok: true; activeVersions: PromptTemplateVersions; templates: PromptTemplate[] };
+type FairnessModelRow = {
+  modelId: string;
+  name: string;
+  color: string;
+  active: boolean;
+  prompts: number;
+  answers: number;
+  votes: number;
+};
+type FairnessReport = {
+  windowRounds: number;
+  roundCount: number;
+  models: FairnessModelRow[];
+  pairs: { modelA: string; modelB: string; count: number }[];
+};
+type FairnessResponse = { ok: true } & FairnessReport;
 type Mode = "checking" | "locked" | "ready";
-type AdminPage = "operations" | "models" | "targets" | "projections";
+type AdminPage =
+  | "operations"
+  | "models"
+  | "targets"
+  | "prompts"
+  | "examples"
+  | "templates"
+  | "moderation"
+  | "integrations"
+  | "projections";
 type ModelReasoningEffortFormValue = ModelReasoningEffort | typeof REASONING_EFFORT_UNDEFINED;
 type ActionRatios = {
   prompt: number;
@@ -164,11 +452,26 @@ const ADMIN_PAGE_TABS: Array<{ id: AdminPage; label: string; description: string
   { id: "operations", label: "Operacao", description: "Controle do motor e status da rodada." },
   { id: "models", label: "Modelos", description: "Catalogo, papeis e configuracao dos modelos." },
   { id: "targets", label: "Audiencia", description: "Targets de Twitch/YouTube e Telegram para votacao." },
+  { id: "prompts", label: "Temas", description: "Moderacao dos temas enviados pelo publico." },
+  { id: "examples", label: "Exemplos", description: "Banco de exemplos que guia o estilo dos prompts." },
+  { id: "templates", label: "Templates", description: "System prompts versionados de cada etapa da rodada." },
+  { id: "moderation", label: "Moderacao", description: "Bloqueios, modelo juiz e log de textos barrados." },
+  { id: "integrations", label: "Integracoes", description: "Webhooks de saida e log de entregas." },
   { id: "projections", label: "Projecoes", description: "Custos, participacao e simulacao de preco." },
 ];
 
 function parseAdminPage(value: string | null): AdminPage {
-  if (value === "operations" || value === "models" || value === "targets" || value === "projections") {
+  if (
+    value === "operations" ||
+    value === "models" ||
+    value === "targets" ||
+    value === "prompts" ||
+    value === "examples" ||
+    value === "templates" ||
+    value === "moderation" ||
+    value === "integrations" ||
+    value === "projections"
+  ) {
     return value;
   }
   return DEFAULT_ADMIN_PAGE;
@@ -246,6 +549,79 @@ function formatLastPolled(lastPolledAt?: number): string {
   return new Date(lastPolledAt).toLocaleTimeString("pt-BR");
 }
 
+function formatDateTime(value: number): string {
+  return new Date(value).toLocaleString("pt-BR");
+}
+
+const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  regenerate: "Regenerar (depois substituir)",
+  replace: "Substituir",
+  hold: "Reter e pular rodada",
+};
+
+const MODERATION_EVENT_ACTION_LABELS: Record<ModerationEvent["action"], string> = {
+  regenerated: "regenerado",
+  replaced: "substituido",
+  held: "retido",
+};
+
+const DEFAULT_IMPORT_SECTIONS: ImportSections = { models: true, viewerTargets: true, telegram: true, rounds: false };
+
+const IMPORT_SECTION_LABELS: Record<keyof ImportSections, string> = {
+  models: "Modelos",
+  viewerTargets: "Targets de audiencia",
+  telegram: "Telegram (sem token)",
+  rounds: "Rodadas (em nova geracao)",
+};
+
+const DATASET_EXPORT_FORMAT_LABELS: Record<DatasetExportFormat, string> = {
+  jsonl: "JSONL",
+  csv: "CSV (uma entidade)",
+  preferences: "Pares de preferencia (JSONL)",
+};
+
+const DATASET_EXPORT_ENTITY_LABELS: Record<DatasetExportEntity, string> = {
+  rounds: "Rodadas",
+  usage: "Uso de LLM",
+  viewer_votes: "Votos do publico",
+};
+
+const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDelivery["status"], string> = {
+  pending: "pendente",
+  success: "entregue",
+  failed: "falhou",
+};
+
+const PROMPT_TEMPLATE_KIND_LABELS: Record<PromptTemplateKind, string> = {
+  prompt: "Prompt",
+  answer: "Resposta",
+  vote: "Voto",
+};
+
+const VIEWER_VOTE_FLAG_LABELS: Record<ViewerVoteFlagReason, string> = {
+  burst: "rajada de votos",
+  no_presence: "sem presenca na live",
+};
+
+const BUDGET_LIMIT_FIELDS: Array<{ key: BudgetLimitKey; label: string; burnLabel: string }> = [
+  { key: "hourlyUsd", label: "Limite por hora (USD)", burnLabel: "Gasto nesta hora" },
+  { key: "dailyUsd", label: "Limite por dia (USD)", burnLabel: "Gasto hoje" },
+  { key: "monthlyUsd", label: "Limite por mes (USD)", burnLabel: "Gasto neste mes" },
+  { key: "modelDailyUsd", label: "Limite por modelo/dia (USD)", burnLabel: "Maior gasto de modelo hoje" },
+];
+
+const EMPTY_BUDGET_INPUTS: Record<BudgetLimitKey, string> = {
+  hourlyUsd: "",
+  dailyUsd: "",
+  monthlyUsd: "",
+  modelDailyUsd: "",
+};
+
+const LLM_PROVIDER_KIND_LABELS: Record<LlmProviderKind, string> = {
+  openrouter: "Compativel com OpenRouter (custo via /generation)",
+  openai_compatible: "Compativel com OpenAI (custo pela tabela de precos)",
+};
+
 function modelMatchesRole(model: ModelCatalogEntry, filter: ModelRoleFilter): boolean {
   if (filter === "all") return true;
   if (filter === "prompt") return model.canPrompt;
@@ -304,6 +680,20 @@ function secondsInputToMs(value: string): number {
   return Math.round(safePositive(Number(value)) * 1000);
 }
 
+function costInputToPayload(value: string): number | null {
+  const trimmed = value.trim().replace(",", ".");
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error("Preco por 1M tokens invalido");
+  }
+  return parsed;
+}
+
+function costToInput(value?: number): string {
+  return value === undefined ? "" : String(value);
+}
+
 async function readErrorMessage(res: Response): Promise<string> {
   const text = await res.text();
   if (text) return text;
@@ -334,6 +724,41 @@ async function requestAdminJson<T>(
   return (await response.json()) as T;
 }
 
+function getFairnessPairCount(report: FairnessReport, modelA: string, modelB: string): number {
+  const pair = report.pairs.find(
+    (entry) =>
+      (entry.modelA === modelA && entry.modelB === modelB) || (entry.modelA === modelB && entry.modelB === modelA),
+  );
+  return pair?.count ?? 0;
+}
+
+function ViewerPromptRow({ prompt, children }: { prompt: ViewerPrompt; children?: React.ReactNode }) {
+  const statusLabel =
+    prompt.status === "used"
+      ? "usado"
+      : prompt.status === "rejected"
+        ? "rejeitado"
+        : prompt.status === "approved"
+          ? "aprovado"
+          : "pendente";
+  return (
+    <div className="target-row">
+      <div className="target-row__main">
+        <div className="target-row__name">
+          <span className="target-row__platform">{prompt.source === "chat" ? "CHAT" : "SITE"}</span>
+          <span>{prompt.text}</span>
+        </div>
+        <div className="target-row__meta">
+          <span>{prompt.submitterName}</span>
+          <span>{statusLabel}</span>
+          <span>enviado: {formatDateTime(prompt.createdAt)}</span>
+        </div>
+      </div>
+      {children && <div className="target-row__actions">{children}</div>}
+    </div>
+  );
+}
+
 function StatusCard({ label, value }: { label: string; value: string }) {
   return (
     <div className="status-card">
@@ -379,6 +804,10 @@ function App() {
   const [modelCanPrompt, setModelCanPrompt] = useState(true);
   const [modelCanAnswer, setModelCanAnswer] = useState(true);
   const [modelCanVote, setModelCanVote] = useState(true);
+  const [modelProviderId, setModelProviderId] = useState("");
+  const [modelInputCostInput, setModelInputCostInput] = useState("");
+  const [modelOutputCostInput, setModelOutputCostInput] = useState("");
+  const [modelPersona, setModelPersona] = useState("");
   const [editingModelOriginalId, setEditingModelOriginalId] = useState<string | null>(null);
   const [isModelFormOpen, setIsModelFormOpen] = useState(false);
   const [modelSearch, setModelSearch] = useState("");
@@ -394,6 +823,63 @@ function App() {
   const [calcDaysPerWeekInput, setCalcDaysPerWeekInput] = useState("5");
   const [calcDaysPerMonthInput, setCalcDaysPerMonthInput] = useState("22");
   const [calcMonthlyBudgetInput, setCalcMonthlyBudgetInput] = useState("500");
+  const [contestantsPerRoundInput, setContestantsPerRoundInput] = useState("2");
+  const [showLanguageInput, setShowLanguageInput] = useState<string>(DEFAULT_SHOW_LANGUAGE);
+  const [tournamentModelIds, setTournamentModelIds] = useState<string[]>([]);
+  const [tournamentFormat, setTournamentFormat] = useState<TournamentFormat>("single_elimination");
+  const [tournamentBestOf, setTournamentBestOf] = useState("1");
+  const [fairnessReport, setFairnessReport] = useState<FairnessReport | null>(null);
+  const [viewerPrompts, setViewerPrompts] = useState<ViewerPromptsResponse | null>(null);
+  const [promptExamples, setPromptExamples] = useState<PromptExample[]>([]);
+  const [promptSimilarity, setPromptSimilarity] = useState<PromptSimilarityResponse | null>(null);
+  const [moderation, setModeration] = useState<ModerationResponse | null>(null);
+  const [moderationActionInput, setModerationActionInput] = useState<ModerationAction>("regenerate");
+  const [moderationJudgeInput, setModerationJudgeInput] = useState("");
+  const [datasetFormat, setDatasetFormat] = useState<DatasetExportFormat>("jsonl");
+  const [datasetEntities, setDatasetEntities] = useState<DatasetExportEntity[]>(["rounds"]);
+  const [datasetFromGeneration, setDatasetFromGeneration] = useState("");
+  const [datasetToGeneration, setDatasetToGeneration] = useState("");
+  const [importFile, setImportFile] = useState<unknown>(null);
+  const [importFileName, setImportFileName] = useState<string | null>(null);
+  const [importSections, setImportSections] = useState<ImportSections>(DEFAULT_IMPORT_SECTIONS);
+  const [importPreview, setImportPreview] = useState<ImportResponse | null>(null);
+  const [webhooks, setWebhooks] = useState<WebhooksResponse | null>(null);
+  const [seasons, setSeasons] = useState<SeasonSummary[]>([]);
+  const [seasonNameInputs, setSeasonNameInputs] = useState<Record<number, string>>({});
+  const [resetKeepHistory, setResetKeepHistory] = useState(true);
+  const [importKeepHistory, setImportKeepHistory] = useState(true);
+  const [editingWebhookId, setEditingWebhookId] = useState<string | null>(null);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [webhookDescription, setWebhookDescription] = useState("");
+  const [webhookEvents, setWebhookEvents] = useState<WebhookEventType[]>([...WEBHOOK_EVENT_TYPES]);
+  const [webhookEnabled, setWebhookEnabled] = useState(true);
+  const [budgets, setBudgets] = useState<BudgetsResponse | null>(null);
+  const [voteIntegrity, setVoteIntegrity] = useState<VoteIntegrityResponse | null>(null);
+  const [challengeBitsInput, setChallengeBitsInput] = useState("0");
+  const [budgetInputs, setBudgetInputs] = useState<Record<BudgetLimitKey, string>>(EMPTY_BUDGET_INPUTS);
+  const [providers, setProviders] = useState<LlmProvider[]>([]);
+  const [editingProviderId, setEditingProviderId] = useState<string | null>(null);
+  const [providerIdInput, setProviderIdInput] = useState("");
+  const [providerName, setProviderName] = useState("");
+  const [providerKind, setProviderKind] = useState<LlmProviderKind>("openai_compatible");
+  const [providerBaseUrl, setProviderBaseUrl] = useState("");
+  const [providerApiKeyEnv, setProviderApiKeyEnv] = useState("");
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplatesResponse | null>(null);
+  const [templateKind, setTemplateKind] = useState<PromptTemplateKind>("prompt");
+  const [templateSystem, setTemplateSystem] = useState("");
+  const [templateUser, setTemplateUser] = useState("");
+  const [templateNote, setTemplateNote] = useState("");
+  const [rulePattern, setRulePattern] = useState("");
+  const [ruleKind, setRuleKind] = useState<ModerationRuleKind>("word");
+  const [editingExampleId, setEditingExampleId] = useState<string | null>(null);
+  const [exampleText, setExampleText] = useState("");
+  const [exampleCategory, setExampleCategory] = useState("");
+  const [exampleTags, setExampleTags] = useState("");
+  const [exampleLanguage, setExampleLanguage] = useState(PROMPT_EXAMPLE_DEFAULT_LANGUAGE);
+  const [exampleEnabled, setExampleEnabled] = useState(true);
+  const [exampleSearch, setExampleSearch] = useState("");
+  const [exampleFilter, setExampleFilter] = useState<PromptExampleFilter>("all");
+  const [exampleImportResult, setExampleImportResult] = useState<string | null>(null);
 
   async function loadViewerTargets(passcodeToUse: string) {
     const response = await requestAdminJson<ViewerTargetsResponse>(
@@ -403,6 +889,104 @@ function App() {
     setViewerTargets(response.targets);
   }
 
+  async function loadViewerPrompts(passcodeToUse: string) {
+    const response = await requestAdminJson<ViewerPromptsResponse>("/admin/viewer-prompts", passcodeToUse);
+    setViewerPrompts(response);
+  }
+
+  async function loadPromptExamples(passcodeToUse: string) {
+    const response = await requestAdminJson<PromptExamplesResponse>("/admin/prompt-examples", passcodeToUse);
+    setPromptExamples(response.examples);
+  }
+
+  async function loadPromptSimilarity(passcodeToUse: string) {
+    const response = await requestAdminJson<PromptSimilarityResponse>("/admin/prompt-similarity", passcodeToUse);
+    setPromptSimilarity(response);
+  }
+
+  function applyModeration(response: ModerationResponse) {
+    setModeration(response);
+    setModerationActionInput(response.action);
+    setModerationJudgeInput(response.judgeModelId ?? "");
+  }
+
+  async function loadModeration(passcodeToUse: string) {
+    const response = await requestAdminJson<ModerationResponse>("/admin/moderation", passcodeToUse);
+    applyModeration(response);
+  }
+
+  async function loadWebhooks(passcodeToUse: string) {
+    const response = await requestAdminJson<WebhooksResponse>("/admin/webhooks", passcodeToUse);
+    setWebhooks(response);
+  }
+
+  function applySeasons(response: SeasonsResponse) {
+    setSeasons(response.seasons);
+    setSeasonNameInputs(
+      Object.fromEntries(response.seasons.map((season) => [season.generation, season.name])),
+    );
+  }
+
+  async function loadSeasons(passcodeToUse: string) {
+    const response = await requestAdminJson<SeasonsResponse>("/admin/seasons", passcodeToUse);
+    applySeasons(response);
+  }
+
+  function applyVoteIntegrity(response: VoteIntegrityResponse) {
+    setVoteIntegrity(response);
+    setChallengeBitsInput(String(response.settings.challengeBits));
+  }
+
+  async function loadVoteIntegrity(passcodeToUse: string) {
+    const response = await requestAdminJson<VoteIntegrityResponse>("/admin/vote-integrity", passcodeToUse);
+    applyVoteIntegrity(response);
+  }
+
+  function applyBudgets(response: BudgetsResponse) {
+    setBudgets(response);
+    setBudgetInputs({
+      hourlyUsd: response.limits.hourlyUsd === null ? "" : String(response.limits.hourlyUsd),
+      dailyUsd: response.limits.dailyUsd === null ? "" : String(response.limits.dailyUsd),
+      monthlyUsd: response.limits.monthlyUsd === null ? "" : String(response.limits.monthlyUsd),
+      modelDailyUsd: response.limits.modelDailyUsd === null ? "" : String(response.limits.modelDailyUsd),
+    });
+  }
+
+  async function loadBudgets(passcodeToUse: string) {
+    const response = await requestAdminJson<BudgetsResponse>("/admin/budgets", passcodeToUse);
+    applyBudgets(response);
+  }
+
+  async function loadProviders(passcodeToUse: string) {
+    const response = await requestAdminJson<ProvidersResponse>("/admin/providers", passcodeToUse);
+    setProviders(response.providers);
+  }
+
+  function hydrateTemplateForm(template: PromptTemplate) {
+    setTemplateKind(template.kind);
+    setTemplateSystem(template.system);
+    setTemplateUser(template.user);
+    setTemplateNote("");
+  }
+
+  function applyPromptTemplates(response: PromptTemplatesResponse, kind: PromptTemplateKind) {
+    setPromptTemplates(response);
+    const active = response.templates.find(
+      (template) => template.kind === kind && template.version === response.activeVersions[kind],
+    );
+    if (active) hydrateTemplateForm(active);
+  }
+
+  async function loadPromptTemplates(passcodeToUse: string) {
+    const response = await requestAdminJson<PromptTemplatesResponse>("/admin/prompt-templates", passcodeToUse);
+    applyPromptTemplates(response, "prompt");
+  }
+
+  async function loadFairnessReport(passcodeToUse: string) {
+    const response = await requestAdminJson<FairnessResponse>("/admin/fairness", passcodeToUse);
+    setFairnessReport(response);
+  }
+
   function applyTelegramConfig(response: TelegramConfig) {
     setTelegramConfig(response);
     setTelegramEnabledInput(response.enabled);
@@ -453,6 +1037,17 @@ function App() {
             loadViewerTargets(storedPasscode),
             loadTelegramConfig(storedPasscode),
             loadModels(storedPasscode),
+            loadFairnessReport(storedPasscode),
+            loadViewerPrompts(storedPasscode),
+            loadPromptExamples(storedPasscode),
+            loadPromptSimilarity(storedPasscode),
+            loadModeration(storedPasscode),
+            loadProviders(storedPasscode),
+            loadPromptTemplates(storedPasscode),
+            loadBudgets(storedPasscode),
+            loadVoteIntegrity(storedPasscode),
+            loadWebhooks(storedPasscode),
+            loadSeasons(storedPasscode),
           ]);
         } catch {
           setViewerTargets([]);
@@ -467,6 +1062,19 @@ function App() {
           setActiveModelsHourlyShareByModel({});
           setProjectionBootstrap(null);
           setProjection(null);
+          setFairnessReport(null);
+          setViewerPrompts(null);
+          setPromptExamples([]);
+          setPromptSimilarity(null);
+          setModeration(null);
+          setProviders([]);
+          setPromptTemplates(null);
+          setBudgets(null);
+          setBudgetInputs(EMPTY_BUDGET_INPUTS);
+          setVoteIntegrity(null);
+          setWebhooks(null);
+          setSeasons([]);
+          setSeasonNameInputs({});
         }
       })
       .catch(() => {
@@ -479,6 +1087,14 @@ function App() {
     writeAdminPageToLocation(activePage);
   }, [activePage]);
 
+  useEffect(() => {
+    if (snapshot) setContestantsPerRoundInput(String(snapshot.contestantsPerRound));
+  }, [snapshot?.contestantsPerRound]);
+
+  useEffect(() => {
+    if (snapshot) setShowLanguageInput(snapshot.showLanguage);
+  }, [snapshot?.showLanguage]);
+
   const busy = useMemo(() => pending !== null, [pending]);
   const activeModels = useMemo(
     () => models.filter((model) => model.enabled && !model.archivedAt),
@@ -497,6 +1113,31 @@ function App() {
       answerReady,
     };
   }, [models]);
+  const filteredPromptExamples = useMemo(() => {
+    const search = exampleSearch.trim().toLowerCase();
+    return promptExamples
+      .filter((example) => {
+        if (exampleFilter === "enabled") return example.enabled;
+        if (exampleFilter === "disabled") return !example.enabled;
+        return true;
+      })
+      .filter((example) => {
+        if (!search) return true;
+        return (
+          example.text.toLowerCase().includes(search) ||
+          (example.category ?? "").toLowerCase().includes(search) ||
+          example.tags.some((tag) => tag.includes(search))
+        );
+      });
+  }, [exampleFilter, exampleSearch, promptExamples]);
+  const enabledPromptExampleCount = useMemo(
+    () => promptExamples.filter((example) => example.enabled).length,
+    [promptExamples],
+  );
+  const templateVersions = useMemo(
+    () => (promptTemplates?.templates ?? []).filter((template) => template.kind === templateKind),
+    [promptTemplates, templateKind],
+  );
   const filteredModels = useMemo(() => {
     const search = modelSearch.trim().toLowerCase();
     const filtered = models
@@ -744,6 +1385,24 @@ function App() {
     setEditingTargetId(null);
   }
 
+  function resetExampleForm() {
+    setEditingExampleId(null);
+    setExampleText("");
+    setExampleCategory("");
+    setExampleTags("");
+    setExampleLanguage(PROMPT_EXAMPLE_DEFAULT_LANGUAGE);
+    setExampleEnabled(true);
+  }
+
+  function onEditPromptExample(example: PromptExample) {
+    setEditingExampleId(example._id);
+    setExampleText(example.text);
+    setExampleCategory(example.category ?? "");
+    setExampleTags(example.tags.join(", "));
+    setExampleLanguage(example.language);
+    setExampleEnabled(example.enabled);
+  }
+
   function resetModelForm() {
     setModelId("");
     setModelName("");
@@ -754,6 +1413,10 @@ function App() {
     setModelCanPrompt(true);
     setModelCanAnswer(true);
     setModelCanVote(true);
+    setModelProviderId("");
+    setModelInputCostInput("");
+    setModelOutputCostInput("");
+    setModelPersona("");
     setEditingModelOriginalId(null);
     setIsModelFormOpen(false);
   }
@@ -768,6 +1431,10 @@ function App() {
     setModelCanPrompt(true);
     setModelCanAnswer(true);
     setModelCanVote(true);
+    setModelProviderId("");
+    setModelInputCostInput("");
+    setModelOutputCostInput("");
+    setModelPersona("");
     setEditingModelOriginalId(null);
     setIsModelFormOpen(true);
   }
@@ -782,6 +1449,10 @@ function App() {
     setModelCanPrompt(model.canPrompt);
     setModelCanAnswer(model.canAnswer);
     setModelCanVote(model.canVote);
+    setModelProviderId(model.providerId ?? "");
+    setModelInputCostInput(costToInput(model.inputCostPerMillionUsd));
+    setModelOutputCostInput(costToInput(model.outputCostPerMillionUsd));
+    setModelPersona(model.persona ?? "");
     setEditingModelOriginalId(model.modelId);
     setIsModelFormOpen(true);
   }
@@ -798,7 +1469,22 @@ function App() {
       setSnapshot(data);
       setPasscode("");
       setMode("ready");
-      await Promise.all([loadViewerTargets(passcode), loadTelegramConfig(passcode), loadModels(passcode)]);
+      await Promise.all([
+        loadViewerTargets(passcode),
+        loadTelegramConfig(passcode),
+        loadModels(passcode),
+        loadFairnessReport(passcode),
+        loadViewerPrompts(passcode),
+        loadPromptExamples(passcode),
+        loadPromptSimilarity(passcode),
+        loadModeration(passcode),
+        loadProviders(passcode),
+        loadPromptTemplates(passcode),
+        loadBudgets(passcode),
+        loadVoteIntegrity(passcode),
+        loadWebhooks(passcode),
+        loadSeasons(passcode),
+      ]);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Falha ao entrar");
     } finally {
@@ -867,6 +1553,117 @@ function App() {
     }
   }
 
+  function toggleDatasetEntity(entity: DatasetExportEntity, checked: boolean) {
+    setDatasetEntities((current) =>
+      checked
+        ? DATASET_EXPORT_ENTITIES.filter((item) => item === entity || current.includes(item))
+        : current.filter((item) => item !== entity),
+    );
+  }
+
+  async function onExportDataset(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("export-dataset");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const params = new URLSearchParams({ format: datasetFormat, entities: datasetEntities.join(",") });
+      if (datasetFromGeneration.trim()) params.set("fromGeneration", datasetFromGeneration.trim());
+      if (datasetToGeneration.trim()) params.set("toGeneration", datasetToGeneration.trim());
+      const response = await fetch(`${getConvexSiteUrl()}/admin/export/dataset?${params.toString()}`, {
+        cache: "no-store",
+        headers: {
+          "x-admin-passcode": passcodeValue,
+        },
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const blob = await response.blob();
+      const disposition = response.headers.get("content-disposition") ?? "";
+      const fileNameMatch = disposition.match(/filename="([^"]+)"/i);
+      const fileName =
+        fileNameMatch?.[1] ?? `tokenscomedyclub-dataset-${Date.now()}.${datasetFormat === "csv" ? "csv" : "jsonl"}`;
+
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = fileName;
+      document.body.append(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha no export do dataset");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function requestImport(dryRun: boolean) {
+    const passcodeValue = readStoredPasscode();
+    return await requestAdminJson<ImportResponse>("/admin/import", passcodeValue, {
+      method: "POST",
+      body: JSON.stringify({ file: importFile, dryRun, sections: importSections, keepHistory: importKeepHistory }),
+    });
+  }
+
+  async function onSelectImportFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setError(null);
+    setImportPreview(null);
+    try {
+      setImportFile(JSON.parse(await file.text()));
+      setImportFileName(file.name);
+    } catch {
+      setImportFile(null);
+      setImportFileName(null);
+      setError("Arquivo nao e um JSON valido");
+    }
+  }
+
+  async function onPreviewImport() {
+    setError(null);
+    setPending("preview-import");
+    try {
+      setImportPreview(await requestImport(true));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao simular importacao");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onApplyImport() {
+    if (
+      importSections.rounds &&
+      !window.confirm("Importar rodadas reseta a geracao atual e pausa o motor. Continuar?")
+    ) {
+      return;
+    }
+    setError(null);
+    setPending("apply-import");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestImport(false);
+      setImportPreview(response);
+      const [data] = await Promise.all([
+        requestAdminJson<AdminResponse>("/admin/status", passcodeValue),
+        loadModels(passcodeValue),
+        loadViewerTargets(passcodeValue),
+        loadTelegramConfig(passcodeValue),
+      ]);
+      setSnapshot(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao importar");
+    } finally {
+      setPending(null);
+    }
+  }
+
   async function onReset() {
     setError(null);
     setPending("reset");
@@ -874,10 +1671,12 @@ function App() {
       const passcodeValue = readStoredPasscode();
       const data = await requestAdminJson<AdminResponse>("/admin/reset", passcodeValue, {
         method: "POST",
+        body: JSON.stringify({ keepHistory: resetKeepHistory }),
       });
       setSnapshot(data);
       setResetText("");
       setIsResetOpen(false);
+      await loadSeasons(passcodeValue);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Falha no reset");
     } finally {
@@ -885,6 +1684,23 @@ function App() {
     }
   }
 
+  async function onRenameSeason(generation: number) {
+    setError(null);
+    setPending(`rename-season-${generation}`);
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<SeasonsResponse>("/admin/seasons/rename", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ generation, name: seasonNameInputs[generation] ?? "" }),
+      });
+      applySeasons(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao renomear temporada");
+    } finally {
+      setPending(null);
+    }
+  }
+
   async function onSaveViewerTarget(event: React.FormEvent) {
     event.preventDefault();
     setError(null);
@@ -942,7 +1758,11 @@ function App() {
     setPending("refresh-targets");
     try {
       const passcodeValue = readStoredPasscode();
-      await Promise.all([loadViewerTargets(passcodeValue), loadTelegramConfig(passcodeValue)]);
+      await Promise.all([
+        loadViewerTargets(passcodeValue),
+        loadTelegramConfig(passcodeValue),
+        loadVoteIntegrity(passcodeValue),
+      ]);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Falha ao recarregar targets");
     } finally {
@@ -950,721 +1770,2840 @@ function App() {
     }
   }
 
-  async function onSaveTelegramConfig(event: React.FormEvent) {
+  async function onSaveVoteIntegritySettings(event: React.FormEvent) {
     event.preventDefault();
     setError(null);
-    setPending("save-telegram-config");
+    setPending("save-vote-integrity");
     try {
       const passcodeValue = readStoredPasscode();
-      const payload: { enabled: boolean; channelId: string; botToken?: string } = {
-        enabled: telegramEnabledInput,
-        channelId: telegramChannelIdInput.trim(),
-      };
-      const token = telegramBotTokenInput.trim();
-      if (token) {
-        payload.botToken = token;
-      }
-
-      const response = await requestAdminJson<TelegramConfigResponse>("/admin/telegram/config", passcodeValue, {
+      const response = await requestAdminJson<VoteIntegrityResponse>("/admin/vote-integrity/settings", passcodeValue, {
         method: "POST",
-        body: JSON.stringify(payload),
+        body: JSON.stringify({ challengeBits: Number(challengeBitsInput) }),
       });
-      applyTelegramConfig(response);
+      applyVoteIntegrity(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Falha ao salvar configuracao do Telegram");
+      setError(err instanceof Error ? err.message : "Falha ao salvar protecao de votos");
     } finally {
       setPending(null);
     }
   }
 
-  async function onRefreshModels() {
+  async function onToggleVoteExcluded(vote: FlaggedViewerVote) {
     setError(null);
-    setPending("refresh-models");
+    setPending(`vote-exclude:${vote._id}`);
     try {
       const passcodeValue = readStoredPasscode();
-      await loadModels(passcodeValue);
-      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
-      setSnapshot(status);
+      const response = await requestAdminJson<VoteIntegrityResponse>("/admin/vote-integrity/exclude", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ voteId: vote._id, excluded: vote.excludedAt === null }),
+      });
+      applyVoteIntegrity(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Falha ao recarregar modelos");
+      setError(err instanceof Error ? err.message : "Falha ao atualizar voto");
     } finally {
       setPending(null);
     }
   }
 
-  async function onSaveProjectionTiming() {
-    if (!projection) return;
-
+  async function onExcludeFlaggedVotes(roundId: string) {
     setError(null);
-    setPending("save-projection-timing");
+    setPending("exclude-flagged-votes");
     try {
       const passcodeValue = readStoredPasscode();
-      const data = await requestAdminJson<ModelsResponse>("/admin/projections/settings", passcodeValue, {
-        method: "POST",
-        body: JSON.stringify({
-          viewerVoteWindowActiveMs: voteWindowActiveMs,
-          viewerVoteWindowIdleMs: voteWindowIdleMs,
-          postRoundDelayActiveMs,
-        }),
-      });
-      setModels(data.models);
-      applyUsagePayload(data);
-      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
-      setSnapshot(status);
+      const response = await requestAdminJson<VoteIntegrityResponse>(
+        "/admin/vote-integrity/exclude-flagged",
+        passcodeValue,
+        {
+          method: "POST",
+          body: JSON.stringify({ roundId }),
+        },
+      );
+      applyVoteIntegrity(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Falha ao salvar tempos de projecao");
+      setError(err instanceof Error ? err.message : "Falha ao excluir votos sinalizados");
     } finally {
       setPending(null);
     }
   }
 
-  async function onSaveModel(event: React.FormEvent) {
-    event.preventDefault();
+  async function onRefreshViewerPrompts() {
     setError(null);
-    setPending("save-model");
+    setPending("refresh-prompts");
+    try {
+      await loadViewerPrompts(readStoredPasscode());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao recarregar temas");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onReviewViewerPrompt(id: string, status: "approved" | "rejected") {
+    setError(null);
+    setPending(`review-prompt-${id}`);
     try {
       const passcodeValue = readStoredPasscode();
-      const isEditing = Boolean(editingModelOriginalId);
-      const path = isEditing ? "/admin/models/update" : "/admin/models";
-      const reasoningEffortPayload =
-        modelReasoningEffort === REASONING_EFFORT_UNDEFINED ? null : modelReasoningEffort;
-      const body = isEditing
-        ? {
-            originalModelId: editingModelOriginalId,
-            modelId: modelId.trim(),
-            name: modelName.trim(),
-            color: normalizeHexColor(modelColor),
-            logoId: modelLogoId,
-            reasoningEffort: reasoningEffortPayload,
-            enabled: modelEnabled,
-            canPrompt: modelCanPrompt,
-            canAnswer: modelCanAnswer,
-            canVote: modelCanVote,
-          }
-        : {
-            modelId: modelId.trim(),
-            name: modelName.trim(),
-            color: normalizeHexColor(modelColor),
-            logoId: modelLogoId,
-            reasoningEffort: reasoningEffortPayload,
-            enabled: modelEnabled,
-            canPrompt: modelCanPrompt,
-            canAnswer: modelCanAnswer,
-            canVote: modelCanVote,
-          };
-      const data = await requestAdminJson<ModelsResponse>(path, passcodeValue, {
+      const response = await requestAdminJson<ViewerPromptsResponse>("/admin/viewer-prompts/review", passcodeValue, {
         method: "POST",
-        body: JSON.stringify(body),
+        body: JSON.stringify({ id, status }),
       });
-      setModels(data.models);
-      applyUsagePayload(data);
-      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
-      setSnapshot(status);
-      resetModelForm();
+      setViewerPrompts(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Falha ao salvar modelo");
+      setError(err instanceof Error ? err.message : "Falha ao moderar tema");
     } finally {
       setPending(null);
     }
   }
 
-  async function onToggleModel(modelIdValue: string, enabled: boolean) {
+  async function onRefreshPromptExamples() {
     setError(null);
-    setPending(`toggle-model:${modelIdValue}`);
+    setPending("refresh-examples");
     try {
       const passcodeValue = readStoredPasscode();
-      const data = await requestAdminJson<ModelsResponse>("/admin/models/enable", passcodeValue, {
-        method: "POST",
-        body: JSON.stringify({ modelId: modelIdValue, enabled }),
+      await Promise.all([loadPromptExamples(passcodeValue), loadPromptSimilarity(passcodeValue)]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao recarregar exemplos");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function savePromptExample(example: {
+    id?: string;
+    text: string;
+    category: string;
+    tags: string[] | string;
+    language: string;
+    enabled: boolean;
+  }) {
+    const passcodeValue = readStoredPasscode();
+    const response = await requestAdminJson<PromptExamplesResponse>("/admin/prompt-examples", passcodeValue, {
+      method: "POST",
+      body: JSON.stringify(example),
+    });
+    setPromptExamples(response.examples);
+  }
+
+  async function onSavePromptExample(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-example");
+    try {
+      await savePromptExample({
+        id: editingExampleId ?? undefined,
+        text: exampleText,
+        category: exampleCategory,
+        tags: exampleTags,
+        language: exampleLanguage,
+        enabled: exampleEnabled,
       });
-      setModels(data.models);
-      applyUsagePayload(data);
-      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
-      setSnapshot(status);
+      resetExampleForm();
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Falha ao atualizar modelo";
-      const lowered = message.toLowerCase();
-      if (lowered.includes("unauthorized") || lowered.includes("nao autorizado")) {
-        setMode("locked");
-        setSnapshot(null);
-      }
-      setError(message);
+      setError(err instanceof Error ? err.message : "Falha ao salvar exemplo");
     } finally {
       setPending(null);
     }
   }
 
-  async function onRemoveModel(modelIdValue: string) {
+  async function onTogglePromptExample(example: PromptExample) {
     setError(null);
-    setPending(`remove-model:${modelIdValue}`);
+    setPending(`toggle-example-${example._id}`);
+    try {
+      await savePromptExample({
+        id: example._id,
+        text: example.text,
+        category: example.category ?? "",
+        tags: example.tags,
+        language: example.language,
+        enabled: !example.enabled,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao atualizar exemplo");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onDeletePromptExample(exampleId: string) {
+    setError(null);
+    setPending("delete-example");
     try {
       const passcodeValue = readStoredPasscode();
-      const data = await requestAdminJson<ModelsResponse>("/admin/models/remove", passcodeValue, {
+      const response = await requestAdminJson<PromptExamplesResponse>("/admin/prompt-examples/delete", passcodeValue, {
         method: "POST",
-        body: JSON.stringify({ modelId: modelIdValue }),
+        body: JSON.stringify({ id: exampleId }),
       });
-      setModels(data.models);
-      applyUsagePayload(data);
-      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
-      setSnapshot(status);
+      setPromptExamples(response.examples);
+      if (editingExampleId === exampleId) {
+        resetExampleForm();
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Falha ao arquivar modelo");
+      setError(err instanceof Error ? err.message : "Falha ao remover exemplo");
     } finally {
       setPending(null);
     }
   }
 
-  async function onRestoreModel(modelIdValue: string) {
+  async function onRefreshModeration() {
     setError(null);
-    setPending(`restore-model:${modelIdValue}`);
+    setPending("refresh-moderation");
+    try {
+      await loadModeration(readStoredPasscode());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao recarregar moderacao");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onSaveModerationSettings(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-moderation");
     try {
       const passcodeValue = readStoredPasscode();
-      const data = await requestAdminJson<ModelsResponse>("/admin/models/restore", passcodeValue, {
+      const response = await requestAdminJson<ModerationResponse>("/admin/moderation/settings", passcodeValue, {
         method: "POST",
-        body: JSON.stringify({ modelId: modelIdValue, enabled: true }),
+        body: JSON.stringify({
+          action: moderationActionInput,
+          judgeModelId: moderationJudgeInput || null,
+        }),
       });
-      setModels(data.models);
-      applyUsagePayload(data);
-      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
-      setSnapshot(status);
+      applyModeration(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Falha ao desarquivar modelo");
+      setError(err instanceof Error ? err.message : "Falha ao salvar moderacao");
     } finally {
       setPending(null);
     }
   }
 
-  function onEditViewerTarget(target: ViewerTarget) {
-    setEditingTargetId(target._id);
-    setTargetPlatform(target.platform);
-    setTargetValue(target.target);
-    setTargetEnabled(target.enabled);
+  async function saveModerationRule(rule: { id?: string; pattern: string; kind: ModerationRuleKind; enabled: boolean }) {
+    const passcodeValue = readStoredPasscode();
+    const response = await requestAdminJson<ModerationResponse>("/admin/moderation/rules", passcodeValue, {
+      method: "POST",
+      body: JSON.stringify(rule),
+    });
+    applyModeration(response);
   }
 
-  async function onLogout() {
+  async function onAddModerationRule(event: React.FormEvent) {
+    event.preventDefault();
     setError(null);
-    setPending("logout");
+    setPending("save-rule");
     try {
-      writeStoredPasscode("");
-      setSnapshot(null);
-      setModels([]);
-      setUsageByModel({});
-      setUsageHourlyByModel({});
-      setUsageWindowSize(50);
-      setActiveModelsHourlyShareByModel({});
-      setProjectionBootstrap(null);
-      setProjection(null);
-      setVoteWindowActiveSecondsInput("30");
-      setVoteWindowIdleSecondsInput("120");
-      setPostRoundDelayActiveSecondsInput("5");
-      setViewerTargets([]);
-      setPasscode("");
-      resetTargetForm();
-      resetModelForm();
-      setMode("locked");
+      await saveModerationRule({ pattern: rulePattern, kind: ruleKind, enabled: true });
+      setRulePattern("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar regra");
     } finally {
       setPending(null);
     }
   }
 
-  function onSelectPage(page: AdminPage) {
-    setActivePage(page);
+  async function onToggleModerationRule(rule: ModerationRule) {
+    setError(null);
+    setPending(`toggle-rule-${rule._id}`);
+    try {
+      await saveModerationRule({ id: rule._id, pattern: rule.pattern, kind: rule.kind, enabled: !rule.enabled });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao atualizar regra");
+    } finally {
+      setPending(null);
+    }
   }
 
-  if (mode === "checking") {
-    return (
-      <div className="admin admin--centered">
-        <div className="loading">Verificando sessao admin...</div>
-      </div>
-    );
+  async function onDeleteModerationRule(ruleId: string) {
+    setError(null);
+    setPending("delete-rule");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<ModerationResponse>("/admin/moderation/rules/delete", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ id: ruleId }),
+      });
+      applyModeration(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao remover regra");
+    } finally {
+      setPending(null);
+    }
   }
 
-  if (mode === "locked") {
-    return (
-      <div className="admin admin--centered">
-        <main className="panel panel--login">
-          <a href="/" className="logo-link">
-            <img src="/assets/logo.svg" alt="TokensComedyClub" />
-          </a>
-          <h1>Acesso Admin</h1>
-          <p className="muted">
-            Digite sua senha de admin para liberar os controles.
-          </p>
-
-          <form
-            onSubmit={onLogin}
-            className="login-form"
-            autoComplete="off"
-            data-1p-ignore
-            data-lpignore="true"
-          >
-            <label htmlFor="passcode" className="field-label">
-              Senha
-            </label>
-            <input
-              id="passcode"
-              type="password"
-              value={passcode}
-              onChange={(e) => setPasscode(e.target.value)}
-              className="text-input"
-              autoFocus
-              autoComplete="off"
-              required
-              data-1p-ignore
-              data-lpignore="true"
-            />
-            <button
-              type="submit"
-              className="btn btn--primary"
-              disabled={busy || !passcode.trim()}
-              data-1p-ignore
-              data-lpignore="true"
-            >
-              {pending === "login" ? "Verificando..." : "Desbloquear Admin"}
-            </button>
-          </form>
+  function resetWebhookForm() {
+    setEditingWebhookId(null);
+    setWebhookUrl("");
+    setWebhookDescription("");
+    setWebhookEvents([...WEBHOOK_EVENT_TYPES]);
+    setWebhookEnabled(true);
+  }
 
-          {error && <div className="error-banner">{error}</div>}
+  function hydrateWebhookForm(webhook: WebhookEntry) {
+    setEditingWebhookId(webhook._id);
+    setWebhookUrl(webhook.url);
+    setWebhookDescription(webhook.description ?? "");
+    setWebhookEvents(webhook.events);
+    setWebhookEnabled(webhook.enabled);
+  }
 
-          <div className="quick-links">
-            <a href="/">Jogo Ao Vivo</a>
-            <a href="/history">Historico</a>
-          </div>
-        </main>
-      </div>
+  function toggleWebhookEvent(eventType: WebhookEventType, checked: boolean) {
+    setWebhookEvents((current) =>
+      checked ? [...current.filter((item) => item !== eventType), eventType] : current.filter((item) => item !== eventType),
     );
   }
 
-  return (
-    <div className="admin">
-      <header className="admin-header">
-        <a href="/" className="logo-link">
-          <img src="/assets/logo.svg" alt="TokensComedyClub" />
-        </a>
-        <nav className="quick-links">
-          <a href="/">Jogo Ao Vivo</a>
-          <a href="/history">Historico</a>
-          <button className="link-button" onClick={onLogout} disabled={busy}>
-            Sair
-          </button>
-        </nav>
-      </header>
+  async function saveWebhook(webhook: {
+    id?: string;
+    url: string;
+    events: WebhookEventType[];
+    enabled: boolean;
+    description?: string;
+    rotateSecret?: boolean;
+  }) {
+    const passcodeValue = readStoredPasscode();
+    const response = await requestAdminJson<WebhooksResponse>("/admin/webhooks/save", passcodeValue, {
+      method: "POST",
+      body: JSON.stringify(webhook),
+    });
+    setWebhooks(response);
+  }
 
-      <main className="panel panel--main">
-        <div className="panel-head">
-          <h1>Console Admin</h1>
-          <p>
-            Controle do motor, catalogo de modelos, audiencia e custos em telas separadas.
-          </p>
-        </div>
+  async function onRefreshWebhooks() {
+    setError(null);
+    setPending("refresh-webhooks");
+    try {
+      await loadWebhooks(readStoredPasscode());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao recarregar webhooks");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onSaveWebhook(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-webhook");
+    try {
+      await saveWebhook({
+        id: editingWebhookId ?? undefined,
+        url: webhookUrl,
+        events: webhookEvents,
+        enabled: webhookEnabled,
+        description: webhookDescription,
+      });
+      resetWebhookForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar webhook");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onToggleWebhook(webhook: WebhookEntry) {
+    setError(null);
+    setPending(`toggle-webhook-${webhook._id}`);
+    try {
+      await saveWebhook({
+        id: webhook._id,
+        url: webhook.url,
+        events: webhook.events,
+        enabled: !webhook.enabled,
+        description: webhook.description ?? undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao atualizar webhook");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onRotateWebhookSecret(webhook: WebhookEntry) {
+    if (!window.confirm("Gerar um novo segredo? Receptores com o segredo antigo vao rejeitar as proximas entregas.")) {
+      return;
+    }
+    setError(null);
+    setPending(`rotate-webhook-${webhook._id}`);
+    try {
+      await saveWebhook({
+        id: webhook._id,
+        url: webhook.url,
+        events: webhook.events,
+        enabled: webhook.enabled,
+        description: webhook.description ?? undefined,
+        rotateSecret: true,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao gerar novo segredo");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onTestWebhook(webhookId: string) {
+    setError(null);
+    setPending(`test-webhook-${webhookId}`);
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<WebhooksResponse>("/admin/webhooks/test", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ id: webhookId }),
+      });
+      setWebhooks(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao enviar evento de teste");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onDeleteWebhook(webhookId: string) {
+    setError(null);
+    setPending("delete-webhook");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<WebhooksResponse>("/admin/webhooks/delete", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ id: webhookId }),
+      });
+      setWebhooks(response);
+      if (editingWebhookId === webhookId) resetWebhookForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao remover webhook");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onImportPromptExamples(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setError(null);
+    setExampleImportResult(null);
+    setPending("import-examples");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const format = file.name.toLowerCase().endsWith(".csv") ? "csv" : "json";
+      const response = await requestAdminJson<PromptExamplesImportResponse>(
+        "/admin/prompt-examples/import",
+        passcodeValue,
+        {
+          method: "POST",
+          body: JSON.stringify({ format, content: await file.text() }),
+        },
+      );
+      setPromptExamples(response.examples);
+      setExampleImportResult(
+        `${response.inserted} novos, ${response.updated} atualizados, ${response.skipped} ignorados.`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao importar exemplos");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onExportPromptExamples(format: "json" | "csv") {
+    setError(null);
+    setPending(`export-examples-${format}`);
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await fetch(`${getConvexSiteUrl()}/admin/prompt-examples/export?format=${format}`, {
+        cache: "no-store",
+        headers: {
+          "x-admin-passcode": passcodeValue,
+        },
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const blob = await response.blob();
+      const disposition = response.headers.get("content-disposition") ?? "";
+      const fileNameMatch = disposition.match(/filename="([^"]+)"/i);
+      const fileName = fileNameMatch?.[1] ?? `tokenscomedyclub-prompt-examples-${Date.now()}.${format}`;
+
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = fileName;
+      document.body.append(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao exportar exemplos");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onSaveTelegramConfig(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-telegram-config");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const payload: { enabled: boolean; channelId: string; botToken?: string } = {
+        enabled: telegramEnabledInput,
+        channelId: telegramChannelIdInput.trim(),
+      };
+      const token = telegramBotTokenInput.trim();
+      if (token) {
+        payload.botToken = token;
+      }
+
+      const response = await requestAdminJson<TelegramConfigResponse>("/admin/telegram/config", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+      applyTelegramConfig(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar configuracao do Telegram");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onRefreshModels() {
+    setError(null);
+    setPending("refresh-models");
+    try {
+      const passcodeValue = readStoredPasscode();
+      await Promise.all([loadModels(passcodeValue), loadBudgets(passcodeValue)]);
+      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
+      setSnapshot(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao recarregar modelos");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onSaveBudgets(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-budgets");
+    try {
+      const limits = {} as BudgetLimits;
+      for (const field of BUDGET_LIMIT_FIELDS) {
+        const raw = budgetInputs[field.key].trim().replace(",", ".");
+        limits[field.key] = raw ? Number(raw) : null;
+      }
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<BudgetsResponse>("/admin/budgets/settings", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify(limits),
+      });
+      applyBudgets(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar limites de gasto");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onSaveProjectionTiming() {
+    if (!projection) return;
+
+    setError(null);
+    setPending("save-projection-timing");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const data = await requestAdminJson<ModelsResponse>("/admin/projections/settings", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({
+          viewerVoteWindowActiveMs: voteWindowActiveMs,
+          viewerVoteWindowIdleMs: voteWindowIdleMs,
+          postRoundDelayActiveMs,
+        }),
+      });
+      setModels(data.models);
+      applyUsagePayload(data);
+      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
+      setSnapshot(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar tempos de projecao");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onSaveRoundSettings(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-round-settings");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const data = await requestAdminJson<AdminResponse>("/admin/round-settings", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({
+          contestantsPerRound: Number(contestantsPerRoundInput),
+          showLanguage: showLanguageInput,
+        }),
+      });
+      setSnapshot(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar configuracao de rodada");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  function toggleTournamentModel(modelId: string, checked: boolean) {
+    setTournamentModelIds((current) =>
+      checked ? [...current.filter((id) => id !== modelId), modelId] : current.filter((id) => id !== modelId),
+    );
+  }
+
+  async function onStartTournament(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("start-tournament");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const data = await requestAdminJson<AdminResponse>("/admin/tournament/start", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({
+          modelIds: tournamentModelIds,
+          format: tournamentFormat,
+          bestOf: Number(tournamentBestOf),
+        }),
+      });
+      setSnapshot(data);
+      setTournamentModelIds([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao iniciar torneio");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onCancelTournament() {
+    setError(null);
+    setPending("cancel-tournament");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const data = await requestAdminJson<AdminResponse>("/admin/tournament/cancel", passcodeValue, {
+        method: "POST",
+      });
+      setSnapshot(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao encerrar torneio");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onRefreshFairness() {
+    setError(null);
+    setPending("refresh-fairness");
+    try {
+      await loadFairnessReport(readStoredPasscode());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao carregar relatorio de equilibrio");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onSaveModel(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-model");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const isEditing = Boolean(editingModelOriginalId);
+      const path = isEditing ? "/admin/models/update" : "/admin/models";
+      const reasoningEffortPayload =
+        modelReasoningEffort === REASONING_EFFORT_UNDEFINED ? null : modelReasoningEffort;
+      const routingPayload = {
+        providerId: modelProviderId || null,
+        inputCostPerMillionUsd: costInputToPayload(modelInputCostInput),
+        outputCostPerMillionUsd: costInputToPayload(modelOutputCostInput),
+        persona: modelPersona.trim() || null,
+      };
+      const body = isEditing
+        ? {
+            originalModelId: editingModelOriginalId,
+            modelId: modelId.trim(),
+            name: modelName.trim(),
+            color: normalizeHexColor(modelColor),
+            logoId: modelLogoId,
+            reasoningEffort: reasoningEffortPayload,
+            enabled: modelEnabled,
+            canPrompt: modelCanPrompt,
+            canAnswer: modelCanAnswer,
+            canVote: modelCanVote,
+            ...routingPayload,
+          }
+        : {
+            modelId: modelId.trim(),
+            name: modelName.trim(),
+            color: normalizeHexColor(modelColor),
+            logoId: modelLogoId,
+            reasoningEffort: reasoningEffortPayload,
+            enabled: modelEnabled,
+            canPrompt: modelCanPrompt,
+            canAnswer: modelCanAnswer,
+            canVote: modelCanVote,
+            ...routingPayload,
+          };
+      const data = await requestAdminJson<ModelsResponse>(path, passcodeValue, {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      setModels(data.models);
+      applyUsagePayload(data);
+      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
+      setSnapshot(status);
+      resetModelForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar modelo");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onToggleModel(modelIdValue: string, enabled: boolean) {
+    setError(null);
+    setPending(`toggle-model:${modelIdValue}`);
+    try {
+      const passcodeValue = readStoredPasscode();
+      const data = await requestAdminJson<ModelsResponse>("/admin/models/enable", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ modelId: modelIdValue, enabled }),
+      });
+      setModels(data.models);
+      applyUsagePayload(data);
+      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
+      setSnapshot(status);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Falha ao atualizar modelo";
+      const lowered = message.toLowerCase();
+      if (lowered.includes("unauthorized") || lowered.includes("nao autorizado")) {
+        setMode("locked");
+        setSnapshot(null);
+      }
+      setError(message);
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onRemoveModel(modelIdValue: string) {
+    setError(null);
+    setPending(`remove-model:${modelIdValue}`);
+    try {
+      const passcodeValue = readStoredPasscode();
+      const data = await requestAdminJson<ModelsResponse>("/admin/models/remove", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ modelId: modelIdValue }),
+      });
+      setModels(data.models);
+      applyUsagePayload(data);
+      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
+      setSnapshot(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao arquivar modelo");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onRestoreModel(modelIdValue: string) {
+    setError(null);
+    setPending(`restore-model:${modelIdValue}`);
+    try {
+      const passcodeValue = readStoredPasscode();
+      const data = await requestAdminJson<ModelsResponse>("/admin/models/restore", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ modelId: modelIdValue, enabled: true }),
+      });
+      setModels(data.models);
+      applyUsagePayload(data);
+      const status = await requestAdminJson<AdminResponse>("/admin/status", passcodeValue);
+      setSnapshot(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao desarquivar modelo");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  function onEditViewerTarget(target: ViewerTarget) {
+    setEditingTargetId(target._id);
+    setTargetPlatform(target.platform);
+    setTargetValue(target.target);
+    setTargetEnabled(target.enabled);
+  }
+
+  function resetProviderForm() {
+    setEditingProviderId(null);
+    setProviderIdInput("");
+    setProviderName("");
+    setProviderKind("openai_compatible");
+    setProviderBaseUrl("");
+    setProviderApiKeyEnv("");
+  }
+
+  function hydrateProviderForm(provider: LlmProvider) {
+    setEditingProviderId(provider.providerId);
+    setProviderIdInput(provider.providerId);
+    setProviderName(provider.name);
+    setProviderKind(provider.kind);
+    setProviderBaseUrl(provider.baseUrl);
+    setProviderApiKeyEnv(provider.apiKeyEnv ?? "");
+  }
+
+  async function onSaveProvider(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-provider");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<ProvidersResponse>("/admin/providers", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({
+          providerId: editingProviderId ?? providerIdInput,
+          name: providerName,
+          kind: providerKind,
+          baseUrl: providerBaseUrl,
+          apiKeyEnv: providerApiKeyEnv || null,
+        }),
+      });
+      setProviders(response.providers);
+      resetProviderForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar provedor");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onDeleteProvider(providerId: string) {
+    setError(null);
+    setPending("delete-provider");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<ProvidersResponse>("/admin/providers/delete", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({ providerId }),
+      });
+      setProviders(response.providers);
+      if (editingProviderId === providerId) resetProviderForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao remover provedor");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  function onSelectTemplateKind(kind: PromptTemplateKind) {
+    setTemplateKind(kind);
+    const active = promptTemplates?.templates.find(
+      (template) => template.kind === kind && template.version === promptTemplates.activeVersions[kind],
+    );
+    if (active) hydrateTemplateForm(active);
+  }
+
+  async function onSavePromptTemplate(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setPending("save-template");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<PromptTemplatesResponse>("/admin/prompt-templates", passcodeValue, {
+        method: "POST",
+        body: JSON.stringify({
+          kind: templateKind,
+          system: templateSystem,
+          user: templateUser,
+          note: templateNote.trim() || null,
+        }),
+      });
+      applyPromptTemplates(response, templateKind);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao salvar template");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onActivatePromptTemplate(template: PromptTemplate) {
+    setError(null);
+    setPending("activate-template");
+    try {
+      const passcodeValue = readStoredPasscode();
+      const response = await requestAdminJson<PromptTemplatesResponse>(
+        "/admin/prompt-templates/activate",
+        passcodeValue,
+        {
+          method: "POST",
+          body: JSON.stringify({ kind: template.kind, version: template.version }),
+        },
+      );
+      setPromptTemplates(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao ativar template");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function onLogout() {
+    setError(null);
+    setPending("logout");
+    try {
+      writeStoredPasscode("");
+      setSnapshot(null);
+      setModels([]);
+      setUsageByModel({});
+      setUsageHourlyByModel({});
+      setUsageWindowSize(50);
+      setActiveModelsHourlyShareByModel({});
+      setProjectionBootstrap(null);
+      setProjection(null);
+      setVoteWindowActiveSecondsInput("30");
+      setVoteWindowIdleSecondsInput("120");
+      setPostRoundDelayActiveSecondsInput("5");
+      setViewerTargets([]);
+      setFairnessReport(null);
+      setViewerPrompts(null);
+      setPromptExamples([]);
+      setPromptSimilarity(null);
+      setModeration(null);
+      setProviders([]);
+      setPromptTemplates(null);
+      setBudgets(null);
+      setBudgetInputs(EMPTY_BUDGET_INPUTS);
+      setVoteIntegrity(null);
+      setWebhooks(null);
+      setSeasons([]);
+      setSeasonNameInputs({});
+      setPasscode("");
+      resetTargetForm();
+      resetModelForm();
+      resetExampleForm();
+      resetProviderForm();
+      resetWebhookForm();
+      setMode("locked");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  function onSelectPage(page: AdminPage) {
+    setActivePage(page);
+  }
+
+  if (mode === "checking") {
+    return (
+      <div className="admin admin--centered">
+        <div className="loading">Verificando sessao admin...</div>
+      </div>
+    );
+  }
+
+  if (mode === "locked") {
+    return (
+      <div className="admin admin--centered">
+        <main className="panel panel--login">
+          <a href="/" className="logo-link">
+            <img src="/assets/logo.svg" alt="TokensComedyClub" />
+          </a>
+          <h1>Acesso Admin</h1>
+          <p className="muted">
+            Digite sua senha de admin para liberar os controles.
+          </p>
+
+          <form
+            onSubmit={onLogin}
+            className="login-form"
+            autoComplete="off"
+            data-1p-ignore
+            data-lpignore="true"
+          >
+            <label htmlFor="passcode" className="field-label">
+              Senha
+            </label>
+            <input
+              id="passcode"
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              className="text-input"
+              autoFocus
+              autoComplete="off"
+              required
+              data-1p-ignore
+              data-lpignore="true"
+            />
+            <button
+              type="submit"
+              className="btn btn--primary"
+              disabled={busy || !passcode.trim()}
+              data-1p-ignore
+              data-lpignore="true"
+            >
+              {pending === "login" ? "Verificando..." : "Desbloquear Admin"}
+            </button>
+          </form>
+
+          {error && <div className="error-banner">{error}</div>}
+
+          <div className="quick-links">
+            <a href="/">Jogo Ao Vivo</a>
+            <a href="/history">Historico</a>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="admin">
+      <header className="admin-header">
+        <a href="/" className="logo-link">
+          <img src="/assets/logo.svg" alt="TokensComedyClub" />
+        </a>
+        <nav className="quick-links">
+          <a href="/">Jogo Ao Vivo</a>
+          <a href="/history">Historico</a>
+          <button className="link-button" onClick={onLogout} disabled={busy}>
+            Sair
+          </button>
+        </nav>
+      </header>
+
+      <main className="panel panel--main">
+        <div className="panel-head">
+          <h1>Console Admin</h1>
+          <p>
+            Controle do motor, catalogo de modelos, audiencia e custos em telas separadas.
+          </p>
+        </div>
 
         <div className="admin-tabs" role="tablist" aria-label="Telas do console admin">
           {ADMIN_PAGE_TABS.map((tab) => (
             <button
-              key={tab.id}
+              key={tab.id}
+              type="button"
+              role="tab"
+              aria-selected={activePage === tab.id}
+              className={`admin-tabs__item ${activePage === tab.id ? "admin-tabs__item--active" : ""}`}
+              onClick={() => onSelectPage(tab.id)}
+              disabled={busy}
+            >
+              <span className="admin-tabs__label">{tab.label}</span>
+            </button>
+          ))}
+        </div>
+        <p className="admin-tabs__hint">{ADMIN_PAGE_TABS.find((tab) => tab.id === activePage)?.description}</p>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        {activePage === "operations" && (
+        <section className="operations operations--standalone" aria-label="Operacao do sistema">
+          <div className="operations__top">
+            <div className="operations__intro">
+              <h2>Operacao</h2>
+              <p className="muted">
+                Comandos de runtime e saude do motor para controle rapido durante a transmissao.
+              </p>
+            </div>
+            <div className="actions" aria-label="Acoes admin">
+              <button
+                type="button"
+                className="btn btn--primary"
+                disabled={busy || Boolean(snapshot?.isPaused)}
+                onClick={() => runControl("/admin/pause", "pause")}
+              >
+                {pending === "pause" ? "Pausando..." : "Pausar"}
+              </button>
+              <button
+                type="button"
+                className="btn"
+                disabled={busy || !snapshot?.isPaused}
+                onClick={() => runControl("/admin/resume", "resume")}
+              >
+                {pending === "resume" ? "Retomando..." : "Retomar"}
+              </button>
+              <button type="button" className="btn" disabled={busy} onClick={onExport}>
+                {pending === "export" ? "Exportando..." : "Exportar JSON"}
+              </button>
+              <button
+                type="button"
+                className="btn btn--danger"
+                disabled={busy}
+                onClick={() => setIsResetOpen(true)}
+              >
+                Resetar Dados
+              </button>
+            </div>
+          </div>
+
+          <section className="status-grid" aria-live="polite">
+            <StatusCard
+              label="Motor"
+              value={snapshot?.isPaused ? "Pausado" : "Rodando"}
+            />
+            <StatusCard
+              label="Rodada Ativa"
+              value={snapshot?.isRunningRound ? "Em Andamento" : "Parada"}
+            />
+            <StatusCard
+              label="Rodadas Persistidas"
+              value={String(snapshot?.persistedRounds ?? 0)}
+            />
+            <StatusCard
+              label="Modelos Ativos"
+              value={String(snapshot?.activeModelCount ?? activeModels.length)}
+            />
+            <StatusCard
+              label="Execucao"
+              value={
+                snapshot?.canRunRounds
+                  ? "Pronto"
+                  : snapshot?.runBlockedReason === "insufficient_role_coverage"
+                    ? "Bloqueado (papeis)"
+                    : "Bloqueado (<3 modelos)"
+              }
+            />
+            <StatusCard label="Espectadores" value={String(snapshot?.viewerCount ?? 0)} />
+            <StatusCard label="Competidores" value={String(snapshot?.contestantsPerRound ?? 2)} />
+            <StatusCard
+              label="Idioma"
+              value={SHOW_LANGUAGE_LABELS[normalizeShowLanguage(snapshot?.showLanguage)]}
+            />
+          </section>
+
+          <form className="round-settings" onSubmit={onSaveRoundSettings}>
+            <label className="field-label" htmlFor="contestants-per-round">
+              Competidores por rodada
+            </label>
+            <div className="round-settings__row">
+              <select
+                id="contestants-per-round"
+                className="text-input"
+                value={contestantsPerRoundInput}
+                onChange={(event) => setContestantsPerRoundInput(event.target.value)}
+                disabled={busy}
+              >
+                <option value="2">2 modelos</option>
+                <option value="3">3 modelos</option>
+                <option value="4">4 modelos</option>
+              </select>
+            </div>
+            <label className="field-label" htmlFor="show-language">
+              Idioma do show
+            </label>
+            <div className="round-settings__row">
+              <select
+                id="show-language"
+                className="text-input"
+                value={showLanguageInput}
+                onChange={(event) => setShowLanguageInput(event.target.value)}
+                disabled={busy}
+              >
+                {SHOW_LANGUAGES.map((language) => (
+                  <option key={language} value={language}>
+                    {SHOW_LANGUAGE_LABELS[language]}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                className="btn btn--primary"
+                disabled={
+                  busy ||
+                  (contestantsPerRoundInput === String(snapshot?.contestantsPerRound ?? 2) &&
+                    showLanguageInput === normalizeShowLanguage(snapshot?.showLanguage))
+                }
+              >
+                {pending === "save-round-settings" ? "Salvando..." : "Salvar"}
+              </button>
+            </div>
+            <p className="muted">
+              Vale a partir da proxima rodada. Sem modelos suficientes, a rodada usa menos competidores. O idioma
+              define o banco de exemplos, o idioma dos modelos, a enquete do Telegram, as respostas do chat e os
+              textos da live, do historico e do broadcast.
+            </p>
+          </form>
+
+          <form className="round-settings" onSubmit={onExportDataset}>
+            <label className="field-label" htmlFor="dataset-format">
+              Export de dataset
+            </label>
+            <div className="round-settings__row">
+              <select
+                id="dataset-format"
+                className="text-input"
+                value={datasetFormat}
+                onChange={(event) => setDatasetFormat(event.target.value as DatasetExportFormat)}
+                disabled={busy}
+              >
+                {(Object.keys(DATASET_EXPORT_FORMAT_LABELS) as DatasetExportFormat[]).map((format) => (
+                  <option key={format} value={format}>
+                    {DATASET_EXPORT_FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="text-input"
+                inputMode="numeric"
+                value={datasetFromGeneration}
+                onChange={(event) => setDatasetFromGeneration(event.target.value)}
+                placeholder="Da geracao (atual)"
+                aria-label="Geracao inicial"
+                disabled={busy}
+              />
+              <input
+                className="text-input"
+                inputMode="numeric"
+                value={datasetToGeneration}
+                onChange={(event) => setDatasetToGeneration(event.target.value)}
+                placeholder="Ate a geracao (atual)"
+                aria-label="Geracao final"
+                disabled={busy}
+              />
+            </div>
+            {datasetFormat !== "preferences" && (
+              <div className="round-settings__row">
+                {DATASET_EXPORT_ENTITIES.map((entity) => (
+                  <label key={entity} className="targets__checkbox">
+                    <input
+                      type="checkbox"
+                      checked={datasetEntities.includes(entity)}
+                      onChange={(event) => toggleDatasetEntity(entity, event.target.checked)}
+                      disabled={busy}
+                    />
+                    {DATASET_EXPORT_ENTITY_LABELS[entity]}
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="round-settings__row">
+              <button
+                type="submit"
+                className="btn"
+                disabled={
+                  busy ||
+                  (datasetFormat !== "preferences" && datasetEntities.length === 0) ||
+                  (datasetFormat === "csv" && datasetEntities.length !== 1)
+                }
+              >
+                {pending === "export-dataset" ? "Exportando..." : "Exportar Dataset"}
+              </button>
+            </div>
+            <p className="muted">
+              Gera o arquivo em streaming, pagina por pagina. CSV aceita uma entidade por vez; os pares de
+              preferencia saem das rodadas concluidas, com a resposta escolhida pelos juizes (ou pelo publico no
+              empate) e as margens de cada lado.
+            </p>
+          </form>
+
+          <section className="round-settings" aria-label="Importar export">
+            <label className="field-label">Importar export</label>
+            <div className="round-settings__row">
+              <label className={`btn examples-import${busy ? " examples-import--disabled" : ""}`}>
+                {importFileName ?? "Escolher arquivo JSON"}
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(event) => void onSelectImportFile(event)}
+                  disabled={busy}
+                />
+              </label>
+              {(Object.keys(IMPORT_SECTION_LABELS) as (keyof ImportSections)[]).map((section) => (
+                <label key={section} className="targets__checkbox">
+                  <input
+                    type="checkbox"
+                    checked={importSections[section]}
+                    onChange={(event) => {
+                      setImportSections((current) => ({ ...current, [section]: event.target.checked }));
+                      setImportPreview(null);
+                    }}
+                    disabled={busy}
+                  />
+                  {IMPORT_SECTION_LABELS[section]}
+                </label>
+              ))}
+              {importSections.rounds && (
+                <label className="targets__checkbox">
+                  <input
+                    type="checkbox"
+                    checked={importKeepHistory}
+                    onChange={(event) => setImportKeepHistory(event.target.checked)}
+                    disabled={busy}
+                  />
+                  Manter rodadas da temporada atual no historico
+                </label>
+              )}
+            </div>
+            <div className="round-settings__row">
+              <button type="button" className="btn" disabled={busy || !importFile} onClick={onPreviewImport}>
+                {pending === "preview-import" ? "Simulando..." : "Simular"}
+              </button>
+              <button
+                type="button"
+                className="btn btn--primary"
+                disabled={
+                  busy ||
+                  !importPreview?.dryRun ||
+                  importPreview.diff.errors.length > 0 ||
+                  !Object.values(importSections).some(Boolean)
+                }
+                onClick={onApplyImport}
+              >
+                {pending === "apply-import" ? "Importando..." : "Aplicar Importacao"}
+              </button>
+            </div>
+            {importPreview && (
+              <div className="targets__list">
+                {importPreview.diff.errors.map((message) => (
+                  <div className="targets__empty" key={message}>
+                    {message}
+                  </div>
+                ))}
+                <div className="target-row">
+                  <div className="target-row__main">
+                    <div className="target-row__name">
+                      <span className="target-row__platform">modelos</span>
+                      <span>
+                        {importPreview.diff.models.create.length} novos, {importPreview.diff.models.update.length}{" "}
+                        alterados, {importPreview.diff.models.unchanged} iguais
+                      </span>
+                    </div>
+                    <div className="target-row__meta">
+                      {importPreview.diff.models.create.length > 0 && (
+                        <span>novos: {importPreview.diff.models.create.join(", ")}</span>
+                      )}
+                      {importPreview.diff.models.update.map((entry) => (
+                        <span key={entry.modelId}>
+                          {entry.modelId}: {entry.fields.join(", ")}
+                        </span>
+                      ))}
+                      {importPreview.diff.models.conflicts.length > 0 && (
+                        <span>ignorados (nome em uso): {importPreview.diff.models.conflicts.join(", ")}</span>
+                      )}
+                      {importPreview.diff.models.missingProviders.length > 0 && (
+                        <span>
+                          sem provedor cadastrado (usa OpenRouter): {importPreview.diff.models.missingProviders.join(", ")}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <div className="target-row">
+                  <div className="target-row__main">
+                    <div className="target-row__name">
+                      <span className="target-row__platform">targets</span>
+                      <span>
+                        {importPreview.diff.viewerTargets.create.length} novos,{" "}
+                        {importPreview.diff.viewerTargets.update.length} alterados,{" "}
+                        {importPreview.diff.viewerTargets.unchanged} iguais
+                      </span>
+                    </div>
+                    <div className="target-row__meta">
+                      {[...importPreview.diff.viewerTargets.create, ...importPreview.diff.viewerTargets.update].map(
+                        (label) => (
+                          <span key={label}>{label}</span>
+                        ),
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <div className="target-row">
+                  <div className="target-row__main">
+                    <div className="target-row__name">
+                      <span className="target-row__platform">telegram</span>
+                      <span>
+                        {importPreview.diff.telegram.incoming
+                          ? `${importPreview.diff.telegram.current.channelId || "sem canal"} -> ${importPreview.diff.telegram.incoming.channelId}`
+                          : "sem configuracao no arquivo"}
+                      </span>
+                    </div>
+                    {importPreview.diff.telegram.incoming?.enabled && !importPreview.diff.telegram.hasToken && (
+                      <div className="target-row__meta">
+                        <span>sem bot token neste deploy: o canal e salvo desativado</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="target-row">
+                  <div className="target-row__main">
+                    <div className="target-row__name">
+                      <span className="target-row__platform">rodadas</span>
+                      <span>
+                        {importPreview.diff.rounds.count} rodadas concluidas para a geracao{" "}
+                        {importPreview.diff.rounds.nextGeneration}
+                      </span>
+                    </div>
+                    <div className="target-row__meta">
+                      {importPreview.sections.rounds && (
+                        <span>
+                          a geracao atual ({importPreview.diff.rounds.currentGeneration},{" "}
+                          {importPreview.diff.rounds.currentCompletedRounds} rodadas) e resetada
+                        </span>
+                      )}
+                      {importPreview.diff.rounds.ignored > 0 && (
+                        <span>{importPreview.diff.rounds.ignored} rodadas em andamento ignoradas</span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                {importPreview.result && (
+                  <div className="targets__empty">
+                    Importacao concluida
+                    {importPreview.result.models &&
+                      ` - modelos: ${importPreview.result.models.created} criados, ${importPreview.result.models.updated} atualizados`}
+                    {importPreview.result.viewerTargets &&
+                      ` - targets: ${importPreview.result.viewerTargets.created} criados, ${importPreview.result.viewerTargets.updated} atualizados`}
+                    {importPreview.result.telegram && " - telegram restaurado"}
+                    {importPreview.result.rounds &&
+                      ` - ${importPreview.result.rounds.imported} rodadas na geracao ${importPreview.result.rounds.generation}`}
+                  </div>
+                )}
+              </div>
+            )}
+            <p className="muted">
+              Aceita o arquivo do botao Exportar JSON. Simule antes para ver o que muda; modelos sao casados pelo
+              modelId, entao importar de novo nao duplica nada. O bot token do Telegram nunca vem do arquivo.
+            </p>
+          </section>
+
+          <section className="round-settings" aria-label="Temporadas">
+            <label className="field-label">Temporadas</label>
+            <div className="targets__list">
+              {seasons.length === 0 ? (
+                <div className="targets__empty">Nenhuma temporada registrada</div>
+              ) : (
+                seasons.map((season) => (
+                  <div key={season.generation} className="target-row">
+                    <div className="target-row__main">
+                      <div className="target-row__name">
+                        <span className="target-row__platform">geracao {season.generation}</span>
+                        <span>{season.isCurrent ? `${season.name} (atual)` : season.name}</span>
+                      </div>
+                      <div className="target-row__meta">
+                        <span>
+                          {formatDateTime(season.startedAt)}
+                          {season.endedAt ? ` ate ${formatDateTime(season.endedAt)}` : ""}
+                        </span>
+                        <span>{season.completedRounds} rodadas</span>
+                        {season.aiChampion && <span>campeao IA: {season.aiChampion}</span>}
+                        {season.humanChampion && <span>campeao publico: {season.humanChampion}</span>}
+                        {!season.roundsKept && <span>rodadas apagadas no reset</span>}
+                      </div>
+                    </div>
+                    <div className="round-settings__row">
+                      <input
+                        type="text"
+                        className="text-input"
+                        value={seasonNameInputs[season.generation] ?? ""}
+                        onChange={(event) =>
+                          setSeasonNameInputs((current) => ({ ...current, [season.generation]: event.target.value }))
+                        }
+                        maxLength={60}
+                        disabled={busy}
+                      />
+                      <button
+                        type="button"
+                        className="btn"
+                        disabled={busy || (seasonNameInputs[season.generation] ?? "").trim() === season.name}
+                        onClick={() => void onRenameSeason(season.generation)}
+                      >
+                        {pending === `rename-season-${season.generation}` ? "Salvando..." : "Renomear"}
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+            <p className="muted">
+              Cada reset fecha a temporada atual com um retrato da configuracao e do placar e abre a proxima. O
+              historico publico mostra as temporadas e compara o placar entre elas.
+            </p>
+          </section>
+
+          <section className="tournament-panel" aria-label="Torneio">
+            <h3>Torneio</h3>
+            {snapshot?.tournament && snapshot.tournament.status !== "cancelled" ? (
+              <div className="tournament-panel__status">
+                <p>
+                  {snapshot.tournament.format === "double_elimination" ? "Dupla eliminacao" : "Mata-mata"} com{" "}
+                  {snapshot.tournament.participantCount} modelos, melhor de {snapshot.tournament.bestOf}.
+                </p>
+                <p className="muted">
+                  {snapshot.tournament.status === "completed"
+                    ? `Campeao: ${snapshot.tournament.champion?.name ?? "-"}`
+                    : `Confronto atual: ${
+                        snapshot.tournament.matches.find((match) => match.id === snapshot.tournament?.currentMatchId)
+                          ?.label ?? "aguardando"
+                      } (${snapshot.tournament.matches.filter((match) => match.status === "done").length} de ${
+                        snapshot.tournament.matches.filter((match) => match.status !== "bye").length
+                      } confrontos decididos)`}
+                </p>
+                <div className="targets__form-actions">
+                  <button type="button" className="btn btn--danger" disabled={busy} onClick={onCancelTournament}>
+                    {pending === "cancel-tournament"
+                      ? "Encerrando..."
+                      : snapshot.tournament.status === "completed"
+                        ? "Voltar ao modo normal"
+                        : "Cancelar torneio"}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <form className="tournament-panel__form" onSubmit={onStartTournament}>
+                <div className="tournament-panel__models">
+                  {activeModels
+                    .filter((model) => model.canAnswer)
+                    .map((model) => (
+                      <label key={model.modelId} className="targets__checkbox">
+                        <input
+                          type="checkbox"
+                          checked={tournamentModelIds.includes(model.modelId)}
+                          onChange={(event) => toggleTournamentModel(model.modelId, event.target.checked)}
+                          disabled={busy}
+                        />
+                        {model.name}
+                      </label>
+                    ))}
+                </div>
+                <div className="round-settings__row">
+                  <select
+                    className="text-input"
+                    value={tournamentFormat}
+                    onChange={(event) => setTournamentFormat(event.target.value as TournamentFormat)}
+                    disabled={busy}
+                  >
+                    <option value="single_elimination">Eliminacao simples</option>
+                    <option value="double_elimination">Dupla eliminacao</option>
+                  </select>
+                  <select
+                    className="text-input"
+                    value={tournamentBestOf}
+                    onChange={(event) => setTournamentBestOf(event.target.value)}
+                    disabled={busy}
+                  >
+                    {TOURNAMENT_BEST_OF_OPTIONS.map((bestOf) => (
+                      <option key={bestOf} value={String(bestOf)}>
+                        Melhor de {bestOf}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    className="btn btn--primary"
+                    disabled={
+                      busy ||
+                      tournamentModelIds.length < (tournamentFormat === "double_elimination" ? 3 : 2) ||
+                      tournamentModelIds.length > TOURNAMENT_MAX_PARTICIPANTS
+                    }
+                  >
+                    {pending === "start-tournament" ? "Iniciando..." : "Iniciar torneio"}
+                  </button>
+                </div>
+                <p className="muted">
+                  {tournamentModelIds.length} selecionados (max {TOURNAMENT_MAX_PARTICIPANTS}). Seeds seguem o rating
+                  IA atual; prompter e votantes saem dos modelos fora do confronto.
+                </p>
+              </form>
+            )}
+          </section>
+
+          <section className="fairness-panel" aria-label="Equilibrio do matchmaking">
+            <div className="fairness-panel__head">
+              <h3>Equilibrio do matchmaking</h3>
+              <button type="button" className="btn" disabled={busy} onClick={onRefreshFairness}>
+                {pending === "refresh-fairness" ? "Atualizando..." : "Atualizar"}
+              </button>
+            </div>
+            <p className="muted">
+              Ultimas {fairnessReport?.roundCount ?? 0} rodadas (janela de {fairnessReport?.windowRounds ?? 0}). O
+              sorteio prioriza quem apareceu menos e duplas que se enfrentaram menos.
+            </p>
+            {fairnessReport && fairnessReport.models.length > 0 && (
+              <>
+                <div className="fairness-panel__scroll">
+                  <table className="fairness-table">
+                    <thead>
+                      <tr>
+                        <th>Modelo</th>
+                        <th>Prompts</th>
+                        <th>Respostas</th>
+                        <th>Votos</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fairnessReport.models.map((model) => (
+                        <tr key={model.modelId} className={model.active ? undefined : "fairness-table__row--inactive"}>
+                          <th scope="row">
+                            <span className="fairness-table__dot" style={{ background: model.color }} />
+                            {model.name}
+                          </th>
+                          <td>{model.prompts}</td>
+                          <td>{model.answers}</td>
+                          <td>{model.votes}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="fairness-panel__scroll">
+                  <table className="fairness-table fairness-table--matrix">
+                    <thead>
+                      <tr>
+                        <th aria-label="Modelo" />
+                        {fairnessReport.models.map((model) => (
+                          <th key={model.modelId} title={model.name}>
+                            <span className="fairness-table__dot" style={{ background: model.color }} />
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fairnessReport.models.map((rowModel) => (
+                        <tr key={rowModel.modelId}>
+                          <th scope="row">
+                            <span className="fairness-table__dot" style={{ background: rowModel.color }} />
+                            {rowModel.name}
+                          </th>
+                          {fairnessReport.models.map((colModel) => {
+                            if (colModel.modelId === rowModel.modelId) {
+                              return <td key={colModel.modelId} className="fairness-table__cell--self">-</td>;
+                            }
+                            const count = getFairnessPairCount(fairnessReport, rowModel.modelId, colModel.modelId);
+                            return (
+                              <td
+                                key={colModel.modelId}
+                                className={count === 0 ? "fairness-table__cell--empty" : undefined}
+                                title={`${rowModel.name} x ${colModel.name}`}
+                              >
+                                {count}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </section>
+
+          {snapshot?.runBlockedReason === "insufficient_active_models" && (
+            <div className="error-banner">
+              Motor aguardando: ative ao menos 3 modelos para voltar a gerar rodadas.
+            </div>
+          )}
+          {snapshot?.runBlockedReason === "insufficient_role_coverage" && (
+            <div className="error-banner">
+              Motor aguardando: configure cobertura de papeis (pelo menos 1 prompt, 2 respostas e 1 voto fora dos
+              concorrentes).
+            </div>
+          )}
+        </section>
+        )}
+
+        {activePage === "models" && (
+        <section className="models models--standalone">
+          <div className="section-head">
+            <div>
+              <h2>Modelos</h2>
+              <p className="muted">
+                Configure papeis e custos por modelo. Janela atual: ultimas {usageWindowSize} requests por tipo.
+              </p>
+            </div>
+            <span className="models__count">
+              {filteredModels.length} exibidos de {modelStats.total}
+            </span>
+          </div>
+
+          <div className="models-ux__stats">
+            <div className="hour-card">
+              <span className="hour-card__label">Ativos</span>
+              <strong className="hour-card__value">{modelStats.active}</strong>
+            </div>
+            <div className="hour-card">
+              <span className="hour-card__label">Inativos</span>
+              <strong className="hour-card__value">{modelStats.inactive}</strong>
+            </div>
+            <div className="hour-card">
+              <span className="hour-card__label">Arquivados</span>
+              <strong className="hour-card__value">{modelStats.archived}</strong>
+            </div>
+            <div className="hour-card">
+              <span className="hour-card__label">Com resposta habilitada</span>
+              <strong className="hour-card__value">{modelStats.answerReady}</strong>
+            </div>
+          </div>
+
+          <div className="models-ux__toolbar">
+            <input
+              className="text-input models-ux__search"
+              value={modelSearch}
+              onChange={(event) => setModelSearch(event.target.value)}
+              placeholder="Buscar por nome ou model id"
+              disabled={busy}
+            />
+            <select
+              className="text-input models-ux__select"
+              value={modelStatusFilter}
+              onChange={(event) => setModelStatusFilter(event.target.value as ModelStatusFilter)}
+              disabled={busy}
+            >
+              <option value="all">Todos os status</option>
+              <option value="active">Ativos</option>
+              <option value="inactive">Inativos</option>
+              <option value="archived">Arquivados</option>
+            </select>
+            <select
+              className="text-input models-ux__select"
+              value={modelRoleFilter}
+              onChange={(event) => setModelRoleFilter(event.target.value as ModelRoleFilter)}
+              disabled={busy}
+            >
+              <option value="all">Todos os papeis</option>
+              <option value="prompt">Pode escrever prompt</option>
+              <option value="answer">Pode responder</option>
+              <option value="vote">Pode votar</option>
+            </select>
+            <select
+              className="text-input models-ux__select"
+              value={modelSort}
+              onChange={(event) => setModelSort(event.target.value as ModelSort)}
+              disabled={busy}
+            >
+              <option value="cost_desc">Ordenar por custo/h (maior)</option>
+              <option value="cost_asc">Ordenar por custo/h (menor)</option>
+              <option value="recent">Mais recentes</option>
+              <option value="name">Nome (A-Z)</option>
+            </select>
+            <button type="button" className="btn" disabled={busy} onClick={onRefreshModels}>
+              {pending === "refresh-models" ? "Atualizando..." : "Atualizar"}
+            </button>
+            <button
               type="button"
-              role="tab"
-              aria-selected={activePage === tab.id}
-              className={`admin-tabs__item ${activePage === tab.id ? "admin-tabs__item--active" : ""}`}
-              onClick={() => onSelectPage(tab.id)}
+              className="btn btn--primary"
               disabled={busy}
+              onClick={openCreateModelForm}
             >
-              <span className="admin-tabs__label">{tab.label}</span>
+              Novo modelo
+            </button>
+          </div>
+
+          <div className="models-ux__layout models-ux__layout--single">
+            <div className="models-ux__catalog">
+              <div className="models__catalog-head">
+                <h3>Lista de modelos</h3>
+                <span className="models__count">{filteredModels.length} resultados</span>
+              </div>
+
+              <div className="models__list">
+                {filteredModels.length === 0 ? (
+                  <div className="targets__empty">Nenhum modelo encontrado com os filtros atuais.</div>
+                ) : (
+                  filteredModels.map((model) => {
+                    const archived = Boolean(model.archivedAt);
+                    const usage = usageByModel[model.modelId];
+                    const hourlyUsage = usageHourlyByModel[model.modelId];
+                    const stateLabel = archived ? "arquivado" : model.enabled ? "ativo" : "inativo";
+                    return (
+                      <article
+                        key={model.modelId}
+                        className="model-card"
+                      >
+                        <button
+                          type="button"
+                          className="model-card__primary"
+                          onClick={() => {
+                            if (!archived) {
+                              hydrateModelForm(model);
+                            }
+                          }}
+                          disabled={archived}
+                        >
+                          <span className="model-row__swatch" style={{ background: model.color }} />
+                          <span className="model-card__name">{model.name}</span>
+                          <span className="model-card__id">
+                            {model.providerId ? `${model.providerId} · ${model.modelId}` : model.modelId}
+                          </span>
+                          <span className={`model-row__state ${archived ? "model-row__state--archived" : ""}`}>
+                            {stateLabel}
+                          </span>
+                        </button>
+
+                        <div className="model-card__roles">
+                          <span className={`role-pill ${model.canPrompt ? "" : "role-pill--off"}`}>Prompt</span>
+                          <span className={`role-pill ${model.canAnswer ? "" : "role-pill--off"}`}>Resposta</span>
+                          <span className={`role-pill ${model.canVote ? "" : "role-pill--off"}`}>Voto</span>
+                        </div>
+
+                        <div className="model-card__usage">
+                          <span>{formatModelHourlyCostLine(hourlyUsage)}</span>
+                          <span>{formatModelSamplesLine(usage)}</span>
+                        </div>
+
+                        <div className="model-card__actions">
+                          {archived ? (
+                            <button
+                              type="button"
+                              className="btn"
+                              disabled={busy}
+                              onClick={() => onRestoreModel(model.modelId)}
+                            >
+                              Desarquivar
+                            </button>
+                          ) : (
+                            <>
+                              <label className="models__checkbox">
+                                <input
+                                  type="checkbox"
+                                  checked={Boolean(model.enabled)}
+                                  disabled={busy}
+                                  onChange={(event) => onToggleModel(model.modelId, event.target.checked)}
+                                />
+                                Ativo
+                              </label>
+                              <button
+                                type="button"
+                                className="btn"
+                                disabled={busy}
+                                onClick={() => hydrateModelForm(model)}
+                              >
+                                Editar
+                              </button>
+                              <button
+                                type="button"
+                                className="btn btn--danger"
+                                disabled={busy}
+                                onClick={() => onRemoveModel(model.modelId)}
+                              >
+                                Arquivar
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </article>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+
+          </div>
+
+          <div className="targets__workspace">
+            <aside className="targets__editor">
+              <h3>{editingProviderId ? "Editar provedor" : "Novo provedor"}</h3>
+              <form className="targets__form" onSubmit={onSaveProvider}>
+                <label className="field-label" htmlFor="provider-id">
+                  ID
+                </label>
+                <input
+                  id="provider-id"
+                  className="text-input"
+                  value={editingProviderId ?? providerIdInput}
+                  onChange={(event) => setProviderIdInput(event.target.value)}
+                  placeholder="llama-local"
+                  disabled={busy || Boolean(editingProviderId)}
+                  required
+                />
+
+                <label className="field-label" htmlFor="provider-name">
+                  Nome
+                </label>
+                <input
+                  id="provider-name"
+                  className="text-input"
+                  value={providerName}
+                  onChange={(event) => setProviderName(event.target.value)}
+                  placeholder="llama.cpp local"
+                  disabled={busy}
+                  required
+                />
+
+                <label className="field-label" htmlFor="provider-kind">
+                  Tipo
+                </label>
+                <select
+                  id="provider-kind"
+                  className="text-input"
+                  value={providerKind}
+                  onChange={(event) => setProviderKind(event.target.value as LlmProviderKind)}
+                  disabled={busy}
+                >
+                  {(Object.keys(LLM_PROVIDER_KIND_LABELS) as LlmProviderKind[]).map((kind) => (
+                    <option key={kind} value={kind}>
+                      {LLM_PROVIDER_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+
+                <label className="field-label" htmlFor="provider-base-url">
+                  URL base
+                </label>
+                <input
+                  id="provider-base-url"
+                  className="text-input"
+                  value={providerBaseUrl}
+                  onChange={(event) => setProviderBaseUrl(event.target.value)}
+                  placeholder="http://localhost:8080/v1"
+                  disabled={busy}
+                  required
+                />
+
+                <label className="field-label" htmlFor="provider-api-key-env">
+                  Variavel com a API key (opcional)
+                </label>
+                <input
+                  id="provider-api-key-env"
+                  className="text-input"
+                  value={providerApiKeyEnv}
+                  onChange={(event) => setProviderApiKeyEnv(event.target.value)}
+                  placeholder="LOCAL_LLM_API_KEY"
+                  disabled={busy}
+                />
+
+                <div className="targets__form-actions">
+                  <button
+                    type="submit"
+                    className="btn btn--primary"
+                    disabled={busy || !(editingProviderId ?? providerIdInput).trim() || !providerBaseUrl.trim()}
+                  >
+                    {pending === "save-provider" ? "Salvando..." : editingProviderId ? "Salvar Edicao" : "Adicionar Provedor"}
+                  </button>
+                  {editingProviderId && (
+                    <button type="button" className="btn" onClick={resetProviderForm} disabled={busy}>
+                      Cancelar
+                    </button>
+                  )}
+                </div>
+              </form>
+            </aside>
+
+            <div className="targets__catalog">
+              <h3>Provedores LLM ({providers.length + 1})</h3>
+              <div className="targets__list">
+                <div className="target-row">
+                  <div className="target-row__main">
+                    <div className="target-row__name">
+                      <span className="target-row__platform">{DEFAULT_LLM_PROVIDER_ID}</span>
+                      <span>OpenRouter (padrao)</span>
+                    </div>
+                    <div className="target-row__meta">
+                      <span>usado por modelos sem provedor definido</span>
+                    </div>
+                  </div>
+                </div>
+                {providers.map((provider) => {
+                  const modelCount = models.filter((model) => model.providerId === provider.providerId).length;
+                  return (
+                    <div className="target-row" key={provider.providerId}>
+                      <div className="target-row__main">
+                        <div className="target-row__name">
+                          <span className="target-row__platform">{provider.providerId}</span>
+                          <span>{provider.name}</span>
+                        </div>
+                        <div className="target-row__meta">
+                          <span>{provider.baseUrl}</span>
+                          <span>{provider.kind === "openrouter" ? "custo via /generation" : "custo pela tabela"}</span>
+                          {provider.apiKeyEnv && <span>key: {provider.apiKeyEnv}</span>}
+                          <span>{modelCount} modelo(s)</span>
+                        </div>
+                      </div>
+                      <div className="target-row__actions">
+                        <button type="button" className="btn" disabled={busy} onClick={() => hydrateProviderForm(provider)}>
+                          Editar
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn--danger"
+                          disabled={busy || modelCount > 0}
+                          onClick={() => onDeleteProvider(provider.providerId)}
+                        >
+                          Remover
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </section>
+        )}
+
+        {activePage === "targets" && (
+        <section className="targets targets--standalone">
+          <div className="section-head">
+            <div>
+              <h2>Targets de Audiencia</h2>
+              <p className="muted">
+                Twitch usa <code>user_login</code>. YouTube usa <code>videoId</code>. Telegram usa{' '}
+                <code>@canal</code> ou <code>-100...</code>.
+              </p>
+            </div>
+            <button type="button" className="btn" disabled={busy} onClick={onRefreshTargets}>
+              {pending === "refresh-targets" ? "Atualizando..." : "Atualizar"}
+            </button>
+          </div>
+
+          <div className="targets__workspace">
+            <aside className="targets__editor">
+              <h3>{editingTargetId ? "Editar target" : "Novo target"}</h3>
+              <form className="targets__form" onSubmit={onSaveViewerTarget}>
+                <label className="field-label" htmlFor="target-platform">
+                  Plataforma
+                </label>
+                <select
+                  id="target-platform"
+                  className="text-input"
+                  value={targetPlatform}
+                  onChange={(event) => setTargetPlatform(event.target.value as "twitch" | "youtube")}
+                  disabled={busy}
+                >
+                  <option value="twitch">Twitch</option>
+                  <option value="youtube">YouTube</option>
+                </select>
+
+                <label className="field-label" htmlFor="target-value">
+                  Target
+                </label>
+                <input
+                  id="target-value"
+                  className="text-input"
+                  value={targetValue}
+                  onChange={(event) => setTargetValue(event.target.value)}
+                  placeholder={targetPlatform === "twitch" ? "user_login" : "videoId (11 chars)"}
+                  disabled={busy}
+                  required
+                />
+
+                <label className="targets__checkbox">
+                  <input
+                    type="checkbox"
+                    checked={targetEnabled}
+                    onChange={(event) => setTargetEnabled(event.target.checked)}
+                    disabled={busy}
+                  />
+                  Ativo
+                </label>
+
+                <div className="targets__form-actions">
+                  <button
+                    type="submit"
+                    className="btn btn--primary"
+                    disabled={busy || !targetValue.trim()}
+                  >
+                    {pending === "save-target"
+                      ? "Salvando..."
+                      : editingTargetId
+                        ? "Salvar Edicao"
+                        : "Adicionar Target"}
+                  </button>
+                  {editingTargetId && (
+                    <button
+                      type="button"
+                      className="btn"
+                      onClick={resetTargetForm}
+                      disabled={busy}
+                    >
+                      Cancelar
+                    </button>
+                  )}
+                </div>
+              </form>
+            </aside>
+
+            <div className="targets__catalog">
+              <h3>Lista de targets</h3>
+              <div className="targets__list">
+                {viewerTargets.length === 0 ? (
+                  <div className="targets__empty">Nenhum target configurado.</div>
+                ) : (
+                  viewerTargets.map((target) => (
+                    <div className="target-row" key={target._id}>
+                      <div className="target-row__main">
+                        <div className="target-row__name">
+                          <span className="target-row__platform">{target.platform.toUpperCase()}</span>
+                          <span>{target.target}</span>
+                        </div>
+                        <div className="target-row__meta">
+                          <span>{target.enabled ? "ativo" : "desativado"}</span>
+                          <span>{target.isLive ? `${target.viewerCount} ao vivo` : "offline"}</span>
+                          <span>ultimo poll: {formatLastPolled(target.lastPolledAt)}</span>
+                          {target.lastError && <span className="target-row__error">{target.lastError}</span>}
+                        </div>
+                      </div>
+                      <div className="target-row__actions">
+                        <button
+                          type="button"
+                          className="btn"
+                          disabled={busy}
+                          onClick={() => onEditViewerTarget(target)}
+                        >
+                          Editar
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn--danger"
+                          disabled={busy}
+                          onClick={() => onDeleteViewerTarget(target._id)}
+                        >
+                          Remover
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="targets__workspace">
+            <aside className="targets__editor">
+              <h3>Telegram votacao</h3>
+              <form className="targets__form" onSubmit={onSaveTelegramConfig}>
+                <label className="field-label" htmlFor="telegram-channel-id">
+                  Channel ID
+                </label>
+                <input
+                  id="telegram-channel-id"
+                  className="text-input"
+                  value={telegramChannelIdInput}
+                  onChange={(event) => setTelegramChannelIdInput(event.target.value)}
+                  placeholder="@seu_canal ou -1001234567890"
+                  disabled={busy}
+                />
+
+                <label className="field-label" htmlFor="telegram-bot-token">
+                  Bot token (opcional para manter)
+                </label>
+                <input
+                  id="telegram-bot-token"
+                  type="password"
+                  className="text-input"
+                  value={telegramBotTokenInput}
+                  onChange={(event) => setTelegramBotTokenInput(event.target.value)}
+                  placeholder={telegramConfig?.hasBotToken ? "Token ja configurado" : "123456:ABCDEF..."}
+                  disabled={busy}
+                />
+
+                <label className="targets__checkbox">
+                  <input
+                    type="checkbox"
+                    checked={telegramEnabledInput}
+                    onChange={(event) => setTelegramEnabledInput(event.target.checked)}
+                    disabled={busy}
+                  />
+                  Ativar integracao Telegram
+                </label>
+
+                <div className="targets__form-actions">
+                  <button
+                    type="submit"
+                    className="btn btn--primary"
+                    disabled={busy || (telegramEnabledInput && !telegramChannelIdInput.trim())}
+                  >
+                    {pending === "save-telegram-config" ? "Salvando..." : "Salvar Telegram"}
+                  </button>
+                </div>
+              </form>
+            </aside>
+
+            <div className="targets__catalog">
+              <h3>Status Telegram</h3>
+              <div className="targets__list">
+                <div className="target-row target-row--telegram">
+                  <div className="target-row__main">
+                    <div className="target-row__name">
+                      <span className="target-row__platform">TELEGRAM</span>
+                      <span>{telegramConfig?.channelId || "canal nao configurado"}</span>
+                    </div>
+                    <div className="target-row__meta">
+                      <span>{telegramConfig?.enabled ? "ativo" : "desativado"}</span>
+                      <span>
+                        token:{" "}
+                        {telegramConfig?.hasBotToken
+                          ? (telegramConfig?.tokenPreview ?? "configurado")
+                          : "nao configurado"}
+                      </span>
+                      <span>ultimo poll: {formatLastPolled(telegramConfig?.lastPolledAt ?? undefined)}</span>
+                      {telegramConfig?.lastError && <span className="target-row__error">{telegramConfig.lastError}</span>}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="targets__workspace">
+            <aside className="targets__editor">
+              <h3>Protecao de votos</h3>
+              <p className="muted">
+                Cada espectador pode tentar votar {voteIntegrity?.limits.rateLimitMax ?? "-"} vezes a cada{" "}
+                {formatSecondsFromMs(voteIntegrity?.limits.rateLimitWindowMs ?? null)}. Mais de{" "}
+                {voteIntegrity?.limits.burstThreshold ?? "-"} votos novos em{" "}
+                {formatSecondsFromMs(voteIntegrity?.limits.burstWindowMs ?? null)} na mesma rodada sao sinalizados.
+              </p>
+              <p className="muted">
+                O limite conta por viewerId, que o navegador gera: sem o desafio ligado, basta trocar de id para escapar
+                dele.
+              </p>
+              <form className="targets__form" onSubmit={onSaveVoteIntegritySettings}>
+                <label className="field-label" htmlFor="vote-challenge-bits">
+                  Dificuldade do desafio (bits, 0 = desligado)
+                </label>
+                <input
+                  id="vote-challenge-bits"
+                  className="text-input"
+                  type="number"
+                  min={0}
+                  max={voteIntegrity?.limits.maxChallengeBits ?? 24}
+                  step={1}
+                  value={challengeBitsInput}
+                  onChange={(event) => setChallengeBitsInput(event.target.value)}
+                  disabled={busy}
+                />
+                <div className="targets__form-actions">
+                  <button type="submit" className="btn btn--primary" disabled={busy}>
+                    {pending === "save-vote-integrity" ? "Salvando..." : "Salvar"}
+                  </button>
+                  {voteIntegrity?.activeRound?.phase === "voting" && (
+                    <button
+                      type="button"
+                      className="btn btn--danger"
+                      disabled={busy}
+                      onClick={() => onExcludeFlaggedVotes(voteIntegrity.activeRound!.roundId)}
+                    >
+                      {pending === "exclude-flagged-votes"
+                        ? "Excluindo..."
+                        : `Excluir sinalizados da #${voteIntegrity.activeRound.num}`}
+                    </button>
+                  )}
+                </div>
+              </form>
+            </aside>
+
+            <div className="targets__catalog">
+              <h3>Votos sinalizados ({voteIntegrity?.votes.length ?? 0})</h3>
+              <div className="targets__list">
+                {!voteIntegrity || voteIntegrity.votes.length === 0 ? (
+                  <div className="targets__empty">Nenhum voto sinalizado.</div>
+                ) : (
+                  voteIntegrity.votes.map((vote) => (
+                    <div className="target-row" key={vote._id}>
+                      <div className="target-row__main">
+                        <div className="target-row__name">
+                          <span className="target-row__platform">#{vote.roundNum ?? "-"}</span>
+                          <span>{vote.viewerId}</span>
+                        </div>
+                        <div className="target-row__meta">
+                          <span>resposta {indexFromSide(vote.side) + 1}</span>
+                          <span>{vote.flaggedReasons.map((reason) => VIEWER_VOTE_FLAG_LABELS[reason]).join(", ")}</span>
+                          <span>{vote.excludedAt === null ? "contando" : "excluido"}</span>
+                          <span>{formatDateTime(vote.flaggedAt)}</span>
+                        </div>
+                      </div>
+                      {vote.roundOpen && (
+                        <div className="target-row__actions">
+                          <button type="button" className="btn" disabled={busy} onClick={() => onToggleVoteExcluded(vote)}>
+                            {vote.excludedAt === null ? "Excluir" : "Restaurar"}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        </section>
+        )}
+
+        {activePage === "prompts" && (
+        <section className="targets targets--standalone">
+          <div className="section-head">
+            <div>
+              <h2>Temas do Publico</h2>
+              <p className="muted">
+                Temas enviados pela pagina ao vivo e pelo comando de chat. Aprovados entram na fila e aparecem a
+                cada {VIEWER_PROMPT_EVERY_N_ROUNDS} rodadas, com credito para quem enviou.
+              </p>
+            </div>
+            <button type="button" className="btn" disabled={busy} onClick={onRefreshViewerPrompts}>
+              {pending === "refresh-prompts" ? "Atualizando..." : "Atualizar"}
             </button>
-          ))}
-        </div>
-        <p className="admin-tabs__hint">{ADMIN_PAGE_TABS.find((tab) => tab.id === activePage)?.description}</p>
+          </div>
 
-        {error && <div className="error-banner">{error}</div>}
+          <div className="targets__workspace">
+            <div className="targets__catalog">
+              <h3>Aguardando moderacao ({viewerPrompts?.pending.length ?? 0})</h3>
+              <div className="targets__list">
+                {(viewerPrompts?.pending ?? []).length === 0 ? (
+                  <div className="targets__empty">Nenhum tema pendente.</div>
+                ) : (
+                  viewerPrompts?.pending.map((prompt) => (
+                    <ViewerPromptRow key={prompt._id} prompt={prompt}>
+                      <button
+                        type="button"
+                        className="btn btn--primary"
+                        disabled={busy}
+                        onClick={() => onReviewViewerPrompt(prompt._id, "approved")}
+                      >
+                        Aprovar
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn--danger"
+                        disabled={busy}
+                        onClick={() => onReviewViewerPrompt(prompt._id, "rejected")}
+                      >
+                        Rejeitar
+                      </button>
+                    </ViewerPromptRow>
+                  ))
+                )}
+              </div>
+            </div>
 
-        {activePage === "operations" && (
-        <section className="operations operations--standalone" aria-label="Operacao do sistema">
-          <div className="operations__top">
-            <div className="operations__intro">
-              <h2>Operacao</h2>
+            <div className="targets__catalog">
+              <h3>Fila aprovada ({viewerPrompts?.approved.length ?? 0})</h3>
+              <div className="targets__list">
+                {(viewerPrompts?.approved ?? []).length === 0 ? (
+                  <div className="targets__empty">Nenhum tema aprovado na fila.</div>
+                ) : (
+                  viewerPrompts?.approved.map((prompt) => (
+                    <ViewerPromptRow key={prompt._id} prompt={prompt}>
+                      <button
+                        type="button"
+                        className="btn btn--danger"
+                        disabled={busy}
+                        onClick={() => onReviewViewerPrompt(prompt._id, "rejected")}
+                      >
+                        Remover da fila
+                      </button>
+                    </ViewerPromptRow>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="targets__catalog">
+            <h3>Revisados recentemente</h3>
+            <div className="targets__list">
+              {(viewerPrompts?.reviewed ?? []).length === 0 ? (
+                <div className="targets__empty">Nenhum tema revisado ainda.</div>
+              ) : (
+                viewerPrompts?.reviewed.map((prompt) => (
+                  <ViewerPromptRow key={prompt._id} prompt={prompt}>
+                    {prompt.status === "rejected" && (
+                      <button
+                        type="button"
+                        className="btn"
+                        disabled={busy}
+                        onClick={() => onReviewViewerPrompt(prompt._id, "approved")}
+                      >
+                        Aprovar
+                      </button>
+                    )}
+                  </ViewerPromptRow>
+                ))
+              )}
+            </div>
+          </div>
+        </section>
+        )}
+
+        {activePage === "examples" && (
+        <section className="targets targets--standalone">
+          <div className="section-head">
+            <div>
+              <h2>Banco de Exemplos</h2>
               <p className="muted">
-                Comandos de runtime e saude do motor para controle rapido durante a transmissao.
+                O prompter recebe uma amostra dos exemplos ativos do idioma do show a cada rodada. {enabledPromptExampleCount}{" "}
+                ativos de {promptExamples.length}.
               </p>
             </div>
-            <div className="actions" aria-label="Acoes admin">
-              <button
-                type="button"
-                className="btn btn--primary"
-                disabled={busy || Boolean(snapshot?.isPaused)}
-                onClick={() => runControl("/admin/pause", "pause")}
-              >
-                {pending === "pause" ? "Pausando..." : "Pausar"}
-              </button>
-              <button
-                type="button"
-                className="btn"
-                disabled={busy || !snapshot?.isPaused}
-                onClick={() => runControl("/admin/resume", "resume")}
-              >
-                {pending === "resume" ? "Retomando..." : "Retomar"}
+            <div className="targets__form-actions">
+              <button type="button" className="btn" disabled={busy} onClick={onRefreshPromptExamples}>
+                {pending === "refresh-examples" ? "Atualizando..." : "Atualizar"}
               </button>
-              <button type="button" className="btn" disabled={busy} onClick={onExport}>
-                {pending === "export" ? "Exportando..." : "Exportar JSON"}
+              <button type="button" className="btn" disabled={busy} onClick={() => onExportPromptExamples("json")}>
+                {pending === "export-examples-json" ? "Exportando..." : "Exportar JSON"}
               </button>
-              <button
-                type="button"
-                className="btn btn--danger"
-                disabled={busy}
-                onClick={() => setIsResetOpen(true)}
-              >
-                Resetar Dados
+              <button type="button" className="btn" disabled={busy} onClick={() => onExportPromptExamples("csv")}>
+                {pending === "export-examples-csv" ? "Exportando..." : "Exportar CSV"}
               </button>
+              <label className={`btn examples-import${busy ? " examples-import--disabled" : ""}`}>
+                {pending === "import-examples" ? "Importando..." : "Importar JSON/CSV"}
+                <input
+                  type="file"
+                  accept=".json,.csv,application/json,text/csv"
+                  onChange={(event) => void onImportPromptExamples(event)}
+                  disabled={busy}
+                />
+              </label>
+            </div>
+          </div>
+          {exampleImportResult && <p className="muted">Importacao concluida: {exampleImportResult}</p>}
+
+          <div className="targets__workspace">
+            <aside className="targets__editor">
+              <h3>{editingExampleId ? "Editar exemplo" : "Novo exemplo"}</h3>
+              <form className="targets__form" onSubmit={onSavePromptExample}>
+                <label className="field-label" htmlFor="example-text">
+                  Texto
+                </label>
+                <textarea
+                  id="example-text"
+                  className="text-input examples-text"
+                  rows={3}
+                  value={exampleText}
+                  onChange={(event) => setExampleText(event.target.value)}
+                  placeholder="A pior coisa para dizer num velorio: ___"
+                  disabled={busy}
+                  required
+                />
+
+                <label className="field-label" htmlFor="example-category">
+                  Categoria
+                </label>
+                <input
+                  id="example-category"
+                  className="text-input"
+                  value={exampleCategory}
+                  onChange={(event) => setExampleCategory(event.target.value)}
+                  placeholder="ex: cotidiano"
+                  disabled={busy}
+                />
+
+                <label className="field-label" htmlFor="example-tags">
+                  Tags (separadas por virgula)
+                </label>
+                <input
+                  id="example-tags"
+                  className="text-input"
+                  value={exampleTags}
+                  onChange={(event) => setExampleTags(event.target.value)}
+                  placeholder="lacuna, trabalho"
+                  disabled={busy}
+                />
+
+                <label className="field-label" htmlFor="example-language">
+                  Idioma
+                </label>
+                <input
+                  id="example-language"
+                  className="text-input"
+                  value={exampleLanguage}
+                  onChange={(event) => setExampleLanguage(event.target.value)}
+                  disabled={busy}
+                />
+
+                <label className="targets__checkbox">
+                  <input
+                    type="checkbox"
+                    checked={exampleEnabled}
+                    onChange={(event) => setExampleEnabled(event.target.checked)}
+                    disabled={busy}
+                  />
+                  Ativo
+                </label>
+
+                <div className="targets__form-actions">
+                  <button type="submit" className="btn btn--primary" disabled={busy || !exampleText.trim()}>
+                    {pending === "save-example"
+                      ? "Salvando..."
+                      : editingExampleId
+                        ? "Salvar Edicao"
+                        : "Adicionar Exemplo"}
+                  </button>
+                  {editingExampleId && (
+                    <button type="button" className="btn" onClick={resetExampleForm} disabled={busy}>
+                      Cancelar
+                    </button>
+                  )}
+                </div>
+              </form>
+            </aside>
+
+            <div className="targets__catalog">
+              <h3>Exemplos ({filteredPromptExamples.length})</h3>
+              <div className="round-settings__row">
+                <input
+                  className="text-input"
+                  value={exampleSearch}
+                  onChange={(event) => setExampleSearch(event.target.value)}
+                  placeholder="Buscar por texto, categoria ou tag"
+                />
+                <select
+                  className="text-input"
+                  value={exampleFilter}
+                  onChange={(event) => setExampleFilter(event.target.value as PromptExampleFilter)}
+                >
+                  <option value="all">Todos</option>
+                  <option value="enabled">Ativos</option>
+                  <option value="disabled">Inativos</option>
+                </select>
+              </div>
+              <div className="targets__list">
+                {filteredPromptExamples.length === 0 ? (
+                  <div className="targets__empty">Nenhum exemplo encontrado.</div>
+                ) : (
+                  filteredPromptExamples.map((example) => (
+                    <div className="target-row" key={example._id}>
+                      <div className="target-row__main">
+                        <div className="target-row__name">
+                          <span className="target-row__platform">{example.language}</span>
+                          <span>{example.text}</span>
+                        </div>
+                        <div className="target-row__meta">
+                          <span>{example.enabled ? "ativo" : "desativado"}</span>
+                          {example.category && <span>{example.category}</span>}
+                          {example.tags.length > 0 && <span>{example.tags.map((tag) => `#${tag}`).join(" ")}</span>}
+                        </div>
+                      </div>
+                      <div className="target-row__actions">
+                        <button
+                          type="button"
+                          className="btn"
+                          disabled={busy}
+                          onClick={() => onTogglePromptExample(example)}
+                        >
+                          {example.enabled ? "Desativar" : "Ativar"}
+                        </button>
+                        <button
+                          type="button"
+                          className="btn"
+                          disabled={busy}
+                          onClick={() => onEditPromptExample(example)}
+                        >
+                          Editar
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn--danger"
+                          disabled={busy}
+                          onClick={() => onDeletePromptExample(example._id)}
+                        >
+                          Remover
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
             </div>
           </div>
 
-          <section className="status-grid" aria-live="polite">
-            <StatusCard
-              label="Motor"
-              value={snapshot?.isPaused ? "Pausado" : "Rodando"}
-            />
-            <StatusCard
-              label="Rodada Ativa"
-              value={snapshot?.isRunningRound ? "Em Andamento" : "Parada"}
-            />
-            <StatusCard
-              label="Rodadas Persistidas"
-              value={String(snapshot?.persistedRounds ?? 0)}
-            />
-            <StatusCard
-              label="Modelos Ativos"
-              value={String(snapshot?.activeModelCount ?? activeModels.length)}
-            />
-            <StatusCard
-              label="Execucao"
-              value={
-                snapshot?.canRunRounds
-                  ? "Pronto"
-                  : snapshot?.runBlockedReason === "insufficient_role_coverage"
-                    ? "Bloqueado (papeis)"
-                    : "Bloqueado (<3 modelos)"
-              }
-            />
-            <StatusCard label="Espectadores" value={String(snapshot?.viewerCount ?? 0)} />
-          </section>
-
-          {snapshot?.runBlockedReason === "insufficient_active_models" && (
-            <div className="error-banner">
-              Motor aguardando: ative ao menos 3 modelos para voltar a gerar rodadas.
-            </div>
-          )}
-          {snapshot?.runBlockedReason === "insufficient_role_coverage" && (
-            <div className="error-banner">
-              Motor aguardando: configure cobertura de papeis (pelo menos 1 prompt, 2 respostas e 1 voto fora dos
-              concorrentes).
+          <div className="targets__catalog">
+            <h3>Prompts repetidos ({promptSimilarity?.rounds.length ?? 0})</h3>
+            <p className="muted">
+              Cada prompt gerado e comparado com as rodadas recentes e com o banco de exemplos. Acima de{" "}
+              {Math.round((promptSimilarity?.threshold ?? 0) * 100)}% de similaridade o prompter gera de novo.
+            </p>
+            <div className="targets__list">
+              {!promptSimilarity || promptSimilarity.rounds.length === 0 ? (
+                <div className="targets__empty">Nenhum prompt repetido recentemente.</div>
+              ) : (
+                promptSimilarity.rounds.map((round) => (
+                  <div className="target-row" key={round._id}>
+                    <div className="target-row__main">
+                      <div className="target-row__name">
+                        <span className="target-row__platform">#{round.num}</span>
+                        <span>{round.prompt}</span>
+                      </div>
+                      <div className="target-row__meta">
+                        <span>{Math.round(round.similarity.score * 100)}% parecido com</span>
+                        <span>
+                          {round.similarity.source === "round"
+                            ? `rodada #${round.similarity.matchRoundNum ?? "?"}`
+                            : "exemplo"}
+                          : {round.similarity.match}
+                        </span>
+                        <span>{round.similarity.regenerations} regeneracoes</span>
+                        <span>{round.prompter.name}</span>
+                        <span>{formatDateTime(round.createdAt)}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
             </div>
-          )}
+          </div>
         </section>
         )}
 
-        {activePage === "models" && (
-        <section className="models models--standalone">
+        {activePage === "templates" && (
+        <section className="targets targets--standalone">
           <div className="section-head">
             <div>
-              <h2>Modelos</h2>
+              <h2>Templates</h2>
               <p className="muted">
-                Configure papeis e custos por modelo. Janela atual: ultimas {usageWindowSize} requests por tipo.
+                Cada etapa da rodada usa a versao ativa do seu template. Salvar cria uma nova versao e ativa ela na
+                proxima rodada; cada rodada guarda as versoes que usou.
               </p>
             </div>
-            <span className="models__count">
-              {filteredModels.length} exibidos de {modelStats.total}
-            </span>
           </div>
 
-          <div className="models-ux__stats">
-            <div className="hour-card">
-              <span className="hour-card__label">Ativos</span>
-              <strong className="hour-card__value">{modelStats.active}</strong>
-            </div>
-            <div className="hour-card">
-              <span className="hour-card__label">Inativos</span>
-              <strong className="hour-card__value">{modelStats.inactive}</strong>
-            </div>
-            <div className="hour-card">
-              <span className="hour-card__label">Arquivados</span>
-              <strong className="hour-card__value">{modelStats.archived}</strong>
-            </div>
-            <div className="hour-card">
-              <span className="hour-card__label">Com resposta habilitada</span>
-              <strong className="hour-card__value">{modelStats.answerReady}</strong>
-            </div>
-          </div>
+          <div className="targets__workspace">
+            <aside className="targets__editor">
+              <h3>Editar template</h3>
+              <form className="targets__form" onSubmit={onSavePromptTemplate}>
+                <label className="field-label" htmlFor="template-kind">
+                  Etapa
+                </label>
+                <select
+                  id="template-kind"
+                  className="text-input"
+                  value={templateKind}
+                  onChange={(event) => onSelectTemplateKind(event.target.value as PromptTemplateKind)}
+                  disabled={busy}
+                >
+                  {PROMPT_TEMPLATE_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {PROMPT_TEMPLATE_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
 
-          <div className="models-ux__toolbar">
-            <input
-              className="text-input models-ux__search"
-              value={modelSearch}
-              onChange={(event) => setModelSearch(event.target.value)}
-              placeholder="Buscar por nome ou model id"
-              disabled={busy}
-            />
-            <select
-              className="text-input models-ux__select"
-              value={modelStatusFilter}
-              onChange={(event) => setModelStatusFilter(event.target.value as ModelStatusFilter)}
-              disabled={busy}
-            >
-              <option value="all">Todos os status</option>
-              <option value="active">Ativos</option>
-              <option value="inactive">Inativos</option>
-              <option value="archived">Arquivados</option>
-            </select>
-            <select
-              className="text-input models-ux__select"
-              value={modelRoleFilter}
-              onChange={(event) => setModelRoleFilter(event.target.value as ModelRoleFilter)}
-              disabled={busy}
-            >
-              <option value="all">Todos os papeis</option>
-              <option value="prompt">Pode escrever prompt</option>
-              <option value="answer">Pode responder</option>
-              <option value="vote">Pode votar</option>
-            </select>
-            <select
-              className="text-input models-ux__select"
-              value={modelSort}
-              onChange={(event) => setModelSort(event.target.value as ModelSort)}
-              disabled={busy}
-            >
-              <option value="cost_desc">Ordenar por custo/h (maior)</option>
-              <option value="cost_asc">Ordenar por custo/h (menor)</option>
-              <option value="recent">Mais recentes</option>
-              <option value="name">Nome (A-Z)</option>
-            </select>
-            <button type="button" className="btn" disabled={busy} onClick={onRefreshModels}>
-              {pending === "refresh-models" ? "Atualizando..." : "Atualizar"}
-            </button>
-            <button
-              type="button"
-              className="btn btn--primary"
-              disabled={busy}
-              onClick={openCreateModelForm}
-            >
-              Novo modelo
-            </button>
-          </div>
+                <label className="field-label" htmlFor="template-system">
+                  System prompt
+                </label>
+                <textarea
+                  id="template-system"
+                  className="text-input examples-text"
+                  rows={8}
+                  value={templateSystem}
+                  onChange={(event) => setTemplateSystem(event.target.value)}
+                  disabled={busy}
+                  required
+                />
 
-          <div className="models-ux__layout models-ux__layout--single">
-            <div className="models-ux__catalog">
-              <div className="models__catalog-head">
-                <h3>Lista de modelos</h3>
-                <span className="models__count">{filteredModels.length} resultados</span>
-              </div>
+                <label className="field-label" htmlFor="template-user">
+                  Mensagem do usuario
+                </label>
+                <textarea
+                  id="template-user"
+                  className="text-input examples-text"
+                  rows={3}
+                  value={templateUser}
+                  onChange={(event) => setTemplateUser(event.target.value)}
+                  disabled={busy}
+                  required
+                />
 
-              <div className="models__list">
-                {filteredModels.length === 0 ? (
-                  <div className="targets__empty">Nenhum modelo encontrado com os filtros atuais.</div>
-                ) : (
-                  filteredModels.map((model) => {
-                    const archived = Boolean(model.archivedAt);
-                    const usage = usageByModel[model.modelId];
-                    const hourlyUsage = usageHourlyByModel[model.modelId];
-                    const stateLabel = archived ? "arquivado" : model.enabled ? "ativo" : "inativo";
-                    return (
-                      <article
-                        key={model.modelId}
-                        className="model-card"
-                      >
-                        <button
-                          type="button"
-                          className="model-card__primary"
-                          onClick={() => {
-                            if (!archived) {
-                              hydrateModelForm(model);
-                            }
-                          }}
-                          disabled={archived}
-                        >
-                          <span className="model-row__swatch" style={{ background: model.color }} />
-                          <span className="model-card__name">{model.name}</span>
-                          <span className="model-card__id">{model.modelId}</span>
-                          <span className={`model-row__state ${archived ? "model-row__state--archived" : ""}`}>
-                            {stateLabel}
-                          </span>
-                        </button>
+                <p className="muted">
+                  Variaveis: {PROMPT_TEMPLATE_VARIABLES[templateKind].map((name) => `{${name}}`).join(" ")}
+                </p>
 
-                        <div className="model-card__roles">
-                          <span className={`role-pill ${model.canPrompt ? "" : "role-pill--off"}`}>Prompt</span>
-                          <span className={`role-pill ${model.canAnswer ? "" : "role-pill--off"}`}>Resposta</span>
-                          <span className={`role-pill ${model.canVote ? "" : "role-pill--off"}`}>Voto</span>
-                        </div>
+                <label className="field-label" htmlFor="template-note">
+                  Nota da versao
+                </label>
+                <input
+                  id="template-note"
+                  className="text-input"
+                  value={templateNote}
+                  onChange={(event) => setTemplateNote(event.target.value)}
+                  placeholder="ex: respostas mais curtas"
+                  disabled={busy}
+                />
 
-                        <div className="model-card__usage">
-                          <span>{formatModelHourlyCostLine(hourlyUsage)}</span>
-                          <span>{formatModelSamplesLine(usage)}</span>
-                        </div>
+                <div className="targets__form-actions">
+                  <button
+                    type="submit"
+                    className="btn btn--primary"
+                    disabled={busy || !templateSystem.trim() || !templateUser.trim()}
+                  >
+                    {pending === "save-template" ? "Salvando..." : "Salvar nova versao"}
+                  </button>
+                </div>
+              </form>
+            </aside>
 
-                        <div className="model-card__actions">
-                          {archived ? (
+            <div className="targets__catalog">
+              <h3>Versoes ({PROMPT_TEMPLATE_KIND_LABELS[templateKind]})</h3>
+              <div className="targets__list">
+                {templateVersions.length === 0 ? (
+                  <div className="targets__empty">Nenhuma versao salva.</div>
+                ) : (
+                  templateVersions.map((template) => {
+                    const isActive = promptTemplates?.activeVersions[template.kind] === template.version;
+                    return (
+                      <div className="target-row" key={template._id}>
+                        <div className="target-row__main">
+                          <div className="target-row__name">
+                            <span className="target-row__platform">v{template.version}</span>
+                            <span>{template.note || "Sem nota"}</span>
+                          </div>
+                          <div className="target-row__meta">
+                            <span>{isActive ? "ativa" : "inativa"}</span>
+                            <span>{template.recentRounds} rodadas recentes</span>
+                            <span>criada: {formatDateTime(template.createdAt)}</span>
+                          </div>
+                        </div>
+                        <div className="target-row__actions">
+                          {!isActive && (
                             <button
                               type="button"
                               className="btn"
                               disabled={busy}
-                              onClick={() => onRestoreModel(model.modelId)}
+                              onClick={() => onActivatePromptTemplate(template)}
                             >
-                              Desarquivar
+                              Ativar
                             </button>
-                          ) : (
-                            <>
-                              <label className="models__checkbox">
-                                <input
-                                  type="checkbox"
-                                  checked={Boolean(model.enabled)}
-                                  disabled={busy}
-                                  onChange={(event) => onToggleModel(model.modelId, event.target.checked)}
-                                />
-                                Ativo
-                              </label>
-                              <button
-                                type="button"
-                                className="btn"
-                                disabled={busy}
-                                onClick={() => hydrateModelForm(model)}
-                              >
-                                Editar
-                              </button>
-                              <button
-                                type="button"
-                                className="btn btn--danger"
-                                disabled={busy}
-                                onClick={() => onRemoveModel(model.modelId)}
-                              >
-                                Arquivar
-                              </button>
-                            </>
                           )}
+                          <button
+                            type="button"
+                            className="btn"
+                            disabled={busy}
+                            onClick={() => hydrateTemplateForm(template)}
+                          >
+                            Editar a partir desta
+                          </button>
                         </div>
-                      </article>
+                      </div>
                     );
                   })
                 )}
               </div>
             </div>
-
           </div>
         </section>
         )}
 
-        {activePage === "targets" && (
+        {activePage === "moderation" && (
         <section className="targets targets--standalone">
           <div className="section-head">
             <div>
-              <h2>Targets de Audiencia</h2>
+              <h2>Moderacao</h2>
               <p className="muted">
-                Twitch usa <code>user_login</code>. YouTube usa <code>videoId</code>. Telegram usa{' '}
-                <code>@canal</code> ou <code>-100...</code>.
+                Prompts e respostas passam pela lista de bloqueio e, se configurado, por um modelo juiz antes de irem
+                para a live, o broadcast e o Telegram.
               </p>
             </div>
-            <button type="button" className="btn" disabled={busy} onClick={onRefreshTargets}>
-              {pending === "refresh-targets" ? "Atualizando..." : "Atualizar"}
+            <button type="button" className="btn" disabled={busy} onClick={onRefreshModeration}>
+              {pending === "refresh-moderation" ? "Atualizando..." : "Atualizar"}
             </button>
           </div>
 
           <div className="targets__workspace">
             <aside className="targets__editor">
-              <h3>{editingTargetId ? "Editar target" : "Novo target"}</h3>
-              <form className="targets__form" onSubmit={onSaveViewerTarget}>
-                <label className="field-label" htmlFor="target-platform">
-                  Plataforma
+              <h3>Configuracao</h3>
+              <form className="targets__form" onSubmit={onSaveModerationSettings}>
+                <label className="field-label" htmlFor="moderation-action">
+                  Acao ao barrar
                 </label>
                 <select
-                  id="target-platform"
+                  id="moderation-action"
                   className="text-input"
-                  value={targetPlatform}
-                  onChange={(event) => setTargetPlatform(event.target.value as "twitch" | "youtube")}
+                  value={moderationActionInput}
+                  onChange={(event) => setModerationActionInput(event.target.value as ModerationAction)}
                   disabled={busy}
                 >
-                  <option value="twitch">Twitch</option>
-                  <option value="youtube">YouTube</option>
+                  {(Object.keys(MODERATION_ACTION_LABELS) as ModerationAction[]).map((action) => (
+                    <option key={action} value={action}>
+                      {MODERATION_ACTION_LABELS[action]}
+                    </option>
+                  ))}
                 </select>
 
-                <label className="field-label" htmlFor="target-value">
-                  Target
+                <label className="field-label" htmlFor="moderation-judge">
+                  Modelo juiz
+                </label>
+                <select
+                  id="moderation-judge"
+                  className="text-input"
+                  value={moderationJudgeInput}
+                  onChange={(event) => setModerationJudgeInput(event.target.value)}
+                  disabled={busy}
+                >
+                  <option value="">Desligado (so lista de bloqueio)</option>
+                  {models
+                    .filter((model) => !model.archivedAt)
+                    .map((model) => (
+                      <option key={model.modelId} value={model.modelId}>
+                        {model.name}
+                      </option>
+                    ))}
+                </select>
+
+                <div className="targets__form-actions">
+                  <button type="submit" className="btn btn--primary" disabled={busy}>
+                    {pending === "save-moderation" ? "Salvando..." : "Salvar"}
+                  </button>
+                </div>
+              </form>
+
+              <h3>Nova regra</h3>
+              <form className="targets__form" onSubmit={onAddModerationRule}>
+                <label className="field-label" htmlFor="moderation-rule-kind">
+                  Tipo
+                </label>
+                <select
+                  id="moderation-rule-kind"
+                  className="text-input"
+                  value={ruleKind}
+                  onChange={(event) => setRuleKind(event.target.value as ModerationRuleKind)}
+                  disabled={busy}
+                >
+                  <option value="word">Palavra ou expressao</option>
+                  <option value="regex">Regex</option>
+                </select>
+
+                <label className="field-label" htmlFor="moderation-rule-pattern">
+                  {ruleKind === "regex" ? "Regex (sem barras, ignora maiusculas)" : "Palavra (ignora acentos e maiusculas)"}
                 </label>
                 <input
-                  id="target-value"
+                  id="moderation-rule-pattern"
                   className="text-input"
-                  value={targetValue}
-                  onChange={(event) => setTargetValue(event.target.value)}
-                  placeholder={targetPlatform === "twitch" ? "user_login" : "videoId (11 chars)"}
+                  value={rulePattern}
+                  onChange={(event) => setRulePattern(event.target.value)}
                   disabled={busy}
                   required
                 />
 
-                <label className="targets__checkbox">
-                  <input
-                    type="checkbox"
-                    checked={targetEnabled}
-                    onChange={(event) => setTargetEnabled(event.target.checked)}
-                    disabled={busy}
-                  />
-                  Ativo
-                </label>
-
                 <div className="targets__form-actions">
-                  <button
-                    type="submit"
-                    className="btn btn--primary"
-                    disabled={busy || !targetValue.trim()}
-                  >
-                    {pending === "save-target"
-                      ? "Salvando..."
-                      : editingTargetId
-                        ? "Salvar Edicao"
-                        : "Adicionar Target"}
+                  <button type="submit" className="btn btn--primary" disabled={busy || !rulePattern.trim()}>
+                    {pending === "save-rule" ? "Salvando..." : "Adicionar Regra"}
                   </button>
-                  {editingTargetId && (
-                    <button
-                      type="button"
-                      className="btn"
-                      onClick={resetTargetForm}
-                      disabled={busy}
-                    >
-                      Cancelar
-                    </button>
-                  )}
                 </div>
               </form>
             </aside>
 
             <div className="targets__catalog">
-              <h3>Lista de targets</h3>
+              <h3>Regras ({moderation?.rules.length ?? 0})</h3>
               <div className="targets__list">
-                {viewerTargets.length === 0 ? (
-                  <div className="targets__empty">Nenhum target configurado.</div>
+                {!moderation || moderation.rules.length === 0 ? (
+                  <div className="targets__empty">Nenhuma regra cadastrada.</div>
                 ) : (
-                  viewerTargets.map((target) => (
-                    <div className="target-row" key={target._id}>
+                  moderation.rules.map((rule) => (
+                    <div className="target-row" key={rule._id}>
                       <div className="target-row__main">
                         <div className="target-row__name">
-                          <span className="target-row__platform">{target.platform.toUpperCase()}</span>
-                          <span>{target.target}</span>
+                          <span className="target-row__platform">{rule.kind === "regex" ? "regex" : "palavra"}</span>
+                          <span>{rule.pattern}</span>
                         </div>
                         <div className="target-row__meta">
-                          <span>{target.enabled ? "ativo" : "desativado"}</span>
-                          <span>{target.isLive ? `${target.viewerCount} ao vivo` : "offline"}</span>
-                          <span>ultimo poll: {formatLastPolled(target.lastPolledAt)}</span>
-                          {target.lastError && <span className="target-row__error">{target.lastError}</span>}
+                          <span>{rule.enabled ? "ativa" : "desativada"}</span>
                         </div>
                       </div>
                       <div className="target-row__actions">
-                        <button
-                          type="button"
-                          className="btn"
-                          disabled={busy}
-                          onClick={() => onEditViewerTarget(target)}
-                        >
-                          Editar
+                        <button type="button" className="btn" disabled={busy} onClick={() => onToggleModerationRule(rule)}>
+                          {rule.enabled ? "Desativar" : "Ativar"}
                         </button>
                         <button
                           type="button"
                           className="btn btn--danger"
                           disabled={busy}
-                          onClick={() => onDeleteViewerTarget(target._id)}
+                          onClick={() => onDeleteModerationRule(rule._id)}
                         >
                           Remover
                         </button>
@@ -1676,80 +4615,199 @@ function App() {
             </div>
           </div>
 
+          <div className="targets__catalog">
+            <h3>Log de moderacao ({moderation?.events.length ?? 0})</h3>
+            <div className="targets__list">
+              {!moderation || moderation.events.length === 0 ? (
+                <div className="targets__empty">Nenhum texto barrado ainda.</div>
+              ) : (
+                moderation.events.map((entry) => (
+                  <div className="target-row" key={entry._id}>
+                    <div className="target-row__main">
+                      <div className="target-row__name">
+                        <span className="target-row__platform">#{entry.roundNum}</span>
+                        <span>{entry.text}</span>
+                      </div>
+                      <div className="target-row__meta">
+                        <span>
+                          {entry.kind === "prompt" ? "prompt" : `resposta ${(entry.answerIndex ?? 0) + 1}`} de{" "}
+                          {entry.modelName}
+                        </span>
+                        <span>{entry.source === "judge" ? "juiz" : "lista de bloqueio"}</span>
+                        <span>{entry.reasons.join(", ")}</span>
+                        <span>{MODERATION_EVENT_ACTION_LABELS[entry.action]}</span>
+                        {entry.replacement && <span>trocado por: {entry.replacement}</span>}
+                        <span>{formatDateTime(entry.createdAt)}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </section>
+        )}
+
+        {activePage === "integrations" && (
+        <section className="targets targets--standalone">
+          <div className="section-head">
+            <div>
+              <h2>Webhooks</h2>
+              <p className="muted">
+                Eventos da rodada e do motor sao enviados via POST assinado com HMAC-SHA256 no header
+                X-Webhook-Signature. Falhas sao reenviadas ate {webhooks?.maxAttempts ?? 0} tentativas.
+              </p>
+            </div>
+            <button type="button" className="btn" disabled={busy} onClick={onRefreshWebhooks}>
+              {pending === "refresh-webhooks" ? "Atualizando..." : "Atualizar"}
+            </button>
+          </div>
+
           <div className="targets__workspace">
             <aside className="targets__editor">
-              <h3>Telegram votacao</h3>
-              <form className="targets__form" onSubmit={onSaveTelegramConfig}>
-                <label className="field-label" htmlFor="telegram-channel-id">
-                  Channel ID
+              <h3>{editingWebhookId ? "Editar webhook" : "Novo webhook"}</h3>
+              <form className="targets__form" onSubmit={onSaveWebhook}>
+                <label className="field-label" htmlFor="webhook-url">
+                  URL
                 </label>
                 <input
-                  id="telegram-channel-id"
+                  id="webhook-url"
                   className="text-input"
-                  value={telegramChannelIdInput}
-                  onChange={(event) => setTelegramChannelIdInput(event.target.value)}
-                  placeholder="@seu_canal ou -1001234567890"
+                  value={webhookUrl}
+                  onChange={(event) => setWebhookUrl(event.target.value)}
+                  placeholder="https://exemplo.com/webhooks/comedy"
                   disabled={busy}
+                  required
                 />
 
-                <label className="field-label" htmlFor="telegram-bot-token">
-                  Bot token (opcional para manter)
+                <label className="field-label" htmlFor="webhook-description">
+                  Descricao
                 </label>
                 <input
-                  id="telegram-bot-token"
-                  type="password"
+                  id="webhook-description"
                   className="text-input"
-                  value={telegramBotTokenInput}
-                  onChange={(event) => setTelegramBotTokenInput(event.target.value)}
-                  placeholder={telegramConfig?.hasBotToken ? "Token ja configurado" : "123456:ABCDEF..."}
+                  value={webhookDescription}
+                  onChange={(event) => setWebhookDescription(event.target.value)}
                   disabled={busy}
                 />
 
+                <span className="field-label">Eventos</span>
+                {WEBHOOK_EVENT_TYPES.map((eventType) => (
+                  <label key={eventType} className="targets__checkbox">
+                    <input
+                      type="checkbox"
+                      checked={webhookEvents.includes(eventType)}
+                      onChange={(event) => toggleWebhookEvent(eventType, event.target.checked)}
+                      disabled={busy}
+                    />
+                    {eventType}
+                  </label>
+                ))}
+
                 <label className="targets__checkbox">
                   <input
                     type="checkbox"
-                    checked={telegramEnabledInput}
-                    onChange={(event) => setTelegramEnabledInput(event.target.checked)}
+                    checked={webhookEnabled}
+                    onChange={(event) => setWebhookEnabled(event.target.checked)}
                     disabled={busy}
                   />
-                  Ativar integracao Telegram
+                  Ativo
                 </label>
 
                 <div className="targets__form-actions">
                   <button
                     type="submit"
                     className="btn btn--primary"
-                    disabled={busy || (telegramEnabledInput && !telegramChannelIdInput.trim())}
+                    disabled={busy || !webhookUrl.trim() || webhookEvents.length === 0}
                   >
-                    {pending === "save-telegram-config" ? "Salvando..." : "Salvar Telegram"}
+                    {pending === "save-webhook" ? "Salvando..." : editingWebhookId ? "Salvar Edicao" : "Adicionar Webhook"}
                   </button>
+                  {editingWebhookId && (
+                    <button type="button" className="btn" onClick={resetWebhookForm} disabled={busy}>
+                      Cancelar
+                    </button>
+                  )}
                 </div>
               </form>
             </aside>
 
             <div className="targets__catalog">
-              <h3>Status Telegram</h3>
+              <h3>Webhooks ({webhooks?.webhooks.length ?? 0})</h3>
               <div className="targets__list">
-                <div className="target-row target-row--telegram">
-                  <div className="target-row__main">
-                    <div className="target-row__name">
-                      <span className="target-row__platform">TELEGRAM</span>
-                      <span>{telegramConfig?.channelId || "canal nao configurado"}</span>
+                {!webhooks || webhooks.webhooks.length === 0 ? (
+                  <div className="targets__empty">Nenhum webhook cadastrado.</div>
+                ) : (
+                  webhooks.webhooks.map((webhook) => (
+                    <div className="target-row" key={webhook._id}>
+                      <div className="target-row__main">
+                        <div className="target-row__name">
+                          <span className="target-row__platform">{webhook.enabled ? "ativo" : "desativado"}</span>
+                          <span>{webhook.url}</span>
+                        </div>
+                        <div className="target-row__meta">
+                          {webhook.description && <span>{webhook.description}</span>}
+                          <span>{webhook.events.join(", ")}</span>
+                          <span>segredo: {webhook.secret}</span>
+                        </div>
+                      </div>
+                      <div className="target-row__actions">
+                        <button type="button" className="btn" disabled={busy} onClick={() => hydrateWebhookForm(webhook)}>
+                          Editar
+                        </button>
+                        <button type="button" className="btn" disabled={busy} onClick={() => onToggleWebhook(webhook)}>
+                          {webhook.enabled ? "Desativar" : "Ativar"}
+                        </button>
+                        <button type="button" className="btn" disabled={busy} onClick={() => onTestWebhook(webhook._id)}>
+                          {pending === `test-webhook-${webhook._id}` ? "Enviando..." : "Enviar teste"}
+                        </button>
+                        <button type="button" className="btn" disabled={busy} onClick={() => onRotateWebhookSecret(webhook)}>
+                          Gerar novo segredo
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn--danger"
+                          disabled={busy}
+                          onClick={() => onDeleteWebhook(webhook._id)}
+                        >
+                          Remover
+                        </button>
+                      </div>
                     </div>
-                    <div className="target-row__meta">
-                      <span>{telegramConfig?.enabled ? "ativo" : "desativado"}</span>
-                      <span>
-                        token:{" "}
-                        {telegramConfig?.hasBotToken
-                          ? (telegramConfig?.tokenPreview ?? "configurado")
-                          : "nao configurado"}
-                      </span>
-                      <span>ultimo poll: {formatLastPolled(telegramConfig?.lastPolledAt ?? undefined)}</span>
-                      {telegramConfig?.lastError && <span className="target-row__error">{telegramConfig.lastError}</span>}
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="targets__catalog">
+            <h3>Entregas ({webhooks?.deliveries.length ?? 0})</h3>
+            <div className="targets__list">
+              {!webhooks || webhooks.deliveries.length === 0 ? (
+                <div className="targets__empty">Nenhuma entrega registrada.</div>
+              ) : (
+                webhooks.deliveries.map((delivery) => (
+                  <div className="target-row" key={delivery._id}>
+                    <div className="target-row__main">
+                      <div className="target-row__name">
+                        <span className="target-row__platform">{WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}</span>
+                        <span>{delivery.event}</span>
+                      </div>
+                      <div className="target-row__meta">
+                        <span>{delivery.url ?? "webhook removido"}</span>
+                        <span>
+                          tentativas {delivery.attempts}/{webhooks.maxAttempts}
+                        </span>
+                        {delivery.lastStatusCode !== null && <span>HTTP {delivery.lastStatusCode}</span>}
+                        {delivery.lastError && <span>erro: {delivery.lastError}</span>}
+                        {delivery.status === "pending" && delivery.nextAttemptAt !== null && (
+                          <span>proxima tentativa: {formatDateTime(delivery.nextAttemptAt)}</span>
+                        )}
+                        <span>{formatDateTime(delivery.deliveredAt ?? delivery.createdAt)}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </div>
+                ))
+              )}
             </div>
           </div>
         </section>
@@ -2075,6 +5133,114 @@ function App() {
                 </div>
               </div>
             </div>
+
+            <div className="targets__workspace">
+              <aside className="targets__editor">
+                <h3>Limites de gasto</h3>
+                <p className="muted">
+                  Ao atingir um limite por hora, dia ou mes (UTC) o motor pausa; no limite por modelo o modelo e
+                  desativado. Em branco = sem limite.
+                </p>
+                <form className="targets__form" onSubmit={onSaveBudgets}>
+                  {BUDGET_LIMIT_FIELDS.map((field) => (
+                    <React.Fragment key={field.key}>
+                      <label className="field-label" htmlFor={`budget-${field.key}`}>
+                        {field.label}
+                      </label>
+                      <input
+                        id={`budget-${field.key}`}
+                        className="text-input"
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={budgetInputs[field.key]}
+                        onChange={(event) =>
+                          setBudgetInputs((current) => ({ ...current, [field.key]: event.target.value }))
+                        }
+                        disabled={busy}
+                      />
+                    </React.Fragment>
+                  ))}
+                  <div className="targets__form-actions">
+                    <button type="submit" className="btn btn--primary" disabled={busy}>
+                      {pending === "save-budgets" ? "Salvando..." : "Salvar limites"}
+                    </button>
+                  </div>
+                </form>
+              </aside>
+
+              <div className="targets__catalog">
+                <div className="models__hourly-cards">
+                  {BUDGET_LIMIT_FIELDS.map((field) => {
+                    const spent =
+                      field.key === "modelDailyUsd"
+                        ? (budgets?.models[0]?.dailyUsd ?? 0)
+                        : (budgets?.burn[field.key] ?? 0);
+                    const limit = budgets?.limits[field.key] ?? null;
+                    return (
+                      <div className="hour-card" key={field.key}>
+                        <span className="hour-card__label">{field.burnLabel}</span>
+                        <strong className="hour-card__value">{formatUsd(spent)}</strong>
+                        <span className="hour-card__label">
+                          {limit === null
+                            ? "Sem limite"
+                            : `de ${formatUsd(limit)} (${formatPercent((spent / limit) * 100)})`}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <h3>Gasto por modelo hoje ({budgets?.models.length ?? 0})</h3>
+                <div className="targets__list">
+                  {!budgets || budgets.models.length === 0 ? (
+                    <div className="targets__empty">Nenhum gasto registrado hoje.</div>
+                  ) : (
+                    budgets.models.map((row) => (
+                      <div className="target-row" key={row.modelId}>
+                        <div className="target-row__main">
+                          <div className="target-row__name">
+                            <span>{row.modelName}</span>
+                          </div>
+                          <div className="target-row__meta">
+                            <span>{row.modelId}</span>
+                            <span>{formatUsd(row.dailyUsd)}</span>
+                            {budgets.limits.modelDailyUsd !== null && (
+                              <span>
+                                {formatPercent((row.dailyUsd / budgets.limits.modelDailyUsd) * 100)} do limite
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <h3>Alertas de gasto ({budgets?.alerts.length ?? 0})</h3>
+                <div className="targets__list">
+                  {!budgets || budgets.alerts.length === 0 ? (
+                    <div className="targets__empty">Nenhum limite atingido ainda.</div>
+                  ) : (
+                    budgets.alerts.map((alert) => (
+                      <div className="target-row" key={alert._id}>
+                        <div className="target-row__main">
+                          <div className="target-row__name">
+                            <span className="target-row__platform">
+                              {alert.action === "paused" ? "motor pausado" : "modelo desativado"}
+                            </span>
+                            <span>{alert.reason}</span>
+                          </div>
+                          <div className="target-row__meta">
+                            <span>{formatDateTime(alert.createdAt)}</span>
+                          </div>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            </div>
           </section>
         )}
       </main>
@@ -2187,6 +5353,79 @@ function App() {
                 ))}
               </select>
 
+              <label className="field-label" htmlFor="model-provider">
+                Provedor
+              </label>
+              <select
+                id="model-provider"
+                className="text-input"
+                value={modelProviderId}
+                onChange={(event) => setModelProviderId(event.target.value)}
+                disabled={busy}
+              >
+                <option value="">OpenRouter (padrao)</option>
+                {providers.map((provider) => (
+                  <option key={provider.providerId} value={provider.providerId}>
+                    {provider.name}
+                  </option>
+                ))}
+              </select>
+
+              <label className="field-label" htmlFor="model-input-cost">
+                Preco de entrada (US$ / 1M tokens)
+              </label>
+              <input
+                id="model-input-cost"
+                className="text-input"
+                inputMode="decimal"
+                value={modelInputCostInput}
+                onChange={(event) => setModelInputCostInput(event.target.value)}
+                placeholder="vazio = custo do provedor"
+                disabled={busy}
+              />
+
+              <label className="field-label" htmlFor="model-output-cost">
+                Preco de saida (US$ / 1M tokens)
+              </label>
+              <input
+                id="model-output-cost"
+                className="text-input"
+                inputMode="decimal"
+                value={modelOutputCostInput}
+                onChange={(event) => setModelOutputCostInput(event.target.value)}
+                placeholder="vazio = custo do provedor"
+                disabled={busy}
+              />
+
+              <label className="field-label" htmlFor="model-persona">
+                Persona
+              </label>
+              <select
+                className="text-input"
+                value=""
+                onChange={(event) => {
+                  if (event.target.value) setModelPersona(event.target.value);
+                }}
+                disabled={busy}
+              >
+                <option value="">Usar um preset...</option>
+                {PERSONA_PRESETS.map((preset) => (
+                  <option key={preset} value={preset}>
+                    {preset}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                id="model-persona"
+                className="text-input examples-text"
+                rows={2}
+                value={modelPersona}
+                onChange={(event) => setModelPersona(event.target.value)}
+                placeholder="vazio = sem persona"
+                maxLength={MODEL_PERSONA_MAX_LENGTH}
+                disabled={busy}
+              />
+
               <label className="models__checkbox">
                 <input
                   type="checkbox"
@@ -2253,9 +5492,19 @@ function App() {
           <div className="modal">
             <h2>Resetar todos os dados?</h2>
             <p>
-              Isso apaga permanentemente todas as rodadas salvas e zera a
-              pontuacao. O fluxo atual do jogo tambem e pausado.
+              Isso fecha a temporada atual, zera a pontuacao e pausa o fluxo
+              do jogo. Sem manter o historico, as rodadas salvas sao apagadas
+              permanentemente.
             </p>
+            <label className="targets__checkbox">
+              <input
+                type="checkbox"
+                checked={resetKeepHistory}
+                onChange={(e) => setResetKeepHistory(e.target.checked)}
+                disabled={busy}
+              />
+              Manter rodadas da temporada no historico
+            </label>
             <p>
               Digite <code>{RESET_TOKEN}</code> para continuar.
             </p>
@@ -16,12 +16,23 @@ import {
   BROADCAST_CAPTURE_MAX_QUEUED_BYTES,
   BROADCAST_CAPTURE_TIMESLICE_MS,
   BROADCAST_LOCAL_REASONING_TICK_MS,
+  RATING_INITIAL,
   REASONING_ESTIMATOR_MAX_EXTRAPOLATION_MS,
   REASONING_ESTIMATOR_MAX_RATE_PER_MS,
   REASONING_ESTIMATOR_PRUNE_OLDER_THAN_MS,
   REASONING_ESTIMATOR_SYNC_BLEND_MS,
 } from "./config";
-import type { ActiveReasoningProgressItem, TaskMetrics } from "./shared/types";
+import { resolveWinnerIndex } from "./shared/rounds";
+import { getUiStrings, normalizeShowLanguage, type ShowLanguage } from "./shared/i18n";
+import type {
+  ActiveReasoningProgressItem,
+  HeadToHeadRecord,
+  ModelRating,
+  RatingSource,
+  TaskMetrics,
+  TournamentMatch,
+  TournamentState,
+} from "./shared/types";
 
 type Model = { id: string; name: string; color?: string; logoId?: string };
 type TaskInfo = {
@@ -49,14 +60,16 @@ type RoundState = {
   prompter: Model;
   promptTask: TaskInfo;
   prompt?: string;
-  contestants: [Model, Model];
-  answerTasks: [TaskInfo, TaskInfo];
+  contestants: Model[];
+  answerTasks: TaskInfo[];
   votes: VoteInfo[];
-  scoreA?: number;
-  scoreB?: number;
-  viewerVotesA?: number;
-  viewerVotesB?: number;
+  scores?: number[];
+  viewerVoteCounts?: number[];
   viewerVotingEndsAt?: number;
+  tournamentId?: string;
+  tournamentMatchId?: string;
+  tournamentGame?: number;
+  promptSubmitter?: string;
 };
 type GameState = {
   lastCompleted: RoundState | null;
@@ -64,12 +77,16 @@ type GameState = {
   scores: Record<string, number>;
   humanScores: Record<string, number>;
   humanVoteTotals: Record<string, number>;
+  ratings: ModelRating[];
+  tournament: TournamentState | null;
+  rivalry?: HeadToHeadRecord | null;
   models: ModelCatalogEntry[];
   enabledModelIds: string[];
   done: boolean;
   isPaused: boolean;
   generation: number;
   completedRounds: number;
+  showLanguage?: string;
 };
 type StateMessage = {
   type: "state";
@@ -87,6 +104,12 @@ type LiveReasoningPayload = {
   roundId: string | null;
   entries: ActiveReasoningProgressItem[];
 };
+type PredictorEntry = {
+  rank: number;
+  name: string | null;
+  tag: string;
+  points: number;
+};
 
 const DEFAULT_UI_COLOR = "#A1A1A1";
 let modelCatalogByName = new Map<string, ModelCatalogEntry>();
@@ -98,6 +121,7 @@ const ROUND_STATUS_BOX_Y = 150;
 const ROUND_STATUS_BOX_RIGHT_PADDING = 64;
 const ROUND_STATUS_PROMPT_RESERVE = 0;
 const LOCAL_REASONING_TICK_MS = BROADCAST_LOCAL_REASONING_TICK_MS;
+const RANK_BY_RATING = new URLSearchParams(window.location.search).get("rank") === "rating";
 
 const canvas = document.getElementById("broadcast-canvas") as HTMLCanvasElement;
 const statusEl = document.getElementById("broadcast-status") as HTMLDivElement;
@@ -126,13 +150,20 @@ const reasoningEstimator = new ReasoningProgressEstimator({
 let liveUnsubscribe: { unsubscribe: () => void } | null = null;
 let viewerCountUnsubscribe: { unsubscribe: () => void } | null = null;
 let reasoningUnsubscribe: { unsubscribe: () => void } | null = null;
+let predictorsUnsubscribe: { unsubscribe: () => void } | null = null;
+let predictorEntries: PredictorEntry[] = [];
 let reasoningRoundId: string | null = null;
 let lastEstimatorTickAt = 0;
+let ui = getUiStrings(undefined);
 
 function syncModelCatalog(models: ModelCatalogEntry[]) {
   modelCatalogByName = new Map(models.map((model) => [model.name, model]));
 }
 
+function syncShowLanguage(language: ShowLanguage) {
+  ui = getUiStrings(language);
+}
+
 function getColor(name: string, fallbackColor?: string): string {
   const fromCatalog = modelCatalogByName.get(name);
   if (fromCatalog) return normalizeHexColor(fromCatalog.color);
@@ -230,12 +261,30 @@ function rankByScore(
     });
 }
 
+function ratingsAsScoreRecord(
+  ratings: ModelRating[],
+  source: RatingSource,
+  names: string[],
+): Record<string, number> {
+  const record: Record<string, number> = {};
+  for (const name of names) {
+    record[name] = RATING_INITIAL;
+  }
+  for (const entry of ratings) {
+    if (entry.source === source) {
+      record[entry.name] = entry.rating;
+    }
+  }
+  return record;
+}
+
 function setupRealtime() {
   void convex.mutation(convexApi.live.ensureStarted, {});
 
   liveUnsubscribe?.unsubscribe();
   viewerCountUnsubscribe?.unsubscribe();
   reasoningUnsubscribe?.unsubscribe();
+  predictorsUnsubscribe?.unsubscribe();
   reasoningRoundId = null;
   liveUnsubscribe = convex.onUpdate(
     convexApi.live.getGameState,
@@ -302,6 +351,17 @@ function setupRealtime() {
       // Ignore transient disconnects.
     },
   );
+
+  predictorsUnsubscribe = convex.onUpdate(
+    convexApi.predictions.getLeaderboard,
+    {},
+    (payload: { generation: number; entries: PredictorEntry[] }) => {
+      predictorEntries = payload.entries;
+    },
+    () => {
+      // Ignore transient disconnects.
+    },
+  );
 }
 
 function setStatus(value: string) {
@@ -340,7 +400,7 @@ type SkipReasonView = {
 function parseSkipReason(skipReason?: string): SkipReasonView {
   const raw = (skipReason ?? "").trim();
   if (!raw) {
-    return { modelName: null, message: "Falha tecnica" };
+    return { modelName: null, message: ui.technicalFailure };
   }
 
   const separatorIndex = raw.indexOf(":");
@@ -365,7 +425,7 @@ function formatDurationMs(ms: number): string {
 
 function formatInt(value: number): string {
   if (!Number.isFinite(value)) return "0";
-  return Math.max(0, Math.floor(value)).toLocaleString("pt-BR");
+  return Math.max(0, Math.floor(value)).toLocaleString(ui.locale);
 }
 
 function getTaskDurationMs(task: TaskInfo, nowMs: number): number {
@@ -515,10 +575,13 @@ function drawHeader() {
 function drawRankingSection(
   title: string,
   entries: RankingEntry[],
-  maxScore: number,
   startY: number,
   iconForLeader: string,
+  byRating: boolean,
+  hasLeader: boolean,
 ) {
+  const maxScore = entries[0]?.score ?? 0;
+  const minScore = byRating ? (entries[entries.length - 1]?.score ?? 0) : 0;
   ctx.font = '700 15px "JetBrains Mono", monospace';
   ctx.fillStyle = "#888";
   ctx.fillText(title, WIDTH - 348, startY);
@@ -526,11 +589,17 @@ function drawRankingSection(
   entries.slice(0, 7).forEach((entry, index) => {
     const y = startY + 30 + index * 56;
     const color = getColor(entry.name);
-    const pct = maxScore > 0 ? entry.score / maxScore : 0;
+    const pct = byRating
+      ? maxScore > minScore
+        ? 0.1 + ((entry.score - minScore) / (maxScore - minScore)) * 0.9
+        : 0.5
+      : maxScore > 0
+        ? entry.score / maxScore
+        : 0;
 
     ctx.font = '600 18px "JetBrains Mono", monospace';
     ctx.fillStyle = "#888";
-    const rank = index === 0 && entry.score > 0 ? iconForLeader : String(index + 1);
+    const rank = index === 0 && hasLeader ? iconForLeader : String(index + 1);
     ctx.fillText(rank, WIDTH - 348, y + 20);
 
     ctx.font = '600 18px "Inter", sans-serif';
@@ -561,6 +630,7 @@ function drawScoreboard(
   scores: Record<string, number>,
   humanScores: Record<string, number>,
   humanVoteTotals: Record<string, number>,
+  ratings: ModelRating[],
   enabledModelNames: string[],
 ) {
   const allowedModelNames = new Set(enabledModelNames);
@@ -570,18 +640,83 @@ function drawScoreboard(
     humanVoteTotals,
     namesAsScoreRecord(enabledModelNames),
   );
-  const humanEntries = rankByScore(humanScores, humanVoteTotals, names, allowedModelNames);
-  const iaEntries = rankByScore(scores, {}, names, allowedModelNames);
-  const maxHuman = humanEntries[0]?.score || 1;
-  const maxIa = iaEntries[0]?.score || 1;
+  const humanEntries = RANK_BY_RATING
+    ? rankByScore(ratingsAsScoreRecord(ratings, "human", names), humanScores, names, allowedModelNames)
+    : rankByScore(humanScores, humanVoteTotals, names, allowedModelNames);
+  const iaEntries = RANK_BY_RATING
+    ? rankByScore(ratingsAsScoreRecord(ratings, "ai", names), scores, names, allowedModelNames)
+    : rankByScore(scores, {}, names, allowedModelNames);
+  const hasHumanLeader = RANK_BY_RATING
+    ? ratings.some((entry) => entry.source === "human")
+    : (humanEntries[0]?.score ?? 0) > 0;
+  const hasIaLeader = RANK_BY_RATING
+    ? ratings.some((entry) => entry.source === "ai")
+    : (iaEntries[0]?.score ?? 0) > 0;
+  const titleSuffix = RANK_BY_RATING ? ` (${ui.rankingRating.toUpperCase()})` : "";
 
   roundRect(WIDTH - 380, 0, 380, HEIGHT, 0, "#111");
   ctx.fillStyle = "#1c1c1c";
   ctx.fillRect(WIDTH - 380, 0, 1, HEIGHT);
 
-  drawRankingSection("RANKING PLATEIA", humanEntries, maxHuman, 70, "👥");
-  drawRankingSection("RANKING IA", iaEntries, maxIa, 520, "👑");
+  drawRankingSection(`${ui.audienceRanking.toUpperCase()}${titleSuffix}`, humanEntries, 70, "👥", RANK_BY_RATING, hasHumanLeader);
+  drawRankingSection(`${ui.aiRanking.toUpperCase()}${titleSuffix}`, iaEntries, 520, "👑", RANK_BY_RATING, hasIaLeader);
 }
+
+function drawPredictorSection(entries: PredictorEntry[], startY: number) {
+  if (entries.length === 0) return;
+  ctx.font = '700 15px "JetBrains Mono", monospace';
+  ctx.fillStyle = "#888";
+  ctx.fillText(ui.predictorsRanking.toUpperCase(), WIDTH - 348, startY);
+
+  entries.slice(0, 3).forEach((entry, index) => {
+    const y = startY + 14 + index * 30;
+    ctx.font = '600 16px "JetBrains Mono", monospace';
+    ctx.fillStyle = "#888";
+    ctx.fillText(String(entry.rank), WIDTH - 348, y + 20);
+
+    const name = entry.name ?? ui.predictorAnonymous(entry.tag);
+    ctx.font = '600 16px "Inter", sans-serif';
+    ctx.fillStyle = "#ededed";
+    ctx.fillText(name.length > 20 ? `${name.slice(0, 20)}...` : name, WIDTH - 304, y + 20);
+
+    ctx.font = '700 16px "JetBrains Mono", monospace';
+    ctx.fillStyle = "#888";
+    const pointsText = ui.predictorPoints(entry.points);
+    ctx.fillText(pointsText, WIDTH - 48 - ctx.measureText(pointsText).width, y + 20);
+  });
+}
+
+function drawRivalry(rivalry: HeadToHeadRecord) {
+  const rightX = WIDTH - 380 - 64;
+  ctx.font = '700 14px "JetBrains Mono", monospace';
+  ctx.fillStyle = "#888";
+  const summary = `${ui.rivalryTitle.toUpperCase()} - ${ui.rivalrySummary(
+    rivalry.rounds,
+    rivalry.aiWinsA,
+    rivalry.aiWinsB,
+    rivalry.humanWinsA,
+    rivalry.humanWinsB,
+  )}`;
+  ctx.fillText(summary, rightX - ctx.measureText(summary).width, 64);
+
+  ctx.font = '600 22px "Inter", sans-serif';
+  const vsText = " vs ";
+  const nameA = rivalry.modelAName;
+  const nameB = rivalry.modelBName;
+  const widthA = ctx.measureText(nameA).width;
+  const widthVs = ctx.measureText(vsText).width;
+  const widthB = ctx.measureText(nameB).width;
+  let x = rightX - widthA - widthVs - widthB;
+  ctx.fillStyle = getColor(nameA);
+  ctx.fillText(nameA, x, 96);
+  x += widthA;
+  ctx.fillStyle = "#666";
+  ctx.fillText(vsText, x, 96);
+  x += widthVs;
+  ctx.fillStyle = getColor(nameB);
+  ctx.fillText(nameB, x, 96);
+}
+
 function drawVotingCountdownWidget(
   countdown: VotingCountdownView,
   x: number,
@@ -613,20 +748,28 @@ function drawRound(round: RoundState, roundNumber: number) {
 
   const phaseLabel =
     (isSkipped
-      ? `Rodada pulada${skipInfo?.modelName ? ` - ${skipInfo.modelName}` : ""}`
+      ? ui.roundSkipped(skipInfo?.modelName ?? null)
       : round.phase === "prompting"
-      ? "Escrevendo prompt"
+      ? ui.writingPrompt
       : round.phase === "answering"
-        ? "Respondendo"
+        ? ui.answering
         : round.phase === "voting"
           ? ""
-          : "Concluida"
+          : ui.roundDone
     ).toUpperCase();
 
   ctx.font = '700 22px "JetBrains Mono", monospace';
   ctx.fillStyle = "#ededed";
   const totalText = totalRounds !== null ? `/${totalRounds}` : "";
-  ctx.fillText(`Rodada ${roundNumber}${totalText}`, 64, 150);
+  const roundText = `${ui.round(roundNumber)}${totalText}`;
+  ctx.fillText(roundText, 64, 150);
+
+  const tournamentLabel = getTournamentRoundLabel(state?.tournament ?? null, round);
+  if (tournamentLabel) {
+    const roundTextW = ctx.measureText(roundText).width;
+    ctx.fillStyle = "#D97757";
+    ctx.fillText(tournamentLabel.toUpperCase(), 64 + roundTextW + 24, 150);
+  }
 
   if (phaseLabel) {
     ctx.fillStyle = "#888";
@@ -640,13 +783,14 @@ function drawRound(round: RoundState, roundNumber: number) {
 
   ctx.font = '600 18px "JetBrains Mono", monospace';
   ctx.fillStyle = "#888";
-  const promptedText = "PROMPT DE ";
-  const prompterName = round.prompter.name.toUpperCase();
+  const promptedText = `${(round.promptSubmitter ? ui.promptSubmittedBy : ui.promptBy).toUpperCase()} `;
+  const prompterName = round.promptSubmitter ?? round.prompter.name.toUpperCase();
   const promptHeaderBaselineY = 210;
   ctx.fillText(promptedText, 64, 210);
 
   const pTw = ctx.measureText(promptedText).width;
-  ctx.fillStyle = getColor(round.prompter.name, round.prompter.color);
+  const promptAccentColor = round.promptSubmitter ? "#D97757" : getColor(round.prompter.name, round.prompter.color);
+  ctx.fillStyle = promptAccentColor;
   const prompterMetrics = ctx.measureText(prompterName);
   const prompterAscent = prompterMetrics.actualBoundingBoxAscent || 13;
   const prompterDescent = prompterMetrics.actualBoundingBoxDescent || 1;
@@ -656,13 +800,9 @@ function drawRound(round: RoundState, roundNumber: number) {
   const prompterLogoY = Math.round(
     prompterTextTop + (prompterTextHeight - 20) / 2 + PROMPTER_LOGO_OPTICAL_OFFSET_Y,
   );
-  const drewPLogo = drawModelLogo(
-    round.prompter.name,
-    64 + pTw,
-    prompterLogoY,
-    20,
-    round.prompter.logoId,
-  );
+  const drewPLogo =
+    !round.promptSubmitter &&
+    drawModelLogo(round.prompter.name, 64 + pTw, prompterLogoY, 20, round.prompter.logoId);
 
   if (drewPLogo) {
     ctx.fillText(prompterName, 64 + pTw + 24, promptHeaderBaselineY);
@@ -673,12 +813,16 @@ function drawRound(round: RoundState, roundNumber: number) {
   const promptText =
     round.prompt ??
     (round.promptTask.error
-      ? "Falha ao gerar prompt"
+      ? ui.promptFailed
       : round.phase === "prompting"
-        ? "Gerando prompt..."
-        : "Prompt indisponivel");
+        ? ui.generatingPrompt
+        : ui.promptUnavailable);
 
-  if (round.promptTask.finishedAt) {
+  if (round.promptSubmitter) {
+    ctx.font = '600 14px "JetBrains Mono", monospace';
+    ctx.fillStyle = "#666";
+    ctx.fillText(ui.viewerPromptHint, 80, 238);
+  } else if (round.promptTask.finishedAt) {
     ctx.font = '600 14px "JetBrains Mono", monospace';
     ctx.fillStyle = "#666";
     ctx.fillText(promptMetricsText, 80, 238);
@@ -708,7 +852,7 @@ function drawRound(round: RoundState, roundNumber: number) {
     promptTextHeight + (promptBaselineY - promptBarY) - 38,
   );
 
-  ctx.fillStyle = getColor(round.prompter.name, round.prompter.color);
+  ctx.fillStyle = promptAccentColor;
   ctx.fillRect(64, promptBarY, 4, promptBarHeight);
 
   drawTextBlock(
@@ -723,39 +867,31 @@ function drawRound(round: RoundState, roundNumber: number) {
   );
 
   if (round.phase !== "prompting" && round.skipType !== "prompt_error") {
-    const [taskA, taskB] = round.answerTasks;
-    const cardW = (mainW - 160) / 2;
+    const cardCount = Math.max(1, round.answerTasks.length);
+    const cardW = (mainW - 128 - 32 * (cardCount - 1)) / cardCount;
     const cardY = promptBarY + promptTextHeight + 6 + 32;
     const cardH = HEIGHT - cardY - 40;
-    drawContestantCard(
-      taskA,
-      64,
-      cardY,
-      cardW,
-      cardH,
-      round,
-      roundId
-        ? reasoningEstimator.get(reasoningProgressKey(roundId, "answer", 0), nowMs)
-        : null,
-      nowMs,
-    );
-    drawContestantCard(
-      taskB,
-      64 + cardW + 32,
-      cardY,
-      cardW,
-      cardH,
-      round,
-      roundId
-        ? reasoningEstimator.get(reasoningProgressKey(roundId, "answer", 1), nowMs)
-        : null,
-      nowMs,
-    );
+    round.answerTasks.forEach((task, index) => {
+      drawContestantCard(
+        task,
+        index,
+        64 + index * (cardW + 32),
+        cardY,
+        cardW,
+        cardH,
+        round,
+        roundId
+          ? reasoningEstimator.get(reasoningProgressKey(roundId, "answer", index), nowMs)
+          : null,
+        nowMs,
+      );
+    });
   }
 }
 
 function drawContestantCard(
   task: TaskInfo,
+  index: number,
   x: number,
   y: number,
   w: number,
@@ -764,18 +900,13 @@ function drawContestantCard(
   liveReasoningTokens: number | null,
   nowMs: number,
 ) {
-  const [a, b] = round.contestants;
-  let votesA = 0;
-  let votesB = 0;
-  const taskVoters: VoteInfo[] = [];
-  for (const vote of round.votes) {
-    if (vote.votedFor?.name === a.name) votesA += 1;
-    if (vote.votedFor?.name === b.name) votesB += 1;
-    if (vote.votedFor?.name === task.model.name) taskVoters.push(vote);
-  }
-  const isFirst = round.answerTasks[0].model.name === task.model.name;
-  const voteCount = isFirst ? votesA : votesB;
-  const isWinner = !round.skipped && round.phase === "done" && voteCount > (isFirst ? votesB : votesA);
+  const voteCounts = round.contestants.map(
+    (contestant) => round.votes.filter((vote) => vote.votedFor?.name === contestant.name).length,
+  );
+  const taskVoters = round.votes.filter((vote) => vote.votedFor?.name === task.model.name);
+  const voteCount = voteCounts[index] ?? 0;
+  const isWinner = !round.skipped && round.phase === "done" && resolveWinnerIndex(voteCounts) === index;
+  const compact = round.answerTasks.length > 2;
   
   const color = getColor(task.model.name, task.model.color);
   
@@ -786,7 +917,7 @@ function drawContestantCard(
     roundRect(x, y, w, h, 0, "rgba(255,255,255,0.03)");
   }
 
-  ctx.font = '700 32px "Inter", sans-serif';
+  ctx.font = compact ? '700 24px "Inter", sans-serif' : '700 32px "Inter", sans-serif';
   ctx.fillStyle = color;
   const drewCLogo = drawModelLogo(task.model.name, x + 24, y + 16, 32, task.model.logoId);
   if (drewCLogo) {
@@ -798,18 +929,18 @@ function drawContestantCard(
   if (isWinner) {
     ctx.font = '700 18px "JetBrains Mono", monospace';
     ctx.fillStyle = "#0a0a0a";
-    const winW = ctx.measureText("VENCEU").width;
+    const winW = ctx.measureText(ui.won).width;
     roundRect(x + w - 24 - winW - 24, y + 16, winW + 24, 36, 6, "#ededed");
     ctx.fillStyle = "#0a0a0a";
-    ctx.fillText("VENCEU", x + w - 24 - winW - 12, y + 40);
+    ctx.fillText(ui.won, x + w - 24 - winW - 12, y + 40);
   }
 
   const answer =
     !task.finishedAt && !task.result
-      ? "Escrevendo resposta..."
+      ? ui.writingAnswer
       : task.error
         ? task.error
-        : task.result ?? "Sem resposta";
+        : task.result ?? ui.noAnswer;
   const metricsText = buildFinishedTaskMetricsText(task, nowMs, liveReasoningTokens);
 
   drawTextBlock(
@@ -817,10 +948,10 @@ function drawContestantCard(
     x + 24,
     y + 136,
     w - 48,
-    52,
-    '400 40px "DM Serif Display", serif',
+    compact ? 38 : 52,
+    compact ? '400 30px "DM Serif Display", serif' : '400 40px "DM Serif Display", serif',
     isWinner ? "#ededed" : (!task.finishedAt && !task.result ? "#444" : "#888"),
-    6,
+    compact ? 7 : 6,
   );
 
   if (!task.finishedAt) {
@@ -835,11 +966,11 @@ function drawContestantCard(
 
   const showVotes = !round.skipped && (round.phase === "voting" || round.phase === "done");
   if (showVotes) {
-    const totalVotes = votesA + votesB;
+    const totalVotes = voteCounts.reduce((sum, count) => sum + count, 0);
     const pct = totalVotes > 0 ? Math.round((voteCount / totalVotes) * 100) : 0;
 
-    const viewerVoteCount = isFirst ? (round.viewerVotesA ?? 0) : (round.viewerVotesB ?? 0);
-    const totalViewerVotes = (round.viewerVotesA ?? 0) + (round.viewerVotesB ?? 0);
+    const viewerVoteCount = round.viewerVoteCounts?.[index] ?? 0;
+    const totalViewerVotes = (round.viewerVoteCounts ?? []).reduce((sum, count) => sum + count, 0);
     const hasViewerVotes = totalViewerVotes > 0;
 
     // Shift model votes up when viewer votes are present
@@ -857,7 +988,7 @@ function drawContestantCard(
 
     ctx.font = '600 20px "JetBrains Mono", monospace';
     ctx.fillStyle = "#444";
-    const vTxt = `voto${voteCount === 1 ? "" : "s"}`;
+    const vTxt = ui.votes(voteCount);
     const vCountW = ctx.measureText(String(voteCount)).width;
     const vTxtW = ctx.measureText(vTxt).width;
     ctx.fillText(vTxt, x + 24 + vCountW + 8, modelVoteTextY - 1);
@@ -901,7 +1032,7 @@ function drawContestantCard(
       const vvCountW = ctx.measureText(String(viewerVoteCount)).width;
       ctx.font = '600 16px "JetBrains Mono", monospace';
       ctx.fillStyle = "#444";
-      const vvTxt = `voto${viewerVoteCount === 1 ? "" : "s"} da plateia`;
+      const vvTxt = ui.viewerVotes(viewerVoteCount);
       ctx.fillText(vvTxt, x + 24 + vvCountW + 8, y + h - 23);
     }
   }
@@ -911,11 +1042,112 @@ function drawWaiting() {
   const mainW = WIDTH - 380;
   ctx.font = '400 48px "DM Serif Display", serif';
   ctx.fillStyle = "#888";
-  const text = "Carregando...";
+  const text = ui.loading;
   const tw = ctx.measureText(text).width;
   ctx.fillText(text, (mainW - tw) / 2, HEIGHT / 2);
 }
 
+function getTournamentRoundLabel(tournament: TournamentState | null, round: RoundState): string | null {
+  if (!tournament || !round.tournamentMatchId || round.tournamentId !== tournament._id) return null;
+  const match = tournament.matches.find((entry) => entry.id === round.tournamentMatchId);
+  if (!match) return null;
+  return tournament.bestOf > 1 ? ui.tournamentGame(match.label, round.tournamentGame ?? 1) : match.label;
+}
+
+function fitText(text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}...`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+function drawTournamentBracket(tournament: TournamentState, x: number, y: number, w: number, h: number) {
+  const columns: Array<{ key: string; bracket: TournamentMatch["bracket"]; label: string; matches: TournamentMatch[] }> = [];
+  for (const match of tournament.matches) {
+    if (match.status === "bye") continue;
+    const key = `${match.bracket}-${match.round}`;
+    const column = columns.find((entry) => entry.key === key);
+    if (column) column.matches.push(match);
+    else columns.push({ key, bracket: match.bracket, label: match.label, matches: [match] });
+  }
+  const bands = [
+    columns.filter((column) => column.bracket !== "losers"),
+    columns.filter((column) => column.bracket === "losers"),
+  ].filter((band) => band.length > 0);
+
+  const bandGap = 28;
+  const bandH = (h - bandGap * (bands.length - 1)) / bands.length;
+  bands.forEach((band, bandIndex) => {
+    const bandY = y + bandIndex * (bandH + bandGap);
+    const colGap = 16;
+    const colW = (w - colGap * (band.length - 1)) / band.length;
+    band.forEach((column, columnIndex) => {
+      const colX = x + columnIndex * (colW + colGap);
+      ctx.font = '600 13px "JetBrains Mono", monospace';
+      ctx.fillStyle = "#666";
+      ctx.fillText(fitText(column.label.toUpperCase(), colW), colX, bandY + 14);
+
+      const areaY = bandY + 26;
+      const areaH = bandH - 26;
+      const share = areaH / column.matches.length;
+      const slotH = Math.min(30, (share - 6) / 2);
+      column.matches.forEach((match, matchIndex) => {
+        const matchY = areaY + share * matchIndex + (share - slotH * 2) / 2;
+        const isCurrent = tournament.currentMatchId === match.id;
+        roundRect(colX, matchY, colW, slotH * 2, 6, isCurrent ? "#D97757" : "#1c1c1c");
+        roundRect(colX + 1, matchY + 1, colW - 2, slotH * 2 - 2, 5, "#111");
+
+        match.slots.forEach((slot, slotIndex) => {
+          const slotY = matchY + slotIndex * slotH;
+          const baseline = slotY + slotH / 2 + 5;
+          const isWinner = match.status === "done" && match.winnerSlot === slotIndex;
+          ctx.font = `${isWinner ? 700 : 500} ${Math.min(15, Math.max(10, slotH - 12))}px "Inter", sans-serif`;
+          const winsText = match.games > 0 ? String(match.wins[slotIndex] ?? 0) : "";
+          const winsW = winsText ? ctx.measureText(winsText).width + 12 : 0;
+          if (slot.kind === "model") {
+            ctx.fillStyle = isWinner ? getColor(slot.model.name, slot.model.color) : "#888";
+            ctx.fillText(fitText(slot.model.name, colW - 20 - winsW), colX + 10, baseline);
+          } else {
+            ctx.fillStyle = "#444";
+            ctx.fillText(slot.kind === "bye" ? ui.bye : ui.toBeDefined, colX + 10, baseline);
+          }
+          if (winsText) {
+            ctx.fillStyle = isWinner ? "#ededed" : "#666";
+            ctx.fillText(winsText, colX + colW - 10 - ctx.measureText(winsText).width, baseline);
+          }
+        });
+      });
+    });
+  });
+}
+
+function drawTournamentDone(tournament: TournamentState, champion: Model) {
+  const mainW = WIDTH - 380;
+
+  ctx.font = '700 20px "JetBrains Mono", monospace';
+  ctx.fillStyle = "#444";
+  const label = ui.tournamentOver.toUpperCase();
+  ctx.fillText(label, (mainW - ctx.measureText(label).width) / 2, 180);
+
+  ctx.font = '600 20px "JetBrains Mono", monospace';
+  ctx.fillStyle = "#D97757";
+  const crown = ui.tournamentChampion.toUpperCase();
+  ctx.fillText(crown, (mainW - ctx.measureText(crown).width) / 2, 232);
+
+  ctx.font = '400 62px "DM Serif Display", serif';
+  const nameW = ctx.measureText(champion.name).width;
+  const logoSize = 48;
+  const startX = (mainW - nameW - logoSize - 16) / 2;
+  const drewLogo = drawModelLogo(champion.name, startX, 262, logoSize, champion.logoId);
+  ctx.font = '400 62px "DM Serif Display", serif';
+  ctx.fillStyle = getColor(champion.name, champion.color);
+  ctx.fillText(champion.name, drewLogo ? startX + logoSize + 16 : (mainW - nameW) / 2, 306);
+
+  drawTournamentBracket(tournament, 64, 360, mainW - 128, HEIGHT - 360 - 48);
+}
+
 function drawDone(
   scores: Record<string, number>,
   humanScores: Record<string, number>,
@@ -923,6 +1155,12 @@ function drawDone(
   enabledModelNames: string[],
 ) {
   const mainW = WIDTH - 380;
+  const tournament = state?.tournament ?? null;
+  if (tournament?.status === "completed" && tournament.champion) {
+    drawTournamentDone(tournament, tournament.champion);
+    return;
+  }
+
   const allowedModelNames = new Set(enabledModelNames);
   const names = collectRankingNames(
     scores,
@@ -937,14 +1175,14 @@ function drawDone(
 
   ctx.font = '700 20px "JetBrains Mono", monospace';
   ctx.fillStyle = "#444";
-  const go = "FIM DE JOGO";
+  const go = ui.gameOver.toUpperCase();
   const gow = ctx.measureText(go).width;
   ctx.fillText(go, (mainW - gow) / 2, HEIGHT / 2 - 150);
 
   if (iaChampion && iaChampion.score > 0) {
     ctx.font = '600 20px "JetBrains Mono", monospace';
     ctx.fillStyle = "#888";
-    const iaLabel = "CAMPEAO IA";
+    const iaLabel = ui.aiChampion.toUpperCase();
     const iaLabelW = ctx.measureText(iaLabel).width;
     ctx.fillText(iaLabel, (mainW - iaLabelW) / 2, HEIGHT / 2 - 92);
 
@@ -956,7 +1194,7 @@ function drawDone(
 
   ctx.font = '600 20px "JetBrains Mono", monospace';
   ctx.fillStyle = "#888";
-  const humanLabel = "CAMPEAO PLATEIA";
+  const humanLabel = ui.audienceChampion.toUpperCase();
   const humanLabelW = ctx.measureText(humanLabel).width;
   ctx.fillText(humanLabel, (mainW - humanLabelW) / 2, HEIGHT / 2 + 52);
 
@@ -968,7 +1206,7 @@ function drawDone(
   } else {
     ctx.font = '600 28px "Inter", sans-serif';
     ctx.fillStyle = "#666";
-    const none = "Sem campeao da plateia";
+    const none = ui.noAudienceChampion;
     const noneW = ctx.measureText(none).width;
     ctx.fillText(none, (mainW - noneW) / 2, HEIGHT / 2 + 112);
   }
@@ -988,8 +1226,8 @@ function drawNextPromptNotice(
 
   const baseSuffix =
     reasoningTokens === undefined
-      ? "esta escrevendo o proximo prompt"
-      : `esta escrevendo o proximo prompt (~${formatInt(reasoningTokens)} Tokens${thinkingMs !== undefined ? ` | ${formatDurationMs(thinkingMs)}` : ""})`;
+      ? ui.isWritingNextPrompt
+      : `${ui.isWritingNextPrompt} (~${formatInt(reasoningTokens)} Tokens${thinkingMs !== undefined ? ` | ${formatDurationMs(thinkingMs)}` : ""})`;
   const modelLabel = prompter.name;
 
   const logoSize = 16;
@@ -1047,14 +1285,20 @@ function draw() {
   }
   const catalogModels = state.models ?? [];
   syncModelCatalog(catalogModels);
+  syncShowLanguage(normalizeShowLanguage(state.showLanguage));
   const enabledModelNames = getEnabledModelNames(catalogModels);
 
   drawScoreboard(
     state.scores ?? {},
     state.humanScores ?? {},
     state.humanVoteTotals ?? {},
+    state.ratings ?? [],
     enabledModelNames,
   );
+  drawPredictorSection(predictorEntries, 960);
+  if (state.rivalry && !state.done) {
+    drawRivalry(state.rivalry);
+  }
   const nowMs = Date.now();
   if (nowMs - lastEstimatorTickAt >= LOCAL_REASONING_TICK_MS) {
     reasoningEstimator.tick(nowMs);
@@ -2,6 +2,8 @@
 export const VIEWER_ID_STORAGE_KEY = "tokenscomedyclub.viewerId";
 // Storage key usado no navegador para salvar o passcode do admin localmente.
 export const ADMIN_PASSCODE_STORAGE_KEY = "tokenscomedyclub.adminPasscode";
+// Storage key usado no navegador para lembrar o nome de quem envia temas.
+export const VIEWER_PROMPT_NAME_STORAGE_KEY = "tokenscomedyclub.promptName";
 
 // Quantidade de shards para distribuir contadores de espectadores e reduzir contencao no banco.
 export const VIEWER_SHARD_COUNT = 64;
@@ -13,6 +15,70 @@ export const VIEWER_REAPER_INTERVAL_MS = 5_000;
 export const VIEWER_REAPER_BATCH = 500;
 // Limite absoluto de seguranca para o tamanho do batch do reaper.
 export const VIEWER_PRESENCE_REAPER_MAX_LIMIT = 1_000;
+// Maximo de tentativas de voto pela web por espectador dentro da janela de rate limit.
+export const VIEWER_VOTE_RATE_LIMIT_MAX = 10;
+// Janela do rate limit de votos pela web por espectador.
+export const VIEWER_VOTE_RATE_LIMIT_WINDOW_MS = 60_000;
+// Janela usada para detectar rajadas de votos novos na mesma rodada.
+export const VIEWER_VOTE_BURST_WINDOW_MS = 2_000;
+// Votos novos alem dessa quantidade dentro da janela de rajada sao sinalizados.
+export const VIEWER_VOTE_BURST_THRESHOLD = 30;
+// Validade de um desafio de proof-of-work emitido para votar.
+export const VIEWER_VOTE_CHALLENGE_TTL_MS = 120_000;
+// Tempo que um espectador fica liberado para votar depois de resolver o desafio.
+export const VIEWER_VOTE_VERIFIED_TTL_MS = 30 * 60_000;
+// Dificuldade maxima (bits zero no inicio do hash) aceita para o desafio de voto.
+export const VIEWER_VOTE_CHALLENGE_MAX_BITS = 24;
+// Quantidade de votos sinalizados recentes exibidos na aba Audiencia do admin.
+export const VIEWER_VOTE_FLAG_LOG_LIMIT = 100;
+// Validade do codigo de vinculo de conta que o espectador digita no chat.
+export const VIEWER_LINK_CODE_TTL_MS = 10 * 60_000;
+// Quantidade de caracteres do codigo de vinculo de conta.
+export const VIEWER_LINK_CODE_LENGTH = 6;
+// Validade do state do login OAuth (Twitch/YouTube) usado para vincular contas.
+export const VIEWER_OAUTH_STATE_TTL_MS = 10 * 60_000;
+// Pontos por palpite certo sobre qual resposta os juizes IA vao escolher.
+export const PREDICTION_CORRECT_POINTS = 100;
+// Bonus extra por acerto consecutivo a partir do segundo acerto da sequencia.
+export const PREDICTION_STREAK_BONUS_POINTS = 25;
+// Bonus maximo de sequencia somado a um unico palpite certo.
+export const PREDICTION_STREAK_BONUS_MAX = 100;
+// Quantidade de palpites pontuados por mutation ao finalizar uma rodada.
+export const PREDICTION_RESOLVE_BATCH = 200;
+// Quantidade de palpiteiros exibidos no ranking do live e do broadcast.
+export const PREDICTION_LEADERBOARD_SIZE = 10;
+// Tempo maximo de espera pela resposta de um webhook de saida.
+export const WEBHOOK_DELIVERY_TIMEOUT_MS = 10_000;
+// Espera antes de cada nova tentativa de entrega de webhook que falhou.
+export const WEBHOOK_RETRY_DELAYS_MS = [10_000, 60_000, 5 * 60_000, 30 * 60_000] as const;
+// Quantidade de entregas recentes exibidas no log de webhooks do admin.
+export const WEBHOOK_DELIVERY_LOG_LIMIT = 100;
+// Tempo que uma entrega de webhook fica guardada antes de ser apagada.
+export const WEBHOOK_DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60_000;
+// Rodadas por pagina na API publica quando o cliente nao informa limit.
+export const PUBLIC_API_DEFAULT_PAGE_SIZE = 20;
+// Maximo de rodadas por pagina aceito pela API publica.
+export const PUBLIC_API_MAX_PAGE_SIZE = 100;
+// Maximo de rodadas lidas por pagina ao aplicar o filtro de modelo da API publica.
+export const PUBLIC_API_SCAN_LIMIT = 500;
+// Tempo de cache (Cache-Control max-age) das respostas da API publica.
+export const PUBLIC_API_CACHE_SECONDS = 5;
+// Documentos lidos por consulta ao gerar o export de dataset em streaming.
+export const DATASET_EXPORT_PAGE_SIZE = 200;
+// Rodadas gravadas por mutation ao importar um export no admin.
+export const IMPORT_ROUND_BATCH_SIZE = 100;
+// Rodadas por pagina na busca e nos filtros do historico.
+export const HISTORY_SEARCH_PAGE_SIZE = 10;
+// Maximo de rodadas lidas por pagina ao aplicar os filtros do historico.
+export const HISTORY_SEARCH_SCAN_LIMIT = 300;
+// Rodadas mais recentes da temporada lidas para montar o perfil de um modelo.
+export const MODEL_PROFILE_ROUND_SCAN_LIMIT = 500;
+// Chamadas mais recentes por funcao e epoca usadas nas medias de custo e latencia do perfil.
+export const MODEL_PROFILE_USAGE_SAMPLES = 100;
+// Quantidade de melhores e piores respostas exibidas no perfil de um modelo.
+export const MODEL_PROFILE_ANSWER_HIGHLIGHTS = 3;
+// Minimo de rodadas entre dois modelos para o confronto virar a rivalidade do dia.
+export const HEAD_TO_HEAD_RIVALRY_MIN_ROUNDS = 3;
 
 // Delta minimo para o countdown detectar que a janela mudou (ex: de 120s para 30s).
 export const COUNTDOWN_SHORTENED_WINDOW_DETECT_DELTA_MS = 5_000;
@@ -39,6 +105,12 @@ export const MODEL_TIMEOUT_GRACE_MS = 15_000;
 export const MODEL_PHASE_DEADLINE_MS =
   MODEL_ATTEMPTS * MODEL_CALL_TIMEOUT_MS +
   MODEL_RETRY_BACKOFF_MS.reduce((sum, ms) => sum + ms, 0);
+// Latencia total simulada de cada chamada a um modelo mock (env MOCK_MODEL_LATENCY_MS sobrescreve).
+export const MOCK_MODEL_LATENCY_MS = 1_500;
+// Preco simulado de entrada (US$ por 1M tokens) dos modelos mock sem tabela de precos.
+export const MOCK_MODEL_INPUT_COST_PER_MILLION_USD = 0.2;
+// Preco simulado de saida (US$ por 1M tokens) dos modelos mock sem tabela de precos.
+export const MOCK_MODEL_OUTPUT_COST_PER_MILLION_USD = 0.8;
 
 // Minimo de modelos ativos para o engine tentar montar uma rodada.
 export const ENGINE_RUNNER_MIN_ENABLED_MODELS = 3;
@@ -59,6 +131,58 @@ export const ENGINE_RUNNER_VOTE_WINDOW_POLL_MAX_MS = 1_000;
 // Espera curta para dar tempo de votos de modelos finalizarem no fechamento da janela.
 export const ENGINE_RUNNER_VOTE_MODEL_WAIT_MS = 300;
 
+// Rating inicial (escala Glicko-2/Elo) de um modelo sem partidas na geracao/epoch.
+export const RATING_INITIAL = 1500;
+// Desvio de rating (RD) inicial; quanto maior, mais o rating se move nas primeiras rodadas.
+export const RATING_INITIAL_DEVIATION = 350;
+// Menor desvio de rating permitido para o rating nunca congelar por completo.
+export const RATING_MIN_DEVIATION = 30;
+// Volatilidade inicial do Glicko-2.
+export const RATING_INITIAL_VOLATILITY = 0.06;
+// Constante tau do Glicko-2 que limita a variacao da volatilidade entre rodadas.
+export const RATING_SYSTEM_TAU = 0.5;
+
+// Maximo de modelos inscritos em um torneio (chave de 16).
+export const TOURNAMENT_MAX_PARTICIPANTS = 16;
+// Opcoes de melhor de N aceitas por confronto de torneio.
+export const TOURNAMENT_BEST_OF_OPTIONS = [1, 3, 5, 7] as const;
+// Quantidade de rodadas recentes usadas pelo matchmaking para equilibrar papeis e duplas.
+export const MATCHMAKING_HISTORY_ROUNDS = 200;
+// Maximo de candidatos a competidor avaliados em combinacao pelo matchmaking.
+export const MATCHMAKING_MAX_CANDIDATES = 12;
+// Idioma padrao dos exemplos de prompt do banco.
+export const PROMPT_EXAMPLE_DEFAULT_LANGUAGE = "pt-BR";
+// Maximo de exemplos de prompt aceitos em uma importacao.
+export const PROMPT_EXAMPLE_IMPORT_MAX_ROWS = 2_000;
+// Quantidade de rodadas recentes comparadas com cada prompt gerado para detectar repeticao.
+export const PROMPT_SIMILARITY_HISTORY_ROUNDS = 500;
+// Similaridade (Jaccard de trigramas, 0 a 1) a partir da qual um prompt gerado conta como repetido.
+export const PROMPT_SIMILARITY_THRESHOLD = 0.6;
+// Maximo de regeneracoes pedidas ao prompter quando o prompt sai parecido demais.
+export const PROMPT_SIMILARITY_MAX_REGENERATIONS = 2;
+// Quantidade de rodadas recentes usadas para contar o uso de cada versao de template no admin.
+export const PROMPT_TEMPLATE_STATS_ROUNDS = 500;
+// Acao padrao da moderacao quando um prompt ou resposta e barrado (regenerar, substituir ou reter).
+export const MODERATION_DEFAULT_ACTION = "regenerate" as const;
+// Maximo de regeneracoes pedidas ao modelo quando o texto e barrado pela moderacao.
+export const MODERATION_MAX_REGENERATIONS = 2;
+// Texto exibido no lugar de uma resposta barrada que nao foi regenerada.
+export const MODERATION_REPLACEMENT_ANSWER = "[resposta removida pela moderacao]";
+// Quantidade de eventos recentes exibidos no log de moderacao do admin.
+export const MODERATION_LOG_LIMIT = 100;
+// Quantidade de alertas de gasto recentes exibidos na aba Projecoes do admin.
+export const BUDGET_ALERT_LOG_LIMIT = 50;
+// A cada quantas rodadas o motor usa um tema aprovado enviado pelo publico.
+export const VIEWER_PROMPT_EVERY_N_ROUNDS = 5;
+// Tamanho minimo de um tema enviado pelo publico.
+export const VIEWER_PROMPT_MIN_LENGTH = 10;
+// Tamanho maximo de um tema enviado pelo publico.
+export const VIEWER_PROMPT_MAX_LENGTH = 200;
+// Tamanho maximo do nome exibido no credito de quem enviou o tema.
+export const VIEWER_PROMPT_MAX_NAME_LENGTH = 32;
+// Maximo de temas aguardando moderacao por pessoa.
+export const VIEWER_PROMPT_MAX_PENDING_PER_SUBMITTER = 3;
+
 // Tamanho de batch para apagar dados de uma geracao no reset/admin purge.
 export const ROUND_PURGE_BATCH_SIZE = 500;
 // Tamanho de lote por request na API da Twitch.
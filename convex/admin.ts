@@ -21,7 +21,12 @@ import {
   listModelCatalog,
 } from "./models";
 import { toClientRound } from "./rounds";
+import { getCurrentTournament, toClientTournament } from "./tournaments";
+import { DEFAULT_CONTESTANTS_PER_ROUND, normalizeContestantsPerRound } from "../shared/rounds";
+import { DEFAULT_SHOW_LANGUAGE, normalizeShowLanguage } from "../shared/i18n";
 import { readTotalViewerCount, rebuildViewerCountSummary } from "./viewerCount";
+import { emitWebhookEvent } from "./webhooks";
+import { closeSeason } from "./seasons";
 
 function normalizeViewerTarget(platform: "twitch" | "youtube", target: string): string {
   const trimmed = target.trim();
@@ -103,6 +108,10 @@ export const getSnapshot = internalMutation({
       v.null(),
     ),
     enabledModelIds: v.array(v.string()),
+    contestantsPerRound: v.number(),
+    showLanguage: v.string(),
+    runsMode: v.union(v.literal("infinite"), v.literal("finite"), v.literal("tournament")),
+    tournament: v.union(v.any(), v.null()),
   }),
   handler: async (ctx) => {
     const state = await getEngineState(ctx as any);
@@ -132,6 +141,10 @@ export const getSnapshot = internalMutation({
         canRunRounds: status.canRunRounds,
         runBlockedReason: status.runBlockedReason,
         enabledModelIds,
+        contestantsPerRound: DEFAULT_CONTESTANTS_PER_ROUND,
+        showLanguage: DEFAULT_SHOW_LANGUAGE,
+        runsMode: "infinite" as const,
+        tournament: null,
       };
     }
 
@@ -146,6 +159,10 @@ export const getSnapshot = internalMutation({
       canRunRounds: status.canRunRounds,
       runBlockedReason: status.runBlockedReason,
       enabledModelIds,
+      contestantsPerRound: normalizeContestantsPerRound(state.contestantsPerRound),
+      showLanguage: normalizeShowLanguage(state.showLanguage),
+      runsMode: state.runsMode,
+      tournament: toClientTournament(await getCurrentTournament(ctx as any, state)),
     };
   },
 });
@@ -237,9 +254,11 @@ export const deleteViewerTarget = internalMutation({
 });
 
 export const pause = internalMutation({
-  args: {},
+  args: {
+    source: v.optional(v.union(v.literal("admin"), v.literal("budget"))),
+  },
   returns: v.null(),
-  handler: async (ctx) => {
+  handler: async (ctx, args) => {
     const state = await getOrCreateEngineState(ctx as any);
     const leaseState = await getOrCreateRunnerLeaseState(ctx as any);
     const now = Date.now();
@@ -247,6 +266,12 @@ export const pause = internalMutation({
       isPaused: true,
       updatedAt: now,
     });
+    if (!state.isPaused) {
+      await emitWebhookEvent(ctx, "engine.paused", {
+        generation: state.generation,
+        source: args.source ?? "admin",
+      });
+    }
 
     await ctx.db.patch(leaseState._id, {
       leaseId: undefined,
@@ -298,11 +323,17 @@ export const resume = internalMutation({
   handler: async (ctx) => {
     const state = await getOrCreateEngineState(ctx as any);
     const leaseState = await getOrCreateRunnerLeaseState(ctx as any);
+    const tournament = await getCurrentTournament(ctx as any, state);
+    const tournamentFinished = state.runsMode === "tournament" && tournament?.status !== "active";
     await ctx.db.patch(state._id, {
       isPaused: false,
       done: false,
+      ...(tournamentFinished ? { runsMode: "infinite" as const, activeTournamentId: undefined } : {}),
       updatedAt: Date.now(),
     });
+    if (state.isPaused) {
+      await emitWebhookEvent(ctx, "engine.resumed", { generation: state.generation });
+    }
 
     const now = Date.now();
     const validLease = Boolean(leaseState.leaseId && leaseState.leaseUntil && leaseState.leaseUntil > now);
@@ -323,13 +354,16 @@ export const resume = internalMutation({
 });
 
 export const reset = internalMutation({
-  args: {},
+  args: { keepHistory: v.optional(v.boolean()) },
   returns: v.object({ generation: v.number() }),
-  handler: async (ctx) => {
+  handler: async (ctx, args) => {
     const state = await getOrCreateEngineState(ctx as any);
     const models = await listModelCatalog(ctx as any);
     const oldGeneration = state.generation;
     const nextGeneration = oldGeneration + 1;
+    const keepHistory = args.keepHistory ?? false;
+
+    await closeSeason(ctx, state, models, { roundsKept: keepHistory });
 
     await ctx.db.patch(state._id, {
       generation: nextGeneration,
@@ -338,6 +372,8 @@ export const reset = internalMutation({
       nextRoundNum: 1,
       activeRoundId: undefined,
       lastCompletedRoundId: undefined,
+      activeTournamentId: undefined,
+      runsMode: state.runsMode === "tournament" ? "infinite" : state.runsMode,
       completedRounds: 0,
       scores: { ...DEFAULT_SCORES },
       humanScores: { ...DEFAULT_SCORES },
@@ -393,32 +429,60 @@ export const reset = internalMutation({
     }
     await rebuildViewerCountSummary(ctx as any);
 
-    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationRoundBatch, {
+    if (!keepHistory) {
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationRoundBatch, {
+        generation: oldGeneration,
+        cursor: undefined,
+        numItems: ROUND_PURGE_BATCH_SIZE,
+      });
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationTournamentBatch, {
+        generation: oldGeneration,
+        cursor: undefined,
+        numItems: ROUND_PURGE_BATCH_SIZE,
+      });
+      // Kept with the rounds: their permalinks read per-platform votes and usage from these.
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationViewerVoteBatch, {
+        generation: oldGeneration,
+        cursor: undefined,
+        numItems: ROUND_PURGE_BATCH_SIZE,
+      });
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationTelegramRoundPollBatch, {
+        generation: oldGeneration,
+        cursor: undefined,
+        numItems: ROUND_PURGE_BATCH_SIZE,
+      });
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationUsageEventBatch, {
+        generation: oldGeneration,
+        cursor: undefined,
+        numItems: ROUND_PURGE_BATCH_SIZE,
+      });
+    }
+    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationTalliesBatch, {
       generation: oldGeneration,
       cursor: undefined,
       numItems: ROUND_PURGE_BATCH_SIZE,
     });
-    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationViewerVoteBatch, {
+    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationReasoningProgressBatch, {
       generation: oldGeneration,
       cursor: undefined,
       numItems: ROUND_PURGE_BATCH_SIZE,
     });
-    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationTalliesBatch, {
+    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationModelRatingBatch, {
       generation: oldGeneration,
       cursor: undefined,
       numItems: ROUND_PURGE_BATCH_SIZE,
     });
-    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationTelegramRoundPollBatch, {
+    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationHeadToHeadBatch, {
       generation: oldGeneration,
       cursor: undefined,
       numItems: ROUND_PURGE_BATCH_SIZE,
     });
-    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationUsageEventBatch, {
+    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationPredictionBatch, {
       generation: oldGeneration,
       cursor: undefined,
       numItems: ROUND_PURGE_BATCH_SIZE,
     });
-    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationReasoningProgressBatch, {
+    await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationPredictionScoreBatch, {
       generation: oldGeneration,
       cursor: undefined,
       numItems: ROUND_PURGE_BATCH_SIZE,
@@ -478,6 +542,25 @@ export const updateProjectionTimingSettings = internalMutation({
   },
 });
 
+export const updateRoundSettings = internalMutation({
+  args: {
+    contestantsPerRound: v.optional(v.number()),
+    showLanguage: v.optional(v.union(v.literal("pt-BR"), v.literal("en"), v.literal("es"))),
+  },
+  returns: v.object({ contestantsPerRound: v.number(), showLanguage: v.string() }),
+  handler: async (ctx, args) => {
+    const state = await getOrCreateEngineState(ctx as any);
+    const contestantsPerRound = normalizeContestantsPerRound(args.contestantsPerRound ?? state.contestantsPerRound);
+    const showLanguage = normalizeShowLanguage(args.showLanguage ?? state.showLanguage);
+    await ctx.db.patch(state._id, {
+      contestantsPerRound,
+      showLanguage,
+      updatedAt: Date.now(),
+    });
+    return { contestantsPerRound, showLanguage };
+  },
+});
+
 export const getTelegramConfig = internalQuery({
   args: {},
   returns: telegramConfigValidator,
@@ -556,6 +639,12 @@ export const getExportData = internalQuery({
         models: await ctx.db.query("models").collect(),
         viewerTargets: await ctx.db.query("viewerTargets").collect(),
         telegramRoundPolls: [],
+        modelRatings: [],
+        tournaments: [],
+        viewerPrompts: await ctx.db.query("viewerPrompts").collect(),
+        moderationRules: await ctx.db.query("moderationRules").collect(),
+        llmProviders: await ctx.db.query("llmProviders").collect(),
+        promptTemplates: await ctx.db.query("promptTemplates").collect(),
         rounds: [],
       };
     }
@@ -567,14 +656,30 @@ export const getExportData = internalQuery({
 
     return {
       exportedAt: new Date().toISOString(),
-      state,
+      state: { ...state, telegramBotToken: undefined },
       models: await ctx.db.query("models").collect(),
       viewerTargets: await ctx.db.query("viewerTargets").collect(),
       telegramRoundPolls: await ctx.db
         .query("telegramRoundPolls")
         .withIndex("by_generation", (q: any) => q.eq("generation", state.generation))
         .collect(),
-      rounds: rounds.map((round: any) => toClientRound(round)).filter(Boolean),
+      modelRatings: await ctx.db
+        .query("modelRatings")
+        .withIndex("by_generation", (q: any) => q.eq("generation", state.generation))
+        .collect(),
+      tournaments: await ctx.db
+        .query("tournaments")
+        .withIndex("by_generation", (q: any) => q.eq("generation", state.generation))
+        .collect(),
+      viewerPrompts: await ctx.db.query("viewerPrompts").collect(),
+      moderationRules: await ctx.db.query("moderationRules").collect(),
+      llmProviders: await ctx.db.query("llmProviders").collect(),
+      promptTemplates: await ctx.db.query("promptTemplates").collect(),
+      rounds: rounds.map((round: any) => ({
+        ...toClientRound(round),
+        createdAt: round.createdAt,
+        completedAt: round.completedAt,
+      })),
     };
   },
 });
@@ -753,3 +858,147 @@ export const purgeGenerationReasoningProgressBatch = internalMutation({
   },
 });
 
+export const purgeGenerationModelRatingBatch = internalMutation({
+  args: {
+    generation: v.number(),
+    cursor: v.optional(v.string()),
+    numItems: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("modelRatings")
+      .withIndex("by_generation", (q: any) => q.eq("generation", args.generation))
+      .paginate({ cursor: args.cursor ?? null, numItems: args.numItems });
+
+    for (const row of result.page) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationModelRatingBatch, {
+        generation: args.generation,
+        cursor: result.continueCursor,
+        numItems: args.numItems,
+      });
+    }
+
+    return null;
+  },
+});
+
+export const purgeGenerationHeadToHeadBatch = internalMutation({
+  args: {
+    generation: v.number(),
+    cursor: v.optional(v.string()),
+    numItems: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("headToHead")
+      .withIndex("by_generation", (q: any) => q.eq("generation", args.generation))
+      .paginate({ cursor: args.cursor ?? null, numItems: args.numItems });
+
+    for (const row of result.page) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationHeadToHeadBatch, {
+        generation: args.generation,
+        cursor: result.continueCursor,
+        numItems: args.numItems,
+      });
+    }
+
+    return null;
+  },
+});
+
+export const purgeGenerationTournamentBatch = internalMutation({
+  args: {
+    generation: v.number(),
+    cursor: v.optional(v.string()),
+    numItems: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("tournaments")
+      .withIndex("by_generation", (q: any) => q.eq("generation", args.generation))
+      .paginate({ cursor: args.cursor ?? null, numItems: args.numItems });
+
+    for (const row of result.page) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationTournamentBatch, {
+        generation: args.generation,
+        cursor: result.continueCursor,
+        numItems: args.numItems,
+      });
+    }
+
+    return null;
+  },
+});
+
+export const purgeGenerationPredictionBatch = internalMutation({
+  args: {
+    generation: v.number(),
+    cursor: v.optional(v.string()),
+    numItems: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("viewerPredictions")
+      .withIndex("by_generation", (q: any) => q.eq("generation", args.generation))
+      .paginate({ cursor: args.cursor ?? null, numItems: args.numItems });
+
+    for (const row of result.page) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationPredictionBatch, {
+        generation: args.generation,
+        cursor: result.continueCursor,
+        numItems: args.numItems,
+      });
+    }
+
+    return null;
+  },
+});
+
+export const purgeGenerationPredictionScoreBatch = internalMutation({
+  args: {
+    generation: v.number(),
+    cursor: v.optional(v.string()),
+    numItems: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("viewerPredictionScores")
+      .withIndex("by_generation_and_viewer", (q: any) => q.eq("generation", args.generation))
+      .paginate({ cursor: args.cursor ?? null, numItems: args.numItems });
+
+    for (const row of result.page) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.admin.purgeGenerationPredictionScoreBatch, {
+        generation: args.generation,
+        cursor: result.continueCursor,
+        numItems: args.numItems,
+      });
+    }
+
+    return null;
+  },
+});
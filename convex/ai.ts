@@ -1,9 +1,21 @@
 "use node";
 
-import { generateText, streamText } from "ai";
+import { generateText, streamText, type LanguageModelUsage } from "ai";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
 import { ALL_PROMPTS } from "../prompts";
-import { parseModelReasoningEffort, type Model } from "../shared/models";
+import {
+  isMockModelId,
+  parseModelReasoningEffort,
+  type LlmProviderKind,
+  type Model,
+} from "../shared/models";
+import { CONTESTANT_SIDES } from "../shared/rounds";
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  applyPersona,
+  renderPromptTemplate,
+  type PromptTemplateBody,
+} from "../shared/promptTemplates";
 import {
   AI_GENERATION_RETRY_DELAYS_MS,
   AI_MIN_ANSWER_LENGTH,
@@ -17,11 +29,15 @@ import {
   AI_REASONING_CALIBRATION_WARMUP_SAMPLE_COUNT,
   AI_REASONING_PROGRESS_FLUSH_INTERVAL_MS,
   AI_REASONING_PROGRESS_FLUSH_MIN_DELTA,
+  MOCK_MODEL_INPUT_COST_PER_MILLION_USD,
+  MOCK_MODEL_OUTPUT_COST_PER_MILLION_USD,
   MODEL_ATTEMPTS,
   MODEL_CALL_TIMEOUT_MS,
   OPENROUTER_BASE_URL,
+  PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
   shuffle,
 } from "./constants";
+import { createMockLanguageModel, type MockCallType } from "./mockModel";
 
 export type DurationSource =
   | "openrouter_latency"
@@ -51,7 +67,14 @@ export type TextCallResult = {
 };
 
 export type VoteCallResult = {
-  vote: "A" | "B";
+  voteIndex: number;
+  generationId?: string;
+  metrics?: LlmCallMetrics;
+};
+
+export type ModerationCallResult = {
+  flagged: boolean;
+  reason?: string;
   generationId?: string;
   metrics?: LlmCallMetrics;
 };
@@ -66,6 +89,24 @@ type OpenRouterGenerationInfo = {
   durationSource: DurationSource;
 };
 
+export type LlmRoute = {
+  modelId: string;
+  provider: {
+    providerId: string;
+    kind: LlmProviderKind;
+    baseUrl: string;
+    apiKeyEnv?: string;
+  } | null;
+  inputCostPerMillionUsd?: number;
+  outputCostPerMillionUsd?: number;
+};
+
+export type PromptTemplateContext = {
+  template: PromptTemplateBody;
+  persona?: string;
+  language?: string;
+};
+
 type ReasoningCallType = "prompt" | "answer";
 type ReasoningCalibrationState = {
   factor: number;
@@ -75,18 +116,54 @@ type ReasoningCalibrationState = {
 const openrouter = createOpenRouter({
   apiKey: process.env.OPENROUTER_API_KEY,
 });
+const providerClients = new Map<string, ReturnType<typeof createOpenRouter>>();
+const routesByModelId = new Map<string, LlmRoute>();
 const reasoningCalibrationByKey = new Map<string, ReasoningCalibrationState>();
 
-function getModelChat(model: Model) {
+export function configureLlmRoutes(routes: readonly LlmRoute[]) {
+  routesByModelId.clear();
+  for (const route of routes) {
+    routesByModelId.set(route.modelId, route);
+  }
+}
+
+function getModelRoute(model: Model): LlmRoute | undefined {
+  return routesByModelId.get(model.id);
+}
+
+function getProviderApiKey(provider: NonNullable<LlmRoute["provider"]>): string | undefined {
+  return provider.apiKeyEnv ? process.env[provider.apiKeyEnv] : undefined;
+}
+
+function getProviderClient(provider: NonNullable<LlmRoute["provider"]>) {
+  const apiKey = getProviderApiKey(provider);
+  const cacheKey = `${provider.providerId}::${provider.kind}::${provider.baseUrl}::${apiKey ?? ""}`;
+  const cached = providerClients.get(cacheKey);
+  if (cached) return cached;
+  const client = createOpenRouter({
+    baseURL: provider.baseUrl,
+    apiKey: apiKey ?? "",
+    compatibility: provider.kind === "openrouter" ? "strict" : "compatible",
+  });
+  providerClients.set(cacheKey, client);
+  return client;
+}
+
+function getModelChat(model: Model, callType: MockCallType) {
+  if (isMockModelId(model.id)) {
+    return createMockLanguageModel(model, callType);
+  }
   const effort = parseModelReasoningEffort(model.reasoningEffort);
+  const provider = getModelRoute(model)?.provider;
+  const client = provider ? getProviderClient(provider) : openrouter;
   if (!effort) {
-    return openrouter.chat(model.id, {
+    return client.chat(model.id, {
       usage: {
         include: true,
       },
     });
   }
-  return openrouter.chat(model.id, {
+  return client.chat(model.id, {
     usage: {
       include: true,
     },
@@ -299,19 +376,24 @@ async function sleep(ms: number): Promise<void> {
   await new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function getGenerationLookupKeys(): string[] {
-  const keys = [
-    process.env.OPENROUTER_ADMIN_API_KEY,
-    process.env.OPENROUTER_API_KEY,
-  ].filter((value): value is string => typeof value === "string" && value.length > 0);
+function getGenerationLookupKeys(route?: LlmRoute): string[] {
+  const keys = (
+    route?.provider
+      ? [getProviderApiKey(route.provider)]
+      : [process.env.OPENROUTER_ADMIN_API_KEY, process.env.OPENROUTER_API_KEY]
+  ).filter((value): value is string => typeof value === "string" && value.length > 0);
   return [...new Set(keys)];
 }
 
-async function fetchOpenRouterGeneration(generationId: string): Promise<OpenRouterGenerationInfo | null> {
-  const apiKeys = getGenerationLookupKeys();
+async function fetchOpenRouterGeneration(
+  generationId: string,
+  route?: LlmRoute,
+): Promise<OpenRouterGenerationInfo | null> {
+  const apiKeys = getGenerationLookupKeys(route);
   if (apiKeys.length === 0) return null;
 
-  const url = `${OPENROUTER_BASE_URL}/generation?id=${encodeURIComponent(generationId)}`;
+  const baseUrl = route?.provider?.baseUrl ?? OPENROUTER_BASE_URL;
+  const url = `${baseUrl}/generation?id=${encodeURIComponent(generationId)}`;
 
   for (let attempt = 0; attempt < AI_GENERATION_RETRY_DELAYS_MS.length; attempt++) {
     let shouldRetry = false;
@@ -361,6 +443,66 @@ async function fetchOpenRouterGeneration(generationId: string): Promise<OpenRout
   return null;
 }
 
+function hasCostEndpoint(model: Model, route?: LlmRoute): boolean {
+  if (isMockModelId(model.id)) return false;
+  return !route?.provider || route.provider.kind === "openrouter";
+}
+
+function hasPriceTable(route?: LlmRoute): boolean {
+  return route?.inputCostPerMillionUsd !== undefined || route?.outputCostPerMillionUsd !== undefined;
+}
+
+function getPricePerMillion(model: Model, route?: LlmRoute): { input: number; output: number } {
+  const mock = isMockModelId(model.id);
+  return {
+    input: route?.inputCostPerMillionUsd ?? (mock ? MOCK_MODEL_INPUT_COST_PER_MILLION_USD : 0),
+    output: route?.outputCostPerMillionUsd ?? (mock ? MOCK_MODEL_OUTPUT_COST_PER_MILLION_USD : 0),
+  };
+}
+
+function estimateInfoFromUsage(
+  model: Model,
+  route: LlmRoute | undefined,
+  usage: LanguageModelUsage | undefined,
+): OpenRouterGenerationInfo | null {
+  if (!usage) return null;
+  const promptTokens = asNonNegativeInt(usage.inputTokens);
+  const completionTokens = asNonNegativeInt(usage.outputTokens);
+  const price = getPricePerMillion(model, route);
+  const totalCost = (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+
+  return {
+    totalCost,
+    promptTokens,
+    completionTokens,
+    totalTokens: Math.max(asNonNegativeInt(usage.totalTokens), promptTokens + completionTokens),
+    reasoningTokens: asNonNegativeInt(usage.outputTokenDetails?.reasoningTokens ?? usage.reasoningTokens),
+    durationMsFinal: 0,
+    durationSource: "local",
+  };
+}
+
+// OpenRouter-style providers report cost through /generation; everything else is
+// priced locally from the SDK usage and the model price table.
+async function resolveGenerationInfo(
+  model: Model,
+  generationId: string,
+  usage: PromiseLike<LanguageModelUsage | undefined> | LanguageModelUsage | undefined,
+  lookup?: Promise<OpenRouterGenerationInfo | null>,
+): Promise<OpenRouterGenerationInfo | null> {
+  const route = getModelRoute(model);
+  if (hasCostEndpoint(model, route)) {
+    const info = await (lookup ?? fetchOpenRouterGeneration(generationId, route));
+    if (info || !hasPriceTable(route)) return info;
+  }
+  return estimateInfoFromUsage(model, route, await Promise.resolve(usage).catch(() => undefined));
+}
+
+function createLocalGenerationId(route: LlmRoute | undefined, startedAt: number): string {
+  const prefix = route?.provider?.providerId ?? "local";
+  return `${prefix}-${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
 function withDurationFallback(
   info: OpenRouterGenerationInfo | null,
   durationMsLocal: number,
@@ -408,11 +550,16 @@ function toMetrics(
   };
 }
 
-function buildPromptSystem(): string {
-  const examples = shuffle([...ALL_PROMPTS]).slice(0, AI_PROMPT_EXAMPLE_COUNT);
-  return `Voce e roteirista de comedia para o jogo Quiplash. Gere um unico prompt engracado de preencher lacuna que os jogadores vao tentar responder. O prompt deve ser surpreendente e pensado para render respostas hilarias. Retorne APENAS o texto do prompt, nada alem disso. Mantenha curto (menos de 15 palavras).\n\nUse uma grande VARIEDADE de formatos de prompt. NAO use sempre "A pior coisa para..." - varie bastante! Aqui vao exemplos da faixa de estilos:\n\n${examples
-    .map((p) => `- ${p}`)
-    .join("\n")}\n\nCrie algo ORIGINAL - nao copie estes exemplos.`;
+function renderSystem(context: PromptTemplateContext, variables: Record<string, string>): string {
+  return renderPromptTemplate(applyPersona(context.template.system, context.persona), variables);
+}
+
+function buildPromptSystem(examplePool: readonly string[], context: PromptTemplateContext): string {
+  const examples = shuffle([...(examplePool.length > 0 ? examplePool : ALL_PROMPTS)]).slice(0, AI_PROMPT_EXAMPLE_COUNT);
+  return renderSystem(context, {
+    examples: examples.map((p) => `- ${p}`).join("\n"),
+    language: context.language ?? PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+  });
 }
 
 type ReasoningProgressReporter = (
@@ -461,7 +608,7 @@ async function generateTextWithReasoningStream(
   };
 
   const result = streamText({
-    model: getModelChat(model),
+    model: getModelChat(model, callType),
     system,
     prompt,
     timeout: MODEL_CALL_TIMEOUT_MS,
@@ -477,11 +624,12 @@ async function generateTextWithReasoningStream(
     },
   });
 
+  const route = getModelRoute(model);
   const responsePromise = Promise.resolve(result.response);
   const providerMetadataPromise = Promise.resolve(result.providerMetadata).catch(() => undefined);
   const generationInfoPromise = responsePromise
     .then((response) =>
-      response.id ? fetchOpenRouterGeneration(response.id) : null,
+      response.id && hasCostEndpoint(model, route) ? fetchOpenRouterGeneration(response.id, route) : null,
     )
     .catch(() => null);
   const [textRaw, response, providerMetadata] = await Promise.all([
@@ -491,7 +639,9 @@ async function generateTextWithReasoningStream(
   ]);
   const finishedAt = Date.now();
   const text = cleanResponse(textRaw);
-  const generationId = response.id;
+  const generationId = hasCostEndpoint(model, route)
+    ? response.id
+    : response.id || createLocalGenerationId(route, startedAt);
 
   const providerReasoningTokens = getProviderUsageReasoningTokens(providerMetadata);
   if (providerReasoningTokens > 0) {
@@ -507,7 +657,7 @@ async function generateTextWithReasoningStream(
     };
   }
 
-  const info = await generationInfoPromise;
+  const info = await resolveGenerationInfo(model, generationId, result.usage, generationInfoPromise);
   const metrics = toMetrics(generationId, info, startedAt, finishedAt);
   if (metrics) {
     estimatedReasoningTokens = Math.max(
@@ -536,15 +686,33 @@ async function generateTextWithReasoningStream(
   };
 }
 
+export type RejectedPrompt = {
+  prompt: string;
+  reason: string;
+};
+
+function buildPromptRequest(rejectedPrompts: readonly RejectedPrompt[], context: PromptTemplateContext): string {
+  const request = renderPromptTemplate(context.template.user, {
+    language: context.language ?? PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+  });
+  if (rejectedPrompts.length === 0) return request;
+  return `${request}\n\nEstes prompts que voce gerou foram descartados:\n${rejectedPrompts
+    .map((entry) => `- "${entry.prompt}" (${entry.reason})`)
+    .join("\n")}\n\nMude o assunto e a estrutura da frase e mantenha o conteudo dentro das regras das plataformas de stream.`;
+}
+
 export async function callGeneratePrompt(
   model: Model,
+  examplePool: readonly string[],
   onReasoningProgress?: ReasoningProgressReporter,
+  rejectedPrompts: readonly RejectedPrompt[] = [],
+  context: PromptTemplateContext = { template: DEFAULT_PROMPT_TEMPLATES.prompt },
 ): Promise<TextCallResult> {
   const result = await generateTextWithReasoningStream(
     model,
     "prompt",
-    buildPromptSystem(),
-    "Gere um unico prompt original de Quiplash. Seja criativo e nao repita padroes comuns.",
+    buildPromptSystem(examplePool, context),
+    buildPromptRequest(rejectedPrompts, context),
     onReasoningProgress,
   );
 
@@ -559,12 +727,24 @@ export async function callGenerateAnswer(
   model: Model,
   prompt: string,
   onReasoningProgress?: ReasoningProgressReporter,
+  rejectedAnswers: readonly string[] = [],
+  context: PromptTemplateContext = { template: DEFAULT_PROMPT_TEMPLATES.answer },
 ): Promise<TextCallResult> {
+  const rejectedNote =
+    rejectedAnswers.length > 0
+      ? `\n\nEstas respostas foram barradas pela moderacao. Nao repita e mantenha dentro das regras das plataformas de stream:\n${rejectedAnswers
+          .map((answer) => `- "${answer}"`)
+          .join("\n")}`
+      : "";
+  const variables = {
+    prompt,
+    language: context.language ?? PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+  };
   const result = await generateTextWithReasoningStream(
     model,
     "answer",
-    "You are playing Quiplash! You'll be given a fill-in-the-blank prompt. Give the FUNNIEST possible answer. Be creative, edgy, unexpected, and concise. Reply with ONLY your answer - no quotes, no explanation, no preamble. Keep it short (under 12 words).",
-    `Fill in the blank: ${prompt}`,
+    renderSystem(context, variables),
+    `${renderPromptTemplate(context.template.user, variables)}${rejectedNote}`,
     onReasoningProgress,
   );
 
@@ -575,38 +755,106 @@ export async function callGenerateAnswer(
   return result;
 }
 
+function formatChoiceList(labels: readonly string[]): string {
+  if (labels.length <= 2) return labels.join(" ou ");
+  return `${labels.slice(0, -1).join(", ")} ou ${labels[labels.length - 1]}`;
+}
+
 export async function callVote(
   voter: Model,
   prompt: string,
-  a: { answer: string },
-  b: { answer: string },
+  answers: Array<{ answer: string }>,
+  context: PromptTemplateContext = { template: DEFAULT_PROMPT_TEMPLATES.vote },
 ): Promise<VoteCallResult> {
+  const labels = CONTESTANT_SIDES.slice(0, answers.length);
+  if (answers.length < 2 || labels.length !== answers.length) {
+    throw new Error(`Invalid answer count for vote: ${answers.length}`);
+  }
+  const variables: Record<string, string> = {
+    prompt,
+    answers: answers.map((entry, index) => `Resposta ${labels[index]}: "${entry.answer}"`).join("\n"),
+    answerCount: String(answers.length),
+    choices: formatChoiceList(labels.map((label) => `"${label}"`)),
+    language: context.language ?? PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+  };
+  CONTESTANT_SIDES.forEach((label, index) => {
+    variables[`answer${label}`] = answers[index]?.answer ?? "";
+  });
+
   const startedAt = Date.now();
   const result = await generateText({
-    model: getModelChat(voter),
-    system:
-      "You are a judge in a comedy game. You'll see a fill-in-the-blank prompt and two answers. Pick which answer is FUNNIER. You MUST respond with exactly \"A\" or \"B\".",
-    prompt: `Prompt: "${prompt}"\n\nAnswer A: "${a.answer}"\nAnswer B: "${b.answer}"\n\nWhich is funnier? Reply with just A or B.`,
+    model: getModelChat(voter, "vote"),
+    system: renderSystem(context, variables),
+    prompt: renderPromptTemplate(context.template.user, variables),
     timeout: MODEL_CALL_TIMEOUT_MS,
     maxRetries: MODEL_ATTEMPTS - 1,
   });
   const finishedAt = Date.now();
 
   const cleaned = result.text.trim().toUpperCase();
-  if (!cleaned.startsWith("A") && !cleaned.startsWith("B")) {
+  const voteIndex = labels.findIndex((label) => cleaned.startsWith(label));
+  if (voteIndex < 0) {
     throw new Error(`Invalid vote: ${result.text.trim()}`);
   }
-  const vote: "A" | "B" = cleaned.startsWith("A") ? "A" : "B";
 
-  const generationId = result.response.id;
+  const route = getModelRoute(voter);
+  const generationId = hasCostEndpoint(voter, route)
+    ? result.response.id
+    : result.response.id || createLocalGenerationId(route, startedAt);
+  if (!generationId) {
+    return { voteIndex };
+  }
+  const info = await resolveGenerationInfo(voter, generationId, result.usage);
+  const metrics = toMetrics(generationId, info, startedAt, finishedAt);
+
+  return {
+    voteIndex,
+    generationId,
+    metrics,
+  };
+}
+
+export async function callModerationJudge(
+  judge: Model,
+  kind: "prompt" | "answer",
+  text: string,
+): Promise<ModerationCallResult> {
+  const startedAt = Date.now();
+  const result = await generateText({
+    model: getModelChat(judge, "moderation"),
+    system:
+      "You are a content safety reviewer for a comedy game streamed live on Twitch and YouTube. Edgy and dark humor is fine. Flag only text that breaks streaming platform rules: hate speech or slurs, harassment of real people, sexual content involving minors, explicit sexual content, threats, or encouragement of self-harm or violence. Reply with exactly SAFE, or UNSAFE followed by a colon and a short reason.",
+    prompt: `${kind === "prompt" ? "Prompt" : "Answer"}: "${text}"`,
+    timeout: MODEL_CALL_TIMEOUT_MS,
+    maxRetries: MODEL_ATTEMPTS - 1,
+  });
+  const finishedAt = Date.now();
+
+  const cleaned = result.text.trim();
+  const upper = cleaned.toUpperCase();
+  let flagged: boolean;
+  if (upper.startsWith("UNSAFE")) {
+    flagged = true;
+  } else if (upper.startsWith("SAFE")) {
+    flagged = false;
+  } else {
+    throw new Error(`Invalid moderation verdict: ${cleaned}`);
+  }
+  const reason = flagged ? cleaned.slice("UNSAFE".length).replace(/^[\s:.-]+/, "").trim() : undefined;
+
+  const route = getModelRoute(judge);
+  const generationId = hasCostEndpoint(judge, route)
+    ? result.response.id
+    : result.response.id || createLocalGenerationId(route, startedAt);
   if (!generationId) {
-    return { vote };
+    return { flagged, reason };
   }
-  const info = await fetchOpenRouterGeneration(generationId);
+  const info = await resolveGenerationInfo(judge, generationId, result.usage);
   const metrics = toMetrics(generationId, info, startedAt, finishedAt);
 
   return {
-    vote,
+    flagged,
+    reason,
     generationId,
     metrics,
   };
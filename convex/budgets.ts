@@ -0,0 +1,271 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { BUDGET_ALERT_LOG_LIMIT } from "./constants";
+import { getEngineState, getOrCreateEngineState } from "./state";
+
+const convexInternal = internal as any;
+
+type SpendPeriod = "hour" | "day" | "month";
+type BudgetScope = "hourly" | "daily" | "monthly" | "model";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const budgetLimitValidator = v.union(v.number(), v.null());
+
+const budgetLimitsValidator = v.object({
+  hourlyUsd: budgetLimitValidator,
+  dailyUsd: budgetLimitValidator,
+  monthlyUsd: budgetLimitValidator,
+  modelDailyUsd: budgetLimitValidator,
+});
+
+const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  hourly: "Gasto da hora",
+  daily: "Gasto do dia",
+  monthly: "Gasto do mes",
+  model: "Gasto do dia",
+};
+
+// Buckets follow UTC calendar periods so the admin sees the same windows regardless of timezone.
+export function getPeriodStart(period: SpendPeriod, timestamp: number): number {
+  if (period === "hour") return Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+  const date = new Date(timestamp);
+  if (period === "day") return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function readLimit(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function readBudgetLimits(state: any) {
+  return {
+    hourlyUsd: readLimit(state?.budgetHourlyUsd),
+    dailyUsd: readLimit(state?.budgetDailyUsd),
+    monthlyUsd: readLimit(state?.budgetMonthlyUsd),
+    modelDailyUsd: readLimit(state?.budgetModelDailyUsd),
+  };
+}
+
+function formatUsd(value: number): string {
+  return `US$ ${value.toFixed(2)}`;
+}
+
+async function getBucket(ctx: { db: any }, period: SpendPeriod, periodStart: number, modelId?: string) {
+  return await ctx.db
+    .query("llmSpendBuckets")
+    .withIndex("by_period_start_and_modelId", (q: any) =>
+      q.eq("period", period).eq("periodStart", periodStart).eq("modelId", modelId),
+    )
+    .first();
+}
+
+async function addToBucket(
+  ctx: { db: any },
+  period: SpendPeriod,
+  periodStart: number,
+  costUsd: number,
+  model?: { modelId: string; modelName: string },
+): Promise<number> {
+  const now = Date.now();
+  const existing = await getBucket(ctx, period, periodStart, model?.modelId);
+  if (existing) {
+    const total = existing.costUsd + costUsd;
+    await ctx.db.patch(existing._id, {
+      costUsd: total,
+      calls: existing.calls + 1,
+      ...(model ? { modelName: model.modelName } : {}),
+      updatedAt: now,
+    });
+    return total;
+  }
+  await ctx.db.insert("llmSpendBuckets", {
+    period,
+    periodStart,
+    modelId: model?.modelId,
+    modelName: model?.modelName,
+    costUsd,
+    calls: 1,
+    updatedAt: now,
+  });
+  return costUsd;
+}
+
+async function hasAlert(ctx: { db: any }, scope: BudgetScope, periodStart: number, modelId?: string) {
+  const existing = await ctx.db
+    .query("budgetAlerts")
+    .withIndex("by_scope_period_and_modelId", (q: any) =>
+      q.eq("scope", scope).eq("periodStart", periodStart).eq("modelId", modelId),
+    )
+    .first();
+  return Boolean(existing);
+}
+
+async function pauseForBudget(
+  ctx: { db: any; scheduler: any },
+  state: any,
+  scope: Exclude<BudgetScope, "model">,
+  periodStart: number,
+  limitUsd: number,
+  spentUsd: number,
+): Promise<void> {
+  if (await hasAlert(ctx, scope, periodStart)) return;
+  await ctx.db.insert("budgetAlerts", {
+    scope,
+    periodStart,
+    limitUsd,
+    spentUsd,
+    action: "paused",
+    reason: `${BUDGET_SCOPE_LABELS[scope]} (${formatUsd(spentUsd)}) atingiu o limite de ${formatUsd(limitUsd)}; motor pausado`,
+    createdAt: Date.now(),
+  });
+  if (!state.isPaused) {
+    await ctx.scheduler.runAfter(0, convexInternal.admin.pause, { source: "budget" });
+  }
+}
+
+async function disableModelForBudget(
+  ctx: { db: any; scheduler: any },
+  model: { modelId: string; modelName: string },
+  periodStart: number,
+  limitUsd: number,
+  spentUsd: number,
+): Promise<void> {
+  if (await hasAlert(ctx, "model", periodStart, model.modelId)) return;
+  await ctx.db.insert("budgetAlerts", {
+    scope: "model",
+    periodStart,
+    modelId: model.modelId,
+    modelName: model.modelName,
+    limitUsd,
+    spentUsd,
+    action: "model_disabled",
+    reason: `${BUDGET_SCOPE_LABELS.model} de ${model.modelName} (${formatUsd(spentUsd)}) atingiu o limite por modelo de ${formatUsd(limitUsd)}; modelo desativado`,
+    createdAt: Date.now(),
+  });
+  const row = await ctx.db
+    .query("models")
+    .withIndex("by_modelId", (q: any) => q.eq("modelId", model.modelId))
+    .first();
+  if (row && row.enabled && !row.archivedAt) {
+    await ctx.scheduler.runAfter(0, convexInternal.models.setModelEnabled, {
+      modelId: model.modelId,
+      enabled: false,
+    });
+  }
+}
+
+export async function recordSpendImpl(
+  ctx: { db: any; scheduler: any },
+  event: { modelId: string; modelName: string; costUsd: number },
+): Promise<void> {
+  const costUsd = Number.isFinite(event.costUsd) ? Math.max(0, event.costUsd) : 0;
+  const now = Date.now();
+  const hourStart = getPeriodStart("hour", now);
+  const dayStart = getPeriodStart("day", now);
+  const monthStart = getPeriodStart("month", now);
+
+  const hourlyUsd = await addToBucket(ctx, "hour", hourStart, costUsd);
+  const dailyUsd = await addToBucket(ctx, "day", dayStart, costUsd);
+  const monthlyUsd = await addToBucket(ctx, "month", monthStart, costUsd);
+  const modelDailyUsd = await addToBucket(ctx, "day", dayStart, costUsd, event);
+
+  const state = await getEngineState(ctx as any);
+  if (!state) return;
+  const limits = readBudgetLimits(state);
+
+  if (limits.hourlyUsd !== null && hourlyUsd >= limits.hourlyUsd) {
+    await pauseForBudget(ctx, state, "hourly", hourStart, limits.hourlyUsd, hourlyUsd);
+  }
+  if (limits.dailyUsd !== null && dailyUsd >= limits.dailyUsd) {
+    await pauseForBudget(ctx, state, "daily", dayStart, limits.dailyUsd, dailyUsd);
+  }
+  if (limits.monthlyUsd !== null && monthlyUsd >= limits.monthlyUsd) {
+    await pauseForBudget(ctx, state, "monthly", monthStart, limits.monthlyUsd, monthlyUsd);
+  }
+  if (limits.modelDailyUsd !== null && modelDailyUsd >= limits.modelDailyUsd) {
+    await disableModelForBudget(ctx, event, dayStart, limits.modelDailyUsd, modelDailyUsd);
+  }
+}
+
+export const getAdminState = internalQuery({
+  args: {},
+  returns: v.object({
+    limits: budgetLimitsValidator,
+    burn: v.object({
+      hourlyUsd: v.number(),
+      dailyUsd: v.number(),
+      monthlyUsd: v.number(),
+      hourStart: v.number(),
+      dayStart: v.number(),
+      monthStart: v.number(),
+    }),
+    models: v.array(v.object({ modelId: v.string(), modelName: v.string(), dailyUsd: v.number() })),
+    alerts: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const state = await getEngineState(ctx as any);
+    const now = Date.now();
+    const hourStart = getPeriodStart("hour", now);
+    const dayStart = getPeriodStart("day", now);
+    const monthStart = getPeriodStart("month", now);
+
+    const [hourly, daily, monthly] = await Promise.all([
+      getBucket(ctx as any, "hour", hourStart),
+      getBucket(ctx as any, "day", dayStart),
+      getBucket(ctx as any, "month", monthStart),
+    ]);
+    const dayBuckets = await ctx.db
+      .query("llmSpendBuckets")
+      .withIndex("by_period_start_and_modelId", (q) => q.eq("period", "day").eq("periodStart", dayStart))
+      .collect();
+    const alerts = await ctx.db
+      .query("budgetAlerts")
+      .withIndex("by_createdAt")
+      .order("desc")
+      .take(BUDGET_ALERT_LOG_LIMIT);
+
+    return {
+      limits: readBudgetLimits(state),
+      burn: {
+        hourlyUsd: hourly?.costUsd ?? 0,
+        dailyUsd: daily?.costUsd ?? 0,
+        monthlyUsd: monthly?.costUsd ?? 0,
+        hourStart,
+        dayStart,
+        monthStart,
+      },
+      models: dayBuckets
+        .filter((bucket) => bucket.modelId !== undefined)
+        .map((bucket) => ({
+          modelId: bucket.modelId!,
+          modelName: bucket.modelName ?? bucket.modelId!,
+          dailyUsd: bucket.costUsd,
+        }))
+        .sort((a, b) => b.dailyUsd - a.dailyUsd),
+      alerts,
+    };
+  },
+});
+
+export const updateSettings = internalMutation({
+  args: budgetLimitsValidator,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    for (const value of Object.values(args)) {
+      if (value !== null && (!Number.isFinite(value) || value <= 0)) {
+        throw new Error("Limite de gasto deve ser maior que zero");
+      }
+    }
+    const state = await getOrCreateEngineState(ctx as any);
+    await ctx.db.patch(state._id, {
+      budgetHourlyUsd: args.hourlyUsd ?? undefined,
+      budgetDailyUsd: args.dailyUsd ?? undefined,
+      budgetMonthlyUsd: args.monthlyUsd ?? undefined,
+      budgetModelDailyUsd: args.modelDailyUsd ?? undefined,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
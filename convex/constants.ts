@@ -11,6 +11,8 @@ export {
   AI_REASONING_CALIBRATION_WARMUP_SAMPLE_COUNT,
   AI_REASONING_PROGRESS_FLUSH_INTERVAL_MS,
   AI_REASONING_PROGRESS_FLUSH_MIN_DELTA,
+  BUDGET_ALERT_LOG_LIMIT,
+  DATASET_EXPORT_PAGE_SIZE,
   ENGINE_RUNNER_MIN_ENABLED_MODELS,
   ENGINE_RUNNER_RETRY_ACTIVE_ROUND_PENDING_MS,
   ENGINE_RUNNER_RETRY_ACTIVE_ROUND_RECOVERED_MS,
@@ -20,25 +22,81 @@ export {
   ENGINE_RUNNER_VOTE_MODEL_WAIT_MS,
   ENGINE_RUNNER_VOTE_WINDOW_POLL_MAX_MS,
   ENGINE_RUNNER_VOTE_WINDOW_POLL_MIN_MS,
+  HEAD_TO_HEAD_RIVALRY_MIN_ROUNDS,
+  HISTORY_SEARCH_PAGE_SIZE,
+  HISTORY_SEARCH_SCAN_LIMIT,
+  MATCHMAKING_HISTORY_ROUNDS,
+  MATCHMAKING_MAX_CANDIDATES,
+  MOCK_MODEL_INPUT_COST_PER_MILLION_USD,
+  MOCK_MODEL_LATENCY_MS,
+  MOCK_MODEL_OUTPUT_COST_PER_MILLION_USD,
   MODEL_ATTEMPTS,
   MODEL_CALL_TIMEOUT_MS,
   MODEL_PHASE_DEADLINE_MS,
+  MODEL_PROFILE_ANSWER_HIGHLIGHTS,
+  MODEL_PROFILE_ROUND_SCAN_LIMIT,
+  MODEL_PROFILE_USAGE_SAMPLES,
   MODEL_RETRY_BACKOFF_MS,
   MODEL_TIMEOUT_GRACE_MS,
+  MODERATION_DEFAULT_ACTION,
+  MODERATION_LOG_LIMIT,
+  MODERATION_MAX_REGENERATIONS,
+  MODERATION_REPLACEMENT_ANSWER,
   OPENROUTER_BASE_URL,
   PLATFORM_VIEWER_POLL_INTERVAL_MS,
+  PREDICTION_CORRECT_POINTS,
+  PREDICTION_LEADERBOARD_SIZE,
+  PREDICTION_RESOLVE_BATCH,
+  PREDICTION_STREAK_BONUS_MAX,
+  PREDICTION_STREAK_BONUS_POINTS,
+  PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+  PROMPT_EXAMPLE_IMPORT_MAX_ROWS,
+  PROMPT_SIMILARITY_HISTORY_ROUNDS,
+  PROMPT_SIMILARITY_MAX_REGENERATIONS,
+  PROMPT_SIMILARITY_THRESHOLD,
+  PROMPT_TEMPLATE_STATS_ROUNDS,
+  PUBLIC_API_DEFAULT_PAGE_SIZE,
+  PUBLIC_API_MAX_PAGE_SIZE,
+  PUBLIC_API_SCAN_LIMIT,
+  RATING_INITIAL,
+  RATING_INITIAL_DEVIATION,
+  RATING_INITIAL_VOLATILITY,
+  RATING_MIN_DEVIATION,
+  RATING_SYSTEM_TAU,
   ROUND_PURGE_BATCH_SIZE,
   RUNNER_LEASE_HEARTBEAT_MS,
   RUNNER_LEASE_MANUAL_RENEW_MS,
   RUNNER_LEASE_MS,
   SKIPPED_ROUND_DELAY_MS,
   TELEGRAM_UPDATES_POLL_INTERVAL_MS,
+  TOURNAMENT_BEST_OF_OPTIONS,
+  TOURNAMENT_MAX_PARTICIPANTS,
   TWITCH_API_BATCH_SIZE,
+  VIEWER_LINK_CODE_LENGTH,
+  VIEWER_LINK_CODE_TTL_MS,
+  VIEWER_OAUTH_STATE_TTL_MS,
   VIEWER_REAPER_BATCH,
   VIEWER_REAPER_INTERVAL_MS,
   VIEWER_PRESENCE_REAPER_MAX_LIMIT,
+  VIEWER_PROMPT_EVERY_N_ROUNDS,
+  VIEWER_PROMPT_MAX_LENGTH,
+  VIEWER_PROMPT_MAX_NAME_LENGTH,
+  VIEWER_PROMPT_MAX_PENDING_PER_SUBMITTER,
+  VIEWER_PROMPT_MIN_LENGTH,
   VIEWER_SESSION_TTL_MS,
   VIEWER_SHARD_COUNT,
+  VIEWER_VOTE_BURST_THRESHOLD,
+  VIEWER_VOTE_BURST_WINDOW_MS,
+  VIEWER_VOTE_CHALLENGE_MAX_BITS,
+  VIEWER_VOTE_CHALLENGE_TTL_MS,
+  VIEWER_VOTE_FLAG_LOG_LIMIT,
+  VIEWER_VOTE_RATE_LIMIT_MAX,
+  VIEWER_VOTE_RATE_LIMIT_WINDOW_MS,
+  VIEWER_VOTE_VERIFIED_TTL_MS,
+  WEBHOOK_DELIVERY_LOG_LIMIT,
+  WEBHOOK_DELIVERY_RETENTION_MS,
+  WEBHOOK_DELIVERY_TIMEOUT_MS,
+  WEBHOOK_RETRY_DELAYS_MS,
   YOUTUBE_API_BATCH_SIZE,
 } from "../config";
 import { VIEWER_SHARD_COUNT } from "../config";
@@ -0,0 +1,669 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { DEFAULT_SCORES } from "./constants";
+import { getEngineState, getOrCreateEngineState, normalizeScoreRecord } from "./state";
+import { getEnabledModelIds, listModelCatalog } from "./models";
+import { applyRoundRatings } from "./ratings";
+import { recordRoundHeadToHead } from "./headToHead";
+import { buildRoundSearchText } from "./rounds";
+import {
+  isValidModelLogoId,
+  normalizeCostPerMillion,
+  normalizeHexColor,
+  normalizeModelActionEnabled,
+  normalizeModelPersona,
+  parseModelReasoningEffort,
+} from "../shared/models";
+import { indexFromSide, resolveWinnerIndex, sideFromIndex } from "../shared/rounds";
+import { isShowLanguage } from "../shared/i18n";
+import schema from "./schema";
+
+export type ImportModel = {
+  modelId: string;
+  name: string;
+  color: string;
+  logoId: string;
+  reasoningEffort?: string;
+  enabled: boolean;
+  canPrompt: boolean;
+  canAnswer: boolean;
+  canVote: boolean;
+  providerId?: string;
+  inputCostPerMillionUsd?: number;
+  outputCostPerMillionUsd?: number;
+  persona?: string;
+  archived: boolean;
+};
+
+export type ImportViewerTarget = {
+  platform: "twitch" | "youtube";
+  target: string;
+  enabled: boolean;
+};
+
+export type ImportTelegram = {
+  enabled: boolean;
+  channelId: string;
+};
+
+export type ParsedImportFile = {
+  exportedAt: string | null;
+  models: ImportModel[];
+  viewerTargets: ImportViewerTarget[];
+  telegram: ImportTelegram | null;
+  rounds: any[];
+  skippedRounds: number;
+  errors: string[];
+};
+
+const importModelValidator = v.object({
+  modelId: v.string(),
+  name: v.string(),
+  color: v.string(),
+  logoId: v.string(),
+  reasoningEffort: v.optional(v.string()),
+  enabled: v.boolean(),
+  canPrompt: v.boolean(),
+  canAnswer: v.boolean(),
+  canVote: v.boolean(),
+  providerId: v.optional(v.string()),
+  inputCostPerMillionUsd: v.optional(v.number()),
+  outputCostPerMillionUsd: v.optional(v.number()),
+  persona: v.optional(v.string()),
+  archived: v.boolean(),
+});
+
+// Stored round fields minus the ones importRoundBatch sets itself.
+const importRoundValidator = schema.tables.rounds.validator.omit("generation", "phase", "searchText", "updatedAt");
+
+const LLM_DURATION_SOURCES = ["openrouter_latency", "openrouter_generation_time", "local"];
+const TASK_METRIC_NUMBER_FIELDS = [
+  "costUsd",
+  "promptTokens",
+  "completionTokens",
+  "totalTokens",
+  "reasoningTokens",
+  "durationMsLocal",
+  "durationMsFinal",
+  "recordedAt",
+];
+
+const importViewerTargetValidator = v.object({
+  platform: v.union(v.literal("twitch"), v.literal("youtube")),
+  target: v.string(),
+  enabled: v.boolean(),
+});
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function optionalBoolean(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+function withoutUndefined<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+function parseRoundModel(value: unknown) {
+  if (!isRecord(value) || typeof value.id !== "string" || typeof value.name !== "string") return null;
+  return withoutUndefined({
+    id: value.id,
+    name: value.name,
+    color: optionalString(value.color),
+    logoId: optionalString(value.logoId),
+    reasoningEffort: parseModelReasoningEffort(value.reasoningEffort),
+    metricsEpoch: optionalNumber(value.metricsEpoch),
+    canPrompt: optionalBoolean(value.canPrompt),
+    canAnswer: optionalBoolean(value.canAnswer),
+    canVote: optionalBoolean(value.canVote),
+  });
+}
+
+function isTaskMetrics(value: Record<string, any>): boolean {
+  return (
+    typeof value.generationId === "string" &&
+    LLM_DURATION_SOURCES.includes(value.durationSource) &&
+    TASK_METRIC_NUMBER_FIELDS.every((field) => optionalNumber(value[field]) !== undefined)
+  );
+}
+
+function parseRoundTask(value: unknown) {
+  if (!isRecord(value)) return null;
+  const model = parseRoundModel(value.model);
+  const startedAt = optionalNumber(value.startedAt);
+  if (!model || startedAt === undefined) return null;
+  if (value.metrics !== undefined && (!isRecord(value.metrics) || !isTaskMetrics(value.metrics))) return null;
+  return withoutUndefined({
+    model,
+    startedAt,
+    finishedAt: optionalNumber(value.finishedAt),
+    result: typeof value.result === "string" ? value.result : undefined,
+    error: typeof value.error === "string" ? value.error : undefined,
+    metrics: isRecord(value.metrics)
+      ? Object.fromEntries(
+          ["generationId", "durationSource", ...TASK_METRIC_NUMBER_FIELDS].map((field) => [field, value.metrics[field]]),
+        )
+      : undefined,
+  });
+}
+
+function parseRoundVote(value: unknown, contestants: Array<{ id: string }>) {
+  if (!isRecord(value)) return null;
+  const voter = parseRoundModel(value.voter);
+  const startedAt = optionalNumber(value.startedAt);
+  if (!voter || startedAt === undefined) return null;
+  const votedForId = isRecord(value.votedFor) ? value.votedFor.id : undefined;
+  const votedForSide =
+    typeof value.votedForSide === "string"
+      ? sideFromIndex(indexFromSide(value.votedForSide))
+      : sideFromIndex(contestants.findIndex((contestant) => contestant.id === votedForId));
+  return withoutUndefined({
+    voter,
+    startedAt,
+    finishedAt: optionalNumber(value.finishedAt),
+    votedForSide: votedForSide ?? undefined,
+    error: optionalBoolean(value.error),
+  });
+}
+
+function parseCounts(value: unknown, length: number): number[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return Array.from({ length }, (_, index) => {
+    const count = Number(value[index]);
+    return Number.isFinite(count) && count > 0 ? count : 0;
+  });
+}
+
+// Rounds in the export are client rounds (votes point at a model, not a side);
+// this maps them back to stored rows without ids from the source deployment.
+function parseRound(value: unknown, label: string, errors: string[]) {
+  if (!isRecord(value)) {
+    errors.push(`${label}: rodada invalida`);
+    return null;
+  }
+  const num = optionalNumber(value.num);
+  const prompter = parseRoundModel(value.prompter);
+  const promptTask = parseRoundTask(value.promptTask);
+  const contestants = Array.isArray(value.contestants) ? value.contestants.map(parseRoundModel) : [];
+  const answerTasks = Array.isArray(value.answerTasks) ? value.answerTasks.map(parseRoundTask) : [];
+  if (
+    num === undefined ||
+    !prompter ||
+    !promptTask ||
+    !Array.isArray(value.answerTasks) ||
+    contestants.length < 2 ||
+    contestants.some((contestant) => !contestant) ||
+    answerTasks.some((task) => !task)
+  ) {
+    errors.push(`${label}: campos obrigatorios ausentes ou invalidos`);
+    return null;
+  }
+  if (value.language !== undefined && !isShowLanguage(value.language)) {
+    errors.push(`${label}: idioma invalido`);
+    return null;
+  }
+  const validContestants = contestants as NonNullable<(typeof contestants)[number]>[];
+  const votes = Array.isArray(value.votes) ? value.votes.map((vote) => parseRoundVote(vote, validContestants)) : [];
+  if (votes.some((vote) => !vote)) {
+    errors.push(`${label}: voto invalido`);
+    return null;
+  }
+
+  const finishedTimes = [
+    promptTask.finishedAt,
+    ...answerTasks.map((task) => task?.finishedAt),
+    ...votes.map((vote) => vote?.finishedAt),
+  ].filter((time): time is number => typeof time === "number");
+  const createdAt = optionalNumber(value.createdAt) ?? promptTask.startedAt;
+  const completedAt = optionalNumber(value.completedAt) ?? Math.max(createdAt, ...finishedTimes);
+  const skipType =
+    value.skipType === "prompt_error" || value.skipType === "answer_error" ? value.skipType : undefined;
+  const templateVersions = isRecord(value.templateVersions) &&
+    [value.templateVersions.prompt, value.templateVersions.answer, value.templateVersions.vote].every(
+      (version) => typeof version === "number",
+    )
+    ? {
+        prompt: value.templateVersions.prompt as number,
+        answer: value.templateVersions.answer as number,
+        vote: value.templateVersions.vote as number,
+      }
+    : undefined;
+
+  return withoutUndefined({
+    num,
+    prompter,
+    promptTask,
+    prompt: optionalString(value.prompt),
+    contestants: validContestants,
+    answerTasks,
+    votes,
+    scores: parseCounts(value.scores, validContestants.length),
+    viewerVoteCounts: parseCounts(value.viewerVoteCounts, validContestants.length),
+    skipped: value.skipped === true ? true : undefined,
+    skipReason: value.skipped === true ? optionalString(value.skipReason) : undefined,
+    skipType: value.skipped === true ? skipType : undefined,
+    promptSubmitter: optionalString(value.promptSubmitter),
+    templateVersions,
+    language: isShowLanguage(value.language) ? value.language : undefined,
+    createdAt,
+    completedAt,
+  });
+}
+
+function parseModel(value: unknown, label: string, errors: string[]): ImportModel | null {
+  if (!isRecord(value) || typeof value.modelId !== "string" || !value.modelId.trim()) {
+    errors.push(`${label}: modelId ausente`);
+    return null;
+  }
+  if (typeof value.name !== "string" || !value.name.trim()) {
+    errors.push(`${label}: nome ausente`);
+    return null;
+  }
+  if (typeof value.logoId !== "string" || !isValidModelLogoId(value.logoId)) {
+    errors.push(`${label}: logo invalida`);
+    return null;
+  }
+  return withoutUndefined({
+    modelId: value.modelId.trim(),
+    name: value.name.trim(),
+    color: normalizeHexColor(typeof value.color === "string" ? value.color : undefined),
+    logoId: value.logoId,
+    reasoningEffort: parseModelReasoningEffort(value.reasoningEffort),
+    enabled: value.enabled === true,
+    canPrompt: normalizeModelActionEnabled(value.canPrompt),
+    canAnswer: normalizeModelActionEnabled(value.canAnswer),
+    canVote: normalizeModelActionEnabled(value.canVote),
+    providerId: optionalString(value.providerId),
+    inputCostPerMillionUsd: normalizeCostPerMillion(optionalNumber(value.inputCostPerMillionUsd)),
+    outputCostPerMillionUsd: normalizeCostPerMillion(optionalNumber(value.outputCostPerMillionUsd)),
+    persona: normalizeModelPersona(optionalString(value.persona)),
+    archived: typeof value.archivedAt === "number",
+  });
+}
+
+function parseViewerTarget(value: unknown, label: string, errors: string[]): ImportViewerTarget | null {
+  if (
+    !isRecord(value) ||
+    (value.platform !== "twitch" && value.platform !== "youtube") ||
+    typeof value.target !== "string" ||
+    !value.target.trim()
+  ) {
+    errors.push(`${label}: target invalido`);
+    return null;
+  }
+  const target = value.platform === "twitch" ? value.target.trim().toLowerCase() : value.target.trim();
+  return { platform: value.platform, target, enabled: value.enabled !== false };
+}
+
+// Accepts the JSON produced by /admin/export. The Telegram bot token is never
+// read from the file, even when an older export still carries it.
+export function parseImportFile(raw: unknown): ParsedImportFile {
+  const errors: string[] = [];
+  if (!isRecord(raw)) {
+    return {
+      exportedAt: null,
+      models: [],
+      viewerTargets: [],
+      telegram: null,
+      rounds: [],
+      skippedRounds: 0,
+      errors: ["Arquivo nao e um export do admin"],
+    };
+  }
+
+  for (const key of ["models", "viewerTargets", "rounds"]) {
+    if (raw[key] !== undefined && !Array.isArray(raw[key])) {
+      errors.push(`${key} precisa ser uma lista`);
+    }
+  }
+
+  const models = (Array.isArray(raw.models) ? raw.models : [])
+    .map((model, index) => parseModel(model, `models[${index}]`, errors))
+    .filter((model): model is ImportModel => Boolean(model));
+  const viewerTargets = (Array.isArray(raw.viewerTargets) ? raw.viewerTargets : [])
+    .map((target, index) => parseViewerTarget(target, `viewerTargets[${index}]`, errors))
+    .filter((target): target is ImportViewerTarget => Boolean(target));
+
+  const state = isRecord(raw.state) ? raw.state : null;
+  const telegramSource = isRecord(raw.telegram) ? raw.telegram : state;
+  const channelId = typeof telegramSource?.telegramChannelId === "string"
+    ? telegramSource.telegramChannelId.trim()
+    : typeof telegramSource?.channelId === "string"
+      ? telegramSource.channelId.trim()
+      : "";
+  const telegram = channelId
+    ? {
+        enabled: telegramSource?.telegramEnabled === true || telegramSource?.enabled === true,
+        channelId,
+      }
+    : null;
+
+  const allRounds = Array.isArray(raw.rounds) ? raw.rounds : [];
+  const doneRounds = allRounds.filter((round) => isRecord(round) && round.phase === "done");
+  const rounds = doneRounds
+    .map((round, index) => parseRound(round, `rounds[${index}]`, errors))
+    .filter(Boolean)
+    .sort((a: any, b: any) => a.num - b.num);
+
+  return {
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : null,
+    models,
+    viewerTargets,
+    telegram,
+    rounds,
+    skippedRounds: allRounds.length - doneRounds.length,
+    errors,
+  };
+}
+
+function listChangedModelFields(existing: any, incoming: ImportModel): string[] {
+  const current: Record<string, unknown> = {
+    name: existing.name,
+    color: normalizeHexColor(existing.color),
+    logoId: existing.logoId,
+    reasoningEffort: parseModelReasoningEffort(existing.reasoningEffort),
+    enabled: Boolean(existing.enabled),
+    canPrompt: normalizeModelActionEnabled(existing.canPrompt),
+    canAnswer: normalizeModelActionEnabled(existing.canAnswer),
+    canVote: normalizeModelActionEnabled(existing.canVote),
+    providerId: existing.providerId,
+    inputCostPerMillionUsd: normalizeCostPerMillion(existing.inputCostPerMillionUsd),
+    outputCostPerMillionUsd: normalizeCostPerMillion(existing.outputCostPerMillionUsd),
+    persona: normalizeModelPersona(existing.persona),
+    archived: typeof existing.archivedAt === "number",
+  };
+  return Object.keys(current).filter(
+    (field) => current[field] !== (incoming as Record<string, unknown>)[field],
+  );
+}
+
+async function planModels(ctx: { db: any }, models: ImportModel[]) {
+  const existing = await ctx.db.query("models").collect();
+  const byModelId = new Map<string, any>(existing.map((row: any) => [row.modelId, row]));
+  const providers = await ctx.db.query("llmProviders").collect();
+  const providerIds = new Set<string>(providers.map((provider: any) => provider.providerId));
+
+  const create: string[] = [];
+  const update: { modelId: string; fields: string[] }[] = [];
+  const conflicts: string[] = [];
+  const missingProviders: string[] = [];
+  let unchanged = 0;
+  for (const model of models) {
+    if (model.providerId && !providerIds.has(model.providerId)) {
+      missingProviders.push(model.modelId);
+    }
+    const sameName = existing.find((row: any) => row.name === model.name && row.modelId !== model.modelId);
+    if (sameName) {
+      conflicts.push(model.modelId);
+      continue;
+    }
+    const current = byModelId.get(model.modelId);
+    if (!current) {
+      create.push(model.modelId);
+      continue;
+    }
+    const fields = listChangedModelFields(current, model);
+    if (fields.length === 0) {
+      unchanged += 1;
+    } else {
+      update.push({ modelId: model.modelId, fields });
+    }
+  }
+  return { create, update, unchanged, conflicts, missingProviders, providerIds };
+}
+
+async function planViewerTargets(ctx: { db: any }, targets: ImportViewerTarget[]) {
+  const create: string[] = [];
+  const update: string[] = [];
+  let unchanged = 0;
+  for (const target of targets) {
+    const current = await ctx.db
+      .query("viewerTargets")
+      .withIndex("by_platform_and_target", (q: any) => q.eq("platform", target.platform).eq("target", target.target))
+      .first();
+    const label = `${target.platform}:${target.target}`;
+    if (!current) create.push(label);
+    else if (current.enabled !== target.enabled) update.push(label);
+    else unchanged += 1;
+  }
+  return { create, update, unchanged };
+}
+
+export const preview = internalQuery({
+  args: {
+    models: v.array(importModelValidator),
+    viewerTargets: v.array(importViewerTargetValidator),
+  },
+  returns: v.object({
+    generation: v.number(),
+    completedRounds: v.number(),
+    hasTelegramToken: v.boolean(),
+    telegram: v.object({ enabled: v.boolean(), channelId: v.string() }),
+    models: v.object({
+      create: v.array(v.string()),
+      update: v.array(v.object({ modelId: v.string(), fields: v.array(v.string()) })),
+      unchanged: v.number(),
+      conflicts: v.array(v.string()),
+      missingProviders: v.array(v.string()),
+    }),
+    viewerTargets: v.object({
+      create: v.array(v.string()),
+      update: v.array(v.string()),
+      unchanged: v.number(),
+    }),
+  }),
+  handler: async (ctx, args) => {
+    const engine = await getEngineState(ctx as any);
+    const plan = await planModels(ctx, args.models);
+    return {
+      generation: engine?.generation ?? 1,
+      completedRounds: engine?.completedRounds ?? 0,
+      hasTelegramToken: Boolean(
+        typeof engine?.telegramBotToken === "string" && engine.telegramBotToken.trim(),
+      ),
+      telegram: {
+        enabled: engine?.telegramEnabled === true,
+        channelId: engine?.telegramChannelId ?? "",
+      },
+      models: {
+        create: plan.create,
+        update: plan.update,
+        unchanged: plan.unchanged,
+        conflicts: plan.conflicts,
+        missingProviders: plan.missingProviders,
+      },
+      viewerTargets: await planViewerTargets(ctx, args.viewerTargets),
+    };
+  },
+});
+
+// Idempotent on modelId: existing rows are patched in place (keeping their
+// metricsEpoch), new ones inserted; models whose name belongs to another id are skipped.
+export const importModels = internalMutation({
+  args: { models: v.array(importModelValidator) },
+  returns: v.object({ created: v.number(), updated: v.number(), skipped: v.number() }),
+  handler: async (ctx, args) => {
+    const plan = await planModels(ctx, args.models);
+    const conflicts = new Set(plan.conflicts);
+    const now = Date.now();
+    let created = 0;
+    let updated = 0;
+    for (const model of args.models) {
+      if (conflicts.has(model.modelId)) continue;
+      const { archived, ...fields } = model;
+      const row = {
+        ...fields,
+        reasoningEffort: parseModelReasoningEffort(fields.reasoningEffort),
+        providerId: fields.providerId && plan.providerIds.has(fields.providerId) ? fields.providerId : undefined,
+        archivedAt: archived ? now : undefined,
+      };
+      const existing = await ctx.db
+        .query("models")
+        .withIndex("by_modelId", (q) => q.eq("modelId", model.modelId))
+        .first();
+      if (existing) {
+        if (listChangedModelFields(existing, model).length === 0) continue;
+        await ctx.db.patch(existing._id, {
+          ...row,
+          archivedAt: archived ? (existing.archivedAt ?? now) : undefined,
+          updatedAt: now,
+        });
+        updated += 1;
+      } else {
+        await ctx.db.insert("models", withoutUndefined({ ...row, metricsEpoch: 1, createdAt: now, updatedAt: now }));
+        created += 1;
+      }
+    }
+
+    const state = await getOrCreateEngineState(ctx as any);
+    await ctx.db.patch(state._id, {
+      enabledModelIds: getEnabledModelIds(await listModelCatalog(ctx as any)),
+      updatedAt: now,
+    });
+    return { created, updated, skipped: conflicts.size };
+  },
+});
+
+export const importViewerTargets = internalMutation({
+  args: { viewerTargets: v.array(importViewerTargetValidator) },
+  returns: v.object({ created: v.number(), updated: v.number() }),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    let created = 0;
+    let updated = 0;
+    for (const target of args.viewerTargets) {
+      const existing = await ctx.db
+        .query("viewerTargets")
+        .withIndex("by_platform_and_target", (q) => q.eq("platform", target.platform).eq("target", target.target))
+        .first();
+      if (!existing) {
+        await ctx.db.insert("viewerTargets", {
+          platform: target.platform,
+          target: target.target,
+          enabled: target.enabled,
+          viewerCount: 0,
+          isLive: false,
+          createdAt: now,
+          updatedAt: now,
+        });
+        created += 1;
+      } else if (existing.enabled !== target.enabled) {
+        await ctx.db.patch(existing._id, { enabled: target.enabled, updatedAt: now });
+        updated += 1;
+      }
+    }
+    return { created, updated };
+  },
+});
+
+// Runs the rounds through the same validator as importRoundBatch so /admin/import
+// can reject a bad file before admin.reset closes the current generation.
+export const validateRoundBatch = internalQuery({
+  args: { rounds: v.array(importRoundValidator) },
+  returns: v.null(),
+  handler: async () => {
+    return null;
+  },
+});
+
+// Called after admin.reset in batches; the standings, ratings and head-to-head records
+// of the new generation are rebuilt from the imported votes as each batch lands.
+export const importRoundBatch = internalMutation({
+  args: {
+    generation: v.number(),
+    rounds: v.array(importRoundValidator),
+  },
+  returns: v.object({ imported: v.number() }),
+  handler: async (ctx, args) => {
+    const state = await getOrCreateEngineState(ctx as any);
+    if (state.generation !== args.generation) {
+      throw new Error("Geracao mudou durante a importacao");
+    }
+
+    const scores = { ...state.scores };
+    const humanScores = normalizeScoreRecord(state.humanScores);
+    const humanVoteTotals = normalizeScoreRecord(state.humanVoteTotals);
+    let completedRounds = state.completedRounds;
+    let nextRoundNum = state.nextRoundNum;
+    let lastCompletedRoundId = state.lastCompletedRoundId;
+    const now = Date.now();
+
+    for (const round of args.rounds) {
+      const modelVotes = round.contestants.map(() => 0);
+      for (const vote of round.votes) {
+        const sideIndex = indexFromSide(vote.votedForSide);
+        if (sideIndex >= 0 && sideIndex < modelVotes.length) modelVotes[sideIndex] = (modelVotes[sideIndex] ?? 0) + 1;
+      }
+      const viewerVoteCounts: number[] = round.viewerVoteCounts ?? round.contestants.map(() => 0);
+
+      const roundId = await ctx.db.insert("rounds", {
+        ...round,
+        generation: args.generation,
+        phase: "done",
+        scores: round.scores ?? modelVotes.map((votes: number) => votes * 100),
+        viewerVoteCounts,
+        searchText: buildRoundSearchText(round),
+        updatedAt: now,
+      });
+      lastCompletedRoundId = roundId;
+      nextRoundNum = Math.max(nextRoundNum, round.num + 1);
+      if (round.skipped) continue;
+
+      completedRounds += 1;
+      const winner = round.contestants[resolveWinnerIndex(modelVotes)];
+      if (winner) {
+        scores[winner.name] = (scores[winner.name] ?? 0) + 1;
+      }
+      round.contestants.forEach((contestant: any, index: number) => {
+        humanVoteTotals[contestant.name] = (humanVoteTotals[contestant.name] ?? 0) + (viewerVoteCounts[index] ?? 0);
+      });
+      const humanWinner = round.contestants[resolveWinnerIndex(viewerVoteCounts)];
+      if (humanWinner) {
+        humanScores[humanWinner.name] = (humanScores[humanWinner.name] ?? 0) + 1;
+      }
+
+      await applyRoundRatings(ctx, {
+        generation: args.generation,
+        source: "ai",
+        roundId,
+        contestants: round.contestants,
+        points: modelVotes,
+      });
+      await applyRoundRatings(ctx, {
+        generation: args.generation,
+        source: "human",
+        roundId,
+        contestants: round.contestants,
+        points: viewerVoteCounts,
+      });
+      await recordRoundHeadToHead(ctx, {
+        generation: args.generation,
+        roundId,
+        contestants: round.contestants,
+        modelVotes,
+        viewerVoteCounts,
+      });
+    }
+
+    await ctx.db.patch(state._id, {
+      scores: { ...DEFAULT_SCORES, ...scores },
+      humanScores,
+      humanVoteTotals,
+      completedRounds,
+      nextRoundNum,
+      lastCompletedRoundId,
+      updatedAt: now,
+    });
+    return { imported: args.rounds.length };
+  },
+});
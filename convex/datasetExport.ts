@@ -0,0 +1,125 @@
+import { v } from "convex/values";
+import { internalQuery } from "./_generated/server";
+import { DATASET_EXPORT_PAGE_SIZE } from "./constants";
+import { countRoundModelVotes, getRoundViewerVoteCounts } from "./rounds";
+import { getEngineState } from "./state";
+import { resolveWinnerIndex } from "../shared/rounds";
+import { buildPreferencePairs } from "../shared/datasetExport";
+
+const exportSourceValidator = v.union(
+  v.literal("rounds"),
+  v.literal("usage"),
+  v.literal("viewer_votes"),
+  v.literal("preferences"),
+);
+
+function toRoundRow(round: any) {
+  const contestants = round.contestants.map((model: any) => model.id);
+  const aiVotes = countRoundModelVotes(round);
+  const viewerVotes = getRoundViewerVoteCounts(round) ?? contestants.map(() => 0);
+  return {
+    generation: round.generation,
+    num: round.num,
+    roundId: round._id,
+    completedAt: round.completedAt ?? null,
+    skipped: Boolean(round.skipped),
+    skipType: round.skipType ?? null,
+    language: round.language ?? null,
+    prompter: round.prompter.id,
+    prompt: round.prompt ?? null,
+    promptSubmitter: round.promptSubmitter ?? null,
+    contestants,
+    answers: round.answerTasks.map((task: any) => task.result ?? null),
+    aiVotes,
+    viewerVotes,
+    winner: contestants[resolveWinnerIndex(aiVotes)] ?? null,
+    audienceWinner: contestants[resolveWinnerIndex(viewerVotes)] ?? null,
+  };
+}
+
+function toUsageRow(event: any) {
+  return {
+    generation: event.generation,
+    roundId: event.roundId ?? null,
+    roundNum: event.roundNum ?? null,
+    requestType: event.requestType,
+    answerIndex: event.answerIndex ?? null,
+    voteIndex: event.voteIndex ?? null,
+    modelId: event.modelId,
+    modelName: event.modelName,
+    costUsd: event.costUsd,
+    promptTokens: event.promptTokens,
+    completionTokens: event.completionTokens,
+    reasoningTokens: event.reasoningTokens,
+    totalTokens: event.totalTokens,
+    durationMs: event.durationMsFinal,
+    startedAt: event.startedAt,
+    finishedAt: event.finishedAt,
+  };
+}
+
+function toViewerVoteRow(vote: any) {
+  return {
+    generation: vote.generation,
+    roundId: vote.roundId,
+    viewerId: vote.viewerId,
+    side: vote.side,
+    createdAt: vote.createdAt ?? vote.updatedAt,
+    flaggedReasons: vote.flaggedReasons ?? [],
+    excluded: Boolean(vote.excludedAt),
+  };
+}
+
+export const getCurrentGeneration = internalQuery({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const engine = await getEngineState(ctx as any);
+    return engine?.generation ?? 1;
+  },
+});
+
+// One page of one generation; the /admin/export/dataset stream walks pages and
+// generations so no single query reads more than DATASET_EXPORT_PAGE_SIZE documents.
+export const readPage = internalQuery({
+  args: {
+    source: exportSourceValidator,
+    generation: v.number(),
+    cursor: v.union(v.string(), v.null()),
+  },
+  returns: v.object({
+    rows: v.array(v.any()),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const paginationOpts = { cursor: args.cursor, numItems: DATASET_EXPORT_PAGE_SIZE };
+
+    if (args.source === "usage") {
+      const result = await ctx.db
+        .query("llmUsageEvents")
+        .withIndex("by_generation", (q) => q.eq("generation", args.generation))
+        .paginate(paginationOpts);
+      return { rows: result.page.map(toUsageRow), isDone: result.isDone, continueCursor: result.continueCursor };
+    }
+
+    if (args.source === "viewer_votes") {
+      const result = await ctx.db
+        .query("viewerVotes")
+        .withIndex("by_generation", (q) => q.eq("generation", args.generation))
+        .paginate(paginationOpts);
+      return { rows: result.page.map(toViewerVoteRow), isDone: result.isDone, continueCursor: result.continueCursor };
+    }
+
+    const result = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_num", (q) => q.eq("generation", args.generation))
+      .paginate(paginationOpts);
+    const rounds = result.page.filter((round) => round.phase === "done").map(toRoundRow);
+    const rows =
+      args.source === "preferences"
+        ? rounds.filter((round) => !round.skipped).flatMap((round) => buildPreferencePairs(round))
+        : rounds;
+    return { rows, isDone: result.isDone, continueCursor: result.continueCursor };
+  },
+});
@@ -17,7 +17,22 @@ import {
   isFiniteRuns,
   resolveRuntimeRoundTiming,
 } from "./state";
+import { applyRoundRatings } from "./ratings";
+import { recordRoundHeadToHead } from "./headToHead";
+import { recordTournamentGame } from "./tournaments";
+import {
+  MAX_CONTESTANTS_PER_ROUND,
+  MIN_CONTESTANTS_PER_ROUND,
+  indexFromSide,
+  resolveWinnerIndex,
+  sideFromIndex,
+} from "../shared/rounds";
 import { readTotalViewerCount } from "./viewerCount";
+import { getNextApprovedViewerPrompt, markViewerPromptUsed, shouldUseViewerPrompt } from "./viewerPrompts";
+import { getActivePromptTemplateVersions } from "./promptTemplates";
+import { normalizeShowLanguage } from "../shared/i18n";
+import { emitRoundWebhookEvent } from "./webhooks";
+import { buildRoundSearchText } from "./rounds";
 
 const convexInternal = internal as any;
 
@@ -30,6 +45,28 @@ const modelReasoningEffortValidator = v.union(
   v.literal("none"),
 );
 
+const taskModerationValidator = v.object({
+  status: v.union(v.literal("passed"), v.literal("flagged")),
+  action: v.optional(v.union(v.literal("regenerated"), v.literal("replaced"), v.literal("held"))),
+  reasons: v.array(v.string()),
+  checkedAt: v.number(),
+});
+
+const promptSimilarityValidator = v.object({
+  score: v.number(),
+  match: v.string(),
+  source: v.union(v.literal("round"), v.literal("example")),
+  matchRoundNum: v.optional(v.number()),
+  regenerations: v.number(),
+});
+
+const contestantSideValidator = v.union(
+  v.literal("A"),
+  v.literal("B"),
+  v.literal("C"),
+  v.literal("D"),
+);
+
 const llmDurationSourceValidator = v.union(
   v.literal("openrouter_latency"),
   v.literal("openrouter_generation_time"),
@@ -81,11 +118,11 @@ async function finalizeRoundInternal(ctx: any, state: any, round: any): Promise<
   if (round.phase === "done") return false;
   if (round.skipped) return false;
 
-  let votesA = 0;
-  let votesB = 0;
+  const contestants = round.contestants;
+  const modelVotes = contestants.map(() => 0);
   for (const vote of round.votes) {
-    if (vote.votedForSide === "A") votesA += 1;
-    else if (vote.votedForSide === "B") votesB += 1;
+    const sideIndex = indexFromSide(vote.votedForSide);
+    if (sideIndex >= 0 && sideIndex < modelVotes.length) modelVotes[sideIndex] += 1;
   }
 
   const tallies = await ctx.db
@@ -93,49 +130,67 @@ async function finalizeRoundInternal(ctx: any, state: any, round: any): Promise<
     .withIndex("by_round", (q: any) => q.eq("roundId", round._id))
     .collect();
 
-  const viewerVotesA = tallies
-    .filter((x: any) => x.side === "A")
-    .reduce((sum: number, x: any) => sum + x.count, 0);
-  const viewerVotesB = tallies
-    .filter((x: any) => x.side === "B")
-    .reduce((sum: number, x: any) => sum + x.count, 0);
+  const viewerVoteCounts = contestants.map((_: unknown, index: number) =>
+    tallies
+      .filter((x: any) => indexFromSide(x.side) === index)
+      .reduce((sum: number, x: any) => sum + x.count, 0),
+  );
 
-  const scoreA = votesA * 100;
-  const scoreB = votesB * 100;
+  const roundScores = modelVotes.map((votes: number) => votes * 100);
   const scores = { ...state.scores };
   const humanScores = { ...DEFAULT_SCORES, ...(state.humanScores ?? {}) };
   const humanVoteTotals = { ...DEFAULT_SCORES, ...(state.humanVoteTotals ?? {}) };
-  const contA = round.contestants[0];
-  const contB = round.contestants[1];
-
-  if (contA && contB) {
-    if (votesA > votesB) {
-      scores[contA.name] = (scores[contA.name] ?? 0) + 1;
-    } else if (votesB > votesA) {
-      scores[contB.name] = (scores[contB.name] ?? 0) + 1;
+
+  if (contestants.length >= 2) {
+    const winner = contestants[resolveWinnerIndex(modelVotes)];
+    if (winner) {
+      scores[winner.name] = (scores[winner.name] ?? 0) + 1;
     }
 
-    humanVoteTotals[contA.name] = (humanVoteTotals[contA.name] ?? 0) + viewerVotesA;
-    humanVoteTotals[contB.name] = (humanVoteTotals[contB.name] ?? 0) + viewerVotesB;
-    if (viewerVotesA > viewerVotesB) {
-      humanScores[contA.name] = (humanScores[contA.name] ?? 0) + 1;
-    } else if (viewerVotesB > viewerVotesA) {
-      humanScores[contB.name] = (humanScores[contB.name] ?? 0) + 1;
+    contestants.forEach((contestant: any, index: number) => {
+      humanVoteTotals[contestant.name] = (humanVoteTotals[contestant.name] ?? 0) + viewerVoteCounts[index];
+    });
+    const humanWinner = contestants[resolveWinnerIndex(viewerVoteCounts)];
+    if (humanWinner) {
+      humanScores[humanWinner.name] = (humanScores[humanWinner.name] ?? 0) + 1;
     }
+
+    await applyRoundRatings(ctx, {
+      generation: state.generation,
+      source: "ai",
+      roundId: round._id,
+      contestants,
+      points: modelVotes,
+    });
+    await applyRoundRatings(ctx, {
+      generation: state.generation,
+      source: "human",
+      roundId: round._id,
+      contestants,
+      points: viewerVoteCounts,
+    });
+    await recordRoundHeadToHead(ctx, {
+      generation: state.generation,
+      roundId: round._id,
+      contestants,
+      modelVotes,
+      viewerVoteCounts,
+    });
   }
 
+  const tournamentResult = await recordTournamentGame(ctx, round, modelVotes, viewerVoteCounts);
+
   const nextCompletedRounds = state.completedRounds + 1;
   const nextDone =
     isFiniteRuns(state) && typeof state.totalRounds === "number"
       ? nextCompletedRounds >= state.totalRounds
-      : false;
+      : tournamentResult.completed;
 
   await ctx.db.patch(round._id, {
     phase: "done",
-    scoreA,
-    scoreB,
-    viewerVotesA,
-    viewerVotesB,
+    scores: roundScores,
+    viewerVoteCounts,
+    searchText: buildRoundSearchText(round),
     completedAt: Date.now(),
     updatedAt: Date.now(),
   });
@@ -155,6 +210,18 @@ async function finalizeRoundInternal(ctx: any, state: any, round: any): Promise<
   await ctx.scheduler.runAfter(0, convexInternal.telegramActions.closeRoundPoll, {
     roundId: round._id,
   });
+  await ctx.scheduler.runAfter(0, convexInternal.predictions.resolveRoundBatch, {
+    roundId: round._id,
+    generation: state.generation,
+    winnerSide: contestants.length >= 2 ? sideFromIndex(resolveWinnerIndex(modelVotes)) : null,
+    cursor: undefined,
+  });
+  await emitRoundWebhookEvent(ctx, "round.finalized", round._id, {
+    aiVotes: modelVotes,
+    viewerVotes: viewerVoteCounts,
+    winner: contestants[resolveWinnerIndex(modelVotes)]?.name ?? null,
+    audienceWinner: contestants[resolveWinnerIndex(viewerVoteCounts)]?.name ?? null,
+  });
 
   return true;
 }
@@ -232,9 +299,22 @@ export const createRound = internalMutation({
         metricsEpoch: v.optional(v.number()),
       }),
     ),
+    tournament: v.optional(
+      v.object({
+        tournamentId: v.id("tournaments"),
+        matchId: v.string(),
+        game: v.number(),
+      }),
+    ),
   },
-  returns: v.union(v.object({ roundId: v.id("rounds"), num: v.number() }), v.null()),
+  returns: v.union(
+    v.object({ roundId: v.id("rounds"), num: v.number(), hasViewerPrompt: v.boolean() }),
+    v.null(),
+  ),
   handler: async (ctx, args) => {
+    if (args.contestants.length < MIN_CONTESTANTS_PER_ROUND || args.contestants.length > MAX_CONTESTANTS_PER_ROUND) {
+      return null;
+    }
     const state = await getOrCreateEngineState(ctx as any);
     if (state.generation !== args.expectedGeneration) return null;
     if (state.done) return null;
@@ -250,31 +330,53 @@ export const createRound = internalMutation({
 
     const now = Date.now();
     const num = state.nextRoundNum;
+    const viewerPrompt = shouldUseViewerPrompt(num) ? await getNextApprovedViewerPrompt(ctx as any) : null;
     const roundId = await ctx.db.insert("rounds", {
       generation: state.generation,
       num,
       phase: "prompting",
       prompter: args.prompter,
-      promptTask: {
-        model: args.prompter,
-        startedAt: now,
-      },
+      promptTask: viewerPrompt
+        ? {
+            model: args.prompter,
+            startedAt: now,
+            finishedAt: now,
+            result: viewerPrompt.text,
+          }
+        : {
+            model: args.prompter,
+            startedAt: now,
+          },
+      prompt: viewerPrompt?.text,
+      viewerPromptId: viewerPrompt?._id,
+      promptSubmitter: viewerPrompt?.submitterName,
+      templateVersions: await getActivePromptTemplateVersions(ctx as any),
+      language: normalizeShowLanguage(state.showLanguage),
       contestants: args.contestants,
-      answerTasks: [
-        { model: args.contestants[0]!, startedAt: 0 },
-        { model: args.contestants[1]!, startedAt: 0 },
-      ],
+      answerTasks: args.contestants.map((contestant) => ({ model: contestant, startedAt: 0 })),
       votes: [],
+      tournamentId: args.tournament?.tournamentId,
+      tournamentMatchId: args.tournament?.matchId,
+      tournamentGame: args.tournament?.game,
       createdAt: now,
       updatedAt: now,
     });
 
+    if (viewerPrompt) {
+      await markViewerPromptUsed(ctx as any, viewerPrompt._id, roundId);
+    }
+
     await ctx.db.patch(state._id, {
       activeRoundId: roundId,
       updatedAt: now,
     });
 
-    return { roundId, num };
+    await emitRoundWebhookEvent(ctx, "round.created", roundId);
+    if (viewerPrompt) {
+      await emitRoundWebhookEvent(ctx, "prompt.ready", roundId);
+    }
+
+    return { roundId, num, hasViewerPrompt: Boolean(viewerPrompt) };
   },
 });
 
@@ -284,6 +386,8 @@ export const setPromptResult = internalMutation({
     roundId: v.id("rounds"),
     prompt: v.string(),
     metrics: v.optional(taskMetricsValidator),
+    similarity: v.optional(promptSimilarityValidator),
+    moderation: v.optional(taskModerationValidator),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -301,9 +405,12 @@ export const setPromptResult = internalMutation({
         result: args.prompt,
         error: undefined,
         metrics: args.metrics,
+        moderation: args.moderation,
       },
+      promptSimilarity: args.similarity,
       updatedAt: Date.now(),
     });
+    await emitRoundWebhookEvent(ctx, "prompt.ready", args.roundId);
     return true;
   },
 });
@@ -313,6 +420,7 @@ export const setPromptError = internalMutation({
     expectedGeneration: v.number(),
     roundId: v.id("rounds"),
     error: v.string(),
+    moderation: v.optional(taskModerationValidator),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -328,6 +436,7 @@ export const setPromptError = internalMutation({
         ...round.promptTask,
         finishedAt: now,
         error: args.error,
+        moderation: args.moderation,
       },
       skipped: true,
       skipReason: args.error,
@@ -341,6 +450,7 @@ export const setPromptError = internalMutation({
       lastCompletedRoundId: args.roundId,
       updatedAt: now,
     });
+    await emitRoundWebhookEvent(ctx, "round.skipped", args.roundId);
 
     return true;
   },
@@ -357,15 +467,10 @@ export const startAnswering = internalMutation({
     if (!round) return false;
     if (round.generation !== args.expectedGeneration) return false;
     if (round.phase !== "prompting") return false;
-    const firstTask = round.answerTasks[0];
-    const secondTask = round.answerTasks[1];
-    if (!firstTask || !secondTask) return false;
+    if (round.answerTasks.length < MIN_CONTESTANTS_PER_ROUND) return false;
 
     const answerStart = Date.now();
-    const tasks = [
-      { ...firstTask, startedAt: answerStart },
-      { ...secondTask, startedAt: answerStart },
-    ];
+    const tasks = round.answerTasks.map((task) => ({ ...task, startedAt: answerStart }));
 
     await ctx.db.patch(args.roundId, {
       phase: "answering",
@@ -384,6 +489,7 @@ export const setAnswerResult = internalMutation({
     result: v.optional(v.string()),
     error: v.optional(v.string()),
     metrics: v.optional(taskMetricsValidator),
+    moderation: v.optional(taskModerationValidator),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -391,7 +497,7 @@ export const setAnswerResult = internalMutation({
     if (!round) return false;
     if (round.generation !== args.expectedGeneration) return false;
     if (round.phase !== "answering") return false;
-    if (args.answerIndex !== 0 && args.answerIndex !== 1) return false;
+    if (!Number.isInteger(args.answerIndex) || args.answerIndex < 0) return false;
 
     const task = round.answerTasks[args.answerIndex];
     if (!task) return false;
@@ -402,6 +508,7 @@ export const setAnswerResult = internalMutation({
       result: args.result ?? task.result ?? "[no answer]",
       error: args.error,
       metrics: args.metrics,
+      moderation: args.moderation,
     };
 
     const answerTasks = [...round.answerTasks];
@@ -412,6 +519,16 @@ export const setAnswerResult = internalMutation({
       updatedAt: Date.now(),
     });
 
+    if (answerTasks.every((entry) => Boolean(entry.finishedAt))) {
+      await emitRoundWebhookEvent(ctx, "answers.ready", args.roundId, {
+        answers: answerTasks.map((entry) => ({
+          model: { id: entry.model.id, name: entry.model.name },
+          answer: entry.result ?? null,
+          error: entry.error ?? null,
+        })),
+      });
+    }
+
     return true;
   },
 });
@@ -435,6 +552,7 @@ export const skipRoundForAnswerFailure = internalMutation({
       skipped: true,
       skipReason: args.error,
       skipType: "answer_error",
+      searchText: buildRoundSearchText(round),
       completedAt: now,
       updatedAt: now,
     });
@@ -444,6 +562,7 @@ export const skipRoundForAnswerFailure = internalMutation({
       lastCompletedRoundId: args.roundId,
       updatedAt: now,
     });
+    await emitRoundWebhookEvent(ctx, "round.skipped", args.roundId);
 
     return true;
   },
@@ -489,6 +608,10 @@ export const startVoting = internalMutation({
     await ctx.scheduler.runAfter(0, convexInternal.telegramActions.openRoundPoll, {
       roundId: args.roundId,
     });
+    await emitRoundWebhookEvent(ctx, "voting.started", args.roundId, {
+      judges: args.voters.map((voter) => ({ id: voter.id, name: voter.name })),
+      viewerVotingEndsAt: voteStart + voteWindow.windowMs,
+    });
 
     return true;
   },
@@ -499,7 +622,7 @@ export const setModelVote = internalMutation({
     expectedGeneration: v.number(),
     roundId: v.id("rounds"),
     voteIndex: v.number(),
-    side: v.optional(v.union(v.literal("A"), v.literal("B"))),
+    side: v.optional(contestantSideValidator),
     error: v.optional(v.boolean()),
   },
   returns: v.boolean(),
@@ -509,6 +632,7 @@ export const setModelVote = internalMutation({
     if (round.generation !== args.expectedGeneration) return false;
     if (round.phase !== "voting") return false;
     if (args.voteIndex < 0 || args.voteIndex >= round.votes.length) return false;
+    if (args.side && indexFromSide(args.side) >= round.contestants.length) return false;
 
     const votes = [...round.votes];
     const vote = votes[args.voteIndex];
@@ -577,16 +701,12 @@ export const recoverStaleActiveRound = internalMutation({
 
     if (round.phase === "prompting") {
       const promptReadyWithoutError = Boolean(round.prompt) && !round.promptTask?.error;
-      const firstAnswerTask = round.answerTasks?.[0];
-      const secondAnswerTask = round.answerTasks?.[1];
-      if (firstAnswerTask && secondAnswerTask && promptReadyWithoutError) {
+      const answerTasks = round.answerTasks ?? [];
+      if (answerTasks.length >= MIN_CONTESTANTS_PER_ROUND && promptReadyWithoutError) {
         const answerStart = Date.now();
         await ctx.db.patch(round._id, {
           phase: "answering",
-          answerTasks: [
-            { ...firstAnswerTask, startedAt: answerStart },
-            { ...secondAnswerTask, startedAt: answerStart },
-          ],
+          answerTasks: answerTasks.map((task) => ({ ...task, startedAt: answerStart })),
           updatedAt: answerStart,
         });
         return { recovered: true, reason: "prompting_prompt_ready_resumed" };
@@ -615,13 +735,13 @@ export const recoverStaleActiveRound = internalMutation({
         lastCompletedRoundId: round._id,
         updatedAt: now,
       });
+      await emitRoundWebhookEvent(ctx, "round.skipped", round._id);
       return { recovered: true, reason: "prompting_timed_out" };
     }
 
     if (round.phase === "answering") {
       const answerStartedAt = Math.max(
-        round.answerTasks?.[0]?.startedAt ?? 0,
-        round.answerTasks?.[1]?.startedAt ?? 0,
+        ...(round.answerTasks ?? []).map((task) => task?.startedAt ?? 0),
         round.updatedAt ?? 0,
       );
       if (now - answerStartedAt <= answerStaleThresholdMs) {
@@ -645,6 +765,7 @@ export const recoverStaleActiveRound = internalMutation({
         skipped: true,
         skipReason: round.skipReason ?? `Falha na resposta (timeout ${Math.round(MODEL_CALL_TIMEOUT_MS / 1000)}s)`,
         skipType: "answer_error",
+        searchText: buildRoundSearchText({ prompt: round.prompt, answerTasks }),
         completedAt: now,
         updatedAt: now,
       });
@@ -653,6 +774,7 @@ export const recoverStaleActiveRound = internalMutation({
         lastCompletedRoundId: round._id,
         updatedAt: now,
       });
+      await emitRoundWebhookEvent(ctx, "round.skipped", round._id);
       return { recovered: true, reason: "answering_timed_out_skipped" };
     }
 
@@ -16,13 +16,45 @@ import {
   ENGINE_RUNNER_VOTE_WINDOW_POLL_MIN_MS,
   MODEL_CALL_TIMEOUT_MS,
   MODEL_ATTEMPTS,
+  MODERATION_MAX_REGENERATIONS,
+  MODERATION_REPLACEMENT_ANSWER,
+  PROMPT_SIMILARITY_MAX_REGENERATIONS,
   RUNNER_LEASE_HEARTBEAT_MS,
   RUNNER_LEASE_MANUAL_RENEW_MS,
   SKIPPED_ROUND_DELAY_MS,
   sleep,
   shuffle,
 } from "./constants";
-import { callGenerateAnswer, callGeneratePrompt, callVote, type LlmCallMetrics } from "./ai";
+import {
+  callGenerateAnswer,
+  callGeneratePrompt,
+  callModerationJudge,
+  callVote,
+  configureLlmRoutes,
+  type LlmCallMetrics,
+  type LlmRoute,
+  type PromptTemplateContext,
+  type RejectedPrompt,
+  type TextCallResult,
+} from "./ai";
+import { MIN_CONTESTANTS_PER_ROUND, normalizeContestantsPerRound, sideFromIndex } from "../shared/rounds";
+import { isTournamentRuns } from "./state";
+import {
+  buildMatchmakingStats,
+  pickFairPrompter,
+  pickFairRoundModels,
+  type MatchmakingRound,
+  type MatchmakingStats,
+} from "./matchmaking";
+import {
+  findMostSimilarPrompt,
+  indexPromptReferences,
+  isPromptTooSimilar,
+  type PromptReference,
+  type PromptSimilarityMatch,
+} from "./promptSimilarity";
+import { matchModerationRules, type ModerationAction, type ModerationRule } from "./moderation";
+import { SHOW_LANGUAGE_PROMPT_NAMES, normalizeShowLanguage } from "../shared/i18n";
 
 type RoleCapableModel = Model & {
   canPrompt?: boolean;
@@ -41,49 +73,55 @@ function toRoundModel(model: RoleCapableModel): Model {
   };
 }
 
-function pickRoundModels(models: RoleCapableModel[]): {
+function pickRoundModels(
+  models: RoleCapableModel[],
+  contestantsPerRound: number,
+  stats: MatchmakingStats,
+): {
   prompter: Model;
-  contestants: [Model, Model];
+  contestants: Model[];
   voters: Model[];
 } | null {
-  const promptPool = shuffle(models.filter((model) => model.canPrompt !== false));
-  const answerPool = models.filter((model) => model.canAnswer !== false);
-  const votePool = models.filter((model) => model.canVote !== false);
-
-  if (promptPool.length === 0 || answerPool.length < 2 || votePool.length === 0) {
-    return null;
-  }
-
-  for (const prompter of promptPool) {
-    const contestantCandidates = shuffle(answerPool.filter((candidate) => candidate.id !== prompter.id));
-    if (contestantCandidates.length < 2) continue;
-
-    for (let i = 0; i < contestantCandidates.length - 1; i += 1) {
-      const contA = contestantCandidates[i]!;
-      for (let j = i + 1; j < contestantCandidates.length; j += 1) {
-        const contB = contestantCandidates[j]!;
-        const voters = shuffle(
-          votePool.filter((voter) => voter.id !== contA.id && voter.id !== contB.id),
-        );
-        if (voters.length === 0) continue;
-
-        return {
-          prompter: toRoundModel(prompter),
-          contestants: [toRoundModel(contA), toRoundModel(contB)],
-          voters: voters.map((voter) => toRoundModel(voter)),
-        };
-      }
+  for (let count = contestantsPerRound; count >= MIN_CONTESTANTS_PER_ROUND; count -= 1) {
+    const picked = pickFairRoundModels(models, count, stats);
+    if (picked) {
+      return {
+        prompter: toRoundModel(picked.prompter),
+        contestants: picked.contestants.map((contestant) => toRoundModel(contestant)),
+        voters: picked.voters.map((voter) => toRoundModel(voter)),
+      };
     }
   }
-
   return null;
 }
 
+function pickTournamentRoundModels(
+  models: RoleCapableModel[],
+  contestants: Model[],
+  stats: MatchmakingStats,
+): {
+  prompter: Model;
+  contestants: Model[];
+  voters: Model[];
+} | null {
+  const contestantIds = new Set(contestants.map((contestant) => contestant.id));
+  const prompter = pickFairPrompter(models, contestantIds, stats);
+  const voters = pickVotersForContestants(models, contestants);
+  if (!prompter || voters.length === 0) return null;
+  return {
+    prompter: toRoundModel(prompter),
+    contestants: contestants.map((contestant) =>
+      toRoundModel(models.find((model) => model.id === contestant.id) ?? contestant),
+    ),
+    voters,
+  };
+}
+
 function pickVotersForContestants(
   models: RoleCapableModel[],
-  contestants: [Model, Model],
+  contestants: Model[],
 ): Model[] {
-  const contestantIds = new Set([contestants[0].id, contestants[1].id]);
+  const contestantIds = new Set(contestants.map((contestant) => contestant.id));
   return shuffle(models.filter((model) => model.canVote !== false && !contestantIds.has(model.id))).map((model) =>
     toRoundModel(model),
   );
@@ -169,7 +207,7 @@ async function recordUsageIfAvailable(
     generation: number;
     roundId: any;
     roundNum: number;
-    requestType: "prompt" | "answer" | "vote";
+    requestType: "prompt" | "answer" | "vote" | "moderation";
     answerIndex?: number;
     voteIndex?: number;
     model: Model;
@@ -202,6 +240,145 @@ async function recordUsageIfAvailable(
   });
 }
 
+type RoundTemplateConfig = {
+  templates: Record<"prompt" | "answer" | "vote", PromptTemplateContext["template"] & { version: number }>;
+  personas: Record<string, string>;
+  language: string;
+};
+
+function templateContext(
+  config: RoundTemplateConfig,
+  kind: "prompt" | "answer" | "vote",
+  model?: Model,
+): PromptTemplateContext {
+  return {
+    template: config.templates[kind],
+    persona: model ? config.personas[model.id] : undefined,
+    language: SHOW_LANGUAGE_PROMPT_NAMES[normalizeShowLanguage(config.language)],
+  };
+}
+
+type ModerationConfig = {
+  action: ModerationAction;
+  rules: ModerationRule[];
+  judgeModel: Model | null;
+};
+
+type TaskModeration = {
+  status: "passed" | "flagged";
+  action?: "regenerated" | "replaced" | "held";
+  reasons: string[];
+  checkedAt: number;
+};
+
+async function checkModeration(
+  ctx: any,
+  config: ModerationConfig,
+  args: { generation: number; roundId: any; roundNum: number; kind: "prompt" | "answer"; text: string },
+): Promise<{ source: "blocklist" | "judge"; reasons: string[] } | null> {
+  const reasons = matchModerationRules(args.text, config.rules);
+  if (reasons.length > 0) return { source: "blocklist", reasons };
+  if (!config.judgeModel) return null;
+
+  try {
+    const verdict = await callModerationJudge(config.judgeModel, args.kind, args.text);
+    await recordUsageIfAvailable(ctx, {
+      generation: args.generation,
+      roundId: args.roundId,
+      roundNum: args.roundNum,
+      requestType: "moderation",
+      model: config.judgeModel,
+      metrics: verdict.metrics,
+    });
+    return verdict.flagged ? { source: "judge", reasons: [verdict.reason ? `juiz: ${verdict.reason}` : "juiz"] } : null;
+  } catch (error) {
+    // A judge outage must not stall the show; the blocklist still applies.
+    console.warn("[engineRunner] moderation judge failed", error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+async function moderateGeneratedText(
+  ctx: any,
+  args: {
+    config: ModerationConfig;
+    generation: number;
+    roundId: any;
+    roundNum: number;
+    kind: "prompt" | "answer";
+    answerIndex?: number;
+    model: Model;
+    text: string;
+    regenerate: (rejectedTexts: string[]) => Promise<TextCallResult>;
+    replacement: () => string | null;
+  },
+): Promise<{ text: string | null; regenerated?: TextCallResult; moderation: TaskModeration }> {
+  const rejectedTexts: string[] = [];
+  const reasons = new Set<string>();
+  let text = args.text;
+  let regenerated: TextCallResult | undefined;
+
+  for (let attempt = 0; ; attempt += 1) {
+    const flag = await checkModeration(ctx, args.config, {
+      generation: args.generation,
+      roundId: args.roundId,
+      roundNum: args.roundNum,
+      kind: args.kind,
+      text,
+    });
+    if (!flag) {
+      return {
+        text,
+        regenerated,
+        moderation: {
+          status: reasons.size > 0 ? "flagged" : "passed",
+          action: reasons.size > 0 ? "regenerated" : undefined,
+          reasons: [...reasons],
+          checkedAt: Date.now(),
+        },
+      };
+    }
+    flag.reasons.forEach((reason) => reasons.add(reason));
+
+    let nextText: string | null = null;
+    if (args.config.action === "regenerate" && attempt < MODERATION_MAX_REGENERATIONS) {
+      try {
+        regenerated = await args.regenerate([...rejectedTexts, text]);
+        nextText = regenerated.text;
+      } catch {
+        nextText = null;
+      }
+    }
+    const replacement = nextText === null && args.config.action !== "hold" ? args.replacement() : null;
+    const action = nextText !== null ? "regenerated" : replacement ? "replaced" : "held";
+
+    await ctx.runMutation(convexInternal.moderation.recordEvent, {
+      generation: args.generation,
+      roundId: args.roundId,
+      roundNum: args.roundNum,
+      kind: args.kind,
+      answerIndex: args.answerIndex,
+      modelId: args.model.id,
+      modelName: args.model.name,
+      text,
+      source: flag.source,
+      reasons: flag.reasons,
+      action,
+      replacement: replacement ?? undefined,
+    });
+
+    if (nextText === null) {
+      return {
+        text: replacement,
+        regenerated,
+        moderation: { status: "flagged", action, reasons: [...reasons], checkedAt: Date.now() },
+      };
+    }
+    rejectedTexts.push(text);
+    text = nextText;
+  }
+}
+
 export const runLoop = internalAction({
   args: {
     leaseId: v.string(),
@@ -228,11 +405,14 @@ export const runLoop = internalAction({
         return null;
       }
 
+      configureLlmRoutes((await ctx.runQuery(convexInternal.providers.getRuntimeRoutes, {})) as LlmRoute[]);
+
       let roundId: any;
       let roundNum = 0;
       let prompter!: Model;
-      let contestants!: [Model, Model];
+      let contestants!: Model[];
       let voters: Model[] = [];
+      let templateConfig!: RoundTemplateConfig;
       let shouldStartAnswering = false;
 
       if (state.activeRoundId) {
@@ -244,8 +424,7 @@ export const runLoop = internalAction({
           activeRound.phase === "prompting" &&
           Boolean(activeRound.prompt) &&
           !activeRound.promptTask?.error &&
-          Boolean(activeRound.contestants?.[0]) &&
-          Boolean(activeRound.contestants?.[1]) &&
+          (activeRound.contestants?.length ?? 0) >= MIN_CONTESTANTS_PER_ROUND &&
           Boolean(activeRound.prompter);
 
         if (!canResumeAfterPrompt) {
@@ -266,8 +445,9 @@ export const runLoop = internalAction({
 
         roundId = activeRound._id;
         roundNum = activeRound.num;
+        templateConfig = (await ctx.runQuery(convexInternal.promptTemplates.getForRound, { roundId })) as RoundTemplateConfig;
         prompter = activeRound.prompter;
-        contestants = [activeRound.contestants[0], activeRound.contestants[1]];
+        contestants = [...activeRound.contestants];
         shouldStartAnswering = true;
       } else {
         const enabledModels = (await ctx.runQuery(
@@ -281,7 +461,31 @@ export const runLoop = internalAction({
           return null;
         }
 
-        const selectedModels = pickRoundModels(enabledModels);
+        let tournamentMatch: {
+          tournamentId: any;
+          matchId: string;
+          game: number;
+          contestants: Model[];
+        } | null = null;
+        if (isTournamentRuns(state)) {
+          tournamentMatch = await ctx.runQuery(convexInternal.tournaments.getNextMatchForRunner, {
+            expectedGeneration,
+          });
+          if (!tournamentMatch) {
+            await ctx.scheduler.runAfter(ENGINE_RUNNER_RETRY_BLOCKED_MS, convexInternal.engineRunner.runLoop, {
+              leaseId: args.leaseId,
+            });
+            return null;
+          }
+        }
+
+        const recentRounds = (await ctx.runQuery(convexInternal.matchmaking.getRecentRounds, {
+          expectedGeneration,
+        })) as MatchmakingRound[];
+        const matchmakingStats = buildMatchmakingStats(recentRounds);
+        const selectedModels = tournamentMatch
+          ? pickTournamentRoundModels(enabledModels, tournamentMatch.contestants, matchmakingStats)
+          : pickRoundModels(enabledModels, normalizeContestantsPerRound(state.contestantsPerRound), matchmakingStats);
         if (!selectedModels) {
           await ctx.scheduler.runAfter(ENGINE_RUNNER_RETRY_BLOCKED_MS, convexInternal.engineRunner.runLoop, {
             leaseId: args.leaseId,
@@ -296,6 +500,13 @@ export const runLoop = internalAction({
           expectedGeneration,
           prompter,
           contestants,
+          tournament: tournamentMatch
+            ? {
+                tournamentId: tournamentMatch.tournamentId,
+                matchId: tournamentMatch.matchId,
+                game: tournamentMatch.game,
+              }
+            : undefined,
         });
 
         if (!created) {
@@ -307,69 +518,155 @@ export const runLoop = internalAction({
 
         roundId = created.roundId;
         roundNum = created.num;
+        templateConfig = (await ctx.runQuery(convexInternal.promptTemplates.getForRound, { roundId })) as RoundTemplateConfig;
         shouldStartAnswering = true;
-        let promptReasoningEstimate = 0;
-
-        try {
-          await ctx.runMutation(convexInternal.usage.upsertLiveReasoningProgress, {
-            generation: expectedGeneration,
-            roundId,
-            requestType: "prompt",
-            modelId: prompter.id,
-            estimatedReasoningTokens: 0,
-          });
+        if (!created.hasViewerPrompt) {
+          let promptReasoningEstimate = 0;
+          let promptFailure = `Falha ao gerar prompt (${MODEL_ATTEMPTS} tentativas)`;
+          let promptModeration: TaskModeration | undefined;
 
-          const promptResult = await withLeaseHeartbeat(ctx, args.leaseId, expectedGeneration, async () => {
-            return await callGeneratePrompt(prompter, async (estimatedReasoningTokens, finalized) => {
-              promptReasoningEstimate = estimatedReasoningTokens;
-              if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return;
-              await ctx.runMutation(convexInternal.usage.upsertLiveReasoningProgress, {
+          try {
+            await ctx.runMutation(convexInternal.usage.upsertLiveReasoningProgress, {
+              generation: expectedGeneration,
+              roundId,
+              requestType: "prompt",
+              modelId: prompter.id,
+              estimatedReasoningTokens: 0,
+            });
+
+            const examplePool = (await ctx.runQuery(convexInternal.promptExamples.listEnabledTexts, {
+              language: templateConfig.language,
+            })) as string[];
+            const moderationConfig = (await ctx.runQuery(convexInternal.moderation.getConfig, {})) as ModerationConfig;
+            const recentPrompts = (await ctx.runQuery(convexInternal.promptSimilarity.getRecentPrompts, {
+              expectedGeneration,
+            })) as PromptReference[];
+            const similarityReferences = indexPromptReferences([
+              ...recentPrompts,
+              ...examplePool.map((text) => ({ text, source: "example" as const })),
+            ]);
+            const rejectedPrompts: RejectedPrompt[] = [];
+            let bestPrompt: {
+              text: string;
+              metrics?: LlmCallMetrics;
+              similarity: PromptSimilarityMatch | null;
+            } | null = null;
+            let promptReasoningBase = 0;
+
+            const generatePrompt = async (rejected: RejectedPrompt[]) => {
+              const result = await withLeaseHeartbeat(ctx, args.leaseId, expectedGeneration, async () => {
+                return await callGeneratePrompt(
+                  prompter,
+                  examplePool,
+                  async (estimatedReasoningTokens, finalized) => {
+                    promptReasoningEstimate = promptReasoningBase + estimatedReasoningTokens;
+                    if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return;
+                    await ctx.runMutation(convexInternal.usage.upsertLiveReasoningProgress, {
+                      generation: expectedGeneration,
+                      roundId,
+                      requestType: "prompt",
+                      modelId: prompter.id,
+                      estimatedReasoningTokens: promptReasoningEstimate,
+                      finalized,
+                    });
+                  },
+                  rejected,
+                  templateContext(templateConfig, "prompt", prompter),
+                );
+              });
+              promptReasoningBase = promptReasoningEstimate;
+              await recordUsageIfAvailable(ctx, {
                 generation: expectedGeneration,
                 roundId,
+                roundNum,
                 requestType: "prompt",
-                modelId: prompter.id,
-                estimatedReasoningTokens,
-                finalized,
+                model: prompter,
+                metrics: result.metrics,
               });
+              return result;
+            };
+
+            for (let regeneration = 0; regeneration <= PROMPT_SIMILARITY_MAX_REGENERATIONS; regeneration += 1) {
+              let promptResult: TextCallResult;
+              try {
+                promptResult = await generatePrompt(rejectedPrompts);
+              } catch (error) {
+                // A failed regeneration keeps the best prompt generated so far.
+                if (!bestPrompt) throw error;
+                break;
+              }
+              if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return null;
+
+              const similarity = findMostSimilarPrompt(promptResult.text, similarityReferences);
+              if (!bestPrompt || (similarity?.score ?? 0) < (bestPrompt.similarity?.score ?? 0)) {
+                bestPrompt = { text: promptResult.text, metrics: promptResult.metrics, similarity };
+              }
+              if (!isPromptTooSimilar(similarity)) break;
+              rejectedPrompts.push({ prompt: promptResult.text, reason: `parecido com "${similarity?.match ?? ""}"` });
+            }
+            if (!bestPrompt) throw new Error("Prompt generation returned no result.");
+
+            const moderated = await moderateGeneratedText(ctx, {
+              config: moderationConfig,
+              generation: expectedGeneration,
+              roundId,
+              roundNum,
+              kind: "prompt",
+              model: prompter,
+              text: bestPrompt.text,
+              regenerate: (rejectedTexts) =>
+                generatePrompt([
+                  ...rejectedPrompts,
+                  ...rejectedTexts.map((text) => ({ prompt: text, reason: "barrado pela moderacao" })),
+                ]),
+              replacement: () =>
+                shuffle(examplePool).find((text) => matchModerationRules(text, moderationConfig.rules).length === 0) ??
+                null,
             });
-          });
-          if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return null;
+            if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return null;
+            if (moderated.text === null) {
+              promptFailure = "Prompt retido pela moderacao";
+              promptModeration = moderated.moderation;
+              throw new Error(promptFailure);
+            }
+
+            const similarity =
+              moderated.text === bestPrompt.text
+                ? bestPrompt.similarity
+                : moderated.moderation.action === "regenerated"
+                  ? findMostSimilarPrompt(moderated.text, similarityReferences)
+                  : null;
+            await ctx.runMutation(convexInternal.engine.setPromptResult, {
+              expectedGeneration,
+              roundId,
+              prompt: moderated.text,
+              metrics: toTaskMetrics(moderated.regenerated?.metrics ?? bestPrompt.metrics),
+              similarity: similarity ? { ...similarity, regenerations: rejectedPrompts.length } : undefined,
+              moderation: moderated.moderation,
+            });
+          } catch {
+            if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return null;
 
-          await ctx.runMutation(convexInternal.engine.setPromptResult, {
-            expectedGeneration,
-            roundId,
-            prompt: promptResult.text,
-            metrics: toTaskMetrics(promptResult.metrics),
-          });
-          await recordUsageIfAvailable(ctx, {
-            generation: expectedGeneration,
-            roundId,
-            roundNum,
-            requestType: "prompt",
-            model: prompter,
-            metrics: promptResult.metrics,
-          });
-        } catch {
-          if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return null;
-
-          await ctx.runMutation(convexInternal.usage.finalizeLiveReasoningProgress, {
-            generation: expectedGeneration,
-            roundId,
-            requestType: "prompt",
-            modelId: prompter.id,
-            estimatedReasoningTokens: promptReasoningEstimate,
-          });
+            await ctx.runMutation(convexInternal.usage.finalizeLiveReasoningProgress, {
+              generation: expectedGeneration,
+              roundId,
+              requestType: "prompt",
+              modelId: prompter.id,
+              estimatedReasoningTokens: promptReasoningEstimate,
+            });
 
-          await ctx.runMutation(convexInternal.engine.setPromptError, {
-            expectedGeneration,
-            roundId,
-            error: `Falha ao gerar prompt (${MODEL_ATTEMPTS} tentativas)`,
-          });
+            await ctx.runMutation(convexInternal.engine.setPromptError, {
+              expectedGeneration,
+              roundId,
+              error: promptFailure,
+              moderation: promptModeration,
+            });
 
-          await sleep(SKIPPED_ROUND_DELAY_MS);
-          if (!(await safeRenewLease(ctx, args.leaseId, expectedGeneration))) return null;
-          await ctx.scheduler.runAfter(0, convexInternal.engineRunner.runLoop, { leaseId: args.leaseId });
-          return null;
+            await sleep(SKIPPED_ROUND_DELAY_MS);
+            if (!(await safeRenewLease(ctx, args.leaseId, expectedGeneration))) return null;
+            await ctx.scheduler.runAfter(0, convexInternal.engineRunner.runLoop, { leaseId: args.leaseId });
+            return null;
+          }
         }
       }
 
@@ -388,8 +685,11 @@ export const runLoop = internalAction({
       return null;
     }
 
-    const answerReasoningEstimates = [0, 0];
-    const pendingAnswerIndexes = [0, 1].filter((answerIndex) => !currentRound.answerTasks?.[answerIndex]?.finishedAt);
+    const moderationConfig = (await ctx.runQuery(convexInternal.moderation.getConfig, {})) as ModerationConfig;
+    const answerReasoningEstimates = contestants.map(() => 0);
+    const pendingAnswerIndexes = contestants
+      .map((_, answerIndex) => answerIndex)
+      .filter((answerIndex) => !currentRound.answerTasks?.[answerIndex]?.finishedAt);
     await Promise.all(
       pendingAnswerIndexes.map(async (answerIndex) => {
         const contestant = contestants[answerIndex];
@@ -411,39 +711,61 @@ export const runLoop = internalAction({
           const contestant = contestants[answerIndex];
           if (!contestant) return;
           try {
-            const result = await callGenerateAnswer(
-              contestant,
-              currentRound.prompt as string,
-              async (estimatedReasoningTokens, finalized) => {
-                answerReasoningEstimates[answerIndex] = estimatedReasoningTokens;
-                if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return;
-                await ctx.runMutation(convexInternal.usage.upsertLiveReasoningProgress, {
-                  generation: expectedGeneration,
-                  roundId,
-                  requestType: "answer",
-                  answerIndex,
-                  modelId: contestant.id,
-                  estimatedReasoningTokens,
-                  finalized,
-                });
-              },
-            );
+            const generateAnswer = async (rejectedAnswers: string[]) => {
+              const result = await callGenerateAnswer(
+                contestant,
+                currentRound.prompt as string,
+                async (estimatedReasoningTokens, finalized) => {
+                  answerReasoningEstimates[answerIndex] = estimatedReasoningTokens;
+                  if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return;
+                  await ctx.runMutation(convexInternal.usage.upsertLiveReasoningProgress, {
+                    generation: expectedGeneration,
+                    roundId,
+                    requestType: "answer",
+                    answerIndex,
+                    modelId: contestant.id,
+                    estimatedReasoningTokens,
+                    finalized,
+                  });
+                },
+                rejectedAnswers,
+                templateContext(templateConfig, "answer", contestant),
+              );
+              await recordUsageIfAvailable(ctx, {
+                generation: expectedGeneration,
+                roundId,
+                roundNum,
+                requestType: "answer",
+                answerIndex,
+                model: contestant,
+                metrics: result.metrics,
+              });
+              return result;
+            };
+
+            const result = await generateAnswer([]);
             if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return;
-            await ctx.runMutation(convexInternal.engine.setAnswerResult, {
-              expectedGeneration,
-              roundId,
-              answerIndex,
-              result: result.text,
-              metrics: toTaskMetrics(result.metrics),
-            });
-            await recordUsageIfAvailable(ctx, {
+            const moderated = await moderateGeneratedText(ctx, {
+              config: moderationConfig,
               generation: expectedGeneration,
               roundId,
               roundNum,
-              requestType: "answer",
+              kind: "answer",
               answerIndex,
               model: contestant,
-              metrics: result.metrics,
+              text: result.text,
+              regenerate: generateAnswer,
+              replacement: () => MODERATION_REPLACEMENT_ANSWER,
+            });
+            if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return;
+            await ctx.runMutation(convexInternal.engine.setAnswerResult, {
+              expectedGeneration,
+              roundId,
+              answerIndex,
+              result: moderated.text ?? "[no answer]",
+              error: moderated.text === null ? "Resposta retida pela moderacao" : undefined,
+              metrics: toTaskMetrics(moderated.regenerated?.metrics ?? result.metrics),
+              moderation: moderated.moderation,
             });
           } catch (error) {
             const message =
@@ -523,27 +845,26 @@ export const runLoop = internalAction({
       return null;
     }
 
-    const answerA = roundForVotes.answerTasks[0]?.result ?? "[no answer]";
-    const answerB = roundForVotes.answerTasks[1]?.result ?? "[no answer]";
+    const answers = contestants.map((_, answerIndex) => ({
+      answer: roundForVotes.answerTasks[answerIndex]?.result ?? "[no answer]",
+    }));
 
     const modelVotesState = { done: false };
     const modelVotesPromise = withLeaseHeartbeat(ctx, args.leaseId, expectedGeneration, async () => {
       await Promise.all(
         voters.map(async (voter, voteIndex) => {
           try {
-            const showAFirst = Math.random() > 0.5;
-            const first = showAFirst ? { answer: answerA } : { answer: answerB };
-            const second = showAFirst ? { answer: answerB } : { answer: answerA };
-            const result = await callVote(voter, roundForVotes.prompt ?? "", first, second);
+            const order = shuffle(answers.map((_, answerIndex) => answerIndex));
+            const result = await callVote(
+              voter,
+              roundForVotes.prompt ?? "",
+              order.map((answerIndex) => answers[answerIndex]!),
+              templateContext(templateConfig, "vote"),
+            );
             if (!(await leaseStillValid(ctx, args.leaseId, expectedGeneration))) return;
 
-            const votedForSide: "A" | "B" = showAFirst
-              ? result.vote === "A"
-                ? "A"
-                : "B"
-              : result.vote === "A"
-                ? "B"
-                : "A";
+            const votedForSide = sideFromIndex(order[result.voteIndex] ?? -1);
+            if (!votedForSide) throw new Error("Invalid vote index");
 
             await ctx.runMutation(convexInternal.engine.setModelVote, {
               expectedGeneration,
@@ -0,0 +1,229 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { HEAD_TO_HEAD_RIVALRY_MIN_ROUNDS, ROUND_PURGE_BATCH_SIZE } from "./constants";
+import { getEngineState } from "./state";
+import { getEnabledModelIds, listModelCatalog } from "./models";
+import { getRoundViewerVoteCounts } from "./rounds";
+import { indexFromSide } from "../shared/rounds";
+import type { HeadToHeadRecord } from "../shared/types";
+
+const convexInternal = internal as any;
+
+type Outcome = "a" | "b" | "tie";
+
+function compareOutcome(pointsA: number, pointsB: number): Outcome {
+  return pointsA > pointsB ? "a" : pointsA < pointsB ? "b" : "tie";
+}
+
+function toHeadToHeadRecord(row: any): HeadToHeadRecord {
+  return {
+    modelAId: row.modelAId,
+    modelBId: row.modelBId,
+    modelAName: row.modelAName,
+    modelBName: row.modelBName,
+    rounds: row.rounds,
+    aiWinsA: row.aiWinsA,
+    aiWinsB: row.aiWinsB,
+    aiTies: row.aiTies,
+    humanRounds: row.humanRounds,
+    humanWinsA: row.humanWinsA,
+    humanWinsB: row.humanWinsB,
+    humanTies: row.humanTies,
+  };
+}
+
+// Pairs are stored once, with modelAId sorting before modelBId. The audience side
+// only counts rounds that received at least one viewer vote.
+export async function recordRoundHeadToHead(
+  ctx: any,
+  args: {
+    generation: number;
+    roundId: string;
+    contestants: Array<{ id: string; name: string }>;
+    modelVotes: number[];
+    viewerVoteCounts: number[];
+  },
+): Promise<void> {
+  const { contestants, modelVotes, viewerVoteCounts } = args;
+  if (contestants.length < 2) return;
+  const hasViewerVotes = viewerVoteCounts.some((count) => count > 0);
+  const now = Date.now();
+
+  for (let i = 0; i < contestants.length; i++) {
+    for (let j = i + 1; j < contestants.length; j++) {
+      const swap = contestants[i]!.id > contestants[j]!.id;
+      const indexA = swap ? j : i;
+      const indexB = swap ? i : j;
+      const modelA = contestants[indexA]!;
+      const modelB = contestants[indexB]!;
+      if (modelA.id === modelB.id) continue;
+
+      const ai = compareOutcome(modelVotes[indexA] ?? 0, modelVotes[indexB] ?? 0);
+      const human = compareOutcome(viewerVoteCounts[indexA] ?? 0, viewerVoteCounts[indexB] ?? 0);
+      const existing = await ctx.db
+        .query("headToHead")
+        .withIndex("by_generation_and_pair", (q: any) =>
+          q.eq("generation", args.generation).eq("modelAId", modelA.id).eq("modelBId", modelB.id),
+        )
+        .first();
+      const base = existing ?? {
+        rounds: 0,
+        aiWinsA: 0,
+        aiWinsB: 0,
+        aiTies: 0,
+        humanRounds: 0,
+        humanWinsA: 0,
+        humanWinsB: 0,
+        humanTies: 0,
+      };
+      const next = {
+        modelAName: modelA.name,
+        modelBName: modelB.name,
+        rounds: base.rounds + 1,
+        aiWinsA: base.aiWinsA + (ai === "a" ? 1 : 0),
+        aiWinsB: base.aiWinsB + (ai === "b" ? 1 : 0),
+        aiTies: base.aiTies + (ai === "tie" ? 1 : 0),
+        humanRounds: base.humanRounds + (hasViewerVotes ? 1 : 0),
+        humanWinsA: base.humanWinsA + (hasViewerVotes && human === "a" ? 1 : 0),
+        humanWinsB: base.humanWinsB + (hasViewerVotes && human === "b" ? 1 : 0),
+        humanTies: base.humanTies + (hasViewerVotes && human === "tie" ? 1 : 0),
+        lastRoundId: args.roundId,
+        updatedAt: now,
+      };
+
+      if (existing) {
+        await ctx.db.patch(existing._id, next);
+      } else {
+        await ctx.db.insert("headToHead", {
+          generation: args.generation,
+          modelAId: modelA.id,
+          modelBId: modelB.id,
+          ...next,
+        });
+      }
+    }
+  }
+}
+
+async function listHeadToHeadRows(ctx: { db: any }, generation: number) {
+  return await ctx.db
+    .query("headToHead")
+    .withIndex("by_generation", (q: any) => q.eq("generation", generation))
+    .collect();
+}
+
+function rivalryMargin(record: HeadToHeadRecord): number {
+  const aiMargin = Math.abs(record.aiWinsA - record.aiWinsB) / record.rounds;
+  const humanMargin =
+    record.humanRounds > 0 ? Math.abs(record.humanWinsA - record.humanWinsB) / record.humanRounds : aiMargin;
+  return (aiMargin + humanMargin) / 2;
+}
+
+// Closest pair among enabled models, then the one with the most rounds played.
+export function pickRivalry(records: HeadToHeadRecord[], enabledModelIds: string[]): HeadToHeadRecord | null {
+  const enabled = new Set(enabledModelIds);
+  const candidates = records.filter(
+    (record) =>
+      record.rounds >= HEAD_TO_HEAD_RIVALRY_MIN_ROUNDS && enabled.has(record.modelAId) && enabled.has(record.modelBId),
+  );
+  candidates.sort((a, b) => rivalryMargin(a) - rivalryMargin(b) || b.rounds - a.rounds);
+  return candidates[0] ?? null;
+}
+
+export async function getCurrentRivalry(
+  ctx: { db: any },
+  generation: number,
+  enabledModelIds: string[],
+): Promise<HeadToHeadRecord | null> {
+  const rows = await listHeadToHeadRows(ctx, generation);
+  return pickRivalry(rows.map(toHeadToHeadRecord), enabledModelIds);
+}
+
+export const getMatrix = query({
+  args: {},
+  returns: v.any(),
+  handler: async (ctx) => {
+    const engine = await getEngineState(ctx as any);
+    const generation = engine?.generation ?? 1;
+    const catalog = await listModelCatalog(ctx as any);
+    const enabledModelIds = getEnabledModelIds(catalog);
+    const records: HeadToHeadRecord[] = (await listHeadToHeadRows(ctx, generation)).map(toHeadToHeadRecord);
+
+    const modelIds = new Set(enabledModelIds);
+    for (const record of records) {
+      modelIds.add(record.modelAId);
+      modelIds.add(record.modelBId);
+    }
+    const catalogById = new Map(catalog.map((model) => [model.modelId, model]));
+    const models = [...modelIds].map((modelId) => {
+      const model = catalogById.get(modelId);
+      const record = records.find((entry) => entry.modelAId === modelId || entry.modelBId === modelId);
+      return {
+        modelId,
+        name: model?.name ?? (record?.modelAId === modelId ? record.modelAName : record?.modelBName) ?? modelId,
+        color: model?.color,
+        logoId: model?.logoId,
+        enabled: enabledModelIds.includes(modelId),
+      };
+    });
+    models.sort((a, b) => Number(b.enabled) - Number(a.enabled) || a.name.localeCompare(b.name));
+
+    return {
+      generation,
+      models,
+      records,
+      rivalry: pickRivalry(records, enabledModelIds),
+    };
+  },
+});
+
+// Rebuilds a generation's aggregate (the current one by default) from its finished
+// rounds, e.g. after deploying this table on a season that already has rounds:
+// npx convex run headToHead:rebuildBatch '{}'
+export const rebuildBatch = internalMutation({
+  args: { generation: v.optional(v.number()), cursor: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    let generation = args.generation;
+    if (generation === undefined) {
+      const engine = await getEngineState(ctx as any);
+      generation = engine?.generation ?? 1;
+    }
+    // Only the first batch starts over; continuations carry a cursor.
+    if (args.cursor === undefined) {
+      for (const row of await listHeadToHeadRows(ctx, generation)) {
+        await ctx.db.delete(row._id);
+      }
+    }
+
+    const result = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_num", (q) => q.eq("generation", generation))
+      .paginate({ cursor: args.cursor ?? null, numItems: ROUND_PURGE_BATCH_SIZE });
+
+    for (const round of result.page) {
+      if (round.phase !== "done" || round.skipped || round.contestants.length < 2) continue;
+      const modelVotes = round.contestants.map(() => 0);
+      for (const vote of round.votes) {
+        const sideIndex = indexFromSide(vote.votedForSide);
+        if (sideIndex >= 0 && sideIndex < modelVotes.length) modelVotes[sideIndex] = (modelVotes[sideIndex] ?? 0) + 1;
+      }
+      await recordRoundHeadToHead(ctx, {
+        generation,
+        roundId: round._id,
+        contestants: round.contestants,
+        modelVotes,
+        viewerVoteCounts: getRoundViewerVoteCounts(round) ?? round.contestants.map(() => 0),
+      });
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.headToHead.rebuildBatch, {
+        generation,
+        cursor: result.continueCursor,
+      });
+    }
+    return null;
+  },
+});
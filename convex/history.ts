@@ -1,12 +1,100 @@
 import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
-import { query } from "./_generated/server";
-import { toClientRound } from "./rounds";
+import { internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { HISTORY_SEARCH_PAGE_SIZE, HISTORY_SEARCH_SCAN_LIMIT, ROUND_PURGE_BATCH_SIZE } from "./constants";
+import {
+  buildRoundSearchText,
+  decodeCompletedAtCursor,
+  encodeCompletedAtCursor,
+  getRoundScores,
+  getRoundViewerVoteCounts,
+  toClientRound,
+} from "./rounds";
+import { toClientTournament } from "./tournaments";
 import { getEngineState } from "./state";
+import { indexFromSide, resolveWinnerIndex } from "../shared/rounds";
+
+const convexInternal = internal as any;
+
+const skipFilterValidator = v.union(
+  v.literal("played"),
+  v.literal("skipped"),
+  v.literal("prompt_error"),
+  v.literal("answer_error"),
+);
+
+type HistoryFilters = {
+  contestant?: string;
+  prompter?: string;
+  judge?: string;
+  winner?: string;
+  skip?: "played" | "skipped" | "prompt_error" | "answer_error";
+  disagreement?: boolean;
+  from?: number;
+  to?: number;
+};
+
+// History rounds carry their generation so cards can link to /round/:generation/:num.
+function toHistoryRound(round: any) {
+  const client = toClientRound(round);
+  if (!client) return null;
+  return { ...client, generation: round.generation, completedAt: round.completedAt };
+}
+
+// Web votes keep the raw viewer id; chat votes are "<provider>:<id>" and votes from
+// linked accounts are "account:<id>", whatever platform they came from.
+function readVotePlatform(viewerId: string): string {
+  const separator = viewerId.indexOf(":");
+  if (separator < 0) return "web";
+  const prefix = viewerId.slice(0, separator);
+  return prefix === "account" ? "linked" : prefix;
+}
+
+function toUsageMetrics(event: any) {
+  return {
+    costUsd: event.costUsd,
+    promptTokens: event.promptTokens,
+    completionTokens: event.completionTokens,
+    totalTokens: event.totalTokens,
+    reasoningTokens: event.reasoningTokens,
+    durationMs: event.durationMsFinal,
+  };
+}
+
+function matchesSkipFilter(round: any, skip: HistoryFilters["skip"]): boolean {
+  if (!skip) return true;
+  if (skip === "played") return !round.skipped;
+  if (skip === "skipped") return Boolean(round.skipped);
+  return Boolean(round.skipped) && round.skipType === skip;
+}
+
+function matchesHistoryFilters(round: any, filters: HistoryFilters): boolean {
+  if (round.phase !== "done") return false;
+  if (filters.from !== undefined && (round.completedAt ?? 0) < filters.from) return false;
+  if (filters.to !== undefined && (round.completedAt ?? 0) > filters.to) return false;
+  if (!matchesSkipFilter(round, filters.skip)) return false;
+  if (filters.prompter && round.prompter.id !== filters.prompter) return false;
+  if (filters.contestant && !round.contestants.some((model: any) => model.id === filters.contestant)) {
+    return false;
+  }
+  if (filters.judge && !round.votes.some((vote: any) => vote.voter.id === filters.judge)) return false;
+  if (!filters.winner && !filters.disagreement) return true;
+  if (round.skipped) return false;
+
+  const aiWinnerIndex = resolveWinnerIndex(getRoundScores(round) ?? []);
+  if (filters.winner && round.contestants[aiWinnerIndex]?.id !== filters.winner) return false;
+  if (filters.disagreement) {
+    const audienceWinnerIndex = resolveWinnerIndex(getRoundViewerVoteCounts(round) ?? []);
+    if (aiWinnerIndex < 0 || audienceWinnerIndex < 0 || aiWinnerIndex === audienceWinnerIndex) return false;
+  }
+  return true;
+}
 
 export const listPaginated = query({
   args: {
     paginationOpts: paginationOptsValidator,
+    generation: v.optional(v.number()),
   },
   returns: v.any(),
   handler: async (ctx, args) => {
@@ -23,14 +111,202 @@ export const listPaginated = query({
     const result = await ctx.db
       .query("rounds")
       .withIndex("by_generation_and_completedAt", (q: any) =>
-        q.eq("generation", engine.generation),
+        q.eq("generation", args.generation ?? engine.generation),
       )
       .order("desc")
       .paginate(args.paginationOpts);
 
     return {
       ...result,
-      page: result.page.map((round: any) => toClientRound(round)).filter(Boolean),
+      page: result.page.map((round: any) => toHistoryRound(round)).filter(Boolean),
+    };
+  },
+});
+
+export const listTournaments = query({
+  args: { generation: v.optional(v.number()) },
+  returns: v.array(v.any()),
+  handler: async (ctx, args) => {
+    const engine = await getEngineState(ctx as any);
+    if (!engine) return [];
+
+    const tournaments = await ctx.db
+      .query("tournaments")
+      .withIndex("by_generation", (q: any) => q.eq("generation", args.generation ?? engine.generation))
+      .order("desc")
+      .take(10);
+
+    return tournaments
+      .filter((tournament: any) => tournament.status !== "cancelled")
+      .map((tournament: any) => toClientTournament(tournament));
+  },
+});
+
+// Filtered history pages. Without text the cursor points at the last round scanned
+// (like the public API); with text it is the search index cursor.
+export const search = query({
+  args: {
+    generation: v.optional(v.number()),
+    text: v.optional(v.string()),
+    contestant: v.optional(v.string()),
+    prompter: v.optional(v.string()),
+    judge: v.optional(v.string()),
+    winner: v.optional(v.string()),
+    skip: v.optional(skipFilterValidator),
+    disagreement: v.optional(v.boolean()),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+  },
+  returns: v.object({
+    rounds: v.array(v.any()),
+    nextCursor: v.union(v.string(), v.null()),
+  }),
+  handler: async (ctx, args) => {
+    const engine = await getEngineState(ctx as any);
+    if (!engine) return { rounds: [], nextCursor: null };
+    const generation = args.generation ?? engine.generation;
+    const text = args.text?.trim();
+
+    if (text) {
+      const result = await ctx.db
+        .query("rounds")
+        .withSearchIndex("search_text", (q) => q.search("searchText", text).eq("generation", generation))
+        .paginate({ cursor: args.cursor ?? null, numItems: HISTORY_SEARCH_PAGE_SIZE });
+      return {
+        rounds: result.page
+          .filter((round) => matchesHistoryFilters(round, args))
+          .map((round) => toHistoryRound(round)),
+        nextCursor: result.isDone ? null : result.continueCursor,
+      };
+    }
+
+    const to = args.to ?? Number.MAX_SAFE_INTEGER;
+    const after = args.cursor !== undefined ? decodeCompletedAtCursor(args.cursor) : null;
+    const upper = after ? Math.min(to, after.completedAt) : to;
+    const scanned = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_completedAt", (q) =>
+        q.eq("generation", generation).gte("completedAt", args.from ?? 0).lte("completedAt", upper),
+      )
+      .order("desc")
+      .filter((q) =>
+        after
+          ? q.or(q.lt(q.field("completedAt"), after.completedAt), q.lt(q.field("_creationTime"), after.creationTime))
+          : true,
+      )
+      .take(HISTORY_SEARCH_SCAN_LIMIT + 1);
+
+    const rounds = [];
+    let examined = 0;
+    let lastScanned: string | null = null;
+    for (const round of scanned.slice(0, HISTORY_SEARCH_SCAN_LIMIT)) {
+      examined += 1;
+      lastScanned = encodeCompletedAtCursor(round);
+      if (!matchesHistoryFilters(round, args)) continue;
+      rounds.push(toHistoryRound(round));
+      if (rounds.length === HISTORY_SEARCH_PAGE_SIZE) break;
+    }
+
+    return {
+      rounds,
+      nextCursor: examined < scanned.length ? lastScanned : null,
+    };
+  },
+});
+
+// Fills searchText on rounds finished before the search index existed:
+// npx convex run history:backfillSearchTextBatch '{}'
+export const backfillSearchTextBatch = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("rounds")
+      .paginate({ cursor: args.cursor ?? null, numItems: ROUND_PURGE_BATCH_SIZE });
+
+    for (const round of result.page) {
+      if (round.phase !== "done" || round.searchText !== undefined) continue;
+      await ctx.db.patch(round._id, { searchText: buildRoundSearchText(round) });
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.history.backfillSearchTextBatch, {
+        cursor: result.continueCursor,
+      });
+    }
+    return null;
+  },
+});
+
+export const getRound = query({
+  args: { generation: v.number(), num: v.number() },
+  returns: v.union(v.any(), v.null()),
+  handler: async (ctx, args) => {
+    const round = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_num", (q) => q.eq("generation", args.generation).eq("num", args.num))
+      .first();
+    if (!round || round.phase !== "done") return null;
+
+    const season = await ctx.db
+      .query("seasons")
+      .withIndex("by_generation", (q) => q.eq("generation", args.generation))
+      .first();
+
+    const contestantCount = round.contestants.length;
+    const viewerVotesByPlatform: Record<string, number[]> = {};
+    const votes = await ctx.db
+      .query("viewerVotes")
+      .withIndex("by_round", (q) => q.eq("roundId", round._id))
+      .collect();
+    for (const vote of votes) {
+      if (vote.excludedAt) continue;
+      const sideIndex = indexFromSide(vote.side);
+      if (sideIndex < 0 || sideIndex >= contestantCount) continue;
+      const platform = readVotePlatform(vote.viewerId);
+      const counts = viewerVotesByPlatform[platform] ?? Array.from({ length: contestantCount }, () => 0);
+      counts[sideIndex] = (counts[sideIndex] ?? 0) + 1;
+      viewerVotesByPlatform[platform] = counts;
+    }
+
+    const polls = await ctx.db
+      .query("telegramRoundPolls")
+      .withIndex("by_roundId", (q) => q.eq("roundId", round._id))
+      .collect();
+    for (const poll of polls) {
+      const optionVotes = poll.optionVotes ?? [poll.votesA, poll.votesB];
+      const counts = viewerVotesByPlatform.telegram ?? Array.from({ length: contestantCount }, () => 0);
+      optionVotes.slice(0, contestantCount).forEach((count, index) => {
+        counts[index] = (counts[index] ?? 0) + count;
+      });
+      viewerVotesByPlatform.telegram = counts;
+    }
+
+    const usage = await ctx.db
+      .query("llmUsageEvents")
+      .withIndex("by_round", (q) => q.eq("roundId", round._id))
+      .collect();
+    const voteMetrics = round.votes.map((_: unknown, index: number) => {
+      const event = usage.find((entry) => entry.requestType === "vote" && entry.voteIndex === index);
+      return event ? toUsageMetrics(event) : null;
+    });
+    const totals = usage.reduce(
+      (sum, event) => ({
+        costUsd: sum.costUsd + event.costUsd,
+        totalTokens: sum.totalTokens + event.totalTokens,
+        reasoningTokens: sum.reasoningTokens + event.reasoningTokens,
+        requests: sum.requests + 1,
+      }),
+      { costUsd: 0, totalTokens: 0, reasoningTokens: 0, requests: 0 },
+    );
+
+    return {
+      round: toHistoryRound(round),
+      seasonName: season?.name ?? null,
+      viewerVotesByPlatform,
+      voteMetrics,
+      totals: totals.requests > 0 ? totals : null,
     };
   },
 });
@@ -2,10 +2,46 @@ import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
 import { internal } from "./_generated/api";
 import {
+  MODEL_PERSONA_MAX_LENGTH,
+  isValidLlmProviderKind,
   isValidModelReasoningEffort,
   parseModelReasoningEffort,
 } from "../shared/models";
-import { FOSSABOT_VALIDATE_TIMEOUT_MS } from "../config";
+import {
+  MAX_CONTESTANTS_PER_ROUND,
+  MIN_CONTESTANTS_PER_ROUND,
+  indexFromSide,
+  parseContestantChoice,
+  sideFromIndex,
+  type ContestantSide,
+} from "../shared/rounds";
+import {
+  normalizePromptExampleInput,
+  parsePromptExamplesCsv,
+  parsePromptExamplesJson,
+  serializePromptExamplesCsv,
+} from "../shared/promptExamples";
+import { isPromptTemplateKind } from "../shared/promptTemplates";
+import { getChatStrings, isShowLanguage } from "../shared/i18n";
+import { isWebhookEventType } from "../shared/webhooks";
+import {
+  DATASET_EXPORT_CSV_COLUMNS,
+  isDatasetExportEntity,
+  isDatasetExportFormat,
+  toCsvLine,
+  type DatasetExportEntity,
+} from "../shared/datasetExport";
+import { VIEWER_OAUTH_PROVIDERS, buildOAuthAuthorizeUrl, fetchOAuthIdentity } from "./viewerOAuth";
+import { parseImportFile } from "./dataImport";
+import { decodeCompletedAtCursor } from "./rounds";
+import {
+  FOSSABOT_VALIDATE_TIMEOUT_MS,
+  IMPORT_ROUND_BATCH_SIZE,
+  PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+  PUBLIC_API_CACHE_SECONDS,
+  VIEWER_PROMPT_MAX_LENGTH,
+  VIEWER_PROMPT_MIN_LENGTH,
+} from "../config";
 const convexInternal = internal as any;
 
 const http = httpRouter();
@@ -29,7 +65,8 @@ function corsHeaders(request: Request): Record<string, string> {
     "Access-Control-Allow-Origin": allowOrigin,
     "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
     "Access-Control-Allow-Headers":
-      "Content-Type,x-admin-passcode,x-fossabot-token,x-fossabot-validateurl,x-fossabot-message-userprovider,x-fossabot-message-userproviderid,x-fossabot-message-userlogin",
+      "Content-Type,If-None-Match,x-admin-passcode,x-fossabot-token,x-fossabot-validateurl,x-fossabot-message-userprovider,x-fossabot-message-userproviderid,x-fossabot-message-userlogin",
+    "Access-Control-Expose-Headers": "ETag,Content-Disposition",
     "Access-Control-Max-Age": "86400",
     "Vary": "Origin",
   };
@@ -54,6 +91,68 @@ function text(request: Request, body: string, status: number): Response {
   });
 }
 
+// Public API responses carry a content hash as ETag so polling clients can
+// revalidate with If-None-Match and get an empty 304 while nothing changed.
+async function publicJson(request: Request, body: unknown): Promise<Response> {
+  const payload = JSON.stringify(body);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  const etag = `"${hash}"`;
+  const headers = {
+    ETag: etag,
+    "Cache-Control": `public, max-age=${PUBLIC_API_CACHE_SECONDS}`,
+    ...corsHeaders(request),
+  };
+  const ifNoneMatch = request.headers.get("if-none-match") ?? "";
+  if (ifNoneMatch.split(",").some((value) => value.trim().replace(/^W\//, "") === etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(payload, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+  });
+}
+
+function parseApiNumber(raw: string | null): number | undefined | null {
+  if (raw === null || raw.trim() === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Accepts epoch milliseconds or anything Date.parse understands (ISO dates).
+function parseApiTime(raw: string | null): number | undefined | null {
+  if (raw === null || raw.trim() === "") return undefined;
+  const numeric = Number(raw);
+  if (Number.isFinite(numeric)) return numeric;
+  const parsed = Date.parse(raw);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { Location: location } });
+}
+
+function isAllowedReturnTo(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+  // The wildcard only relaxes CORS; redirects need the origin listed explicitly.
+  return getAllowedOrigins().includes(url.origin);
+}
+
+function withLinkResult(returnTo: string, key: "linked" | "link_error", value: string): string {
+  const url = new URL(returnTo);
+  url.searchParams.set(key, value);
+  return url.toString();
+}
+
 function isAuthorized(request: Request): boolean {
   const expected = process.env.ADMIN_PASSCODE;
   if (!expected) return false;
@@ -61,11 +160,14 @@ function isAuthorized(request: Request): boolean {
   return Boolean(provided) && provided === expected;
 }
 
-function parseVote(raw: string | null): "A" | "B" | null {
-  const value = (raw ?? "").trim().toUpperCase();
-  if (value === "1" || value === "A") return "A";
-  if (value === "2" || value === "B") return "B";
-  return null;
+function parseVote(raw: string | null): ContestantSide | null {
+  return sideFromIndex(parseContestantChoice(raw));
+}
+
+function getFossabotDisplayName(request: Request): string {
+  const displayName = (request.headers.get("x-fossabot-message-userdisplayname") ?? "").trim();
+  const login = (request.headers.get("x-fossabot-message-userlogin") ?? "").trim();
+  return displayName || login;
 }
 
 function getFossabotViewerId(request: Request): string | null {
@@ -112,6 +214,26 @@ function withOptions(handler: (ctx: any, request: Request) => Promise<Response>)
   });
 }
 
+function isValidCostInput(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "number" && Number.isFinite(value) && value >= 0);
+}
+
+function isValidBudgetInput(value: unknown): value is number | null {
+  return value === null || (typeof value === "number" && Number.isFinite(value) && value > 0);
+}
+
+function isValidProviderIdInput(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === "string";
+}
+
+function isValidPersonaInput(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim().length <= MODEL_PERSONA_MAX_LENGTH)
+  );
+}
+
 async function getModelsWithUsage(ctx: any) {
   const models = await ctx.runQuery(convexInternal.models.listModels, {});
   await ctx.runMutation(convexInternal.usageBootstrap.ensureProjectionBootstrap, {});
@@ -135,6 +257,35 @@ for (const path of [
   "/admin/status",
   "/admin/models",
   "/admin/projections/settings",
+  "/admin/budgets",
+  "/admin/budgets/settings",
+  "/admin/vote-integrity",
+  "/admin/vote-integrity/settings",
+  "/admin/vote-integrity/exclude",
+  "/admin/vote-integrity/exclude-flagged",
+  "/admin/round-settings",
+  "/admin/tournament/start",
+  "/admin/tournament/cancel",
+  "/admin/fairness",
+  "/admin/viewer-prompts",
+  "/admin/prompt-examples",
+  "/admin/prompt-examples/delete",
+  "/admin/prompt-examples/import",
+  "/admin/prompt-examples/export",
+  "/admin/prompt-similarity",
+  "/admin/moderation",
+  "/admin/moderation/settings",
+  "/admin/moderation/rules",
+  "/admin/moderation/rules/delete",
+  "/admin/webhooks",
+  "/admin/webhooks/save",
+  "/admin/webhooks/delete",
+  "/admin/webhooks/test",
+  "/admin/providers",
+  "/admin/providers/delete",
+  "/admin/prompt-templates",
+  "/admin/prompt-templates/activate",
+  "/admin/viewer-prompts/review",
   "/admin/models/update",
   "/admin/models/enable",
   "/admin/models/remove",
@@ -142,9 +293,21 @@ for (const path of [
   "/admin/pause",
   "/admin/resume",
   "/admin/reset",
+  "/admin/seasons",
+  "/admin/seasons/rename",
   "/admin/export",
+  "/admin/export/dataset",
+  "/admin/import",
   "/admin/telegram/config",
   "/fossabot/vote",
+  "/fossabot/predict",
+  "/fossabot/prompt",
+  "/fossabot/link",
+  "/api/v1/rounds/current",
+  "/api/v1/rounds/lookup",
+  "/api/v1/rounds",
+  "/api/v1/models",
+  "/api/v1/standings",
 ]) {
   http.route({
     path,
@@ -174,19 +337,43 @@ http.route({
 });
 
 http.route({
-  path: "/admin/viewer-targets",
+  path: "/admin/fairness",
   method: "GET",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
       return text(request, "Unauthorized", 401);
     }
-    const targets = await ctx.runQuery(convexInternal.admin.listViewerTargets, {});
-    return json(request, { ok: true, targets });
+    const report = await ctx.runQuery(convexInternal.matchmaking.getFairnessReport, {});
+    return json(request, { ok: true, ...report });
   }),
 });
 
 http.route({
-  path: "/admin/viewer-targets",
+  path: "/admin/prompt-similarity",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const report = await ctx.runQuery(convexInternal.promptSimilarity.listFlaggedRounds, {});
+    return json(request, { ok: true, ...report });
+  }),
+});
+
+http.route({
+  path: "/admin/moderation",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const moderation = await ctx.runQuery(convexInternal.moderation.getAdminState, {});
+    return json(request, { ok: true, ...moderation });
+  }),
+});
+
+http.route({
+  path: "/admin/moderation/settings",
   method: "POST",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
@@ -200,39 +387,66 @@ http.route({
       return text(request, "Invalid JSON", 400);
     }
 
-    const payload = body as {
-      id?: string;
-      platform?: "twitch" | "youtube";
-      target?: string;
-      enabled?: boolean;
-    };
+    const payload = body as { action?: string; judgeModelId?: string | null };
+    if (payload.action !== "regenerate" && payload.action !== "replace" && payload.action !== "hold") {
+      return text(request, "Invalid action", 400);
+    }
 
-    if (payload.platform !== "twitch" && payload.platform !== "youtube") {
-      return text(request, "Invalid platform", 400);
+    try {
+      await ctx.runMutation(convexInternal.moderation.updateSettings, {
+        action: payload.action,
+        judgeModelId: typeof payload.judgeModelId === "string" ? payload.judgeModelId : null,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to update moderation", 400);
     }
 
-    if (typeof payload.target !== "string" || !payload.target.trim()) {
-      return text(request, "Invalid target", 400);
+    const moderation = await ctx.runQuery(convexInternal.moderation.getAdminState, {});
+    return json(request, { ok: true, ...moderation });
+  }),
+});
+
+http.route({
+  path: "/admin/moderation/rules",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
     }
 
+    let body: unknown;
     try {
-      await ctx.runMutation(convexInternal.admin.upsertViewerTarget, {
-        id: payload.id,
-        platform: payload.platform,
-        target: payload.target,
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { id?: string; pattern?: string; kind?: string; enabled?: boolean };
+    if (typeof payload.pattern !== "string") {
+      return text(request, "Invalid pattern", 400);
+    }
+    if (payload.kind !== "word" && payload.kind !== "regex") {
+      return text(request, "Invalid kind", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.moderation.upsertRule, {
+        id: typeof payload.id === "string" && payload.id ? payload.id : undefined,
+        pattern: payload.pattern,
+        kind: payload.kind,
         enabled: payload.enabled !== false,
       });
     } catch (error) {
-      return text(request, error instanceof Error ? error.message : "Failed to save target", 400);
+      return text(request, error instanceof Error ? error.message : "Failed to save rule", 400);
     }
 
-    const targets = await ctx.runQuery(convexInternal.admin.listViewerTargets, {});
-    return json(request, { ok: true, targets });
+    const moderation = await ctx.runQuery(convexInternal.moderation.getAdminState, {});
+    return json(request, { ok: true, ...moderation });
   }),
 });
 
 http.route({
-  path: "/admin/viewer-targets/delete",
+  path: "/admin/moderation/rules/delete",
   method: "POST",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
@@ -252,46 +466,78 @@ http.route({
     }
 
     try {
-      await ctx.runMutation(convexInternal.admin.deleteViewerTarget, {
-        id: payload.id,
-      });
+      await ctx.runMutation(convexInternal.moderation.removeRule, { id: payload.id });
     } catch (error) {
-      return text(request, error instanceof Error ? error.message : "Failed to delete target", 400);
+      return text(request, error instanceof Error ? error.message : "Failed to delete rule", 400);
     }
 
-    const targets = await ctx.runQuery(convexInternal.admin.listViewerTargets, {});
-    return json(request, { ok: true, targets });
+    const moderation = await ctx.runQuery(convexInternal.moderation.getAdminState, {});
+    return json(request, { ok: true, ...moderation });
   }),
 });
 
 http.route({
-  path: "/admin/status",
+  path: "/admin/webhooks",
   method: "GET",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
       return text(request, "Unauthorized", 401);
     }
-    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
-    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
-    return json(request, { ok: true, ...snapshot });
+    const webhooks = await ctx.runQuery(convexInternal.webhooks.getAdminState, {});
+    return json(request, { ok: true, ...webhooks });
   }),
 });
 
 http.route({
-  path: "/admin/models",
-  method: "GET",
+  path: "/admin/webhooks/save",
+  method: "POST",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
       return text(request, "Unauthorized", 401);
     }
-    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
-    const payload = await getModelsWithUsage(ctx);
-    return json(request, { ok: true, ...payload });
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as {
+      id?: string;
+      url?: string;
+      events?: unknown;
+      enabled?: boolean;
+      description?: string;
+      rotateSecret?: boolean;
+    };
+    if (typeof payload.url !== "string") {
+      return text(request, "Invalid url", 400);
+    }
+    if (!Array.isArray(payload.events) || !payload.events.every(isWebhookEventType)) {
+      return text(request, "Invalid events", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.webhooks.upsertWebhook, {
+        id: typeof payload.id === "string" && payload.id ? payload.id : undefined,
+        url: payload.url,
+        events: payload.events,
+        enabled: payload.enabled !== false,
+        description: typeof payload.description === "string" ? payload.description : undefined,
+        rotateSecret: payload.rotateSecret === true,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to save webhook", 400);
+    }
+
+    const webhooks = await ctx.runQuery(convexInternal.webhooks.getAdminState, {});
+    return json(request, { ok: true, ...webhooks });
   }),
 });
 
 http.route({
-  path: "/admin/projections/settings",
+  path: "/admin/webhooks/delete",
   method: "POST",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
@@ -305,47 +551,73 @@ http.route({
       return text(request, "Invalid JSON", 400);
     }
 
-    const payload = body as {
-      viewerVoteWindowActiveMs?: number;
-      viewerVoteWindowIdleMs?: number;
-      postRoundDelayActiveMs?: number;
-    };
+    const payload = body as { id?: string };
+    if (typeof payload.id !== "string" || !payload.id) {
+      return text(request, "Invalid id", 400);
+    }
 
-    const viewerVoteWindowActiveMs = Number(payload.viewerVoteWindowActiveMs);
-    const viewerVoteWindowIdleMs = Number(payload.viewerVoteWindowIdleMs);
-    const postRoundDelayActiveMs = Number(payload.postRoundDelayActiveMs);
+    try {
+      await ctx.runMutation(convexInternal.webhooks.removeWebhook, { id: payload.id });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to delete webhook", 400);
+    }
 
-    if (!Number.isFinite(viewerVoteWindowActiveMs) || viewerVoteWindowActiveMs < 0) {
-      return text(request, "Invalid viewerVoteWindowActiveMs", 400);
+    const webhooks = await ctx.runQuery(convexInternal.webhooks.getAdminState, {});
+    return json(request, { ok: true, ...webhooks });
+  }),
+});
+
+http.route({
+  path: "/admin/webhooks/test",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
     }
-    if (!Number.isFinite(viewerVoteWindowIdleMs) || viewerVoteWindowIdleMs < 0) {
-      return text(request, "Invalid viewerVoteWindowIdleMs", 400);
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
     }
-    if (!Number.isFinite(postRoundDelayActiveMs) || postRoundDelayActiveMs < 0) {
-      return text(request, "Invalid postRoundDelayActiveMs", 400);
+
+    const payload = body as { id?: string };
+    if (typeof payload.id !== "string" || !payload.id) {
+      return text(request, "Invalid id", 400);
     }
 
-    await ctx.runMutation(convexInternal.admin.updateProjectionTimingSettings, {
-      viewerVoteWindowActiveMs,
-      viewerVoteWindowIdleMs,
-      postRoundDelayActiveMs,
-    });
+    try {
+      await ctx.runMutation(convexInternal.webhooks.sendTestEvent, { id: payload.id });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to send test event", 400);
+    }
 
-    const modelsPayload = await getModelsWithUsage(ctx);
-    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
-    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+    const webhooks = await ctx.runQuery(convexInternal.webhooks.getAdminState, {});
+    return json(request, { ok: true, ...webhooks });
   }),
 });
 
 http.route({
-  path: "/admin/models",
+  path: "/admin/providers",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const providers = await ctx.runQuery(convexInternal.providers.listProviders, {});
+    return json(request, { ok: true, providers });
+  }),
+});
+
+http.route({
+  path: "/admin/providers",
   method: "POST",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
       return text(request, "Unauthorized", 401);
     }
 
-    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
     let body: unknown;
     try {
       body = await request.json();
@@ -354,82 +626,53 @@ http.route({
     }
 
     const payload = body as {
-      modelId?: string;
+      providerId?: string;
       name?: string;
-      color?: string;
-      logoId?: string;
-      reasoningEffort?: string | null;
-      enabled?: boolean;
-      canPrompt?: boolean;
-      canAnswer?: boolean;
-      canVote?: boolean;
+      kind?: string;
+      baseUrl?: string;
+      apiKeyEnv?: string | null;
     };
-    if (typeof payload.modelId !== "string" || !payload.modelId.trim()) {
-      return text(request, "Invalid modelId", 400);
+    if (typeof payload.providerId !== "string" || !payload.providerId.trim()) {
+      return text(request, "Invalid providerId", 400);
     }
     if (typeof payload.name !== "string" || !payload.name.trim()) {
       return text(request, "Invalid name", 400);
     }
-    if (typeof payload.color !== "string" || !payload.color.trim()) {
-      return text(request, "Invalid color", 400);
-    }
-    if (typeof payload.logoId !== "string" || !payload.logoId.trim()) {
-      return text(request, "Invalid logoId", 400);
-    }
-    if (
-      payload.reasoningEffort !== undefined &&
-      payload.reasoningEffort !== null &&
-      (typeof payload.reasoningEffort !== "string" ||
-        !isValidModelReasoningEffort(payload.reasoningEffort.trim().toLowerCase()))
-    ) {
-      return text(request, "Invalid reasoningEffort", 400);
-    }
-    if (payload.canPrompt !== undefined && typeof payload.canPrompt !== "boolean") {
-      return text(request, "Invalid canPrompt", 400);
+    if (typeof payload.kind !== "string" || !isValidLlmProviderKind(payload.kind)) {
+      return text(request, "Invalid kind", 400);
     }
-    if (payload.canAnswer !== undefined && typeof payload.canAnswer !== "boolean") {
-      return text(request, "Invalid canAnswer", 400);
+    if (typeof payload.baseUrl !== "string" || !payload.baseUrl.trim()) {
+      return text(request, "Invalid baseUrl", 400);
     }
-    if (payload.canVote !== undefined && typeof payload.canVote !== "boolean") {
-      return text(request, "Invalid canVote", 400);
+    if (payload.apiKeyEnv !== undefined && payload.apiKeyEnv !== null && typeof payload.apiKeyEnv !== "string") {
+      return text(request, "Invalid apiKeyEnv", 400);
     }
 
     try {
-      await ctx.runMutation(convexInternal.models.createModel, {
-        modelId: payload.modelId.trim(),
-        name: payload.name.trim(),
-        color: payload.color.trim(),
-        logoId: payload.logoId.trim(),
-        reasoningEffort:
-          payload.reasoningEffort === null
-            ? null
-            : typeof payload.reasoningEffort === "string"
-              ? parseModelReasoningEffort(payload.reasoningEffort)
-              : undefined,
-        enabled: payload.enabled !== false,
-        canPrompt: payload.canPrompt,
-        canAnswer: payload.canAnswer,
-        canVote: payload.canVote,
+      await ctx.runMutation(convexInternal.providers.upsertProvider, {
+        providerId: payload.providerId,
+        name: payload.name,
+        kind: payload.kind,
+        baseUrl: payload.baseUrl,
+        apiKeyEnv: payload.apiKeyEnv ?? null,
       });
     } catch (error) {
-      return text(request, error instanceof Error ? error.message : "Failed to create model", 400);
+      return text(request, error instanceof Error ? error.message : "Failed to save provider", 400);
     }
 
-    const modelsPayload = await getModelsWithUsage(ctx);
-    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
-    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+    const providers = await ctx.runQuery(convexInternal.providers.listProviders, {});
+    return json(request, { ok: true, providers });
   }),
 });
 
 http.route({
-  path: "/admin/models/update",
+  path: "/admin/providers/delete",
   method: "POST",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
       return text(request, "Unauthorized", 401);
     }
 
-    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
     let body: unknown;
     try {
       body = await request.json();
@@ -437,17 +680,587 @@ http.route({
       return text(request, "Invalid JSON", 400);
     }
 
-    const payload = body as {
-      originalModelId?: string;
-      modelId?: string;
-      name?: string;
-      color?: string;
-      logoId?: string;
-      reasoningEffort?: string | null;
-      enabled?: boolean;
+    const payload = body as { providerId?: string };
+    if (typeof payload.providerId !== "string" || !payload.providerId.trim()) {
+      return text(request, "Invalid providerId", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.providers.removeProvider, { providerId: payload.providerId.trim() });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to delete provider", 400);
+    }
+
+    const providers = await ctx.runQuery(convexInternal.providers.listProviders, {});
+    return json(request, { ok: true, providers });
+  }),
+});
+
+http.route({
+  path: "/admin/prompt-templates",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const templates = await ctx.runQuery(convexInternal.promptTemplates.getAdminState, {});
+    return json(request, { ok: true, ...templates });
+  }),
+});
+
+http.route({
+  path: "/admin/prompt-templates",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { kind?: string; system?: string; user?: string; note?: string | null };
+    if (!isPromptTemplateKind(payload.kind)) {
+      return text(request, "Invalid kind", 400);
+    }
+    if (typeof payload.system !== "string" || !payload.system.trim()) {
+      return text(request, "Invalid system", 400);
+    }
+    if (typeof payload.user !== "string" || !payload.user.trim()) {
+      return text(request, "Invalid user", 400);
+    }
+    if (payload.note !== undefined && payload.note !== null && typeof payload.note !== "string") {
+      return text(request, "Invalid note", 400);
+    }
+
+    let version: number;
+    try {
+      version = await ctx.runMutation(convexInternal.promptTemplates.saveVersion, {
+        kind: payload.kind,
+        system: payload.system,
+        user: payload.user,
+        ...(payload.note ? { note: payload.note } : {}),
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to save template", 400);
+    }
+
+    const templates = await ctx.runQuery(convexInternal.promptTemplates.getAdminState, {});
+    return json(request, { ok: true, version, ...templates });
+  }),
+});
+
+http.route({
+  path: "/admin/prompt-templates/activate",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { kind?: string; version?: number };
+    if (!isPromptTemplateKind(payload.kind)) {
+      return text(request, "Invalid kind", 400);
+    }
+    if (typeof payload.version !== "number" || !Number.isInteger(payload.version) || payload.version < 1) {
+      return text(request, "Invalid version", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.promptTemplates.activateVersion, {
+        kind: payload.kind,
+        version: payload.version,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to activate template", 400);
+    }
+
+    const templates = await ctx.runQuery(convexInternal.promptTemplates.getAdminState, {});
+    return json(request, { ok: true, ...templates });
+  }),
+});
+
+http.route({
+  path: "/admin/viewer-targets",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const targets = await ctx.runQuery(convexInternal.admin.listViewerTargets, {});
+    return json(request, { ok: true, targets });
+  }),
+});
+
+http.route({
+  path: "/admin/viewer-targets",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as {
+      id?: string;
+      platform?: "twitch" | "youtube";
+      target?: string;
+      enabled?: boolean;
+    };
+
+    if (payload.platform !== "twitch" && payload.platform !== "youtube") {
+      return text(request, "Invalid platform", 400);
+    }
+
+    if (typeof payload.target !== "string" || !payload.target.trim()) {
+      return text(request, "Invalid target", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.admin.upsertViewerTarget, {
+        id: payload.id,
+        platform: payload.platform,
+        target: payload.target,
+        enabled: payload.enabled !== false,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to save target", 400);
+    }
+
+    const targets = await ctx.runQuery(convexInternal.admin.listViewerTargets, {});
+    return json(request, { ok: true, targets });
+  }),
+});
+
+http.route({
+  path: "/admin/viewer-targets/delete",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { id?: string };
+    if (typeof payload.id !== "string" || !payload.id) {
+      return text(request, "Invalid id", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.admin.deleteViewerTarget, {
+        id: payload.id,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to delete target", 400);
+    }
+
+    const targets = await ctx.runQuery(convexInternal.admin.listViewerTargets, {});
+    return json(request, { ok: true, targets });
+  }),
+});
+
+http.route({
+  path: "/admin/status",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/models",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
+    const payload = await getModelsWithUsage(ctx);
+    return json(request, { ok: true, ...payload });
+  }),
+});
+
+http.route({
+  path: "/admin/projections/settings",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as {
+      viewerVoteWindowActiveMs?: number;
+      viewerVoteWindowIdleMs?: number;
+      postRoundDelayActiveMs?: number;
+    };
+
+    const viewerVoteWindowActiveMs = Number(payload.viewerVoteWindowActiveMs);
+    const viewerVoteWindowIdleMs = Number(payload.viewerVoteWindowIdleMs);
+    const postRoundDelayActiveMs = Number(payload.postRoundDelayActiveMs);
+
+    if (!Number.isFinite(viewerVoteWindowActiveMs) || viewerVoteWindowActiveMs < 0) {
+      return text(request, "Invalid viewerVoteWindowActiveMs", 400);
+    }
+    if (!Number.isFinite(viewerVoteWindowIdleMs) || viewerVoteWindowIdleMs < 0) {
+      return text(request, "Invalid viewerVoteWindowIdleMs", 400);
+    }
+    if (!Number.isFinite(postRoundDelayActiveMs) || postRoundDelayActiveMs < 0) {
+      return text(request, "Invalid postRoundDelayActiveMs", 400);
+    }
+
+    await ctx.runMutation(convexInternal.admin.updateProjectionTimingSettings, {
+      viewerVoteWindowActiveMs,
+      viewerVoteWindowIdleMs,
+      postRoundDelayActiveMs,
+    });
+
+    const modelsPayload = await getModelsWithUsage(ctx);
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/budgets",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const budgets = await ctx.runQuery(convexInternal.budgets.getAdminState, {});
+    return json(request, { ok: true, ...budgets });
+  }),
+});
+
+http.route({
+  path: "/admin/budgets/settings",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as {
+      hourlyUsd?: unknown;
+      dailyUsd?: unknown;
+      monthlyUsd?: unknown;
+      modelDailyUsd?: unknown;
+    };
+    const limits = {
+      hourlyUsd: payload.hourlyUsd ?? null,
+      dailyUsd: payload.dailyUsd ?? null,
+      monthlyUsd: payload.monthlyUsd ?? null,
+      modelDailyUsd: payload.modelDailyUsd ?? null,
+    };
+    for (const [key, value] of Object.entries(limits)) {
+      if (!isValidBudgetInput(value)) {
+        return text(request, `Invalid ${key}`, 400);
+      }
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.budgets.updateSettings, limits);
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to update budgets", 400);
+    }
+
+    const budgets = await ctx.runQuery(convexInternal.budgets.getAdminState, {});
+    return json(request, { ok: true, ...budgets });
+  }),
+});
+
+http.route({
+  path: "/admin/vote-integrity",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const integrity = await ctx.runQuery(convexInternal.voteIntegrity.getAdminState, {});
+    return json(request, { ok: true, ...integrity });
+  }),
+});
+
+http.route({
+  path: "/admin/vote-integrity/settings",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { challengeBits?: unknown };
+    if (typeof payload.challengeBits !== "number" || !Number.isFinite(payload.challengeBits)) {
+      return text(request, "Invalid challengeBits", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.voteIntegrity.updateSettings, {
+        challengeBits: payload.challengeBits,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to update vote integrity", 400);
+    }
+
+    const integrity = await ctx.runQuery(convexInternal.voteIntegrity.getAdminState, {});
+    return json(request, { ok: true, ...integrity });
+  }),
+});
+
+http.route({
+  path: "/admin/vote-integrity/exclude",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { voteId?: string; excluded?: boolean };
+    if (typeof payload.voteId !== "string" || !payload.voteId) {
+      return text(request, "Invalid voteId", 400);
+    }
+    if (typeof payload.excluded !== "boolean") {
+      return text(request, "Invalid excluded", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.viewers.setVoteExcluded, {
+        voteId: payload.voteId,
+        excluded: payload.excluded,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to update vote", 400);
+    }
+
+    const integrity = await ctx.runQuery(convexInternal.voteIntegrity.getAdminState, {});
+    return json(request, { ok: true, ...integrity });
+  }),
+});
+
+http.route({
+  path: "/admin/vote-integrity/exclude-flagged",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { roundId?: string };
+    if (typeof payload.roundId !== "string" || !payload.roundId) {
+      return text(request, "Invalid roundId", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.viewers.excludeFlaggedVotes, {
+        roundId: payload.roundId,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to exclude votes", 400);
+    }
+
+    const integrity = await ctx.runQuery(convexInternal.voteIntegrity.getAdminState, {});
+    return json(request, { ok: true, ...integrity });
+  }),
+});
+
+http.route({
+  path: "/admin/models",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as {
+      modelId?: string;
+      name?: string;
+      color?: string;
+      logoId?: string;
+      reasoningEffort?: string | null;
+      enabled?: boolean;
+      canPrompt?: boolean;
+      canAnswer?: boolean;
+      canVote?: boolean;
+      providerId?: string | null;
+      inputCostPerMillionUsd?: number | null;
+      outputCostPerMillionUsd?: number | null;
+      persona?: string | null;
+    };
+    if (typeof payload.modelId !== "string" || !payload.modelId.trim()) {
+      return text(request, "Invalid modelId", 400);
+    }
+    if (typeof payload.name !== "string" || !payload.name.trim()) {
+      return text(request, "Invalid name", 400);
+    }
+    if (typeof payload.color !== "string" || !payload.color.trim()) {
+      return text(request, "Invalid color", 400);
+    }
+    if (typeof payload.logoId !== "string" || !payload.logoId.trim()) {
+      return text(request, "Invalid logoId", 400);
+    }
+    if (
+      payload.reasoningEffort !== undefined &&
+      payload.reasoningEffort !== null &&
+      (typeof payload.reasoningEffort !== "string" ||
+        !isValidModelReasoningEffort(payload.reasoningEffort.trim().toLowerCase()))
+    ) {
+      return text(request, "Invalid reasoningEffort", 400);
+    }
+    if (payload.canPrompt !== undefined && typeof payload.canPrompt !== "boolean") {
+      return text(request, "Invalid canPrompt", 400);
+    }
+    if (payload.canAnswer !== undefined && typeof payload.canAnswer !== "boolean") {
+      return text(request, "Invalid canAnswer", 400);
+    }
+    if (payload.canVote !== undefined && typeof payload.canVote !== "boolean") {
+      return text(request, "Invalid canVote", 400);
+    }
+    if (!isValidProviderIdInput(payload.providerId)) {
+      return text(request, "Invalid providerId", 400);
+    }
+    if (!isValidCostInput(payload.inputCostPerMillionUsd)) {
+      return text(request, "Invalid inputCostPerMillionUsd", 400);
+    }
+    if (!isValidCostInput(payload.outputCostPerMillionUsd)) {
+      return text(request, "Invalid outputCostPerMillionUsd", 400);
+    }
+    if (!isValidPersonaInput(payload.persona)) {
+      return text(request, "Invalid persona", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.models.createModel, {
+        modelId: payload.modelId.trim(),
+        name: payload.name.trim(),
+        color: payload.color.trim(),
+        logoId: payload.logoId.trim(),
+        reasoningEffort:
+          payload.reasoningEffort === null
+            ? null
+            : typeof payload.reasoningEffort === "string"
+              ? parseModelReasoningEffort(payload.reasoningEffort)
+              : undefined,
+        enabled: payload.enabled !== false,
+        canPrompt: payload.canPrompt,
+        canAnswer: payload.canAnswer,
+        canVote: payload.canVote,
+        providerId: payload.providerId,
+        inputCostPerMillionUsd: payload.inputCostPerMillionUsd,
+        outputCostPerMillionUsd: payload.outputCostPerMillionUsd,
+        persona: payload.persona,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to create model", 400);
+    }
+
+    const modelsPayload = await getModelsWithUsage(ctx);
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/models/update",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as {
+      originalModelId?: string;
+      modelId?: string;
+      name?: string;
+      color?: string;
+      logoId?: string;
+      reasoningEffort?: string | null;
+      enabled?: boolean;
       canPrompt?: boolean;
       canAnswer?: boolean;
       canVote?: boolean;
+      providerId?: string | null;
+      inputCostPerMillionUsd?: number | null;
+      outputCostPerMillionUsd?: number | null;
+      persona?: string | null;
     };
 
     if (typeof payload.originalModelId !== "string" || !payload.originalModelId.trim()) {
@@ -485,6 +1298,18 @@ http.route({
     if (payload.canVote !== undefined && typeof payload.canVote !== "boolean") {
       return text(request, "Invalid canVote", 400);
     }
+    if (!isValidProviderIdInput(payload.providerId)) {
+      return text(request, "Invalid providerId", 400);
+    }
+    if (!isValidCostInput(payload.inputCostPerMillionUsd)) {
+      return text(request, "Invalid inputCostPerMillionUsd", 400);
+    }
+    if (!isValidCostInput(payload.outputCostPerMillionUsd)) {
+      return text(request, "Invalid outputCostPerMillionUsd", 400);
+    }
+    if (!isValidPersonaInput(payload.persona)) {
+      return text(request, "Invalid persona", 400);
+    }
 
     try {
       await ctx.runMutation(convexInternal.models.updateModel, {
@@ -503,6 +1328,10 @@ http.route({
         canPrompt: payload.canPrompt,
         canAnswer: payload.canAnswer,
         canVote: payload.canVote,
+        providerId: payload.providerId,
+        inputCostPerMillionUsd: payload.inputCostPerMillionUsd,
+        outputCostPerMillionUsd: payload.outputCostPerMillionUsd,
+        persona: payload.persona,
       });
     } catch (error) {
       return text(request, error instanceof Error ? error.message : "Failed to update model", 400);
@@ -544,23 +1373,293 @@ http.route({
         enabled: payload.enabled,
       });
     } catch (error) {
-      return text(request, error instanceof Error ? error.message : "Failed to update model", 400);
+      return text(request, error instanceof Error ? error.message : "Failed to update model", 400);
+    }
+
+    const modelsPayload = await getModelsWithUsage(ctx);
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/models/remove",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { modelId?: string };
+    if (typeof payload.modelId !== "string" || !payload.modelId.trim()) {
+      return text(request, "Invalid modelId", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.models.archiveModel, {
+        modelId: payload.modelId.trim(),
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to remove model", 400);
+    }
+
+    const modelsPayload = await getModelsWithUsage(ctx);
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/models/restore",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { modelId?: string; enabled?: boolean };
+    if (typeof payload.modelId !== "string" || !payload.modelId.trim()) {
+      return text(request, "Invalid modelId", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.models.restoreModel, {
+        modelId: payload.modelId.trim(),
+        enabled: payload.enabled,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to restore model", 400);
+    }
+
+    const modelsPayload = await getModelsWithUsage(ctx);
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/round-settings",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { contestantsPerRound?: number; showLanguage?: unknown };
+    if (payload.contestantsPerRound === undefined && payload.showLanguage === undefined) {
+      return text(request, "Missing contestantsPerRound or showLanguage", 400);
+    }
+
+    let contestantsPerRound: number | undefined;
+    if (payload.contestantsPerRound !== undefined) {
+      contestantsPerRound = Number(payload.contestantsPerRound);
+      if (
+        !Number.isInteger(contestantsPerRound) ||
+        contestantsPerRound < MIN_CONTESTANTS_PER_ROUND ||
+        contestantsPerRound > MAX_CONTESTANTS_PER_ROUND
+      ) {
+        return text(request, "Invalid contestantsPerRound", 400);
+      }
+    }
+
+    if (payload.showLanguage !== undefined && !isShowLanguage(payload.showLanguage)) {
+      return text(request, "Invalid showLanguage", 400);
+    }
+
+    await ctx.runMutation(convexInternal.admin.updateRoundSettings, {
+      contestantsPerRound,
+      showLanguage: payload.showLanguage,
+    });
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/tournament/start",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { modelIds?: unknown; format?: unknown; bestOf?: unknown };
+    if (!Array.isArray(payload.modelIds) || payload.modelIds.some((id) => typeof id !== "string")) {
+      return text(request, "Invalid modelIds", 400);
+    }
+    if (payload.format !== "single_elimination" && payload.format !== "double_elimination") {
+      return text(request, "Invalid format", 400);
+    }
+    const bestOf = Number(payload.bestOf ?? 1);
+    if (!Number.isInteger(bestOf)) {
+      return text(request, "Invalid bestOf", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.tournaments.startTournament, {
+        modelIds: payload.modelIds,
+        format: payload.format,
+        bestOf,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to start tournament", 400);
+    }
+
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/tournament/cancel",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    await ctx.runMutation(convexInternal.tournaments.cancelTournament, {});
+    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
+    return json(request, { ok: true, ...snapshot });
+  }),
+});
+
+http.route({
+  path: "/admin/viewer-prompts",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const prompts = await ctx.runQuery(convexInternal.viewerPrompts.listForAdmin, {});
+    return json(request, { ok: true, ...prompts });
+  }),
+});
+
+http.route({
+  path: "/admin/viewer-prompts/review",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { id?: string; status?: string };
+    if (typeof payload.id !== "string" || !payload.id) {
+      return text(request, "Invalid id", 400);
+    }
+    if (payload.status !== "approved" && payload.status !== "rejected") {
+      return text(request, "Invalid status", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.viewerPrompts.review, {
+        id: payload.id,
+        status: payload.status,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to review prompt", 400);
+    }
+
+    const prompts = await ctx.runQuery(convexInternal.viewerPrompts.listForAdmin, {});
+    return json(request, { ok: true, ...prompts });
+  }),
+});
+
+http.route({
+  path: "/admin/prompt-examples",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const examples = await ctx.runQuery(convexInternal.promptExamples.list, {});
+    return json(request, { ok: true, examples });
+  }),
+});
+
+http.route({
+  path: "/admin/prompt-examples",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = (body ?? {}) as Record<string, unknown>;
+    const example = normalizePromptExampleInput(payload, PROMPT_EXAMPLE_DEFAULT_LANGUAGE);
+    if (!example) {
+      return text(request, "Invalid text", 400);
+    }
+    if (payload.id !== undefined && typeof payload.id !== "string") {
+      return text(request, "Invalid id", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.promptExamples.upsert, {
+        id: payload.id || undefined,
+        example,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to save example", 400);
     }
 
-    const modelsPayload = await getModelsWithUsage(ctx);
-    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
-    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+    const examples = await ctx.runQuery(convexInternal.promptExamples.list, {});
+    return json(request, { ok: true, examples });
   }),
 });
 
 http.route({
-  path: "/admin/models/remove",
+  path: "/admin/prompt-examples/delete",
   method: "POST",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
       return text(request, "Unauthorized", 401);
     }
-    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
 
     let body: unknown;
     try {
@@ -569,33 +1668,29 @@ http.route({
       return text(request, "Invalid JSON", 400);
     }
 
-    const payload = body as { modelId?: string };
-    if (typeof payload.modelId !== "string" || !payload.modelId.trim()) {
-      return text(request, "Invalid modelId", 400);
+    const payload = body as { id?: string };
+    if (typeof payload.id !== "string" || !payload.id) {
+      return text(request, "Invalid id", 400);
     }
 
     try {
-      await ctx.runMutation(convexInternal.models.archiveModel, {
-        modelId: payload.modelId.trim(),
-      });
+      await ctx.runMutation(convexInternal.promptExamples.remove, { id: payload.id });
     } catch (error) {
-      return text(request, error instanceof Error ? error.message : "Failed to remove model", 400);
+      return text(request, error instanceof Error ? error.message : "Failed to delete example", 400);
     }
 
-    const modelsPayload = await getModelsWithUsage(ctx);
-    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
-    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+    const examples = await ctx.runQuery(convexInternal.promptExamples.list, {});
+    return json(request, { ok: true, examples });
   }),
 });
 
 http.route({
-  path: "/admin/models/restore",
+  path: "/admin/prompt-examples/import",
   method: "POST",
   handler: withOptions(async (ctx, request) => {
     if (!isAuthorized(request)) {
       return text(request, "Unauthorized", 401);
     }
-    await ctx.runMutation(convexInternal.models.ensureModelCatalogSeeded, {});
 
     let body: unknown;
     try {
@@ -604,23 +1699,60 @@ http.route({
       return text(request, "Invalid JSON", 400);
     }
 
-    const payload = body as { modelId?: string; enabled?: boolean };
-    if (typeof payload.modelId !== "string" || !payload.modelId.trim()) {
-      return text(request, "Invalid modelId", 400);
+    const payload = body as { format?: string; content?: string };
+    if (payload.format !== "json" && payload.format !== "csv") {
+      return text(request, "Invalid format", 400);
+    }
+    if (typeof payload.content !== "string" || !payload.content.trim()) {
+      return text(request, "Invalid content", 400);
     }
 
     try {
-      await ctx.runMutation(convexInternal.models.restoreModel, {
-        modelId: payload.modelId.trim(),
-        enabled: payload.enabled,
+      const parsed =
+        payload.format === "csv" ? parsePromptExamplesCsv(payload.content) : parsePromptExamplesJson(payload.content);
+      const rows = parsed
+        .map((row) => normalizePromptExampleInput(row, PROMPT_EXAMPLE_DEFAULT_LANGUAGE))
+        .filter((row): row is NonNullable<typeof row> => row !== null);
+      const result = await ctx.runMutation(convexInternal.promptExamples.importRows, { rows });
+      const examples = await ctx.runQuery(convexInternal.promptExamples.list, {});
+      return json(request, {
+        ok: true,
+        ...result,
+        skipped: parsed.length - rows.length,
+        examples,
       });
     } catch (error) {
-      return text(request, error instanceof Error ? error.message : "Failed to restore model", 400);
+      return text(request, error instanceof Error ? error.message : "Failed to import examples", 400);
+    }
+  }),
+});
+
+http.route({
+  path: "/admin/prompt-examples/export",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
     }
 
-    const modelsPayload = await getModelsWithUsage(ctx);
-    const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
-    return json(request, { ok: true, ...modelsPayload, ...snapshot });
+    const format = new URL(request.url).searchParams.get("format") === "csv" ? "csv" : "json";
+    const rows = (await ctx.runQuery(convexInternal.promptExamples.list, {})) as any[];
+    const examples = rows.map((row) => ({
+      text: row.text,
+      category: row.category,
+      tags: row.tags,
+      language: row.language,
+      enabled: row.enabled,
+    }));
+    const body = format === "csv" ? serializePromptExamplesCsv(examples) : JSON.stringify(examples, null, 2);
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+        "Content-Disposition": `attachment; filename="tokenscomedyclub-prompt-examples-${Date.now()}.${format}"`,
+        ...corsHeaders(request),
+      },
+    });
   }),
 });
 
@@ -657,12 +1789,72 @@ http.route({
     if (!isAuthorized(request)) {
       return text(request, "Unauthorized", 401);
     }
-    await ctx.runMutation(convexInternal.admin.reset, {});
+    // Older clients post without a body; treat that as a full purge.
+    const raw = await request.text();
+    let payload: { keepHistory?: boolean } = {};
+    if (raw.trim()) {
+      try {
+        payload = JSON.parse(raw) as { keepHistory?: boolean };
+      } catch {
+        return text(request, "Invalid JSON", 400);
+      }
+    }
+
+    await ctx.runMutation(convexInternal.admin.reset, { keepHistory: payload.keepHistory === true });
     const snapshot = await ctx.runMutation(convexInternal.admin.getSnapshot, {});
     return json(request, { ok: true, ...snapshot });
   }),
 });
 
+http.route({
+  path: "/admin/seasons",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+    const seasons = await ctx.runQuery(convexInternal.seasons.getAdminState, {});
+    return json(request, { ok: true, ...seasons });
+  }),
+});
+
+http.route({
+  path: "/admin/seasons/rename",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as { generation?: unknown; name?: unknown };
+    if (typeof payload.generation !== "number" || !Number.isInteger(payload.generation)) {
+      return text(request, "Invalid generation", 400);
+    }
+    if (typeof payload.name !== "string") {
+      return text(request, "Invalid name", 400);
+    }
+
+    try {
+      await ctx.runMutation(convexInternal.seasons.rename, {
+        generation: payload.generation,
+        name: payload.name,
+      });
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to rename season", 400);
+    }
+
+    const seasons = await ctx.runQuery(convexInternal.seasons.getAdminState, {});
+    return json(request, { ok: true, ...seasons });
+  }),
+});
+
 http.route({
   path: "/admin/export",
   method: "GET",
@@ -683,6 +1875,215 @@ http.route({
   }),
 });
 
+http.route({
+  path: "/admin/import",
+  method: "POST",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return text(request, "Invalid JSON", 400);
+    }
+
+    const payload = body as {
+      file?: unknown;
+      dryRun?: boolean;
+      keepHistory?: boolean;
+      sections?: { models?: boolean; viewerTargets?: boolean; telegram?: boolean; rounds?: boolean };
+    };
+    const sections = {
+      models: payload.sections?.models === true,
+      viewerTargets: payload.sections?.viewerTargets === true,
+      telegram: payload.sections?.telegram === true,
+      rounds: payload.sections?.rounds === true,
+    };
+    const dryRun = payload.dryRun !== false;
+    const parsed = parseImportFile(payload.file);
+    for (let index = 0; index < parsed.rounds.length; index += IMPORT_ROUND_BATCH_SIZE) {
+      const batch = parsed.rounds.slice(index, index + IMPORT_ROUND_BATCH_SIZE);
+      try {
+        await ctx.runQuery(convexInternal.dataImport.validateRoundBatch, { rounds: batch });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "rodada invalida";
+        parsed.errors.push(`rodadas ${batch[0].num}-${batch[batch.length - 1].num}: ${message.slice(0, 300)}`);
+      }
+    }
+    const plan = await ctx.runQuery(convexInternal.dataImport.preview, {
+      models: parsed.models,
+      viewerTargets: parsed.viewerTargets,
+    });
+    const diff = {
+      exportedAt: parsed.exportedAt,
+      errors: parsed.errors,
+      models: plan.models,
+      viewerTargets: plan.viewerTargets,
+      telegram: {
+        current: plan.telegram,
+        incoming: parsed.telegram,
+        hasToken: plan.hasTelegramToken,
+      },
+      rounds: {
+        count: parsed.rounds.length,
+        ignored: parsed.skippedRounds,
+        currentGeneration: plan.generation,
+        currentCompletedRounds: plan.completedRounds,
+        nextGeneration: plan.generation + 1,
+      },
+    };
+
+    if (dryRun) {
+      return json(request, { ok: true, dryRun: true, sections, diff });
+    }
+    if (parsed.errors.length > 0) {
+      return text(request, `Arquivo invalido: ${parsed.errors.slice(0, 5).join("; ")}`, 400);
+    }
+    if (!Object.values(sections).some(Boolean)) {
+      return text(request, "Selecione ao menos uma parte para restaurar", 400);
+    }
+
+    const result: Record<string, unknown> = {};
+    try {
+      if (sections.models) {
+        result.models = await ctx.runMutation(convexInternal.dataImport.importModels, { models: parsed.models });
+      }
+      if (sections.viewerTargets) {
+        result.viewerTargets = await ctx.runMutation(convexInternal.dataImport.importViewerTargets, {
+          viewerTargets: parsed.viewerTargets,
+        });
+      }
+      if (sections.telegram && parsed.telegram) {
+        await ctx.runMutation(convexInternal.admin.updateTelegramConfig, {
+          enabled: parsed.telegram.enabled && plan.hasTelegramToken,
+          channelId: parsed.telegram.channelId,
+        });
+        result.telegram = { restored: true, enabled: parsed.telegram.enabled && plan.hasTelegramToken };
+      }
+      if (sections.rounds && parsed.rounds.length > 0) {
+        const { generation } = await ctx.runMutation(convexInternal.admin.reset, {
+          keepHistory: payload.keepHistory !== false,
+        });
+        let imported = 0;
+        for (let index = 0; index < parsed.rounds.length; index += IMPORT_ROUND_BATCH_SIZE) {
+          const batch = await ctx.runMutation(convexInternal.dataImport.importRoundBatch, {
+            generation,
+            rounds: parsed.rounds.slice(index, index + IMPORT_ROUND_BATCH_SIZE),
+          });
+          imported += batch.imported;
+        }
+        result.rounds = { generation, imported };
+      }
+    } catch (error) {
+      return text(request, error instanceof Error ? error.message : "Failed to import", 400);
+    }
+
+    return json(request, { ok: true, dryRun: false, sections, diff, result });
+  }),
+});
+
+http.route({
+  path: "/admin/export/dataset",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    if (!isAuthorized(request)) {
+      return text(request, "Unauthorized", 401);
+    }
+
+    const url = new URL(request.url);
+    const format = url.searchParams.get("format") ?? "jsonl";
+    if (!isDatasetExportFormat(format)) {
+      return text(request, "Invalid format", 400);
+    }
+    const entities = (url.searchParams.get("entities") ?? "rounds")
+      .split(",")
+      .map((entity) => entity.trim())
+      .filter(Boolean);
+    if (entities.length === 0 || !entities.every(isDatasetExportEntity)) {
+      return text(request, "Invalid entities", 400);
+    }
+    if (format === "csv" && entities.length !== 1) {
+      return text(request, "CSV exports one entity at a time", 400);
+    }
+
+    const currentGeneration = await ctx.runQuery(convexInternal.datasetExport.getCurrentGeneration, {});
+    const fromGeneration = Number(url.searchParams.get("fromGeneration") ?? currentGeneration);
+    const toGeneration = Number(url.searchParams.get("toGeneration") ?? currentGeneration);
+    if (
+      !Number.isInteger(fromGeneration) ||
+      !Number.isInteger(toGeneration) ||
+      fromGeneration < 1 ||
+      toGeneration < fromGeneration
+    ) {
+      return text(request, "Invalid generation range", 400);
+    }
+
+    const sources: Array<DatasetExportEntity | "preferences"> =
+      format === "preferences" ? ["preferences"] : [...new Set(entities as DatasetExportEntity[])];
+    const encoder = new TextEncoder();
+    let sourceIndex = 0;
+    let generation = fromGeneration;
+    let cursor: string | null = null;
+    let wroteCsvHeader = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const source = sources[sourceIndex];
+          if (!source) {
+            controller.close();
+            return;
+          }
+          if (format === "csv" && source !== "preferences" && !wroteCsvHeader) {
+            wroteCsvHeader = true;
+            controller.enqueue(encoder.encode(toCsvLine(DATASET_EXPORT_CSV_COLUMNS[source])));
+            return;
+          }
+
+          const page = await ctx.runQuery(convexInternal.datasetExport.readPage, { source, generation, cursor });
+          const chunk = page.rows
+            .map((row: Record<string, unknown>) =>
+              format === "csv" && source !== "preferences"
+                ? toCsvLine(DATASET_EXPORT_CSV_COLUMNS[source], row)
+                : `${JSON.stringify(source === "preferences" ? row : { entity: source, ...row })}\n`,
+            )
+            .join("");
+          if (chunk) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+
+          if (!page.isDone) {
+            cursor = page.continueCursor;
+          } else if (generation < toGeneration) {
+            generation += 1;
+            cursor = null;
+          } else {
+            sourceIndex += 1;
+            generation = fromGeneration;
+            cursor = null;
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+
+    const extension = format === "csv" ? "csv" : "jsonl";
+    const label = format === "preferences" ? "preferences" : sources.join("-");
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+        "Content-Disposition": `attachment; filename="tokenscomedyclub-${label}-g${fromGeneration}-${toGeneration}-${Date.now()}.${extension}"`,
+        ...corsHeaders(request),
+      },
+    });
+  }),
+});
+
 http.route({
   path: "/admin/telegram/config",
   method: "GET",
@@ -743,20 +2144,21 @@ http.route({
   path: "/fossabot/vote",
   method: "GET",
   handler: withOptions(async (ctx, request) => {
+    const strings = getChatStrings(await ctx.runQuery(convexInternal.live.getShowLanguageInternal, {}));
     const valid = await validateFossabotRequest(request);
     if (!valid) {
-      return text(request, "voto rejeitado", 403);
+      return text(request, strings.voteRejected, 403);
     }
 
     const viewerId = getFossabotViewerId(request);
     if (!viewerId) {
-      return text(request, "usuario invalido", 400);
+      return text(request, strings.invalidUser, 400);
     }
 
     const url = new URL(request.url);
     const side = parseVote(url.searchParams.get("vote"));
     if (!side) {
-      return text(request, "vote com 1 ou 2", 400);
+      return text(request, strings.voteUsage(MAX_CONTESTANTS_PER_ROUND), 400);
     }
 
     await ctx.runMutation(convexInternal.live.ensureStartedInternal, {});
@@ -765,19 +2167,272 @@ http.route({
       side,
     });
 
+    if (result.status === "invalid") {
+      return text(request, strings.voteInvalidOption, 200);
+    }
+    if (!result.ok) {
+      return text(request, strings.voteUnavailable, 200);
+    }
+
+    const choice = indexFromSide(side) + 1;
+    if (result.status === "updated") {
+      return text(request, strings.voteChanged(choice), 200);
+    }
+    if (result.status === "unchanged") {
+      return text(request, strings.voteUnchanged(choice), 200);
+    }
+    return text(request, strings.voteRecorded(choice), 200);
+  }),
+});
+
+http.route({
+  path: "/fossabot/predict",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    const strings = getChatStrings(await ctx.runQuery(convexInternal.live.getShowLanguageInternal, {}));
+    const valid = await validateFossabotRequest(request);
+    if (!valid) {
+      return text(request, strings.predictRejected, 403);
+    }
+
+    const viewerId = getFossabotViewerId(request);
+    if (!viewerId) {
+      return text(request, strings.invalidUser, 400);
+    }
+
+    const url = new URL(request.url);
+    const side = parseVote(url.searchParams.get("pick"));
+    if (!side) {
+      return text(request, strings.predictUsage(MAX_CONTESTANTS_PER_ROUND), 400);
+    }
+
+    const result = await ctx.runMutation(convexInternal.predictions.predictInternal, {
+      viewerId,
+      side,
+      name: getFossabotDisplayName(request) || undefined,
+    });
+
+    if (result.status === "invalid") {
+      return text(request, strings.voteInvalidOption, 200);
+    }
     if (!result.ok) {
-      return text(request, "votacao indisponivel", 200);
+      return text(request, strings.predictClosed, 200);
     }
 
+    const choice = indexFromSide(side) + 1;
     if (result.status === "updated") {
-      return text(request, side === "A" ? "voto alterado para 1" : "voto alterado para 2", 200);
+      return text(request, strings.predictChanged(choice), 200);
     }
     if (result.status === "unchanged") {
-      return text(request, side === "A" ? "voto 1 ja registrado" : "voto 2 ja registrado", 200);
+      return text(request, strings.predictUnchanged(choice), 200);
+    }
+    return text(request, strings.predictRecorded(choice), 200);
+  }),
+});
+
+http.route({
+  path: "/fossabot/prompt",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    const strings = getChatStrings(await ctx.runQuery(convexInternal.live.getShowLanguageInternal, {}));
+    const valid = await validateFossabotRequest(request);
+    if (!valid) {
+      return text(request, strings.promptRejected, 403);
+    }
+
+    const viewerId = getFossabotViewerId(request);
+    const displayName = getFossabotDisplayName(request);
+    if (!viewerId || !displayName) {
+      return text(request, strings.invalidUser, 400);
+    }
+
+    const url = new URL(request.url);
+    const result = await ctx.runMutation(convexInternal.viewerPrompts.submitInternal, {
+      submitterId: viewerId,
+      submitterName: displayName,
+      text: url.searchParams.get("text") ?? "",
+      source: "chat",
+    });
+
+    if (result.status === "invalid") {
+      return text(request, strings.promptInvalidLength(VIEWER_PROMPT_MIN_LENGTH, VIEWER_PROMPT_MAX_LENGTH), 200);
+    }
+    if (result.status === "limit") {
+      return text(request, strings.promptLimit, 200);
+    }
+    if (result.status === "duplicate") {
+      return text(request, strings.promptDuplicate, 200);
     }
-    return text(request, side === "A" ? "voto 1 registrado" : "voto 2 registrado", 200);
+    return text(request, strings.promptQueued, 200);
   }),
 });
 
+http.route({
+  path: "/fossabot/link",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    const strings = getChatStrings(await ctx.runQuery(convexInternal.live.getShowLanguageInternal, {}));
+    const valid = await validateFossabotRequest(request);
+    if (!valid) {
+      return text(request, strings.linkRejected, 403);
+    }
+
+    const viewerId = getFossabotViewerId(request);
+    if (!viewerId) {
+      return text(request, strings.invalidUser, 400);
+    }
+
+    const url = new URL(request.url);
+    const code = (url.searchParams.get("code") ?? "").trim();
+    if (!code) {
+      return text(request, strings.linkUsage, 200);
+    }
+
+    const result = await ctx.runMutation(convexInternal.viewerAccounts.redeemLinkCode, {
+      code,
+      identity: viewerId,
+      displayName: getFossabotDisplayName(request) || undefined,
+    });
+    return text(request, result === "linked" ? strings.linkDone : strings.linkInvalid, 200);
+  }),
+});
+
+http.route({
+  path: "/api/v1/rounds/current",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    const data = await ctx.runQuery(convexInternal.publicApi.getCurrentRound, {});
+    return await publicJson(request, data);
+  }),
+});
+
+http.route({
+  path: "/api/v1/rounds/lookup",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    const url = new URL(request.url);
+    const generation = parseApiNumber(url.searchParams.get("generation"));
+    const num = parseApiNumber(url.searchParams.get("num"));
+    if (typeof generation !== "number" || typeof num !== "number") {
+      return json(request, { error: "Invalid generation or num" }, 400);
+    }
+    const round = await ctx.runQuery(convexInternal.publicApi.getRound, { generation, num });
+    if (!round) {
+      return json(request, { error: "Round not found" }, 404);
+    }
+    return await publicJson(request, { round });
+  }),
+});
+
+http.route({
+  path: "/api/v1/rounds",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    const url = new URL(request.url);
+    const generation = parseApiNumber(url.searchParams.get("generation"));
+    const limit = parseApiNumber(url.searchParams.get("limit"));
+    const cursor = url.searchParams.get("cursor")?.trim() || undefined;
+    const from = parseApiTime(url.searchParams.get("from"));
+    const to = parseApiTime(url.searchParams.get("to"));
+    if (generation === null || limit === null || (cursor !== undefined && !decodeCompletedAtCursor(cursor))) {
+      return json(request, { error: "Invalid generation, limit or cursor" }, 400);
+    }
+    if (from === null || to === null) {
+      return json(request, { error: "Invalid from or to" }, 400);
+    }
+    const modelId = (url.searchParams.get("model") ?? "").trim();
+
+    const data = await ctx.runQuery(convexInternal.publicApi.listRounds, {
+      generation,
+      modelId: modelId || undefined,
+      from,
+      to,
+      cursor,
+      limit,
+    });
+    return await publicJson(request, data);
+  }),
+});
+
+http.route({
+  path: "/api/v1/models",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    const data = await ctx.runQuery(convexInternal.publicApi.listModels, {});
+    return await publicJson(request, data);
+  }),
+});
+
+http.route({
+  path: "/api/v1/standings",
+  method: "GET",
+  handler: withOptions(async (ctx, request) => {
+    const data = await ctx.runQuery(convexInternal.publicApi.getStandings, {});
+    return await publicJson(request, data);
+  }),
+});
+
+for (const provider of VIEWER_OAUTH_PROVIDERS) {
+  http.route({
+    path: `/viewer-auth/${provider}/start`,
+    method: "GET",
+    handler: httpAction(async (ctx, request) => {
+      const url = new URL(request.url);
+      const viewerId = (url.searchParams.get("viewerId") ?? "").trim();
+      const returnTo = (url.searchParams.get("returnTo") ?? "").trim();
+      if (!viewerId) {
+        return new Response("Invalid viewerId", { status: 400 });
+      }
+      if (!isAllowedReturnTo(returnTo)) {
+        return new Response("Invalid returnTo", { status: 400 });
+      }
+
+      const state = await ctx.runMutation(convexInternal.viewerAccounts.createOAuthState, {
+        viewerId,
+        provider,
+        returnTo,
+      });
+      const authorizeUrl = buildOAuthAuthorizeUrl(provider, state);
+      if (!authorizeUrl) {
+        return redirect(withLinkResult(returnTo, "link_error", "not_configured"));
+      }
+      return redirect(authorizeUrl);
+    }),
+  });
+
+  http.route({
+    path: `/viewer-auth/${provider}/callback`,
+    method: "GET",
+    handler: httpAction(async (ctx, request) => {
+      const url = new URL(request.url);
+      const pending = await ctx.runMutation(convexInternal.viewerAccounts.consumeOAuthState, {
+        state: url.searchParams.get("state") ?? "",
+        provider,
+      });
+      if (!pending) {
+        return new Response("Invalid or expired state", { status: 400 });
+      }
+
+      const code = url.searchParams.get("code");
+      if (!code) {
+        return redirect(withLinkResult(pending.returnTo, "link_error", "denied"));
+      }
+
+      try {
+        const account = await fetchOAuthIdentity(provider, code);
+        await ctx.runMutation(convexInternal.viewerAccounts.linkIdentityInternal, {
+          viewerId: pending.viewerId,
+          identity: account.identity,
+          displayName: account.displayName,
+        });
+      } catch (error) {
+        console.warn(`[viewerAuth] ${provider} login failed`, error instanceof Error ? error.message : String(error));
+        return redirect(withLinkResult(pending.returnTo, "link_error", "failed"));
+      }
+      return redirect(withLinkResult(pending.returnTo, "linked", provider));
+    }),
+  });
+}
+
 export default http;
 
@@ -1,9 +1,10 @@
 import { v } from "convex/values";
-import { internalMutation, mutation, query } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
 import { internal } from "./_generated/api";
 const convexInternal = internal as any;
 import { RUNNER_LEASE_MS } from "./constants";
 import { toClientRound } from "./rounds";
+import { indexFromSide } from "../shared/rounds";
 import {
   getEngineState,
   getOrCreateEngineState,
@@ -15,7 +16,26 @@ import {
   getEnabledModelIds,
   listModelCatalog,
 } from "./models";
+import { listCurrentModelRatings } from "./ratings";
+import { getCurrentTournament, toClientTournament } from "./tournaments";
+import { getCurrentRivalry } from "./headToHead";
+import { ensurePromptExamplesSeededImpl } from "./promptExamples";
+import { ensurePromptTemplatesSeededImpl } from "./promptTemplates";
 import { ensureViewerCountSummary, readTotalViewerCount } from "./viewerCount";
+import { normalizeShowLanguage } from "../shared/i18n";
+
+const modelRatingValidator = v.object({
+  source: v.union(v.literal("ai"), v.literal("human")),
+  modelId: v.string(),
+  name: v.string(),
+  metricsEpoch: v.number(),
+  rating: v.number(),
+  deviation: v.number(),
+  games: v.number(),
+  wins: v.number(),
+  losses: v.number(),
+  draws: v.number(),
+});
 
 async function buildGameStatePayload(ctx: any) {
   const state = await getEngineState(ctx as any);
@@ -29,12 +49,16 @@ async function buildGameStatePayload(ctx: any) {
         scores: {},
         humanScores: {},
         humanVoteTotals: {},
+        ratings: [],
+        tournament: null,
+        rivalry: null,
         models,
         enabledModelIds,
         done: false,
         isPaused: false,
         generation: 1,
         completedRounds: 0,
+        showLanguage: normalizeShowLanguage(undefined),
       },
       totalRounds: null,
     };
@@ -51,17 +75,15 @@ async function buildGameStatePayload(ctx: any) {
       .query("viewerVoteTallies")
       .withIndex("by_round", (q: any) => q.eq("roundId", activeRound._id))
       .collect();
-    const viewerVotesA = tallies
-      .filter((x: any) => x.side === "A")
-      .reduce((sum: number, x: any) => sum + x.count, 0);
-    const viewerVotesB = tallies
-      .filter((x: any) => x.side === "B")
-      .reduce((sum: number, x: any) => sum + x.count, 0);
     if (activeClient) {
+      const viewerVoteCounts = activeClient.contestants.map((_, index) =>
+        tallies
+          .filter((x: any) => indexFromSide(x.side) === index)
+          .reduce((sum: number, x: any) => sum + x.count, 0),
+      );
       activeClient = {
         ...activeClient,
-        viewerVotesA,
-        viewerVotesB,
+        viewerVoteCounts,
       };
     }
   }
@@ -73,12 +95,16 @@ async function buildGameStatePayload(ctx: any) {
       scores: state.scores,
       humanScores: normalizeScoreRecord(state.humanScores),
       humanVoteTotals: normalizeScoreRecord(state.humanVoteTotals),
+      ratings: await listCurrentModelRatings(ctx, state.generation, models),
+      tournament: toClientTournament(await getCurrentTournament(ctx, state)),
+      rivalry: await getCurrentRivalry(ctx, state.generation, enabledModelIds),
       models,
       enabledModelIds,
       done: state.done,
       isPaused: state.isPaused,
       generation: state.generation,
       completedRounds: state.completedRounds,
+      showLanguage: normalizeShowLanguage(state.showLanguage),
     },
     totalRounds: state.runsMode === "finite" ? (state.totalRounds ?? null) : null,
   };
@@ -93,12 +119,16 @@ export const getState = query({
       scores: v.record(v.string(), v.number()),
       humanScores: v.record(v.string(), v.number()),
       humanVoteTotals: v.record(v.string(), v.number()),
+      ratings: v.array(modelRatingValidator),
+      tournament: v.union(v.any(), v.null()),
+      rivalry: v.union(v.any(), v.null()),
       models: v.array(v.any()),
       enabledModelIds: v.array(v.string()),
       done: v.boolean(),
       isPaused: v.boolean(),
       generation: v.number(),
       completedRounds: v.number(),
+      showLanguage: v.string(),
     }),
     totalRounds: v.union(v.number(), v.null()),
     viewerCount: v.number(),
@@ -121,12 +151,16 @@ export const getGameState = query({
       scores: v.record(v.string(), v.number()),
       humanScores: v.record(v.string(), v.number()),
       humanVoteTotals: v.record(v.string(), v.number()),
+      ratings: v.array(modelRatingValidator),
+      tournament: v.union(v.any(), v.null()),
+      rivalry: v.union(v.any(), v.null()),
       models: v.array(v.any()),
       enabledModelIds: v.array(v.string()),
       done: v.boolean(),
       isPaused: v.boolean(),
       generation: v.number(),
       completedRounds: v.number(),
+      showLanguage: v.string(),
     }),
     totalRounds: v.union(v.number(), v.null()),
   }),
@@ -143,6 +177,24 @@ export const getViewerCount = query({
   },
 });
 
+export const getShowLanguage = query({
+  args: {},
+  returns: v.object({ showLanguage: v.string() }),
+  handler: async (ctx) => {
+    const state = await getEngineState(ctx as any);
+    return { showLanguage: normalizeShowLanguage(state?.showLanguage) };
+  },
+});
+
+export const getShowLanguageInternal = internalQuery({
+  args: {},
+  returns: v.string(),
+  handler: async (ctx) => {
+    const state = await getEngineState(ctx as any);
+    return normalizeShowLanguage(state?.showLanguage);
+  },
+});
+
 export const getModelCatalog = query({
   args: {},
   returns: v.object({
@@ -162,6 +214,8 @@ async function ensureStartedImpl(ctx: any) {
   const now = Date.now();
   await ensureViewerCountSummary(ctx as any);
   const catalog = await ensureModelCatalogSeededImpl(ctx as any);
+  await ensurePromptExamplesSeededImpl(ctx as any);
+  await ensurePromptTemplatesSeededImpl(ctx as any);
   const state = await getOrCreateEngineState(ctx as any);
   const patch: Record<string, unknown> = {};
 
@@ -0,0 +1,254 @@
+import { v } from "convex/values";
+import { internalQuery } from "./_generated/server";
+import { MATCHMAKING_HISTORY_ROUNDS, MATCHMAKING_MAX_CANDIDATES, shuffle } from "./constants";
+import { getEngineState } from "./state";
+import { listModelCatalog } from "./models";
+
+const BACK_TO_BACK_PENALTY = 1_000;
+const PAIR_WEIGHT = 10;
+
+export type MatchmakingRound = {
+  num: number;
+  prompterId: string | null;
+  contestantIds: string[];
+  voterIds: string[];
+};
+
+export type MatchmakingStats = {
+  roundCount: number;
+  prompts: Map<string, number>;
+  answers: Map<string, number>;
+  votes: Map<string, number>;
+  pairs: Map<string, number>;
+  lastPrompterId: string | null;
+  lastContestantIds: Set<string>;
+};
+
+type MatchmakingCandidate = {
+  id: string;
+  canPrompt?: boolean;
+  canAnswer?: boolean;
+  canVote?: boolean;
+};
+
+const matchmakingRoundValidator = v.object({
+  num: v.number(),
+  prompterId: v.union(v.string(), v.null()),
+  contestantIds: v.array(v.string()),
+  voterIds: v.array(v.string()),
+});
+
+export function getPairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function increment(map: Map<string, number>, key: string) {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+export function buildMatchmakingStats(rounds: MatchmakingRound[]): MatchmakingStats {
+  const stats: MatchmakingStats = {
+    roundCount: rounds.length,
+    prompts: new Map(),
+    answers: new Map(),
+    votes: new Map(),
+    pairs: new Map(),
+    lastPrompterId: null,
+    lastContestantIds: new Set(),
+  };
+
+  let lastNum = -Infinity;
+  for (const round of rounds) {
+    if (round.prompterId) increment(stats.prompts, round.prompterId);
+    for (const voterId of round.voterIds) increment(stats.votes, voterId);
+    round.contestantIds.forEach((contestantId, index) => {
+      increment(stats.answers, contestantId);
+      for (const otherId of round.contestantIds.slice(index + 1)) {
+        increment(stats.pairs, getPairKey(contestantId, otherId));
+      }
+    });
+    if (round.num > lastNum) {
+      lastNum = round.num;
+      stats.lastPrompterId = round.prompterId;
+      stats.lastContestantIds = new Set(round.contestantIds);
+    }
+  }
+
+  return stats;
+}
+
+function wasOnStageLastRound(stats: MatchmakingStats, modelId: string): boolean {
+  return stats.lastPrompterId === modelId || stats.lastContestantIds.has(modelId);
+}
+
+function* combinations<T>(items: T[], size: number, start = 0, picked: T[] = []): Generator<T[]> {
+  if (picked.length === size) {
+    yield [...picked];
+    return;
+  }
+  for (let index = start; index <= items.length - (size - picked.length); index += 1) {
+    picked.push(items[index] as T);
+    yield* combinations(items, size, index + 1, picked);
+    picked.pop();
+  }
+}
+
+function scoreContestants(stats: MatchmakingStats, contestants: MatchmakingCandidate[]): number {
+  let score = 0;
+  contestants.forEach((contestant, index) => {
+    if (wasOnStageLastRound(stats, contestant.id)) score += BACK_TO_BACK_PENALTY;
+    score += stats.answers.get(contestant.id) ?? 0;
+    for (const other of contestants.slice(index + 1)) {
+      score += PAIR_WEIGHT * (stats.pairs.get(getPairKey(contestant.id, other.id)) ?? 0);
+    }
+  });
+  return score;
+}
+
+export function pickFairPrompter<T extends MatchmakingCandidate>(
+  models: T[],
+  excludedIds: Set<string>,
+  stats: MatchmakingStats,
+): T | null {
+  let best: T | null = null;
+  let bestScore = Infinity;
+  for (const model of shuffle(models)) {
+    if (model.canPrompt === false || excludedIds.has(model.id)) continue;
+    const score =
+      (stats.prompts.get(model.id) ?? 0) + (stats.lastPrompterId === model.id ? BACK_TO_BACK_PENALTY : 0);
+    if (score < bestScore) {
+      best = model;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function pickFairRoundModels<T extends MatchmakingCandidate>(
+  models: T[],
+  contestantCount: number,
+  stats: MatchmakingStats,
+): {
+  prompter: T;
+  contestants: T[];
+  voters: T[];
+} | null {
+  const answerPool = models.filter((model) => model.canAnswer !== false);
+  const votePool = models.filter((model) => model.canVote !== false);
+  if (answerPool.length < contestantCount || votePool.length === 0) return null;
+
+  const candidates = shuffle(answerPool)
+    .map((model) => ({
+      model,
+      weight:
+        (stats.answers.get(model.id) ?? 0) + (wasOnStageLastRound(stats, model.id) ? BACK_TO_BACK_PENALTY : 0),
+    }))
+    .sort((a, b) => a.weight - b.weight)
+    .slice(0, Math.max(contestantCount, MATCHMAKING_MAX_CANDIDATES))
+    .map((entry) => entry.model);
+
+  let best: { prompter: T; contestants: T[]; score: number } | null = null;
+  for (const contestants of combinations(candidates, contestantCount)) {
+    const contestantIds = new Set(contestants.map((contestant) => contestant.id));
+    if (!votePool.some((voter) => !contestantIds.has(voter.id))) continue;
+    const prompter = pickFairPrompter(models, contestantIds, stats);
+    if (!prompter) continue;
+
+    const score = scoreContestants(stats, contestants);
+    if (!best || score < best.score) {
+      best = { prompter, contestants, score };
+    }
+  }
+  if (!best) return null;
+
+  const contestantIds = new Set(best.contestants.map((contestant) => contestant.id));
+  return {
+    prompter: best.prompter,
+    contestants: shuffle(best.contestants),
+    voters: shuffle(votePool.filter((voter) => !contestantIds.has(voter.id))),
+  };
+}
+
+async function listRecentMatchmakingRounds(ctx: { db: any }, generation: number): Promise<MatchmakingRound[]> {
+  const rounds = await ctx.db
+    .query("rounds")
+    .withIndex("by_generation_and_num", (q: any) => q.eq("generation", generation))
+    .order("desc")
+    .take(MATCHMAKING_HISTORY_ROUNDS);
+
+  return rounds.map((round: any) => ({
+    num: round.num,
+    prompterId: round.viewerPromptId ? null : round.prompter.id,
+    contestantIds: round.contestants.map((contestant: any) => contestant.id),
+    voterIds: round.votes.map((vote: any) => vote.voter.id),
+  }));
+}
+
+export const getRecentRounds = internalQuery({
+  args: { expectedGeneration: v.number() },
+  returns: v.array(matchmakingRoundValidator),
+  handler: async (ctx, args) => {
+    const state = await getEngineState(ctx as any);
+    if (!state || state.generation !== args.expectedGeneration) return [];
+    return await listRecentMatchmakingRounds(ctx as any, args.expectedGeneration);
+  },
+});
+
+export const getFairnessReport = internalQuery({
+  args: {},
+  returns: v.object({
+    windowRounds: v.number(),
+    roundCount: v.number(),
+    models: v.array(
+      v.object({
+        modelId: v.string(),
+        name: v.string(),
+        color: v.string(),
+        active: v.boolean(),
+        prompts: v.number(),
+        answers: v.number(),
+        votes: v.number(),
+      }),
+    ),
+    pairs: v.array(
+      v.object({
+        modelA: v.string(),
+        modelB: v.string(),
+        count: v.number(),
+      }),
+    ),
+  }),
+  handler: async (ctx) => {
+    const state = await getEngineState(ctx as any);
+    const rounds = state ? await listRecentMatchmakingRounds(ctx as any, state.generation) : [];
+    const stats = buildMatchmakingStats(rounds);
+    const catalog = await listModelCatalog(ctx as any);
+
+    const models = catalog
+      .filter((model) => {
+        const active = model.enabled && !model.archivedAt;
+        return active || stats.prompts.has(model.modelId) || stats.answers.has(model.modelId);
+      })
+      .map((model) => ({
+        modelId: model.modelId,
+        name: model.name,
+        color: model.color,
+        active: Boolean(model.enabled && !model.archivedAt),
+        prompts: stats.prompts.get(model.modelId) ?? 0,
+        answers: stats.answers.get(model.modelId) ?? 0,
+        votes: stats.votes.get(model.modelId) ?? 0,
+      }));
+
+    const pairs = [...stats.pairs.entries()].map(([key, count]) => {
+      const [modelA, modelB] = key.split("|");
+      return { modelA: modelA ?? "", modelB: modelB ?? "", count };
+    });
+
+    return {
+      windowRounds: MATCHMAKING_HISTORY_ROUNDS,
+      roundCount: stats.roundCount,
+      models,
+      pairs,
+    };
+  },
+});
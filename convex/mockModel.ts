@@ -0,0 +1,234 @@
+import type { LanguageModel } from "ai";
+import { parseModelReasoningEffort, type Model, type ModelReasoningEffort } from "../shared/models";
+import { CONTESTANT_SIDES } from "../shared/rounds";
+import { MOCK_MODEL_LATENCY_MS } from "./constants";
+
+export type MockCallType = "prompt" | "answer" | "vote" | "moderation";
+
+type MockLanguageModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type MockCallOptions = Parameters<MockLanguageModel["doStream"]>[0];
+
+const REASONING_DELTAS_BY_EFFORT: Record<ModelReasoningEffort, number> = {
+  xhigh: 16,
+  high: 12,
+  medium: 8,
+  low: 4,
+  minimal: 2,
+  none: 0,
+};
+
+const REASONING_STEPS = [
+  "Lendo o tema com calma. ",
+  "Procurando um angulo inesperado. ",
+  "Descartando a piada obvia. ",
+  "Testando um trocadilho... fraco demais. ",
+  "Talvez exagerar a situacao ajude. ",
+  "Comparando duas ideias de punchline. ",
+  "Cortando palavras para ficar curto. ",
+  "Conferindo se o timing funciona. ",
+];
+
+const PROMPT_OPENINGS = [
+  "A pior coisa para dizer",
+  "O segredo que ninguem conta",
+  "A desculpa mais esfarrapada",
+  "O nome perfeito para",
+  "O que realmente acontece",
+  "A primeira regra",
+  "O presente mais estranho",
+  "A frase que arruinaria",
+];
+
+const PROMPT_SUBJECTS = [
+  "num velorio de robos",
+  "no primeiro encontro com um alienigena",
+  "numa reuniao de condominio",
+  "durante uma entrevista de emprego na NASA",
+  "no casamento do seu ex",
+  "numa festa surpresa de um vampiro",
+  "no grupo da familia as 3 da manha",
+  "numa aula de yoga para pinguins",
+];
+
+const ANSWERS = [
+  "Um boleto vencido com gliter",
+  "Minha avo de patins no telhado",
+  "Wi-Fi que so funciona no banheiro",
+  "Um pombo com MBA em marketing",
+  "Pedir desconto no proprio aniversario",
+  "Culpar o Mercurio retrogrado",
+  "Um PowerPoint de 300 slides",
+  "Chorar em tres idiomas diferentes",
+  "Abracar o garcom sem motivo",
+  "Trocar o bolo por uma planilha",
+];
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function createSeededRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length) % items.length] as T;
+}
+
+function readPromptText(options: MockCallOptions): string {
+  return options.prompt
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content.map((part) => ("text" in part && typeof part.text === "string" ? part.text : "")).join(""),
+    )
+    .join("\n");
+}
+
+function resolveLatencyMs(): number {
+  const raw = Number.parseInt(process.env.MOCK_MODEL_LATENCY_MS ?? "", 10);
+  return Number.isFinite(raw) && raw >= 0 ? raw : MOCK_MODEL_LATENCY_MS;
+}
+
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+function buildText(callType: MockCallType, input: string, random: () => number): string {
+  if (callType === "prompt") {
+    return `${pick(PROMPT_OPENINGS, random)} ${pick(PROMPT_SUBJECTS, random)}: _____`;
+  }
+  if (callType === "answer") {
+    return pick(ANSWERS, random);
+  }
+  if (callType === "moderation") {
+    return "SAFE";
+  }
+  const answerCount = Math.max(2, (input.match(/^(?:Answer|Resposta) [A-Z]:/gm) ?? []).length);
+  return pick(CONTESTANT_SIDES.slice(0, answerCount), random);
+}
+
+function buildReasoningSteps(model: Model, callType: MockCallType, random: () => number): string[] {
+  if (callType === "vote" || callType === "moderation") return [];
+  const effort = parseModelReasoningEffort(model.reasoningEffort) ?? "medium";
+  return Array.from({ length: REASONING_DELTAS_BY_EFFORT[effort] }, () => pick(REASONING_STEPS, random));
+}
+
+async function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) return;
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error("Mock call aborted"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error("Mock call aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function planCall(model: Model, callType: MockCallType, options: MockCallOptions) {
+  const input = readPromptText(options);
+  const seed = `${process.env.MOCK_MODEL_SEED ?? ""}|${model.id}|${callType}|${input}`;
+  const random = createSeededRandom(seed);
+  const reasoning = buildReasoningSteps(model, callType, random);
+  const text = buildText(callType, input, random);
+  const reasoningTokens = reasoning.reduce((sum, step) => sum + estimateTokens(step), 0);
+  const textTokens = estimateTokens(text);
+  return {
+    id: `mock-${hashString(`${seed}|${Date.now()}|${Math.random()}`).toString(16)}`,
+    reasoning,
+    text,
+    usage: {
+      inputTokens: {
+        total: estimateTokens(input),
+        noCache: estimateTokens(input),
+        cacheRead: 0,
+        cacheWrite: 0,
+      },
+      outputTokens: {
+        total: textTokens + reasoningTokens,
+        text: textTokens,
+        reasoning: reasoningTokens,
+      },
+    },
+  };
+}
+
+export function createMockLanguageModel(model: Model, callType: MockCallType): MockLanguageModel {
+  return {
+    specificationVersion: "v3",
+    provider: "mock",
+    modelId: model.id,
+    supportedUrls: {},
+    async doGenerate(options) {
+      const plan = planCall(model, callType, options);
+      await wait(resolveLatencyMs(), options.abortSignal);
+      return {
+        content: [
+          ...(plan.reasoning.length > 0 ? [{ type: "reasoning" as const, text: plan.reasoning.join("") }] : []),
+          { type: "text" as const, text: plan.text },
+        ],
+        finishReason: { unified: "stop", raw: "stop" },
+        usage: plan.usage,
+        response: { id: plan.id, modelId: model.id, timestamp: new Date() },
+        warnings: [],
+      };
+    },
+    async doStream(options) {
+      const plan = planCall(model, callType, options);
+      const latencyMs = resolveLatencyMs();
+      const reasoningDelayMs = plan.reasoning.length > 0 ? (latencyMs * 0.7) / plan.reasoning.length : 0;
+      const textDelayMs = plan.reasoning.length > 0 ? latencyMs * 0.3 : latencyMs;
+
+      const stream = new ReadableStream({
+        async start(controller) {
+          try {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({ type: "response-metadata", id: plan.id, modelId: model.id, timestamp: new Date() });
+            if (plan.reasoning.length > 0) {
+              controller.enqueue({ type: "reasoning-start", id: "reasoning-0" });
+              for (const step of plan.reasoning) {
+                await wait(reasoningDelayMs, options.abortSignal);
+                controller.enqueue({ type: "reasoning-delta", id: "reasoning-0", delta: step });
+              }
+              controller.enqueue({ type: "reasoning-end", id: "reasoning-0" });
+            }
+            await wait(textDelayMs, options.abortSignal);
+            controller.enqueue({ type: "text-start", id: "text-0" });
+            controller.enqueue({ type: "text-delta", id: "text-0", delta: plan.text });
+            controller.enqueue({ type: "text-end", id: "text-0" });
+            controller.enqueue({
+              type: "finish",
+              usage: plan.usage,
+              finishReason: { unified: "stop", raw: "stop" },
+            });
+            controller.close();
+          } catch (error) {
+            controller.error(error);
+          }
+        },
+      });
+
+      return { stream };
+    },
+  };
+}
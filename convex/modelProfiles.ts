@@ -0,0 +1,323 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import {
+  MODEL_PROFILE_ANSWER_HIGHLIGHTS,
+  MODEL_PROFILE_ROUND_SCAN_LIMIT,
+  MODEL_PROFILE_USAGE_SAMPLES,
+} from "./constants";
+import { getEngineState, normalizeScoreRecord } from "./state";
+import { getRoundViewerVoteCounts } from "./rounds";
+import { indexFromSide, resolveWinnerIndex } from "../shared/rounds";
+
+const USAGE_ROLES = ["prompt", "answer", "vote"] as const;
+
+type UsageRole = (typeof USAGE_ROLES)[number];
+
+type RoleUsage = {
+  samples: number;
+  avgCostUsd: number;
+  avgDurationMs: number;
+  avgTotalTokens: number;
+  avgReasoningTokens: number;
+};
+
+type EpochRecord = { played: number; aiWins: number; humanWins: number; humanDecided: number };
+
+type OpponentRecord = {
+  modelId: string;
+  name: string;
+  played: number;
+  aiWins: number;
+  aiLosses: number;
+  aiDraws: number;
+  humanWins: number;
+  humanLosses: number;
+  humanDraws: number;
+};
+
+type AnswerHighlight = {
+  generation: number;
+  num: number;
+  prompt: string | null;
+  answer: string;
+  aiVotes: number;
+  aiVoteTotal: number;
+  viewerVotes: number;
+  viewerVoteTotal: number;
+  share: number;
+};
+
+function countModelVotes(round: any): number[] {
+  const counts = round.contestants.map(() => 0);
+  for (const vote of round.votes) {
+    const sideIndex = indexFromSide(vote.votedForSide);
+    if (sideIndex >= 0 && sideIndex < counts.length) counts[sideIndex] += 1;
+  }
+  return counts;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function compareCounts(own: number, other: number): "win" | "loss" | "draw" {
+  return own > other ? "win" : own < other ? "loss" : "draw";
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+async function readRoleUsage(
+  ctx: { db: any },
+  generation: number,
+  modelId: string,
+  epoch: number,
+  role: UsageRole,
+): Promise<RoleUsage | null> {
+  const events = await ctx.db
+    .query("llmUsageEvents")
+    .withIndex("by_generation_model_epoch_type_finishedAt", (q: any) =>
+      q.eq("generation", generation).eq("modelId", modelId).eq("modelMetricsEpoch", epoch).eq("requestType", role),
+    )
+    .order("desc")
+    .take(MODEL_PROFILE_USAGE_SAMPLES);
+  if (events.length === 0) return null;
+  return {
+    samples: events.length,
+    avgCostUsd: average(events.map((event: any) => event.costUsd)),
+    avgDurationMs: average(events.map((event: any) => event.durationMsFinal)),
+    avgTotalTokens: average(events.map((event: any) => event.totalTokens)),
+    avgReasoningTokens: average(events.map((event: any) => event.reasoningTokens)),
+  };
+}
+
+export const get = query({
+  args: { modelId: v.string(), generation: v.optional(v.number()) },
+  returns: v.union(v.any(), v.null()),
+  handler: async (ctx, args) => {
+    const model = await ctx.db
+      .query("models")
+      .withIndex("by_modelId", (q) => q.eq("modelId", args.modelId))
+      .first();
+    if (!model) return null;
+
+    const engine = await getEngineState(ctx as any);
+    const currentGeneration = engine?.generation ?? 1;
+    const generation = args.generation ?? currentGeneration;
+    const currentEpoch = Number.isFinite(model.metricsEpoch) ? Number(model.metricsEpoch) : 1;
+    const season = await ctx.db
+      .query("seasons")
+      .withIndex("by_generation", (q) => q.eq("generation", generation))
+      .first();
+
+    const scanned = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_completedAt", (q) => q.eq("generation", generation).gt("completedAt", 0))
+      .order("desc")
+      .take(MODEL_PROFILE_ROUND_SCAN_LIMIT + 1);
+    const rounds = scanned.slice(0, MODEL_PROFILE_ROUND_SCAN_LIMIT).filter((round) => round.phase === "done");
+
+    const record = { played: 0, aiWins: 0, aiLosses: 0, aiDraws: 0, humanWins: 0, humanDecided: 0, prompted: 0 };
+    const opponents = new Map<string, OpponentRecord>();
+    const epochRecords = new Map<number, EpochRecord>();
+    const answers: AnswerHighlight[] = [];
+    const judging = {
+      votes: 0,
+      abstained: 0,
+      agreedWithJudges: 0,
+      judgedRounds: 0,
+      agreedWithAudience: 0,
+      audienceRounds: 0,
+      firstSlotVotes: 0,
+      picks: new Map<string, { modelId: string; name: string; votes: number }>(),
+    };
+
+    for (const round of rounds) {
+      if (round.prompter.id === args.modelId) record.prompted += 1;
+      if (round.skipped) continue;
+
+      const modelVotes = countModelVotes(round);
+      const viewerVotes = getRoundViewerVoteCounts(round) ?? round.contestants.map(() => 0);
+      const aiWinnerIndex = resolveWinnerIndex(modelVotes);
+      const audienceWinnerIndex = resolveWinnerIndex(viewerVotes);
+
+      round.votes.forEach((vote) => {
+        if (vote.voter.id !== args.modelId) return;
+        const sideIndex = indexFromSide(vote.votedForSide);
+        const picked = round.contestants[sideIndex];
+        if (!picked) {
+          judging.abstained += 1;
+          return;
+        }
+        judging.votes += 1;
+        if (sideIndex === 0) judging.firstSlotVotes += 1;
+        if (aiWinnerIndex >= 0) {
+          judging.judgedRounds += 1;
+          if (aiWinnerIndex === sideIndex) judging.agreedWithJudges += 1;
+        }
+        if (audienceWinnerIndex >= 0) {
+          judging.audienceRounds += 1;
+          if (audienceWinnerIndex === sideIndex) judging.agreedWithAudience += 1;
+        }
+        const pick = judging.picks.get(picked.id) ?? { modelId: picked.id, name: picked.name, votes: 0 };
+        pick.votes += 1;
+        judging.picks.set(picked.id, pick);
+      });
+
+      const ownIndex = round.contestants.findIndex((contestant) => contestant.id === args.modelId);
+      if (ownIndex < 0) continue;
+      const own = round.contestants[ownIndex]!;
+
+      record.played += 1;
+      const aiOutcome = aiWinnerIndex === ownIndex ? "win" : aiWinnerIndex < 0 ? "draw" : "loss";
+      if (aiOutcome === "win") record.aiWins += 1;
+      else if (aiOutcome === "loss") record.aiLosses += 1;
+      else record.aiDraws += 1;
+      if (audienceWinnerIndex >= 0) {
+        record.humanDecided += 1;
+        if (audienceWinnerIndex === ownIndex) record.humanWins += 1;
+      }
+
+      const epoch = Number.isFinite(own.metricsEpoch) ? Number(own.metricsEpoch) : 1;
+      const epochRecord = epochRecords.get(epoch) ?? { played: 0, aiWins: 0, humanWins: 0, humanDecided: 0 };
+      epochRecord.played += 1;
+      if (aiOutcome === "win") epochRecord.aiWins += 1;
+      if (audienceWinnerIndex >= 0) {
+        epochRecord.humanDecided += 1;
+        if (audienceWinnerIndex === ownIndex) epochRecord.humanWins += 1;
+      }
+      epochRecords.set(epoch, epochRecord);
+
+      const hasViewerVotes = sum(viewerVotes) > 0;
+      round.contestants.forEach((opponent, index) => {
+        if (index === ownIndex) return;
+        const entry = opponents.get(opponent.id) ?? {
+          modelId: opponent.id,
+          name: opponent.name,
+          played: 0,
+          aiWins: 0,
+          aiLosses: 0,
+          aiDraws: 0,
+          humanWins: 0,
+          humanLosses: 0,
+          humanDraws: 0,
+        };
+        entry.played += 1;
+        const ai = compareCounts(modelVotes[ownIndex] ?? 0, modelVotes[index] ?? 0);
+        if (ai === "win") entry.aiWins += 1;
+        else if (ai === "loss") entry.aiLosses += 1;
+        else entry.aiDraws += 1;
+        // Rounds nobody in the audience voted on are not a human draw.
+        if (hasViewerVotes) {
+          const human = compareCounts(viewerVotes[ownIndex] ?? 0, viewerVotes[index] ?? 0);
+          if (human === "win") entry.humanWins += 1;
+          else if (human === "loss") entry.humanLosses += 1;
+          else entry.humanDraws += 1;
+        }
+        opponents.set(opponent.id, entry);
+      });
+
+      const answer = round.answerTasks[ownIndex]?.result;
+      const aiVoteTotal = sum(modelVotes);
+      if (answer && aiVoteTotal > 0) {
+        const viewerVoteTotal = sum(viewerVotes);
+        answers.push({
+          generation: round.generation,
+          num: round.num,
+          prompt: round.prompt ?? null,
+          answer,
+          aiVotes: modelVotes[ownIndex] ?? 0,
+          aiVoteTotal,
+          viewerVotes: viewerVotes[ownIndex] ?? 0,
+          viewerVoteTotal,
+          share:
+            (modelVotes[ownIndex] ?? 0) / aiVoteTotal +
+            (viewerVoteTotal > 0 ? (viewerVotes[ownIndex] ?? 0) / viewerVoteTotal : 0) / 100,
+        });
+      }
+    }
+
+    const ratingRows = await ctx.db
+      .query("modelRatings")
+      .withIndex("by_generation", (q) => q.eq("generation", generation))
+      .collect();
+    const modelRatingRows = ratingRows.filter((row) => row.modelId === args.modelId);
+
+    const epochs = [];
+    for (let epoch = 1; epoch <= currentEpoch; epoch += 1) {
+      const usage: Record<UsageRole, RoleUsage | null> = { prompt: null, answer: null, vote: null };
+      for (const role of USAGE_ROLES) {
+        usage[role] = await readRoleUsage(ctx, generation, args.modelId, epoch, role);
+      }
+      const aiRating = modelRatingRows.find((row) => row.source === "ai" && row.metricsEpoch === epoch);
+      const humanRating = modelRatingRows.find((row) => row.source === "human" && row.metricsEpoch === epoch);
+      const epochRecord = epochRecords.get(epoch) ?? null;
+      if (!epochRecord && !aiRating && !humanRating && USAGE_ROLES.every((role) => !usage[role])) continue;
+      epochs.push({
+        epoch,
+        aiRating: aiRating ? Math.round(aiRating.rating) : null,
+        humanRating: humanRating ? Math.round(humanRating.rating) : null,
+        played: epochRecord?.played ?? 0,
+        aiWinRate: epochRecord && epochRecord.played > 0 ? epochRecord.aiWins / epochRecord.played : null,
+        humanWinRate:
+          epochRecord && epochRecord.humanDecided > 0 ? epochRecord.humanWins / epochRecord.humanDecided : null,
+        usage,
+      });
+    }
+
+    const ranked = [...answers].sort((a, b) => b.share - a.share || b.num - a.num);
+    const best = ranked.slice(0, MODEL_PROFILE_ANSWER_HIGHLIGHTS);
+    const worst = ranked
+      .slice(-MODEL_PROFILE_ANSWER_HIGHLIGHTS)
+      .reverse()
+      .filter((entry) => !best.includes(entry));
+
+    const isCurrent = generation === currentGeneration;
+    return {
+      model: {
+        modelId: model.modelId,
+        name: model.name,
+        color: model.color,
+        logoId: model.logoId,
+        enabled: model.enabled,
+        archived: Boolean(model.archivedAt),
+        roles: {
+          prompt: model.canPrompt !== false,
+          answer: model.canAnswer !== false,
+          vote: model.canVote !== false,
+        },
+        metricsEpoch: currentEpoch,
+      },
+      generation,
+      seasonName: season?.name ?? null,
+      scannedRounds: rounds.length,
+      isPartial: scanned.length > MODEL_PROFILE_ROUND_SCAN_LIMIT,
+      totals: isCurrent
+        ? {
+            aiWins: engine?.scores[model.name] ?? 0,
+            humanWins: normalizeScoreRecord(engine?.humanScores)[model.name] ?? 0,
+            humanVotes: normalizeScoreRecord(engine?.humanVoteTotals)[model.name] ?? 0,
+          }
+        : null,
+      record: {
+        ...record,
+        aiWinRate: record.played > 0 ? record.aiWins / record.played : null,
+        humanWinRate: record.humanDecided > 0 ? record.humanWins / record.humanDecided : null,
+      },
+      opponents: [...opponents.values()].sort((a, b) => b.played - a.played || a.name.localeCompare(b.name)),
+      bestAnswers: best,
+      worstAnswers: worst,
+      judging: {
+        votes: judging.votes,
+        abstained: judging.abstained,
+        agreementWithJudges: judging.judgedRounds > 0 ? judging.agreedWithJudges / judging.judgedRounds : null,
+        agreementWithAudience:
+          judging.audienceRounds > 0 ? judging.agreedWithAudience / judging.audienceRounds : null,
+        firstSlotRate: judging.votes > 0 ? judging.firstSlotVotes / judging.votes : null,
+        favoritePicks: [...judging.picks.values()].sort((a, b) => b.votes - a.votes).slice(0, 3),
+      },
+      epochs,
+    };
+  },
+});
@@ -3,8 +3,11 @@ import { internalMutation, internalQuery } from "./_generated/server";
 import { internal } from "./_generated/api";
 import {
   AVAILABLE_MODEL_LOGO_IDS,
+  DEFAULT_LLM_PROVIDER_ID,
   DEFAULT_MODEL_REASONING_EFFORT,
   isValidModelLogoId,
+  normalizeCostPerMillion,
+  normalizeModelPersona,
   normalizeModelActionEnabled,
   parseModelReasoningEffort,
   normalizeHexColor,
@@ -156,6 +159,19 @@ function trimRequired(value: string, field: string): string {
   return trimmed;
 }
 
+async function resolveProviderId(ctx: { db: any }, input?: string | null): Promise<string | undefined> {
+  const providerId = (input ?? "").trim();
+  if (!providerId || providerId === DEFAULT_LLM_PROVIDER_ID) return undefined;
+  const provider = await ctx.db
+    .query("llmProviders")
+    .withIndex("by_providerId", (q: any) => q.eq("providerId", providerId))
+    .first();
+  if (!provider) {
+    throw new Error("Provedor nao encontrado.");
+  }
+  return providerId;
+}
+
 function toCatalogEntry(row: any): ModelCatalogEntry {
   return {
     _id: row._id,
@@ -169,6 +185,10 @@ function toCatalogEntry(row: any): ModelCatalogEntry {
     canPrompt: normalizeModelActionEnabled(row.canPrompt),
     canAnswer: normalizeModelActionEnabled(row.canAnswer),
     canVote: normalizeModelActionEnabled(row.canVote),
+    providerId: row.providerId,
+    inputCostPerMillionUsd: normalizeCostPerMillion(row.inputCostPerMillionUsd),
+    outputCostPerMillionUsd: normalizeCostPerMillion(row.outputCostPerMillionUsd),
+    persona: normalizeModelPersona(row.persona),
     archivedAt: row.archivedAt,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
@@ -386,6 +406,10 @@ export const createModel = internalMutation({
     canPrompt: v.optional(v.boolean()),
     canAnswer: v.optional(v.boolean()),
     canVote: v.optional(v.boolean()),
+    providerId: v.optional(v.union(v.string(), v.null())),
+    inputCostPerMillionUsd: v.optional(v.union(v.number(), v.null())),
+    outputCostPerMillionUsd: v.optional(v.union(v.number(), v.null())),
+    persona: v.optional(v.union(v.string(), v.null())),
   },
   returns: v.any(),
   handler: async (ctx, args) => {
@@ -400,6 +424,10 @@ export const createModel = internalMutation({
     const canPrompt = normalizeModelActionEnabled(args.canPrompt);
     const canAnswer = normalizeModelActionEnabled(args.canAnswer);
     const canVote = normalizeModelActionEnabled(args.canVote);
+    const providerId = await resolveProviderId(ctx as any, args.providerId);
+    const inputCostPerMillionUsd = normalizeCostPerMillion(args.inputCostPerMillionUsd);
+    const outputCostPerMillionUsd = normalizeCostPerMillion(args.outputCostPerMillionUsd);
+    const persona = normalizeModelPersona(args.persona);
     assertLogoId(logoId);
     if (!isHexColor(color)) {
       throw new Error("Cor invalida. Use formato #RRGGBB.");
@@ -436,6 +464,10 @@ export const createModel = internalMutation({
         canPrompt,
         canAnswer,
         canVote,
+        providerId,
+        inputCostPerMillionUsd,
+        outputCostPerMillionUsd,
+        persona,
         archivedAt: undefined,
         updatedAt: now,
       });
@@ -454,6 +486,10 @@ export const createModel = internalMutation({
         canPrompt,
         canAnswer,
         canVote,
+        ...(providerId ? { providerId } : {}),
+        ...(inputCostPerMillionUsd !== undefined ? { inputCostPerMillionUsd } : {}),
+        ...(outputCostPerMillionUsd !== undefined ? { outputCostPerMillionUsd } : {}),
+        ...(persona ? { persona } : {}),
         createdAt: now,
         updatedAt: now,
       });
@@ -568,6 +604,10 @@ export const updateModel = internalMutation({
     canPrompt: v.optional(v.boolean()),
     canAnswer: v.optional(v.boolean()),
     canVote: v.optional(v.boolean()),
+    providerId: v.optional(v.union(v.string(), v.null())),
+    inputCostPerMillionUsd: v.optional(v.union(v.number(), v.null())),
+    outputCostPerMillionUsd: v.optional(v.union(v.number(), v.null())),
+    persona: v.optional(v.union(v.string(), v.null())),
   },
   returns: v.any(),
   handler: async (ctx, args) => {
@@ -608,6 +648,17 @@ export const updateModel = internalMutation({
       args.canAnswer === undefined ? existingCanAnswer : normalizeModelActionEnabled(args.canAnswer);
     const canVote =
       args.canVote === undefined ? existingCanVote : normalizeModelActionEnabled(args.canVote);
+    const providerId =
+      args.providerId === undefined ? existing.providerId : await resolveProviderId(ctx as any, args.providerId);
+    const inputCostPerMillionUsd =
+      args.inputCostPerMillionUsd === undefined
+        ? existing.inputCostPerMillionUsd
+        : normalizeCostPerMillion(args.inputCostPerMillionUsd);
+    const outputCostPerMillionUsd =
+      args.outputCostPerMillionUsd === undefined
+        ? existing.outputCostPerMillionUsd
+        : normalizeCostPerMillion(args.outputCostPerMillionUsd);
+    const persona = args.persona === undefined ? existing.persona : normalizeModelPersona(args.persona);
 
     const existingById = await ctx.db
       .query("models")
@@ -635,13 +686,19 @@ export const updateModel = internalMutation({
       logoId,
       reasoningEffort,
       metricsEpoch:
-        modelId !== existing.modelId || reasoningEffort !== existingReasoningEffort
+        modelId !== existing.modelId ||
+        reasoningEffort !== existingReasoningEffort ||
+        providerId !== existing.providerId
           ? currentEpoch + 1
           : currentEpoch,
       enabled: args.enabled,
       canPrompt,
       canAnswer,
       canVote,
+      providerId,
+      inputCostPerMillionUsd,
+      outputCostPerMillionUsd,
+      persona,
       updatedAt: Date.now(),
     });
 
@@ -0,0 +1,199 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { MODERATION_DEFAULT_ACTION, MODERATION_LOG_LIMIT } from "./constants";
+import { getEngineState, getOrCreateEngineState } from "./state";
+import { listModelCatalog } from "./models";
+import { toRuntimeModel } from "../shared/models";
+
+export type ModerationAction = "regenerate" | "replace" | "hold";
+
+export type ModerationRule = {
+  pattern: string;
+  kind: "word" | "regex";
+};
+
+const moderationActionValidator = v.union(v.literal("regenerate"), v.literal("replace"), v.literal("hold"));
+const moderationRuleKindValidator = v.union(v.literal("word"), v.literal("regex"));
+
+function normalizeForModeration(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compileRule(rule: ModerationRule): RegExp | null {
+  try {
+    if (rule.kind === "regex") return new RegExp(rule.pattern, "i");
+    const word = normalizeForModeration(rule.pattern).trim();
+    if (!word) return null;
+    return new RegExp(`(^|[^a-z0-9])${escapeRegex(word)}($|[^a-z0-9])`);
+  } catch {
+    return null;
+  }
+}
+
+export function matchModerationRules(text: string, rules: ModerationRule[]): string[] {
+  const normalized = normalizeForModeration(text);
+  const reasons: string[] = [];
+  for (const rule of rules) {
+    const regex = compileRule(rule);
+    if (!regex) continue;
+    const target = rule.kind === "regex" ? text : normalized;
+    if (regex.test(target)) {
+      reasons.push(rule.kind === "regex" ? `regex: ${rule.pattern}` : `palavra: ${rule.pattern}`);
+    }
+  }
+  return reasons;
+}
+
+function readModerationAction(state: any): ModerationAction {
+  return state?.moderationAction ?? MODERATION_DEFAULT_ACTION;
+}
+
+export const getConfig = internalQuery({
+  args: {},
+  returns: v.object({
+    action: moderationActionValidator,
+    rules: v.array(v.object({ pattern: v.string(), kind: moderationRuleKindValidator })),
+    judgeModel: v.union(v.any(), v.null()),
+  }),
+  handler: async (ctx) => {
+    const state = await getEngineState(ctx as any);
+    const rules = await ctx.db
+      .query("moderationRules")
+      .withIndex("by_enabled", (q) => q.eq("enabled", true))
+      .collect();
+
+    let judgeModel = null;
+    if (state?.moderationJudgeModelId) {
+      const catalog = await listModelCatalog(ctx as any);
+      const entry = catalog.find((model) => model.modelId === state.moderationJudgeModelId && !model.archivedAt);
+      judgeModel = entry ? toRuntimeModel(entry) : null;
+    }
+
+    return {
+      action: readModerationAction(state),
+      rules: rules.map((rule) => ({ pattern: rule.pattern, kind: rule.kind })),
+      judgeModel,
+    };
+  },
+});
+
+export const getAdminState = internalQuery({
+  args: {},
+  returns: v.object({
+    action: moderationActionValidator,
+    judgeModelId: v.union(v.string(), v.null()),
+    rules: v.array(v.any()),
+    events: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const state = await getEngineState(ctx as any);
+    const rules = await ctx.db.query("moderationRules").collect();
+    const events = await ctx.db
+      .query("moderationEvents")
+      .withIndex("by_createdAt")
+      .order("desc")
+      .take(MODERATION_LOG_LIMIT);
+
+    return {
+      action: readModerationAction(state),
+      judgeModelId: state?.moderationJudgeModelId ?? null,
+      rules: rules.sort((a, b) => a.pattern.localeCompare(b.pattern, "pt-BR")),
+      events,
+    };
+  },
+});
+
+export const updateSettings = internalMutation({
+  args: {
+    action: moderationActionValidator,
+    judgeModelId: v.union(v.string(), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const judgeModelId = args.judgeModelId?.trim() || undefined;
+    if (judgeModelId) {
+      const catalog = await listModelCatalog(ctx as any);
+      if (!catalog.some((model) => model.modelId === judgeModelId && !model.archivedAt)) {
+        throw new Error("Modelo juiz nao encontrado");
+      }
+    }
+
+    const state = await getOrCreateEngineState(ctx as any);
+    await ctx.db.patch(state._id, {
+      moderationAction: args.action,
+      moderationJudgeModelId: judgeModelId,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+export const upsertRule = internalMutation({
+  args: {
+    id: v.optional(v.id("moderationRules")),
+    pattern: v.string(),
+    kind: moderationRuleKindValidator,
+    enabled: v.boolean(),
+  },
+  returns: v.id("moderationRules"),
+  handler: async (ctx, args) => {
+    const pattern = args.pattern.trim();
+    if (!pattern) throw new Error("Regra vazia");
+    if (!compileRule({ pattern, kind: args.kind })) throw new Error("Regex invalida");
+
+    const now = Date.now();
+    if (args.id) {
+      const existing = await ctx.db.get(args.id);
+      if (!existing) throw new Error("Regra nao encontrada");
+      await ctx.db.patch(args.id, { pattern, kind: args.kind, enabled: args.enabled, updatedAt: now });
+      return args.id;
+    }
+    return await ctx.db.insert("moderationRules", {
+      pattern,
+      kind: args.kind,
+      enabled: args.enabled,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const removeRule = internalMutation({
+  args: { id: v.id("moderationRules") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db.get(args.id);
+    if (!existing) throw new Error("Regra nao encontrada");
+    await ctx.db.delete(args.id);
+    return null;
+  },
+});
+
+export const recordEvent = internalMutation({
+  args: {
+    generation: v.number(),
+    roundId: v.id("rounds"),
+    roundNum: v.number(),
+    kind: v.union(v.literal("prompt"), v.literal("answer")),
+    answerIndex: v.optional(v.number()),
+    modelId: v.string(),
+    modelName: v.string(),
+    text: v.string(),
+    source: v.union(v.literal("blocklist"), v.literal("judge")),
+    reasons: v.array(v.string()),
+    action: v.union(v.literal("regenerated"), v.literal("replaced"), v.literal("held")),
+    replacement: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.insert("moderationEvents", { ...args, createdAt: Date.now() });
+    return null;
+  },
+});
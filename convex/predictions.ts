@@ -0,0 +1,291 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  PREDICTION_CORRECT_POINTS,
+  PREDICTION_LEADERBOARD_SIZE,
+  PREDICTION_RESOLVE_BATCH,
+  PREDICTION_STREAK_BONUS_MAX,
+  PREDICTION_STREAK_BONUS_POINTS,
+  VIEWER_PROMPT_MAX_NAME_LENGTH,
+  hashToShard,
+} from "./constants";
+import { getEngineState } from "./state";
+import { resolveVoterKey } from "./viewerAccounts";
+import { checkWebVoteGate } from "./voteIntegrity";
+import { arePredictionsOpen, indexFromSide, type ContestantSide } from "../shared/rounds";
+
+const convexInternal = internal as any;
+
+const contestantSideValidator = v.union(
+  v.literal("A"),
+  v.literal("B"),
+  v.literal("C"),
+  v.literal("D"),
+);
+
+const predictResultValidator = v.object({
+  ok: v.boolean(),
+  predicted: v.union(contestantSideValidator, v.null()),
+  status: v.union(
+    v.literal("accepted"),
+    v.literal("updated"),
+    v.literal("unchanged"),
+    v.literal("closed"),
+    v.literal("invalid"),
+    v.literal("rate_limited"),
+    v.literal("challenge_required"),
+  ),
+});
+
+const voteProofValidator = v.object({
+  challengeId: v.string(),
+  nonce: v.string(),
+});
+
+const leaderboardEntryValidator = v.object({
+  rank: v.number(),
+  name: v.union(v.string(), v.null()),
+  tag: v.string(),
+  points: v.number(),
+  correct: v.number(),
+  total: v.number(),
+  streak: v.number(),
+});
+
+type PredictStatus =
+  | "accepted"
+  | "updated"
+  | "unchanged"
+  | "closed"
+  | "invalid"
+  | "rate_limited"
+  | "challenge_required";
+
+function computePredictionPoints(streak: number): number {
+  const bonus = Math.max(0, streak - 1) * PREDICTION_STREAK_BONUS_POINTS;
+  return PREDICTION_CORRECT_POINTS + Math.min(bonus, PREDICTION_STREAK_BONUS_MAX);
+}
+
+// Voter keys are never exposed; anonymous predictors get a stable short tag instead.
+function toPredictorTag(viewerId: string): string {
+  return String(hashToShard(viewerId, 10_000)).padStart(4, "0");
+}
+
+function normalizeDisplayName(name: string | undefined): string | undefined {
+  const trimmed = (name ?? "").trim().slice(0, VIEWER_PROMPT_MAX_NAME_LENGTH);
+  return trimmed || undefined;
+}
+
+async function getScoreRow(ctx: { db: any }, generation: number, viewerId: string) {
+  return await ctx.db
+    .query("viewerPredictionScores")
+    .withIndex("by_generation_and_viewer", (q: any) => q.eq("generation", generation).eq("viewerId", viewerId))
+    .first();
+}
+
+export const predict = mutation({
+  args: {
+    viewerId: v.string(),
+    side: contestantSideValidator,
+    name: v.optional(v.string()),
+    proof: v.optional(voteProofValidator),
+  },
+  returns: predictResultValidator,
+  handler: async (ctx, args) => predictImpl(ctx, args, { web: true }),
+});
+
+export const predictInternal = internalMutation({
+  args: {
+    viewerId: v.string(),
+    side: contestantSideValidator,
+    name: v.optional(v.string()),
+  },
+  returns: predictResultValidator,
+  handler: async (ctx, args) => predictImpl(ctx, args, { web: false }),
+});
+
+async function predictImpl(
+  ctx: any,
+  args: { viewerId: string; side: ContestantSide; name?: string; proof?: { challengeId: string; nonce: string } },
+  options: { web: boolean },
+): Promise<{
+  ok: boolean;
+  predicted: ContestantSide | null;
+  status: PredictStatus;
+}> {
+  const engine = await getEngineState(ctx as any);
+  const round = engine?.activeRoundId ? await ctx.db.get(engine.activeRoundId) : null;
+  if (!round || !arePredictionsOpen(round)) {
+    return { ok: false, predicted: null, status: "closed" };
+  }
+
+  if (indexFromSide(args.side) >= round.contestants.length) {
+    return { ok: false, predicted: null, status: "invalid" };
+  }
+
+  if (options.web) {
+    const gate = await checkWebVoteGate(ctx, args.viewerId, args.proof);
+    if (gate) {
+      return { ok: false, predicted: null, status: gate };
+    }
+  }
+
+  const voterKey = await resolveVoterKey(ctx, args.viewerId);
+  const displayName = normalizeDisplayName(args.name);
+  const now = Date.now();
+  const existing = await ctx.db
+    .query("viewerPredictions")
+    .withIndex("by_round_and_viewer", (q: any) => q.eq("roundId", round._id).eq("viewerId", voterKey))
+    .first();
+
+  if (!existing) {
+    await ctx.db.insert("viewerPredictions", {
+      generation: round.generation,
+      roundId: round._id,
+      viewerId: voterKey,
+      side: args.side,
+      displayName,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { ok: true, predicted: args.side, status: "accepted" };
+  }
+
+  if (existing.side === args.side) {
+    return { ok: true, predicted: args.side, status: "unchanged" };
+  }
+
+  await ctx.db.patch(existing._id, {
+    side: args.side,
+    displayName: displayName ?? existing.displayName,
+    updatedAt: now,
+  });
+  return { ok: true, predicted: args.side, status: "updated" };
+}
+
+// Scheduled by finalizeRoundInternal with the AI winner; a tied round resolves
+// without touching scores so nobody gains points or loses a streak.
+export const resolveRoundBatch = internalMutation({
+  args: {
+    roundId: v.id("rounds"),
+    generation: v.number(),
+    winnerSide: v.union(contestantSideValidator, v.null()),
+    cursor: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("viewerPredictions")
+      .withIndex("by_round", (q) => q.eq("roundId", args.roundId))
+      .paginate({ cursor: args.cursor ?? null, numItems: PREDICTION_RESOLVE_BATCH });
+
+    const now = Date.now();
+    for (const prediction of result.page) {
+      if (prediction.resolvedAt) continue;
+      if (!args.winnerSide) {
+        await ctx.db.patch(prediction._id, { pointsAwarded: 0, resolvedAt: now });
+        continue;
+      }
+
+      const correct = prediction.side === args.winnerSide;
+      const score = await getScoreRow(ctx, args.generation, prediction.viewerId);
+      const streak = correct ? (score?.streak ?? 0) + 1 : 0;
+      const pointsAwarded = correct ? computePredictionPoints(streak) : 0;
+      const fields = {
+        displayName: prediction.displayName ?? score?.displayName,
+        points: (score?.points ?? 0) + pointsAwarded,
+        correct: (score?.correct ?? 0) + (correct ? 1 : 0),
+        total: (score?.total ?? 0) + 1,
+        streak,
+        bestStreak: Math.max(score?.bestStreak ?? 0, streak),
+        updatedAt: now,
+      };
+      if (score) {
+        await ctx.db.patch(score._id, fields);
+      } else {
+        await ctx.db.insert("viewerPredictionScores", {
+          generation: args.generation,
+          viewerId: prediction.viewerId,
+          ...fields,
+        });
+      }
+      await ctx.db.patch(prediction._id, { correct, pointsAwarded, resolvedAt: now });
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.predictions.resolveRoundBatch, {
+        roundId: args.roundId,
+        generation: args.generation,
+        winnerSide: args.winnerSide,
+        cursor: result.continueCursor,
+      });
+    }
+
+    return null;
+  },
+});
+
+export const getLeaderboard = query({
+  args: {},
+  returns: v.object({
+    generation: v.number(),
+    entries: v.array(leaderboardEntryValidator),
+  }),
+  handler: async (ctx) => {
+    const engine = await getEngineState(ctx as any);
+    const generation = engine?.generation ?? 1;
+    const rows = await ctx.db
+      .query("viewerPredictionScores")
+      .withIndex("by_generation_and_points", (q) => q.eq("generation", generation).gt("points", 0))
+      .order("desc")
+      .take(PREDICTION_LEADERBOARD_SIZE);
+
+    return {
+      generation,
+      entries: rows.map((row, index) => ({
+        rank: index + 1,
+        name: row.displayName ?? null,
+        tag: toPredictorTag(row.viewerId),
+        points: row.points,
+        correct: row.correct,
+        total: row.total,
+        streak: row.streak,
+      })),
+    };
+  },
+});
+
+export const getMyStats = query({
+  args: { viewerId: v.string() },
+  returns: v.object({
+    points: v.number(),
+    correct: v.number(),
+    total: v.number(),
+    streak: v.number(),
+    bestStreak: v.number(),
+    activePrediction: v.union(contestantSideValidator, v.null()),
+  }),
+  handler: async (ctx, args) => {
+    const engine = await getEngineState(ctx as any);
+    const generation = engine?.generation ?? 1;
+    const voterKey = await resolveVoterKey(ctx, args.viewerId);
+    const score = await getScoreRow(ctx, generation, voterKey);
+    const activeRoundId = engine?.activeRoundId;
+    const activePrediction = activeRoundId
+      ? await ctx.db
+          .query("viewerPredictions")
+          .withIndex("by_round_and_viewer", (q) => q.eq("roundId", activeRoundId).eq("viewerId", voterKey))
+          .first()
+      : null;
+
+    return {
+      points: score?.points ?? 0,
+      correct: score?.correct ?? 0,
+      total: score?.total ?? 0,
+      streak: score?.streak ?? 0,
+      bestStreak: score?.bestStreak ?? 0,
+      activePrediction: activePrediction?.side ?? null,
+    };
+  },
+});
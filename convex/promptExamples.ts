@@ -0,0 +1,159 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { ALL_PROMPTS } from "../prompts";
+import { PROMPT_EXAMPLE_DEFAULT_LANGUAGE, PROMPT_EXAMPLE_IMPORT_MAX_ROWS } from "./constants";
+import { getOrCreateEngineState } from "./state";
+import { normalizePromptExampleTags, normalizePromptExampleText } from "../shared/promptExamples";
+
+const promptExampleInputValidator = v.object({
+  text: v.string(),
+  category: v.optional(v.string()),
+  tags: v.array(v.string()),
+  language: v.string(),
+  enabled: v.boolean(),
+});
+
+type PromptExampleRowInput = {
+  text: string;
+  category?: string;
+  tags: string[];
+  language: string;
+  enabled: boolean;
+};
+
+function normalizeRowInput(input: PromptExampleRowInput): PromptExampleRowInput {
+  const text = normalizePromptExampleText(input.text);
+  if (!text) throw new Error("Texto do exemplo vazio");
+  const category = input.category?.trim();
+  return {
+    text,
+    category: category || undefined,
+    tags: normalizePromptExampleTags(input.tags),
+    language: input.language.trim() || PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+    enabled: input.enabled,
+  };
+}
+
+async function findByText(ctx: { db: any }, text: string): Promise<any | null> {
+  return await ctx.db
+    .query("promptExamples")
+    .withIndex("by_text", (q: any) => q.eq("text", text))
+    .first();
+}
+
+export async function ensurePromptExamplesSeededImpl(ctx: { db: any }): Promise<void> {
+  const state = await getOrCreateEngineState(ctx as any);
+  if (state.promptExamplesSeededAt) return;
+
+  const now = Date.now();
+  const existing = await ctx.db.query("promptExamples").first();
+  if (!existing) {
+    const texts = [...new Set(ALL_PROMPTS.map((prompt) => normalizePromptExampleText(prompt)).filter(Boolean))];
+    for (const text of texts) {
+      await ctx.db.insert("promptExamples", {
+        text,
+        tags: [],
+        language: PROMPT_EXAMPLE_DEFAULT_LANGUAGE,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  await ctx.db.patch(state._id, {
+    promptExamplesSeededAt: now,
+    updatedAt: now,
+  });
+}
+
+export const listEnabledTexts = internalQuery({
+  args: { language: v.optional(v.string()) },
+  returns: v.array(v.string()),
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query("promptExamples")
+      .withIndex("by_language_and_enabled", (q: any) =>
+        q.eq("language", args.language ?? PROMPT_EXAMPLE_DEFAULT_LANGUAGE).eq("enabled", true),
+      )
+      .collect();
+    return rows.map((row: any) => row.text);
+  },
+});
+
+export const list = internalQuery({
+  args: {},
+  returns: v.array(v.any()),
+  handler: async (ctx) => {
+    const rows = await ctx.db.query("promptExamples").collect();
+    return rows.sort(
+      (a: any, b: any) =>
+        (a.category ?? "").localeCompare(b.category ?? "", "pt-BR") || a.text.localeCompare(b.text, "pt-BR"),
+    );
+  },
+});
+
+export const upsert = internalMutation({
+  args: {
+    id: v.optional(v.id("promptExamples")),
+    example: promptExampleInputValidator,
+  },
+  returns: v.id("promptExamples"),
+  handler: async (ctx, args) => {
+    const example = normalizeRowInput(args.example);
+    const duplicate = await findByText(ctx as any, example.text);
+    if (duplicate && duplicate._id !== args.id) {
+      throw new Error("Exemplo ja cadastrado");
+    }
+
+    const now = Date.now();
+    if (args.id) {
+      const existing = await ctx.db.get(args.id);
+      if (!existing) throw new Error("Exemplo nao encontrado");
+      await ctx.db.patch(args.id, { ...example, updatedAt: now });
+      return args.id;
+    }
+    return await ctx.db.insert("promptExamples", { ...example, createdAt: now, updatedAt: now });
+  },
+});
+
+export const remove = internalMutation({
+  args: { id: v.id("promptExamples") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db.get(args.id);
+    if (!existing) throw new Error("Exemplo nao encontrado");
+    await ctx.db.delete(args.id);
+    return null;
+  },
+});
+
+export const importRows = internalMutation({
+  args: { rows: v.array(promptExampleInputValidator) },
+  returns: v.object({
+    inserted: v.number(),
+    updated: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    if (args.rows.length > PROMPT_EXAMPLE_IMPORT_MAX_ROWS) {
+      throw new Error(`Importacao limitada a ${PROMPT_EXAMPLE_IMPORT_MAX_ROWS} exemplos`);
+    }
+
+    let inserted = 0;
+    let updated = 0;
+    const now = Date.now();
+    for (const row of args.rows) {
+      const example = normalizeRowInput(row);
+      const existing = await findByText(ctx as any, example.text);
+      if (existing) {
+        await ctx.db.patch(existing._id, { ...example, updatedAt: now });
+        updated += 1;
+      } else {
+        await ctx.db.insert("promptExamples", { ...example, createdAt: now, updatedAt: now });
+        inserted += 1;
+      }
+    }
+
+    return { inserted, updated };
+  },
+});
@@ -0,0 +1,157 @@
+import { v } from "convex/values";
+import { internalQuery } from "./_generated/server";
+import { PROMPT_SIMILARITY_HISTORY_ROUNDS, PROMPT_SIMILARITY_THRESHOLD } from "./constants";
+import { getEngineState } from "./state";
+
+const NGRAM_SIZE = 3;
+const ADMIN_LIST_LIMIT = 50;
+
+export type PromptReference = {
+  text: string;
+  source: "round" | "example";
+  roundNum?: number;
+};
+
+export type PromptSimilarityMatch = {
+  score: number;
+  match: string;
+  source: "round" | "example";
+  matchRoundNum?: number;
+};
+
+type IndexedPromptReference = PromptReference & { ngrams: Set<string> };
+
+const promptReferenceValidator = v.object({
+  text: v.string(),
+  source: v.union(v.literal("round"), v.literal("example")),
+  roundNum: v.optional(v.number()),
+});
+
+export function normalizeForSimilarity(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function getPromptNgrams(text: string): Set<string> {
+  const normalized = normalizeForSimilarity(text);
+  const ngrams = new Set<string>();
+  if (!normalized) return ngrams;
+  const padded = ` ${normalized} `;
+  if (padded.length <= NGRAM_SIZE) {
+    ngrams.add(padded);
+    return ngrams;
+  }
+  for (let index = 0; index <= padded.length - NGRAM_SIZE; index += 1) {
+    ngrams.add(padded.slice(index, index + NGRAM_SIZE));
+  }
+  return ngrams;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const ngram of smaller) {
+    if (larger.has(ngram)) intersection += 1;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+export function indexPromptReferences(references: PromptReference[]): IndexedPromptReference[] {
+  const seen = new Set<string>();
+  const indexed: IndexedPromptReference[] = [];
+  for (const reference of references) {
+    const key = normalizeForSimilarity(reference.text);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    indexed.push({ ...reference, ngrams: getPromptNgrams(reference.text) });
+  }
+  return indexed;
+}
+
+export function findMostSimilarPrompt(
+  prompt: string,
+  references: IndexedPromptReference[],
+): PromptSimilarityMatch | null {
+  const ngrams = getPromptNgrams(prompt);
+  let best: PromptSimilarityMatch | null = null;
+  for (const reference of references) {
+    const score = jaccardSimilarity(ngrams, reference.ngrams);
+    if (!best || score > best.score) {
+      best = {
+        score,
+        match: reference.text,
+        source: reference.source,
+        matchRoundNum: reference.roundNum,
+      };
+    }
+  }
+  return best;
+}
+
+export function isPromptTooSimilar(match: PromptSimilarityMatch | null): boolean {
+  return Boolean(match && match.score >= PROMPT_SIMILARITY_THRESHOLD);
+}
+
+export const getRecentPrompts = internalQuery({
+  args: { expectedGeneration: v.number() },
+  returns: v.array(promptReferenceValidator),
+  handler: async (ctx, args) => {
+    const state = await getEngineState(ctx as any);
+    if (!state || state.generation !== args.expectedGeneration) return [];
+
+    const rounds = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_num", (q) => q.eq("generation", args.expectedGeneration))
+      .order("desc")
+      .take(PROMPT_SIMILARITY_HISTORY_ROUNDS);
+
+    return rounds
+      .filter((round) => Boolean(round.prompt))
+      .map((round) => ({
+        text: round.prompt as string,
+        source: "round" as const,
+        roundNum: round.num,
+      }));
+  },
+});
+
+export const listFlaggedRounds = internalQuery({
+  args: {},
+  returns: v.object({
+    threshold: v.number(),
+    rounds: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const state = await getEngineState(ctx as any);
+    if (!state) return { threshold: PROMPT_SIMILARITY_THRESHOLD, rounds: [] };
+
+    const rounds = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_num", (q) => q.eq("generation", state.generation))
+      .order("desc")
+      .take(PROMPT_SIMILARITY_HISTORY_ROUNDS);
+
+    const flagged = rounds
+      .filter(
+        (round) =>
+          round.promptSimilarity &&
+          (round.promptSimilarity.regenerations > 0 || round.promptSimilarity.score >= PROMPT_SIMILARITY_THRESHOLD),
+      )
+      .slice(0, ADMIN_LIST_LIMIT)
+      .map((round) => ({
+        _id: round._id,
+        num: round.num,
+        prompt: round.prompt ?? "",
+        prompter: round.prompter,
+        similarity: round.promptSimilarity,
+        createdAt: round.createdAt,
+      }));
+
+    return { threshold: PROMPT_SIMILARITY_THRESHOLD, rounds: flagged };
+  },
+});
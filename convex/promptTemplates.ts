@@ -0,0 +1,199 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { PROMPT_TEMPLATE_STATS_ROUNDS } from "./constants";
+import { getEngineState, getOrCreateEngineState } from "./state";
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_KINDS,
+  findMissingTemplateVariables,
+  type PromptTemplateBody,
+  type PromptTemplateKind,
+  type PromptTemplateVersions,
+} from "../shared/promptTemplates";
+import { normalizeShowLanguage } from "../shared/i18n";
+
+const promptTemplateKindValidator = v.union(v.literal("prompt"), v.literal("answer"), v.literal("vote"));
+
+const templateBodyValidator = v.object({
+  version: v.number(),
+  system: v.string(),
+  user: v.string(),
+});
+
+async function getLatestVersion(ctx: { db: any }, kind: PromptTemplateKind): Promise<any | null> {
+  return await ctx.db
+    .query("promptTemplates")
+    .withIndex("by_kind_and_version", (q: any) => q.eq("kind", kind))
+    .order("desc")
+    .first();
+}
+
+async function getVersion(ctx: { db: any }, kind: PromptTemplateKind, version: number): Promise<any | null> {
+  return await ctx.db
+    .query("promptTemplates")
+    .withIndex("by_kind_and_version", (q: any) => q.eq("kind", kind).eq("version", version))
+    .first();
+}
+
+export async function ensurePromptTemplatesSeededImpl(ctx: { db: any }): Promise<void> {
+  const now = Date.now();
+  for (const kind of PROMPT_TEMPLATE_KINDS) {
+    if (await getLatestVersion(ctx, kind)) continue;
+    await ctx.db.insert("promptTemplates", {
+      kind,
+      version: 1,
+      ...DEFAULT_PROMPT_TEMPLATES[kind],
+      note: "Padrao",
+      createdAt: now,
+    });
+  }
+}
+
+export async function getActivePromptTemplateVersions(ctx: { db: any }): Promise<PromptTemplateVersions> {
+  const state = await getEngineState(ctx as any);
+  const versions = {} as PromptTemplateVersions;
+  for (const kind of PROMPT_TEMPLATE_KINDS) {
+    const pinned = state?.promptTemplateVersions?.[kind];
+    versions[kind] = pinned ?? (await getLatestVersion(ctx, kind))?.version ?? 1;
+  }
+  return versions;
+}
+
+async function readTemplate(
+  ctx: { db: any },
+  kind: PromptTemplateKind,
+  version: number,
+): Promise<PromptTemplateBody & { version: number }> {
+  const row = await getVersion(ctx, kind, version);
+  if (!row) return { version, ...DEFAULT_PROMPT_TEMPLATES[kind] };
+  return { version: row.version, system: row.system, user: row.user };
+}
+
+export const getForRound = internalQuery({
+  args: { roundId: v.optional(v.id("rounds")) },
+  returns: v.object({
+    templates: v.object({
+      prompt: templateBodyValidator,
+      answer: templateBodyValidator,
+      vote: templateBodyValidator,
+    }),
+    personas: v.record(v.string(), v.string()),
+    language: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const round = args.roundId ? await ctx.db.get(args.roundId) : null;
+    const versions = round?.templateVersions ?? (await getActivePromptTemplateVersions(ctx as any));
+    const language = round?.language ?? normalizeShowLanguage((await getEngineState(ctx as any))?.showLanguage);
+    const models = await ctx.db.query("models").collect();
+    const personas: Record<string, string> = {};
+    for (const model of models) {
+      if (model.persona) personas[model.modelId] = model.persona;
+    }
+
+    return {
+      templates: {
+        prompt: await readTemplate(ctx as any, "prompt", versions.prompt),
+        answer: await readTemplate(ctx as any, "answer", versions.answer),
+        vote: await readTemplate(ctx as any, "vote", versions.vote),
+      },
+      personas,
+      language,
+    };
+  },
+});
+
+export const getAdminState = internalQuery({
+  args: {},
+  returns: v.object({
+    activeVersions: v.object({ prompt: v.number(), answer: v.number(), vote: v.number() }),
+    templates: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const activeVersions = await getActivePromptTemplateVersions(ctx as any);
+    const rows = await ctx.db.query("promptTemplates").collect();
+    const state = await getEngineState(ctx as any);
+    const rounds = state
+      ? await ctx.db
+          .query("rounds")
+          .withIndex("by_generation_and_num", (q) => q.eq("generation", state.generation))
+          .order("desc")
+          .take(PROMPT_TEMPLATE_STATS_ROUNDS)
+      : [];
+
+    const roundCounts = new Map<string, number>();
+    for (const round of rounds) {
+      if (!round.templateVersions) continue;
+      for (const kind of PROMPT_TEMPLATE_KINDS) {
+        const key = `${kind}:${round.templateVersions[kind]}`;
+        roundCounts.set(key, (roundCounts.get(key) ?? 0) + 1);
+      }
+    }
+
+    return {
+      activeVersions,
+      templates: rows
+        .sort((a, b) => a.kind.localeCompare(b.kind) || b.version - a.version)
+        .map((row) => ({
+          ...row,
+          recentRounds: roundCounts.get(`${row.kind}:${row.version}`) ?? 0,
+        })),
+    };
+  },
+});
+
+export const saveVersion = internalMutation({
+  args: {
+    kind: promptTemplateKindValidator,
+    system: v.string(),
+    user: v.string(),
+    note: v.optional(v.string()),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const body = { system: args.system.trim(), user: args.user.trim() };
+    if (!body.system || !body.user) throw new Error("Template vazio");
+    const missing = findMissingTemplateVariables(args.kind, body);
+    if (missing.length > 0) {
+      throw new Error(`Template sem as variaveis obrigatorias: ${missing.map((name) => `{${name}}`).join(", ")}`);
+    }
+
+    const latest = await getLatestVersion(ctx as any, args.kind);
+    const version = (latest?.version ?? 0) + 1;
+    const now = Date.now();
+    await ctx.db.insert("promptTemplates", {
+      kind: args.kind,
+      version,
+      ...body,
+      note: args.note?.trim() || undefined,
+      createdAt: now,
+    });
+
+    const state = await getOrCreateEngineState(ctx as any);
+    const activeVersions = await getActivePromptTemplateVersions(ctx as any);
+    await ctx.db.patch(state._id, {
+      promptTemplateVersions: { ...activeVersions, [args.kind]: version },
+      updatedAt: now,
+    });
+    return version;
+  },
+});
+
+export const activateVersion = internalMutation({
+  args: {
+    kind: promptTemplateKindValidator,
+    version: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (!(await getVersion(ctx as any, args.kind, args.version))) {
+      throw new Error("Versao de template nao encontrada");
+    }
+    const state = await getOrCreateEngineState(ctx as any);
+    const activeVersions = await getActivePromptTemplateVersions(ctx as any);
+    await ctx.db.patch(state._id, {
+      promptTemplateVersions: { ...activeVersions, [args.kind]: args.version },
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
@@ -0,0 +1,149 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import {
+  DEFAULT_LLM_PROVIDER_ID,
+  isValidLlmProviderId,
+  normalizeCostPerMillion,
+} from "../shared/models";
+
+const providerKindValidator = v.union(v.literal("openrouter"), v.literal("openai_compatible"));
+
+const runtimeProviderValidator = v.object({
+  providerId: v.string(),
+  kind: providerKindValidator,
+  baseUrl: v.string(),
+  apiKeyEnv: v.optional(v.string()),
+});
+
+const ENV_NAME_REGEX = /^[A-Z_][A-Z0-9_]*$/;
+
+function normalizeBaseUrl(value: string): string {
+  const baseUrl = value.trim().replace(/\/+$/, "");
+  let parsed: URL;
+  try {
+    parsed = new URL(baseUrl);
+  } catch {
+    throw new Error("URL base invalida");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("URL base precisa usar http ou https");
+  }
+  return baseUrl;
+}
+
+async function findByProviderId(ctx: { db: any }, providerId: string): Promise<any | null> {
+  return await ctx.db
+    .query("llmProviders")
+    .withIndex("by_providerId", (q: any) => q.eq("providerId", providerId))
+    .first();
+}
+
+export const listProviders = internalQuery({
+  args: {},
+  returns: v.array(v.any()),
+  handler: async (ctx) => {
+    const rows = await ctx.db.query("llmProviders").collect();
+    return rows.sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+  },
+});
+
+export const upsertProvider = internalMutation({
+  args: {
+    providerId: v.string(),
+    name: v.string(),
+    kind: providerKindValidator,
+    baseUrl: v.string(),
+    apiKeyEnv: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.id("llmProviders"),
+  handler: async (ctx, args) => {
+    const providerId = args.providerId.trim().toLowerCase();
+    if (!isValidLlmProviderId(providerId)) {
+      throw new Error("ID do provedor invalido (use letras minusculas, numeros e hifen)");
+    }
+    if (providerId === DEFAULT_LLM_PROVIDER_ID) {
+      throw new Error("ID reservado para o OpenRouter padrao");
+    }
+    const name = args.name.trim();
+    if (!name) throw new Error("Nome do provedor vazio");
+    const baseUrl = normalizeBaseUrl(args.baseUrl);
+    const apiKeyEnv = args.apiKeyEnv?.trim() || undefined;
+    if (apiKeyEnv && !ENV_NAME_REGEX.test(apiKeyEnv)) {
+      throw new Error("Nome da variavel de ambiente invalido");
+    }
+
+    const now = Date.now();
+    const existing = await findByProviderId(ctx as any, providerId);
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        name,
+        kind: args.kind,
+        baseUrl,
+        apiKeyEnv,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+    return await ctx.db.insert("llmProviders", {
+      providerId,
+      name,
+      kind: args.kind,
+      baseUrl,
+      ...(apiKeyEnv ? { apiKeyEnv } : {}),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const removeProvider = internalMutation({
+  args: { providerId: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await findByProviderId(ctx as any, args.providerId);
+    if (!existing) throw new Error("Provedor nao encontrado");
+    const models = await ctx.db.query("models").collect();
+    const inUse = models.find((model) => model.providerId === existing.providerId);
+    if (inUse) {
+      throw new Error(`Provedor em uso pelo modelo ${inUse.name}`);
+    }
+    await ctx.db.delete(existing._id);
+    return null;
+  },
+});
+
+export const getRuntimeRoutes = internalQuery({
+  args: {},
+  returns: v.array(
+    v.object({
+      modelId: v.string(),
+      provider: v.union(runtimeProviderValidator, v.null()),
+      inputCostPerMillionUsd: v.optional(v.number()),
+      outputCostPerMillionUsd: v.optional(v.number()),
+    }),
+  ),
+  handler: async (ctx) => {
+    const providers = await ctx.db.query("llmProviders").collect();
+    const providersById = new Map(providers.map((provider) => [provider.providerId, provider]));
+    const models = await ctx.db.query("models").collect();
+
+    return models
+      .filter((model) => !model.archivedAt)
+      .map((model) => {
+        const provider = model.providerId ? providersById.get(model.providerId) : undefined;
+        return {
+          modelId: model.modelId,
+          provider: provider
+            ? {
+                providerId: provider.providerId,
+                kind: provider.kind,
+                baseUrl: provider.baseUrl,
+                ...(provider.apiKeyEnv ? { apiKeyEnv: provider.apiKeyEnv } : {}),
+              }
+            : null,
+          inputCostPerMillionUsd: normalizeCostPerMillion(model.inputCostPerMillionUsd),
+          outputCostPerMillionUsd: normalizeCostPerMillion(model.outputCostPerMillionUsd),
+        };
+      });
+  },
+});
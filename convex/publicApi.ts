@@ -0,0 +1,234 @@
+import { v } from "convex/values";
+import { internalQuery } from "./_generated/server";
+import {
+  PUBLIC_API_DEFAULT_PAGE_SIZE,
+  PUBLIC_API_MAX_PAGE_SIZE,
+  PUBLIC_API_SCAN_LIMIT,
+} from "./constants";
+import { decodeCompletedAtCursor, encodeCompletedAtCursor, toClientRound } from "./rounds";
+import { getEngineState, normalizeScoreRecord } from "./state";
+import { getEnabledModelIds, listModelCatalog } from "./models";
+import { listCurrentModelRatings } from "./ratings";
+import type { ModelRating } from "../shared/types";
+
+function toPublicRound(round: any) {
+  const client = toClientRound(round);
+  if (!client) return null;
+  return {
+    ...client,
+    generation: round.generation,
+    completedAt: round.completedAt ?? null,
+  };
+}
+
+function toPublicRating(rating: ModelRating | undefined) {
+  if (!rating) return null;
+  return {
+    rating: rating.rating,
+    deviation: rating.deviation,
+    games: rating.games,
+    wins: rating.wins,
+    losses: rating.losses,
+    draws: rating.draws,
+  };
+}
+
+function clampPageSize(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) return PUBLIC_API_DEFAULT_PAGE_SIZE;
+  return Math.min(Math.max(Math.floor(limit), 1), PUBLIC_API_MAX_PAGE_SIZE);
+}
+
+async function readGeneration(ctx: { db: any }, requested: number | undefined): Promise<number> {
+  if (requested !== undefined) return requested;
+  const engine = await getEngineState(ctx as any);
+  return engine?.generation ?? 1;
+}
+
+export const getCurrentRound = internalQuery({
+  args: {},
+  returns: v.object({
+    generation: v.number(),
+    isPaused: v.boolean(),
+    active: v.union(v.any(), v.null()),
+    lastCompleted: v.union(v.any(), v.null()),
+  }),
+  handler: async (ctx) => {
+    const engine = await getEngineState(ctx as any);
+    const active = engine?.activeRoundId ? await ctx.db.get(engine.activeRoundId) : null;
+    const lastCompleted = engine?.lastCompletedRoundId ? await ctx.db.get(engine.lastCompletedRoundId) : null;
+    return {
+      generation: engine?.generation ?? 1,
+      isPaused: engine?.isPaused ?? false,
+      active: active ? toPublicRound(active) : null,
+      lastCompleted: lastCompleted ? toPublicRound(lastCompleted) : null,
+    };
+  },
+});
+
+export const getRound = internalQuery({
+  args: { generation: v.number(), num: v.number() },
+  returns: v.union(v.any(), v.null()),
+  handler: async (ctx, args) => {
+    const round = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_num", (q) => q.eq("generation", args.generation).eq("num", args.num))
+      .first();
+    if (!round || round.phase !== "done") return null;
+    return toPublicRound(round);
+  },
+});
+
+// Cursors point at the last round scanned, so filtering by model can return short
+// pages without losing its place in the history.
+export const listRounds = internalQuery({
+  args: {
+    generation: v.optional(v.number()),
+    modelId: v.optional(v.string()),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    generation: v.number(),
+    rounds: v.array(v.any()),
+    nextCursor: v.union(v.string(), v.null()),
+  }),
+  handler: async (ctx, args) => {
+    const generation = await readGeneration(ctx, args.generation);
+    const pageSize = clampPageSize(args.limit);
+    const to = args.to ?? Number.MAX_SAFE_INTEGER;
+    const after = args.cursor !== undefined ? decodeCompletedAtCursor(args.cursor) : null;
+    const upper = after ? Math.min(to, after.completedAt) : to;
+    const scanSize = args.modelId ? PUBLIC_API_SCAN_LIMIT : pageSize;
+
+    const scanned = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_completedAt", (q) =>
+        q.eq("generation", generation).gte("completedAt", args.from ?? 0).lte("completedAt", upper),
+      )
+      .order("desc")
+      .filter((q) =>
+        after
+          ? q.or(q.lt(q.field("completedAt"), after.completedAt), q.lt(q.field("_creationTime"), after.creationTime))
+          : true,
+      )
+      .take(scanSize + 1);
+
+    const rounds = [];
+    let examined = 0;
+    let lastScanned: string | null = null;
+    for (const round of scanned.slice(0, scanSize)) {
+      examined += 1;
+      lastScanned = encodeCompletedAtCursor(round);
+      const matches =
+        !args.modelId ||
+        round.prompter.id === args.modelId ||
+        round.contestants.some((contestant: any) => contestant.id === args.modelId);
+      if (!matches) continue;
+      rounds.push(toPublicRound(round));
+      if (rounds.length === pageSize) break;
+    }
+
+    return {
+      generation,
+      rounds,
+      nextCursor: examined < scanned.length ? lastScanned : null,
+    };
+  },
+});
+
+export const listModels = internalQuery({
+  args: {},
+  returns: v.object({
+    generation: v.number(),
+    models: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const engine = await getEngineState(ctx as any);
+    const generation = engine?.generation ?? 1;
+    const models = await listModelCatalog(ctx as any);
+    const ratings = await listCurrentModelRatings(ctx, generation, models);
+    const scores = engine?.scores ?? {};
+    const humanScores = normalizeScoreRecord(engine?.humanScores);
+    const humanVoteTotals = normalizeScoreRecord(engine?.humanVoteTotals);
+
+    return {
+      generation,
+      models: models
+        .filter((model) => !model.archivedAt)
+        .map((model) => ({
+          modelId: model.modelId,
+          name: model.name,
+          color: model.color,
+          logoId: model.logoId,
+          enabled: model.enabled,
+          roles: {
+            prompt: model.canPrompt,
+            answer: model.canAnswer,
+            vote: model.canVote,
+          },
+          stats: {
+            aiWins: scores[model.name] ?? 0,
+            humanWins: humanScores[model.name] ?? 0,
+            humanVotes: humanVoteTotals[model.name] ?? 0,
+            aiRating: toPublicRating(
+              ratings.find((entry) => entry.source === "ai" && entry.modelId === model.modelId),
+            ),
+            humanRating: toPublicRating(
+              ratings.find((entry) => entry.source === "human" && entry.modelId === model.modelId),
+            ),
+          },
+        })),
+    };
+  },
+});
+
+export const getStandings = internalQuery({
+  args: {},
+  returns: v.object({
+    generation: v.number(),
+    completedRounds: v.number(),
+    ai: v.array(v.any()),
+    human: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const engine = await getEngineState(ctx as any);
+    const generation = engine?.generation ?? 1;
+    const models = await listModelCatalog(ctx as any);
+    const enabledModelIds = new Set(getEnabledModelIds(models));
+    const ratings = await listCurrentModelRatings(ctx, generation, models);
+    const scores = engine?.scores ?? {};
+    const humanScores = normalizeScoreRecord(engine?.humanScores);
+    const humanVoteTotals = normalizeScoreRecord(engine?.humanVoteTotals);
+    const ranked = models.filter((model) => enabledModelIds.has(model.modelId));
+
+    const ai = ranked
+      .map((model) => ({
+        modelId: model.modelId,
+        name: model.name,
+        wins: scores[model.name] ?? 0,
+        rating: ratings.find((entry) => entry.source === "ai" && entry.modelId === model.modelId)?.rating ?? null,
+      }))
+      .sort((a, b) => b.wins - a.wins || a.name.localeCompare(b.name))
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+    const human = ranked
+      .map((model) => ({
+        modelId: model.modelId,
+        name: model.name,
+        wins: humanScores[model.name] ?? 0,
+        votes: humanVoteTotals[model.name] ?? 0,
+        rating: ratings.find((entry) => entry.source === "human" && entry.modelId === model.modelId)?.rating ?? null,
+      }))
+      .sort((a, b) => b.wins - a.wins || b.votes - a.votes || a.name.localeCompare(b.name))
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+    return {
+      generation,
+      completedRounds: engine?.completedRounds ?? 0,
+      ai,
+      human,
+    };
+  },
+});
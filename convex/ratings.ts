@@ -0,0 +1,245 @@
+import type { ModelCatalogEntry } from "../shared/models";
+import type { ModelRating, RatingSource } from "../shared/types";
+import {
+  RATING_INITIAL,
+  RATING_INITIAL_DEVIATION,
+  RATING_INITIAL_VOLATILITY,
+  RATING_MIN_DEVIATION,
+  RATING_SYSTEM_TAU,
+} from "./constants";
+
+// Glicko-2 works on an internal scale; 173.7178 = 400 / ln(10).
+const GLICKO2_SCALE = 173.7178;
+const VOLATILITY_CONVERGENCE = 0.000001;
+
+type RatingValues = {
+  rating: number;
+  deviation: number;
+  volatility: number;
+};
+
+type RatingOpponent = RatingValues & {
+  score: number;
+};
+
+function normalizeEpoch(value: unknown): number {
+  return Number.isFinite(value) ? Math.max(1, Math.floor(Number(value))) : 1;
+}
+
+function clampDeviation(value: number): number {
+  if (!Number.isFinite(value)) return RATING_INITIAL_DEVIATION;
+  return Math.max(RATING_MIN_DEVIATION, Math.min(RATING_INITIAL_DEVIATION, value));
+}
+
+function glickoG(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function glickoExpected(mu: number, muOpponent: number, phiOpponent: number): number {
+  return 1 / (1 + Math.exp(-glickoG(phiOpponent) * (mu - muOpponent)));
+}
+
+function computeNextVolatility(phi: number, sigma: number, variance: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const tauSquared = RATING_SYSTEM_TAU * RATING_SYSTEM_TAU;
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + variance + ex;
+    return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denom * denom) - (x - a) / tauSquared;
+  };
+
+  let upper = a;
+  let lower: number;
+  if (delta * delta > phi * phi + variance) {
+    lower = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * RATING_SYSTEM_TAU) < 0) k += 1;
+    lower = a - k * RATING_SYSTEM_TAU;
+  }
+
+  let fUpper = f(upper);
+  let fLower = f(lower);
+  for (let i = 0; i < 100 && Math.abs(lower - upper) > VOLATILITY_CONVERGENCE; i++) {
+    const next = upper + ((upper - lower) * fUpper) / (fLower - fUpper);
+    const fNext = f(next);
+    if (fNext * fLower <= 0) {
+      upper = lower;
+      fUpper = fLower;
+    } else {
+      fUpper /= 2;
+    }
+    lower = next;
+    fLower = fNext;
+  }
+
+  const next = Math.exp(upper / 2);
+  return Number.isFinite(next) && next > 0 ? next : sigma;
+}
+
+export function computeGlicko2Update(player: RatingValues, opponents: RatingOpponent[]): RatingValues {
+  if (opponents.length === 0) return player;
+
+  const mu = (player.rating - RATING_INITIAL) / GLICKO2_SCALE;
+  const phi = player.deviation / GLICKO2_SCALE;
+
+  let varianceInverse = 0;
+  let improvement = 0;
+  for (const opponent of opponents) {
+    const muOpponent = (opponent.rating - RATING_INITIAL) / GLICKO2_SCALE;
+    const phiOpponent = opponent.deviation / GLICKO2_SCALE;
+    const g = glickoG(phiOpponent);
+    const expected = glickoExpected(mu, muOpponent, phiOpponent);
+    varianceInverse += g * g * expected * (1 - expected);
+    improvement += g * (opponent.score - expected);
+  }
+
+  const variance = 1 / varianceInverse;
+  const delta = variance * improvement;
+  const volatility = computeNextVolatility(phi, player.volatility, variance, delta);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const nextPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+  const nextMu = mu + nextPhi * nextPhi * improvement;
+
+  return {
+    rating: nextMu * GLICKO2_SCALE + RATING_INITIAL,
+    deviation: clampDeviation(nextPhi * GLICKO2_SCALE),
+    volatility,
+  };
+}
+
+async function getRatingRow(
+  ctx: any,
+  generation: number,
+  source: RatingSource,
+  modelId: string,
+  metricsEpoch: number,
+) {
+  return await ctx.db
+    .query("modelRatings")
+    .withIndex("by_generation_source_model_epoch", (q: any) =>
+      q
+        .eq("generation", generation)
+        .eq("source", source)
+        .eq("modelId", modelId)
+        .eq("metricsEpoch", metricsEpoch),
+    )
+    .first();
+}
+
+// Each contestant pair is one game of the rating period: more votes wins, equal votes is a draw.
+export async function applyRoundRatings(
+  ctx: any,
+  args: {
+    generation: number;
+    source: RatingSource;
+    roundId: string;
+    contestants: Array<{ id: string; name: string; metricsEpoch?: number }>;
+    points: number[];
+  },
+): Promise<void> {
+  const { contestants, points } = args;
+  if (contestants.length < 2) return;
+  const totalPoints = points.reduce((sum, value) => sum + (value ?? 0), 0);
+  if (totalPoints <= 0) return;
+
+  const entries = await Promise.all(
+    contestants.map(async (contestant) => {
+      const metricsEpoch = normalizeEpoch(contestant.metricsEpoch);
+      const row = await getRatingRow(ctx, args.generation, args.source, contestant.id, metricsEpoch);
+      return {
+        contestant,
+        metricsEpoch,
+        row,
+        values: {
+          rating: Number.isFinite(row?.rating) ? Number(row.rating) : RATING_INITIAL,
+          deviation: clampDeviation(Number(row?.deviation ?? RATING_INITIAL_DEVIATION)),
+          volatility: Number.isFinite(row?.volatility) ? Number(row.volatility) : RATING_INITIAL_VOLATILITY,
+        },
+      };
+    }),
+  );
+
+  const now = Date.now();
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index]!;
+    const ownPoints = points[index] ?? 0;
+    let wins = 0;
+    let losses = 0;
+    let draws = 0;
+    const opponents: RatingOpponent[] = [];
+    entries.forEach((other, otherIndex) => {
+      if (otherIndex === index) return;
+      const otherPoints = points[otherIndex] ?? 0;
+      const score = ownPoints > otherPoints ? 1 : ownPoints < otherPoints ? 0 : 0.5;
+      if (score === 1) wins += 1;
+      else if (score === 0) losses += 1;
+      else draws += 1;
+      opponents.push({ ...other.values, score });
+    });
+
+    const next = computeGlicko2Update(entry.values, opponents);
+    if (entry.row) {
+      await ctx.db.patch(entry.row._id, {
+        modelName: entry.contestant.name,
+        rating: next.rating,
+        deviation: next.deviation,
+        volatility: next.volatility,
+        games: entry.row.games + 1,
+        wins: entry.row.wins + wins,
+        losses: entry.row.losses + losses,
+        draws: entry.row.draws + draws,
+        lastRoundId: args.roundId,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("modelRatings", {
+        generation: args.generation,
+        source: args.source,
+        modelId: entry.contestant.id,
+        metricsEpoch: entry.metricsEpoch,
+        modelName: entry.contestant.name,
+        rating: next.rating,
+        deviation: next.deviation,
+        volatility: next.volatility,
+        games: 1,
+        wins,
+        losses,
+        draws,
+        lastRoundId: args.roundId,
+        updatedAt: now,
+      });
+    }
+  }
+}
+
+export async function listCurrentModelRatings(
+  ctx: any,
+  generation: number,
+  models: ModelCatalogEntry[],
+): Promise<ModelRating[]> {
+  const catalogById = new Map(models.map((model) => [model.modelId, model]));
+  const rows = await ctx.db
+    .query("modelRatings")
+    .withIndex("by_generation", (q: any) => q.eq("generation", generation))
+    .collect();
+
+  const ratings: ModelRating[] = [];
+  for (const row of rows) {
+    const model = catalogById.get(row.modelId);
+    if (!model || normalizeEpoch(model.metricsEpoch) !== row.metricsEpoch) continue;
+    ratings.push({
+      source: row.source,
+      modelId: row.modelId,
+      name: model.name,
+      metricsEpoch: row.metricsEpoch,
+      rating: Math.round(row.rating),
+      deviation: Math.round(row.deviation),
+      games: row.games,
+      wins: row.wins,
+      losses: row.losses,
+      draws: row.draws,
+    });
+  }
+  return ratings;
+}
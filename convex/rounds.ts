@@ -1,12 +1,9 @@
 import type { RoundState, VoteInfo } from "../shared/types";
+import { indexFromSide } from "../shared/rounds";
 
 function toClientVote(round: any, vote: any): VoteInfo {
-  const votedFor =
-    vote.votedForSide === "A"
-      ? round.contestants[0]
-      : vote.votedForSide === "B"
-        ? round.contestants[1]
-        : undefined;
+  const sideIndex = indexFromSide(vote.votedForSide);
+  const votedFor = sideIndex >= 0 ? round.contestants[sideIndex] : undefined;
 
   return {
     voter: vote.voter,
@@ -17,6 +14,57 @@ function toClientVote(round: any, vote: any): VoteInfo {
   };
 }
 
+function readRoundCounts(
+  round: any,
+  counts: unknown,
+  legacyA: unknown,
+  legacyB: unknown,
+): number[] | undefined {
+  if (Array.isArray(counts)) return counts.map((value) => Number(value) || 0);
+  if (typeof legacyA !== "number" && typeof legacyB !== "number") return undefined;
+  return round.contestants.map((_: unknown, index: number) =>
+    index === 0 ? Number(legacyA ?? 0) : index === 1 ? Number(legacyB ?? 0) : 0,
+  );
+}
+
+export function getRoundScores(round: any): number[] | undefined {
+  return readRoundCounts(round, round.scores, round.scoreA, round.scoreB);
+}
+
+export function getRoundViewerVoteCounts(round: any): number[] | undefined {
+  return readRoundCounts(round, round.viewerVoteCounts, round.viewerVotesA, round.viewerVotesB);
+}
+
+// Judge votes per contestant; round.scores holds them scaled by 100.
+export function countRoundModelVotes(round: any): number[] {
+  const counts: number[] = round.contestants.map(() => 0);
+  for (const vote of round.votes ?? []) {
+    const sideIndex = indexFromSide(vote.votedForSide);
+    if (sideIndex >= 0 && sideIndex < counts.length) counts[sideIndex] = (counts[sideIndex] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// Cursor for scans over by_generation_and_completedAt: the completedAt and _creationTime
+// of the last round scanned, the index's own order, so rounds that finished in the same
+// millisecond are not skipped between pages.
+export function encodeCompletedAtCursor(round: { completedAt?: number; _creationTime: number }): string {
+  return `${round.completedAt ?? 0}:${round._creationTime}`;
+}
+
+export function decodeCompletedAtCursor(cursor: string): { completedAt: number; creationTime: number } | null {
+  const [completedAt, creationTime, ...rest] = cursor.split(":").map(Number);
+  if (rest.length > 0 || !Number.isFinite(completedAt) || !Number.isFinite(creationTime)) return null;
+  return { completedAt: completedAt!, creationTime: creationTime! };
+}
+
+// Prompt and answers joined for the rounds search index.
+export function buildRoundSearchText(round: { prompt?: string; answerTasks: { result?: string }[] }): string {
+  return [round.prompt, ...round.answerTasks.map((task) => task.result)]
+    .filter((value): value is string => typeof value === "string" && value.trim().length > 0)
+    .join("\n");
+}
+
 export function toClientRound(round: any | null): RoundState | null {
   if (!round) return null;
 
@@ -30,15 +78,19 @@ export function toClientRound(round: any | null): RoundState | null {
     prompter: round.prompter,
     promptTask: round.promptTask,
     prompt: round.prompt,
-    contestants: [round.contestants[0]!, round.contestants[1]!],
-    answerTasks: [round.answerTasks[0]!, round.answerTasks[1]!],
+    contestants: [...round.contestants],
+    answerTasks: [...round.answerTasks],
     votes: round.votes.map((vote: any) => toClientVote(round, vote)),
-    scoreA: round.scoreA,
-    scoreB: round.scoreB,
-    viewerVotesA: round.viewerVotesA,
-    viewerVotesB: round.viewerVotesB,
+    scores: getRoundScores(round),
+    viewerVoteCounts: getRoundViewerVoteCounts(round),
     viewerVotingEndsAt: round.viewerVotingEndsAt,
     viewerVotingWindowMs: round.viewerVotingWindowMs,
     viewerVotingMode: round.viewerVotingMode,
+    tournamentId: round.tournamentId,
+    tournamentMatchId: round.tournamentMatchId,
+    tournamentGame: round.tournamentGame,
+    promptSubmitter: round.promptSubmitter,
+    templateVersions: round.templateVersions,
+    language: round.language,
   };
 }
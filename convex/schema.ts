@@ -41,6 +41,15 @@ const taskMetricsValidator = v.object({
   recordedAt: v.number(),
 });
 
+const moderationActionValidator = v.union(v.literal("regenerate"), v.literal("replace"), v.literal("hold"));
+
+const taskModerationValidator = v.object({
+  status: v.union(v.literal("passed"), v.literal("flagged")),
+  action: v.optional(v.union(v.literal("regenerated"), v.literal("replaced"), v.literal("held"))),
+  reasons: v.array(v.string()),
+  checkedAt: v.number(),
+});
+
 const taskValidator = v.object({
   model: modelValidator,
   startedAt: v.number(),
@@ -48,16 +57,96 @@ const taskValidator = v.object({
   result: v.optional(v.string()),
   error: v.optional(v.string()),
   metrics: v.optional(taskMetricsValidator),
+  moderation: v.optional(taskModerationValidator),
+});
+
+const promptSimilarityValidator = v.object({
+  score: v.number(),
+  match: v.string(),
+  source: v.union(v.literal("round"), v.literal("example")),
+  matchRoundNum: v.optional(v.number()),
+  regenerations: v.number(),
+});
+
+const promptTemplateKindValidator = v.union(v.literal("prompt"), v.literal("answer"), v.literal("vote"));
+
+const promptTemplateVersionsValidator = v.object({
+  prompt: v.number(),
+  answer: v.number(),
+  vote: v.number(),
+});
+
+const showLanguageValidator = v.union(v.literal("pt-BR"), v.literal("en"), v.literal("es"));
+
+const contestantSideValidator = v.union(
+  v.literal("A"),
+  v.literal("B"),
+  v.literal("C"),
+  v.literal("D"),
+);
+
+const viewerVoteFlagReasonValidator = v.union(v.literal("burst"), v.literal("no_presence"));
+
+const webhookEventValidator = v.union(
+  v.literal("round.created"),
+  v.literal("prompt.ready"),
+  v.literal("answers.ready"),
+  v.literal("voting.started"),
+  v.literal("round.finalized"),
+  v.literal("round.skipped"),
+  v.literal("engine.paused"),
+  v.literal("engine.resumed"),
+);
+
+const seasonStandingValidator = v.object({
+  modelId: v.union(v.string(), v.null()),
+  name: v.string(),
+  aiWins: v.number(),
+  humanWins: v.number(),
+  humanVotes: v.number(),
+  aiRating: v.union(v.number(), v.null()),
+  humanRating: v.union(v.number(), v.null()),
+});
+
+const seasonConfigValidator = v.object({
+  runsMode: v.union(v.literal("infinite"), v.literal("finite"), v.literal("tournament")),
+  totalRounds: v.optional(v.number()),
+  contestantsPerRound: v.number(),
+  showLanguage: showLanguageValidator,
+  enabledModelIds: v.array(v.string()),
+  moderationAction: v.optional(moderationActionValidator),
+  promptTemplateVersions: v.optional(promptTemplateVersionsValidator),
+  viewerVoteWindowActiveMs: v.optional(v.number()),
+  viewerVoteWindowIdleMs: v.optional(v.number()),
+  postRoundDelayActiveMs: v.optional(v.number()),
+  postRoundDelayIdleMs: v.optional(v.number()),
 });
 
 const storedVoteValidator = v.object({
   voter: modelValidator,
   startedAt: v.number(),
   finishedAt: v.optional(v.number()),
-  votedForSide: v.optional(v.union(v.literal("A"), v.literal("B"))),
+  votedForSide: v.optional(contestantSideValidator),
   error: v.optional(v.boolean()),
 });
 
+const tournamentMatchValidator = v.object({
+  id: v.string(),
+  bracket: v.union(v.literal("winners"), v.literal("losers"), v.literal("grand_final")),
+  round: v.number(),
+  sources: v.array(
+    v.object({
+      kind: v.union(v.literal("seed"), v.literal("winner"), v.literal("loser")),
+      seed: v.optional(v.number()),
+      matchId: v.optional(v.string()),
+    }),
+  ),
+  wins: v.array(v.number()),
+  games: v.number(),
+  winnerSlot: v.optional(v.number()),
+  resetOf: v.optional(v.string()),
+});
+
 export default defineSchema({
   models: defineTable({
     modelId: v.string(),
@@ -70,6 +159,10 @@ export default defineSchema({
     canPrompt: v.optional(v.boolean()),
     canAnswer: v.optional(v.boolean()),
     canVote: v.optional(v.boolean()),
+    providerId: v.optional(v.string()),
+    inputCostPerMillionUsd: v.optional(v.number()),
+    outputCostPerMillionUsd: v.optional(v.number()),
+    persona: v.optional(v.string()),
     archivedAt: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -84,8 +177,9 @@ export default defineSchema({
     generation: v.number(),
     isPaused: v.boolean(),
     done: v.boolean(),
-    runsMode: v.union(v.literal("infinite"), v.literal("finite")),
+    runsMode: v.union(v.literal("infinite"), v.literal("finite"), v.literal("tournament")),
     totalRounds: v.optional(v.number()),
+    activeTournamentId: v.optional(v.id("tournaments")),
     nextRoundNum: v.number(),
     activeRoundId: v.optional(v.id("rounds")),
     lastCompletedRoundId: v.optional(v.id("rounds")),
@@ -93,6 +187,17 @@ export default defineSchema({
     humanScores: v.optional(v.record(v.string(), v.number())),
     humanVoteTotals: v.optional(v.record(v.string(), v.number())),
     enabledModelIds: v.optional(v.array(v.string())),
+    contestantsPerRound: v.optional(v.number()),
+    promptExamplesSeededAt: v.optional(v.number()),
+    moderationAction: v.optional(moderationActionValidator),
+    moderationJudgeModelId: v.optional(v.string()),
+    promptTemplateVersions: v.optional(promptTemplateVersionsValidator),
+    showLanguage: v.optional(showLanguageValidator),
+    budgetHourlyUsd: v.optional(v.number()),
+    budgetDailyUsd: v.optional(v.number()),
+    budgetMonthlyUsd: v.optional(v.number()),
+    budgetModelDailyUsd: v.optional(v.number()),
+    voteChallengeBits: v.optional(v.number()),
     completedRounds: v.number(),
     updatedAt: v.number(),
     runnerLeaseId: v.optional(v.string()),
@@ -143,36 +248,176 @@ export default defineSchema({
     scoreB: v.optional(v.number()),
     viewerVotesA: v.optional(v.number()),
     viewerVotesB: v.optional(v.number()),
+    scores: v.optional(v.array(v.number())),
+    viewerVoteCounts: v.optional(v.array(v.number())),
     viewerVotingEndsAt: v.optional(v.number()),
     viewerVotingWindowMs: v.optional(v.number()),
     viewerVotingMode: v.optional(v.union(v.literal("active"), v.literal("idle"))),
     skipped: v.optional(v.boolean()),
     skipReason: v.optional(v.string()),
     skipType: v.optional(v.union(v.literal("prompt_error"), v.literal("answer_error"))),
+    tournamentId: v.optional(v.id("tournaments")),
+    tournamentMatchId: v.optional(v.string()),
+    tournamentGame: v.optional(v.number()),
+    viewerPromptId: v.optional(v.id("viewerPrompts")),
+    promptSubmitter: v.optional(v.string()),
+    promptSimilarity: v.optional(promptSimilarityValidator),
+    templateVersions: v.optional(promptTemplateVersionsValidator),
+    language: v.optional(showLanguageValidator),
     createdAt: v.number(),
     completedAt: v.optional(v.number()),
+    searchText: v.optional(v.string()),
     updatedAt: v.number(),
   })
     .index("by_generation_and_num", ["generation", "num"])
     .index("by_generation_and_completedAt", ["generation", "completedAt"])
-    .index("by_generation_and_phase", ["generation", "phase"]),
+    .index("by_generation_and_phase", ["generation", "phase"])
+    .searchIndex("search_text", { searchField: "searchText", filterFields: ["generation"] }),
+
+  tournaments: defineTable({
+    generation: v.number(),
+    status: v.union(v.literal("active"), v.literal("completed"), v.literal("cancelled")),
+    format: v.union(v.literal("single_elimination"), v.literal("double_elimination")),
+    bestOf: v.number(),
+    participants: v.array(modelValidator),
+    matches: v.array(tournamentMatchValidator),
+    championModelId: v.optional(v.string()),
+    createdAt: v.number(),
+    completedAt: v.optional(v.number()),
+    updatedAt: v.number(),
+  }).index("by_generation", ["generation"]),
+
+  seasons: defineTable({
+    generation: v.number(),
+    name: v.string(),
+    startedAt: v.number(),
+    endedAt: v.optional(v.number()),
+    completedRounds: v.optional(v.number()),
+    config: v.optional(seasonConfigValidator),
+    standings: v.optional(v.array(seasonStandingValidator)),
+    roundsKept: v.optional(v.boolean()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_generation", ["generation"]),
+
+  modelRatings: defineTable({
+    generation: v.number(),
+    source: v.union(v.literal("ai"), v.literal("human")),
+    modelId: v.string(),
+    metricsEpoch: v.number(),
+    modelName: v.string(),
+    rating: v.number(),
+    deviation: v.number(),
+    volatility: v.number(),
+    games: v.number(),
+    wins: v.number(),
+    losses: v.number(),
+    draws: v.number(),
+    lastRoundId: v.optional(v.id("rounds")),
+    updatedAt: v.number(),
+  })
+    .index("by_generation_source_model_epoch", ["generation", "source", "modelId", "metricsEpoch"])
+    .index("by_generation_and_source", ["generation", "source"])
+    .index("by_generation", ["generation"]),
+
+  headToHead: defineTable({
+    generation: v.number(),
+    modelAId: v.string(),
+    modelBId: v.string(),
+    modelAName: v.string(),
+    modelBName: v.string(),
+    rounds: v.number(),
+    aiWinsA: v.number(),
+    aiWinsB: v.number(),
+    aiTies: v.number(),
+    humanRounds: v.number(),
+    humanWinsA: v.number(),
+    humanWinsB: v.number(),
+    humanTies: v.number(),
+    lastRoundId: v.optional(v.id("rounds")),
+    updatedAt: v.number(),
+  })
+    .index("by_generation_and_pair", ["generation", "modelAId", "modelBId"])
+    .index("by_generation", ["generation"]),
 
   viewerVotes: defineTable({
     generation: v.number(),
     roundId: v.id("rounds"),
     viewerId: v.string(),
-    side: v.union(v.literal("A"), v.literal("B")),
+    side: contestantSideValidator,
     shard: v.number(),
+    createdAt: v.optional(v.number()),
+    flaggedReasons: v.optional(v.array(viewerVoteFlagReasonValidator)),
+    flaggedAt: v.optional(v.number()),
+    excludedAt: v.optional(v.number()),
     updatedAt: v.number(),
   })
     .index("by_round_and_viewer", ["roundId", "viewerId"])
     .index("by_round", ["roundId"])
+    .index("by_round_and_createdAt", ["roundId", "createdAt"])
+    .index("by_round_and_flaggedAt", ["roundId", "flaggedAt"])
+    .index("by_flaggedAt", ["flaggedAt"])
+    .index("by_viewerId", ["viewerId"])
     .index("by_generation", ["generation"]),
 
+  viewerVoteIdentities: defineTable({
+    viewerId: v.string(),
+    verifiedUntil: v.optional(v.number()),
+    rateWindowStart: v.number(),
+    rateWindowCount: v.number(),
+    expiresAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_viewerId", ["viewerId"])
+    .index("by_expiresAt", ["expiresAt"]),
+
+  viewerAccounts: defineTable({
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  viewerIdentityLinks: defineTable({
+    identity: v.string(),
+    accountId: v.id("viewerAccounts"),
+    platform: v.string(),
+    displayName: v.optional(v.string()),
+    linkedAt: v.number(),
+  })
+    .index("by_identity", ["identity"])
+    .index("by_accountId", ["accountId"]),
+
+  viewerLinkCodes: defineTable({
+    code: v.string(),
+    viewerId: v.string(),
+    expiresAt: v.number(),
+  })
+    .index("by_code", ["code"])
+    .index("by_viewerId", ["viewerId"])
+    .index("by_expiresAt", ["expiresAt"]),
+
+  viewerOAuthStates: defineTable({
+    state: v.string(),
+    viewerId: v.string(),
+    provider: v.union(v.literal("twitch"), v.literal("youtube")),
+    returnTo: v.string(),
+    expiresAt: v.number(),
+  })
+    .index("by_state", ["state"])
+    .index("by_expiresAt", ["expiresAt"]),
+
+  viewerVoteChallenges: defineTable({
+    viewerId: v.string(),
+    challenge: v.string(),
+    bits: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_viewerId", ["viewerId"])
+    .index("by_expiresAt", ["expiresAt"]),
+
   viewerVoteTallies: defineTable({
     generation: v.number(),
     roundId: v.id("rounds"),
-    side: v.union(v.literal("A"), v.literal("B")),
+    side: contestantSideValidator,
     shard: v.number(),
     count: v.number(),
     updatedAt: v.number(),
@@ -181,6 +426,36 @@ export default defineSchema({
     .index("by_round", ["roundId"])
     .index("by_generation", ["generation"]),
 
+  viewerPredictions: defineTable({
+    generation: v.number(),
+    roundId: v.id("rounds"),
+    viewerId: v.string(),
+    side: contestantSideValidator,
+    displayName: v.optional(v.string()),
+    correct: v.optional(v.boolean()),
+    pointsAwarded: v.optional(v.number()),
+    resolvedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_round_and_viewer", ["roundId", "viewerId"])
+    .index("by_round", ["roundId"])
+    .index("by_generation", ["generation"]),
+
+  viewerPredictionScores: defineTable({
+    generation: v.number(),
+    viewerId: v.string(),
+    displayName: v.optional(v.string()),
+    points: v.number(),
+    correct: v.number(),
+    total: v.number(),
+    streak: v.number(),
+    bestStreak: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_generation_and_viewer", ["generation", "viewerId"])
+    .index("by_generation_and_points", ["generation", "points"]),
+
   telegramRoundPolls: defineTable({
     generation: v.number(),
     roundId: v.id("rounds"),
@@ -189,6 +464,7 @@ export default defineSchema({
     messageId: v.number(),
     votesA: v.number(),
     votesB: v.number(),
+    optionVotes: v.optional(v.array(v.number())),
     status: v.union(
       v.literal("active"),
       v.literal("closed"),
@@ -242,6 +518,102 @@ export default defineSchema({
     updatedAt: v.number(),
   }).index("by_shard", ["shard"]),
 
+  promptExamples: defineTable({
+    text: v.string(),
+    category: v.optional(v.string()),
+    tags: v.array(v.string()),
+    language: v.string(),
+    enabled: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_text", ["text"])
+    .index("by_language_and_enabled", ["language", "enabled"]),
+
+  promptTemplates: defineTable({
+    kind: promptTemplateKindValidator,
+    version: v.number(),
+    system: v.string(),
+    user: v.string(),
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_kind_and_version", ["kind", "version"]),
+
+  llmProviders: defineTable({
+    providerId: v.string(),
+    name: v.string(),
+    kind: v.union(v.literal("openrouter"), v.literal("openai_compatible")),
+    baseUrl: v.string(),
+    apiKeyEnv: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_providerId", ["providerId"]),
+
+  moderationRules: defineTable({
+    pattern: v.string(),
+    kind: v.union(v.literal("word"), v.literal("regex")),
+    enabled: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_enabled", ["enabled"]),
+
+  webhooks: defineTable({
+    url: v.string(),
+    secret: v.string(),
+    events: v.array(webhookEventValidator),
+    enabled: v.boolean(),
+    description: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_enabled", ["enabled"]),
+
+  webhookDeliveries: defineTable({
+    webhookId: v.id("webhooks"),
+    event: v.string(),
+    payload: v.string(),
+    status: v.union(v.literal("pending"), v.literal("success"), v.literal("failed")),
+    attempts: v.number(),
+    nextAttemptAt: v.optional(v.number()),
+    lastStatusCode: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    deliveredAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_webhookId", ["webhookId"])
+    .index("by_createdAt", ["createdAt"]),
+
+  moderationEvents: defineTable({
+    generation: v.number(),
+    roundId: v.id("rounds"),
+    roundNum: v.number(),
+    kind: v.union(v.literal("prompt"), v.literal("answer")),
+    answerIndex: v.optional(v.number()),
+    modelId: v.string(),
+    modelName: v.string(),
+    text: v.string(),
+    source: v.union(v.literal("blocklist"), v.literal("judge")),
+    reasons: v.array(v.string()),
+    action: v.union(v.literal("regenerated"), v.literal("replaced"), v.literal("held")),
+    replacement: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_createdAt", ["createdAt"]),
+
+  viewerPrompts: defineTable({
+    text: v.string(),
+    submitterId: v.string(),
+    submitterName: v.string(),
+    source: v.union(v.literal("web"), v.literal("chat")),
+    status: v.union(v.literal("pending"), v.literal("approved"), v.literal("rejected"), v.literal("used")),
+    reviewedAt: v.optional(v.number()),
+    usedAt: v.optional(v.number()),
+    usedRoundId: v.optional(v.id("rounds")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_status_and_createdAt", ["status", "createdAt"])
+    .index("by_submitterId_and_status", ["submitterId", "status"]),
+
   viewerTargets: defineTable({
     platform: v.union(v.literal("twitch"), v.literal("youtube")),
     target: v.string(),
@@ -262,7 +634,7 @@ export default defineSchema({
     roundId: v.optional(v.id("rounds")),
     roundNum: v.optional(v.number()),
     origin: v.optional(v.union(v.literal("runtime"), v.literal("bootstrap"))),
-    requestType: v.union(v.literal("prompt"), v.literal("answer"), v.literal("vote")),
+    requestType: v.union(v.literal("prompt"), v.literal("answer"), v.literal("vote"), v.literal("moderation")),
     answerIndex: v.optional(v.number()),
     voteIndex: v.optional(v.number()),
     modelId: v.string(),
@@ -291,6 +663,30 @@ export default defineSchema({
     .index("by_generation", ["generation"])
     .index("by_round", ["roundId"]),
 
+  llmSpendBuckets: defineTable({
+    period: v.union(v.literal("hour"), v.literal("day"), v.literal("month")),
+    periodStart: v.number(),
+    modelId: v.optional(v.string()),
+    modelName: v.optional(v.string()),
+    costUsd: v.number(),
+    calls: v.number(),
+    updatedAt: v.number(),
+  }).index("by_period_start_and_modelId", ["period", "periodStart", "modelId"]),
+
+  budgetAlerts: defineTable({
+    scope: v.union(v.literal("hourly"), v.literal("daily"), v.literal("monthly"), v.literal("model")),
+    periodStart: v.number(),
+    modelId: v.optional(v.string()),
+    modelName: v.optional(v.string()),
+    limitUsd: v.number(),
+    spentUsd: v.number(),
+    action: v.union(v.literal("paused"), v.literal("model_disabled")),
+    reason: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_scope_period_and_modelId", ["scope", "periodStart", "modelId"])
+    .index("by_createdAt", ["createdAt"]),
+
   liveReasoningProgress: defineTable({
     generation: v.number(),
     roundId: v.id("rounds"),
@@ -0,0 +1,438 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { ROUND_PURGE_BATCH_SIZE } from "./constants";
+import { getEngineState, normalizeScoreRecord } from "./state";
+import { getEnabledModelIds, listModelCatalog } from "./models";
+import { listCurrentModelRatings } from "./ratings";
+import { countRoundModelVotes, getRoundViewerVoteCounts } from "./rounds";
+import { normalizeContestantsPerRound, resolveWinnerIndex } from "../shared/rounds";
+import { normalizeShowLanguage } from "../shared/i18n";
+import type { ModelCatalogEntry } from "../shared/models";
+
+const SEASON_NAME_MAX_LENGTH = 60;
+
+const convexInternal = internal as any;
+
+type SeasonStanding = {
+  modelId: string | null;
+  name: string;
+  aiWins: number;
+  humanWins: number;
+  humanVotes: number;
+  aiRating: number | null;
+  humanRating: number | null;
+};
+
+export function defaultSeasonName(generation: number): string {
+  return `Temporada ${generation}`;
+}
+
+async function getSeasonRow(ctx: { db: any }, generation: number) {
+  return await ctx.db
+    .query("seasons")
+    .withIndex("by_generation", (q: any) => q.eq("generation", generation))
+    .first();
+}
+
+async function readFirstRoundAt(ctx: { db: any }, generation: number): Promise<number | null> {
+  const first = await ctx.db
+    .query("rounds")
+    .withIndex("by_generation_and_num", (q: any) => q.eq("generation", generation))
+    .first();
+  return first?.createdAt ?? null;
+}
+
+async function buildLiveStandings(
+  ctx: { db: any },
+  state: any,
+  models: ModelCatalogEntry[],
+): Promise<SeasonStanding[]> {
+  const ratings = await listCurrentModelRatings(ctx, state.generation, models);
+  const scores = normalizeScoreRecord(state.scores);
+  const humanScores = normalizeScoreRecord(state.humanScores);
+  const humanVoteTotals = normalizeScoreRecord(state.humanVoteTotals);
+  const enabledModelIds = new Set(state.enabledModelIds ?? getEnabledModelIds(models));
+  const modelsByName = new Map(models.map((model) => [model.name, model]));
+
+  const names = new Set<string>();
+  for (const model of models) {
+    if (enabledModelIds.has(model.modelId)) names.add(model.name);
+  }
+  for (const record of [scores, humanScores, humanVoteTotals]) {
+    for (const [name, value] of Object.entries(record)) {
+      if (value > 0) names.add(name);
+    }
+  }
+
+  return [...names].map((name) => {
+    const model = modelsByName.get(name);
+    const modelId = model?.modelId ?? null;
+    return {
+      modelId,
+      name,
+      aiWins: scores[name] ?? 0,
+      humanWins: humanScores[name] ?? 0,
+      humanVotes: humanVoteTotals[name] ?? 0,
+      aiRating: ratings.find((entry) => entry.source === "ai" && entry.modelId === modelId)?.rating ?? null,
+      humanRating: ratings.find((entry) => entry.source === "human" && entry.modelId === modelId)?.rating ?? null,
+    };
+  });
+}
+
+function buildConfigSnapshot(state: any) {
+  return {
+    runsMode: state.runsMode,
+    totalRounds: state.totalRounds,
+    contestantsPerRound: normalizeContestantsPerRound(state.contestantsPerRound),
+    showLanguage: normalizeShowLanguage(state.showLanguage),
+    enabledModelIds: state.enabledModelIds ?? [],
+    moderationAction: state.moderationAction,
+    promptTemplateVersions: state.promptTemplateVersions,
+    viewerVoteWindowActiveMs: state.viewerVoteWindowActiveMs,
+    viewerVoteWindowIdleMs: state.viewerVoteWindowIdleMs,
+    postRoundDelayActiveMs: state.postRoundDelayActiveMs,
+    postRoundDelayIdleMs: state.postRoundDelayIdleMs,
+  };
+}
+
+// Freezes the current generation's config and standings into its season row and
+// opens the next one. Called by admin.reset before the engine state is cleared.
+export async function closeSeason(
+  ctx: { db: any },
+  state: any,
+  models: ModelCatalogEntry[],
+  options: { roundsKept: boolean },
+): Promise<void> {
+  const now = Date.now();
+  const standings = await buildLiveStandings(ctx, state, models);
+  const snapshot = {
+    endedAt: now,
+    completedRounds: state.completedRounds ?? 0,
+    config: buildConfigSnapshot(state),
+    standings,
+    roundsKept: options.roundsKept,
+    updatedAt: now,
+  };
+
+  const existing = await getSeasonRow(ctx, state.generation);
+  if (existing) {
+    await ctx.db.patch(existing._id, snapshot);
+  } else {
+    await ctx.db.insert("seasons", {
+      generation: state.generation,
+      name: defaultSeasonName(state.generation),
+      startedAt: (await readFirstRoundAt(ctx, state.generation)) ?? now,
+      createdAt: now,
+      ...snapshot,
+    });
+  }
+
+  const nextGeneration = state.generation + 1;
+  if (!(await getSeasonRow(ctx, nextGeneration))) {
+    await ctx.db.insert("seasons", {
+      generation: nextGeneration,
+      name: defaultSeasonName(nextGeneration),
+      startedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+function pickChampion(standings: SeasonStanding[], source: "ai" | "human"): string | null {
+  let champion: SeasonStanding | null = null;
+  for (const entry of standings) {
+    const wins = source === "ai" ? entry.aiWins : entry.humanWins;
+    if (wins <= 0) continue;
+    const best = champion ? (source === "ai" ? champion.aiWins : champion.humanWins) : 0;
+    if (!champion || wins > best || (source === "human" && wins === best && entry.humanVotes > champion.humanVotes)) {
+      champion = entry;
+    }
+  }
+  return champion?.name ?? null;
+}
+
+async function listSeasonSummaries(ctx: { db: any }) {
+  const engine = await getEngineState(ctx as any);
+  const currentGeneration = engine?.generation ?? 1;
+  const rows = await ctx.db.query("seasons").withIndex("by_generation").order("desc").collect();
+  const seasons = rows.filter((row: any) => row.generation <= currentGeneration);
+
+  let liveStandings: SeasonStanding[] = [];
+  if (engine) {
+    const models = await listModelCatalog(ctx as any);
+    liveStandings = await buildLiveStandings(ctx, engine, models);
+  }
+
+  const summaries = seasons.map((row: any) => {
+    const isCurrent = row.generation === currentGeneration;
+    const standings: SeasonStanding[] = isCurrent ? liveStandings : row.standings ?? [];
+    return {
+      generation: row.generation,
+      name: row.name,
+      startedAt: row.startedAt,
+      endedAt: isCurrent ? null : row.endedAt ?? null,
+      completedRounds: isCurrent ? engine?.completedRounds ?? 0 : row.completedRounds ?? 0,
+      isCurrent,
+      roundsKept: isCurrent || Boolean(row.roundsKept),
+      aiChampion: pickChampion(standings, "ai"),
+      humanChampion: pickChampion(standings, "human"),
+    };
+  });
+
+  if (!summaries.some((season: any) => season.isCurrent)) {
+    summaries.unshift({
+      generation: currentGeneration,
+      name: defaultSeasonName(currentGeneration),
+      startedAt: (await readFirstRoundAt(ctx, currentGeneration)) ?? engine?.updatedAt ?? Date.now(),
+      endedAt: null,
+      completedRounds: engine?.completedRounds ?? 0,
+      isCurrent: true,
+      roundsKept: true,
+      aiChampion: pickChampion(liveStandings, "ai"),
+      humanChampion: pickChampion(liveStandings, "human"),
+    });
+  }
+  return summaries;
+}
+
+export const list = query({
+  args: {},
+  returns: v.array(v.any()),
+  handler: async (ctx) => {
+    return await listSeasonSummaries(ctx);
+  },
+});
+
+function rankStandings(standings: SeasonStanding[]) {
+  const aiRanks = new Map<string, number>();
+  const humanRanks = new Map<string, number>();
+  [...standings]
+    .sort((a, b) => b.aiWins - a.aiWins || a.name.localeCompare(b.name))
+    .forEach((entry, index) => aiRanks.set(entry.name, index + 1));
+  [...standings]
+    .sort((a, b) => b.humanWins - a.humanWins || b.humanVotes - a.humanVotes || a.name.localeCompare(b.name))
+    .forEach((entry, index) => humanRanks.set(entry.name, index + 1));
+  return standings.map((entry) => ({
+    ...entry,
+    aiRank: aiRanks.get(entry.name) ?? null,
+    humanRank: humanRanks.get(entry.name) ?? null,
+  }));
+}
+
+function delta(from: number | null | undefined, to: number | null | undefined): number | null {
+  if (from === null || from === undefined || to === null || to === undefined) return null;
+  return to - from;
+}
+
+export const compare = query({
+  args: { from: v.number(), to: v.number() },
+  returns: v.union(v.any(), v.null()),
+  handler: async (ctx, args) => {
+    const engine = await getEngineState(ctx as any);
+    const currentGeneration = engine?.generation ?? 1;
+    const models = engine ? await listModelCatalog(ctx as any) : [];
+
+    const loadSeason = async (generation: number) => {
+      const row = await getSeasonRow(ctx, generation);
+      if (generation === currentGeneration && engine) {
+        return {
+          generation,
+          name: row?.name ?? defaultSeasonName(generation),
+          completedRounds: engine.completedRounds,
+          standings: await buildLiveStandings(ctx, engine, models),
+        };
+      }
+      if (!row?.standings) return null;
+      return {
+        generation,
+        name: row.name,
+        completedRounds: row.completedRounds ?? 0,
+        standings: row.standings as SeasonStanding[],
+      };
+    };
+
+    const from = await loadSeason(args.from);
+    const to = await loadSeason(args.to);
+    if (!from || !to) return null;
+
+    const fromRanked = rankStandings(from.standings);
+    const toRanked = rankStandings(to.standings);
+    const keyOf = (entry: SeasonStanding) => entry.modelId ?? `name:${entry.name}`;
+    const fromByKey = new Map(fromRanked.map((entry) => [keyOf(entry), entry]));
+    const toByKey = new Map(toRanked.map((entry) => [keyOf(entry), entry]));
+    const keys = [...new Set([...toByKey.keys(), ...fromByKey.keys()])];
+
+    const rows = keys.map((key) => {
+      const before = fromByKey.get(key) ?? null;
+      const after = toByKey.get(key) ?? null;
+      return {
+        modelId: after?.modelId ?? before?.modelId ?? null,
+        name: after?.name ?? before?.name ?? key,
+        from: before,
+        to: after,
+        aiRankDelta: delta(after?.aiRank, before?.aiRank),
+        humanRankDelta: delta(after?.humanRank, before?.humanRank),
+        aiRatingDelta: delta(before?.aiRating, after?.aiRating),
+        humanRatingDelta: delta(before?.humanRating, after?.humanRating),
+      };
+    });
+    rows.sort(
+      (a, b) =>
+        (a.to?.aiRank ?? Number.MAX_SAFE_INTEGER) - (b.to?.aiRank ?? Number.MAX_SAFE_INTEGER) ||
+        (a.from?.aiRank ?? Number.MAX_SAFE_INTEGER) - (b.from?.aiRank ?? Number.MAX_SAFE_INTEGER),
+    );
+
+    return {
+      from: { generation: from.generation, name: from.name, completedRounds: from.completedRounds },
+      to: { generation: to.generation, name: to.name, completedRounds: to.completedRounds },
+      rows,
+    };
+  },
+});
+
+export const getAdminState = internalQuery({
+  args: {},
+  returns: v.object({ seasons: v.array(v.any()) }),
+  handler: async (ctx) => {
+    return { seasons: await listSeasonSummaries(ctx) };
+  },
+});
+
+export const rename = internalMutation({
+  args: { generation: v.number(), name: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    if (!name) throw new Error("Nome da temporada obrigatorio");
+    if (name.length > SEASON_NAME_MAX_LENGTH) {
+      throw new Error(`Nome da temporada deve ter no maximo ${SEASON_NAME_MAX_LENGTH} caracteres`);
+    }
+
+    const now = Date.now();
+    const existing = await getSeasonRow(ctx, args.generation);
+    if (existing) {
+      await ctx.db.patch(existing._id, { name, updatedAt: now });
+      return null;
+    }
+
+    const engine = await getEngineState(ctx as any);
+    if (args.generation !== (engine?.generation ?? 1)) throw new Error("Temporada nao encontrada");
+    await ctx.db.insert("seasons", {
+      generation: args.generation,
+      name,
+      startedAt: (await readFirstRoundAt(ctx, args.generation)) ?? now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return null;
+  },
+});
+
+async function findNextRoundGeneration(ctx: { db: any }, after: number): Promise<number | null> {
+  const next = await ctx.db
+    .query("rounds")
+    .withIndex("by_generation_and_num", (q: any) => q.gt("generation", after))
+    .first();
+  return next?.generation ?? null;
+}
+
+// Creates rows for older generations that still have rounds but ended before the
+// seasons table existed, with standings rebuilt from those rounds, so they show up
+// in the season list and the comparison:
+// npx convex run seasons:backfillBatch '{}'
+export const backfillBatch = internalMutation({
+  args: { generation: v.optional(v.number()), cursor: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const engine = await getEngineState(ctx as any);
+    const currentGeneration = engine?.generation ?? 1;
+    const generation = args.generation ?? (await findNextRoundGeneration(ctx, 0));
+    if (generation === null || generation >= currentGeneration) return null;
+
+    const scheduleNext = async () => {
+      const next = await findNextRoundGeneration(ctx, generation);
+      if (next !== null && next < currentGeneration) {
+        await ctx.scheduler.runAfter(0, convexInternal.seasons.backfillBatch, { generation: next });
+      }
+    };
+
+    let row = await getSeasonRow(ctx, generation);
+    if (args.cursor === undefined) {
+      if (row) {
+        await scheduleNext();
+        return null;
+      }
+      const now = Date.now();
+      const id = await ctx.db.insert("seasons", {
+        generation,
+        name: defaultSeasonName(generation),
+        startedAt: (await readFirstRoundAt(ctx, generation)) ?? now,
+        completedRounds: 0,
+        roundsKept: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+      row = await ctx.db.get(id);
+    }
+    if (!row) return null;
+
+    const result = await ctx.db
+      .query("rounds")
+      .withIndex("by_generation_and_num", (q) => q.eq("generation", generation))
+      .paginate({ cursor: args.cursor ?? null, numItems: ROUND_PURGE_BATCH_SIZE });
+
+    let completedRounds = row.completedRounds ?? 0;
+    let endedAt = row.endedAt ?? row.startedAt;
+    const standings = new Map<string, SeasonStanding>(
+      ((row.standings ?? []) as SeasonStanding[]).map((entry) => [entry.name, entry]),
+    );
+    const standingOf = (contestant: { id: string; name: string }) => {
+      const entry = standings.get(contestant.name) ?? {
+        modelId: contestant.id,
+        name: contestant.name,
+        aiWins: 0,
+        humanWins: 0,
+        humanVotes: 0,
+        aiRating: null,
+        humanRating: null,
+      };
+      standings.set(contestant.name, entry);
+      return entry;
+    };
+
+    for (const round of result.page) {
+      if (round.phase !== "done") continue;
+      endedAt = Math.max(endedAt, round.completedAt ?? round.updatedAt ?? round.createdAt);
+      if (round.skipped) continue;
+      completedRounds += 1;
+
+      // Same tallies the engine keeps live; ratings of closed generations are purged on reset.
+      const viewerVoteCounts = getRoundViewerVoteCounts(round) ?? round.contestants.map(() => 0);
+      round.contestants.forEach((contestant, index) => {
+        standingOf(contestant).humanVotes += viewerVoteCounts[index] ?? 0;
+      });
+      const winner = round.contestants[resolveWinnerIndex(countRoundModelVotes(round))];
+      if (winner) standingOf(winner).aiWins += 1;
+      const humanWinner = round.contestants[resolveWinnerIndex(viewerVoteCounts)];
+      if (humanWinner) standingOf(humanWinner).humanWins += 1;
+    }
+    await ctx.db.patch(row._id, {
+      completedRounds,
+      endedAt,
+      standings: [...standings.values()],
+      updatedAt: Date.now(),
+    });
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, convexInternal.seasons.backfillBatch, {
+        generation,
+        cursor: result.continueCursor,
+      });
+    } else {
+      await scheduleNext();
+    }
+    return null;
+  },
+});
@@ -1,6 +1,7 @@
 import type { Doc } from "./_generated/dataModel";
 import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { DEFAULT_SCORES } from "./constants";
+import { DEFAULT_CONTESTANTS_PER_ROUND, normalizeContestantsPerRound } from "../shared/rounds";
 
 export const DEFAULT_VIEWER_VOTE_WINDOW_ACTIVE_MS = 30_000;
 export const DEFAULT_VIEWER_VOTE_WINDOW_IDLE_MS = 120_000;
@@ -120,6 +121,10 @@ export async function getOrCreateEngineState(
     if (typeof existing.projectionBootstrapRunning !== "boolean") {
       patch.projectionBootstrapRunning = false;
     }
+    const contestantsPerRound = normalizeContestantsPerRound(existing.contestantsPerRound);
+    if (existing.contestantsPerRound !== contestantsPerRound) {
+      patch.contestantsPerRound = contestantsPerRound;
+    }
     const telegramEnabled = normalizeBoolean(existing.telegramEnabled, false);
     if (existing.telegramEnabled !== telegramEnabled) {
       patch.telegramEnabled = telegramEnabled;
@@ -150,6 +155,7 @@ export async function getOrCreateEngineState(
     humanScores: { ...DEFAULT_SCORES },
     humanVoteTotals: { ...DEFAULT_SCORES },
     enabledModelIds: [],
+    contestantsPerRound: DEFAULT_CONTESTANTS_PER_ROUND,
     completedRounds: 0,
     updatedAt: now,
     viewerVoteWindowActiveMs: DEFAULT_VIEWER_VOTE_WINDOW_ACTIVE_MS,
@@ -181,6 +187,13 @@ export async function getOrCreateRunnerLeaseState(
   return created;
 }
 
-export function isFiniteRuns(state: { runsMode: "finite" | "infinite"; totalRounds?: number }): boolean {
+export function isFiniteRuns(state: {
+  runsMode: "finite" | "infinite" | "tournament";
+  totalRounds?: number;
+}): boolean {
   return state.runsMode === "finite" && typeof state.totalRounds === "number";
 }
+
+export function isTournamentRuns(state: { runsMode: "finite" | "infinite" | "tournament" }): boolean {
+  return state.runsMode === "tournament";
+}
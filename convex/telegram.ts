@@ -3,6 +3,7 @@ import { internalMutation, internalQuery } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { TELEGRAM_UPDATES_POLL_INTERVAL_MS, hashToShard } from "./constants";
 import { getEngineState } from "./state";
+import { CONTESTANT_SIDES, type ContestantSide } from "../shared/rounds";
 
 const convexInternal = internal as any;
 
@@ -60,7 +61,7 @@ async function adjustVoteTally(
   ctx: any,
   roundId: any,
   generation: number,
-  side: "A" | "B",
+  side: ContestantSide,
   shard: number,
   delta: number,
 ) {
@@ -114,11 +115,15 @@ export const getPollingState = internalQuery({
   },
 });
 
+function readPollOptionVotes(row: any): number[] {
+  if (Array.isArray(row.optionVotes)) return row.optionVotes.map(normalizeNumber);
+  return [normalizeNumber(row.votesA), normalizeNumber(row.votesB)];
+}
+
 export const syncPollCounts = internalMutation({
   args: {
     pollId: v.string(),
-    votesA: v.number(),
-    votesB: v.number(),
+    votes: v.array(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -128,22 +133,21 @@ export const syncPollCounts = internalMutation({
       .first();
     if (!row) return null;
 
-    const nextA = normalizeNumber(args.votesA);
-    const nextB = normalizeNumber(args.votesB);
-    const deltaA = nextA - normalizeNumber(row.votesA);
-    const deltaB = nextB - normalizeNumber(row.votesB);
+    const previous = readPollOptionVotes(row);
+    const next = args.votes.slice(0, CONTESTANT_SIDES.length).map(normalizeNumber);
     const shard = pollShard(row.pollId);
 
-    if (deltaA !== 0) {
-      await adjustVoteTally(ctx, row.roundId, row.generation, "A", shard, deltaA);
-    }
-    if (deltaB !== 0) {
-      await adjustVoteTally(ctx, row.roundId, row.generation, "B", shard, deltaB);
+    for (let index = 0; index < next.length; index++) {
+      const delta = (next[index] ?? 0) - (previous[index] ?? 0);
+      if (delta !== 0) {
+        await adjustVoteTally(ctx, row.roundId, row.generation, CONTESTANT_SIDES[index]!, shard, delta);
+      }
     }
 
     await ctx.db.patch(row._id, {
-      votesA: nextA,
-      votesB: nextB,
+      votesA: next[0] ?? 0,
+      votesB: next[1] ?? 0,
+      optionVotes: next,
       updatedAt: Date.now(),
     });
     return null;
@@ -185,6 +189,7 @@ export const upsertRoundPoll = internalMutation({
       messageId: args.messageId,
       votesA: 0,
       votesB: 0,
+      optionVotes: [],
       status: "active",
       createdAt: now,
       updatedAt: now,
@@ -4,6 +4,7 @@ import { v } from "convex/values";
 import { Bot } from "grammy";
 import { internalAction } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { getChatStrings } from "../shared/i18n";
 
 const convexInternal = internal as any;
 
@@ -45,20 +46,19 @@ function truncatePollText(value: string, maxLength: number): string {
   return `${value.slice(0, maxLength - 3)}...`;
 }
 
-function buildPollQuestion(roundNum: number, prompt: unknown): string {
+function buildPollQuestion(roundNum: number, prompt: unknown, language: unknown): string {
+  const strings = getChatStrings(language);
   const normalizedPrompt = normalizePollText(prompt);
   if (!normalizedPrompt) {
-    return truncatePollText(`Rodada ${roundNum} - Vote no melhor`, TELEGRAM_POLL_QUESTION_MAX_LENGTH);
+    return truncatePollText(strings.pollQuestionNoPrompt(roundNum), TELEGRAM_POLL_QUESTION_MAX_LENGTH);
   }
-  return truncatePollText(
-    `Rodada ${roundNum} - Prompt: ${normalizedPrompt}`,
-    TELEGRAM_POLL_QUESTION_MAX_LENGTH,
-  );
+  return truncatePollText(strings.pollQuestion(roundNum, normalizedPrompt), TELEGRAM_POLL_QUESTION_MAX_LENGTH);
 }
 
-function buildPollOption(indexLabel: string, contestantName: unknown, answerText: unknown): string {
-  const normalizedName = normalizePollText(contestantName) || "Modelo";
-  const normalizedAnswer = normalizePollText(answerText) || "[sem resposta]";
+function buildPollOption(indexLabel: string, contestantName: unknown, answerText: unknown, language: unknown): string {
+  const strings = getChatStrings(language);
+  const normalizedName = normalizePollText(contestantName) || strings.pollModelFallback;
+  const normalizedAnswer = normalizePollText(answerText) || strings.pollNoAnswer;
   const prefix = `${indexLabel} - ${normalizedName}: `;
   const available = TELEGRAM_POLL_OPTION_MAX_LENGTH - prefix.length;
   if (available <= 0) {
@@ -67,6 +67,11 @@ function buildPollOption(indexLabel: string, contestantName: unknown, answerText
   return `${prefix}${truncatePollText(normalizedAnswer, available)}`;
 }
 
+function readPollOptionCounts(poll: any): number[] {
+  const options: any[] = Array.isArray(poll?.options) ? poll.options : [];
+  return options.map((option) => normalizeNumber(option?.voter_count ?? 0));
+}
+
 function isTelegramConfigured(state: {
   telegramEnabled?: unknown;
   telegramBotToken?: unknown;
@@ -162,12 +167,9 @@ export const pollUpdates = internalAction({
         const polls = extractPollsFromUpdate(update as any);
         for (const poll of polls) {
           if (!poll?.id) continue;
-          const votesA = normalizeNumber(poll.options?.[0]?.voter_count ?? 0);
-          const votesB = normalizeNumber(poll.options?.[1]?.voter_count ?? 0);
           await ctx.runMutation(convexInternal.telegram.syncPollCounts, {
             pollId: poll.id,
-            votesA,
-            votesB,
+            votes: readPollOptionCounts(poll),
           });
         }
         if (typeof update.update_id === "number" && Number.isFinite(update.update_id)) {
@@ -209,20 +211,21 @@ export const openRoundPoll = internalAction({
       if (!isTelegramConfigured(state)) return null;
       if (!round || round.phase !== "voting") return null;
       if (existingRoundPoll) return null;
-      const contestantA = round.contestants?.[0];
-      const contestantB = round.contestants?.[1];
-      if (!contestantA?.name || !contestantB?.name) return null;
+      const contestants: any[] = round.contestants ?? [];
+      if (contestants.length < 2 || contestants.some((contestant) => !contestant?.name)) return null;
 
       const token = normalizeTelegramToken(state.telegramBotToken);
       const channelId = normalizeTelegramChannelId(state.telegramChannelId);
       const bot = new Bot(token);
-      const optionA = buildPollOption("1", contestantA.name, round.answerTasks?.[0]?.result);
-      const optionB = buildPollOption("2", contestantB.name, round.answerTasks?.[1]?.result);
+      const language = round.language ?? state.showLanguage;
+      const options = contestants.map((contestant, index) =>
+        buildPollOption(String(index + 1), contestant.name, round.answerTasks?.[index]?.result, language),
+      );
 
       const pollMessage = await bot.api.sendPoll(
         channelId,
-        buildPollQuestion(round.num, round.prompt),
-        [optionA, optionB],
+        buildPollQuestion(round.num, round.prompt, language),
+        options,
         {
           is_anonymous: true,
           allows_multiple_answers: false,
@@ -282,12 +285,9 @@ export const closeRoundPoll = internalAction({
 
     try {
       const poll = await bot.api.stopPoll(pollRow.chatId, pollRow.messageId);
-      const votesA = normalizeNumber(poll.options?.[0]?.voter_count ?? 0);
-      const votesB = normalizeNumber(poll.options?.[1]?.voter_count ?? 0);
       await ctx.runMutation(convexInternal.telegram.syncPollCounts, {
         pollId: pollRow.pollId,
-        votesA,
-        votesB,
+        votes: readPollOptionCounts(poll),
       });
       stopSucceeded = true;
     } catch (error) {
@@ -0,0 +1,504 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Model } from "../shared/models";
+import type {
+  TournamentBracket,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentSlot,
+  TournamentState,
+} from "../shared/types";
+import { resolveWinnerIndex } from "../shared/rounds";
+import {
+  RUNNER_LEASE_MS,
+  TOURNAMENT_BEST_OF_OPTIONS,
+  TOURNAMENT_MAX_PARTICIPANTS,
+} from "./constants";
+import { getEngineState, getOrCreateEngineState, getOrCreateRunnerLeaseState } from "./state";
+import { listModelCatalog } from "./models";
+import { listCurrentModelRatings } from "./ratings";
+
+const convexInternal = internal as any;
+
+const tournamentFormatValidator = v.union(
+  v.literal("single_elimination"),
+  v.literal("double_elimination"),
+);
+
+type TournamentSource = {
+  kind: "seed" | "winner" | "loser";
+  seed?: number;
+  matchId?: string;
+};
+
+type StoredTournamentMatch = {
+  id: string;
+  bracket: TournamentBracket;
+  round: number;
+  sources: TournamentSource[];
+  wins: number[];
+  games: number;
+  winnerSlot?: number;
+  // Bracket reset: only played when the second slot won the match named here.
+  resetOf?: string;
+};
+
+type ResolvedMatch = {
+  match: StoredTournamentMatch;
+  slots: [TournamentSlot, TournamentSlot];
+  status: TournamentMatch["status"];
+  winner: TournamentSlot | null;
+  loser: TournamentSlot | null;
+};
+
+const PENDING_SLOT: TournamentSlot = { kind: "pending" };
+const BYE_SLOT: TournamentSlot = { kind: "bye" };
+
+export function getMinTournamentParticipants(format: TournamentFormat): number {
+  return format === "double_elimination" ? 3 : 2;
+}
+
+export function getTournamentWinsNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+function buildSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const mirror = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, mirror - seed]);
+  }
+  return order;
+}
+
+function createMatch(
+  id: string,
+  bracket: TournamentBracket,
+  round: number,
+  sources: TournamentSource[],
+): StoredTournamentMatch {
+  return { id, bracket, round, sources, wins: [0, 0], games: 0 };
+}
+
+// Matches are returned in play order; every match only depends on matches listed before it.
+export function buildTournamentMatches(format: TournamentFormat, participantCount: number): StoredTournamentMatch[] {
+  const size = 2 ** Math.ceil(Math.log2(Math.max(2, participantCount)));
+  const winnerRounds = Math.log2(size);
+  const seedOrder = buildSeedOrder(size);
+
+  const winners: StoredTournamentMatch[][] = [];
+  for (let round = 1; round <= winnerRounds; round++) {
+    const count = size / 2 ** round;
+    const matches: StoredTournamentMatch[] = [];
+    for (let index = 0; index < count; index++) {
+      const sources: TournamentSource[] =
+        round === 1
+          ? [
+              { kind: "seed", seed: seedOrder[index * 2] },
+              { kind: "seed", seed: seedOrder[index * 2 + 1] },
+            ]
+          : [
+              { kind: "winner", matchId: winners[round - 2]![index * 2]!.id },
+              { kind: "winner", matchId: winners[round - 2]![index * 2 + 1]!.id },
+            ];
+      matches.push(createMatch(`W${round}-${index + 1}`, "winners", round, sources));
+    }
+    winners.push(matches);
+  }
+
+  if (format === "single_elimination") {
+    return winners.flat();
+  }
+
+  const losers: StoredTournamentMatch[][] = [];
+  const firstLosers: StoredTournamentMatch[] = [];
+  for (let index = 0; index < size / 4; index++) {
+    firstLosers.push(
+      createMatch(`L1-${index + 1}`, "losers", 1, [
+        { kind: "loser", matchId: winners[0]![index * 2]!.id },
+        { kind: "loser", matchId: winners[0]![index * 2 + 1]!.id },
+      ]),
+    );
+  }
+  losers.push(firstLosers);
+
+  for (let step = 1; step < winnerRounds; step++) {
+    const previous = losers[losers.length - 1]!;
+    const droppedFrom = winners[step]!;
+    const dropRound = losers.length + 1;
+    const dropMatches = previous.map((match, index) =>
+      createMatch(`L${dropRound}-${index + 1}`, "losers", dropRound, [
+        { kind: "winner", matchId: match.id },
+        { kind: "loser", matchId: droppedFrom[droppedFrom.length - 1 - index]!.id },
+      ]),
+    );
+    losers.push(dropMatches);
+
+    if (step < winnerRounds - 1) {
+      const mergeRound = losers.length + 1;
+      const mergeMatches: StoredTournamentMatch[] = [];
+      for (let index = 0; index < dropMatches.length / 2; index++) {
+        mergeMatches.push(
+          createMatch(`L${mergeRound}-${index + 1}`, "losers", mergeRound, [
+            { kind: "winner", matchId: dropMatches[index * 2]!.id },
+            { kind: "winner", matchId: dropMatches[index * 2 + 1]!.id },
+          ]),
+        );
+      }
+      losers.push(mergeMatches);
+    }
+  }
+
+  const ordered: StoredTournamentMatch[] = [...winners[0]!, ...losers[0]!];
+  for (let round = 2; round <= winnerRounds; round++) {
+    ordered.push(...winners[round - 1]!);
+    ordered.push(...(losers[2 * (round - 1) - 1] ?? []));
+    ordered.push(...(losers[2 * (round - 1)] ?? []));
+  }
+
+  const winnersFinal = winners[winnerRounds - 1]![0]!;
+  const losersFinal = losers[losers.length - 1]![0]!;
+  const finalists: TournamentSource[] = [
+    { kind: "winner", matchId: winnersFinal.id },
+    { kind: "winner", matchId: losersFinal.id },
+  ];
+  ordered.push(createMatch("GF", "grand_final", 1, finalists));
+  ordered.push({ ...createMatch("GF2", "grand_final", 2, finalists), resetOf: "GF" });
+  return ordered;
+}
+
+function resolveSource(
+  source: TournamentSource,
+  participants: Model[],
+  resolved: Map<string, ResolvedMatch>,
+): TournamentSlot {
+  if (source.kind === "seed") {
+    const seed = source.seed ?? 0;
+    const model = participants[seed - 1];
+    return model ? { kind: "model", model, seed } : BYE_SLOT;
+  }
+  const feeder = source.matchId ? resolved.get(source.matchId) : undefined;
+  if (!feeder) return PENDING_SLOT;
+  return (source.kind === "winner" ? feeder.winner : feeder.loser) ?? PENDING_SLOT;
+}
+
+function resolveMatches(tournament: any): ResolvedMatch[] {
+  const participants = tournament.participants as Model[];
+  const resolved = new Map<string, ResolvedMatch>();
+  const list: ResolvedMatch[] = [];
+
+  for (const match of tournament.matches as StoredTournamentMatch[]) {
+    const slots: [TournamentSlot, TournamentSlot] = [
+      resolveSource(match.sources[0]!, participants, resolved),
+      resolveSource(match.sources[1]!, participants, resolved),
+    ];
+    const resetOf = match.resetOf ? resolved.get(match.resetOf) : undefined;
+    let entry: ResolvedMatch;
+    if (resetOf && (resetOf.status === "pending" || resetOf.status === "ready")) {
+      entry = { match, slots: [PENDING_SLOT, PENDING_SLOT], status: "pending", winner: null, loser: null };
+    } else if (resetOf && resetOf.winner === resetOf.slots[0]) {
+      // The winners-bracket champion took the first final, so there is no reset.
+      entry = { match, slots: [resetOf.winner!, BYE_SLOT], status: "bye", winner: resetOf.winner, loser: BYE_SLOT };
+    } else if (slots[0].kind === "pending" || slots[1].kind === "pending") {
+      entry = { match, slots, status: "pending", winner: null, loser: null };
+    } else if (typeof match.winnerSlot === "number") {
+      entry = {
+        match,
+        slots,
+        status: "done",
+        winner: slots[match.winnerSlot]!,
+        loser: slots[match.winnerSlot === 0 ? 1 : 0]!,
+      };
+    } else if (slots[0].kind === "bye" || slots[1].kind === "bye") {
+      entry = {
+        match,
+        slots,
+        status: "bye",
+        winner: slots[0].kind === "bye" ? slots[1] : slots[0],
+        loser: BYE_SLOT,
+      };
+    } else {
+      entry = { match, slots, status: "ready", winner: null, loser: null };
+    }
+    resolved.set(match.id, entry);
+    list.push(entry);
+  }
+
+  return list;
+}
+
+function getMatchLabel(match: StoredTournamentMatch, tournament: any): string {
+  const matches = tournament.matches as StoredTournamentMatch[];
+  const lastRound = Math.max(
+    ...matches.filter((candidate) => candidate.bracket === match.bracket).map((candidate) => candidate.round),
+  );
+
+  if (match.bracket === "grand_final") return match.resetOf ? "Grande final (reset)" : "Grande final";
+  if (match.bracket === "losers") {
+    return match.round === lastRound ? "Final da chave inferior" : `Chave inferior R${match.round}`;
+  }
+  if (tournament.format === "double_elimination") {
+    return match.round === lastRound ? "Final da chave superior" : `Chave superior R${match.round}`;
+  }
+  if (match.round === lastRound) return "Final";
+  if (match.round === lastRound - 1) return "Semifinal";
+  if (match.round === lastRound - 2) return "Quartas de final";
+  return `Rodada ${match.round}`;
+}
+
+function findChampion(list: ResolvedMatch[]): Model | null {
+  const final = list[list.length - 1];
+  if (!final?.winner || final.winner.kind !== "model") return null;
+  return final.winner.model;
+}
+
+export function toClientTournament(tournament: any | null): TournamentState | null {
+  if (!tournament) return null;
+
+  const list = resolveMatches(tournament);
+  const current = tournament.status === "active" ? list.find((entry) => entry.status === "ready") : undefined;
+  const champion =
+    tournament.championModelId
+      ? ((tournament.participants as Model[]).find((model) => model.id === tournament.championModelId) ?? null)
+      : null;
+
+  return {
+    _id: tournament._id,
+    status: tournament.status,
+    format: tournament.format,
+    bestOf: tournament.bestOf,
+    winsNeeded: getTournamentWinsNeeded(tournament.bestOf),
+    participantCount: tournament.participants.length,
+    matches: list.map((entry) => ({
+      id: entry.match.id,
+      bracket: entry.match.bracket,
+      round: entry.match.round,
+      label: getMatchLabel(entry.match, tournament),
+      slots: entry.slots,
+      wins: [entry.match.wins[0] ?? 0, entry.match.wins[1] ?? 0],
+      games: entry.match.games,
+      status: entry.status,
+      winnerSlot:
+        entry.status === "done"
+          ? (entry.match.winnerSlot ?? null)
+          : entry.status === "bye"
+            ? entry.slots[0].kind === "bye"
+              ? 1
+              : 0
+            : null,
+    })),
+    currentMatchId: current?.match.id ?? null,
+    champion,
+    createdAt: tournament.createdAt,
+    completedAt: tournament.completedAt,
+  };
+}
+
+export async function getCurrentTournament(ctx: { db: any }, state: any): Promise<any | null> {
+  if (!state?.activeTournamentId) return null;
+  const tournament = await ctx.db.get(state.activeTournamentId);
+  if (!tournament || tournament.generation !== state.generation) return null;
+  return tournament;
+}
+
+// Counts one finished round toward its bracket match. AI votes decide the game and viewer votes
+// break ties; a game that stays tied is replayed without counting.
+export async function recordTournamentGame(
+  ctx: any,
+  round: any,
+  modelVotes: number[],
+  viewerVoteCounts: number[],
+): Promise<{ completed: boolean }> {
+  if (!round.tournamentId || !round.tournamentMatchId) return { completed: false };
+  const tournament = await ctx.db.get(round.tournamentId);
+  if (!tournament || tournament.status !== "active") return { completed: false };
+
+  const entry = resolveMatches(tournament).find((candidate) => candidate.match.id === round.tournamentMatchId);
+  if (!entry || entry.status !== "ready") return { completed: false };
+
+  let winnerIndex = resolveWinnerIndex(modelVotes);
+  if (winnerIndex < 0) {
+    const topVotes = Math.max(...modelVotes);
+    const tiedViewerCounts = viewerVoteCounts.map((count, index) => (modelVotes[index] === topVotes ? count : 0));
+    winnerIndex = resolveWinnerIndex(tiedViewerCounts);
+  }
+  const winnerModelId = round.contestants[winnerIndex]?.id;
+  const winnerSlot = entry.slots.findIndex((slot) => slot.kind === "model" && slot.model.id === winnerModelId);
+
+  const winsNeeded = getTournamentWinsNeeded(tournament.bestOf);
+  const matches = (tournament.matches as StoredTournamentMatch[]).map((match) => {
+    if (match.id !== entry.match.id) return match;
+    const wins = [match.wins[0] ?? 0, match.wins[1] ?? 0];
+    if (winnerSlot >= 0) wins[winnerSlot] = (wins[winnerSlot] ?? 0) + 1;
+    return {
+      ...match,
+      wins,
+      games: match.games + 1,
+      winnerSlot: winnerSlot >= 0 && (wins[winnerSlot] ?? 0) >= winsNeeded ? winnerSlot : match.winnerSlot,
+    };
+  });
+
+  const now = Date.now();
+  const champion = findChampion(resolveMatches({ ...tournament, matches }));
+  await ctx.db.patch(tournament._id, {
+    matches,
+    ...(champion ? { status: "completed", championModelId: champion.id, completedAt: now } : {}),
+    updatedAt: now,
+  });
+
+  return { completed: Boolean(champion) };
+}
+
+export const getNextMatchForRunner = internalQuery({
+  args: {
+    expectedGeneration: v.number(),
+  },
+  returns: v.union(
+    v.object({
+      tournamentId: v.id("tournaments"),
+      matchId: v.string(),
+      game: v.number(),
+      contestants: v.array(v.any()),
+    }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const state = await getEngineState(ctx as any);
+    if (!state || state.generation !== args.expectedGeneration) return null;
+    const tournament = await getCurrentTournament(ctx as any, state);
+    if (!tournament || tournament.status !== "active") return null;
+
+    const next = resolveMatches(tournament).find((entry) => entry.status === "ready");
+    if (!next) return null;
+    const contestants = next.slots.map((slot) => (slot.kind === "model" ? slot.model : null));
+    if (contestants.some((model) => !model)) return null;
+
+    return {
+      tournamentId: tournament._id,
+      matchId: next.match.id,
+      game: next.match.games + 1,
+      contestants,
+    };
+  },
+});
+
+export const startTournament = internalMutation({
+  args: {
+    modelIds: v.array(v.string()),
+    format: tournamentFormatValidator,
+    bestOf: v.number(),
+  },
+  returns: v.object({ tournamentId: v.id("tournaments") }),
+  handler: async (ctx, args) => {
+    const state = await getOrCreateEngineState(ctx as any);
+    const modelIds = [...new Set(args.modelIds.map((id) => id.trim()).filter(Boolean))];
+    if (modelIds.length < getMinTournamentParticipants(args.format)) {
+      throw new Error(
+        `Selecione ao menos ${getMinTournamentParticipants(args.format)} modelos para este formato de torneio.`,
+      );
+    }
+    if (modelIds.length > TOURNAMENT_MAX_PARTICIPANTS) {
+      throw new Error(`Torneio aceita no maximo ${TOURNAMENT_MAX_PARTICIPANTS} modelos.`);
+    }
+    if (!(TOURNAMENT_BEST_OF_OPTIONS as readonly number[]).includes(args.bestOf)) {
+      throw new Error("Melhor de N invalido.");
+    }
+
+    const catalog = await listModelCatalog(ctx as any);
+    const catalogById = new Map(catalog.map((model) => [model.modelId, model]));
+    for (const modelId of modelIds) {
+      const model = catalogById.get(modelId);
+      if (!model || !model.enabled || model.archivedAt) {
+        throw new Error(`Modelo ${modelId} precisa estar ativo para entrar no torneio.`);
+      }
+      if (!model.canAnswer) {
+        throw new Error(`Modelo ${model.name} nao pode responder.`);
+      }
+    }
+
+    const ratings = await listCurrentModelRatings(ctx, state.generation, catalog);
+    const ratingById = new Map(
+      ratings.filter((rating) => rating.source === "ai").map((rating) => [rating.modelId, rating.rating]),
+    );
+    const seeded = modelIds
+      .map((modelId, index) => ({ modelId, index, rating: ratingById.get(modelId) ?? null }))
+      .sort((a, b) => {
+        if (a.rating !== null && b.rating !== null && a.rating !== b.rating) return b.rating - a.rating;
+        if (a.rating !== null && b.rating === null) return -1;
+        if (a.rating === null && b.rating !== null) return 1;
+        return a.index - b.index;
+      });
+
+    const participants = seeded.map(({ modelId }) => {
+      const model = catalogById.get(modelId)!;
+      return {
+        id: model.modelId,
+        name: model.name,
+        color: model.color,
+        logoId: model.logoId,
+        reasoningEffort: model.reasoningEffort,
+        metricsEpoch: model.metricsEpoch,
+      };
+    });
+
+    const previous = await getCurrentTournament(ctx as any, state);
+    const now = Date.now();
+    if (previous && previous.status === "active") {
+      await ctx.db.patch(previous._id, { status: "cancelled", updatedAt: now });
+    }
+
+    const tournamentId = await ctx.db.insert("tournaments", {
+      generation: state.generation,
+      status: "active",
+      format: args.format,
+      bestOf: args.bestOf,
+      participants,
+      matches: buildTournamentMatches(args.format, participants.length),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.patch(state._id, {
+      runsMode: "tournament",
+      activeTournamentId: tournamentId,
+      done: false,
+      updatedAt: now,
+    });
+
+    if (!state.isPaused) {
+      const leaseState = await getOrCreateRunnerLeaseState(ctx as any);
+      const validLease = Boolean(leaseState.leaseId && leaseState.leaseUntil && leaseState.leaseUntil > now);
+      if (!validLease) {
+        const leaseId = crypto.randomUUID();
+        await ctx.db.patch(leaseState._id, {
+          leaseId,
+          leaseUntil: now + RUNNER_LEASE_MS,
+          updatedAt: now,
+        });
+        await ctx.scheduler.runAfter(0, convexInternal.engineRunner.runLoop, { leaseId });
+      }
+    }
+
+    return { tournamentId };
+  },
+});
+
+export const cancelTournament = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const state = await getOrCreateEngineState(ctx as any);
+    const tournament = await getCurrentTournament(ctx as any, state);
+    const now = Date.now();
+    if (tournament && tournament.status === "active") {
+      await ctx.db.patch(tournament._id, { status: "cancelled", updatedAt: now });
+    }
+    await ctx.db.patch(state._id, {
+      runsMode: "infinite",
+      activeTournamentId: undefined,
+      updatedAt: now,
+    });
+    return null;
+  },
+});
@@ -3,6 +3,9 @@ import { v } from "convex/values";
 import { internalMutation, internalQuery } from "./_generated/server";
 import { getEngineState, resolveRuntimeRoundTiming } from "./state";
 import { readTotalViewerCount } from "./viewerCount";
+import { getRoundViewerVoteCounts } from "./rounds";
+import { recordSpendImpl } from "./budgets";
+import { MIN_CONTESTANTS_PER_ROUND, normalizeContestantsPerRound } from "../shared/rounds";
 
 export const USAGE_WINDOW_SIZE = 50;
 export const PROJECTION_BOOTSTRAP_TARGET_SAMPLES = 5;
@@ -15,6 +18,7 @@ const requestTypeValidator = v.union(
   v.literal("prompt"),
   v.literal("answer"),
   v.literal("vote"),
+  v.literal("moderation"),
 );
 
 const progressRequestTypeValidator = v.union(v.literal("prompt"), v.literal("answer"));
@@ -97,9 +101,11 @@ function resolveRoundVotingMode(
     return round.viewerVotingMode;
   }
 
-  const viewerVotesA = safeNumber(round.viewerVotesA);
-  const viewerVotesB = safeNumber(round.viewerVotesB);
-  if (viewerVotesA + viewerVotesB > 0) {
+  const viewerVoteTotal = (getRoundViewerVoteCounts(round) ?? []).reduce(
+    (sum, count) => sum + safeNumber(count),
+    0,
+  );
+  if (viewerVoteTotal > 0) {
     return "active";
   }
 
@@ -301,11 +307,13 @@ export const recordLlmUsageEvent = internalMutation({
   },
   returns: v.id("llmUsageEvents"),
   handler: async (ctx, args) => {
-    return await ctx.db.insert("llmUsageEvents", {
+    const eventId = await ctx.db.insert("llmUsageEvents", {
       ...args,
       origin: args.origin ?? "runtime",
       createdAt: Date.now(),
     });
+    await recordSpendImpl(ctx, args);
+    return eventId;
   },
 });
 
@@ -591,9 +599,11 @@ export const getAdminModelUsageAverages = internalQuery({
     ).length;
 
     const expectedPromptRequestsPerRound = promptCapableCount > 0 ? 1 : 0;
-    const expectedAnswerRequestsPerRound = answerCapableCount >= 2 ? 2 : 0;
+    const contestantsPerRound = normalizeContestantsPerRound(state.contestantsPerRound);
+    const expectedAnswerRequestsPerRound =
+      answerCapableCount >= MIN_CONTESTANTS_PER_ROUND ? Math.min(contestantsPerRound, answerCapableCount) : 0;
     const expectedContestantVoteOverlap =
-      answerCapableCount > 0 ? (2 * answerAndVoteCount) / answerCapableCount : 0;
+      answerCapableCount > 0 ? (expectedAnswerRequestsPerRound * answerAndVoteCount) / answerCapableCount : 0;
     const expectedVoteRequestsPerRound = Math.max(0, voteCapableCount - expectedContestantVoteOverlap);
 
     const modeledPromptRoundCostUsd = promptCostPerRequestUsd * expectedPromptRequestsPerRound;
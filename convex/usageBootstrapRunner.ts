@@ -4,8 +4,17 @@ import { v } from "convex/values";
 import { internalAction } from "./_generated/server";
 import { internal } from "./_generated/api";
 import type { Model } from "../shared/models";
-import { callGenerateAnswer, callGeneratePrompt, callVote, type LlmCallMetrics } from "./ai";
+import {
+  callGenerateAnswer,
+  callGeneratePrompt,
+  callVote,
+  configureLlmRoutes,
+  type LlmCallMetrics,
+  type LlmRoute,
+  type PromptTemplateContext,
+} from "./ai";
 import { ALL_PROMPTS } from "../prompts";
+import { SHOW_LANGUAGE_PROMPT_NAMES, normalizeShowLanguage } from "../shared/i18n";
 
 const convexInternal = internal as any;
 
@@ -28,6 +37,20 @@ type MissingCounts = {
   vote: number;
 };
 
+type TemplateConfig = {
+  templates: Record<RequestType, PromptTemplateContext["template"]>;
+  personas: Record<string, string>;
+  language: string;
+};
+
+function templateContext(config: TemplateConfig, kind: RequestType, model?: Model): PromptTemplateContext {
+  return {
+    template: config.templates[kind],
+    persona: model ? config.personas[model.id] : undefined,
+    language: SHOW_LANGUAGE_PROMPT_NAMES[normalizeShowLanguage(config.language)],
+  };
+}
+
 function resolveBootstrapModelConcurrency(): number {
   const raw = Number.parseInt(process.env.PROJECTION_BOOTSTRAP_MODEL_CONCURRENCY ?? "", 10);
   if (!Number.isFinite(raw) || raw <= 0) return DEFAULT_BOOTSTRAP_MODEL_CONCURRENCY;
@@ -103,18 +126,28 @@ async function generatePromptSamples(
   args: {
     generation: number;
     model: Model;
+    templates: TemplateConfig;
     missing: number;
     promptPool: string[];
   },
 ) {
   if (args.missing <= 0) return;
+  const examplePool = (await ctx.runQuery(convexInternal.promptExamples.listEnabledTexts, {
+    language: args.templates.language,
+  })) as string[];
   let remaining = args.missing;
   let attempts = 0;
   let lastError = "";
   while (remaining > 0 && attempts < MAX_BOOTSTRAP_ATTEMPTS_PER_ACTION) {
     attempts += 1;
     try {
-      const result = await callGeneratePrompt(args.model);
+      const result = await callGeneratePrompt(
+        args.model,
+        examplePool,
+        undefined,
+        [],
+        templateContext(args.templates, "prompt", args.model),
+      );
       const metrics = requireMetrics(result.metrics, "prompt", args.model.id);
       await recordBootstrapUsageEvent(ctx, {
         generation: args.generation,
@@ -138,6 +171,7 @@ async function generateAnswerSamples(
   args: {
     generation: number;
     model: Model;
+    templates: TemplateConfig;
     missing: number;
     promptPool: string[];
     answerPool: string[];
@@ -151,7 +185,13 @@ async function generateAnswerSamples(
     attempts += 1;
     const prompt = args.promptPool.length > 0 ? randomFrom(args.promptPool) : randomFrom(ALL_PROMPTS);
     try {
-      const result = await callGenerateAnswer(args.model, prompt);
+      const result = await callGenerateAnswer(
+        args.model,
+        prompt,
+        undefined,
+        [],
+        templateContext(args.templates, "answer", args.model),
+      );
       const metrics = requireMetrics(result.metrics, "answer", args.model.id);
       await recordBootstrapUsageEvent(ctx, {
         generation: args.generation,
@@ -175,6 +215,7 @@ async function generateVoteSamples(
   args: {
     generation: number;
     model: Model;
+    templates: TemplateConfig;
     missing: number;
     promptPool: string[];
     answerPool: string[];
@@ -207,8 +248,8 @@ async function generateVoteSamples(
       const result = await callVote(
         args.model,
         prompt,
-        { answer: firstAnswer },
-        { answer: secondAnswer },
+        [{ answer: firstAnswer }, { answer: secondAnswer }],
+        templateContext(args.templates, "vote"),
       );
       const metrics = requireMetrics(result.metrics, "vote", args.model.id);
       await recordBootstrapUsageEvent(ctx, {
@@ -233,6 +274,7 @@ async function runBootstrapForModel(
     runId: string;
     generation: number;
     model: Model;
+    templates: TemplateConfig;
   },
 ): Promise<"done" | "skipped" | "ownership_lost"> {
   if (!(await ensureRunStillOwned(ctx, args.runId, args.generation))) {
@@ -254,6 +296,7 @@ async function runBootstrapForModel(
   await generatePromptSamples(ctx, {
     generation: args.generation,
     model: args.model,
+    templates: args.templates,
     missing: missing.prompt,
     promptPool,
   });
@@ -264,6 +307,7 @@ async function runBootstrapForModel(
   await generateAnswerSamples(ctx, {
     generation: args.generation,
     model: args.model,
+    templates: args.templates,
     missing: missing.answer,
     promptPool,
     answerPool,
@@ -275,6 +319,7 @@ async function runBootstrapForModel(
   await generateVoteSamples(ctx, {
     generation: args.generation,
     model: args.model,
+    templates: args.templates,
     missing: missing.vote,
     promptPool,
     answerPool,
@@ -296,6 +341,8 @@ export const runProjectionBootstrap = internalAction({
       }
 
       const models = (await ctx.runQuery(convexInternal.models.listActiveForRuntime, {})) as Model[];
+      configureLlmRoutes((await ctx.runQuery(convexInternal.providers.getRuntimeRoutes, {})) as LlmRoute[]);
+      const templates = (await ctx.runQuery(convexInternal.promptTemplates.getForRound, {})) as TemplateConfig;
       if (models.length === 0) {
         await ctx.runMutation(convexInternal.usageBootstrap.finishProjectionBootstrapRun, {
           runId: args.runId,
@@ -323,6 +370,7 @@ export const runProjectionBootstrap = internalAction({
               runId: args.runId,
               generation: args.generation,
               model,
+              templates,
             });
             if (status === "ownership_lost") {
               ownershipLost = true;
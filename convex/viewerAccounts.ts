@@ -0,0 +1,439 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import {
+  VIEWER_LINK_CODE_LENGTH,
+  VIEWER_LINK_CODE_TTL_MS,
+  VIEWER_OAUTH_STATE_TTL_MS,
+  VIEWER_SHARD_COUNT,
+  hashToShard,
+} from "./constants";
+import { getEngineState } from "./state";
+
+const LINK_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const LINK_CODE_ATTEMPTS = 5;
+const EXPIRED_CLEANUP_BATCH = 20;
+
+const viewerOAuthProviderValidator = v.union(v.literal("twitch"), v.literal("youtube"));
+
+const linkedIdentityValidator = v.object({
+  identity: v.string(),
+  platform: v.string(),
+  displayName: v.union(v.string(), v.null()),
+  linkedAt: v.number(),
+});
+
+function getIdentityPlatform(identity: string): string {
+  const separator = identity.indexOf(":");
+  return separator > 0 ? identity.slice(0, separator) : "web";
+}
+
+function generateLinkCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(VIEWER_LINK_CODE_LENGTH));
+  return Array.from(bytes, (byte) => LINK_CODE_ALPHABET[byte % LINK_CODE_ALPHABET.length]).join("");
+}
+
+export function normalizeLinkCode(value: string): string {
+  return value.replace(/[\s-]+/g, "").toUpperCase();
+}
+
+async function getIdentityLink(ctx: { db: any }, identity: string) {
+  return await ctx.db
+    .query("viewerIdentityLinks")
+    .withIndex("by_identity", (q: any) => q.eq("identity", identity))
+    .first();
+}
+
+async function deleteExpired(ctx: { db: any }, table: "viewerLinkCodes" | "viewerOAuthStates", now: number) {
+  const expired = await ctx.db
+    .query(table)
+    .withIndex("by_expiresAt", (q: any) => q.lte("expiresAt", now))
+    .take(EXPIRED_CLEANUP_BATCH);
+  for (const row of expired) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+// Votes from linked identities share one key, so castVoteImpl keeps a single vote
+// per person and round no matter which platform it came from.
+export async function resolveVoterKey(ctx: { db: any }, viewerId: string): Promise<string> {
+  const link = await getIdentityLink(ctx, viewerId);
+  return link ? `account:${link.accountId}` : viewerId;
+}
+
+async function adjustVoteTallyShard(ctx: { db: any }, vote: any, shard: number, delta: number) {
+  const row = await ctx.db
+    .query("viewerVoteTallies")
+    .withIndex("by_round_side_shard", (q: any) =>
+      q.eq("roundId", vote.roundId).eq("side", vote.side).eq("shard", shard),
+    )
+    .first();
+  const now = Date.now();
+  if (!row) {
+    if (delta <= 0) return;
+    await ctx.db.insert("viewerVoteTallies", {
+      generation: vote.generation,
+      roundId: vote.roundId,
+      side: vote.side,
+      shard,
+      count: delta,
+      updatedAt: now,
+    });
+    return;
+  }
+  await ctx.db.patch(row._id, { count: Math.max(0, row.count + delta), updatedAt: now });
+}
+
+// Votes cast in the open round before the link still sit under the old keys. Keep one
+// per person (the account's own, else the earliest) and move it to the account key.
+async function mergeOpenRoundVotes(ctx: { db: any }, oldKeys: string[], accountKey: string) {
+  const engine = await getEngineState(ctx as any);
+  if (!engine?.activeRoundId) return;
+  const round = await ctx.db.get(engine.activeRoundId);
+  if (!round || round.phase !== "voting") return;
+
+  const votes: any[] = [];
+  for (const key of [accountKey, ...oldKeys]) {
+    const vote = await ctx.db
+      .query("viewerVotes")
+      .withIndex("by_round_and_viewer", (q: any) => q.eq("roundId", round._id).eq("viewerId", key))
+      .first();
+    if (vote && !votes.some((entry) => entry._id === vote._id)) votes.push(vote);
+  }
+  if (votes.length === 0) return;
+
+  const kept =
+    votes[0].viewerId === accountKey
+      ? votes[0]
+      : votes.reduce((a, b) => ((b.createdAt ?? b._creationTime) < (a.createdAt ?? a._creationTime) ? b : a));
+  for (const vote of votes) {
+    if (vote._id === kept._id) continue;
+    if (!vote.excludedAt) await adjustVoteTallyShard(ctx, vote, vote.shard, -1);
+    await ctx.db.delete(vote._id);
+  }
+
+  if (kept.viewerId === accountKey) return;
+  const shard = hashToShard(accountKey, VIEWER_SHARD_COUNT);
+  if (!kept.excludedAt && shard !== kept.shard) {
+    await adjustVoteTallyShard(ctx, kept, kept.shard, -1);
+    await adjustVoteTallyShard(ctx, kept, shard, 1);
+  }
+  await ctx.db.patch(kept._id, { viewerId: accountKey, shard, updatedAt: Date.now() });
+}
+
+// Same for predictions on the open round: one per person, under the account key.
+async function mergeOpenRoundPredictions(ctx: { db: any }, oldKeys: string[], accountKey: string) {
+  const engine = await getEngineState(ctx as any);
+  if (!engine?.activeRoundId) return;
+
+  const predictions: any[] = [];
+  for (const key of [accountKey, ...oldKeys]) {
+    const prediction = await ctx.db
+      .query("viewerPredictions")
+      .withIndex("by_round_and_viewer", (q: any) => q.eq("roundId", engine.activeRoundId).eq("viewerId", key))
+      .first();
+    if (prediction && !prediction.resolvedAt && !predictions.some((entry) => entry._id === prediction._id)) {
+      predictions.push(prediction);
+    }
+  }
+  if (predictions.length === 0) return;
+
+  const kept =
+    predictions[0].viewerId === accountKey
+      ? predictions[0]
+      : predictions.reduce((a, b) => (b.createdAt < a.createdAt ? b : a));
+  for (const prediction of predictions) {
+    if (prediction._id !== kept._id) await ctx.db.delete(prediction._id);
+  }
+  if (kept.viewerId !== accountKey) {
+    await ctx.db.patch(kept._id, { viewerId: accountKey, updatedAt: Date.now() });
+  }
+}
+
+// Folds the season's prediction points earned under the old keys into the account's
+// row, so the leaderboard and getMyStats show one line per person.
+async function mergePredictionScores(ctx: { db: any }, oldKeys: string[], accountKey: string) {
+  const engine = await getEngineState(ctx as any);
+  const generation = engine?.generation ?? 1;
+  const readScore = async (key: string) =>
+    await ctx.db
+      .query("viewerPredictionScores")
+      .withIndex("by_generation_and_viewer", (q: any) => q.eq("generation", generation).eq("viewerId", key))
+      .first();
+
+  const accountScore = await readScore(accountKey);
+  const merged: any[] = [];
+  for (const key of oldKeys) {
+    if (key === accountKey) continue;
+    const score = await readScore(key);
+    if (score && !merged.some((entry) => entry._id === score._id)) merged.push(score);
+  }
+  if (merged.length === 0) return;
+
+  const rows = accountScore ? [accountScore, ...merged] : merged;
+  const now = Date.now();
+  const fields = {
+    displayName: rows.find((row) => row.displayName)?.displayName,
+    points: rows.reduce((total, row) => total + row.points, 0),
+    correct: rows.reduce((total, row) => total + row.correct, 0),
+    total: rows.reduce((total, row) => total + row.total, 0),
+    streak: Math.max(...rows.map((row) => row.streak)),
+    bestStreak: Math.max(...rows.map((row) => row.bestStreak)),
+    updatedAt: now,
+  };
+  for (const row of merged) {
+    await ctx.db.delete(row._id);
+  }
+  if (accountScore) {
+    await ctx.db.patch(accountScore._id, fields);
+  } else {
+    await ctx.db.insert("viewerPredictionScores", { generation, viewerId: accountKey, ...fields });
+  }
+}
+
+async function linkIdentitiesImpl(
+  ctx: { db: any },
+  viewerId: string,
+  identity: string,
+  displayName?: string,
+): Promise<void> {
+  const now = Date.now();
+  const webLink = await getIdentityLink(ctx, viewerId);
+  const otherLink = await getIdentityLink(ctx, identity);
+  const accountId =
+    webLink?.accountId ??
+    otherLink?.accountId ??
+    (await ctx.db.insert("viewerAccounts", { createdAt: now, updatedAt: now }));
+
+  if (!webLink) {
+    await ctx.db.insert("viewerIdentityLinks", {
+      identity: viewerId,
+      accountId,
+      platform: "web",
+      linkedAt: now,
+    });
+  }
+
+  if (!otherLink) {
+    await ctx.db.insert("viewerIdentityLinks", {
+      identity,
+      accountId,
+      platform: getIdentityPlatform(identity),
+      displayName: displayName || undefined,
+      linkedAt: now,
+    });
+  } else if (otherLink.accountId !== accountId) {
+    const moved = await ctx.db
+      .query("viewerIdentityLinks")
+      .withIndex("by_accountId", (q: any) => q.eq("accountId", otherLink.accountId))
+      .collect();
+    for (const row of moved) {
+      await ctx.db.patch(row._id, { accountId });
+    }
+    await ctx.db.delete(otherLink.accountId);
+  } else if (displayName && otherLink.displayName !== displayName) {
+    await ctx.db.patch(otherLink._id, { displayName });
+  }
+
+  await ctx.db.patch(accountId, { updatedAt: now });
+
+  const oldKeys = [viewerId, identity];
+  if (otherLink && otherLink.accountId !== accountId) oldKeys.push(`account:${otherLink.accountId}`);
+  await mergeOpenRoundVotes(ctx, oldKeys, `account:${accountId}`);
+  await mergeOpenRoundPredictions(ctx, oldKeys, `account:${accountId}`);
+  await mergePredictionScores(ctx, oldKeys, `account:${accountId}`);
+}
+
+export const createLinkCode = mutation({
+  args: { viewerId: v.string() },
+  returns: v.object({ code: v.string(), expiresAt: v.number() }),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    await deleteExpired(ctx, "viewerLinkCodes", now);
+    const previous = await ctx.db
+      .query("viewerLinkCodes")
+      .withIndex("by_viewerId", (q) => q.eq("viewerId", args.viewerId))
+      .collect();
+    for (const row of previous) {
+      await ctx.db.delete(row._id);
+    }
+
+    for (let attempt = 0; attempt < LINK_CODE_ATTEMPTS; attempt += 1) {
+      const code = generateLinkCode();
+      const taken = await ctx.db
+        .query("viewerLinkCodes")
+        .withIndex("by_code", (q) => q.eq("code", code))
+        .first();
+      if (taken) continue;
+      const expiresAt = now + VIEWER_LINK_CODE_TTL_MS;
+      await ctx.db.insert("viewerLinkCodes", { code, viewerId: args.viewerId, expiresAt });
+      return { code, expiresAt };
+    }
+    throw new Error("Falha ao gerar codigo de vinculo");
+  },
+});
+
+export const redeemLinkCode = internalMutation({
+  args: {
+    code: v.string(),
+    identity: v.string(),
+    displayName: v.optional(v.string()),
+  },
+  returns: v.union(v.literal("linked"), v.literal("invalid")),
+  handler: async (ctx, args) => {
+    const row = await ctx.db
+      .query("viewerLinkCodes")
+      .withIndex("by_code", (q) => q.eq("code", normalizeLinkCode(args.code)))
+      .first();
+    if (!row || row.expiresAt <= Date.now()) return "invalid";
+    await ctx.db.delete(row._id);
+    await linkIdentitiesImpl(ctx, row.viewerId, args.identity, args.displayName);
+    return "linked";
+  },
+});
+
+export const createOAuthState = internalMutation({
+  args: {
+    viewerId: v.string(),
+    provider: viewerOAuthProviderValidator,
+    returnTo: v.string(),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    await deleteExpired(ctx, "viewerOAuthStates", now);
+    const state = crypto.randomUUID();
+    await ctx.db.insert("viewerOAuthStates", {
+      state,
+      viewerId: args.viewerId,
+      provider: args.provider,
+      returnTo: args.returnTo,
+      expiresAt: now + VIEWER_OAUTH_STATE_TTL_MS,
+    });
+    return state;
+  },
+});
+
+export const consumeOAuthState = internalMutation({
+  args: {
+    state: v.string(),
+    provider: viewerOAuthProviderValidator,
+  },
+  returns: v.union(v.null(), v.object({ viewerId: v.string(), returnTo: v.string() })),
+  handler: async (ctx, args) => {
+    const row = await ctx.db
+      .query("viewerOAuthStates")
+      .withIndex("by_state", (q) => q.eq("state", args.state))
+      .first();
+    if (!row) return null;
+    await ctx.db.delete(row._id);
+    if (row.provider !== args.provider || row.expiresAt <= Date.now()) return null;
+    return { viewerId: row.viewerId, returnTo: row.returnTo };
+  },
+});
+
+export const linkIdentityInternal = internalMutation({
+  args: {
+    viewerId: v.string(),
+    identity: v.string(),
+    displayName: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await linkIdentitiesImpl(ctx, args.viewerId, args.identity, args.displayName);
+    return null;
+  },
+});
+
+// The freed identity would vote again under its own key while the account's vote
+// still counts, so unlinking waits until the open round is over.
+async function hasOpenRoundEntry(ctx: { db: any }, accountKey: string): Promise<boolean> {
+  const engine = await getEngineState(ctx as any);
+  if (!engine?.activeRoundId) return false;
+  const vote = await ctx.db
+    .query("viewerVotes")
+    .withIndex("by_round_and_viewer", (q: any) => q.eq("roundId", engine.activeRoundId).eq("viewerId", accountKey))
+    .first();
+  if (vote) return true;
+  const prediction = await ctx.db
+    .query("viewerPredictions")
+    .withIndex("by_round_and_viewer", (q: any) => q.eq("roundId", engine.activeRoundId).eq("viewerId", accountKey))
+    .first();
+  return Boolean(prediction && !prediction.resolvedAt);
+}
+
+export const unlinkIdentity = mutation({
+  args: {
+    viewerId: v.string(),
+    identity: v.string(),
+  },
+  returns: v.union(v.literal("unlinked"), v.literal("round_open")),
+  handler: async (ctx, args) => {
+    const own = await getIdentityLink(ctx, args.viewerId);
+    const target = await getIdentityLink(ctx, args.identity);
+    if (!own || !target || target.accountId !== own.accountId || target._id === own._id) {
+      throw new Error("Identidade nao vinculada a este espectador");
+    }
+    if (await hasOpenRoundEntry(ctx, `account:${own.accountId}`)) return "round_open";
+    await ctx.db.delete(target._id);
+    return "unlinked";
+  },
+});
+
+export const getProfile = query({
+  args: { viewerId: v.string() },
+  returns: v.object({
+    linked: v.boolean(),
+    identities: v.array(linkedIdentityValidator),
+    stats: v.object({
+      votes: v.number(),
+      promptsSubmitted: v.number(),
+      promptsUsed: v.number(),
+    }),
+  }),
+  handler: async (ctx, args) => {
+    const own = await getIdentityLink(ctx, args.viewerId);
+    const links = own
+      ? await ctx.db
+          .query("viewerIdentityLinks")
+          .withIndex("by_accountId", (q) => q.eq("accountId", own.accountId))
+          .collect()
+      : [];
+    const identities = own ? links.map((link) => link.identity) : [args.viewerId];
+    const voterKeys = own ? [`account:${own.accountId}`, ...identities] : identities;
+
+    let votes = 0;
+    for (const key of voterKeys) {
+      votes += (
+        await ctx.db
+          .query("viewerVotes")
+          .withIndex("by_viewerId", (q) => q.eq("viewerId", key))
+          .collect()
+      ).length;
+    }
+
+    let promptsSubmitted = 0;
+    let promptsUsed = 0;
+    for (const identity of identities) {
+      const prompts = await ctx.db
+        .query("viewerPrompts")
+        .withIndex("by_submitterId_and_status", (q) => q.eq("submitterId", identity))
+        .collect();
+      promptsSubmitted += prompts.length;
+      promptsUsed += prompts.filter((prompt) => prompt.status === "used").length;
+    }
+
+    return {
+      linked: Boolean(own),
+      identities: links
+        .filter((link) => link.platform !== "web")
+        .sort((a, b) => a.linkedAt - b.linkedAt)
+        .map((link) => ({
+          identity: link.identity,
+          platform: link.platform,
+          displayName: link.displayName ?? null,
+          linkedAt: link.linkedAt,
+        })),
+      stats: { votes, promptsSubmitted, promptsUsed },
+    };
+  },
+});
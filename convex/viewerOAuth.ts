@@ -0,0 +1,110 @@
+export const VIEWER_OAUTH_PROVIDERS = ["twitch", "youtube"] as const;
+
+export type ViewerOAuthProvider = (typeof VIEWER_OAUTH_PROVIDERS)[number];
+
+type OAuthProviderConfig = {
+  authorizeUrl: string;
+  tokenUrl: string;
+  scope: string;
+  clientIdEnv: string;
+  clientSecretEnv: string;
+};
+
+// Identities use the same `provider:providerId` shape Fossabot sends, so a web
+// login and the chat account of the same person resolve to the same identity.
+const OAUTH_PROVIDERS: Record<ViewerOAuthProvider, OAuthProviderConfig> = {
+  twitch: {
+    authorizeUrl: "https://id.twitch.tv/oauth2/authorize",
+    tokenUrl: "https://id.twitch.tv/oauth2/token",
+    scope: "",
+    clientIdEnv: "TWITCH_CLIENT_ID",
+    clientSecretEnv: "TWITCH_CLIENT_SECRET",
+  },
+  youtube: {
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    scope: "https://www.googleapis.com/auth/youtube.readonly",
+    clientIdEnv: "GOOGLE_CLIENT_ID",
+    clientSecretEnv: "GOOGLE_CLIENT_SECRET",
+  },
+};
+
+function readCredentials(provider: ViewerOAuthProvider): { clientId: string; clientSecret: string } | null {
+  const config = OAUTH_PROVIDERS[provider];
+  const clientId = (process.env[config.clientIdEnv] ?? "").trim();
+  const clientSecret = (process.env[config.clientSecretEnv] ?? "").trim();
+  return clientId && clientSecret ? { clientId, clientSecret } : null;
+}
+
+function getRedirectUri(provider: ViewerOAuthProvider): string {
+  const siteUrl = (process.env.CONVEX_SITE_URL ?? "").replace(/\/$/, "");
+  return `${siteUrl}/viewer-auth/${provider}/callback`;
+}
+
+export function buildOAuthAuthorizeUrl(provider: ViewerOAuthProvider, state: string): string | null {
+  const credentials = readCredentials(provider);
+  if (!credentials) return null;
+  const url = new URL(OAUTH_PROVIDERS[provider].authorizeUrl);
+  url.searchParams.set("client_id", credentials.clientId);
+  url.searchParams.set("redirect_uri", getRedirectUri(provider));
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("scope", OAUTH_PROVIDERS[provider].scope);
+  url.searchParams.set("state", state);
+  return url.toString();
+}
+
+async function exchangeCode(provider: ViewerOAuthProvider, code: string): Promise<string> {
+  const credentials = readCredentials(provider);
+  if (!credentials) throw new Error(`${provider} OAuth is not configured`);
+  const response = await fetch(OAUTH_PROVIDERS[provider].tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+      code,
+      grant_type: "authorization_code",
+      redirect_uri: getRedirectUri(provider),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`${provider} token exchange failed (${response.status})`);
+  }
+  const payload = (await response.json()) as { access_token?: string };
+  if (!payload.access_token) throw new Error(`${provider} token exchange returned no access token`);
+  return payload.access_token;
+}
+
+async function fetchTwitchUser(accessToken: string): Promise<{ id: string; name: string }> {
+  const response = await fetch("https://api.twitch.tv/helix/users", {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Client-Id": readCredentials("twitch")?.clientId ?? "",
+    },
+  });
+  if (!response.ok) throw new Error(`Twitch user lookup failed (${response.status})`);
+  const payload = (await response.json()) as { data?: Array<{ id?: string; display_name?: string; login?: string }> };
+  const user = payload.data?.[0];
+  if (!user?.id) throw new Error("Twitch user lookup returned no user");
+  return { id: user.id, name: user.display_name || user.login || user.id };
+}
+
+async function fetchYoutubeChannel(accessToken: string): Promise<{ id: string; name: string }> {
+  const response = await fetch("https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true", {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!response.ok) throw new Error(`YouTube channel lookup failed (${response.status})`);
+  const payload = (await response.json()) as { items?: Array<{ id?: string; snippet?: { title?: string } }> };
+  const channel = payload.items?.[0];
+  if (!channel?.id) throw new Error("YouTube account has no channel");
+  return { id: channel.id, name: channel.snippet?.title || channel.id };
+}
+
+export async function fetchOAuthIdentity(
+  provider: ViewerOAuthProvider,
+  code: string,
+): Promise<{ identity: string; displayName: string }> {
+  const accessToken = await exchangeCode(provider, code);
+  const account = provider === "twitch" ? await fetchTwitchUser(accessToken) : await fetchYoutubeChannel(accessToken);
+  return { identity: `${provider}:${account.id}`, displayName: account.name };
+}
@@ -0,0 +1,175 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation } from "./_generated/server";
+import {
+  VIEWER_PROMPT_EVERY_N_ROUNDS,
+  VIEWER_PROMPT_MAX_LENGTH,
+  VIEWER_PROMPT_MAX_NAME_LENGTH,
+  VIEWER_PROMPT_MAX_PENDING_PER_SUBMITTER,
+  VIEWER_PROMPT_MIN_LENGTH,
+} from "./constants";
+
+const ADMIN_LIST_LIMIT = 50;
+
+const viewerPromptSourceValidator = v.union(v.literal("web"), v.literal("chat"));
+
+const submitResultValidator = v.object({
+  ok: v.boolean(),
+  status: v.union(
+    v.literal("queued"),
+    v.literal("invalid"),
+    v.literal("limit"),
+    v.literal("duplicate"),
+  ),
+});
+
+type SubmitStatus = "queued" | "invalid" | "limit" | "duplicate";
+
+function normalizePromptText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function normalizeSubmitterName(value: string): string {
+  return value.replace(/\s+/g, " ").trim().slice(0, VIEWER_PROMPT_MAX_NAME_LENGTH);
+}
+
+export function shouldUseViewerPrompt(roundNum: number): boolean {
+  return VIEWER_PROMPT_EVERY_N_ROUNDS > 0 && roundNum > 0 && roundNum % VIEWER_PROMPT_EVERY_N_ROUNDS === 0;
+}
+
+export async function getNextApprovedViewerPrompt(ctx: { db: any }): Promise<any | null> {
+  return await ctx.db
+    .query("viewerPrompts")
+    .withIndex("by_status_and_createdAt", (q: any) => q.eq("status", "approved"))
+    .order("asc")
+    .first();
+}
+
+export async function markViewerPromptUsed(ctx: { db: any }, promptId: any, roundId: any) {
+  const now = Date.now();
+  await ctx.db.patch(promptId, {
+    status: "used",
+    usedAt: now,
+    usedRoundId: roundId,
+    updatedAt: now,
+  });
+}
+
+async function submitImpl(
+  ctx: any,
+  args: { submitterId: string; submitterName: string; text: string; source: "web" | "chat" },
+): Promise<{ ok: boolean; status: SubmitStatus }> {
+  const text = normalizePromptText(args.text);
+  const submitterName = normalizeSubmitterName(args.submitterName);
+  if (
+    !args.submitterId ||
+    !submitterName ||
+    text.length < VIEWER_PROMPT_MIN_LENGTH ||
+    text.length > VIEWER_PROMPT_MAX_LENGTH
+  ) {
+    return { ok: false, status: "invalid" };
+  }
+
+  const pending = await ctx.db
+    .query("viewerPrompts")
+    .withIndex("by_submitterId_and_status", (q: any) =>
+      q.eq("submitterId", args.submitterId).eq("status", "pending"),
+    )
+    .take(VIEWER_PROMPT_MAX_PENDING_PER_SUBMITTER);
+  if (pending.length >= VIEWER_PROMPT_MAX_PENDING_PER_SUBMITTER) {
+    return { ok: false, status: "limit" };
+  }
+
+  const lowered = text.toLowerCase();
+  if (pending.some((row: any) => row.text.toLowerCase() === lowered)) {
+    return { ok: false, status: "duplicate" };
+  }
+
+  const now = Date.now();
+  await ctx.db.insert("viewerPrompts", {
+    text,
+    submitterId: args.submitterId,
+    submitterName,
+    source: args.source,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  });
+  return { ok: true, status: "queued" };
+}
+
+export const submit = mutation({
+  args: {
+    viewerId: v.string(),
+    name: v.string(),
+    text: v.string(),
+  },
+  returns: submitResultValidator,
+  handler: async (ctx, args) =>
+    submitImpl(ctx, {
+      submitterId: args.viewerId.trim() ? `web:${args.viewerId.trim()}` : "",
+      submitterName: args.name,
+      text: args.text,
+      source: "web",
+    }),
+});
+
+export const submitInternal = internalMutation({
+  args: {
+    submitterId: v.string(),
+    submitterName: v.string(),
+    text: v.string(),
+    source: viewerPromptSourceValidator,
+  },
+  returns: submitResultValidator,
+  handler: async (ctx, args) => submitImpl(ctx, args),
+});
+
+export const listForAdmin = internalQuery({
+  args: {},
+  returns: v.object({
+    pending: v.array(v.any()),
+    approved: v.array(v.any()),
+    reviewed: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const byStatus = async (status: "pending" | "approved" | "rejected" | "used", order: "asc" | "desc") =>
+      await ctx.db
+        .query("viewerPrompts")
+        .withIndex("by_status_and_createdAt", (q: any) => q.eq("status", status))
+        .order(order)
+        .take(ADMIN_LIST_LIMIT);
+
+    const [pending, approved, rejected, used] = await Promise.all([
+      byStatus("pending", "asc"),
+      byStatus("approved", "asc"),
+      byStatus("rejected", "desc"),
+      byStatus("used", "desc"),
+    ]);
+    const reviewed = [...rejected, ...used]
+      .sort((a: any, b: any) => (b.usedAt ?? b.reviewedAt ?? 0) - (a.usedAt ?? a.reviewedAt ?? 0))
+      .slice(0, ADMIN_LIST_LIMIT);
+
+    return { pending, approved, reviewed };
+  },
+});
+
+export const review = internalMutation({
+  args: {
+    id: v.id("viewerPrompts"),
+    status: v.union(v.literal("approved"), v.literal("rejected")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const prompt = await ctx.db.get(args.id);
+    if (!prompt) throw new Error("Tema nao encontrado");
+    if (prompt.status === "used") throw new Error("Tema ja foi usado em uma rodada");
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      status: args.status,
+      reviewedAt: now,
+      updatedAt: now,
+    });
+    return null;
+  },
+});
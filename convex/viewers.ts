@@ -11,6 +11,37 @@ import {
 } from "./constants";
 import { getEngineState } from "./state";
 import { applyViewerCountDelta } from "./viewerCount";
+import { resolveVoterKey } from "./viewerAccounts";
+import { checkWebVoteGate, detectVoteFlags, issueVoteChallengeImpl, reapVoteIntegrity } from "./voteIntegrity";
+import { indexFromSide, type ContestantSide } from "../shared/rounds";
+
+const contestantSideValidator = v.union(
+  v.literal("A"),
+  v.literal("B"),
+  v.literal("C"),
+  v.literal("D"),
+);
+
+const castVoteResultValidator = v.object({
+  ok: v.boolean(),
+  votedFor: v.union(contestantSideValidator, v.null()),
+  status: v.union(
+    v.literal("accepted"),
+    v.literal("updated"),
+    v.literal("unchanged"),
+    v.literal("inactive"),
+    v.literal("invalid"),
+    v.literal("rate_limited"),
+    v.literal("challenge_required"),
+  ),
+});
+
+const voteProofValidator = v.object({
+  challengeId: v.string(),
+  nonce: v.string(),
+});
+
+type CastVoteStatus = "accepted" | "updated" | "unchanged" | "inactive" | "invalid" | "rate_limited" | "challenge_required";
 
 async function getViewerReaperState(ctx: any) {
   return await ctx.db
@@ -63,7 +94,7 @@ async function adjustVoteTally(
   ctx: any,
   roundId: any,
   generation: number,
-  side: "A" | "B",
+  side: ContestantSide,
   shard: number,
   delta: number,
 ) {
@@ -201,49 +232,49 @@ export const heartbeat = mutation({
   },
 });
 
+export const requestVoteChallenge = mutation({
+  args: {
+    viewerId: v.string(),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      challengeId: v.string(),
+      challenge: v.string(),
+      bits: v.number(),
+      expiresAt: v.number(),
+    }),
+  ),
+  handler: async (ctx, args) => issueVoteChallengeImpl(ctx, args.viewerId),
+});
+
 export const castVote = mutation({
   args: {
     viewerId: v.string(),
-    side: v.union(v.literal("A"), v.literal("B")),
+    side: contestantSideValidator,
+    proof: v.optional(voteProofValidator),
   },
-  returns: v.object({
-    ok: v.boolean(),
-    votedFor: v.union(v.literal("A"), v.literal("B"), v.null()),
-    status: v.union(
-      v.literal("accepted"),
-      v.literal("updated"),
-      v.literal("unchanged"),
-      v.literal("inactive"),
-    ),
-  }),
-  handler: async (ctx, args) => castVoteImpl(ctx, args),
+  returns: castVoteResultValidator,
+  handler: async (ctx, args) => castVoteImpl(ctx, args, { web: true }),
 });
 
 export const castVoteInternal = internalMutation({
   args: {
     viewerId: v.string(),
-    side: v.union(v.literal("A"), v.literal("B")),
+    side: contestantSideValidator,
   },
-  returns: v.object({
-    ok: v.boolean(),
-    votedFor: v.union(v.literal("A"), v.literal("B"), v.null()),
-    status: v.union(
-      v.literal("accepted"),
-      v.literal("updated"),
-      v.literal("unchanged"),
-      v.literal("inactive"),
-    ),
-  }),
-  handler: async (ctx, args) => castVoteImpl(ctx, args),
+  returns: castVoteResultValidator,
+  handler: async (ctx, args) => castVoteImpl(ctx, args, { web: false }),
 });
 
 async function castVoteImpl(
   ctx: any,
-  args: { viewerId: string; side: "A" | "B" },
+  args: { viewerId: string; side: ContestantSide; proof?: { challengeId: string; nonce: string } },
+  options: { web: boolean },
 ): Promise<{
   ok: boolean;
-  votedFor: "A" | "B" | null;
-  status: "accepted" | "updated" | "unchanged" | "inactive";
+  votedFor: ContestantSide | null;
+  status: CastVoteStatus;
 }> {
   const engine = await getEngineState(ctx as any);
   if (!engine?.activeRoundId) {
@@ -259,22 +290,38 @@ async function castVoteImpl(
     return { ok: false, votedFor: null, status: "inactive" };
   }
 
-  const shard = hashToShard(args.viewerId, VIEWER_SHARD_COUNT);
+  if (indexFromSide(args.side) >= round.contestants.length) {
+    return { ok: false, votedFor: null, status: "invalid" };
+  }
+
+  if (options.web) {
+    const gate = await checkWebVoteGate(ctx, args.viewerId, args.proof);
+    if (gate) {
+      return { ok: false, votedFor: null, status: gate };
+    }
+  }
+
+  const voterKey = await resolveVoterKey(ctx, args.viewerId);
+  const shard = hashToShard(voterKey, VIEWER_SHARD_COUNT);
   const existing = await ctx.db
     .query("viewerVotes")
     .withIndex("by_round_and_viewer", (q: any) =>
-      q.eq("roundId", round._id).eq("viewerId", args.viewerId),
+      q.eq("roundId", round._id).eq("viewerId", voterKey),
     )
     .first();
 
   if (!existing) {
+    const now = Date.now();
+    const flaggedReasons = options.web ? await detectVoteFlags(ctx, round._id, args.viewerId, now) : [];
     await ctx.db.insert("viewerVotes", {
       generation: round.generation,
       roundId: round._id,
-      viewerId: args.viewerId,
+      viewerId: voterKey,
       side: args.side,
       shard,
-      updatedAt: Date.now(),
+      createdAt: now,
+      ...(flaggedReasons.length > 0 ? { flaggedReasons, flaggedAt: now } : {}),
+      updatedAt: now,
     });
     await adjustVoteTally(ctx, round._id, round.generation, args.side, shard, 1);
     return { ok: true, votedFor: args.side, status: "accepted" };
@@ -289,6 +336,10 @@ async function castVoteImpl(
     updatedAt: Date.now(),
   });
 
+  if (existing.excludedAt) {
+    return { ok: true, votedFor: args.side, status: "updated" };
+  }
+
   await adjustVoteTally(ctx, round._id, round.generation, existing.side, existing.shard, -1);
   await adjustVoteTally(ctx, round._id, round.generation, args.side, existing.shard, 1);
 
@@ -319,6 +370,7 @@ export const reapExpired = internalMutation({
       processed += 1;
     }
     await applyViewerCountDelta(ctx, { webDelta });
+    await reapVoteIntegrity(ctx, now, limit);
 
     const reaperState = await getOrCreateViewerReaperState(ctx as any);
     await scheduleReaperFromPresence(ctx, reaperState, limit);
@@ -326,3 +378,54 @@ export const reapExpired = internalMutation({
     return { processed };
   },
 });
+
+async function getReviewableRound(ctx: any, roundId: any) {
+  const round = await ctx.db.get(roundId);
+  if (!round) throw new Error("Rodada nao encontrada");
+  if (round.phase === "done") throw new Error("Rodada ja finalizada; o placar nao pode mais mudar");
+  return round;
+}
+
+async function setVoteExcludedImpl(ctx: any, vote: any, excluded: boolean): Promise<boolean> {
+  if (Boolean(vote.excludedAt) === excluded) return false;
+  await ctx.db.patch(vote._id, {
+    excludedAt: excluded ? Date.now() : undefined,
+  });
+  await adjustVoteTally(ctx, vote.roundId, vote.generation, vote.side, vote.shard, excluded ? -1 : 1);
+  return true;
+}
+
+export const setVoteExcluded = internalMutation({
+  args: {
+    voteId: v.id("viewerVotes"),
+    excluded: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const vote = await ctx.db.get(args.voteId);
+    if (!vote) throw new Error("Voto nao encontrado");
+    await getReviewableRound(ctx, vote.roundId);
+    await setVoteExcludedImpl(ctx, vote, args.excluded);
+    return null;
+  },
+});
+
+export const excludeFlaggedVotes = internalMutation({
+  args: {
+    roundId: v.id("rounds"),
+  },
+  returns: v.object({ excluded: v.number() }),
+  handler: async (ctx, args) => {
+    await getReviewableRound(ctx, args.roundId);
+    const flagged = await ctx.db
+      .query("viewerVotes")
+      .withIndex("by_round_and_flaggedAt", (q) => q.eq("roundId", args.roundId).gt("flaggedAt", 0))
+      .collect();
+
+    let excluded = 0;
+    for (const vote of flagged) {
+      if (await setVoteExcludedImpl(ctx, vote, true)) excluded += 1;
+    }
+    return { excluded };
+  },
+});
@@ -0,0 +1,230 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import {
+  VIEWER_VOTE_BURST_THRESHOLD,
+  VIEWER_VOTE_BURST_WINDOW_MS,
+  VIEWER_VOTE_CHALLENGE_MAX_BITS,
+  VIEWER_VOTE_CHALLENGE_TTL_MS,
+  VIEWER_VOTE_FLAG_LOG_LIMIT,
+  VIEWER_VOTE_RATE_LIMIT_MAX,
+  VIEWER_VOTE_RATE_LIMIT_WINDOW_MS,
+  VIEWER_VOTE_VERIFIED_TTL_MS,
+} from "./constants";
+import { getEngineState, getOrCreateEngineState } from "./state";
+import { verifyVoteChallenge, type VoteChallenge, type VoteProof } from "../shared/voteChallenge";
+
+export type ViewerVoteFlagReason = "burst" | "no_presence";
+export type WebVoteGate = "rate_limited" | "challenge_required" | null;
+
+function readChallengeBits(state: any): number {
+  const bits = state?.voteChallengeBits;
+  if (typeof bits !== "number" || !Number.isFinite(bits)) return 0;
+  return Math.max(0, Math.min(Math.floor(bits), VIEWER_VOTE_CHALLENGE_MAX_BITS));
+}
+
+async function getIdentity(ctx: { db: any }, viewerId: string) {
+  return await ctx.db
+    .query("viewerVoteIdentities")
+    .withIndex("by_viewerId", (q: any) => q.eq("viewerId", viewerId))
+    .first();
+}
+
+async function acceptProof(
+  ctx: { db: any },
+  viewerId: string,
+  proof: VoteProof,
+  requiredBits: number,
+  now: number,
+): Promise<boolean> {
+  const challengeId = ctx.db.normalizeId("viewerVoteChallenges", proof.challengeId);
+  const challenge = challengeId ? await ctx.db.get(challengeId) : null;
+  if (!challenge || challenge.viewerId !== viewerId) return false;
+  if (challenge.expiresAt <= now || challenge.bits < requiredBits) return false;
+  if (!(await verifyVoteChallenge(challenge.challenge, viewerId, proof.nonce, challenge.bits))) return false;
+  await ctx.db.delete(challenge._id);
+  return true;
+}
+
+// Counts every web vote attempt against the viewer's rate window and, when the
+// proof-of-work challenge is enabled, requires a solved challenge before voting.
+// The window is keyed by the client-generated viewerId, so without the challenge
+// a fresh id starts a fresh window.
+export async function checkWebVoteGate(
+  ctx: { db: any },
+  viewerId: string,
+  proof?: VoteProof,
+): Promise<WebVoteGate> {
+  const now = Date.now();
+  const identity = await getIdentity(ctx, viewerId);
+  const sameWindow = Boolean(identity) && now - identity.rateWindowStart < VIEWER_VOTE_RATE_LIMIT_WINDOW_MS;
+  const rateWindowStart = sameWindow ? identity.rateWindowStart : now;
+  const rateWindowCount = (sameWindow ? identity.rateWindowCount : 0) + 1;
+  let verifiedUntil: number | undefined = identity?.verifiedUntil;
+
+  let gate: WebVoteGate = null;
+  if (rateWindowCount > VIEWER_VOTE_RATE_LIMIT_MAX) {
+    gate = "rate_limited";
+  } else {
+    const bits = readChallengeBits(await getEngineState(ctx as any));
+    if (bits > 0 && !(verifiedUntil && verifiedUntil > now)) {
+      if (proof && (await acceptProof(ctx, viewerId, proof, bits, now))) {
+        verifiedUntil = now + VIEWER_VOTE_VERIFIED_TTL_MS;
+      } else {
+        gate = "challenge_required";
+      }
+    }
+  }
+
+  const fields = {
+    verifiedUntil,
+    rateWindowStart,
+    rateWindowCount,
+    expiresAt: Math.max(rateWindowStart + VIEWER_VOTE_RATE_LIMIT_WINDOW_MS, verifiedUntil ?? 0),
+    updatedAt: now,
+  };
+  if (identity) {
+    await ctx.db.patch(identity._id, fields);
+  } else {
+    await ctx.db.insert("viewerVoteIdentities", { viewerId, ...fields });
+  }
+  return gate;
+}
+
+export async function issueVoteChallengeImpl(ctx: { db: any }, viewerId: string): Promise<VoteChallenge | null> {
+  const bits = readChallengeBits(await getEngineState(ctx as any));
+  if (bits <= 0) return null;
+
+  const previous = await ctx.db
+    .query("viewerVoteChallenges")
+    .withIndex("by_viewerId", (q: any) => q.eq("viewerId", viewerId))
+    .collect();
+  for (const row of previous) {
+    await ctx.db.delete(row._id);
+  }
+
+  const challenge = crypto.randomUUID();
+  const expiresAt = Date.now() + VIEWER_VOTE_CHALLENGE_TTL_MS;
+  const challengeId = await ctx.db.insert("viewerVoteChallenges", { viewerId, challenge, bits, expiresAt });
+  return { challengeId, challenge, bits, expiresAt };
+}
+
+// A new web vote is suspicious when the viewer has no live presence or arrives after
+// the burst threshold of new votes on the same round; the votes before it stay clean.
+export async function detectVoteFlags(
+  ctx: { db: any },
+  roundId: any,
+  viewerId: string,
+  now: number,
+): Promise<ViewerVoteFlagReason[]> {
+  const reasons: ViewerVoteFlagReason[] = [];
+  const presence = await ctx.db
+    .query("viewerPresence")
+    .withIndex("by_viewerId", (q: any) => q.eq("viewerId", viewerId))
+    .first();
+  if (!presence) reasons.push("no_presence");
+
+  const recent = await ctx.db
+    .query("viewerVotes")
+    .withIndex("by_round_and_createdAt", (q: any) =>
+      q.eq("roundId", roundId).gte("createdAt", now - VIEWER_VOTE_BURST_WINDOW_MS),
+    )
+    .take(VIEWER_VOTE_BURST_THRESHOLD);
+  if (recent.length >= VIEWER_VOTE_BURST_THRESHOLD) reasons.push("burst");
+  return reasons;
+}
+
+export async function reapVoteIntegrity(ctx: { db: any }, now: number, limit: number): Promise<void> {
+  const identities = await ctx.db
+    .query("viewerVoteIdentities")
+    .withIndex("by_expiresAt", (q: any) => q.lte("expiresAt", now))
+    .take(limit);
+  for (const row of identities) {
+    await ctx.db.delete(row._id);
+  }
+
+  const challenges = await ctx.db
+    .query("viewerVoteChallenges")
+    .withIndex("by_expiresAt", (q: any) => q.lte("expiresAt", now))
+    .take(limit);
+  for (const row of challenges) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+export const getAdminState = internalQuery({
+  args: {},
+  returns: v.object({
+    settings: v.object({ challengeBits: v.number() }),
+    limits: v.object({
+      rateLimitMax: v.number(),
+      rateLimitWindowMs: v.number(),
+      burstThreshold: v.number(),
+      burstWindowMs: v.number(),
+      maxChallengeBits: v.number(),
+    }),
+    activeRound: v.union(v.null(), v.object({ roundId: v.id("rounds"), num: v.number(), phase: v.string() })),
+    votes: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const state = await getEngineState(ctx as any);
+    const activeRound = state?.activeRoundId ? await ctx.db.get(state.activeRoundId) : null;
+    const flagged = await ctx.db
+      .query("viewerVotes")
+      .withIndex("by_flaggedAt", (q) => q.gt("flaggedAt", 0))
+      .order("desc")
+      .take(VIEWER_VOTE_FLAG_LOG_LIMIT);
+
+    const rounds = new Map<string, any>();
+    const votes = [];
+    for (const vote of flagged) {
+      if (!rounds.has(vote.roundId)) {
+        rounds.set(vote.roundId, await ctx.db.get(vote.roundId));
+      }
+      const round = rounds.get(vote.roundId);
+      votes.push({
+        _id: vote._id,
+        roundId: vote.roundId,
+        roundNum: round?.num ?? null,
+        roundOpen: Boolean(round) && round.phase !== "done",
+        viewerId: vote.viewerId,
+        side: vote.side,
+        flaggedReasons: vote.flaggedReasons ?? [],
+        flaggedAt: vote.flaggedAt,
+        excludedAt: vote.excludedAt ?? null,
+      });
+    }
+
+    return {
+      settings: { challengeBits: readChallengeBits(state) },
+      limits: {
+        rateLimitMax: VIEWER_VOTE_RATE_LIMIT_MAX,
+        rateLimitWindowMs: VIEWER_VOTE_RATE_LIMIT_WINDOW_MS,
+        burstThreshold: VIEWER_VOTE_BURST_THRESHOLD,
+        burstWindowMs: VIEWER_VOTE_BURST_WINDOW_MS,
+        maxChallengeBits: VIEWER_VOTE_CHALLENGE_MAX_BITS,
+      },
+      activeRound: activeRound ? { roundId: activeRound._id, num: activeRound.num, phase: activeRound.phase } : null,
+      votes,
+    };
+  },
+});
+
+export const updateSettings = internalMutation({
+  args: { challengeBits: v.number() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (
+      !Number.isInteger(args.challengeBits) ||
+      args.challengeBits < 0 ||
+      args.challengeBits > VIEWER_VOTE_CHALLENGE_MAX_BITS
+    ) {
+      throw new Error(`Dificuldade do desafio deve ser um inteiro entre 0 e ${VIEWER_VOTE_CHALLENGE_MAX_BITS}`);
+    }
+    const state = await getOrCreateEngineState(ctx as any);
+    await ctx.db.patch(state._id, {
+      voteChallengeBits: args.challengeBits > 0 ? args.challengeBits : undefined,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
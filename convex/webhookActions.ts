@@ -0,0 +1,70 @@
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { WEBHOOK_DELIVERY_TIMEOUT_MS } from "./constants";
+
+const convexInternal = internal as any;
+
+const WEBHOOK_ERROR_MAX_LENGTH = 300;
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare it to v1.
+async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+export const deliver = internalAction({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.runQuery(convexInternal.webhooks.getDeliveryForAttempt, args);
+    if (!delivery) return null;
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), WEBHOOK_DELIVERY_TIMEOUT_MS);
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": String(args.deliveryId),
+          "X-Webhook-Attempt": String(delivery.attempts + 1),
+          "X-Webhook-Signature": await signWebhookPayload(delivery.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        signal: controller.signal,
+      });
+      clearTimeout(timer);
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Falha de rede";
+    }
+
+    await ctx.runMutation(convexInternal.webhooks.recordAttempt, {
+      deliveryId: args.deliveryId,
+      ok: !error,
+      statusCode,
+      error: error?.slice(0, WEBHOOK_ERROR_MAX_LENGTH),
+    });
+    return null;
+  },
+});
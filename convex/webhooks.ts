@@ -0,0 +1,316 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  WEBHOOK_DELIVERY_LOG_LIMIT,
+  WEBHOOK_DELIVERY_RETENTION_MS,
+  WEBHOOK_RETRY_DELAYS_MS,
+} from "./constants";
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_TEST_EVENT, type WebhookEventType } from "../shared/webhooks";
+
+const convexInternal = internal as any;
+
+const RETENTION_CLEANUP_BATCH = 20;
+
+const webhookEventValidator = v.union(
+  v.literal("round.created"),
+  v.literal("prompt.ready"),
+  v.literal("answers.ready"),
+  v.literal("voting.started"),
+  v.literal("round.finalized"),
+  v.literal("round.skipped"),
+  v.literal("engine.paused"),
+  v.literal("engine.resumed"),
+);
+
+function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+function normalizeWebhookUrl(value: string): string {
+  const trimmed = value.trim();
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error("URL invalida");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("URL deve usar http ou https");
+  }
+  return url.toString();
+}
+
+async function enqueueDelivery(
+  ctx: { db: any; scheduler: any },
+  webhookId: any,
+  event: string,
+  payload: string,
+  now: number,
+): Promise<void> {
+  const expired = await ctx.db
+    .query("webhookDeliveries")
+    .withIndex("by_createdAt", (q: any) => q.lt("createdAt", now - WEBHOOK_DELIVERY_RETENTION_MS))
+    .take(RETENTION_CLEANUP_BATCH);
+  for (const row of expired) {
+    await ctx.db.delete(row._id);
+  }
+
+  const deliveryId = await ctx.db.insert("webhookDeliveries", {
+    webhookId,
+    event,
+    payload,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await ctx.scheduler.runAfter(0, convexInternal.webhookActions.deliver, { deliveryId });
+}
+
+function buildPayload(event: string, data: Record<string, unknown>, now: number): string {
+  return JSON.stringify({ id: crypto.randomUUID(), type: event, createdAt: now, data });
+}
+
+// Queues one delivery per enabled webhook subscribed to the event; the HTTP call
+// happens in webhookActions.deliver so engine mutations never wait on receivers.
+export async function emitWebhookEvent(
+  ctx: { db: any; scheduler: any },
+  event: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<void> {
+  const webhooks = await ctx.db
+    .query("webhooks")
+    .withIndex("by_enabled", (q: any) => q.eq("enabled", true))
+    .collect();
+  const subscribed = webhooks.filter((webhook: any) => webhook.events.includes(event));
+  if (subscribed.length === 0) return;
+
+  const now = Date.now();
+  const payload = buildPayload(event, data, now);
+  for (const webhook of subscribed) {
+    await enqueueDelivery(ctx, webhook._id, event, payload, now);
+  }
+}
+
+function toWebhookModel(model: any) {
+  return { id: model.id, name: model.name };
+}
+
+function buildRoundWebhookData(round: any): Record<string, unknown> {
+  return {
+    roundId: round._id,
+    generation: round.generation,
+    num: round.num,
+    phase: round.phase,
+    prompter: toWebhookModel(round.prompter),
+    prompt: round.prompt ?? null,
+    promptSubmitter: round.promptSubmitter ?? null,
+    contestants: round.contestants.map(toWebhookModel),
+    tournamentId: round.tournamentId ?? null,
+    ...(round.skipped ? { skipType: round.skipType ?? null, skipReason: round.skipReason ?? null } : {}),
+  };
+}
+
+export async function emitRoundWebhookEvent(
+  ctx: { db: any; scheduler: any },
+  event: WebhookEventType,
+  roundId: any,
+  extra: Record<string, unknown> = {},
+): Promise<void> {
+  const round = await ctx.db.get(roundId);
+  if (!round) return;
+  await emitWebhookEvent(ctx, event, { ...buildRoundWebhookData(round), ...extra });
+}
+
+export const getDeliveryForAttempt = internalQuery({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  returns: v.union(
+    v.null(),
+    v.object({
+      url: v.string(),
+      secret: v.string(),
+      event: v.string(),
+      payload: v.string(),
+      attempts: v.number(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || delivery.status !== "pending") return null;
+    const webhook = await ctx.db.get(delivery.webhookId);
+    if (!webhook) return null;
+    return {
+      url: webhook.url,
+      secret: webhook.secret,
+      event: delivery.event,
+      payload: delivery.payload,
+      attempts: delivery.attempts,
+    };
+  },
+});
+
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    ok: v.boolean(),
+    statusCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || delivery.status !== "pending") return null;
+
+    const now = Date.now();
+    const attempts = delivery.attempts + 1;
+    if (args.ok) {
+      await ctx.db.patch(delivery._id, {
+        status: "success",
+        attempts,
+        nextAttemptAt: undefined,
+        lastStatusCode: args.statusCode,
+        lastError: undefined,
+        deliveredAt: now,
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    const retryDelayMs = WEBHOOK_RETRY_DELAYS_MS[attempts - 1];
+    await ctx.db.patch(delivery._id, {
+      status: retryDelayMs === undefined ? "failed" : "pending",
+      attempts,
+      nextAttemptAt: retryDelayMs === undefined ? undefined : now + retryDelayMs,
+      lastStatusCode: args.statusCode,
+      lastError: args.error,
+      updatedAt: now,
+    });
+    if (retryDelayMs !== undefined) {
+      await ctx.scheduler.runAfter(retryDelayMs, convexInternal.webhookActions.deliver, {
+        deliveryId: delivery._id,
+      });
+    }
+    return null;
+  },
+});
+
+export const getAdminState = internalQuery({
+  args: {},
+  returns: v.object({
+    maxAttempts: v.number(),
+    webhooks: v.array(v.any()),
+    deliveries: v.array(v.any()),
+  }),
+  handler: async (ctx) => {
+    const webhooks = await ctx.db.query("webhooks").collect();
+    const urlsById = new Map(webhooks.map((webhook) => [webhook._id, webhook.url]));
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_createdAt")
+      .order("desc")
+      .take(WEBHOOK_DELIVERY_LOG_LIMIT);
+
+    return {
+      maxAttempts: WEBHOOK_RETRY_DELAYS_MS.length + 1,
+      webhooks: webhooks
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map((webhook) => ({
+          _id: webhook._id,
+          url: webhook.url,
+          secret: webhook.secret,
+          events: webhook.events,
+          enabled: webhook.enabled,
+          description: webhook.description ?? null,
+          createdAt: webhook.createdAt,
+        })),
+      deliveries: deliveries.map((delivery) => ({
+        _id: delivery._id,
+        webhookId: delivery.webhookId,
+        url: urlsById.get(delivery.webhookId) ?? null,
+        event: delivery.event,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.nextAttemptAt ?? null,
+        lastStatusCode: delivery.lastStatusCode ?? null,
+        lastError: delivery.lastError ?? null,
+        deliveredAt: delivery.deliveredAt ?? null,
+        createdAt: delivery.createdAt,
+      })),
+    };
+  },
+});
+
+export const upsertWebhook = internalMutation({
+  args: {
+    id: v.optional(v.id("webhooks")),
+    url: v.string(),
+    events: v.array(webhookEventValidator),
+    enabled: v.boolean(),
+    description: v.optional(v.string()),
+    rotateSecret: v.optional(v.boolean()),
+  },
+  returns: v.id("webhooks"),
+  handler: async (ctx, args) => {
+    const url = normalizeWebhookUrl(args.url);
+    const events = WEBHOOK_EVENT_TYPES.filter((event) => args.events.includes(event));
+    if (events.length === 0) throw new Error("Selecione ao menos um evento");
+    const description = args.description?.trim() || undefined;
+
+    const now = Date.now();
+    if (args.id) {
+      const existing = await ctx.db.get(args.id);
+      if (!existing) throw new Error("Webhook nao encontrado");
+      await ctx.db.patch(args.id, {
+        url,
+        events,
+        enabled: args.enabled,
+        description,
+        ...(args.rotateSecret ? { secret: generateWebhookSecret() } : {}),
+        updatedAt: now,
+      });
+      return args.id;
+    }
+    return await ctx.db.insert("webhooks", {
+      url,
+      secret: generateWebhookSecret(),
+      events,
+      enabled: args.enabled,
+      description,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const removeWebhook = internalMutation({
+  args: { id: v.id("webhooks") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db.get(args.id);
+    if (!existing) throw new Error("Webhook nao encontrado");
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_webhookId", (q) => q.eq("webhookId", args.id))
+      .collect();
+    for (const delivery of deliveries) {
+      await ctx.db.delete(delivery._id);
+    }
+    await ctx.db.delete(args.id);
+    return null;
+  },
+});
+
+export const sendTestEvent = internalMutation({
+  args: { id: v.id("webhooks") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const webhook = await ctx.db.get(args.id);
+    if (!webhook) throw new Error("Webhook nao encontrado");
+    const now = Date.now();
+    const payload = buildPayload(WEBHOOK_TEST_EVENT, { webhookId: webhook._id, events: webhook.events }, now);
+    await enqueueDelivery(ctx, webhook._id, WEBHOOK_TEST_EVENT, payload, now);
+    return null;
+  },
+});
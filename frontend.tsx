@@ -7,25 +7,45 @@ import {
   normalizeHexColor,
   type ModelCatalogEntry,
 } from "./shared/models";
+import {
+  arePredictionsOpen,
+  indexFromSide,
+  resolveWinnerIndex,
+  sideFromIndex,
+  type ContestantSide,
+} from "./shared/rounds";
 import {
   ReasoningProgressEstimator,
   reasoningProgressKey,
 } from "./shared/reasoningEstimator";
+import { getUiStrings, normalizeShowLanguage, type ShowLanguage } from "./shared/i18n";
+import { solveVoteChallenge, type VoteChallenge, type VoteProof } from "./shared/voteChallenge";
 import {
   FRONTEND_ACTIVE_TICK_MS,
   FRONTEND_IDLE_TICK_MS,
   FRONTEND_VIEWER_HEARTBEAT_MS,
+  RATING_INITIAL,
   REASONING_ESTIMATOR_MAX_EXTRAPOLATION_MS,
   REASONING_ESTIMATOR_MAX_RATE_PER_MS,
   REASONING_ESTIMATOR_PRUNE_OLDER_THAN_MS,
   REASONING_ESTIMATOR_SYNC_BLEND_MS,
   VIEWER_ID_STORAGE_KEY,
+  VIEWER_PROMPT_MAX_LENGTH,
+  VIEWER_PROMPT_MAX_NAME_LENGTH,
+  VIEWER_PROMPT_MIN_LENGTH,
+  VIEWER_PROMPT_NAME_STORAGE_KEY,
 } from "./config";
 import type {
   ActiveReasoningProgressItem,
   GameState,
+  HeadToHeadRecord,
+  ModelRating,
+  RatingSource,
   RoundState,
   TaskInfo,
+  TournamentMatch,
+  TournamentSlot,
+  TournamentState,
 } from "./shared/types";
 import "./frontend.css";
 
@@ -50,6 +70,12 @@ function syncModelCatalog(models: ModelCatalogEntry[]) {
   modelCatalogByName = new Map(models.map((model) => [model.name, model]));
 }
 
+let ui = getUiStrings(undefined);
+
+function syncShowLanguage(language: ShowLanguage) {
+  ui = getUiStrings(language);
+}
+
 function getColor(name: string, fallbackColor?: string): string {
   const fromCatalog = modelCatalogByName.get(name);
   if (fromCatalog) return normalizeHexColor(fromCatalog.color);
@@ -69,6 +95,12 @@ function getConvexUrl(): string {
   return url.replace(/\/$/, "");
 }
 
+function getConvexSiteUrl(): string | null {
+  const env = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env;
+  const url = env?.VITE_CONVEX_SITE_URL?.trim();
+  return url ? url.replace(/\/$/, "") : null;
+}
+
 function getOrCreateViewerId(): string {
   const key = VIEWER_ID_STORAGE_KEY;
   const existing = window.localStorage.getItem(key);
@@ -137,6 +169,35 @@ function rankByScore(
     });
 }
 
+type StandingsRankMode = "wins" | "rating";
+
+function ratingsAsScoreRecord(
+  ratings: ModelRating[],
+  source: RatingSource,
+  names: string[],
+): Record<string, number> {
+  const record: Record<string, number> = {};
+  for (const name of names) {
+    record[name] = RATING_INITIAL;
+  }
+  for (const entry of ratings) {
+    if (entry.source === source) {
+      record[entry.name] = entry.rating;
+    }
+  }
+  return record;
+}
+
+function rankingBarPercent(entry: RankingEntry, entries: RankingEntry[], mode: StandingsRankMode): number {
+  const maxScore = entries[0]?.score ?? 0;
+  if (mode === "wins") {
+    return maxScore > 0 ? Math.round((entry.score / maxScore) * 100) : 0;
+  }
+  const minScore = entries[entries.length - 1]?.score ?? 0;
+  if (maxScore <= minScore) return 50;
+  return Math.round(10 + ((entry.score - minScore) / (maxScore - minScore)) * 90);
+}
+
 type SkipReasonView = {
   modelName: string | null;
   message: string;
@@ -145,7 +206,7 @@ type SkipReasonView = {
 function parseSkipReason(skipReason?: string): SkipReasonView {
   const raw = (skipReason ?? "").trim();
   if (!raw) {
-    return { modelName: null, message: "Falha tecnica" };
+    return { modelName: null, message: ui.technicalFailure };
   }
 
   const separatorIndex = raw.indexOf(":");
@@ -170,7 +231,7 @@ function formatDurationMs(ms: number): string {
 
 function formatInt(value: number): string {
   if (!Number.isFinite(value)) return "0";
-  return Math.max(0, Math.floor(value)).toLocaleString("pt-BR");
+  return Math.max(0, Math.floor(value)).toLocaleString(ui.locale);
 }
 
 function getTaskDurationMs(task: TaskInfo, nowMs: number): number {
@@ -249,7 +310,7 @@ function PromptCard({
     return (
       <div className="prompt" style={promptStyle}>
         <div className="prompt__by">
-          <ModelTag model={round.prompter} small /> esta escrevendo um prompt
+          <ModelTag model={round.prompter} small /> {ui.isWritingPrompt}
           <Dots />
         </div>
         <div className="task-metrics task-metrics--live">
@@ -266,16 +327,27 @@ function PromptCard({
     return (
       <div className="prompt" style={promptStyle}>
         <div className="prompt__text prompt__text--error">
-          Falha ao gerar prompt
+          {ui.promptFailed}
         </div>
       </div>
     );
   }
 
+  if (round.promptSubmitter) {
+    return (
+      <div className="prompt prompt--viewer">
+        <div className="prompt__by">
+          {ui.promptSubmittedBy} <span className="prompt__submitter">{round.promptSubmitter}</span>
+        </div>
+        <div className="prompt__text">{round.prompt}</div>
+      </div>
+    );
+  }
+
   return (
     <div className="prompt" style={promptStyle}>
       <div className="prompt__by">
-        Prompt de <ModelTag model={round.prompter} small />
+        {ui.promptBy} <ModelTag model={round.prompter} small />
       </div>
       <div className="task-metrics">{promptMetricsText}</div>
       <div className="prompt__text">{round.prompt}</div>
@@ -283,6 +355,278 @@ function PromptCard({
   );
 }
 
+// ── Viewer prompt form ───────────────────────────────────────────────────────
+
+type PromptSubmitStatus = "queued" | "invalid" | "limit" | "duplicate";
+
+function PromptSubmitForm({
+  onSubmit,
+}: {
+  onSubmit: (name: string, text: string) => Promise<PromptSubmitStatus>;
+}) {
+  const [name, setName] = useState(() => window.localStorage.getItem(VIEWER_PROMPT_NAME_STORAGE_KEY) ?? "");
+  const [text, setText] = useState("");
+  const [pending, setPending] = useState(false);
+  const [status, setStatus] = useState<PromptSubmitStatus | "error" | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setPending(true);
+    try {
+      const result = await onSubmit(name.trim(), text.trim());
+      setStatus(result);
+      if (result === "queued") {
+        setText("");
+        window.localStorage.setItem(VIEWER_PROMPT_NAME_STORAGE_KEY, name.trim());
+      }
+    } catch {
+      setStatus("error");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <form className="prompt-submit" onSubmit={(event) => void handleSubmit(event)}>
+      <div className="prompt-submit__title">{ui.submitPromptTitle}</div>
+      <div className="prompt-submit__row">
+        <input
+          className="prompt-submit__name"
+          placeholder={ui.submitPromptName}
+          value={name}
+          maxLength={VIEWER_PROMPT_MAX_NAME_LENGTH}
+          onChange={(event) => setName(event.target.value)}
+          disabled={pending}
+        />
+        <input
+          className="prompt-submit__text"
+          placeholder={ui.submitPromptText}
+          value={text}
+          maxLength={VIEWER_PROMPT_MAX_LENGTH}
+          onChange={(event) => setText(event.target.value)}
+          disabled={pending}
+        />
+        <button
+          type="submit"
+          className="prompt-submit__button"
+          disabled={pending || !name.trim() || text.trim().length < VIEWER_PROMPT_MIN_LENGTH}
+        >
+          {pending ? ui.submitPromptSending : ui.submitPromptSend}
+        </button>
+      </div>
+      {status && (
+        <div className={`prompt-submit__status${status === "queued" ? "" : " prompt-submit__status--error"}`}>
+          {status === "error"
+            ? ui.submitPromptError
+            : ui.submitPromptStatus(status, VIEWER_PROMPT_MIN_LENGTH, VIEWER_PROMPT_MAX_LENGTH)}
+        </div>
+      )}
+    </form>
+  );
+}
+
+// ── Viewer account ───────────────────────────────────────────────────────────
+
+type ViewerProfile = {
+  linked: boolean;
+  identities: { identity: string; platform: string; displayName: string | null; linkedAt: number }[];
+  stats: { votes: number; promptsSubmitted: number; promptsUsed: number };
+};
+
+const ACCOUNT_PLATFORM_LABELS: Record<string, string> = {
+  twitch: "Twitch",
+  youtube: "YouTube",
+};
+
+function readLinkResultFromUrl(): string | null {
+  const url = new URL(window.location.href);
+  const linked = url.searchParams.get("linked");
+  const linkError = url.searchParams.get("link_error");
+  if (!linked && !linkError) return null;
+  url.searchParams.delete("linked");
+  url.searchParams.delete("link_error");
+  window.history.replaceState(null, "", url.toString());
+  if (linked) return ui.accountLinked(ACCOUNT_PLATFORM_LABELS[linked] ?? linked);
+  return linkError === "not_configured" ? ui.accountLinkUnavailable : ui.accountLinkError;
+}
+
+function AccountLinkPanel({ viewerId }: { viewerId: string }) {
+  const profile = useQuery(convexApi.viewerAccounts.getProfile, { viewerId }) as ViewerProfile | undefined;
+  const createLinkCode = useMutation(convexApi.viewerAccounts.createLinkCode);
+  const unlinkIdentity = useMutation(convexApi.viewerAccounts.unlinkIdentity);
+  const [code, setCode] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(() => readLinkResultFromUrl());
+  const [pending, setPending] = useState(false);
+  const siteUrl = getConvexSiteUrl();
+
+  const onCreateCode = async () => {
+    setPending(true);
+    try {
+      const result = (await createLinkCode({ viewerId })) as { code: string; expiresAt: number };
+      setCode(result.code);
+      setStatus(null);
+    } catch {
+      setStatus(ui.accountLinkError);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const onUnlink = async (identity: string) => {
+    setPending(true);
+    try {
+      const result = await unlinkIdentity({ viewerId, identity });
+      setStatus(result === "round_open" ? ui.accountUnlinkRoundOpen : null);
+    } catch {
+      setStatus(ui.accountLinkError);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const buildStartUrl = (provider: string) =>
+    `${siteUrl}/viewer-auth/${provider}/start?${new URLSearchParams({
+      viewerId,
+      returnTo: window.location.href,
+    }).toString()}`;
+
+  return (
+    <div className="prompt-submit account-link">
+      <div className="prompt-submit__title">{ui.accountTitle}</div>
+      <div className="prompt-submit__status">{ui.accountHint}</div>
+      {profile && profile.identities.length > 0 && (
+        <div className="account-link__identities">
+          {profile.identities.map((entry) => (
+            <div className="account-link__identity" key={entry.identity}>
+              <span>
+                {ACCOUNT_PLATFORM_LABELS[entry.platform] ?? entry.platform}: {entry.displayName ?? entry.identity}
+              </span>
+              <button
+                type="button"
+                className="account-link__unlink"
+                disabled={pending}
+                onClick={() => void onUnlink(entry.identity)}
+              >
+                {ui.accountUnlink}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="prompt-submit__row">
+        {siteUrl &&
+          Object.entries(ACCOUNT_PLATFORM_LABELS).map(([provider, label]) => (
+            <a key={provider} className="prompt-submit__button account-link__button" href={buildStartUrl(provider)}>
+              {ui.accountLinkWith(label)}
+            </a>
+          ))}
+        <button type="button" className="prompt-submit__button" disabled={pending} onClick={() => void onCreateCode()}>
+          {ui.accountCreateCode}
+        </button>
+      </div>
+      {code && <div className="prompt-submit__status">{ui.accountCodeInstructions(code)}</div>}
+      {status && <div className="prompt-submit__status">{status}</div>}
+      {profile && (
+        <div className="prompt-submit__status">
+          {ui.accountStats(profile.stats.votes, profile.stats.promptsSubmitted, profile.stats.promptsUsed)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Predictions ──────────────────────────────────────────────────────────────
+
+type PredictionStats = {
+  points: number;
+  correct: number;
+  total: number;
+  streak: number;
+  bestStreak: number;
+  activePrediction: ContestantSide | null;
+};
+
+type PredictorEntry = {
+  rank: number;
+  name: string | null;
+  tag: string;
+  points: number;
+  correct: number;
+  total: number;
+  streak: number;
+};
+
+async function buildVoteProof(
+  requestVoteChallenge: (args: { viewerId: string }) => Promise<unknown>,
+  viewerId: string,
+): Promise<VoteProof | undefined> {
+  const challenge = (await requestVoteChallenge({ viewerId })) as VoteChallenge | null;
+  if (!challenge) return undefined;
+  return {
+    challengeId: challenge.challengeId,
+    nonce: await solveVoteChallenge(challenge.challenge, viewerId, challenge.bits),
+  };
+}
+
+function PredictionPanel({ round, viewerId }: { round: RoundState; viewerId: string }) {
+  const stats = useQuery(convexApi.predictions.getMyStats, { viewerId }) as PredictionStats | undefined;
+  const predict = useMutation(convexApi.predictions.predict);
+  const requestVoteChallenge = useMutation(convexApi.viewers.requestVoteChallenge);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState(false);
+  const open = arePredictionsOpen(round);
+  const myIndex = stats?.activePrediction ? indexFromSide(stats.activePrediction) : -1;
+  const myModel = round.contestants[myIndex];
+
+  const onPredict = async (index: number) => {
+    const side = sideFromIndex(index);
+    if (!side) return;
+    setPending(true);
+    setError(false);
+    try {
+      const name = (window.localStorage.getItem(VIEWER_PROMPT_NAME_STORAGE_KEY) ?? "").trim() || undefined;
+      type PredictResult = { ok: boolean; predicted: ContestantSide | null; status: string };
+      let result = (await predict({ viewerId, side, name })) as PredictResult;
+      if (result.status === "challenge_required") {
+        const proof = await buildVoteProof(requestVoteChallenge, viewerId);
+        result = (await predict({ viewerId, side, name, proof })) as PredictResult;
+      }
+      setError(!result.ok && result.status !== "closed");
+    } catch {
+      setError(true);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="prompt-submit prediction">
+      <div className="prompt-submit__title">{ui.predictionTitle}</div>
+      <div className="prompt-submit__status">{open ? ui.predictionHint : ui.predictionClosed}</div>
+      <div className="prompt-submit__row">
+        {round.contestants.map((contestant, index) => (
+          <button
+            key={`${contestant.id}-${index}`}
+            type="button"
+            className={`prediction__pick ${myIndex === index ? "prediction__pick--mine" : ""}`}
+            disabled={!open || pending}
+            onClick={() => void onPredict(index)}
+          >
+            {index + 1}. {contestant.name}
+          </button>
+        ))}
+      </div>
+      {myModel && <div className="prompt-submit__status">{ui.predictionMine(myModel.name)}</div>}
+      {error && <div className="prompt-submit__status prompt-submit__status--error">{ui.predictionError}</div>}
+      {stats && stats.total > 0 && (
+        <div className="prompt-submit__status">
+          {ui.predictionStats(stats.points, stats.correct, stats.total, stats.streak)}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ── Contestant ───────────────────────────────────────────────────────────────
 
 function ContestantCard({
@@ -333,8 +677,8 @@ function ContestantCard({
     >
       <div className="contestant__head">
         <ModelTag model={task.model} />
-        {isMyVote && !isWinner && <span className="my-vote-tag">SEU VOTO</span>}
-        {isWinner && <span className="win-tag">VENCEU</span>}
+        {isMyVote && !isWinner && <span className="my-vote-tag">{ui.yourVote}</span>}
+        {isWinner && <span className="win-tag">{ui.won}</span>}
       </div>
 
       <div className="contestant__body">
@@ -372,9 +716,7 @@ function ContestantCard({
             <span className="vote-meta__count" style={{ color }}>
               {voteCount}
             </span>
-            <span className="vote-meta__label">
-              voto{voteCount !== 1 ? "s" : ""}
-            </span>
+            <span className="vote-meta__label">{ui.votes(voteCount)}</span>
             <span className="vote-meta__dots">
               {voters.map((v, i) => {
                 const logo = getLogo(v.voter.name, v.voter.logoId);
@@ -411,9 +753,7 @@ function ContestantCard({
                 <span className="vote-meta__count viewer-vote-meta__count">
                   {viewerVotes ?? 0}
                 </span>
-                <span className="vote-meta__label">
-                  voto{(viewerVotes ?? 0) !== 1 ? "s" : ""} da plateia
-                </span>
+                <span className="vote-meta__label">{ui.viewerVotes(viewerVotes ?? 0)}</span>
                 <span className="viewer-vote-meta__icon">??</span>
               </div>
             </>
@@ -430,56 +770,59 @@ function Arena({
   round,
   roundNumber,
   total,
+  tournamentLabel,
   votingCountdown,
   promptLiveReasoningTokens,
   answerLiveReasoningTokens,
   nowMs,
+  myVoteIndex,
+  onVote,
 }: {
   round: RoundState;
   roundNumber: number;
   total: number | null;
+  tournamentLabel: string | null;
   votingCountdown: VotingCountdownView | null;
   promptLiveReasoningTokens: number | null;
-  answerLiveReasoningTokens: [number | null, number | null];
+  answerLiveReasoningTokens: Array<number | null>;
   nowMs: number;
+  myVoteIndex: number | null;
+  onVote?: (index: number) => void;
 }) {
-  const [contA, contB] = round.contestants;
   const isSkipped = Boolean(round.skipped);
   const showVotes = !isSkipped && (round.phase === "voting" || round.phase === "done");
   const isDone = round.phase === "done";
 
-  let votesA = 0,
-    votesB = 0;
-  for (const v of round.votes) {
-    if (v.votedFor?.name === contA.name) votesA++;
-    else if (v.votedFor?.name === contB.name) votesB++;
-  }
-  const totalVotes = votesA + votesB;
-  const votersA = round.votes.filter((v) => v.votedFor?.name === contA.name);
-  const votersB = round.votes.filter((v) => v.votedFor?.name === contB.name);
-  const totalViewerVotes = (round.viewerVotesA ?? 0) + (round.viewerVotesB ?? 0);
-  const [answerALiveReasoningTokens, answerBLiveReasoningTokens] = answerLiveReasoningTokens;
+  const votersByIndex = round.contestants.map((contestant) =>
+    round.votes.filter((v) => v.votedFor?.name === contestant.name),
+  );
+  const voteCounts = votersByIndex.map((voters) => voters.length);
+  const totalVotes = voteCounts.reduce((sum, count) => sum + count, 0);
+  const viewerVoteCounts = round.contestants.map((_, index) => round.viewerVoteCounts?.[index] ?? 0);
+  const totalViewerVotes = viewerVoteCounts.reduce((sum, count) => sum + count, 0);
+  const winnerIndex = resolveWinnerIndex(voteCounts);
 
   const showCountdown = round.phase === "voting" && Boolean(votingCountdown);
   const skipInfo = isSkipped ? parseSkipReason(round.skipReason) : null;
 
   const phaseText =
     isSkipped
-      ? `Rodada pulada${skipInfo?.modelName ? ` - ${skipInfo.modelName}` : ""}`
+      ? ui.roundSkipped(skipInfo?.modelName ?? null)
       : round.phase === "prompting"
-      ? "Escrevendo prompt"
+      ? ui.writingPrompt
       : round.phase === "answering"
-        ? "Respondendo"
+        ? ui.answering
         : round.phase === "voting"
           ? ""
-          : "Concluida";
+          : ui.roundDone;
 
   return (
     <div className="arena">
       <div className="arena__meta">
         <span className="arena__round">
-          Rodada {roundNumber}
+          {ui.round(roundNumber)}
           {total ? <span className="dim">/{total}</span> : null}
+          {tournamentLabel ? <span className="arena__tournament">{tournamentLabel}</span> : null}
         </span>
         <div className="arena__meta-right">
           <span className={`arena__phase ${showCountdown ? "arena__phase--timer" : ""}`}>
@@ -498,36 +841,30 @@ function Arena({
       <PromptCard round={round} liveReasoningTokens={promptLiveReasoningTokens} nowMs={nowMs} />
 
       {round.phase !== "prompting" && round.skipType !== "prompt_error" && (
-        <div className="showdown">
-          <ContestantCard
-            task={round.answerTasks[0]}
-            liveReasoningTokens={answerALiveReasoningTokens}
-            nowMs={nowMs}
-            voteCount={votesA}
-            totalVotes={totalVotes}
-            isWinner={isDone && !isSkipped && votesA > votesB}
-            showVotes={showVotes}
-            voters={votersA}
-            viewerVotes={round.viewerVotesA}
-            totalViewerVotes={totalViewerVotes}
-          />
-          <ContestantCard
-            task={round.answerTasks[1]}
-            liveReasoningTokens={answerBLiveReasoningTokens}
-            nowMs={nowMs}
-            voteCount={votesB}
-            totalVotes={totalVotes}
-            isWinner={isDone && !isSkipped && votesB > votesA}
-            showVotes={showVotes}
-            voters={votersB}
-            viewerVotes={round.viewerVotesB}
-            totalViewerVotes={totalViewerVotes}
-          />
+        <div className={`showdown showdown--count-${round.answerTasks.length}`}>
+          {round.answerTasks.map((task, index) => (
+            <ContestantCard
+              key={`${task.model.id}-${index}`}
+              task={task}
+              liveReasoningTokens={answerLiveReasoningTokens[index] ?? null}
+              nowMs={nowMs}
+              voteCount={voteCounts[index] ?? 0}
+              totalVotes={totalVotes}
+              isWinner={isDone && !isSkipped && winnerIndex === index}
+              showVotes={showVotes}
+              voters={votersByIndex[index] ?? []}
+              viewerVotes={viewerVoteCounts[index]}
+              totalViewerVotes={totalViewerVotes}
+              votable={Boolean(onVote)}
+              onVote={onVote ? () => onVote(index) : undefined}
+              isMyVote={myVoteIndex === index}
+            />
+          ))}
         </div>
       )}
 
-      {isDone && !isSkipped && votesA === votesB && totalVotes > 0 && (
-        <div className="tie-label">Empate</div>
+      {isDone && !isSkipped && winnerIndex < 0 && totalVotes > 0 && (
+        <div className="tie-label">{ui.tie}</div>
       )}
     </div>
   );
@@ -540,11 +877,13 @@ function GameOver({
   humanScores,
   humanVoteTotals,
   enabledModelNames,
+  tournamentChampion,
 }: {
   scores: Record<string, number>;
   humanScores: Record<string, number>;
   humanVoteTotals: Record<string, number>;
   enabledModelNames: string[];
+  tournamentChampion: Model | null;
 }) {
   const allowedModelNames = new Set(enabledModelNames);
   const modelNames = collectRankingNames(
@@ -560,8 +899,23 @@ function GameOver({
 
   return (
     <div className="game-over">
-      <div className="game-over__label">Fim de jogo</div>
-      {iaChampion && iaChampion.score > 0 && (
+      <div className="game-over__label">{ui.gameOver}</div>
+      {tournamentChampion && (
+        <div className="game-over__winner game-over__winner--tournament">
+          <span className="game-over__crown">👑</span>
+          <span
+            className="game-over__name"
+            style={{ color: getColor(tournamentChampion.name, tournamentChampion.color) }}
+          >
+            {getLogo(tournamentChampion.name, tournamentChampion.logoId) && (
+              <img src={getLogo(tournamentChampion.name, tournamentChampion.logoId)!} alt="" />
+            )}
+            {tournamentChampion.name}
+          </span>
+          <span className="game-over__sub">{ui.tournamentChampion}</span>
+        </div>
+      )}
+      {!tournamentChampion && iaChampion && iaChampion.score > 0 && (
         <div className="game-over__winner">
           <span className="game-over__crown">??</span>
           <span
@@ -571,7 +925,7 @@ function GameOver({
             {getLogo(iaChampion.name) && <img src={getLogo(iaChampion.name)!} alt="" />}
             {iaChampion.name}
           </span>
-          <span className="game-over__sub">e a IA mais engracada</span>
+          <span className="game-over__sub">{ui.funniestAi}</span>
         </div>
       )}
       <div className="game-over__winner game-over__winner--human">
@@ -585,12 +939,12 @@ function GameOver({
               {getLogo(humanChampion.name) && <img src={getLogo(humanChampion.name)!} alt="" />}
               {humanChampion.name}
             </span>
-            <span className="game-over__sub">campeao da votacao da plateia</span>
+            <span className="game-over__sub">{ui.audienceChampionSub}</span>
           </>
         ) : (
           <>
-            <span className="game-over__name game-over__name--empty">Sem campeao da plateia</span>
-            <span className="game-over__sub">ainda sem vitoria humana acumulada</span>
+            <span className="game-over__name game-over__name--empty">{ui.noAudienceChampion}</span>
+            <span className="game-over__sub">{ui.noAudienceWinsYet}</span>
           </>
         )}
       </div>
@@ -598,21 +952,134 @@ function GameOver({
   );
 }
 
+// ── Tournament ───────────────────────────────────────────────────────────────
+
+function groupTournamentColumns(matches: TournamentMatch[]) {
+  const columns: Array<{ key: string; bracket: TournamentMatch["bracket"]; label: string; matches: TournamentMatch[] }> = [];
+  for (const match of matches) {
+    const key = `${match.bracket}-${match.round}`;
+    const column = columns.find((entry) => entry.key === key);
+    if (column) {
+      column.matches.push(match);
+    } else {
+      columns.push({ key, bracket: match.bracket, label: match.label, matches: [match] });
+    }
+  }
+  const order: TournamentMatch["bracket"][] = ["winners", "losers", "grand_final"];
+  return order
+    .map((bracket) => ({
+      bracket,
+      columns: columns.filter((column) => column.bracket === bracket).sort((a, b) => a.matches[0]!.round - b.matches[0]!.round),
+    }))
+    .filter((group) => group.columns.length > 0);
+}
+
+function TournamentSlotRow({
+  slot,
+  wins,
+  isWinner,
+  showWins,
+}: {
+  slot: TournamentSlot;
+  wins: number;
+  isWinner: boolean;
+  showWins: boolean;
+}) {
+  if (slot.kind !== "model") {
+    return (
+      <div className="bracket-slot bracket-slot--empty">
+        <span className="bracket-slot__name">{slot.kind === "bye" ? ui.bye : ui.toBeDefined}</span>
+      </div>
+    );
+  }
+  const logo = getLogo(slot.model.name, slot.model.logoId);
+  return (
+    <div className={`bracket-slot ${isWinner ? "bracket-slot--winner" : ""}`}>
+      <span className="bracket-slot__seed">{slot.seed}</span>
+      <span className="bracket-slot__name" style={{ color: getColor(slot.model.name, slot.model.color) }}>
+        {logo && <img src={logo} alt="" />}
+        {slot.model.name}
+      </span>
+      {showWins && <span className="bracket-slot__wins">{wins}</span>}
+    </div>
+  );
+}
+
+function TournamentBracket({ tournament }: { tournament: TournamentState }) {
+  const groups = groupTournamentColumns(tournament.matches);
+  return (
+    <section className="bracket" aria-label={ui.tournamentAria}>
+      <div className="bracket__head">
+        <span className="bracket__title">
+          {ui.tournamentTitle[tournament.format]}
+        </span>
+        <span className="bracket__meta">{ui.tournamentMeta(tournament.participantCount, tournament.bestOf)}</span>
+      </div>
+      {groups.map((group) => (
+        <div key={group.bracket} className="bracket__group">
+          {groups.length > 1 && (
+            <div className="bracket__group-title">{ui.tournamentBrackets[group.bracket]}</div>
+          )}
+          <div className="bracket__columns">
+            {group.columns.map((column) => (
+              <div key={column.key} className="bracket__column">
+                <div className="bracket__column-title">{column.label}</div>
+                {column.matches.map((match) => (
+                  <div
+                    key={match.id}
+                    className={`bracket-match bracket-match--${match.status} ${
+                      tournament.currentMatchId === match.id ? "bracket-match--current" : ""
+                    }`}
+                  >
+                    {match.slots.map((slot, slotIndex) => (
+                      <TournamentSlotRow
+                        key={slotIndex}
+                        slot={slot}
+                        wins={match.wins[slotIndex] ?? 0}
+                        isWinner={match.winnerSlot === slotIndex && match.status === "done"}
+                        showWins={match.status === "done" || match.games > 0}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
+
+function getTournamentRoundLabel(tournament: TournamentState | null, round: RoundState | null): string | null {
+  if (!tournament || !round?.tournamentMatchId || round.tournamentId !== tournament._id) return null;
+  const match = tournament.matches.find((entry) => entry.id === round.tournamentMatchId);
+  if (!match) return null;
+  return tournament.bestOf > 1 ? ui.tournamentGame(match.label, round.tournamentGame ?? 1) : match.label;
+}
+
 // -- Standings ----------------------------------------------------------------
 
 function Standings({
   scores,
   humanScores,
   humanVoteTotals,
+  ratings,
   activeRound,
   enabledModelNames,
+  predictors,
+  rivalry,
 }: {
   scores: Record<string, number>;
   humanScores: Record<string, number>;
   humanVoteTotals: Record<string, number>;
+  ratings: ModelRating[];
   activeRound: RoundState | null;
   enabledModelNames: string[];
+  predictors: PredictorEntry[];
+  rivalry: HeadToHeadRecord | null;
 }) {
+  const [rankMode, setRankMode] = useState<StandingsRankMode>("wins");
   const allowedModelNames = new Set(enabledModelNames);
   const modelNames = collectRankingNames(
     scores,
@@ -620,25 +1087,32 @@ function Standings({
     humanVoteTotals,
     namesAsScoreRecord(enabledModelNames),
   );
-  const iaSorted = rankByScore(scores, {}, modelNames, allowedModelNames);
-  const humanSorted = rankByScore(humanScores, humanVoteTotals, modelNames, allowedModelNames);
-  const maxIaScore = iaSorted[0]?.score || 1;
-  const maxHumanScore = humanSorted[0]?.score || 1;
-
-  const competing = activeRound
-    ? new Set([
-        activeRound.contestants[0].name,
-        activeRound.contestants[1].name,
-      ])
-    : new Set<string>();
+  const byRating = rankMode === "rating";
+  const iaSorted = byRating
+    ? rankByScore(ratingsAsScoreRecord(ratings, "ai", modelNames), scores, modelNames, allowedModelNames)
+    : rankByScore(scores, {}, modelNames, allowedModelNames);
+  const humanSorted = byRating
+    ? rankByScore(ratingsAsScoreRecord(ratings, "human", modelNames), humanScores, modelNames, allowedModelNames)
+    : rankByScore(humanScores, humanVoteTotals, modelNames, allowedModelNames);
+  const hasIaLeader = byRating
+    ? ratings.some((entry) => entry.source === "ai")
+    : (iaSorted[0]?.score ?? 0) > 0;
+  const hasHumanLeader = byRating
+    ? ratings.some((entry) => entry.source === "human")
+    : (humanSorted[0]?.score ?? 0) > 0;
+
+  const competing = new Set(activeRound?.contestants.map((contestant) => contestant.name) ?? []);
 
   return (
     <aside className="standings">
       <div className="standings__head">
-        <span className="standings__title">Ranking</span>
+        <span className="standings__title">{ui.ranking}</span>
         <div className="standings__links">
           <a href="/history" className="standings__link">
-            Historico
+            {ui.history}
+          </a>
+          <a href="/matchups" className="standings__link">
+            {ui.matchups}
           </a>
           <a href="https://twitch.tv/tokenscomedyclub" target="_blank" rel="noopener noreferrer" className="standings__link">
             Twitch
@@ -649,11 +1123,28 @@ function Standings({
         </div>
       </div>
 
+      <div className="standings__modes" role="group" aria-label={ui.rankingSortAria}>
+        <button
+          type="button"
+          className={`standings__mode ${rankMode === "wins" ? "standings__mode--active" : ""}`}
+          onClick={() => setRankMode("wins")}
+        >
+          {ui.rankingWins}
+        </button>
+        <button
+          type="button"
+          className={`standings__mode ${rankMode === "rating" ? "standings__mode--active" : ""}`}
+          onClick={() => setRankMode("rating")}
+        >
+          {ui.rankingRating}
+        </button>
+      </div>
+
       <div className="standings__section">
-        <div className="standings__section-title">Ranking da Plateia</div>
+        <div className="standings__section-title">{ui.audienceRanking}</div>
         <div className="standings__list">
           {humanSorted.map((entry, i) => {
-            const pct = maxHumanScore > 0 ? Math.round((entry.score / maxHumanScore) * 100) : 0;
+            const pct = rankingBarPercent(entry, humanSorted, rankMode);
             const color = getColor(entry.name);
             const active = competing.has(entry.name);
             return (
@@ -662,7 +1153,7 @@ function Standings({
                 className={`standing ${active ? "standing--active" : ""}`}
               >
                 <span className="standing__rank">
-                  {i === 0 && entry.score > 0 ? "??" : i + 1}
+                  {i === 0 && hasHumanLeader ? "??" : i + 1}
                 </span>
                 <ModelTag model={{ id: entry.name, name: entry.name }} small />
                 <div className="standing__bar">
@@ -679,10 +1170,10 @@ function Standings({
       </div>
 
       <div className="standings__section">
-        <div className="standings__section-title">Ranking das IAs</div>
+        <div className="standings__section-title">{ui.aiRanking}</div>
         <div className="standings__list">
           {iaSorted.map((entry, i) => {
-            const pct = maxIaScore > 0 ? Math.round((entry.score / maxIaScore) * 100) : 0;
+            const pct = rankingBarPercent(entry, iaSorted, rankMode);
             const color = getColor(entry.name);
             const active = competing.has(entry.name);
             return (
@@ -691,7 +1182,7 @@ function Standings({
                 className={`standing ${active ? "standing--active" : ""}`}
               >
                 <span className="standing__rank">
-                  {i === 0 && entry.score > 0 ? "??" : i + 1}
+                  {i === 0 && hasIaLeader ? "??" : i + 1}
                 </span>
                 <ModelTag model={{ id: entry.name, name: entry.name }} small />
                 <div className="standing__bar">
@@ -706,6 +1197,34 @@ function Standings({
           })}
         </div>
       </div>
+
+      <div className="standings__section">
+        <div className="standings__section-title">{ui.predictorsRanking}</div>
+        <div className="standings__list">
+          {predictors.length === 0 && <div className="predictor__empty">{ui.predictorsEmpty}</div>}
+          {predictors.map((entry) => (
+            <div key={`predictor-${entry.rank}-${entry.tag}`} className="standing">
+              <span className="standing__rank">{entry.rank}</span>
+              <span className="predictor__name">{entry.name ?? ui.predictorAnonymous(entry.tag)}</span>
+              <span className="standing__score">{ui.predictorPoints(entry.points)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {rivalry && (
+        <a href="/matchups" className="standings__section rivalry">
+          <div className="standings__section-title">{ui.rivalryTitle}</div>
+          <div className="rivalry__pair">
+            <ModelTag model={{ id: rivalry.modelAId, name: rivalry.modelAName }} small />
+            <span className="rivalry__vs">vs</span>
+            <ModelTag model={{ id: rivalry.modelBId, name: rivalry.modelBName }} small />
+          </div>
+          <div className="predictor__empty">
+            {ui.rivalrySummary(rivalry.rounds, rivalry.aiWinsA, rivalry.aiWinsB, rivalry.humanWinsA, rivalry.humanWinsB)}
+          </div>
+        </a>
+      )}
     </aside>
   );
 }
@@ -718,7 +1237,7 @@ function ConnectingScreen() {
         <img src="/assets/logo.svg" alt="TokensComedyClub" />
       </div>
       <div className="connecting__sub">
-        Conectando
+        {ui.connecting}
         <Dots />
       </div>
     </div>
@@ -746,14 +1265,22 @@ function App() {
   const liveViewerCount = useQuery(convexApi.live.getViewerCount, {}) as
     | { viewerCount: number }
     | undefined;
+  const predictorLeaderboard = useQuery(convexApi.predictions.getLeaderboard, {}) as
+    | { generation: number; entries: PredictorEntry[] }
+    | undefined;
   const ensureStarted = useMutation(convexApi.live.ensureStarted);
   const heartbeat = useMutation(convexApi.viewers.heartbeat);
+  const castVote = useMutation(convexApi.viewers.castVote);
+  const requestVoteChallenge = useMutation(convexApi.viewers.requestVoteChallenge);
+  const submitPrompt = useMutation(convexApi.viewerPrompts.submit);
+  const [myVote, setMyVote] = useState<{ roundId: string; side: ContestantSide } | null>(null);
 
   const state = liveGameState?.data ?? null;
   const totalRounds = liveGameState?.totalRounds ?? null;
   const viewerCount = liveViewerCount?.viewerCount ?? 0;
   const completedRounds = state?.completedRounds ?? 0;
   const catalogModels = state?.models ?? [];
+  syncShowLanguage(normalizeShowLanguage(state?.showLanguage));
   useEffect(() => {
     syncModelCatalog(catalogModels);
   }, [catalogModels]);
@@ -857,12 +1384,44 @@ function App() {
     displayRound
       ? getLiveReasoningEstimate(displayRoundId, "prompt")
       : null;
-  const answerLiveReasoningTokens: [number | null, number | null] = displayRound
-    ? [
-        getLiveReasoningEstimate(displayRoundId, "answer", 0),
-        getLiveReasoningEstimate(displayRoundId, "answer", 1),
-      ]
-    : [null, null];
+  const answerLiveReasoningTokens = displayRound
+    ? displayRound.answerTasks.map((_, index) => getLiveReasoningEstimate(displayRoundId, "answer", index))
+    : [];
+  const canVote =
+    !ghostViewer &&
+    Boolean(displayRound) &&
+    displayRound === state.active &&
+    displayRound?.phase === "voting" &&
+    !displayRound.skipped &&
+    (votingCountdown?.remainingMs ?? 0) > 0;
+  const myVoteIndex =
+    myVote && displayRoundId && myVote.roundId === displayRoundId ? indexFromSide(myVote.side) : null;
+  const onVote = async (index: number) => {
+    const side = sideFromIndex(index);
+    const roundId = displayRoundId;
+    if (!side || !roundId) return;
+    const viewerId = viewerIdRef.current ?? getOrCreateViewerId();
+    viewerIdRef.current = viewerId;
+    try {
+      type CastVoteResult = { ok: boolean; votedFor: ContestantSide | null; status: string };
+      let result = (await castVote({ viewerId, side })) as CastVoteResult;
+      if (result.status === "challenge_required") {
+        const proof = await buildVoteProof(requestVoteChallenge, viewerId);
+        result = (await castVote({ viewerId, side, proof })) as CastVoteResult;
+      }
+      if (result.ok && result.votedFor) {
+        setMyVote({ roundId, side: result.votedFor });
+      }
+    } catch {
+      // Votes racing the window close are simply dropped.
+    }
+  };
+  const onSubmitPrompt = async (name: string, text: string): Promise<PromptSubmitStatus> => {
+    const viewerId = viewerIdRef.current ?? getOrCreateViewerId();
+    viewerIdRef.current = viewerId;
+    const result = (await submitPrompt({ viewerId, name, text })) as { ok: boolean; status: PromptSubmitStatus };
+    return result.status;
+  };
   const nextPromptReasoningTokens =
     isNextPrompting && state.active?._id
       ? getLiveReasoningEstimate(state.active._id, "prompt")
@@ -886,12 +1445,12 @@ function App() {
                   className="viewer-pill"
                   style={{ color: "var(--text-muted)", borderColor: "var(--border)" }}
                 >
-                  Pausado
+                  {ui.paused}
                 </div>
               )}
               <div className="viewer-pill" aria-live="polite">
                 <span className="viewer-pill__dot" />
-                {viewerCount} espectador{viewerCount === 1 ? "" : "es"} assistindo
+                {ui.viewersWatching(viewerCount)}
               </div>
             </div>
           </header>
@@ -902,28 +1461,42 @@ function App() {
               humanScores={state.humanScores ?? {}}
               humanVoteTotals={state.humanVoteTotals ?? {}}
               enabledModelNames={enabledModelNames}
+              tournamentChampion={state.tournament?.status === "completed" ? state.tournament.champion : null}
             />
           ) : displayRound ? (
             <Arena
               round={displayRound}
               roundNumber={completedRounds}
               total={totalRounds}
+              tournamentLabel={getTournamentRoundLabel(state.tournament, displayRound)}
               votingCountdown={votingCountdown}
               promptLiveReasoningTokens={promptLiveReasoningTokens}
               answerLiveReasoningTokens={answerLiveReasoningTokens}
               nowMs={nowMs}
+              myVoteIndex={myVoteIndex}
+              onVote={canVote ? (index) => void onVote(index) : undefined}
             />
           ) : (
             <div className="waiting">
-              Iniciando
+              {ui.starting}
               <Dots />
             </div>
           )}
 
+          {!ghostViewer && displayRound && displayRound === state.active && !displayRound.skipped &&
+            (displayRound.phase === "answering" || displayRound.phase === "voting") && (
+              <PredictionPanel round={displayRound} viewerId={viewerIdRef.current ?? getOrCreateViewerId()} />
+            )}
+
+          {state.tournament && <TournamentBracket tournament={state.tournament} />}
+
+          {!ghostViewer && <PromptSubmitForm onSubmit={onSubmitPrompt} />}
+
+          {!ghostViewer && <AccountLinkPanel viewerId={viewerIdRef.current ?? getOrCreateViewerId()} />}
+
           {isNextPrompting && state.lastCompleted && (
             <div className="next-toast">
-              <ModelTag model={state.active!.prompter} small /> esta escrevendo o
-              proximo prompt
+              <ModelTag model={state.active!.prompter} small /> {ui.isWritingNextPrompt}
               {nextPromptReasoningTokens !== null && (
                 <span className="next-toast__metrics">
                   ~{formatInt(nextPromptReasoningTokens)} Tokens
@@ -939,8 +1512,11 @@ function App() {
           scores={state.scores}
           humanScores={state.humanScores ?? {}}
           humanVoteTotals={state.humanVoteTotals ?? {}}
+          ratings={state.ratings ?? []}
           activeRound={state.active}
           enabledModelNames={enabledModelNames}
+          predictors={predictorLeaderboard?.entries ?? []}
+          rivalry={state.rivalry ?? null}
         />
       </div>
     </div>
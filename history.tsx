@@ -2,6 +2,8 @@ import React from "react";
 import { ConvexProvider, ConvexReactClient, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "./convex/_generated/api";
 import { getLogoUrlById, normalizeHexColor, type ModelCatalogEntry } from "./shared/models";
+import { resolveWinnerIndex } from "./shared/rounds";
+import { getUiStrings, normalizeShowLanguage, type ShowLanguage } from "./shared/i18n";
 import "./history.css";
 
 // ── Types ───────────────────────────────────────────────────────────────────
@@ -23,6 +25,7 @@ type VoteInfo = {
 };
 type RoundState = {
   _id?: string;
+  generation?: number;
   num: number;
   phase: "prompting" | "answering" | "voting" | "done";
   skipped?: boolean;
@@ -31,13 +34,92 @@ type RoundState = {
   prompter: Model;
   promptTask: TaskInfo;
   prompt?: string;
-  contestants: [Model, Model];
-  answerTasks: [TaskInfo, TaskInfo];
+  contestants: Model[];
+  answerTasks: TaskInfo[];
   votes: VoteInfo[];
-  scoreA?: number;
-  scoreB?: number;
-  viewerVotesA?: number;
-  viewerVotesB?: number;
+  scores?: number[];
+  viewerVoteCounts?: number[];
+  tournamentId?: string;
+  tournamentMatchId?: string;
+  tournamentGame?: number;
+  promptSubmitter?: string;
+  templateVersions?: { prompt: number; answer: number; vote: number };
+};
+type TournamentSlot =
+  | { kind: "model"; model: Model; seed: number }
+  | { kind: "bye" }
+  | { kind: "pending" };
+type TournamentMatch = {
+  id: string;
+  bracket: "winners" | "losers" | "grand_final";
+  round: number;
+  label: string;
+  slots: [TournamentSlot, TournamentSlot];
+  wins: [number, number];
+  games: number;
+  status: "pending" | "ready" | "done" | "bye";
+  winnerSlot: number | null;
+};
+type TournamentState = {
+  _id: string;
+  status: "active" | "completed" | "cancelled";
+  format: "single_elimination" | "double_elimination";
+  bestOf: number;
+  participantCount: number;
+  matches: TournamentMatch[];
+  champion: Model | null;
+  createdAt: number;
+  completedAt?: number;
+};
+type SeasonSummary = {
+  generation: number;
+  name: string;
+  startedAt: number;
+  endedAt: number | null;
+  completedRounds: number;
+  isCurrent: boolean;
+  roundsKept: boolean;
+  aiChampion: string | null;
+  humanChampion: string | null;
+};
+type SeasonStanding = {
+  modelId: string | null;
+  name: string;
+  aiWins: number;
+  humanWins: number;
+  humanVotes: number;
+  aiRating: number | null;
+  humanRating: number | null;
+  aiRank: number | null;
+  humanRank: number | null;
+};
+type SeasonComparisonRow = {
+  modelId: string | null;
+  name: string;
+  from: SeasonStanding | null;
+  to: SeasonStanding | null;
+  aiRankDelta: number | null;
+  humanRankDelta: number | null;
+  aiRatingDelta: number | null;
+  humanRatingDelta: number | null;
+};
+type HistorySkipFilter = "played" | "skipped" | "prompt_error" | "answer_error";
+type HistoryFilters = {
+  text: string;
+  contestant: string;
+  prompter: string;
+  judge: string;
+  winner: string;
+  skip: HistorySkipFilter | "";
+  disagreement: boolean;
+  from: string;
+  to: string;
+};
+type HistorySearchResult = { rounds: RoundState[]; nextCursor: string | null };
+type SeasonComparison = {
+  from: { generation: number; name: string; completedRounds: number };
+  to: { generation: number; name: string; completedRounds: number };
+  rows: SeasonComparisonRow[];
 };
 
 // ── Shared UI Utils ─────────────────────────────────────────────────────────
@@ -49,6 +131,12 @@ function syncModelCatalog(models: ModelCatalogEntry[]) {
   modelCatalogByName = new Map(models.map((model) => [model.name, model]));
 }
 
+let ui = getUiStrings(undefined);
+
+function syncShowLanguage(language: ShowLanguage) {
+  ui = getUiStrings(language);
+}
+
 function getColor(name: string, fallbackColor?: string): string {
   const fromCatalog = modelCatalogByName.get(name);
   if (fromCatalog) return normalizeHexColor(fromCatalog.color);
@@ -110,7 +198,7 @@ function HistoryContestant({
       </div>
       <div className="history-contestant__votes">
         <div className="history-contestant__score" style={{ color }}>
-          {votes} {votes === 1 ? "voto" : "votos"}
+          {votes} {ui.votes(votes)}
         </div>
         <div className="history-contestant__voters">
           {voters.map((v) => {
@@ -143,136 +231,571 @@ function ViewerVotes({ count, label }: { count: number; label: string }) {
   );
 }
 
-function HistoryCard({ round }: { round: RoundState }) {
-  const [contA, contB] = round.contestants;
-  const isSkipped = Boolean(round.skipped);
-
-  let votesA = 0,
-    votesB = 0;
-  const votersA: Model[] = [];
-  const votersB: Model[] = [];
-
-  for (const v of round.votes) {
-    if (v.votedFor?.name === contA.name) {
-      votesA++;
-      votersA.push(v.voter);
-    } else if (v.votedFor?.name === contB.name) {
-      votesB++;
-      votersB.push(v.voter);
-    }
+function HistoryTournament({ tournament }: { tournament: TournamentState }) {
+  const columns: Array<{ key: string; label: string; matches: TournamentMatch[] }> = [];
+  for (const match of tournament.matches) {
+    if (match.status === "bye") continue;
+    const key = `${match.bracket}-${match.round}`;
+    const column = columns.find((entry) => entry.key === key);
+    if (column) column.matches.push(match);
+    else columns.push({ key, label: match.label, matches: [match] });
   }
 
-  const isAWinner = !isSkipped && votesA > votesB;
-  const isBWinner = !isSkipped && votesB > votesA;
-  const totalViewerVotes = (round.viewerVotesA ?? 0) + (round.viewerVotesB ?? 0);
+  return (
+    <div className="history-tournament">
+      <div className="history-tournament__header">
+        <span>
+          {ui.tournamentFormat[tournament.format]} - {ui.tournamentMeta(tournament.participantCount, tournament.bestOf)}
+        </span>
+        {tournament.champion ? (
+          <span className="history-tournament__champion">
+            {ui.champion}: <ModelName model={tournament.champion} />
+          </span>
+        ) : (
+          <span className="history-tournament__status">{ui.tournamentInProgress}</span>
+        )}
+      </div>
+      <div className="history-tournament__columns">
+        {columns.map((column) => (
+          <div key={column.key} className="history-tournament__column">
+            <div className="history-tournament__column-title">{column.label}</div>
+            {column.matches.map((match) => (
+              <div key={match.id} className="history-tournament__match">
+                {match.slots.map((slot, slotIndex) => (
+                  <div
+                    key={slotIndex}
+                    className={`history-tournament__slot ${
+                      match.status === "done" && match.winnerSlot === slotIndex
+                        ? "history-tournament__slot--winner"
+                        : ""
+                    }`}
+                  >
+                    {slot.kind === "model" ? (
+                      <ModelName model={slot.model} />
+                    ) : (
+                      <span className="history-tournament__tbd">{slot.kind === "bye" ? ui.bye : ui.toBeDefined}</span>
+                    )}
+                    {match.games > 0 && <span>{match.wins[slotIndex] ?? 0}</span>}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function HistoryCard({ round, tournamentLabel }: { round: RoundState; tournamentLabel: string | null }) {
+  const isSkipped = Boolean(round.skipped);
+
+  const votersByIndex = round.contestants.map((contestant) =>
+    round.votes.filter((v) => v.votedFor?.name === contestant.name).map((v) => v.voter),
+  );
+  const voteCounts = votersByIndex.map((voters) => voters.length);
+  const winnerIndex = isSkipped ? -1 : resolveWinnerIndex(voteCounts);
+  const viewerVoteCounts = round.contestants.map((_, index) => round.viewerVoteCounts?.[index] ?? 0);
+  const totalViewerVotes = viewerVoteCounts.reduce((sum, count) => sum + count, 0);
 
   return (
     <div className="history-card">
       <div className="history-card__header">
         <div className="history-card__prompt-section">
           <div className="history-card__prompter">
-            Prompt de <ModelName model={round.prompter} />
+            {round.promptSubmitter ? (
+              <>
+                {ui.promptSubmittedBy} <span className="history-card__submitter">{round.promptSubmitter}</span>
+              </>
+            ) : (
+              <>
+                {ui.promptBy} <ModelName model={round.prompter} />
+              </>
+            )}
           </div>
           <div className="history-card__prompt">{round.prompt}</div>
         </div>
         <div className="history-card__meta">
-          <div>R{round.num}</div>
+          {round.generation !== undefined ? (
+            <a
+              href={`/round/${round.generation}/${round.num}`}
+              className="history-card__permalink"
+              title={ui.roundPermalink}
+            >
+              R{round.num}
+            </a>
+          ) : (
+            <div>R{round.num}</div>
+          )}
+          {tournamentLabel && <div className="history-card__tournament">{tournamentLabel}</div>}
+          {round.templateVersions && (
+            <div
+              className="history-card__templates"
+              title={ui.templateVersionsTitle}
+            >
+              T{round.templateVersions.prompt}.{round.templateVersions.answer}.{round.templateVersions.vote}
+            </div>
+          )}
         </div>
       </div>
 
       {isSkipped && (
         <div className="history-card__skipped">
-          <span className="history-card__skipped-label">Rodada pulada por falha</span>
-          <span className="history-card__skipped-reason">{round.skipReason ?? "Falha tecnica"}</span>
+          <span className="history-card__skipped-label">{ui.skippedByFailure}</span>
+          <span className="history-card__skipped-reason">{round.skipReason ?? ui.technicalFailure}</span>
         </div>
       )}
 
       {round.skipType !== "prompt_error" && (
-      <div className="history-card__showdown">
-        <div
-          className={`history-contestant ${isAWinner ? "history-contestant--winner" : ""}`}
-        >
-          <div className="history-contestant__header">
-            <ModelName model={contA} />
-            {isAWinner && (
-              <div className="history-contestant__winner-badge">VENCEDOR</div>
-            )}
-          </div>
-          <div className="history-contestant__answer">
-            &ldquo;{round.answerTasks[0].result ?? "Sem resposta"}&rdquo;
-          </div>
-          <div className="history-contestant__votes">
+      <div className={`history-card__showdown history-card__showdown--count-${round.contestants.length}`}>
+        {round.contestants.map((contestant, index) => {
+          const isWinner = winnerIndex === index;
+          const votes = voteCounts[index] ?? 0;
+          const viewerVotes = viewerVoteCounts[index] ?? 0;
+          return (
             <div
-              className="history-contestant__score"
-              style={{ color: getColor(contA.name, contA.color) }}
+              key={`${contestant.name}-${index}`}
+              className={`history-contestant ${isWinner ? "history-contestant--winner" : ""}`}
             >
-              {votesA} {votesA === 1 ? "voto" : "votos"}
-            </div>
-            <div className="history-contestant__voters">
-              {votersA.map(
-                (v) =>
-                  getLogo(v.name, v.logoId) && (
-                    <img
-                      key={v.name}
-                      src={getLogo(v.name, v.logoId)!}
-                      title={v.name}
-                      className="voter-mini-logo"
-                    />
-                  ),
+              <div className="history-contestant__header">
+                <ModelName model={contestant} />
+                {isWinner && (
+                  <div className="history-contestant__winner-badge">{ui.winner}</div>
+                )}
+              </div>
+              <div className="history-contestant__answer">
+                &ldquo;{round.answerTasks[index]?.result ?? ui.noAnswer}&rdquo;
+              </div>
+              <div className="history-contestant__votes">
+                <div
+                  className="history-contestant__score"
+                  style={{ color: getColor(contestant.name, contestant.color) }}
+                >
+                  {votes} {ui.votes(votes)}
+                </div>
+                <div className="history-contestant__voters">
+                  {(votersByIndex[index] ?? []).map(
+                    (v) =>
+                      getLogo(v.name, v.logoId) && (
+                        <img
+                          key={v.name}
+                          src={getLogo(v.name, v.logoId)!}
+                          title={v.name}
+                          className="voter-mini-logo"
+                        />
+                      ),
+                  )}
+                </div>
+              </div>
+              {totalViewerVotes > 0 && (
+                <ViewerVotes
+                  count={viewerVotes}
+                  label={ui.viewerVotes(viewerVotes)}
+                />
               )}
             </div>
-          </div>
-          {totalViewerVotes > 0 && (
-            <ViewerVotes
-              count={round.viewerVotesA ?? 0}
-              label={`voto${(round.viewerVotesA ?? 0) === 1 ? "" : "s"} da plateia`}
-            />
-          )}
+          );
+        })}
+      </div>
+      )}
+    </div>
+  );
+}
+
+// ── Filters ─────────────────────────────────────────────────────────────────
+
+const EMPTY_FILTERS: HistoryFilters = {
+  text: "",
+  contestant: "",
+  prompter: "",
+  judge: "",
+  winner: "",
+  skip: "",
+  disagreement: false,
+  from: "",
+  to: "",
+};
+const SKIP_FILTERS: HistorySkipFilter[] = ["played", "skipped", "prompt_error", "answer_error"];
+const DATE_PARAM_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function readFiltersFromLocation(): HistoryFilters {
+  const params = new URLSearchParams(window.location.search);
+  const skip = params.get("skip") ?? "";
+  const from = params.get("from") ?? "";
+  const to = params.get("to") ?? "";
+  return {
+    text: params.get("q") ?? "",
+    contestant: params.get("contestant") ?? "",
+    prompter: params.get("prompter") ?? "",
+    judge: params.get("judge") ?? "",
+    winner: params.get("winner") ?? "",
+    skip: SKIP_FILTERS.includes(skip as HistorySkipFilter) ? (skip as HistorySkipFilter) : "",
+    disagreement: params.get("disagreement") === "1",
+    from: DATE_PARAM_PATTERN.test(from) ? from : "",
+    to: DATE_PARAM_PATTERN.test(to) ? to : "",
+  };
+}
+
+function readSeasonFromLocation(): number | null {
+  const season = Number(new URLSearchParams(window.location.search).get("season"));
+  return Number.isInteger(season) && season > 0 ? season : null;
+}
+
+function writeFiltersToLocation(filters: HistoryFilters, season: number | null) {
+  const url = new URL(window.location.href);
+  const entries: Record<string, string> = {
+    season: season !== null ? String(season) : "",
+    q: filters.text.trim(),
+    contestant: filters.contestant,
+    prompter: filters.prompter,
+    judge: filters.judge,
+    winner: filters.winner,
+    skip: filters.skip,
+    disagreement: filters.disagreement ? "1" : "",
+    from: filters.from,
+    to: filters.to,
+  };
+  for (const [key, value] of Object.entries(entries)) {
+    if (value) url.searchParams.set(key, value);
+    else url.searchParams.delete(key);
+  }
+  window.history.replaceState(null, "", `${url.pathname}${url.search}${url.hash}`);
+}
+
+function hasActiveFilters(filters: HistoryFilters): boolean {
+  return Object.entries(filters).some(([key, value]) => (key === "text" ? String(value).trim() !== "" : Boolean(value)));
+}
+
+// Date inputs are local days; the range covers the whole of both days.
+function toSearchArgs(filters: HistoryFilters, generation: number | undefined) {
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : undefined;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : undefined;
+  return {
+    ...(generation !== undefined ? { generation } : {}),
+    ...(filters.text.trim() ? { text: filters.text.trim() } : {}),
+    ...(filters.contestant ? { contestant: filters.contestant } : {}),
+    ...(filters.prompter ? { prompter: filters.prompter } : {}),
+    ...(filters.judge ? { judge: filters.judge } : {}),
+    ...(filters.winner ? { winner: filters.winner } : {}),
+    ...(filters.skip ? { skip: filters.skip } : {}),
+    ...(filters.disagreement ? { disagreement: true } : {}),
+    ...(from !== undefined && Number.isFinite(from) ? { from } : {}),
+    ...(to !== undefined && Number.isFinite(to) ? { to } : {}),
+  };
+}
+
+function HistoryFilterForm({
+  filters,
+  models,
+  onChange,
+}: {
+  filters: HistoryFilters;
+  models: ModelCatalogEntry[];
+  onChange: (filters: HistoryFilters) => void;
+}) {
+  const [text, setText] = React.useState(filters.text);
+  React.useEffect(() => setText(filters.text), [filters.text]);
+  const sortedModels = [...models].sort((a, b) => a.name.localeCompare(b.name));
+  const modelSelect = (key: "contestant" | "prompter" | "judge" | "winner", label: string) => (
+    <label className="history-filters__field">
+      <span>{label}</span>
+      <select value={filters[key]} onChange={(event) => onChange({ ...filters, [key]: event.target.value })}>
+        <option value="">{ui.historyFilterAnyModel}</option>
+        {sortedModels.map((model) => (
+          <option key={model.modelId} value={model.modelId}>
+            {model.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <form
+      className="history-filters"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onChange({ ...filters, text });
+      }}
+    >
+      <div className="history-filters__search">
+        <input
+          type="search"
+          value={text}
+          placeholder={ui.historySearchPlaceholder}
+          onChange={(event) => setText(event.target.value)}
+        />
+        <button type="submit" className="pagination__btn">
+          {ui.historySearch}
+        </button>
+      </div>
+      <div className="history-filters__row">
+        {modelSelect("contestant", ui.historyFilterContestant)}
+        {modelSelect("prompter", ui.historyFilterPrompter)}
+        {modelSelect("judge", ui.historyFilterJudge)}
+        {modelSelect("winner", ui.historyFilterWinner)}
+      </div>
+      <div className="history-filters__row">
+        <label className="history-filters__field">
+          <select
+            value={filters.skip}
+            onChange={(event) => onChange({ ...filters, skip: event.target.value as HistoryFilters["skip"] })}
+          >
+            <option value="">{ui.historyFilterSkip.all}</option>
+            {SKIP_FILTERS.map((skip) => (
+              <option key={skip} value={skip}>
+                {ui.historyFilterSkip[skip]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="history-filters__field">
+          <span>{ui.historyFilterFrom}</span>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(event) => onChange({ ...filters, from: event.target.value })}
+          />
+        </label>
+        <label className="history-filters__field">
+          <span>{ui.historyFilterTo}</span>
+          <input type="date" value={filters.to} onChange={(event) => onChange({ ...filters, to: event.target.value })} />
+        </label>
+        <label className="history-filters__check">
+          <input
+            type="checkbox"
+            checked={filters.disagreement}
+            onChange={(event) => onChange({ ...filters, disagreement: event.target.checked })}
+          />
+          {ui.historyFilterDisagreement}
+        </label>
+        {hasActiveFilters(filters) && (
+          <button type="button" className="history-filters__clear" onClick={() => onChange(EMPTY_FILTERS)}>
+            {ui.historyFilterClear}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function HistorySearchPage({
+  args,
+  cursor,
+  isFirst,
+  isLast,
+  getTournamentLabel,
+  onLoadMore,
+}: {
+  args: Record<string, unknown>;
+  cursor: string | undefined;
+  isFirst: boolean;
+  isLast: boolean;
+  getTournamentLabel: (round: RoundState) => string | null;
+  onLoadMore: (cursor: string) => void;
+}) {
+  const result = useQuery(convexApi.history.search, cursor !== undefined ? { ...args, cursor } : args) as
+    | HistorySearchResult
+    | undefined;
+
+  if (!result) return <div className="history-loading">{ui.loading}</div>;
+  if (isFirst && result.rounds.length === 0 && !result.nextCursor) {
+    return <div className="history-empty">{ui.historyNoResults}</div>;
+  }
+
+  return (
+    <>
+      {result.rounds.map((r) => (
+        <HistoryCard key={r._id ?? String(r.num)} round={r} tournamentLabel={getTournamentLabel(r)} />
+      ))}
+      {isLast && result.nextCursor && (
+        <div className="pagination">
+          <button className="pagination__btn" onClick={() => onLoadMore(result.nextCursor as string)}>
+            {result.rounds.length > 0 ? ui.loadMore : ui.historySearchOlder}
+          </button>
         </div>
+      )}
+    </>
+  );
+}
 
-        <div
-          className={`history-contestant ${isBWinner ? "history-contestant--winner" : ""}`}
-        >
-          <div className="history-contestant__header">
-            <ModelName model={contB} />
-            {isBWinner && (
-              <div className="history-contestant__winner-badge">VENCEDOR</div>
-            )}
-          </div>
-          <div className="history-contestant__answer">
-            &ldquo;{round.answerTasks[1].result ?? "Sem resposta"}&rdquo;
-          </div>
-          <div className="history-contestant__votes">
-            <div
-              className="history-contestant__score"
-              style={{ color: getColor(contB.name, contB.color) }}
-            >
-              {votesB} {votesB === 1 ? "voto" : "votos"}
-            </div>
-            <div className="history-contestant__voters">
-              {votersB.map(
-                (v) =>
-                  getLogo(v.name, v.logoId) && (
-                    <img
-                      key={v.name}
-                      src={getLogo(v.name, v.logoId)!}
-                      title={v.name}
-                      className="voter-mini-logo"
-                    />
-                  ),
-              )}
-            </div>
-          </div>
-          {totalViewerVotes > 0 && (
-            <ViewerVotes
-              count={round.viewerVotesB ?? 0}
-              label={`voto${(round.viewerVotesB ?? 0) === 1 ? "" : "s"} da plateia`}
-            />
+// One query per loaded page, so earlier pages stay put while later ones load.
+function HistorySearchResults({
+  args,
+  getTournamentLabel,
+}: {
+  args: Record<string, unknown>;
+  getTournamentLabel: (round: RoundState) => string | null;
+}) {
+  const [cursors, setCursors] = React.useState<(string | undefined)[]>([undefined]);
+
+  return (
+    <div className="history-list" style={{ display: "flex", flexDirection: "column", gap: "32px" }}>
+      {cursors.map((cursor, index) => (
+        <HistorySearchPage
+          key={cursor ?? "first"}
+          args={args}
+          cursor={cursor}
+          isFirst={index === 0}
+          isLast={index === cursors.length - 1}
+          getTournamentLabel={getTournamentLabel}
+          onLoadMore={(next) => setCursors((current) => [...current, next])}
+        />
+      ))}
+    </div>
+  );
+}
+
+function formatSeasonDate(value: number): string {
+  return new Date(value).toLocaleDateString(ui.locale);
+}
+
+function SeasonPicker({
+  seasons,
+  selected,
+  onSelect,
+}: {
+  seasons: SeasonSummary[];
+  selected: SeasonSummary;
+  onSelect: (generation: number) => void;
+}) {
+  return (
+    <section className="history-seasons">
+      <select
+        className="history-seasons__select"
+        aria-label={ui.seasonPickerAria}
+        value={selected.generation}
+        onChange={(event) => onSelect(Number(event.target.value))}
+      >
+        {seasons.map((season) => (
+          <option key={season.generation} value={season.generation}>
+            {season.isCurrent ? `${season.name} (${ui.seasonCurrent})` : season.name}
+          </option>
+        ))}
+      </select>
+      <div className="history-seasons__meta">
+        <span>
+          {ui.seasonDates(
+            formatSeasonDate(selected.startedAt),
+            selected.endedAt ? formatSeasonDate(selected.endedAt) : null,
           )}
-        </div>
+        </span>
+        <span>{ui.seasonRounds(selected.completedRounds)}</span>
+        {selected.aiChampion && (
+          <span>
+            {ui.aiChampion}: <ModelName model={{ id: selected.aiChampion, name: selected.aiChampion }} />
+          </span>
+        )}
+        {selected.humanChampion && (
+          <span>
+            {ui.audienceChampion}: <ModelName model={{ id: selected.humanChampion, name: selected.humanChampion }} />
+          </span>
+        )}
       </div>
+    </section>
+  );
+}
+
+function formatRank(rank: number | null | undefined): string {
+  return rank ? `#${rank}` : ui.seasonAbsent;
+}
+
+function RankDelta({ value, isNew }: { value: number | null; isNew: boolean }) {
+  if (isNew) return <span className="history-compare__delta history-compare__delta--new">{ui.seasonNewEntry}</span>;
+  if (value === null || value === 0) return <span className="history-compare__delta">=</span>;
+  // Ranks improve downward, so a negative delta is a climb.
+  const climbed = value < 0;
+  return (
+    <span className={`history-compare__delta history-compare__delta--${climbed ? "up" : "down"}`}>
+      {climbed ? "▲" : "▼"}
+      {Math.abs(value)}
+    </span>
+  );
+}
+
+function SeasonCompare({
+  seasons,
+  selected,
+}: {
+  seasons: SeasonSummary[];
+  selected: SeasonSummary;
+}) {
+  const candidates = seasons.filter((season) => season.generation !== selected.generation);
+  const [compareWith, setCompareWith] = React.useState<number | null>(null);
+  const fromGeneration =
+    compareWith !== null && candidates.some((season) => season.generation === compareWith)
+      ? compareWith
+      : candidates[0]?.generation ?? null;
+  const comparison = useQuery(
+    convexApi.seasons.compare,
+    fromGeneration !== null ? { from: fromGeneration, to: selected.generation } : "skip",
+  ) as SeasonComparison | null | undefined;
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <section className="history-compare">
+      <div className="history-compare__header">
+        <span className="history-tournaments__title">{ui.seasonCompare}</span>
+        <label className="history-compare__picker">
+          {ui.seasonCompareWith}
+          <select
+            className="history-seasons__select"
+            value={fromGeneration ?? ""}
+            onChange={(event) => setCompareWith(Number(event.target.value))}
+          >
+            {candidates.map((season) => (
+              <option key={season.generation} value={season.generation}>
+                {season.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {comparison === undefined ? (
+        <div className="history-loading">{ui.loading}</div>
+      ) : comparison === null || comparison.rows.length === 0 ? (
+        <div className="history-empty">{ui.seasonCompareEmpty}</div>
+      ) : (
+        <table className="history-compare__table">
+          <thead>
+            <tr>
+              <th>{ui.seasonModel}</th>
+              <th>{ui.aiRanking}</th>
+              <th>{ui.rankingRating}</th>
+              <th>{ui.audienceRanking}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.rows.map((row) => (
+              <tr key={row.modelId ?? row.name}>
+                <td>
+                  <ModelName model={{ id: row.modelId ?? row.name, name: row.name }} />
+                </td>
+                <td>
+                  {formatRank(row.from?.aiRank)} → {formatRank(row.to?.aiRank)}{" "}
+                  <RankDelta value={row.aiRankDelta} isNew={!row.from && Boolean(row.to)} />
+                </td>
+                <td>
+                  {row.to?.aiRating ?? "-"}
+                  {row.aiRatingDelta !== null && row.aiRatingDelta !== 0 && (
+                    <span className="history-compare__rating-delta">
+                      {" "}
+                      ({row.aiRatingDelta > 0 ? "+" : ""}
+                      {row.aiRatingDelta})
+                    </span>
+                  )}
+                </td>
+                <td>
+                  {formatRank(row.from?.humanRank)} → {formatRank(row.to?.humanRank)}{" "}
+                  <RankDelta value={row.humanRankDelta} isNew={!row.from && Boolean(row.to)} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
       )}
-    </div>
+    </section>
   );
 }
 
@@ -282,17 +805,42 @@ function App() {
   const modelCatalog = useQuery(convexApi.live.getModelCatalog, {}) as
     | { models: ModelCatalogEntry[] }
     | undefined;
+  const showLanguage = useQuery(convexApi.live.getShowLanguage, {}) as { showLanguage: string } | undefined;
+  syncShowLanguage(normalizeShowLanguage(showLanguage?.showLanguage));
+  const seasons = (useQuery(convexApi.seasons.list, {}) as SeasonSummary[] | undefined) ?? [];
+  const [selectedGeneration, setSelectedGeneration] = React.useState<number | null>(readSeasonFromLocation);
+  const [filters, setFilters] = React.useState<HistoryFilters>(readFiltersFromLocation);
+  const selectedSeason =
+    seasons.find((season) => season.generation === selectedGeneration) ??
+    seasons.find((season) => season.isCurrent) ??
+    null;
+  const generationArgs = selectedSeason && !selectedSeason.isCurrent ? { generation: selectedSeason.generation } : {};
   const { results, status, loadMore } = usePaginatedQuery(
     convexApi.history.listPaginated,
-    {},
+    generationArgs,
     { initialNumItems: 10 },
   );
   const rounds = results as RoundState[];
+  const tournaments =
+    (useQuery(convexApi.history.listTournaments, generationArgs) as TournamentState[] | undefined) ?? [];
+  const getTournamentLabel = (round: RoundState) => {
+    const tournament = tournaments.find((entry) => entry._id === round.tournamentId);
+    const match = tournament?.matches.find((entry) => entry.id === round.tournamentMatchId);
+    if (!tournament || !match) return null;
+    return tournament.bestOf > 1 ? ui.tournamentGame(match.label, round.tournamentGame ?? 1) : match.label;
+  };
+
+  const searchArgs = toSearchArgs(filters, selectedSeason && !selectedSeason.isCurrent ? selectedSeason.generation : undefined);
+  const isFiltering = hasActiveFilters(filters);
 
   React.useEffect(() => {
     syncModelCatalog(modelCatalog?.models ?? []);
   }, [modelCatalog?.models]);
 
+  React.useEffect(() => {
+    writeFiltersToLocation(filters, selectedGeneration);
+  }, [filters, selectedGeneration]);
+
   return (
     <div className="app history-page">
       <a href="/" className="history-main-logo">
@@ -300,18 +848,44 @@ function App() {
       </a>
       <main className="history-main">
         <div className="history-page-header">
-          <div className="history-page-title">Rodadas Anteriores</div>
+          <div className="history-page-title">{ui.historyTitle}</div>
           <div className="history-page-links">
             <a href="/" className="history-back-link">
-              Voltar ao Jogo
+              {ui.backToGame}
             </a>
           </div>
         </div>
 
-        {status === "LoadingFirstPage" ? (
-          <div className="history-loading">Carregando...</div>
+        {selectedSeason && seasons.length > 1 && (
+          <>
+            <SeasonPicker seasons={seasons} selected={selectedSeason} onSelect={setSelectedGeneration} />
+            <SeasonCompare seasons={seasons} selected={selectedSeason} />
+          </>
+        )}
+
+        {tournaments.length > 0 && (
+          <section className="history-tournaments">
+            <div className="history-tournaments__title">{ui.tournaments}</div>
+            {tournaments.map((tournament) => (
+              <HistoryTournament key={tournament._id} tournament={tournament} />
+            ))}
+          </section>
+        )}
+
+        <HistoryFilterForm filters={filters} models={modelCatalog?.models ?? []} onChange={setFilters} />
+
+        {isFiltering ? (
+          <HistorySearchResults
+            key={JSON.stringify(searchArgs)}
+            args={searchArgs}
+            getTournamentLabel={getTournamentLabel}
+          />
+        ) : status === "LoadingFirstPage" ? (
+          <div className="history-loading">{ui.loading}</div>
         ) : rounds.length === 0 ? (
-          <div className="history-empty">Nenhuma rodada anterior encontrada.</div>
+          <div className="history-empty">
+            {selectedSeason && !selectedSeason.roundsKept ? ui.seasonRoundsPurged : ui.noRounds}
+          </div>
         ) : (
           <>
             <div
@@ -319,7 +893,7 @@ function App() {
               style={{ display: "flex", flexDirection: "column", gap: "32px" }}
             >
               {rounds.map((r) => (
-                <HistoryCard key={r._id ?? String(r.num)} round={r} />
+                <HistoryCard key={r._id ?? String(r.num)} round={r} tournamentLabel={getTournamentLabel(r)} />
               ))}
             </div>
 
@@ -330,7 +904,7 @@ function App() {
                   disabled={status !== "CanLoadMore"}
                   onClick={() => loadMore(10)}
                 >
-                  {status === "LoadingMore" ? "Carregando..." : "Carregar Mais"}
+                  {status === "LoadingMore" ? ui.loading : ui.loadMore}
                 </button>
               </div>
             )}
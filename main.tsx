@@ -4,6 +4,9 @@ import { BrowserRouter, Navigate, Route, Routes } from "react-router-dom";
 import LivePage from "./frontend";
 import AdminPage from "./admin";
 import HistoryPage from "./history";
+import RoundPage from "./round";
+import ModelProfilePage from "./model";
+import MatchupsPage from "./matchups";
 
 function AppRouter() {
   return (
@@ -12,6 +15,9 @@ function AppRouter() {
         <Route path="/" element={<LivePage />} />
         <Route path="/admin" element={<AdminPage />} />
         <Route path="/history" element={<HistoryPage />} />
+        <Route path="/round/:generation/:num" element={<RoundPage />} />
+        <Route path="/models/:modelId" element={<ModelProfilePage />} />
+        <Route path="/matchups" element={<MatchupsPage />} />
         <Route path="/index.html" element={<Navigate to="/" replace />} />
         <Route path="/admin.html" element={<Navigate to="/admin" replace />} />
         <Route path="/history.html" element={<Navigate to="/history" replace />} />
@@ -0,0 +1,226 @@
+import React from "react";
+import { ConvexProvider, ConvexReactClient, useQuery } from "convex/react";
+import { api } from "./convex/_generated/api";
+import { getLogoUrlById, normalizeHexColor } from "./shared/models";
+import { getUiStrings, normalizeShowLanguage, type ShowLanguage } from "./shared/i18n";
+import type { HeadToHeadRecord } from "./shared/types";
+import "./history.css";
+import "./round.css";
+import "./matchups.css";
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+type MatrixModel = { modelId: string; name: string; color?: string; logoId?: string; enabled: boolean };
+type MatrixSource = "ai" | "human";
+type Matrix = {
+  generation: number;
+  models: MatrixModel[];
+  records: HeadToHeadRecord[];
+  rivalry: HeadToHeadRecord | null;
+};
+type CellRecord = { played: number; wins: number; losses: number; draws: number };
+
+// ── Shared UI Utils ─────────────────────────────────────────────────────────
+
+const DEFAULT_UI_COLOR = "#A1A1A1";
+
+let ui = getUiStrings(undefined);
+
+function syncShowLanguage(language: ShowLanguage) {
+  ui = getUiStrings(language);
+}
+
+function getConvexUrl(): string {
+  const env = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env;
+  const url = env?.VITE_CONVEX_URL;
+  if (!url) throw new Error("VITE_CONVEX_URL is not configured");
+  return url.replace(/\/$/, "");
+}
+
+const convex = new ConvexReactClient(getConvexUrl());
+const convexApi = api as any;
+
+function ModelLink({ model }: { model: MatrixModel }) {
+  const logo = getLogoUrlById(model.logoId);
+  return (
+    <a
+      href={`/models/${encodeURIComponent(model.modelId)}`}
+      className="model-name matchups-model"
+      style={{ color: normalizeHexColor(model.color) || DEFAULT_UI_COLOR }}
+    >
+      {logo && <img src={logo} alt="" className="model-logo" />}
+      {model.name}
+    </a>
+  );
+}
+
+// Reads a stored pair from the point of view of `rowId`.
+function readCell(records: HeadToHeadRecord[], rowId: string, columnId: string, source: MatrixSource): CellRecord | null {
+  const record = records.find(
+    (entry) =>
+      (entry.modelAId === rowId && entry.modelBId === columnId) ||
+      (entry.modelAId === columnId && entry.modelBId === rowId),
+  );
+  if (!record) return null;
+  const isA = record.modelAId === rowId;
+  const winsA = source === "ai" ? record.aiWinsA : record.humanWinsA;
+  const winsB = source === "ai" ? record.aiWinsB : record.humanWinsB;
+  return {
+    played: source === "ai" ? record.rounds : record.humanRounds,
+    wins: isA ? winsA : winsB,
+    losses: isA ? winsB : winsA,
+    draws: source === "ai" ? record.aiTies : record.humanTies,
+  };
+}
+
+// Red for a losing record, green for a winning one, fading to neutral near 50%.
+function cellBackground(cell: CellRecord): string {
+  const share = (cell.wins + cell.draws / 2) / cell.played;
+  const hue = Math.round(share * 120);
+  const alpha = 0.15 + Math.abs(share - 0.5) * 0.7;
+  return `hsla(${hue}, 70%, 45%, ${alpha.toFixed(2)})`;
+}
+
+// ── Components ──────────────────────────────────────────────────────────────
+
+function RivalryCallout({ rivalry, models }: { rivalry: HeadToHeadRecord; models: MatrixModel[] }) {
+  const modelA = models.find((model) => model.modelId === rivalry.modelAId);
+  const modelB = models.find((model) => model.modelId === rivalry.modelBId);
+  return (
+    <section className="round-section">
+      <div className="history-tournaments__title">{ui.rivalryTitle}</div>
+      <div className="matchups-rivalry">
+        {modelA ? <ModelLink model={modelA} /> : rivalry.modelAName}
+        <span className="matchups-rivalry__vs">vs</span>
+        {modelB ? <ModelLink model={modelB} /> : rivalry.modelBName}
+      </div>
+      <div className="round-metrics">
+        {ui.rivalrySummary(rivalry.rounds, rivalry.aiWinsA, rivalry.aiWinsB, rivalry.humanWinsA, rivalry.humanWinsB)}
+      </div>
+    </section>
+  );
+}
+
+function MatrixTable({ matrix, source }: { matrix: Matrix; source: MatrixSource }) {
+  const models = matrix.models.filter((model) =>
+    matrix.records.some((record) => record.modelAId === model.modelId || record.modelBId === model.modelId),
+  );
+  return (
+    <div className="matchups-scroll">
+      <table className="history-compare__table matchups-table">
+        <thead>
+          <tr>
+            <th />
+            {models.map((model) => (
+              <th key={model.modelId}>
+                <ModelLink model={model} />
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {models.map((row) => (
+            <tr key={row.modelId}>
+              <th>
+                <ModelLink model={row} />
+              </th>
+              {models.map((column) => {
+                if (column.modelId === row.modelId) {
+                  return <td key={column.modelId} className="matchups-cell matchups-cell--self" />;
+                }
+                const cell = readCell(matrix.records, row.modelId, column.modelId, source);
+                if (!cell || cell.played === 0) {
+                  return (
+                    <td key={column.modelId} className="matchups-cell">
+                      -
+                    </td>
+                  );
+                }
+                return (
+                  <td
+                    key={column.modelId}
+                    className="matchups-cell"
+                    style={{ background: cellBackground(cell) }}
+                    title={`${row.name} vs ${column.name}`}
+                  >
+                    {ui.profileRecordLine(cell.wins, cell.losses, cell.draws)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ── App ─────────────────────────────────────────────────────────────────────
+
+function App() {
+  const [source, setSource] = React.useState<MatrixSource>("ai");
+  const showLanguage = useQuery(convexApi.live.getShowLanguage, {}) as { showLanguage: string } | undefined;
+  syncShowLanguage(normalizeShowLanguage(showLanguage?.showLanguage));
+  const matrix = useQuery(convexApi.headToHead.getMatrix, {}) as Matrix | undefined;
+
+  React.useEffect(() => {
+    document.title = `${ui.matchups} | TokensComedyClub`;
+  }, [showLanguage?.showLanguage]);
+
+  return (
+    <div className="app history-page">
+      <a href="/" className="history-main-logo">
+        <img src="/assets/logo.svg" alt="TokensComedyClub" />
+      </a>
+      <main className="history-main">
+        <div className="history-page-header">
+          <div className="history-page-title">{ui.matchups}</div>
+          <div className="history-page-links">
+            <a href="/history" className="history-back-link">
+              {ui.history}
+            </a>
+            <a href="/" className="history-back-link">
+              {ui.backToGame}
+            </a>
+          </div>
+        </div>
+
+        {matrix === undefined ? (
+          <div className="history-loading">{ui.loading}</div>
+        ) : matrix.records.length === 0 ? (
+          <div className="history-empty">{ui.matchupsEmpty}</div>
+        ) : (
+          <>
+            {matrix.rivalry && <RivalryCallout rivalry={matrix.rivalry} models={matrix.models} />}
+            <section className="round-section">
+              <div className="matchups-sources" role="group">
+                {(["ai", "human"] as const).map((entry) => (
+                  <button
+                    key={entry}
+                    type="button"
+                    className={`pagination__btn ${source === entry ? "matchups-source--active" : ""}`}
+                    onClick={() => setSource(entry)}
+                  >
+                    {entry === "ai" ? ui.profileVsJudges : ui.profileVsAudience}
+                  </button>
+                ))}
+              </div>
+              <div className="round-metrics">{ui.matchupsHint}</div>
+              <MatrixTable matrix={matrix} source={source} />
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function MatchupsPage() {
+  return (
+    <ConvexProvider client={convex}>
+      <App />
+    </ConvexProvider>
+  );
+}
+
+export default MatchupsPage;
@@ -0,0 +1,431 @@
+import React from "react";
+import { ConvexProvider, ConvexReactClient, useQuery } from "convex/react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { api } from "./convex/_generated/api";
+import { getLogoUrlById, normalizeHexColor } from "./shared/models";
+import { getUiStrings, normalizeShowLanguage, type ShowLanguage } from "./shared/i18n";
+import "./history.css";
+import "./round.css";
+import "./model.css";
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+type UsageRole = "prompt" | "answer" | "vote";
+type RoleUsage = {
+  samples: number;
+  avgCostUsd: number;
+  avgDurationMs: number;
+  avgTotalTokens: number;
+  avgReasoningTokens: number;
+};
+type EpochSummary = {
+  epoch: number;
+  aiRating: number | null;
+  humanRating: number | null;
+  played: number;
+  aiWinRate: number | null;
+  humanWinRate: number | null;
+  usage: Record<UsageRole, RoleUsage | null>;
+};
+type OpponentRecord = {
+  modelId: string;
+  name: string;
+  played: number;
+  aiWins: number;
+  aiLosses: number;
+  aiDraws: number;
+  humanWins: number;
+  humanLosses: number;
+  humanDraws: number;
+};
+type AnswerHighlight = {
+  generation: number;
+  num: number;
+  prompt: string | null;
+  answer: string;
+  aiVotes: number;
+  aiVoteTotal: number;
+  viewerVotes: number;
+  viewerVoteTotal: number;
+};
+type ModelProfile = {
+  model: {
+    modelId: string;
+    name: string;
+    color?: string;
+    logoId?: string;
+    enabled: boolean;
+    archived: boolean;
+    metricsEpoch: number;
+  };
+  generation: number;
+  seasonName: string | null;
+  scannedRounds: number;
+  isPartial: boolean;
+  totals: { aiWins: number; humanWins: number; humanVotes: number } | null;
+  record: {
+    played: number;
+    aiWins: number;
+    aiLosses: number;
+    aiDraws: number;
+    humanWins: number;
+    humanDecided: number;
+    prompted: number;
+    aiWinRate: number | null;
+    humanWinRate: number | null;
+  };
+  opponents: OpponentRecord[];
+  bestAnswers: AnswerHighlight[];
+  worstAnswers: AnswerHighlight[];
+  judging: {
+    votes: number;
+    abstained: number;
+    agreementWithJudges: number | null;
+    agreementWithAudience: number | null;
+    firstSlotRate: number | null;
+    favoritePicks: { modelId: string; name: string; votes: number }[];
+  };
+  epochs: EpochSummary[];
+};
+
+// ── Shared UI Utils ─────────────────────────────────────────────────────────
+
+const DEFAULT_UI_COLOR = "#A1A1A1";
+const USAGE_ROLES: UsageRole[] = ["prompt", "answer", "vote"];
+
+let ui = getUiStrings(undefined);
+
+function syncShowLanguage(language: ShowLanguage) {
+  ui = getUiStrings(language);
+}
+
+function getConvexUrl(): string {
+  const env = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env;
+  const url = env?.VITE_CONVEX_URL;
+  if (!url) throw new Error("VITE_CONVEX_URL is not configured");
+  return url.replace(/\/$/, "");
+}
+
+const convex = new ConvexReactClient(getConvexUrl());
+const convexApi = api as any;
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value >= 0.01 ? 4 : 6)}`;
+}
+
+function formatCount(value: number): string {
+  return Math.round(value).toLocaleString(ui.locale);
+}
+
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? "-" : `${Math.round(value * 100)}%`;
+}
+
+function parseSeason(value: string | null): number | undefined {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+// ── Components ──────────────────────────────────────────────────────────────
+
+function Sparkline({ values, color }: { values: (number | null)[]; color: string }) {
+  const points = values
+    .map((value, index) => (value === null ? null : { x: index, y: value }))
+    .filter((point): point is { x: number; y: number } => point !== null);
+  if (points.length < 2) return null;
+  const min = Math.min(...points.map((point) => point.y));
+  const max = Math.max(...points.map((point) => point.y));
+  const span = max - min || 1;
+  const width = 120;
+  const height = 28;
+  const stepX = width / Math.max(values.length - 1, 1);
+  const path = points
+    .map((point) => `${(point.x * stepX).toFixed(1)},${(height - 2 - ((point.y - min) / span) * (height - 4)).toFixed(1)}`)
+    .join(" ");
+  return (
+    <svg className="model-sparkline" viewBox={`0 0 ${width} ${height}`} width={width} height={height} aria-hidden="true">
+      <polyline points={path} fill="none" stroke={color} strokeWidth="2" strokeLinejoin="round" />
+    </svg>
+  );
+}
+
+function StatTile({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="model-stat">
+      <div className="model-stat__label">{label}</div>
+      <div className="model-stat__value">{value}</div>
+      {detail && <div className="model-stat__detail">{detail}</div>}
+    </div>
+  );
+}
+
+function AnswerList({ title, answers }: { title: string; answers: AnswerHighlight[] }) {
+  if (answers.length === 0) return null;
+  return (
+    <section className="round-section">
+      <div className="history-tournaments__title">{title}</div>
+      {answers.map((entry) => (
+        <a
+          key={`${entry.generation}-${entry.num}`}
+          href={`/round/${entry.generation}/${entry.num}`}
+          className="model-answer"
+        >
+          <div className="model-answer__prompt">
+            {ui.round(entry.num)} - {entry.prompt ?? ui.promptUnavailable}
+          </div>
+          <div className="history-contestant__answer">&ldquo;{entry.answer}&rdquo;</div>
+          <div className="round-metrics">
+            {ui.profileAnswerVotes(entry.aiVotes, entry.aiVoteTotal, entry.viewerVotes, entry.viewerVoteTotal)}
+          </div>
+        </a>
+      ))}
+    </section>
+  );
+}
+
+function ProfileView({ profile }: { profile: ModelProfile }) {
+  const { model, record, judging } = profile;
+  const color = normalizeHexColor(model.color) || DEFAULT_UI_COLOR;
+  const logo = getLogoUrlById(model.logoId);
+  const seasonQuery = `?season=${profile.generation}`;
+
+  return (
+    <>
+      <section className="history-card model-header">
+        <div className="model-header__name" style={{ color }}>
+          {logo && <img src={logo} alt="" className="model-logo" />}
+          {model.name}
+          {model.archived && <span className="model-header__badge">{ui.profileArchived}</span>}
+        </div>
+        <div className="round-metrics">
+          <span>{model.modelId}</span>
+          <span>{profile.seasonName ?? `G${profile.generation}`}</span>
+          <span>{ui.profileScanned(profile.scannedRounds, profile.isPartial)}</span>
+        </div>
+        {profile.totals && (
+          <div className="round-metrics">
+            {ui.profileTotals(profile.totals.aiWins, profile.totals.humanWins, profile.totals.humanVotes)}
+          </div>
+        )}
+      </section>
+
+      <section className="round-section">
+        <div className="history-tournaments__title">{ui.profileRecord}</div>
+        <div className="model-stats">
+          <StatTile
+            label={ui.profileAiWinRate}
+            value={formatRate(record.aiWinRate)}
+            detail={ui.profileRecordLine(record.aiWins, record.aiLosses, record.aiDraws)}
+          />
+          <StatTile
+            label={ui.profileHumanWinRate}
+            value={formatRate(record.humanWinRate)}
+            detail={`${record.humanWins}/${record.humanDecided}`}
+          />
+          <StatTile label={ui.profileRole.prompt} value={formatCount(record.prompted)} detail={ui.profilePrompted(record.prompted)} />
+        </div>
+      </section>
+
+      {profile.opponents.length > 0 && (
+        <section className="round-section">
+          <div className="history-tournaments__title">{ui.profileOpponents}</div>
+          <table className="history-compare__table">
+            <thead>
+              <tr>
+                <th>{ui.profileOpponent}</th>
+                <th>{ui.profileVsJudges}</th>
+                <th>{ui.profileVsAudience}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.opponents.map((opponent) => (
+                <tr key={opponent.modelId}>
+                  <td>
+                    <a href={`/models/${encodeURIComponent(opponent.modelId)}${seasonQuery}`} className="model-link">
+                      {opponent.name}
+                    </a>
+                  </td>
+                  <td>{ui.profileRecordLine(opponent.aiWins, opponent.aiLosses, opponent.aiDraws)}</td>
+                  <td>{ui.profileRecordLine(opponent.humanWins, opponent.humanLosses, opponent.humanDraws)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <AnswerList title={ui.profileBestAnswers} answers={profile.bestAnswers} />
+      <AnswerList title={ui.profileWorstAnswers} answers={profile.worstAnswers} />
+
+      {judging.votes + judging.abstained > 0 && (
+        <section className="round-section">
+          <div className="history-tournaments__title">{ui.profileJudging}</div>
+          <div className="round-metrics">{ui.profileJudgingVotes(judging.votes, judging.abstained)}</div>
+          <div className="model-stats">
+            <StatTile label={ui.profileAgreementJudges} value={formatRate(judging.agreementWithJudges)} />
+            <StatTile label={ui.profileAgreementAudience} value={formatRate(judging.agreementWithAudience)} />
+            <StatTile label={ui.profileFirstSlot} value={formatRate(judging.firstSlotRate)} />
+          </div>
+          {judging.favoritePicks.length > 0 && (
+            <div className="round-metrics">
+              <span>{ui.profileFavoritePicks}:</span>
+              {judging.favoritePicks.map((pick) => (
+                <span key={pick.modelId}>
+                  {pick.name} ({pick.votes})
+                </span>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
+      {profile.epochs.length > 0 && (
+        <section className="round-section">
+          <div className="history-tournaments__title">{ui.profileEpochs}</div>
+          <div className="round-metrics">{ui.profileEpochHint}</div>
+          <div className="model-trends">
+            <div className="model-trend">
+              <span>{ui.profileAiRating}</span>
+              <Sparkline values={profile.epochs.map((epoch) => epoch.aiRating)} color={color} />
+            </div>
+            <div className="model-trend">
+              <span>{ui.profileHumanRating}</span>
+              <Sparkline values={profile.epochs.map((epoch) => epoch.humanRating)} color={color} />
+            </div>
+            <div className="model-trend">
+              <span>{ui.profileAiWinRate}</span>
+              <Sparkline values={profile.epochs.map((epoch) => epoch.aiWinRate)} color={color} />
+            </div>
+          </div>
+          <table className="history-compare__table">
+            <thead>
+              <tr>
+                <th />
+                <th>{ui.profileAiRating}</th>
+                <th>{ui.profileHumanRating}</th>
+                <th>{ui.profileAiWinRate}</th>
+                <th>{ui.profileHumanWinRate}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.epochs.map((epoch) => (
+                <tr key={epoch.epoch}>
+                  <td>
+                    {ui.profileEpoch(epoch.epoch)} ({epoch.played})
+                  </td>
+                  <td>{epoch.aiRating ?? "-"}</td>
+                  <td>{epoch.humanRating ?? "-"}</td>
+                  <td>{formatRate(epoch.aiWinRate)}</td>
+                  <td>{formatRate(epoch.humanWinRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="history-tournaments__title">{ui.profileUsage}</div>
+          <table className="history-compare__table">
+            <thead>
+              <tr>
+                <th />
+                {USAGE_ROLES.map((role) => (
+                  <th key={role}>{ui.profileRole[role]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {profile.epochs.map((epoch) => (
+                <tr key={epoch.epoch}>
+                  <td>{ui.profileEpoch(epoch.epoch)}</td>
+                  {USAGE_ROLES.map((role) => {
+                    const usage = epoch.usage[role];
+                    return (
+                      <td key={role}>
+                        {usage ? (
+                          <div className="model-usage">
+                            <span title={ui.roundCost}>{formatUsd(usage.avgCostUsd)}</span>
+                            <span title={ui.roundLatency}>{formatDuration(usage.avgDurationMs)}</span>
+                            <span title={ui.roundTokens}>
+                              {formatCount(usage.avgTotalTokens)} {ui.roundTokens.toLowerCase()}
+                            </span>
+                          </div>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {record.played === 0 && judging.votes === 0 && record.prompted === 0 && (
+        <div className="history-empty">{ui.profileNoData}</div>
+      )}
+    </>
+  );
+}
+
+// ── App ─────────────────────────────────────────────────────────────────────
+
+function App() {
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+  const modelId = params.modelId ?? "";
+  const generation = parseSeason(searchParams.get("season"));
+  const showLanguage = useQuery(convexApi.live.getShowLanguage, {}) as { showLanguage: string } | undefined;
+  syncShowLanguage(normalizeShowLanguage(showLanguage?.showLanguage));
+  const profile = useQuery(
+    convexApi.modelProfiles.get,
+    modelId ? { modelId, ...(generation ? { generation } : {}) } : "skip",
+  ) as ModelProfile | null | undefined;
+
+  React.useEffect(() => {
+    if (profile) document.title = `${profile.model.name} | TokensComedyClub`;
+  }, [profile?.model.name]);
+
+  return (
+    <div className="app history-page">
+      <a href="/" className="history-main-logo">
+        <img src="/assets/logo.svg" alt="TokensComedyClub" />
+      </a>
+      <main className="history-main">
+        <div className="history-page-header">
+          <div className="history-page-title">{profile?.model.name ?? modelId}</div>
+          <div className="history-page-links">
+            <a href={generation ? `/history?season=${generation}` : "/history"} className="history-back-link">
+              {ui.history}
+            </a>
+            <a href="/" className="history-back-link">
+              {ui.backToGame}
+            </a>
+          </div>
+        </div>
+
+        {!modelId || profile === null ? (
+          <div className="history-empty">{ui.profileNotFound}</div>
+        ) : profile === undefined ? (
+          <div className="history-loading">{ui.loading}</div>
+        ) : (
+          <ProfileView profile={profile} />
+        )}
+      </main>
+    </div>
+  );
+}
+
+function ModelProfilePage() {
+  return (
+    <ConvexProvider client={convex}>
+      <App />
+    </ConvexProvider>
+  );
+}
+
+export default ModelProfilePage;
@@ -0,0 +1,391 @@
+import React from "react";
+import { ConvexProvider, ConvexReactClient, useQuery } from "convex/react";
+import { useParams } from "react-router-dom";
+import { api } from "./convex/_generated/api";
+import { getLogoUrlById, normalizeHexColor, type ModelCatalogEntry } from "./shared/models";
+import { resolveWinnerIndex } from "./shared/rounds";
+import { getUiStrings, normalizeShowLanguage, type ShowLanguage } from "./shared/i18n";
+import "./history.css";
+import "./round.css";
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+type Model = { id: string; name: string; color?: string; logoId?: string };
+type TaskMetrics = {
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  reasoningTokens: number;
+  durationMsFinal: number;
+};
+type UsageMetrics = {
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  reasoningTokens: number;
+  durationMs: number;
+};
+type TaskInfo = {
+  model: Model;
+  startedAt: number;
+  finishedAt?: number;
+  result?: string;
+  error?: string;
+  metrics?: TaskMetrics;
+};
+type VoteInfo = {
+  voter: Model;
+  startedAt: number;
+  finishedAt?: number;
+  votedFor?: Model;
+  error?: boolean;
+};
+type RoundState = {
+  _id?: string;
+  generation: number;
+  num: number;
+  skipped?: boolean;
+  skipReason?: string;
+  skipType?: "prompt_error" | "answer_error";
+  prompter: Model;
+  promptTask: TaskInfo;
+  prompt?: string;
+  contestants: Model[];
+  answerTasks: TaskInfo[];
+  votes: VoteInfo[];
+  scores?: number[];
+  viewerVoteCounts?: number[];
+  promptSubmitter?: string;
+  completedAt?: number;
+};
+type RoundDetail = {
+  round: RoundState;
+  seasonName: string | null;
+  viewerVotesByPlatform: Record<string, number[]>;
+  voteMetrics: (UsageMetrics | null)[];
+  totals: { costUsd: number; totalTokens: number; reasoningTokens: number; requests: number } | null;
+};
+
+// ── Shared UI Utils ─────────────────────────────────────────────────────────
+
+const DEFAULT_UI_COLOR = "#A1A1A1";
+let modelCatalogByName = new Map<string, ModelCatalogEntry>();
+
+function syncModelCatalog(models: ModelCatalogEntry[]) {
+  modelCatalogByName = new Map(models.map((model) => [model.name, model]));
+}
+
+let ui = getUiStrings(undefined);
+
+function syncShowLanguage(language: ShowLanguage) {
+  ui = getUiStrings(language);
+}
+
+function getColor(name: string, fallbackColor?: string): string {
+  const fromCatalog = modelCatalogByName.get(name);
+  if (fromCatalog) return normalizeHexColor(fromCatalog.color);
+  return normalizeHexColor(fallbackColor) || DEFAULT_UI_COLOR;
+}
+
+function getLogo(name: string, fallbackLogoId?: string): string | null {
+  const fromCatalog = modelCatalogByName.get(name);
+  if (fromCatalog) return getLogoUrlById(fromCatalog.logoId);
+  return getLogoUrlById(fallbackLogoId);
+}
+
+function getConvexUrl(): string {
+  const env = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env;
+  const url = env?.VITE_CONVEX_URL;
+  if (!url) throw new Error("VITE_CONVEX_URL is not configured");
+  return url.replace(/\/$/, "");
+}
+
+const convex = new ConvexReactClient(getConvexUrl());
+const convexApi = api as any;
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value >= 0.01 ? 4 : 6)}`;
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString(ui.locale);
+}
+
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function ModelName({ model }: { model: Model }) {
+  const logo = getLogo(model.name, model.logoId);
+  const color = getColor(model.name, model.color);
+  return (
+    <span className="model-name" style={{ color }}>
+      {logo && <img src={logo} alt="" className="model-logo" />}
+      {model.name}
+    </span>
+  );
+}
+
+// ── Components ──────────────────────────────────────────────────────────────
+
+function MetricsLine({ metrics }: { metrics: UsageMetrics | null }) {
+  if (!metrics) return null;
+  return (
+    <div className="round-metrics">
+      <span title={ui.roundCost}>{formatUsd(metrics.costUsd)}</span>
+      <span title={ui.roundTokens}>
+        {formatCount(metrics.totalTokens)} {ui.roundTokens.toLowerCase()}
+      </span>
+      {metrics.reasoningTokens > 0 && (
+        <span title={ui.roundReasoningTokens}>
+          {formatCount(metrics.reasoningTokens)} {ui.roundReasoningTokens.toLowerCase()}
+        </span>
+      )}
+      <span title={ui.roundLatency}>{formatDuration(metrics.durationMs)}</span>
+    </div>
+  );
+}
+
+function toUsageMetrics(metrics: TaskMetrics | undefined): UsageMetrics | null {
+  if (!metrics) return null;
+  return {
+    costUsd: metrics.costUsd,
+    promptTokens: metrics.promptTokens,
+    completionTokens: metrics.completionTokens,
+    totalTokens: metrics.totalTokens,
+    reasoningTokens: metrics.reasoningTokens,
+    durationMs: metrics.durationMsFinal,
+  };
+}
+
+function CopyLinkButton() {
+  const [copied, setCopied] = React.useState(false);
+  return (
+    <button
+      type="button"
+      className="pagination__btn"
+      onClick={() => {
+        void navigator.clipboard?.writeText(window.location.href).then(() => setCopied(true));
+      }}
+    >
+      {copied ? ui.roundLinkCopied : ui.roundCopyLink}
+    </button>
+  );
+}
+
+function RoundDetailView({ detail }: { detail: RoundDetail }) {
+  const { round } = detail;
+  const isSkipped = Boolean(round.skipped);
+  const voteCounts = round.contestants.map(
+    (contestant) => round.votes.filter((vote) => vote.votedFor?.name === contestant.name).length,
+  );
+  const winnerIndex = isSkipped ? -1 : resolveWinnerIndex(voteCounts);
+  const viewerVoteCounts = round.contestants.map((_, index) => round.viewerVoteCounts?.[index] ?? 0);
+  const platforms = Object.entries(detail.viewerVotesByPlatform).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <>
+      <section className="history-card">
+        <div className="history-card__header">
+          <div className="history-card__prompt-section">
+            <div className="history-card__prompter">
+              {round.promptSubmitter ? (
+                <>
+                  {ui.promptSubmittedBy} <span className="history-card__submitter">{round.promptSubmitter}</span>
+                </>
+              ) : (
+                <>
+                  {ui.promptBy} <ModelName model={round.prompter} />
+                </>
+              )}
+            </div>
+            <div className="history-card__prompt">{round.prompt ?? ui.promptUnavailable}</div>
+            <MetricsLine metrics={toUsageMetrics(round.promptTask.metrics)} />
+          </div>
+          <div className="history-card__meta">
+            <div>{detail.seasonName ?? `G${round.generation}`}</div>
+            {round.completedAt && <div>{new Date(round.completedAt).toLocaleString(ui.locale)}</div>}
+          </div>
+        </div>
+
+        {isSkipped && (
+          <div className="history-card__skipped">
+            <span className="history-card__skipped-label">{ui.skippedByFailure}</span>
+            <span className="history-card__skipped-reason">{round.skipReason ?? ui.technicalFailure}</span>
+          </div>
+        )}
+
+        {round.skipType !== "prompt_error" && (
+          <div className={`history-card__showdown history-card__showdown--count-${round.contestants.length}`}>
+            {round.contestants.map((contestant, index) => {
+              const task = round.answerTasks[index];
+              const votes = voteCounts[index] ?? 0;
+              const viewerVotes = viewerVoteCounts[index] ?? 0;
+              return (
+                <div
+                  key={`${contestant.name}-${index}`}
+                  className={`history-contestant ${winnerIndex === index ? "history-contestant--winner" : ""}`}
+                >
+                  <div className="history-contestant__header">
+                    <a
+                      href={`/models/${encodeURIComponent(contestant.id)}?season=${round.generation}`}
+                      className="round-model-link"
+                    >
+                      <ModelName model={contestant} />
+                    </a>
+                    {winnerIndex === index && <div className="history-contestant__winner-badge">{ui.winner}</div>}
+                  </div>
+                  <div className="history-contestant__answer">&ldquo;{task?.result ?? ui.noAnswer}&rdquo;</div>
+                  <div className="history-contestant__votes">
+                    <div className="history-contestant__score" style={{ color: getColor(contestant.name, contestant.color) }}>
+                      {votes} {ui.votes(votes)}
+                    </div>
+                    <div className="history-contestant__viewer-count">
+                      {viewerVotes} {ui.viewerVotes(viewerVotes)}
+                    </div>
+                  </div>
+                  <MetricsLine metrics={toUsageMetrics(task?.metrics)} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      {round.votes.length > 0 && (
+        <section className="round-section">
+          <div className="history-tournaments__title">{ui.roundJudges}</div>
+          {round.votes.map((vote, index) => (
+            <div key={`${vote.voter.name}-${index}`} className="round-judge">
+              <div className="round-judge__vote">
+                <ModelName model={vote.voter} />
+                {vote.votedFor ? (
+                  <>
+                    <span className="round-judge__label">{ui.roundVotedFor}</span>
+                    <ModelName model={vote.votedFor} />
+                  </>
+                ) : (
+                  <span className="round-judge__label">{vote.error ? ui.technicalFailure : ui.roundNoVote}</span>
+                )}
+              </div>
+              <MetricsLine metrics={detail.voteMetrics[index] ?? null} />
+            </div>
+          ))}
+        </section>
+      )}
+
+      {platforms.length > 0 && (
+        <section className="round-section">
+          <div className="history-tournaments__title">{ui.roundViewerVotesByPlatform}</div>
+          <table className="history-compare__table">
+            <thead>
+              <tr>
+                <th />
+                {round.contestants.map((contestant, index) => (
+                  <th key={`${contestant.name}-${index}`}>
+                    <ModelName model={contestant} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {platforms.map(([platform, counts]) => (
+                <tr key={platform}>
+                  <td>{ui.roundPlatform(platform)}</td>
+                  {round.contestants.map((contestant, index) => (
+                    <td key={`${contestant.name}-${index}`}>{counts[index] ?? 0}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {detail.totals && (
+        <section className="round-section">
+          <div className="history-tournaments__title">{ui.roundTotals(detail.totals.requests)}</div>
+          <div className="round-metrics">
+            <span>
+              {ui.roundCost}: {formatUsd(detail.totals.costUsd)}
+            </span>
+            <span>
+              {ui.roundTokens}: {formatCount(detail.totals.totalTokens)}
+            </span>
+            <span>
+              {ui.roundReasoningTokens}: {formatCount(detail.totals.reasoningTokens)}
+            </span>
+          </div>
+        </section>
+      )}
+    </>
+  );
+}
+
+// ── App ─────────────────────────────────────────────────────────────────────
+
+function App() {
+  const params = useParams();
+  const generation = Number(params.generation);
+  const num = Number(params.num);
+  const isValid = Number.isInteger(generation) && Number.isInteger(num);
+  const modelCatalog = useQuery(convexApi.live.getModelCatalog, {}) as
+    | { models: ModelCatalogEntry[] }
+    | undefined;
+  const showLanguage = useQuery(convexApi.live.getShowLanguage, {}) as { showLanguage: string } | undefined;
+  syncShowLanguage(normalizeShowLanguage(showLanguage?.showLanguage));
+  const detail = useQuery(convexApi.history.getRound, isValid ? { generation, num } : "skip") as
+    | RoundDetail
+    | null
+    | undefined;
+
+  React.useEffect(() => {
+    syncModelCatalog(modelCatalog?.models ?? []);
+  }, [modelCatalog?.models]);
+
+  React.useEffect(() => {
+    if (isValid) document.title = `${ui.round(num)} | TokensComedyClub`;
+  }, [isValid, num, showLanguage?.showLanguage]);
+
+  return (
+    <div className="app history-page">
+      <a href="/" className="history-main-logo">
+        <img src="/assets/logo.svg" alt="TokensComedyClub" />
+      </a>
+      <main className="history-main">
+        <div className="history-page-header">
+          <div className="history-page-title">{isValid ? ui.round(num) : ui.roundPermalink}</div>
+          <div className="history-page-links">
+            {detail && <CopyLinkButton />}
+            <a href={isValid ? `/history?season=${generation}` : "/history"} className="history-back-link">
+              {ui.history}
+            </a>
+            <a href="/" className="history-back-link">
+              {ui.backToGame}
+            </a>
+          </div>
+        </div>
+
+        {!isValid || detail === null ? (
+          <div className="history-empty">{ui.roundNotFound}</div>
+        ) : detail === undefined ? (
+          <div className="history-loading">{ui.loading}</div>
+        ) : (
+          <RoundDetailView detail={detail} />
+        )}
+      </main>
+    </div>
+  );
+}
+
+function RoundPage() {
+  return (
+    <ConvexProvider client={convex}>
+      <App />
+    </ConvexProvider>
+  );
+}
+
+export default RoundPage;
@@ -0,0 +1,112 @@
+export const DATASET_EXPORT_ENTITIES = ["rounds", "usage", "viewer_votes"] as const;
+export type DatasetExportEntity = (typeof DATASET_EXPORT_ENTITIES)[number];
+
+export const DATASET_EXPORT_FORMATS = ["jsonl", "csv", "preferences"] as const;
+export type DatasetExportFormat = (typeof DATASET_EXPORT_FORMATS)[number];
+
+export const DATASET_EXPORT_CSV_COLUMNS: Record<DatasetExportEntity, readonly string[]> = {
+  rounds: [
+    "generation",
+    "num",
+    "roundId",
+    "completedAt",
+    "skipped",
+    "skipType",
+    "language",
+    "prompter",
+    "prompt",
+    "promptSubmitter",
+    "contestants",
+    "answers",
+    "aiVotes",
+    "viewerVotes",
+    "winner",
+    "audienceWinner",
+  ],
+  usage: [
+    "generation",
+    "roundId",
+    "roundNum",
+    "requestType",
+    "answerIndex",
+    "voteIndex",
+    "modelId",
+    "modelName",
+    "costUsd",
+    "promptTokens",
+    "completionTokens",
+    "reasoningTokens",
+    "totalTokens",
+    "durationMs",
+    "startedAt",
+    "finishedAt",
+  ],
+  viewer_votes: ["generation", "roundId", "viewerId", "side", "createdAt", "flaggedReasons", "excluded"],
+};
+
+export function isDatasetExportEntity(value: unknown): value is DatasetExportEntity {
+  return DATASET_EXPORT_ENTITIES.includes(value as DatasetExportEntity);
+}
+
+export function isDatasetExportFormat(value: unknown): value is DatasetExportFormat {
+  return DATASET_EXPORT_FORMATS.includes(value as DatasetExportFormat);
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(columns: readonly string[], row?: Record<string, unknown>): string {
+  return `${columns.map((column) => toCsvCell(row ? row[column] : column)).join(",")}\n`;
+}
+
+type PreferenceRoundInput = {
+  generation: number;
+  num: number;
+  roundId: string;
+  language: string | null;
+  prompt: string | null;
+  contestants: string[];
+  answers: (string | null)[];
+  aiVotes: number[];
+  viewerVotes: number[];
+};
+
+// One pair per contestant pair with a clear preference: the AI judges decide,
+// and audience votes break judge ties. Margins are positive toward `chosen`.
+export function buildPreferencePairs(round: PreferenceRoundInput): Record<string, unknown>[] {
+  const pairs: Record<string, unknown>[] = [];
+  if (!round.prompt) return pairs;
+  for (let left = 0; left < round.contestants.length; left += 1) {
+    for (let right = left + 1; right < round.contestants.length; right += 1) {
+      const leftAnswer = round.answers[left];
+      const rightAnswer = round.answers[right];
+      if (!leftAnswer || !rightAnswer) continue;
+
+      const judgeDiff = (round.aiVotes[left] ?? 0) - (round.aiVotes[right] ?? 0);
+      const humanDiff = (round.viewerVotes[left] ?? 0) - (round.viewerVotes[right] ?? 0);
+      const direction = judgeDiff !== 0 ? Math.sign(judgeDiff) : Math.sign(humanDiff);
+      if (direction === 0) continue;
+
+      const [chosen, rejected] = direction > 0 ? [left, right] : [right, left];
+      pairs.push({
+        generation: round.generation,
+        roundNum: round.num,
+        roundId: round.roundId,
+        language: round.language,
+        prompt: round.prompt,
+        chosen: round.answers[chosen],
+        rejected: round.answers[rejected],
+        chosenModel: round.contestants[chosen],
+        rejectedModel: round.contestants[rejected],
+        judgeMargin: judgeDiff * direction,
+        humanMargin: humanDiff * direction,
+        judgeVotes: (round.aiVotes[left] ?? 0) + (round.aiVotes[right] ?? 0),
+        humanVotes: (round.viewerVotes[left] ?? 0) + (round.viewerVotes[right] ?? 0),
+      });
+    }
+  }
+  return pairs;
+}
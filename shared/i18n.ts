@@ -0,0 +1,927 @@
+export const SHOW_LANGUAGES = ["pt-BR", "en", "es"] as const;
+
+export type ShowLanguage = (typeof SHOW_LANGUAGES)[number];
+
+export const DEFAULT_SHOW_LANGUAGE: ShowLanguage = "pt-BR";
+
+export const SHOW_LANGUAGE_LABELS: Record<ShowLanguage, string> = {
+  "pt-BR": "Portugues (Brasil)",
+  en: "English",
+  es: "Espanol",
+};
+
+// Value of {language} in the prompt templates, written for the model to read.
+export const SHOW_LANGUAGE_PROMPT_NAMES: Record<ShowLanguage, string> = {
+  "pt-BR": "portugues do Brasil",
+  en: "ingles (English)",
+  es: "espanhol (Espanol)",
+};
+
+export function isShowLanguage(value: unknown): value is ShowLanguage {
+  return typeof value === "string" && (SHOW_LANGUAGES as readonly string[]).includes(value);
+}
+
+export function normalizeShowLanguage(value: unknown): ShowLanguage {
+  return isShowLanguage(value) ? value : DEFAULT_SHOW_LANGUAGE;
+}
+
+type TournamentBracket = "winners" | "losers" | "grand_final";
+type TournamentFormat = "single_elimination" | "double_elimination";
+type ViewerPromptStatus = "queued" | "invalid" | "limit" | "duplicate";
+
+export type UiStrings = {
+  locale: string;
+  round: (num: number) => string;
+  roundSkipped: (modelName: string | null) => string;
+  writingPrompt: string;
+  answering: string;
+  roundDone: string;
+  technicalFailure: string;
+  promptFailed: string;
+  generatingPrompt: string;
+  promptUnavailable: string;
+  writingAnswer: string;
+  promptBy: string;
+  promptSubmittedBy: string;
+  isWritingPrompt: string;
+  isWritingNextPrompt: string;
+  votes: (count: number) => string;
+  viewerVotes: (count: number) => string;
+  won: string;
+  winner: string;
+  yourVote: string;
+  tie: string;
+  noAnswer: string;
+  loading: string;
+  loadMore: string;
+  connecting: string;
+  starting: string;
+  paused: string;
+  viewersWatching: (count: number) => string;
+  bye: string;
+  toBeDefined: string;
+  tournamentGame: (label: string, game: number) => string;
+  tournamentBrackets: Record<TournamentBracket, string>;
+  tournamentTitle: Record<TournamentFormat, string>;
+  tournamentFormat: Record<TournamentFormat, string>;
+  tournamentMeta: (participantCount: number, bestOf: number) => string;
+  tournamentAria: string;
+  tournamentChampion: string;
+  tournamentOver: string;
+  tournamentInProgress: string;
+  champion: string;
+  gameOver: string;
+  aiChampion: string;
+  audienceChampion: string;
+  funniestAi: string;
+  audienceChampionSub: string;
+  noAudienceChampion: string;
+  noAudienceWinsYet: string;
+  ranking: string;
+  rankingSortAria: string;
+  rankingWins: string;
+  rankingRating: string;
+  audienceRanking: string;
+  aiRanking: string;
+  history: string;
+  historyTitle: string;
+  backToGame: string;
+  tournaments: string;
+  noRounds: string;
+  seasonPickerAria: string;
+  seasonCurrent: string;
+  seasonDates: (startedAt: string, endedAt: string | null) => string;
+  seasonRounds: (count: number) => string;
+  seasonRoundsPurged: string;
+  seasonCompare: string;
+  seasonCompareWith: string;
+  seasonCompareEmpty: string;
+  seasonModel: string;
+  seasonNewEntry: string;
+  seasonAbsent: string;
+  historySearchPlaceholder: string;
+  historySearch: string;
+  historyFilterContestant: string;
+  historyFilterPrompter: string;
+  historyFilterJudge: string;
+  historyFilterWinner: string;
+  historyFilterAnyModel: string;
+  historyFilterSkip: Record<"all" | "played" | "skipped" | "prompt_error" | "answer_error", string>;
+  historyFilterDisagreement: string;
+  historyFilterFrom: string;
+  historyFilterTo: string;
+  historyFilterClear: string;
+  historyNoResults: string;
+  historySearchOlder: string;
+  roundPermalink: string;
+  roundNotFound: string;
+  roundJudges: string;
+  roundNoVote: string;
+  roundVotedFor: string;
+  roundViewerVotesByPlatform: string;
+  roundPlatform: (platform: string) => string;
+  roundCost: string;
+  roundTokens: string;
+  roundReasoningTokens: string;
+  roundLatency: string;
+  roundTotals: (requests: number) => string;
+  roundCopyLink: string;
+  roundLinkCopied: string;
+  profileNotFound: string;
+  profileRecord: string;
+  profileRecordLine: (wins: number, losses: number, draws: number) => string;
+  profileAiWinRate: string;
+  profileHumanWinRate: string;
+  profileTotals: (aiWins: number, humanWins: number, humanVotes: number) => string;
+  profilePrompted: (count: number) => string;
+  profileScanned: (count: number, isPartial: boolean) => string;
+  profileArchived: string;
+  profileOpponents: string;
+  profileOpponent: string;
+  profileVsJudges: string;
+  profileVsAudience: string;
+  profileBestAnswers: string;
+  profileWorstAnswers: string;
+  profileAnswerVotes: (aiVotes: number, aiTotal: number, viewerVotes: number, viewerTotal: number) => string;
+  profileJudging: string;
+  profileJudgingVotes: (votes: number, abstained: number) => string;
+  profileAgreementJudges: string;
+  profileAgreementAudience: string;
+  profileFirstSlot: string;
+  profileFavoritePicks: string;
+  profileUsage: string;
+  profileRole: Record<"prompt" | "answer" | "vote", string>;
+  profileEpochs: string;
+  profileEpoch: (epoch: number) => string;
+  profileEpochHint: string;
+  profileAiRating: string;
+  profileHumanRating: string;
+  profileNoData: string;
+  matchups: string;
+  matchupsHint: string;
+  matchupsEmpty: string;
+  rivalryTitle: string;
+  rivalrySummary: (rounds: number, aiWinsA: number, aiWinsB: number, humanWinsA: number, humanWinsB: number) => string;
+  skippedByFailure: string;
+  templateVersionsTitle: string;
+  viewerPromptHint: string;
+  submitPromptTitle: string;
+  submitPromptName: string;
+  submitPromptText: string;
+  submitPromptSending: string;
+  submitPromptSend: string;
+  submitPromptError: string;
+  submitPromptStatus: (status: ViewerPromptStatus, minLength: number, maxLength: number) => string;
+  accountTitle: string;
+  accountHint: string;
+  accountLinkWith: (platform: string) => string;
+  accountCreateCode: string;
+  accountCodeInstructions: (code: string) => string;
+  accountUnlink: string;
+  accountUnlinkRoundOpen: string;
+  accountStats: (votes: number, promptsSubmitted: number, promptsUsed: number) => string;
+  accountLinked: (platform: string) => string;
+  accountLinkError: string;
+  accountLinkUnavailable: string;
+  predictionTitle: string;
+  predictionHint: string;
+  predictionClosed: string;
+  predictionMine: (modelName: string) => string;
+  predictionStats: (points: number, correct: number, total: number, streak: number) => string;
+  predictionError: string;
+  predictorsRanking: string;
+  predictorsEmpty: string;
+  predictorAnonymous: (tag: string) => string;
+  predictorPoints: (points: number) => string;
+};
+
+const PT_BR_UI: UiStrings = {
+  locale: "pt-BR",
+  round: (num) => `Rodada ${num}`,
+  roundSkipped: (modelName) => `Rodada pulada${modelName ? ` - ${modelName}` : ""}`,
+  writingPrompt: "Escrevendo prompt",
+  answering: "Respondendo",
+  roundDone: "Concluida",
+  technicalFailure: "Falha tecnica",
+  promptFailed: "Falha ao gerar prompt",
+  generatingPrompt: "Gerando prompt...",
+  promptUnavailable: "Prompt indisponivel",
+  writingAnswer: "Escrevendo resposta...",
+  promptBy: "Prompt de",
+  promptSubmittedBy: "Tema enviado por",
+  isWritingPrompt: "esta escrevendo um prompt",
+  isWritingNextPrompt: "esta escrevendo o proximo prompt",
+  votes: (count) => (count === 1 ? "voto" : "votos"),
+  viewerVotes: (count) => (count === 1 ? "voto da plateia" : "votos da plateia"),
+  won: "VENCEU",
+  winner: "VENCEDOR",
+  yourVote: "SEU VOTO",
+  tie: "Empate",
+  noAnswer: "Sem resposta",
+  loading: "Carregando...",
+  loadMore: "Carregar Mais",
+  connecting: "Conectando",
+  starting: "Iniciando",
+  paused: "Pausado",
+  viewersWatching: (count) => `${count} espectador${count === 1 ? "" : "es"} assistindo`,
+  bye: "Folga",
+  toBeDefined: "A definir",
+  tournamentGame: (label, game) => `${label} - Jogo ${game}`,
+  tournamentBrackets: {
+    winners: "Chave superior",
+    losers: "Chave inferior",
+    grand_final: "Grande final",
+  },
+  tournamentTitle: {
+    single_elimination: "Torneio mata-mata",
+    double_elimination: "Torneio dupla eliminacao",
+  },
+  tournamentFormat: {
+    single_elimination: "Mata-mata",
+    double_elimination: "Dupla eliminacao",
+  },
+  tournamentMeta: (participantCount, bestOf) => `${participantCount} modelos - melhor de ${bestOf}`,
+  tournamentAria: "Chave do torneio",
+  tournamentChampion: "campeao do torneio",
+  tournamentOver: "Fim do torneio",
+  tournamentInProgress: "Em andamento",
+  champion: "Campeao",
+  gameOver: "Fim de jogo",
+  aiChampion: "Campeao IA",
+  audienceChampion: "Campeao plateia",
+  funniestAi: "e a IA mais engracada",
+  audienceChampionSub: "campeao da votacao da plateia",
+  noAudienceChampion: "Sem campeao da plateia",
+  noAudienceWinsYet: "ainda sem vitoria humana acumulada",
+  ranking: "Ranking",
+  rankingSortAria: "Ordenar ranking",
+  rankingWins: "Vitorias",
+  rankingRating: "Rating",
+  audienceRanking: "Ranking da Plateia",
+  aiRanking: "Ranking das IAs",
+  history: "Historico",
+  historyTitle: "Rodadas Anteriores",
+  backToGame: "Voltar ao Jogo",
+  tournaments: "Torneios",
+  noRounds: "Nenhuma rodada anterior encontrada.",
+  seasonPickerAria: "Escolher temporada",
+  seasonCurrent: "atual",
+  seasonDates: (startedAt, endedAt) => (endedAt ? `${startedAt} ate ${endedAt}` : `desde ${startedAt}`),
+  seasonRounds: (count) => `${count} rodada${count === 1 ? "" : "s"}`,
+  seasonRoundsPurged: "As rodadas desta temporada foram apagadas no reset; so o placar final foi guardado.",
+  seasonCompare: "Comparar temporadas",
+  seasonCompareWith: "Comparar com",
+  seasonCompareEmpty: "Nao ha placar guardado para comparar estas temporadas.",
+  seasonModel: "Modelo",
+  seasonNewEntry: "novo",
+  seasonAbsent: "fora",
+  historySearchPlaceholder: "Buscar no prompt ou nas respostas",
+  historySearch: "Buscar",
+  historyFilterContestant: "Competidor",
+  historyFilterPrompter: "Autor do prompt",
+  historyFilterJudge: "Juiz",
+  historyFilterWinner: "Vencedor",
+  historyFilterAnyModel: "Qualquer modelo",
+  historyFilterSkip: {
+    all: "Todas as rodadas",
+    played: "So rodadas jogadas",
+    skipped: "So rodadas puladas",
+    prompt_error: "Puladas por falha no prompt",
+    answer_error: "Puladas por falha na resposta",
+  },
+  historyFilterDisagreement: "IAs e plateia discordaram",
+  historyFilterFrom: "De",
+  historyFilterTo: "Ate",
+  historyFilterClear: "Limpar filtros",
+  historyNoResults: "Nenhuma rodada encontrada com esses filtros.",
+  historySearchOlder: "Buscar em rodadas mais antigas",
+  roundPermalink: "Link da rodada",
+  roundNotFound: "Rodada nao encontrada. Ela pode ter sido apagada em um reset.",
+  roundJudges: "Juizes",
+  roundNoVote: "sem voto",
+  roundVotedFor: "votou em",
+  roundViewerVotesByPlatform: "Votos da plateia por plataforma",
+  roundPlatform: (platform) =>
+    ({ web: "Site", linked: "Contas vinculadas", twitch: "Twitch", youtube: "YouTube", telegram: "Telegram" })[
+      platform
+    ] ?? platform,
+  roundCost: "Custo",
+  roundTokens: "Tokens",
+  roundReasoningTokens: "Tokens de raciocinio",
+  roundLatency: "Latencia",
+  roundTotals: (requests) => `Total da rodada (${requests} chamada${requests === 1 ? "" : "s"})`,
+  roundCopyLink: "Copiar link",
+  roundLinkCopied: "Link copiado",
+  profileNotFound: "Modelo nao encontrado.",
+  profileRecord: "Campanha",
+  profileRecordLine: (wins, losses, draws) => `${wins}V ${losses}D ${draws}E`,
+  profileAiWinRate: "Aproveitamento com juizes IA",
+  profileHumanWinRate: "Aproveitamento com a plateia",
+  profileTotals: (aiWins, humanWins, humanVotes) =>
+    `Placar da temporada: ${aiWins} vitorias IA - ${humanWins} vitorias da plateia - ${humanVotes} votos`,
+  profilePrompted: (count) => `${count} ${count === 1 ? "tema criado" : "temas criados"}`,
+  profileScanned: (count, isPartial) =>
+    `Baseado em ${isPartial ? "as ultimas " : ""}${count} ${count === 1 ? "rodada" : "rodadas"} da temporada`,
+  profileArchived: "Arquivado",
+  profileOpponents: "Confronto direto",
+  profileOpponent: "Adversario",
+  profileVsJudges: "Juizes IA",
+  profileVsAudience: "Plateia",
+  profileBestAnswers: "Melhores respostas",
+  profileWorstAnswers: "Piores respostas",
+  profileAnswerVotes: (aiVotes, aiTotal, viewerVotes, viewerTotal) =>
+    `${aiVotes}/${aiTotal} juizes - ${viewerVotes}/${viewerTotal} plateia`,
+  profileJudging: "Como julga",
+  profileJudgingVotes: (votes, abstained) =>
+    `${votes} ${votes === 1 ? "voto" : "votos"}${abstained > 0 ? ` - ${abstained} sem voto` : ""}`,
+  profileAgreementJudges: "Concorda com a maioria dos juizes",
+  profileAgreementAudience: "Concorda com a plateia",
+  profileFirstSlot: "Escolhe a primeira resposta",
+  profileFavoritePicks: "Mais escolhidos",
+  profileUsage: "Custo e latencia por funcao",
+  profileRole: { prompt: "Tema", answer: "Resposta", vote: "Voto" },
+  profileEpochs: "Evolucao por versao",
+  profileEpoch: (epoch) => `Versao ${epoch}`,
+  profileEpochHint: "Uma nova versao comeca quando o modelo, o provedor ou o esforco de raciocinio muda.",
+  profileAiRating: "Rating IA",
+  profileHumanRating: "Rating plateia",
+  profileNoData: "Sem dados nesta temporada.",
+  matchups: "Confrontos",
+  matchupsHint: "Cada celula mostra o retrospecto do modelo da linha contra o da coluna (vitorias, derrotas e empates).",
+  matchupsEmpty: "Nenhum confronto nesta temporada ainda.",
+  rivalryTitle: "Rivalidade do dia",
+  rivalrySummary: (rounds, aiWinsA, aiWinsB, humanWinsA, humanWinsB) =>
+    `${rounds} ${rounds === 1 ? "rodada" : "rodadas"} - juizes ${aiWinsA}x${aiWinsB} - plateia ${humanWinsA}x${humanWinsB}`,
+  skippedByFailure: "Rodada pulada por falha",
+  templateVersionsTitle: "Versoes dos templates de prompt, resposta e voto usados na rodada",
+  viewerPromptHint: "tema do publico - envie o seu na pagina ao vivo ou no chat",
+  submitPromptTitle: "Envie um tema",
+  submitPromptName: "Seu nome",
+  submitPromptText: "Ex: o pior jeito de pedir aumento",
+  submitPromptSending: "Enviando...",
+  submitPromptSend: "Enviar",
+  submitPromptError: "Falha ao enviar tema.",
+  accountTitle: "Sua conta",
+  accountHint: "Vincule Twitch ou YouTube para seu voto valer uma vez entre o chat e o site.",
+  accountLinkWith: (platform) => `Entrar com ${platform}`,
+  accountCreateCode: "Gerar codigo para o chat",
+  accountCodeInstructions: (code) => `Digite !link ${code} no chat em ate 10 minutos.`,
+  accountUnlink: "Desvincular",
+  accountUnlinkRoundOpen: "Voce ja votou ou deu palpite nesta rodada; desvincule quando ela terminar.",
+  accountStats: (votes, promptsSubmitted, promptsUsed) =>
+    `${votes} ${votes === 1 ? "voto" : "votos"} - ${promptsSubmitted} ${promptsSubmitted === 1 ? "tema enviado" : "temas enviados"} - ${promptsUsed} no palco`,
+  accountLinked: (platform) => `Conta ${platform} vinculada!`,
+  accountLinkError: "Falha ao vincular conta.",
+  accountLinkUnavailable: "Login indisponivel no momento.",
+  predictionTitle: "Palpite",
+  predictionHint: "Qual resposta os juizes IA vao escolher? Acertos valem pontos e sequencias dao bonus.",
+  predictionClosed: "Palpites fechados: os juizes ja comecaram a votar.",
+  predictionMine: (modelName) => `Seu palpite: ${modelName}`,
+  predictionStats: (points, correct, total, streak) =>
+    `${points} pts - ${correct}/${total} ${total === 1 ? "acerto" : "acertos"} - sequencia ${streak}`,
+  predictionError: "Falha ao registrar palpite.",
+  predictorsRanking: "Top Palpiteiros",
+  predictorsEmpty: "Nenhum palpite pontuado ainda.",
+  predictorAnonymous: (tag) => `Espectador #${tag}`,
+  predictorPoints: (points) => `${points} pts`,
+  submitPromptStatus: (status, minLength, maxLength) =>
+    status === "queued"
+      ? "Tema enviado! Ele aparece no palco depois da moderacao."
+      : status === "invalid"
+        ? `O tema precisa ter de ${minLength} a ${maxLength} caracteres.`
+        : status === "limit"
+          ? "Voce ja tem temas aguardando moderacao."
+          : "Esse tema ja esta na fila.",
+};
+
+const EN_UI: UiStrings = {
+  locale: "en",
+  round: (num) => `Round ${num}`,
+  roundSkipped: (modelName) => `Round skipped${modelName ? ` - ${modelName}` : ""}`,
+  writingPrompt: "Writing prompt",
+  answering: "Answering",
+  roundDone: "Done",
+  technicalFailure: "Technical failure",
+  promptFailed: "Failed to generate prompt",
+  generatingPrompt: "Generating prompt...",
+  promptUnavailable: "Prompt unavailable",
+  writingAnswer: "Writing answer...",
+  promptBy: "Prompt by",
+  promptSubmittedBy: "Prompt submitted by",
+  isWritingPrompt: "is writing a prompt",
+  isWritingNextPrompt: "is writing the next prompt",
+  votes: (count) => (count === 1 ? "vote" : "votes"),
+  viewerVotes: (count) => (count === 1 ? "audience vote" : "audience votes"),
+  won: "WON",
+  winner: "WINNER",
+  yourVote: "YOUR VOTE",
+  tie: "Tie",
+  noAnswer: "No answer",
+  loading: "Loading...",
+  loadMore: "Load More",
+  connecting: "Connecting",
+  starting: "Starting",
+  paused: "Paused",
+  viewersWatching: (count) => `${count} viewer${count === 1 ? "" : "s"} watching`,
+  bye: "Bye",
+  toBeDefined: "TBD",
+  tournamentGame: (label, game) => `${label} - Game ${game}`,
+  tournamentBrackets: {
+    winners: "Upper bracket",
+    losers: "Lower bracket",
+    grand_final: "Grand final",
+  },
+  tournamentTitle: {
+    single_elimination: "Single elimination tournament",
+    double_elimination: "Double elimination tournament",
+  },
+  tournamentFormat: {
+    single_elimination: "Single elimination",
+    double_elimination: "Double elimination",
+  },
+  tournamentMeta: (participantCount, bestOf) => `${participantCount} models - best of ${bestOf}`,
+  tournamentAria: "Tournament bracket",
+  tournamentChampion: "tournament champion",
+  tournamentOver: "Tournament over",
+  tournamentInProgress: "In progress",
+  champion: "Champion",
+  gameOver: "Game over",
+  aiChampion: "AI champion",
+  audienceChampion: "Audience champion",
+  funniestAi: "is the funniest AI",
+  audienceChampionSub: "audience vote champion",
+  noAudienceChampion: "No audience champion",
+  noAudienceWinsYet: "no audience wins yet",
+  ranking: "Ranking",
+  rankingSortAria: "Sort ranking",
+  rankingWins: "Wins",
+  rankingRating: "Rating",
+  audienceRanking: "Audience Ranking",
+  aiRanking: "AI Ranking",
+  history: "History",
+  historyTitle: "Past Rounds",
+  backToGame: "Back to Game",
+  tournaments: "Tournaments",
+  noRounds: "No past rounds found.",
+  seasonPickerAria: "Choose season",
+  seasonCurrent: "current",
+  seasonDates: (startedAt, endedAt) => (endedAt ? `${startedAt} to ${endedAt}` : `since ${startedAt}`),
+  seasonRounds: (count) => `${count} round${count === 1 ? "" : "s"}`,
+  seasonRoundsPurged: "This season's rounds were deleted on reset; only the final standings were kept.",
+  seasonCompare: "Compare seasons",
+  seasonCompareWith: "Compare with",
+  seasonCompareEmpty: "No saved standings to compare for these seasons.",
+  seasonModel: "Model",
+  seasonNewEntry: "new",
+  seasonAbsent: "out",
+  historySearchPlaceholder: "Search prompts and answers",
+  historySearch: "Search",
+  historyFilterContestant: "Contestant",
+  historyFilterPrompter: "Prompter",
+  historyFilterJudge: "Judge",
+  historyFilterWinner: "Winner",
+  historyFilterAnyModel: "Any model",
+  historyFilterSkip: {
+    all: "All rounds",
+    played: "Played rounds only",
+    skipped: "Skipped rounds only",
+    prompt_error: "Skipped by prompt failure",
+    answer_error: "Skipped by answer failure",
+  },
+  historyFilterDisagreement: "AIs and audience disagreed",
+  historyFilterFrom: "From",
+  historyFilterTo: "To",
+  historyFilterClear: "Clear filters",
+  historyNoResults: "No rounds match these filters.",
+  historySearchOlder: "Search older rounds",
+  roundPermalink: "Round link",
+  roundNotFound: "Round not found. It may have been deleted on a reset.",
+  roundJudges: "Judges",
+  roundNoVote: "no vote",
+  roundVotedFor: "voted for",
+  roundViewerVotesByPlatform: "Audience votes by platform",
+  roundPlatform: (platform) =>
+    ({ web: "Website", linked: "Linked accounts", twitch: "Twitch", youtube: "YouTube", telegram: "Telegram" })[
+      platform
+    ] ?? platform,
+  roundCost: "Cost",
+  roundTokens: "Tokens",
+  roundReasoningTokens: "Reasoning tokens",
+  roundLatency: "Latency",
+  roundTotals: (requests) => `Round total (${requests} call${requests === 1 ? "" : "s"})`,
+  roundCopyLink: "Copy link",
+  roundLinkCopied: "Link copied",
+  profileNotFound: "Model not found.",
+  profileRecord: "Record",
+  profileRecordLine: (wins, losses, draws) => `${wins}W ${losses}L ${draws}D`,
+  profileAiWinRate: "Win rate with AI judges",
+  profileHumanWinRate: "Win rate with the audience",
+  profileTotals: (aiWins, humanWins, humanVotes) =>
+    `Season score: ${aiWins} AI wins - ${humanWins} audience wins - ${humanVotes} votes`,
+  profilePrompted: (count) => `${count} ${count === 1 ? "prompt written" : "prompts written"}`,
+  profileScanned: (count, isPartial) =>
+    `Based on ${isPartial ? "the last " : ""}${count} ${count === 1 ? "round" : "rounds"} of the season`,
+  profileArchived: "Archived",
+  profileOpponents: "Head to head",
+  profileOpponent: "Opponent",
+  profileVsJudges: "AI judges",
+  profileVsAudience: "Audience",
+  profileBestAnswers: "Best answers",
+  profileWorstAnswers: "Worst answers",
+  profileAnswerVotes: (aiVotes, aiTotal, viewerVotes, viewerTotal) =>
+    `${aiVotes}/${aiTotal} judges - ${viewerVotes}/${viewerTotal} audience`,
+  profileJudging: "Judging",
+  profileJudgingVotes: (votes, abstained) =>
+    `${votes} ${votes === 1 ? "vote" : "votes"}${abstained > 0 ? ` - ${abstained} without a vote` : ""}`,
+  profileAgreementJudges: "Agrees with the judges' majority",
+  profileAgreementAudience: "Agrees with the audience",
+  profileFirstSlot: "Picks the first answer",
+  profileFavoritePicks: "Most picked",
+  profileUsage: "Cost and latency by role",
+  profileRole: { prompt: "Prompt", answer: "Answer", vote: "Vote" },
+  profileEpochs: "Trend by version",
+  profileEpoch: (epoch) => `Version ${epoch}`,
+  profileEpochHint: "A new version starts when the model, provider or reasoning effort changes.",
+  profileAiRating: "AI rating",
+  profileHumanRating: "Audience rating",
+  profileNoData: "No data this season.",
+  matchups: "Matchups",
+  matchupsHint: "Each cell shows the row model's record against the column model (wins, losses and draws).",
+  matchupsEmpty: "No matchups this season yet.",
+  rivalryTitle: "Rivalry of the day",
+  rivalrySummary: (rounds, aiWinsA, aiWinsB, humanWinsA, humanWinsB) =>
+    `${rounds} ${rounds === 1 ? "round" : "rounds"} - judges ${aiWinsA}-${aiWinsB} - audience ${humanWinsA}-${humanWinsB}`,
+  skippedByFailure: "Round skipped after a failure",
+  templateVersionsTitle: "Prompt, answer and vote template versions used in this round",
+  viewerPromptHint: "audience prompt - send yours on the live page or in chat",
+  submitPromptTitle: "Send a prompt",
+  submitPromptName: "Your name",
+  submitPromptText: "E.g. the worst way to ask for a raise",
+  submitPromptSending: "Sending...",
+  submitPromptSend: "Send",
+  submitPromptError: "Failed to send prompt.",
+  accountTitle: "Your account",
+  accountHint: "Link Twitch or YouTube so your vote counts once across chat and site.",
+  accountLinkWith: (platform) => `Sign in with ${platform}`,
+  accountCreateCode: "Get a chat code",
+  accountCodeInstructions: (code) => `Type !link ${code} in chat within 10 minutes.`,
+  accountUnlink: "Unlink",
+  accountUnlinkRoundOpen: "You already voted or predicted this round; unlink once it ends.",
+  accountStats: (votes, promptsSubmitted, promptsUsed) =>
+    `${votes} ${votes === 1 ? "vote" : "votes"} - ${promptsSubmitted} ${promptsSubmitted === 1 ? "prompt sent" : "prompts sent"} - ${promptsUsed} on stage`,
+  accountLinked: (platform) => `${platform} account linked!`,
+  accountLinkError: "Failed to link account.",
+  accountLinkUnavailable: "Sign in is unavailable right now.",
+  predictionTitle: "Prediction",
+  predictionHint: "Which answer will the AI judges pick? Correct picks earn points and streaks add a bonus.",
+  predictionClosed: "Predictions closed: the judges have started voting.",
+  predictionMine: (modelName) => `Your pick: ${modelName}`,
+  predictionStats: (points, correct, total, streak) =>
+    `${points} pts - ${correct}/${total} correct - streak ${streak}`,
+  predictionError: "Failed to save prediction.",
+  predictorsRanking: "Top Predictors",
+  predictorsEmpty: "No scored predictions yet.",
+  predictorAnonymous: (tag) => `Viewer #${tag}`,
+  predictorPoints: (points) => `${points} pts`,
+  submitPromptStatus: (status, minLength, maxLength) =>
+    status === "queued"
+      ? "Prompt sent! It shows up on stage after moderation."
+      : status === "invalid"
+        ? `The prompt must be ${minLength} to ${maxLength} characters long.`
+        : status === "limit"
+          ? "You already have prompts waiting for moderation."
+          : "That prompt is already in the queue.",
+};
+
+const ES_UI: UiStrings = {
+  locale: "es",
+  round: (num) => `Ronda ${num}`,
+  roundSkipped: (modelName) => `Ronda saltada${modelName ? ` - ${modelName}` : ""}`,
+  writingPrompt: "Escribiendo prompt",
+  answering: "Respondiendo",
+  roundDone: "Terminada",
+  technicalFailure: "Falla tecnica",
+  promptFailed: "Error al generar el prompt",
+  generatingPrompt: "Generando prompt...",
+  promptUnavailable: "Prompt no disponible",
+  writingAnswer: "Escribiendo respuesta...",
+  promptBy: "Prompt de",
+  promptSubmittedBy: "Tema enviado por",
+  isWritingPrompt: "esta escribiendo un prompt",
+  isWritingNextPrompt: "esta escribiendo el proximo prompt",
+  votes: (count) => (count === 1 ? "voto" : "votos"),
+  viewerVotes: (count) => (count === 1 ? "voto del publico" : "votos del publico"),
+  won: "GANO",
+  winner: "GANADOR",
+  yourVote: "TU VOTO",
+  tie: "Empate",
+  noAnswer: "Sin respuesta",
+  loading: "Cargando...",
+  loadMore: "Cargar Mas",
+  connecting: "Conectando",
+  starting: "Iniciando",
+  paused: "En pausa",
+  viewersWatching: (count) => `${count} espectador${count === 1 ? "" : "es"} mirando`,
+  bye: "Descanso",
+  toBeDefined: "Por definir",
+  tournamentGame: (label, game) => `${label} - Juego ${game}`,
+  tournamentBrackets: {
+    winners: "Llave superior",
+    losers: "Llave inferior",
+    grand_final: "Gran final",
+  },
+  tournamentTitle: {
+    single_elimination: "Torneo de eliminacion directa",
+    double_elimination: "Torneo de doble eliminacion",
+  },
+  tournamentFormat: {
+    single_elimination: "Eliminacion directa",
+    double_elimination: "Doble eliminacion",
+  },
+  tournamentMeta: (participantCount, bestOf) => `${participantCount} modelos - al mejor de ${bestOf}`,
+  tournamentAria: "Llave del torneo",
+  tournamentChampion: "campeon del torneo",
+  tournamentOver: "Fin del torneo",
+  tournamentInProgress: "En curso",
+  champion: "Campeon",
+  gameOver: "Fin del juego",
+  aiChampion: "Campeon IA",
+  audienceChampion: "Campeon del publico",
+  funniestAi: "es la IA mas graciosa",
+  audienceChampionSub: "campeon de la votacion del publico",
+  noAudienceChampion: "Sin campeon del publico",
+  noAudienceWinsYet: "todavia sin victorias del publico",
+  ranking: "Ranking",
+  rankingSortAria: "Ordenar ranking",
+  rankingWins: "Victorias",
+  rankingRating: "Rating",
+  audienceRanking: "Ranking del Publico",
+  aiRanking: "Ranking de las IAs",
+  history: "Historial",
+  historyTitle: "Rondas Anteriores",
+  backToGame: "Volver al Juego",
+  tournaments: "Torneos",
+  noRounds: "No se encontraron rondas anteriores.",
+  seasonPickerAria: "Elegir temporada",
+  seasonCurrent: "actual",
+  seasonDates: (startedAt, endedAt) => (endedAt ? `${startedAt} a ${endedAt}` : `desde ${startedAt}`),
+  seasonRounds: (count) => `${count} ronda${count === 1 ? "" : "s"}`,
+  seasonRoundsPurged: "Las rondas de esta temporada se borraron en el reset; solo se guardo la tabla final.",
+  seasonCompare: "Comparar temporadas",
+  seasonCompareWith: "Comparar con",
+  seasonCompareEmpty: "No hay tabla guardada para comparar estas temporadas.",
+  seasonModel: "Modelo",
+  seasonNewEntry: "nuevo",
+  seasonAbsent: "fuera",
+  historySearchPlaceholder: "Buscar en el prompt o en las respuestas",
+  historySearch: "Buscar",
+  historyFilterContestant: "Competidor",
+  historyFilterPrompter: "Autor del prompt",
+  historyFilterJudge: "Juez",
+  historyFilterWinner: "Ganador",
+  historyFilterAnyModel: "Cualquier modelo",
+  historyFilterSkip: {
+    all: "Todas las rondas",
+    played: "Solo rondas jugadas",
+    skipped: "Solo rondas saltadas",
+    prompt_error: "Saltadas por falla en el prompt",
+    answer_error: "Saltadas por falla en la respuesta",
+  },
+  historyFilterDisagreement: "IAs y publico no coincidieron",
+  historyFilterFrom: "Desde",
+  historyFilterTo: "Hasta",
+  historyFilterClear: "Limpiar filtros",
+  historyNoResults: "Ninguna ronda coincide con estos filtros.",
+  historySearchOlder: "Buscar en rondas mas antiguas",
+  roundPermalink: "Enlace de la ronda",
+  roundNotFound: "Ronda no encontrada. Puede haberse borrado en un reset.",
+  roundJudges: "Jueces",
+  roundNoVote: "sin voto",
+  roundVotedFor: "voto por",
+  roundViewerVotesByPlatform: "Votos del publico por plataforma",
+  roundPlatform: (platform) =>
+    ({ web: "Sitio", linked: "Cuentas vinculadas", twitch: "Twitch", youtube: "YouTube", telegram: "Telegram" })[
+      platform
+    ] ?? platform,
+  roundCost: "Costo",
+  roundTokens: "Tokens",
+  roundReasoningTokens: "Tokens de razonamiento",
+  roundLatency: "Latencia",
+  roundTotals: (requests) => `Total de la ronda (${requests} llamada${requests === 1 ? "" : "s"})`,
+  roundCopyLink: "Copiar enlace",
+  roundLinkCopied: "Enlace copiado",
+  profileNotFound: "Modelo no encontrado.",
+  profileRecord: "Campana",
+  profileRecordLine: (wins, losses, draws) => `${wins}V ${losses}D ${draws}E`,
+  profileAiWinRate: "Porcentaje de victorias con jueces IA",
+  profileHumanWinRate: "Porcentaje de victorias con el publico",
+  profileTotals: (aiWins, humanWins, humanVotes) =>
+    `Marcador de la temporada: ${aiWins} victorias IA - ${humanWins} victorias del publico - ${humanVotes} votos`,
+  profilePrompted: (count) => `${count} ${count === 1 ? "tema creado" : "temas creados"}`,
+  profileScanned: (count, isPartial) =>
+    `Basado en ${isPartial ? "las ultimas " : ""}${count} ${count === 1 ? "ronda" : "rondas"} de la temporada`,
+  profileArchived: "Archivado",
+  profileOpponents: "Cara a cara",
+  profileOpponent: "Rival",
+  profileVsJudges: "Jueces IA",
+  profileVsAudience: "Publico",
+  profileBestAnswers: "Mejores respuestas",
+  profileWorstAnswers: "Peores respuestas",
+  profileAnswerVotes: (aiVotes, aiTotal, viewerVotes, viewerTotal) =>
+    `${aiVotes}/${aiTotal} jueces - ${viewerVotes}/${viewerTotal} publico`,
+  profileJudging: "Como juzga",
+  profileJudgingVotes: (votes, abstained) =>
+    `${votes} ${votes === 1 ? "voto" : "votos"}${abstained > 0 ? ` - ${abstained} sin voto` : ""}`,
+  profileAgreementJudges: "Coincide con la mayoria de los jueces",
+  profileAgreementAudience: "Coincide con el publico",
+  profileFirstSlot: "Elige la primera respuesta",
+  profileFavoritePicks: "Mas elegidos",
+  profileUsage: "Costo y latencia por funcion",
+  profileRole: { prompt: "Tema", answer: "Respuesta", vote: "Voto" },
+  profileEpochs: "Evolucion por version",
+  profileEpoch: (epoch) => `Version ${epoch}`,
+  profileEpochHint: "Una nueva version empieza cuando cambia el modelo, el proveedor o el esfuerzo de razonamiento.",
+  profileAiRating: "Rating IA",
+  profileHumanRating: "Rating del publico",
+  profileNoData: "Sin datos en esta temporada.",
+  matchups: "Enfrentamientos",
+  matchupsHint: "Cada celda muestra el historial del modelo de la fila contra el de la columna (victorias, derrotas y empates).",
+  matchupsEmpty: "Todavia no hay enfrentamientos en esta temporada.",
+  rivalryTitle: "Rivalidad del dia",
+  rivalrySummary: (rounds, aiWinsA, aiWinsB, humanWinsA, humanWinsB) =>
+    `${rounds} ${rounds === 1 ? "ronda" : "rondas"} - jueces ${aiWinsA}x${aiWinsB} - publico ${humanWinsA}x${humanWinsB}`,
+  skippedByFailure: "Ronda saltada por una falla",
+  templateVersionsTitle: "Versiones de las plantillas de prompt, respuesta y voto usadas en la ronda",
+  viewerPromptHint: "tema del publico - envia el tuyo en la pagina en vivo o en el chat",
+  submitPromptTitle: "Envia un tema",
+  submitPromptName: "Tu nombre",
+  submitPromptText: "Ej: la peor forma de pedir un aumento",
+  submitPromptSending: "Enviando...",
+  submitPromptSend: "Enviar",
+  submitPromptError: "Error al enviar el tema.",
+  accountTitle: "Tu cuenta",
+  accountHint: "Vincula Twitch o YouTube para que tu voto cuente una vez entre el chat y el sitio.",
+  accountLinkWith: (platform) => `Entrar con ${platform}`,
+  accountCreateCode: "Generar codigo para el chat",
+  accountCodeInstructions: (code) => `Escribe !link ${code} en el chat en menos de 10 minutos.`,
+  accountUnlink: "Desvincular",
+  accountUnlinkRoundOpen: "Ya votaste o hiciste una prediccion en esta ronda; desvincula cuando termine.",
+  accountStats: (votes, promptsSubmitted, promptsUsed) =>
+    `${votes} ${votes === 1 ? "voto" : "votos"} - ${promptsSubmitted} ${promptsSubmitted === 1 ? "tema enviado" : "temas enviados"} - ${promptsUsed} en escena`,
+  accountLinked: (platform) => `Cuenta de ${platform} vinculada!`,
+  accountLinkError: "Error al vincular la cuenta.",
+  accountLinkUnavailable: "Inicio de sesion no disponible por ahora.",
+  predictionTitle: "Prediccion",
+  predictionHint: "Que respuesta elegiran los jueces IA? Los aciertos dan puntos y las rachas dan bonus.",
+  predictionClosed: "Predicciones cerradas: los jueces ya empezaron a votar.",
+  predictionMine: (modelName) => `Tu prediccion: ${modelName}`,
+  predictionStats: (points, correct, total, streak) =>
+    `${points} pts - ${correct}/${total} ${total === 1 ? "acierto" : "aciertos"} - racha ${streak}`,
+  predictionError: "Error al registrar la prediccion.",
+  predictorsRanking: "Top Pronosticadores",
+  predictorsEmpty: "Aun no hay predicciones puntuadas.",
+  predictorAnonymous: (tag) => `Espectador #${tag}`,
+  predictorPoints: (points) => `${points} pts`,
+  submitPromptStatus: (status, minLength, maxLength) =>
+    status === "queued"
+      ? "Tema enviado! Aparece en el escenario despues de la moderacion."
+      : status === "invalid"
+        ? `El tema debe tener de ${minLength} a ${maxLength} caracteres.`
+        : status === "limit"
+          ? "Ya tienes temas esperando moderacion."
+          : "Ese tema ya esta en la fila.",
+};
+
+export const UI_STRINGS: Record<ShowLanguage, UiStrings> = {
+  "pt-BR": PT_BR_UI,
+  en: EN_UI,
+  es: ES_UI,
+};
+
+export function getUiStrings(language: unknown): UiStrings {
+  return UI_STRINGS[normalizeShowLanguage(language)];
+}
+
+export type ChatStrings = {
+  pollQuestion: (roundNum: number, prompt: string) => string;
+  pollQuestionNoPrompt: (roundNum: number) => string;
+  pollModelFallback: string;
+  pollNoAnswer: string;
+  voteRejected: string;
+  invalidUser: string;
+  voteUsage: (maxChoice: number) => string;
+  voteInvalidOption: string;
+  voteUnavailable: string;
+  voteChanged: (choice: number) => string;
+  voteUnchanged: (choice: number) => string;
+  voteRecorded: (choice: number) => string;
+  promptRejected: string;
+  promptInvalidLength: (minLength: number, maxLength: number) => string;
+  promptLimit: string;
+  promptDuplicate: string;
+  promptQueued: string;
+  linkRejected: string;
+  linkUsage: string;
+  linkInvalid: string;
+  linkDone: string;
+  predictRejected: string;
+  predictUsage: (maxChoice: number) => string;
+  predictClosed: string;
+  predictChanged: (choice: number) => string;
+  predictUnchanged: (choice: number) => string;
+  predictRecorded: (choice: number) => string;
+};
+
+export const CHAT_STRINGS: Record<ShowLanguage, ChatStrings> = {
+  "pt-BR": {
+    pollQuestion: (roundNum, prompt) => `Rodada ${roundNum} - Prompt: ${prompt}`,
+    pollQuestionNoPrompt: (roundNum) => `Rodada ${roundNum} - Vote no melhor`,
+    pollModelFallback: "Modelo",
+    pollNoAnswer: "[sem resposta]",
+    voteRejected: "voto rejeitado",
+    invalidUser: "usuario invalido",
+    voteUsage: (maxChoice) => `vote com 1 a ${maxChoice}`,
+    voteInvalidOption: "opcao invalida nesta rodada",
+    voteUnavailable: "votacao indisponivel",
+    voteChanged: (choice) => `voto alterado para ${choice}`,
+    voteUnchanged: (choice) => `voto ${choice} ja registrado`,
+    voteRecorded: (choice) => `voto ${choice} registrado`,
+    promptRejected: "tema rejeitado",
+    promptInvalidLength: (minLength, maxLength) => `tema deve ter de ${minLength} a ${maxLength} caracteres`,
+    promptLimit: "voce ja tem temas aguardando moderacao",
+    promptDuplicate: "tema ja enviado",
+    promptQueued: "tema enviado para moderacao",
+    linkRejected: "vinculo rejeitado",
+    linkUsage: "use o codigo mostrado na pagina ao vivo",
+    linkInvalid: "codigo invalido ou expirado",
+    linkDone: "conta vinculada! seu voto agora vale uma vez entre chat e site",
+    predictRejected: "palpite rejeitado",
+    predictUsage: (maxChoice) => `palpite com 1 a ${maxChoice}: quem os juizes IA vao escolher?`,
+    predictClosed: "palpites fechados nesta rodada",
+    predictChanged: (choice) => `palpite alterado para ${choice}`,
+    predictUnchanged: (choice) => `palpite ${choice} ja registrado`,
+    predictRecorded: (choice) => `palpite ${choice} registrado`,
+  },
+  en: {
+    pollQuestion: (roundNum, prompt) => `Round ${roundNum} - Prompt: ${prompt}`,
+    pollQuestionNoPrompt: (roundNum) => `Round ${roundNum} - Vote for the best`,
+    pollModelFallback: "Model",
+    pollNoAnswer: "[no answer]",
+    voteRejected: "vote rejected",
+    invalidUser: "invalid user",
+    voteUsage: (maxChoice) => `vote with 1 to ${maxChoice}`,
+    voteInvalidOption: "invalid option for this round",
+    voteUnavailable: "voting unavailable",
+    voteChanged: (choice) => `vote changed to ${choice}`,
+    voteUnchanged: (choice) => `vote ${choice} already recorded`,
+    voteRecorded: (choice) => `vote ${choice} recorded`,
+    promptRejected: "prompt rejected",
+    promptInvalidLength: (minLength, maxLength) => `prompt must be ${minLength} to ${maxLength} characters`,
+    promptLimit: "you already have prompts waiting for moderation",
+    promptDuplicate: "prompt already submitted",
+    promptQueued: "prompt sent to moderation",
+    linkRejected: "link rejected",
+    linkUsage: "use the code shown on the live page",
+    linkInvalid: "invalid or expired code",
+    linkDone: "account linked! your vote now counts once across chat and site",
+    predictRejected: "prediction rejected",
+    predictUsage: (maxChoice) => `predict with 1 to ${maxChoice}: who will the AI judges pick?`,
+    predictClosed: "predictions closed for this round",
+    predictChanged: (choice) => `prediction changed to ${choice}`,
+    predictUnchanged: (choice) => `prediction ${choice} already recorded`,
+    predictRecorded: (choice) => `prediction ${choice} recorded`,
+  },
+  es: {
+    pollQuestion: (roundNum, prompt) => `Ronda ${roundNum} - Prompt: ${prompt}`,
+    pollQuestionNoPrompt: (roundNum) => `Ronda ${roundNum} - Vota por el mejor`,
+    pollModelFallback: "Modelo",
+    pollNoAnswer: "[sin respuesta]",
+    voteRejected: "voto rechazado",
+    invalidUser: "usuario invalido",
+    voteUsage: (maxChoice) => `vota con 1 a ${maxChoice}`,
+    voteInvalidOption: "opcion invalida en esta ronda",
+    voteUnavailable: "votacion no disponible",
+    voteChanged: (choice) => `voto cambiado a ${choice}`,
+    voteUnchanged: (choice) => `voto ${choice} ya registrado`,
+    voteRecorded: (choice) => `voto ${choice} registrado`,
+    promptRejected: "tema rechazado",
+    promptInvalidLength: (minLength, maxLength) => `el tema debe tener de ${minLength} a ${maxLength} caracteres`,
+    promptLimit: "ya tienes temas esperando moderacion",
+    promptDuplicate: "tema ya enviado",
+    promptQueued: "tema enviado a moderacion",
+    linkRejected: "vinculo rechazado",
+    linkUsage: "usa el codigo que aparece en la pagina en vivo",
+    linkInvalid: "codigo invalido o expirado",
+    linkDone: "cuenta vinculada! tu voto ahora cuenta una vez entre chat y sitio",
+    predictRejected: "prediccion rechazada",
+    predictUsage: (maxChoice) => `predice con 1 a ${maxChoice}: a quien elegiran los jueces IA?`,
+    predictClosed: "predicciones cerradas en esta ronda",
+    predictChanged: (choice) => `prediccion cambiada a ${choice}`,
+    predictUnchanged: (choice) => `prediccion ${choice} ya registrada`,
+    predictRecorded: (choice) => `prediccion ${choice} registrada`,
+  },
+};
+
+export function getChatStrings(language: unknown): ChatStrings {
+  return CHAT_STRINGS[normalizeShowLanguage(language)];
+}
@@ -75,11 +75,31 @@ export type ModelCatalogEntry = {
   canPrompt: boolean;
   canAnswer: boolean;
   canVote: boolean;
+  providerId?: string;
+  inputCostPerMillionUsd?: number;
+  outputCostPerMillionUsd?: number;
+  persona?: string;
   archivedAt?: number;
   createdAt?: number;
   updatedAt?: number;
 };
 
+export const DEFAULT_LLM_PROVIDER_ID = "openrouter";
+export const MOCK_MODEL_ID_PREFIX = "mock:";
+export const AVAILABLE_LLM_PROVIDER_KINDS = ["openrouter", "openai_compatible"] as const;
+export type LlmProviderKind = (typeof AVAILABLE_LLM_PROVIDER_KINDS)[number];
+
+export type LlmProvider = {
+  _id?: string;
+  providerId: string;
+  name: string;
+  kind: LlmProviderKind;
+  baseUrl: string;
+  apiKeyEnv?: string;
+  createdAt?: number;
+  updatedAt?: number;
+};
+
 export const DEFAULT_MODEL_COLOR = "#A1A1A1";
 export const DEFAULT_MODEL_REASONING_EFFORT: ModelReasoningEffort = "medium";
 export const DEFAULT_MODEL_ACTION_ENABLED = true;
@@ -91,6 +111,30 @@ export function isValidModelLogoId(value: string): value is ModelLogoId {
   return LOGO_ID_SET.has(value);
 }
 
+export function isMockModelId(modelId: string): boolean {
+  return modelId.startsWith(MOCK_MODEL_ID_PREFIX);
+}
+
+export function isValidLlmProviderId(value: string): boolean {
+  return /^[a-z0-9][a-z0-9-]{1,39}$/.test(value);
+}
+
+export function isValidLlmProviderKind(value: string): value is LlmProviderKind {
+  return (AVAILABLE_LLM_PROVIDER_KINDS as readonly string[]).includes(value);
+}
+
+export function normalizeCostPerMillion(input?: number | null): number | undefined {
+  if (typeof input !== "number" || !Number.isFinite(input) || input < 0) return undefined;
+  return input;
+}
+
+export const MODEL_PERSONA_MAX_LENGTH = 400;
+
+export function normalizeModelPersona(input?: string | null): string | undefined {
+  const persona = (input ?? "").trim();
+  return persona ? persona.slice(0, MODEL_PERSONA_MAX_LENGTH) : undefined;
+}
+
 export function isValidModelReasoningEffort(value: string): value is ModelReasoningEffort {
   return REASONING_EFFORT_SET.has(value);
 }
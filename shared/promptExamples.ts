@@ -0,0 +1,153 @@
+export type PromptExampleInput = {
+  text: string;
+  category?: string;
+  tags: string[];
+  language: string;
+  enabled: boolean;
+};
+
+export type PromptExampleExportFormat = "json" | "csv";
+
+export const PROMPT_EXAMPLE_CSV_COLUMNS = ["text", "category", "tags", "language", "enabled"] as const;
+
+const CSV_TAG_SEPARATOR = "|";
+
+export function normalizePromptExampleText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+export function normalizePromptExampleTags(input: unknown): string[] {
+  const raw = Array.isArray(input)
+    ? input
+    : typeof input === "string"
+      ? input.split(/[|,;]/)
+      : [];
+  const tags = raw
+    .filter((tag): tag is string => typeof tag === "string")
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+function parseEnabled(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return true;
+  const normalized = value.trim().toLowerCase();
+  return !(normalized === "false" || normalized === "0" || normalized === "no" || normalized === "nao");
+}
+
+export function normalizePromptExampleInput(
+  input: Record<string, unknown>,
+  defaultLanguage: string,
+): PromptExampleInput | null {
+  const text = typeof input.text === "string" ? normalizePromptExampleText(input.text) : "";
+  if (!text) return null;
+  const category = typeof input.category === "string" ? input.category.trim() : "";
+  const language = typeof input.language === "string" && input.language.trim() ? input.language.trim() : defaultLanguage;
+  return {
+    text,
+    category: category || undefined,
+    tags: normalizePromptExampleTags(input.tags),
+    language,
+    enabled: parseEnabled(input.enabled),
+  };
+}
+
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((entry) => entry.some((value) => value.trim()));
+}
+
+export function parsePromptExamplesCsv(content: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const columns = header.map((column) => column.trim().toLowerCase());
+  if (!columns.includes("text")) {
+    throw new Error("CSV precisa da coluna text");
+  }
+  return rows.map((values) =>
+    Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ""])),
+  );
+}
+
+export function parsePromptExamplesJson(content: string): Record<string, unknown>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("JSON invalido");
+  }
+  const rows = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { examples?: unknown }).examples)
+      ? (parsed as { examples: unknown[] }).examples
+      : null;
+  if (!rows) {
+    throw new Error("JSON precisa ser uma lista de exemplos");
+  }
+  return rows.map((row) =>
+    typeof row === "string" ? { text: row } : row && typeof row === "object" ? (row as Record<string, unknown>) : {},
+  );
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function serializePromptExamplesCsv(examples: PromptExampleInput[]): string {
+  const lines = [PROMPT_EXAMPLE_CSV_COLUMNS.join(",")];
+  for (const example of examples) {
+    lines.push(
+      [
+        example.text,
+        example.category ?? "",
+        example.tags.join(CSV_TAG_SEPARATOR),
+        example.language,
+        example.enabled ? "true" : "false",
+      ]
+        .map(escapeCsvValue)
+        .join(","),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,73 @@
+export const PROMPT_TEMPLATE_KINDS = ["prompt", "answer", "vote"] as const;
+
+export type PromptTemplateKind = (typeof PROMPT_TEMPLATE_KINDS)[number];
+
+export type PromptTemplateBody = {
+  system: string;
+  user: string;
+};
+
+export type PromptTemplateVersions = Record<PromptTemplateKind, number>;
+
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKind, readonly string[]> = {
+  prompt: ["examples", "language", "persona"],
+  answer: ["prompt", "language", "persona"],
+  vote: ["prompt", "answers", "answerA", "answerB", "answerC", "answerD", "answerCount", "choices", "language"],
+};
+
+// Variables that must appear somewhere in the template for the call to make sense.
+export const PROMPT_TEMPLATE_REQUIRED_VARIABLES: Record<PromptTemplateKind, readonly string[]> = {
+  prompt: [],
+  answer: ["prompt"],
+  vote: ["prompt"],
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKind, PromptTemplateBody> = {
+  prompt: {
+    system:
+      'Voce e roteirista de comedia para o jogo Quiplash. Gere um unico prompt engracado de preencher lacuna que os jogadores vao tentar responder. O prompt deve ser surpreendente e pensado para render respostas hilarias. Retorne APENAS o texto do prompt, nada alem disso. Mantenha curto (menos de 15 palavras). Escreva no idioma {language}.\n\nUse uma grande VARIEDADE de formatos de prompt. NAO use sempre "A pior coisa para..." - varie bastante! Aqui vao exemplos da faixa de estilos:\n\n{examples}\n\nCrie algo ORIGINAL - nao copie estes exemplos.',
+    user: "Gere um unico prompt original de Quiplash. Seja criativo e nao repita padroes comuns.",
+  },
+  answer: {
+    system:
+      "Voce esta jogando Quiplash! Voce vai receber um prompt de preencher lacuna. De a resposta MAIS ENGRACADA possivel. Seja criativo, ousado, inesperado e conciso. Responda APENAS com a sua resposta - sem aspas, sem explicacao, sem preambulo. Mantenha curto (menos de 12 palavras). Responda no idioma {language}.",
+    user: "Complete a lacuna: {prompt}",
+  },
+  vote: {
+    system:
+      "Voce e jurado em um jogo de comedia. Voce vai ver um prompt de preencher lacuna e {answerCount} respostas. Escolha a resposta MAIS ENGRACADA. Voce DEVE responder exatamente com {choices}.",
+    user: 'Prompt: "{prompt}"\n\n{answers}\n\nQual e a mais engracada? Responda apenas com {choices}.',
+  },
+};
+
+export const PERSONA_PRESETS = [
+  "sarcastico, acido e sempre com um tom de desdem",
+  "tiozao do pave, so faz trocadilhos e piadas de tiozao",
+  "dramatico, exagera tudo como se fosse novela das nove",
+  "nerd, cheio de referencias a ciencia e cultura pop",
+] as const;
+
+export function isPromptTemplateKind(value: unknown): value is PromptTemplateKind {
+  return typeof value === "string" && (PROMPT_TEMPLATE_KINDS as readonly string[]).includes(value);
+}
+
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{([a-zA-Z]+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? (variables[name] ?? "") : match,
+  );
+}
+
+// Personas go where the template puts {persona}; templates without it get the persona appended.
+export function applyPersona(system: string, persona?: string): string {
+  const value = persona?.trim() ?? "";
+  if (system.includes("{persona}")) {
+    return renderPromptTemplate(system, { persona: value });
+  }
+  if (!value) return system;
+  return `${system}\n\nSua personalidade: ${value}. Mantenha essa personalidade sem sair das regras acima.`;
+}
+
+export function findMissingTemplateVariables(kind: PromptTemplateKind, body: PromptTemplateBody): string[] {
+  const combined = `${body.system}\n${body.user}`;
+  return PROMPT_TEMPLATE_REQUIRED_VARIABLES[kind].filter((name) => !combined.includes(`{${name}}`));
+}
@@ -0,0 +1,59 @@
+export const CONTESTANT_SIDES = ["A", "B", "C", "D"] as const;
+
+export type ContestantSide = (typeof CONTESTANT_SIDES)[number];
+
+export const MIN_CONTESTANTS_PER_ROUND = 2;
+export const MAX_CONTESTANTS_PER_ROUND = CONTESTANT_SIDES.length;
+export const DEFAULT_CONTESTANTS_PER_ROUND = 2;
+
+export function normalizeContestantsPerRound(value: unknown): number {
+  const numeric = Number.isFinite(value) ? Math.floor(Number(value)) : DEFAULT_CONTESTANTS_PER_ROUND;
+  return Math.max(MIN_CONTESTANTS_PER_ROUND, Math.min(MAX_CONTESTANTS_PER_ROUND, numeric));
+}
+
+export function sideFromIndex(index: number): ContestantSide | null {
+  return CONTESTANT_SIDES[index] ?? null;
+}
+
+export function indexFromSide(side: unknown): number {
+  return CONTESTANT_SIDES.indexOf(side as ContestantSide);
+}
+
+// Accepts "1".."4" or "A".."D" (case-insensitive) and returns the 0-based contestant index.
+export function parseContestantChoice(raw: string | null | undefined): number {
+  const value = (raw ?? "").trim().toUpperCase();
+  if (!value) return -1;
+  const numeric = Number(value);
+  if (Number.isInteger(numeric) && numeric >= 1 && numeric <= CONTESTANT_SIDES.length) {
+    return numeric - 1;
+  }
+  return indexFromSide(value);
+}
+
+// Returns the unique top index, or -1 when the top score is tied or nobody scored.
+export function resolveWinnerIndex(counts: number[]): number {
+  let best = -1;
+  let bestCount = 0;
+  let tied = false;
+  counts.forEach((count, index) => {
+    if (count > bestCount) {
+      best = index;
+      bestCount = count;
+      tied = false;
+    } else if (count === bestCount && count > 0) {
+      tied = true;
+    }
+  });
+  return tied ? -1 : best;
+}
+
+// Predictions open with the answers and close as soon as the first AI judge finishes voting.
+export function arePredictionsOpen(round: {
+  phase: string;
+  skipped?: boolean;
+  votes: Array<{ finishedAt?: number }>;
+}): boolean {
+  if (round.skipped) return false;
+  if (round.phase !== "answering" && round.phase !== "voting") return false;
+  return !round.votes.some((vote) => typeof vote.finishedAt === "number");
+}
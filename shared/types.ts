@@ -40,16 +40,85 @@ export type RoundState = {
   prompter: Model;
   promptTask: TaskInfo;
   prompt?: string;
-  contestants: [Model, Model];
-  answerTasks: [TaskInfo, TaskInfo];
+  contestants: Model[];
+  answerTasks: TaskInfo[];
   votes: VoteInfo[];
-  scoreA?: number;
-  scoreB?: number;
-  viewerVotesA?: number;
-  viewerVotesB?: number;
+  scores?: number[];
+  viewerVoteCounts?: number[];
   viewerVotingEndsAt?: number;
   viewerVotingWindowMs?: number;
   viewerVotingMode?: "active" | "idle";
+  tournamentId?: string;
+  tournamentMatchId?: string;
+  tournamentGame?: number;
+  promptSubmitter?: string;
+  templateVersions?: { prompt: number; answer: number; vote: number };
+  language?: string;
+};
+
+export type TournamentFormat = "single_elimination" | "double_elimination";
+
+export type TournamentBracket = "winners" | "losers" | "grand_final";
+
+export type TournamentSlot =
+  | { kind: "model"; model: Model; seed: number }
+  | { kind: "bye" }
+  | { kind: "pending" };
+
+export type TournamentMatch = {
+  id: string;
+  bracket: TournamentBracket;
+  round: number;
+  label: string;
+  slots: [TournamentSlot, TournamentSlot];
+  wins: [number, number];
+  games: number;
+  status: "pending" | "ready" | "done" | "bye";
+  winnerSlot: number | null;
+};
+
+export type TournamentState = {
+  _id: string;
+  status: "active" | "completed" | "cancelled";
+  format: TournamentFormat;
+  bestOf: number;
+  winsNeeded: number;
+  participantCount: number;
+  matches: TournamentMatch[];
+  currentMatchId: string | null;
+  champion: Model | null;
+  createdAt: number;
+  completedAt?: number;
+};
+
+export type RatingSource = "ai" | "human";
+
+export type ModelRating = {
+  source: RatingSource;
+  modelId: string;
+  name: string;
+  metricsEpoch: number;
+  rating: number;
+  deviation: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+};
+
+export type HeadToHeadRecord = {
+  modelAId: string;
+  modelBId: string;
+  modelAName: string;
+  modelBName: string;
+  rounds: number;
+  aiWinsA: number;
+  aiWinsB: number;
+  aiTies: number;
+  humanRounds: number;
+  humanWinsA: number;
+  humanWinsB: number;
+  humanTies: number;
 };
 
 export type GameState = {
@@ -58,12 +127,16 @@ export type GameState = {
   scores: Record<string, number>;
   humanScores: Record<string, number>;
   humanVoteTotals: Record<string, number>;
+  ratings: ModelRating[];
+  tournament: TournamentState | null;
+  rivalry: HeadToHeadRecord | null;
   models: ModelCatalogEntry[];
   enabledModelIds: string[];
   done: boolean;
   isPaused: boolean;
   generation: number;
   completedRounds: number;
+  showLanguage?: string;
 };
 
 export type LiveStatePayload = {
@@ -83,6 +156,10 @@ export type AdminSnapshot = {
   canRunRounds: boolean;
   runBlockedReason: "insufficient_active_models" | "insufficient_role_coverage" | null;
   enabledModelIds: string[];
+  contestantsPerRound: number;
+  showLanguage: string;
+  runsMode: "infinite" | "finite" | "tournament";
+  tournament: TournamentState | null;
 };
 
 export type ActiveReasoningProgressItem = {
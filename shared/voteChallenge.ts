@@ -0,0 +1,46 @@
+export type VoteChallenge = {
+  challengeId: string;
+  challenge: string;
+  bits: number;
+  expiresAt: number;
+};
+
+export type VoteProof = {
+  challengeId: string;
+  nonce: string;
+};
+
+async function hashVoteChallenge(challenge: string, viewerId: string, nonce: string): Promise<Uint8Array> {
+  const input = new TextEncoder().encode(`${challenge}:${viewerId}:${nonce}`);
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", input));
+}
+
+function countLeadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+export async function verifyVoteChallenge(
+  challenge: string,
+  viewerId: string,
+  nonce: string,
+  bits: number,
+): Promise<boolean> {
+  if (bits <= 0) return true;
+  return countLeadingZeroBits(await hashVoteChallenge(challenge, viewerId, nonce)) >= bits;
+}
+
+export async function solveVoteChallenge(challenge: string, viewerId: string, bits: number): Promise<string> {
+  for (let attempt = 0; ; attempt += 1) {
+    const nonce = attempt.toString(36);
+    if (await verifyVoteChallenge(challenge, viewerId, nonce, bits)) return nonce;
+  }
+}
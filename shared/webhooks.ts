@@ -0,0 +1,19 @@
+export const WEBHOOK_EVENT_TYPES = [
+  "round.created",
+  "prompt.ready",
+  "answers.ready",
+  "voting.started",
+  "round.finalized",
+  "round.skipped",
+  "engine.paused",
+  "engine.resumed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Sent only by the "send test event" button; webhooks cannot subscribe to it.
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.includes(value as WebhookEventType);
+}
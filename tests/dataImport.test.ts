@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import { parseImportFile } from "../convex/dataImport";
+import { AVAILABLE_MODEL_LOGO_IDS } from "../shared/models";
+
+const alpha = { id: "mock:alfa", name: "Alfa" };
+const beta = { id: "mock:beta", name: "Beta" };
+const gamma = { id: "mock:gama", name: "Gama" };
+
+// A finished round as /admin/export writes it: votes point at a model, not a side.
+function exportedRound(overrides: Record<string, unknown> = {}) {
+  return {
+    num: 1,
+    phase: "done",
+    prompter: gamma,
+    promptTask: { model: gamma, startedAt: 1_000, finishedAt: 1_500, result: "Tema" },
+    prompt: "Tema",
+    contestants: [alpha, beta],
+    answerTasks: [
+      { model: alpha, startedAt: 2_000, finishedAt: 2_500, result: "Resposta A" },
+      { model: beta, startedAt: 2_000, finishedAt: 2_800, result: "Resposta B" },
+    ],
+    votes: [
+      { voter: gamma, startedAt: 3_000, finishedAt: 3_200, votedFor: beta },
+      { voter: alpha, startedAt: 3_000, finishedAt: 3_400, votedFor: beta },
+    ],
+    viewerVoteCounts: [3, "7"],
+    ...overrides,
+  };
+}
+
+describe("parseImportFile", () => {
+  test("rejects anything that is not an export object", () => {
+    const parsed = parseImportFile([]);
+    expect(parsed.errors).toEqual(["Arquivo nao e um export do admin"]);
+    expect(parsed.rounds).toEqual([]);
+  });
+
+  test("maps exported rounds back to stored rows", () => {
+    const parsed = parseImportFile({
+      rounds: [exportedRound({ num: 2 }), exportedRound({ num: 1 }), { ...exportedRound({ num: 3 }), phase: "voting" }],
+    });
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.skippedRounds).toBe(1);
+    expect(parsed.rounds.map((round) => round.num)).toEqual([1, 2]);
+
+    const round = parsed.rounds[0];
+    expect(round.votes.map((vote: any) => vote.votedForSide)).toEqual(["B", "B"]);
+    expect(round.viewerVoteCounts).toEqual([3, 7]);
+    expect(round.createdAt).toBe(1_000);
+    expect(round.completedAt).toBe(3_400);
+    expect(round).not.toHaveProperty("phase");
+  });
+
+  test("keeps only the known task metric fields", () => {
+    const metrics = {
+      generationId: "gen-1",
+      durationSource: "local",
+      costUsd: 0.01,
+      promptTokens: 10,
+      completionTokens: 20,
+      totalTokens: 30,
+      reasoningTokens: 0,
+      durationMsLocal: 500,
+      durationMsFinal: 500,
+      recordedAt: 2_500,
+    };
+    const parsed = parseImportFile({
+      rounds: [
+        exportedRound({
+          promptTask: { model: gamma, startedAt: 1_000, finishedAt: 1_500, metrics: { ...metrics, extra: true } },
+        }),
+      ],
+    });
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.rounds[0].promptTask.metrics).toEqual(metrics);
+  });
+
+  test("reports rounds the rounds table would reject", () => {
+    const parsed = parseImportFile({
+      rounds: [
+        exportedRound({ num: 1, language: "klingon" }),
+        exportedRound({ num: 2, answerTasks: undefined }),
+        exportedRound({
+          num: 3,
+          promptTask: { model: gamma, startedAt: 1_000, metrics: { generationId: "gen-1", durationSource: "local" } },
+        }),
+        exportedRound({ num: 4, votes: [{ voter: gamma }] }),
+        exportedRound({ num: 5, contestants: [alpha] }),
+      ],
+    });
+    expect(parsed.rounds).toEqual([]);
+    expect(parsed.errors).toEqual([
+      "rounds[0]: idioma invalido",
+      "rounds[1]: campos obrigatorios ausentes ou invalidos",
+      "rounds[2]: campos obrigatorios ausentes ou invalidos",
+      "rounds[3]: voto invalido",
+      "rounds[4]: campos obrigatorios ausentes ou invalidos",
+    ]);
+  });
+
+  test("parses models and viewer targets", () => {
+    const parsed = parseImportFile({
+      models: [
+        { modelId: " mock:alfa ", name: "Alfa", logoId: AVAILABLE_MODEL_LOGO_IDS[0], enabled: true },
+        { modelId: "mock:beta", name: "Beta", logoId: "not-a-logo" },
+      ],
+      viewerTargets: [
+        { platform: "twitch", target: " SomeChannel " },
+        { platform: "kick", target: "other" },
+      ],
+    });
+    expect(parsed.models.map((model) => model.modelId)).toEqual(["mock:alfa"]);
+    expect(parsed.viewerTargets).toEqual([{ platform: "twitch", target: "somechannel", enabled: true }]);
+    expect(parsed.errors).toEqual(["models[1]: logo invalida", "viewerTargets[1]: target invalido"]);
+  });
+
+  test("reads the Telegram channel without the bot token", () => {
+    const parsed = parseImportFile({
+      state: { telegramChannelId: " @canal ", telegramEnabled: true, telegramBotToken: "secret" },
+    });
+    expect(parsed.telegram).toEqual({ enabled: true, channelId: "@canal" });
+    expect(JSON.stringify(parsed)).not.toContain("secret");
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { matchModerationRules } from "../convex/moderation";
+
+describe("matchModerationRules", () => {
+  test("matches whole words ignoring accents and case", () => {
+    const rules = [{ pattern: "Maçã", kind: "word" as const }];
+    expect(matchModerationRules("Uma MACA podre", rules)).toEqual(["palavra: Maçã"]);
+    expect(matchModerationRules("macarrao no almoco", rules)).toEqual([]);
+  });
+
+  test("matches regex rules against the original text", () => {
+    const rules = [{ pattern: "\\d{3}-\\d{4}", kind: "regex" as const }];
+    expect(matchModerationRules("ligue 555-1234", rules)).toEqual(["regex: \\d{3}-\\d{4}"]);
+    expect(matchModerationRules("sem telefone", rules)).toEqual([]);
+  });
+
+  test("skips invalid and empty rules", () => {
+    const rules = [
+      { pattern: "(", kind: "regex" as const },
+      { pattern: "   ", kind: "word" as const },
+      { pattern: "bobo", kind: "word" as const },
+    ];
+    expect(matchModerationRules("que bobo!", rules)).toEqual(["palavra: bobo"]);
+  });
+});
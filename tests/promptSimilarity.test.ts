@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findMostSimilarPrompt,
+  getPromptNgrams,
+  indexPromptReferences,
+  isPromptTooSimilar,
+  jaccardSimilarity,
+  normalizeForSimilarity,
+} from "../convex/promptSimilarity";
+
+describe("prompt similarity", () => {
+  test("ignores accents, case and punctuation", () => {
+    expect(normalizeForSimilarity("  Pão de Açúcar!!  ")).toBe("pao de acucar");
+    expect(jaccardSimilarity(getPromptNgrams("Pão de Açúcar"), getPromptNgrams("pao, de acucar"))).toBe(1);
+  });
+
+  test("scores unrelated or empty prompts as zero", () => {
+    expect(jaccardSimilarity(getPromptNgrams("abc"), getPromptNgrams("xyz"))).toBe(0);
+    expect(jaccardSimilarity(getPromptNgrams(""), getPromptNgrams("abc"))).toBe(0);
+  });
+
+  test("finds the closest reference and flags near duplicates", () => {
+    const references = indexPromptReferences([
+      { text: "A pior desculpa para faltar ao trabalho", source: "round", roundNum: 4 },
+      { text: "a pior desculpa para faltar ao TRABALHO!", source: "example" },
+      { text: "O nome de uma banda de pagode de robos", source: "example" },
+    ]);
+    expect(references).toHaveLength(2);
+
+    const match = findMostSimilarPrompt("A pior desculpa para faltar no trabalho", references);
+    expect(match?.matchRoundNum).toBe(4);
+    expect(isPromptTooSimilar(match)).toBe(true);
+
+    const fresh = findMostSimilarPrompt("Um slogan para uma padaria na lua", references);
+    expect(isPromptTooSimilar(fresh)).toBe(false);
+    expect(findMostSimilarPrompt("qualquer coisa", [])).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { computeGlicko2Update } from "../convex/ratings";
+
+describe("computeGlicko2Update", () => {
+  // Worked example from Glickman's "Example of the Glicko-2 system" (tau = 0.5).
+  test("matches the reference example", () => {
+    const next = computeGlicko2Update({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+      { rating: 1400, deviation: 30, volatility: 0.06, score: 1 },
+      { rating: 1550, deviation: 100, volatility: 0.06, score: 0 },
+      { rating: 1700, deviation: 300, volatility: 0.06, score: 0 },
+    ]);
+    expect(next.rating).toBeCloseTo(1464.06, 1);
+    expect(next.deviation).toBeCloseTo(151.52, 1);
+    expect(next.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  test("leaves the player untouched without games", () => {
+    const player = { rating: 1620, deviation: 80, volatility: 0.06 };
+    expect(computeGlicko2Update(player, [])).toEqual(player);
+  });
+
+  test("moves equal players apart by the same amount", () => {
+    const start = { rating: 1500, deviation: 350, volatility: 0.06 };
+    const winner = computeGlicko2Update(start, [{ ...start, score: 1 }]);
+    const loser = computeGlicko2Update(start, [{ ...start, score: 0 }]);
+    expect(winner.rating).toBeGreaterThan(1500);
+    expect(winner.rating - 1500).toBeCloseTo(1500 - loser.rating, 6);
+    expect(winner.deviation).toBeLessThan(350);
+  });
+
+  test("a draw between equal players keeps the rating", () => {
+    const start = { rating: 1500, deviation: 120, volatility: 0.06 };
+    const next = computeGlicko2Update(start, [{ ...start, score: 0.5 }]);
+    expect(next.rating).toBeCloseTo(1500, 6);
+  });
+
+  test("never drops the deviation below the configured floor", () => {
+    let player = { rating: 1500, deviation: 350, volatility: 0.06 };
+    for (let i = 0; i < 200; i++) {
+      player = computeGlicko2Update(player, [{ rating: 1500, deviation: 30, volatility: 0.06, score: i % 2 }]);
+    }
+    expect(player.deviation).toBeGreaterThanOrEqual(30);
+  });
+});
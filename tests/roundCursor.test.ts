@@ -0,0 +1,22 @@
+import { describe, expect, test } from "bun:test";
+import { decodeCompletedAtCursor, encodeCompletedAtCursor } from "../convex/rounds";
+
+describe("completedAt cursor", () => {
+  test("round-trips completedAt and creation time", () => {
+    const cursor = encodeCompletedAtCursor({ completedAt: 1_700_000_000_000, _creationTime: 1_699_999_999_123.5 });
+    expect(decodeCompletedAtCursor(cursor)).toEqual({
+      completedAt: 1_700_000_000_000,
+      creationTime: 1_699_999_999_123.5,
+    });
+  });
+
+  test("encodes a missing completedAt as zero", () => {
+    expect(encodeCompletedAtCursor({ _creationTime: 42 })).toBe("0:42");
+  });
+
+  test("rejects malformed cursors", () => {
+    for (const cursor of ["", "abc", "1", "1:abc", "1:2:3"]) {
+      expect(decodeCompletedAtCursor(cursor)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import { buildTournamentMatches, recordTournamentGame, toClientTournament } from "../convex/tournaments";
+import type { TournamentFormat } from "../shared/types";
+
+function createTournament(format: TournamentFormat, participantCount: number) {
+  const participants = Array.from({ length: participantCount }, (_, index) => ({
+    id: `m${index + 1}`,
+    name: `Model ${index + 1}`,
+  }));
+  return {
+    _id: "t1",
+    status: "active",
+    format,
+    bestOf: 1,
+    participants,
+    matches: buildTournamentMatches(format, participantCount),
+    createdAt: 0,
+  } as any;
+}
+
+// Stands in for ctx.db with the single tournament document recordTournamentGame touches.
+function createCtx(tournament: any) {
+  return {
+    db: {
+      get: async () => tournament,
+      patch: async (_id: string, fields: any) => Object.assign(tournament, fields),
+    },
+  };
+}
+
+// Plays every ready match until the tournament completes; `pickWinner` returns slot 0 or 1.
+async function playOut(tournament: any, pickWinner: (slots: any[], matchId: string) => number) {
+  const ctx = createCtx(tournament);
+  for (let guard = 0; guard < 100 && tournament.status === "active"; guard++) {
+    const state = toClientTournament(tournament)!;
+    const match = state.matches.find((entry) => entry.id === state.currentMatchId);
+    if (!match) throw new Error("Torneio travado sem confronto pronto");
+    const winnerSlot = pickWinner(match.slots, match.id);
+    await recordTournamentGame(
+      ctx,
+      {
+        tournamentId: tournament._id,
+        tournamentMatchId: match.id,
+        contestants: match.slots.map((slot: any) => slot.model),
+      },
+      winnerSlot === 0 ? [1, 0] : [0, 1],
+      [0, 0],
+    );
+  }
+  return toClientTournament(tournament)!;
+}
+
+const seedOf = (slot: any) => slot.seed as number;
+
+describe("buildTournamentMatches", () => {
+  test("pairs the first round by seed", () => {
+    const matches = buildTournamentMatches("single_elimination", 8);
+    expect(matches).toHaveLength(7);
+    expect(matches.slice(0, 4).map((match) => match.sources.map((source) => source.seed))).toEqual([
+      [1, 8],
+      [4, 5],
+      [2, 7],
+      [3, 6],
+    ]);
+  });
+
+  test("lists every match after the matches it depends on", () => {
+    for (const format of ["single_elimination", "double_elimination"] as const) {
+      for (let count = 3; count <= 16; count++) {
+        const seen = new Set<string>();
+        for (const match of buildTournamentMatches(format, count)) {
+          for (const source of match.sources) {
+            if (source.matchId) expect(seen.has(source.matchId)).toBe(true);
+          }
+          seen.add(match.id);
+        }
+      }
+    }
+  });
+
+  test("double elimination ends with a grand final and its reset", () => {
+    const matches = buildTournamentMatches("double_elimination", 8);
+    expect(matches).toHaveLength(7 + 6 + 2);
+    expect(matches.slice(-2).map((match) => [match.id, match.resetOf])).toEqual([
+      ["GF", undefined],
+      ["GF2", "GF"],
+    ]);
+  });
+});
+
+describe("tournament play", () => {
+  test("top seed wins a chalk single elimination bracket", async () => {
+    const state = await playOut(createTournament("single_elimination", 6), (slots) =>
+      seedOf(slots[0]) < seedOf(slots[1]) ? 0 : 1,
+    );
+    expect(state.status).toBe("completed");
+    expect(state.champion?.id).toBe("m1");
+  });
+
+  test("skips the reset when the winners-bracket champion takes the grand final", async () => {
+    const state = await playOut(createTournament("double_elimination", 5), (slots) =>
+      seedOf(slots[0]) < seedOf(slots[1]) ? 0 : 1,
+    );
+    expect(state.champion?.id).toBe("m1");
+    expect(state.matches.find((match) => match.id === "GF2")?.status).toBe("bye");
+  });
+
+  test("plays the reset when the losers-bracket champion takes the grand final", async () => {
+    const state = await playOut(createTournament("double_elimination", 4), (slots, matchId) => {
+      // Chalk everywhere except the first grand final, which seed 2 steals from seed 1.
+      if (matchId === "GF") return seedOf(slots[0]) === 2 ? 0 : 1;
+      return seedOf(slots[0]) < seedOf(slots[1]) ? 0 : 1;
+    });
+    const grandFinal = state.matches.find((match) => match.id === "GF");
+    const reset = state.matches.find((match) => match.id === "GF2");
+    expect(grandFinal?.status).toBe("done");
+    expect(grandFinal?.winnerSlot).toBe(1);
+    expect(reset?.status).toBe("done");
+    expect(state.champion?.id).toBe("m1");
+  });
+
+  test("eliminates every double elimination entrant after exactly two losses", async () => {
+    for (let count = 3; count <= 16; count++) {
+      let random = count;
+      const state = await playOut(createTournament("double_elimination", count), () => {
+        random = (random * 1103515245 + 12345) % 2147483648;
+        return random % 2;
+      });
+      const losses = new Map<string, number>();
+      for (const match of state.matches) {
+        if (match.status !== "done") continue;
+        const loser = match.slots[match.winnerSlot === 0 ? 1 : 0] as any;
+        losses.set(loser.model.id, (losses.get(loser.model.id) ?? 0) + 1);
+      }
+      expect(state.status).toBe("completed");
+      for (let index = 1; index <= count; index++) {
+        const id = `m${index}`;
+        if (id === state.champion?.id) expect(losses.get(id) ?? 0).toBeLessThanOrEqual(1);
+        else expect(losses.get(id)).toBe(2);
+      }
+    }
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, expect, test } from "bun:test";
+import { solveVoteChallenge, verifyVoteChallenge } from "../shared/voteChallenge";
+
+describe("vote proof-of-work", () => {
+  test("accepts any nonce when the challenge is disabled", async () => {
+    expect(await verifyVoteChallenge("challenge", "viewer", "", 0)).toBe(true);
+  });
+
+  test("verifies a solved nonce only for the same challenge and viewer", async () => {
+    const nonce = await solveVoteChallenge("challenge", "viewer-a", 8);
+    expect(await verifyVoteChallenge("challenge", "viewer-a", nonce, 8)).toBe(true);
+    expect(await verifyVoteChallenge("challenge", "viewer-b", nonce, 8)).toBe(false);
+    expect(await verifyVoteChallenge("other", "viewer-a", nonce, 8)).toBe(false);
+  });
+});
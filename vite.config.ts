@@ -1,21 +1,107 @@
-import { defineConfig } from "vite";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
-export default defineConfig({
-  appType: "spa",
-  plugins: [react()],
-  server: {
-    allowedHosts: true,
-  },
-  preview: {
-    allowedHosts: true,
-  },
-  build: {
-    rollupOptions: {
-      input: {
-        main: "index.html",
-        broadcast: "broadcast.html",
+const ROUND_PATH_PATTERN = /^\/round\/(\d+)\/(\d+)\/?$/;
+const ROUND_LABELS: Record<string, string> = { "pt-BR": "Rodada", en: "Round", es: "Ronda" };
+
+type PublicRound = {
+  num: number;
+  prompt?: string;
+  language?: string;
+  skipped?: boolean;
+  contestants: { name: string }[];
+  answerTasks: { result?: string }[];
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value;
+}
+
+function buildRoundMetaTags(round: PublicRound, pageUrl: string, origin: string): string {
+  const label = ROUND_LABELS[round.language ?? ""] ?? ROUND_LABELS["pt-BR"];
+  const title = `${label} ${round.num}: ${round.contestants.map((model) => model.name).join(" vs ")}`;
+  const answers = round.skipped
+    ? []
+    : round.contestants.map((model, index) => `${model.name}: "${round.answerTasks[index]?.result ?? ""}"`);
+  const description = truncate([round.prompt ?? "", ...answers].filter(Boolean).join("\n"), 300);
+  const tags: Record<string, string> = {
+    "og:type": "article",
+    "og:site_name": "TokensComedyClub",
+    "og:title": title,
+    "og:description": description,
+    "og:url": pageUrl,
+    "og:image": `${origin}/assets/profile-black-1000.png`,
+    "twitter:card": "summary",
+    "twitter:title": title,
+    "twitter:description": description,
+  };
+  return [
+    `<title>${escapeHtml(`${title} | TokensComedyClub`)}</title>`,
+    `<meta name="description" content="${escapeHtml(description)}" />`,
+    ...Object.entries(tags).map(([key, value]) => {
+      const attribute = key.startsWith("og:") ? "property" : "name";
+      return `<meta ${attribute}="${key}" content="${escapeHtml(value)}" />`;
+    }),
+  ].join("\n    ");
+}
+
+// Crawlers from Discord and Telegram do not run JS, so /round/:generation/:num gets
+// its Open Graph tags injected into index.html by the preview server.
+function roundMetaPlugin(convexSiteUrl: string | undefined): Plugin {
+  return {
+    name: "round-meta",
+    configurePreviewServer(server) {
+      const indexPath = path.resolve(server.config.root, server.config.build.outDir, "index.html");
+      server.middlewares.use(async (req, res, next) => {
+        const match = ROUND_PATH_PATTERN.exec((req.url ?? "").split("?")[0] ?? "");
+        if (!match || !convexSiteUrl || req.method !== "GET") return next();
+        try {
+          const lookupUrl = `${convexSiteUrl}/api/v1/rounds/lookup?generation=${match[1]}&num=${match[2]}`;
+          const response = await fetch(lookupUrl, { signal: AbortSignal.timeout(3_000) });
+          if (!response.ok) return next();
+          const { round } = (await response.json()) as { round: PublicRound };
+          const protocol = req.headers["x-forwarded-proto"] ?? "http";
+          const origin = `${protocol}://${req.headers["x-forwarded-host"] ?? req.headers.host}`;
+          const html = await readFile(indexPath, "utf8");
+          const tags = buildRoundMetaTags(round, `${origin}${req.url}`, origin);
+          res.setHeader("Content-Type", "text/html; charset=utf-8");
+          res.end(html.replace(/<title>.*?<\/title>/, tags));
+        } catch {
+          next();
+        }
+      });
+    },
+  };
+}
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "VITE_");
+  return {
+    appType: "spa",
+    plugins: [react(), roundMetaPlugin(env.VITE_CONVEX_SITE_URL?.trim().replace(/\/$/, ""))],
+    server: {
+      allowedHosts: true,
+    },
+    preview: {
+      allowedHosts: true,
+    },
+    build: {
+      rollupOptions: {
+        input: {
+          main: "index.html",
+          broadcast: "broadcast.html",
+        },
       },
     },
-  },
+  };
 });